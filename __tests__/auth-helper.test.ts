@@ -0,0 +1,266 @@
+/**
+ * Access tokens
+ *
+ * Every route signs and verifies access tokens through auth-helper with the
+ * configured JWT_SECRET; there is no fallback secret. A valid signature is
+ * not enough on its own: the token's session must still be live and its
+ * user still active.
+ *
+ * @jest-environment node
+ */
+
+import jwt from "jsonwebtoken";
+import { NextRequest } from "next/server";
+import { FakeModel, fakeModel } from "./helpers/fake-models";
+
+jest.mock("@/lib/database/connection", () => ({
+  connectToDatabase: jest.fn(),
+}));
+
+jest.mock("@/lib/database/models", () => ({
+  UserModel: fakeModel(),
+  PharmacistModel: fakeModel(),
+}));
+
+jest.mock("@/lib/database/sessionModels", () => ({
+  SessionModel: fakeModel(),
+}));
+
+import { register } from "@/instrumentation";
+import { PharmacistModel, UserModel } from "@/lib/database/models";
+import { SessionModel } from "@/lib/database/sessionModels";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  AccessTokenClaims,
+  assertAuthConfigured,
+  authenticateRequest,
+  generateAuthToken,
+  issueAccessToken,
+  verifyAccessToken,
+} from "@/lib/utils/auth-helper";
+
+const users = UserModel as unknown as FakeModel;
+const pharmacists = PharmacistModel as unknown as FakeModel;
+const sessions = SessionModel as unknown as FakeModel;
+
+const SECRET = "a-test-secret-that-is-long-enough-0001";
+const USER_ID = "64b000000000000000000140";
+const SESSION_ID = "64b000000000000000000141";
+const PHARMACY_ID = "64b000000000000000000142";
+
+const claims = (
+  fields: Partial<AccessTokenClaims> = {}
+): AccessTokenClaims => ({
+  userId: USER_ID,
+  email: "pharm.chen@example.com",
+  username: "Mei Chen",
+  role: "pharmacist",
+  sid: SESSION_ID,
+  ...fields,
+});
+
+const requestWith = (headers: Record<string, string>) =>
+  new NextRequest("http://localhost/api/drugs", { headers });
+
+const bearer = (token: string) =>
+  requestWith({ authorization: `Bearer ${token}` });
+
+describe("Auth Helper Tests", () => {
+  const env = process.env;
+  let warn: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env = { ...env, JWT_SECRET: SECRET };
+    users.docs = [
+      {
+        _id: USER_ID,
+        email: "pharm.chen@example.com",
+        username: "Mei Chen",
+        role: "pharmacist",
+        walletAddress: "0xabc0000000000000000000000000000000000def",
+        two_factor_enabled: true,
+        is_active: true,
+      },
+    ];
+    pharmacists.docs = [{ user_id: USER_ID, pharmacy_id: PHARMACY_ID }];
+    sessions.docs = [
+      {
+        _id: SESSION_ID,
+        user_id: USER_ID,
+        revoked_at: null,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000),
+      },
+    ];
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    error = jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+    error.mockRestore();
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe("Secret", () => {
+    test("should refuse to boot without a secret", async () => {
+      process.env = { ...env, NEXT_RUNTIME: "nodejs" };
+      delete process.env.JWT_SECRET;
+
+      await expect(register()).rejects.toThrow("JWT_SECRET is not set");
+      expect(() => generateAuthToken(claims())).toThrow(
+        "JWT_SECRET is not set"
+      );
+    });
+
+    test("should refuse a short secret in production and warn elsewhere", () => {
+      process.env = { ...env, JWT_SECRET: "short", NODE_ENV: "production" };
+      expect(() => assertAuthConfigured()).toThrow(
+        "JWT_SECRET must be at least 32 characters long"
+      );
+
+      process.env = { ...env, JWT_SECRET: "short", NODE_ENV: "development" };
+      expect(() => assertAuthConfigured()).not.toThrow();
+      expect(warn).toHaveBeenCalled();
+    });
+
+    test("should not accept tokens signed with the old fallback secrets", async () => {
+      for (const fallback of [
+        "your-secret-key",
+        "your-secret-key-change-in-production",
+      ]) {
+        const forged = jwt.sign(claims({ role: "admin" }), fallback);
+
+        expect(() => verifyAccessToken(forged)).toThrow();
+        expect(await authenticateRequest(bearer(forged))).toEqual({
+          success: false,
+          error: "Invalid or expired token",
+        });
+      }
+    });
+  });
+
+  describe("Claims", () => {
+    test("should verify the token it signed", () => {
+      const token = generateAuthToken(claims({ pharmacyId: PHARMACY_ID }));
+      const verified = verifyAccessToken(token) as any;
+
+      expect(verified).toMatchObject(claims({ pharmacyId: PHARMACY_ID }));
+      expect(verified.exp - verified.iat).toBe(ACCESS_TOKEN_TTL_SECONDS);
+    });
+
+    test("should reject a token without a session or role", () => {
+      const { sid, ...withoutSession } = claims();
+      const { role, ...withoutRole } = claims();
+
+      expect(() => verifyAccessToken(jwt.sign(withoutSession, SECRET))).toThrow(
+        "Access token is missing required claims"
+      );
+      expect(() => verifyAccessToken(jwt.sign(withoutRole, SECRET))).toThrow(
+        "Access token is missing required claims"
+      );
+    });
+
+    test("should issue tokens with the pharmacy scope and wallet", async () => {
+      const token = await issueAccessToken(USER_ID, SESSION_ID);
+
+      expect(verifyAccessToken(token!)).toMatchObject({
+        userId: USER_ID,
+        role: "pharmacist",
+        pharmacyId: PHARMACY_ID,
+        walletAddress: "0xabc0000000000000000000000000000000000def",
+        sid: SESSION_ID,
+      });
+      expect(verifyAccessToken(token!).twoFactorSetupRequired).toBeUndefined();
+    });
+
+    test("should mark tokens of users who still have to enrol in two-factor", async () => {
+      users.docs[0].two_factor_enabled = false;
+
+      const token = await issueAccessToken(USER_ID, SESSION_ID);
+
+      expect(verifyAccessToken(token!).twoFactorSetupRequired).toBe(true);
+    });
+
+    test("should not issue a token to a deactivated user", async () => {
+      users.docs[0].is_active = false;
+
+      expect(await issueAccessToken(USER_ID, SESSION_ID)).toBeNull();
+    });
+  });
+
+  describe("Authentication", () => {
+    test("should accept a token from the header or the auth_token cookie", async () => {
+      const token = generateAuthToken(claims({ pharmacyId: PHARMACY_ID }));
+
+      for (const request of [
+        bearer(token),
+        requestWith({ cookie: `auth_token=${token}` }),
+      ]) {
+        expect(await authenticateRequest(request)).toEqual({
+          success: true,
+          user: expect.objectContaining({
+            id: USER_ID,
+            role: "pharmacist",
+            firstName: "Mei",
+            lastName: "Chen",
+            pharmacyId: PHARMACY_ID,
+            sessionId: SESSION_ID,
+          }),
+        });
+      }
+    });
+
+    test("should not read the legacy token cookie", async () => {
+      const token = generateAuthToken(claims());
+
+      expect(
+        await authenticateRequest(requestWith({ cookie: `token=${token}` }))
+      ).toEqual({
+        success: false,
+        error: "No authentication token provided",
+      });
+    });
+
+    test.each([
+      [
+        "the session was revoked",
+        () => (sessions.docs[0].revoked_at = new Date()),
+      ],
+      [
+        "the session expired",
+        () => (sessions.docs[0].expires_at = new Date(0)),
+      ],
+      ["the user was deactivated", () => (users.docs[0].is_active = false)],
+    ])("should refuse a valid token once %s", async (_case, arrange) => {
+      const token = generateAuthToken(claims());
+      arrange();
+
+      expect(await authenticateRequest(bearer(token))).toEqual({
+        success: false,
+        error: "Session has ended. Please sign in again.",
+      });
+    });
+
+    test("should only admit users who must enrol in two-factor to enrolment", async () => {
+      const token = generateAuthToken(claims({ twoFactorSetupRequired: true }));
+
+      expect(await authenticateRequest(bearer(token))).toEqual({
+        success: false,
+        status: 403,
+        code: "TWO_FACTOR_SETUP_REQUIRED",
+        error: "Set up two-factor authentication to continue",
+      });
+      expect(
+        (
+          await authenticateRequest(bearer(token), {
+            allowTwoFactorSetup: true,
+          })
+        ).success
+      ).toBe(true);
+    });
+  });
+});
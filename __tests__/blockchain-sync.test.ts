@@ -0,0 +1,131 @@
+/**
+ * DrugStockUpdated sync: the on-chain stock is reconciled through the
+ * drug's lots, never written over its stock summary.
+ *
+ * @jest-environment node
+ */
+
+import mongoose from "mongoose";
+import { describeWithMongo, useMongo } from "./helpers/mongo";
+import { blockchainSyncService } from "@/lib/blockchain/BlockchainSyncService";
+
+const { ObjectId } = mongoose.Types;
+
+const DRUG_ID = new ObjectId("64b000000000000000000020");
+const EARLY_LOT = new ObjectId("64b0000000000000000000a1");
+const LATE_LOT = new ObjectId("64b0000000000000000000a2");
+
+const drugs = () => mongoose.connection.collection("drugs");
+const inventoryTransactions = () =>
+  mongoose.connection.collection("inventorytransactions");
+
+function stockUpdated(previousQuantity: number, newQuantity: number) {
+  return {
+    drugId: BigInt(7),
+    previousQuantity: BigInt(previousQuantity),
+    newQuantity: BigInt(newQuantity),
+    transactionType: "DAMAGED",
+    performedBy: "0x0000000000000000000000000000000000000001",
+    timestamp: BigInt(1700000000),
+    blockchainHash: `0x${"ab".repeat(32)}`,
+  };
+}
+
+// Run the handler as the listener does, inside its transaction
+async function sync(event: ReturnType<typeof stockUpdated>) {
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(() =>
+      (blockchainSyncService as any).handleDrugStockUpdated(
+        event,
+        { transactionHash: `0x${"cd".repeat(32)}`, blockNumber: BigInt(42) },
+        session
+      )
+    );
+  } finally {
+    await session.endSession();
+  }
+}
+
+describeWithMongo("Blockchain Sync Tests", () => {
+  useMongo();
+
+  let log: jest.SpyInstance;
+  let warn: jest.SpyInstance;
+
+  beforeAll(async () => {
+    await mongoose.connection.createCollection("drugs");
+    await mongoose.connection.createCollection("inventorytransactions");
+  });
+
+  beforeEach(async () => {
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    await drugs().insertOne({
+      _id: DRUG_ID,
+      name: "Amoxicillin",
+      onchain_drug_id: 7,
+      stock_quantity: 15,
+      batch_number: "AMX-01",
+      expiry_date: new Date("2098-01-01"),
+      lots: [
+        {
+          _id: EARLY_LOT,
+          batch_number: "AMX-01",
+          expiry_date: new Date("2098-01-01"),
+          quantity: 10,
+        },
+        {
+          _id: LATE_LOT,
+          batch_number: "AMX-02",
+          expiry_date: new Date("2099-01-01"),
+          quantity: 5,
+        },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+    warn.mockRestore();
+  });
+
+  test("should take removed stock from the lots first-expiry-first-out", async () => {
+    await sync(stockUpdated(15, 3));
+
+    const drug: any = await drugs().findOne({ _id: DRUG_ID });
+    expect(drug.lots.map((l: any) => l.quantity)).toEqual([0, 3]);
+    expect(drug).toMatchObject({
+      stock_quantity: 3,
+      batch_number: "AMX-02",
+      onchain_block_number: 42,
+    });
+    const transaction: any = await inventoryTransactions().findOne();
+    expect(transaction.quantity).toBe(-12);
+    expect(transaction.lots).toEqual([
+      expect.objectContaining({ lot_id: EARLY_LOT, quantity: 10 }),
+      expect.objectContaining({ lot_id: LATE_LOT, quantity: 2 }),
+    ]);
+  });
+
+  test("should leave the lots alone when the change is already reflected", async () => {
+    await sync(stockUpdated(20, 15));
+
+    const drug: any = await drugs().findOne({ _id: DRUG_ID });
+    expect(drug.stock_quantity).toBe(15);
+    expect(drug.lots.map((l: any) => l.quantity)).toEqual([10, 5]);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test("should not invent a lot for stock added on-chain", async () => {
+    await sync(stockUpdated(15, 40));
+
+    const drug: any = await drugs().findOne({ _id: DRUG_ID });
+    expect(drug.stock_quantity).toBe(15);
+    expect(drug.lots.map((l: any) => l.quantity)).toEqual([10, 5]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("was not reconciled")
+    );
+  });
+});
@@ -0,0 +1,641 @@
+/**
+ * POST /api/prescriptions/dispense
+ *
+ * The stock decrement is conditional on the allocated lots still holding
+ * enough, business-rule failures leave stock and the prescription as they
+ * were, and a retried request with the same Idempotency-Key is replayed.
+ *
+ * @jest-environment node
+ */
+
+import mongoose from "mongoose";
+import { NextRequest } from "next/server";
+import { blockchainService } from "@/lib/services/BlockchainService";
+import { InMemoryLedgerStore } from "@/lib/services/LedgerStore";
+import {
+  FakeModel,
+  fakeModel,
+  fakeQuery,
+  fakeTransactions,
+} from "./helpers/fake-models";
+
+const PHARMACY_ID = "64b000000000000000000001";
+const OTHER_PHARMACY_ID = "64b000000000000000000002";
+const FORMULARY_ID = "64b000000000000000000010";
+const DRUG_ID = "64b000000000000000000020";
+const PRESCRIPTION_ID = "64b000000000000000000030";
+const PHARMACIST_ID = "64b000000000000000000040";
+
+jest.mock("@/lib/database/connection", () => ({
+  DatabaseManager: {
+    getInstance: () => ({ ensureConnection: jest.fn() }),
+  },
+}));
+
+jest.mock("@/lib/utils/auth-helper", () => ({
+  getAuthUser: jest.fn(),
+}));
+
+jest.mock("@/lib/services/NotificationService", () => ({
+  notificationService: {
+    prescriptionDispensed: jest.fn(),
+    lowStock: jest.fn(),
+  },
+}));
+
+jest.mock("@/lib/utils/professional-verification", () => ({
+  ...jest.requireActual("@/lib/utils/professional-verification"),
+  assertVerifiedProfessional: jest.fn(),
+}));
+
+jest.mock("@/lib/utils/pharmacy-scope", () => ({
+  ...jest.requireActual("@/lib/utils/pharmacy-scope"),
+  resolvePharmacyScope: jest.fn(async () => ({
+    pharmacyId: "64b000000000000000000001",
+    restricted: true,
+  })),
+}));
+
+jest.mock("@/lib/utils/patient-access", () => ({
+  ...jest.requireActual("@/lib/utils/patient-access"),
+  assertPatientAccess: jest.fn(),
+}));
+
+jest.mock("@/lib/utils/screening", () => ({
+  ...jest.requireActual("@/lib/utils/screening"),
+  screenMedications: jest.fn(async () => [[]]),
+  recordScreeningOverride: jest.fn(),
+}));
+
+jest.mock("@/lib/database/idempotencyModels", () => ({
+  IdempotencyRecord: fakeModel({ unique: [["key", "user_id", "scope"]] }),
+}));
+
+import { POST } from "@/app/api/prescriptions/dispense/route";
+import { IdempotencyRecord } from "@/lib/database/idempotencyModels";
+import { getAuthUser } from "@/lib/utils/auth-helper";
+import { hashRequestPayload } from "@/lib/utils/idempotency";
+import {
+  recordScreeningOverride,
+  screenMedications,
+} from "@/lib/utils/screening";
+
+const drugs = fakeModel();
+const prescriptions = fakeModel();
+const inventoryTransactions = fakeModel();
+const idempotencyRecords = IdempotencyRecord as unknown as FakeModel;
+const { inTransaction } = fakeTransactions(
+  drugs,
+  prescriptions,
+  inventoryTransactions,
+  idempotencyRecords
+);
+
+// Runs after the route has read the drug, to interleave another request
+let afterDrugRead: (() => void) | null;
+const readDrug = drugs.findOne.getMockImplementation()!;
+drugs.findOne.mockImplementation((filter: any) => {
+  const read = readDrug(filter)
+    .exec()
+    .then((drug: any) => {
+      afterDrugRead?.();
+      return drug;
+    });
+  return fakeQuery(() => read);
+});
+
+function dispenseRequest(body: Record<string, any>, idempotencyKey?: string) {
+  return new NextRequest("http://localhost/api/prescriptions/dispense", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function lot(id: string, batch: string, expiry: string, quantity: number) {
+  return {
+    _id: id,
+    batch_number: batch,
+    expiry_date: new Date(expiry),
+    quantity,
+    recall_id: null,
+  };
+}
+
+const models = mongoose.models as Record<string, any>;
+const originalModels = { ...models };
+
+describe("Dispense Route Tests", () => {
+  let recordDispensing: jest.SpyInstance;
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    idempotencyRecords.docs = [];
+    afterDrugRead = null;
+    blockchainService.useStore(new InMemoryLedgerStore());
+    recordDispensing = jest.spyOn(blockchainService, "recordDispensing");
+    (getAuthUser as jest.Mock).mockResolvedValue({
+      id: PHARMACIST_ID,
+      role: "pharmacist",
+    });
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    drugs.docs = [
+      {
+        _id: DRUG_ID,
+        name: "Amoxicillin",
+        formulary_id: FORMULARY_ID,
+        pharmacy_id: PHARMACY_ID,
+        minimum_stock_level: 5,
+        stock_quantity: 30,
+        lots: [
+          lot("64b0000000000000000000a2", "LATE", "2099-06-01", 20),
+          lot("64b0000000000000000000a1", "EARLY", "2099-01-01", 10),
+        ],
+      },
+    ];
+    prescriptions.docs = [
+      {
+        _id: PRESCRIPTION_ID,
+        formulary_id: FORMULARY_ID,
+        pharmacy_id: PHARMACY_ID,
+        status: "pending",
+        quantity_prescribed: 15,
+      },
+    ];
+    inventoryTransactions.docs = [];
+
+    models.Drug = drugs;
+    models.Prescription = prescriptions;
+    models.InventoryTransaction = inventoryTransactions;
+  });
+
+  afterEach(() => {
+    recordDispensing.mockRestore();
+    log.mockRestore();
+  });
+
+  afterAll(() => {
+    Object.assign(models, originalModels);
+  });
+
+  describe("Stock Deduction", () => {
+    test("should take stock first-expiry-first-out across lots", async () => {
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 15,
+        })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(
+        body.data.lots.map((l: any) => [l.batch_number, l.quantity])
+      ).toEqual([
+        ["EARLY", 10],
+        ["LATE", 5],
+      ]);
+      expect(body.data.drug).toMatchObject({ previousStock: 30, newStock: 15 });
+      expect(drugs.docs[0].stock_quantity).toBe(15);
+      expect(drugs.docs[0].lots.map((l: any) => l.quantity)).toEqual([15, 0]);
+      expect(drugs.docs[0].batch_number).toBe("LATE");
+      expect(prescriptions.docs[0]).toMatchObject({
+        status: "dispensed",
+        quantity_dispensed: 15,
+        pharmacist_id: PHARMACIST_ID,
+        pharmacy_id: PHARMACY_ID,
+        drug_id: DRUG_ID,
+      });
+      expect(inventoryTransactions.docs).toEqual([
+        expect.objectContaining({
+          transaction_type: "dispensed",
+          quantity: 15,
+          performed_by: PHARMACIST_ID,
+        }),
+      ]);
+    });
+
+    test("should record on the ledger only after the dispense commits", async () => {
+      const calledInTransaction: boolean[] = [];
+      recordDispensing.mockImplementation(async () => {
+        calledInTransaction.push(inTransaction());
+        return {
+          transactionId: "DISP_TEST",
+          hash: "a".repeat(64),
+          timestamp: new Date(),
+        };
+      });
+
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 5,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(calledInTransaction).toEqual([false]);
+      expect(recordDispensing.mock.calls[0].slice(2, 4)).toEqual([5, 30]);
+    });
+
+    test("should refuse a dispense when a concurrent one took the stock", async () => {
+      // Another request empties the early lot after this one allocated it
+      afterDrugRead = () => {
+        drugs.docs[0].lots[1].quantity = 0;
+        drugs.docs[0].stock_quantity = 20;
+      };
+
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 8,
+        })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.error).toBe("Insufficient stock");
+      // The decrement was conditional on the early lot still holding 8
+      const [filter] = drugs.findOneAndUpdate.mock.calls[0];
+      expect(filter.$and[0].lots.$elemMatch).toEqual({
+        _id: "64b0000000000000000000a1",
+        quantity: { $gte: 8 },
+        recall_id: null,
+      });
+      expect(inventoryTransactions.docs).toHaveLength(0);
+      expect(prescriptions.docs[0].status).toBe("pending");
+      expect(recordDispensing).not.toHaveBeenCalled();
+    });
+
+    test("should not dispense from a lot frozen by a recall", async () => {
+      afterDrugRead = () => {
+        drugs.docs[0].lots[1].recall_id = "64b000000000000000000070";
+      };
+
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 5,
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect(drugs.docs[0].stock_quantity).toBe(30);
+    });
+
+    test("should fill a prescription written before the formulary from its drug", async () => {
+      delete prescriptions.docs[0].formulary_id;
+      prescriptions.docs[0].drug_id = DRUG_ID;
+      drugs.docs[0].formulary_id = "64b000000000000000000011";
+
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 5,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(drugs.docs[0].stock_quantity).toBe(25);
+    });
+
+    test("should convert stock recorded before lot tracking into a lot", async () => {
+      drugs.docs[0] = {
+        _id: DRUG_ID,
+        formulary_id: FORMULARY_ID,
+        pharmacy_id: PHARMACY_ID,
+        name: "Amoxicillin",
+        batch_number: "LEGACY",
+        expiry_date: new Date("2099-01-01"),
+        minimum_stock_level: 5,
+        stock_quantity: 30,
+      };
+
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 5,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(drugs.docs[0].lots).toEqual([
+        expect.objectContaining({ batch_number: "LEGACY", quantity: 25 }),
+      ]);
+      expect(drugs.docs[0].stock_quantity).toBe(25);
+    });
+  });
+
+  describe("Partial Fills", () => {
+    test("should fill a prescription over several dispenses", async () => {
+      const first = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 5,
+        })
+      );
+      const firstBody = await first.json();
+
+      expect(first.status).toBe(200);
+      expect(firstBody.data.remainingQuantity).toBe(10);
+      expect(prescriptions.docs[0]).toMatchObject({
+        status: "partially_dispensed",
+        quantity_dispensed: 5,
+      });
+
+      const second = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 10,
+        })
+      );
+      const secondBody = await second.json();
+
+      expect(second.status).toBe(200);
+      expect(secondBody.data.remainingQuantity).toBe(0);
+      expect(prescriptions.docs[0].status).toBe("dispensed");
+      expect(prescriptions.docs[0].fills).toEqual([
+        expect.objectContaining({
+          quantity: 5,
+          blockchain_hash: expect.any(String),
+        }),
+        expect.objectContaining({
+          quantity: 10,
+          blockchain_hash: expect.any(String),
+        }),
+      ]);
+      expect(drugs.docs[0].stock_quantity).toBe(15);
+    });
+
+    test("should refuse a fill larger than the remaining balance", async () => {
+      prescriptions.docs[0].status = "partially_dispensed";
+      prescriptions.docs[0].quantity_dispensed = 12;
+
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 5,
+        })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body).toMatchObject({ remaining: 3, requested: 5 });
+      expect(drugs.docs[0].stock_quantity).toBe(30);
+    });
+  });
+
+  describe("Screening", () => {
+    const allergy = {
+      type: "allergy",
+      severity: "severe",
+      drug: "Amoxicillin",
+      conflictsWith: "penicillin",
+      message: "Patient is allergic to penicillin",
+    };
+
+    beforeEach(() => {
+      (screenMedications as jest.Mock).mockResolvedValueOnce([[allergy]]);
+    });
+
+    test("should refuse a dispense with severe warnings and no override", async () => {
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 5,
+        })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.screening).toEqual([allergy]);
+      expect(drugs.docs[0].stock_quantity).toBe(30);
+      expect(recordScreeningOverride).not.toHaveBeenCalled();
+    });
+
+    test("should record the override in the dispense transaction", async () => {
+      let overriddenInTransaction = false;
+      (recordScreeningOverride as jest.Mock).mockImplementationOnce(
+        async () => (overriddenInTransaction = inTransaction())
+      );
+
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 5,
+          overrideReason: "  Tolerated a previous course  ",
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(recordScreeningOverride).toHaveBeenCalledWith(
+        PRESCRIPTION_ID,
+        PHARMACIST_ID,
+        "dispensing",
+        [allergy],
+        "Tolerated a previous course",
+        expect.anything()
+      );
+      expect(overriddenInTransaction).toBe(true);
+    });
+  });
+
+  describe("Business Rule Failures", () => {
+    test.each([
+      [
+        "the prescription does not exist",
+        () => (prescriptions.docs = []),
+        404,
+        "Prescription not found",
+      ],
+      [
+        "the prescription was already dispensed",
+        () => (prescriptions.docs[0].status = "dispensed"),
+        400,
+        "Prescription already dispensed",
+      ],
+      [
+        "the prescription was cancelled",
+        () => (prescriptions.docs[0].status = "cancelled"),
+        400,
+        "Prescription must be verified or pending before dispensing",
+      ],
+      [
+        "the prescription is assigned to another pharmacy",
+        () => (prescriptions.docs[0].pharmacy_id = OTHER_PHARMACY_ID),
+        403,
+        "This prescription is assigned to another pharmacy",
+      ],
+      [
+        "the drug is not stocked at the pharmacy",
+        () => (drugs.docs = []),
+        404,
+        "The prescribed drug is not stocked at your pharmacy",
+      ],
+      [
+        "the drug has expired",
+        () =>
+          drugs.docs[0].lots.forEach(
+            (l: any) => (l.expiry_date = new Date("2000-01-01"))
+          ),
+        400,
+        "Cannot dispense expired drug",
+      ],
+      [
+        "the stock cannot cover the quantity",
+        () => {
+          drugs.docs[0].lots = [
+            lot("64b0000000000000000000a1", "EARLY", "2099-01-01", 4),
+          ];
+          drugs.docs[0].stock_quantity = 4;
+        },
+        400,
+        "Insufficient stock",
+      ],
+    ])("should refuse when %s", async (_case, arrange, status, error) => {
+      arrange();
+
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 5,
+        })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(status);
+      expect(body.error).toBe(error);
+      expect(inventoryTransactions.docs).toHaveLength(0);
+      expect(recordDispensing).not.toHaveBeenCalled();
+    });
+
+    test("should reject a quantity that is not a positive whole number", async () => {
+      const response = await POST(
+        dispenseRequest({
+          prescriptionId: PRESCRIPTION_ID,
+          quantityDispensed: 2.5,
+        })
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("Idempotency-Key Replay", () => {
+    const body = { prescriptionId: PRESCRIPTION_ID, quantityDispensed: 5 };
+
+    test("should replay a completed dispense instead of repeating it", async () => {
+      const first = await POST(dispenseRequest(body, "dispense-key-0001"));
+      const firstBody = await first.json();
+      const retry = await POST(dispenseRequest(body, "dispense-key-0001"));
+
+      expect(first.status).toBe(200);
+      expect(retry.status).toBe(200);
+      expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(await retry.json()).toEqual(firstBody);
+      expect(drugs.docs[0].stock_quantity).toBe(25);
+      expect(inventoryTransactions.docs).toHaveLength(1);
+      expect(recordDispensing).toHaveBeenCalledTimes(1);
+    });
+
+    test("should refuse a key reused for a different request", async () => {
+      await POST(dispenseRequest(body, "dispense-key-0002"));
+      prescriptions.docs[0].status = "pending";
+      const reused = await POST(
+        dispenseRequest({ ...body, quantityDispensed: 6 }, "dispense-key-0002")
+      );
+
+      expect(reused.status).toBe(422);
+      expect(inventoryTransactions.docs).toHaveLength(1);
+    });
+
+    test("should refuse a retry while the first attempt is in progress", async () => {
+      const claimed = {
+        key: "dispense-key-0003",
+        user_id: PHARMACIST_ID,
+        scope: "dispense",
+        request_hash: hashRequestPayload(body),
+        status: "in_progress",
+      };
+      idempotencyRecords.insert(claimed);
+
+      const response = await POST(dispenseRequest(body, "dispense-key-0003"));
+
+      expect(response.status).toBe(409);
+      expect(inventoryTransactions.docs).toHaveLength(0);
+      expect(idempotencyRecords.docs).toEqual([
+        expect.objectContaining(claimed),
+      ]);
+    });
+
+    test("should release the key when the dispense fails so it can be retried", async () => {
+      drugs.docs[0].lots.forEach((l: any) => (l.quantity = 0));
+      drugs.docs[0].stock_quantity = 0;
+
+      const failed = await POST(dispenseRequest(body, "dispense-key-0004"));
+      expect(failed.status).toBe(400);
+      expect(idempotencyRecords.docs).toHaveLength(0);
+
+      drugs.docs[0].lots[1].quantity = 10;
+      drugs.docs[0].stock_quantity = 10;
+      const retried = await POST(dispenseRequest(body, "dispense-key-0004"));
+
+      expect(retried.status).toBe(200);
+      expect(retried.headers.get("Idempotent-Replayed")).toBeNull();
+      expect(drugs.docs[0].stock_quantity).toBe(5);
+    });
+
+    test("should replay a completed dispense without screening it again", async () => {
+      await POST(dispenseRequest(body, "dispense-key-0005"));
+      const retry = await POST(dispenseRequest(body, "dispense-key-0005"));
+
+      expect(retry.status).toBe(200);
+      expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(screenMedications).toHaveBeenCalledTimes(1);
+    });
+
+    test("should release the key when screening refuses the dispense", async () => {
+      (screenMedications as jest.Mock).mockResolvedValueOnce([
+        [{ type: "allergy", severity: "severe", message: "New allergy" }],
+      ]);
+
+      const refused = await POST(dispenseRequest(body, "dispense-key-0006"));
+
+      expect(refused.status).toBe(409);
+      expect(idempotencyRecords.docs).toHaveLength(0);
+    });
+
+    test("should store the response with the dispense so a retry after a later failure is replayed", async () => {
+      recordDispensing.mockRejectedValueOnce(new Error("Ledger unavailable"));
+      const error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+      const failed = await POST(dispenseRequest(body, "dispense-key-0007"));
+      const retry = await POST(dispenseRequest(body, "dispense-key-0007"));
+      const replayed = await retry.json();
+      error.mockRestore();
+
+      expect(failed.status).toBe(500);
+      expect(retry.status).toBe(200);
+      expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+      expect(replayed.data).toMatchObject({
+        drug: { previousStock: 30, newStock: 25 },
+        remainingQuantity: 10,
+        blockchainTransaction: null,
+      });
+      expect(drugs.docs[0].stock_quantity).toBe(25);
+      expect(inventoryTransactions.docs).toHaveLength(1);
+    });
+
+    test("should reject a malformed key", async () => {
+      const response = await POST(dispenseRequest(body, "bad key"));
+
+      expect(response.status).toBe(400);
+      expect(idempotencyRecords.docs).toHaveLength(0);
+    });
+  });
+});
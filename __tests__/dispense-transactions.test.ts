@@ -0,0 +1,269 @@
+/**
+ * Dispensing against a real MongoDB replica set: the stock, the fill, the
+ * inventory transaction and the idempotency key commit or roll back
+ * together, and concurrent dispenses cannot oversell a lot.
+ *
+ * @jest-environment node
+ */
+
+import mongoose from "mongoose";
+import { NextRequest } from "next/server";
+import { describeWithMongo, useMongo } from "./helpers/mongo";
+
+jest.mock("@/lib/database/connection", () => ({
+  connectToDatabase: jest.fn(),
+  DatabaseManager: {
+    getInstance: () => ({ ensureConnection: jest.fn() }),
+  },
+}));
+
+jest.mock("@/lib/utils/auth-helper", () => ({
+  getAuthUser: jest.fn(),
+}));
+
+jest.mock("@/lib/services/NotificationService", () => ({
+  notificationService: {
+    prescriptionDispensed: jest.fn(),
+    lowStock: jest.fn(),
+  },
+}));
+
+jest.mock("@/lib/utils/professional-verification", () => ({
+  ...jest.requireActual("@/lib/utils/professional-verification"),
+  assertVerifiedProfessional: jest.fn(),
+}));
+
+jest.mock("@/lib/utils/patient-access", () => ({
+  ...jest.requireActual("@/lib/utils/patient-access"),
+  assertPatientAccess: jest.fn(),
+}));
+
+jest.mock("@/lib/utils/pharmacy-scope", () => ({
+  ...jest.requireActual("@/lib/utils/pharmacy-scope"),
+  resolvePharmacyScope: jest.fn(async () => ({
+    pharmacyId: "64b000000000000000000001",
+    restricted: true,
+  })),
+}));
+
+jest.mock("@/lib/utils/screening", () => ({
+  ...jest.requireActual("@/lib/utils/screening"),
+  screenMedications: jest.fn(async () => [[]]),
+  recordScreeningOverride: jest.fn(),
+}));
+
+jest.mock("@/lib/utils/prescription-headers", () => ({
+  ...jest.requireActual("@/lib/utils/prescription-headers"),
+  refreshHeaderStatus: jest.fn(),
+}));
+
+import { POST } from "@/app/api/prescriptions/dispense/route";
+import {
+  DrugModel,
+  InventoryTransactionModel,
+  PrescriptionModel,
+} from "@/lib/database/models";
+import { IdempotencyRecord } from "@/lib/database/idempotencyModels";
+import { blockchainService } from "@/lib/services/BlockchainService";
+import { InMemoryLedgerStore } from "@/lib/services/LedgerStore";
+import { getAuthUser } from "@/lib/utils/auth-helper";
+import {
+  recordScreeningOverride,
+  screenMedications,
+} from "@/lib/utils/screening";
+
+const { ObjectId } = mongoose.Types;
+
+const PHARMACY_ID = new ObjectId("64b000000000000000000001");
+const DRUG_ID = new ObjectId("64b000000000000000000020");
+const LOT_ID = new ObjectId("64b0000000000000000000a1");
+const PHARMACIST_ID = "64b000000000000000000040";
+
+function dispenseRequest(body: Record<string, any>, idempotencyKey?: string) {
+  return new NextRequest("http://localhost/api/prescriptions/dispense", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+// A prescription for the seeded drug, written before the formulary
+async function seedPrescription(quantity: number) {
+  const _id = new ObjectId();
+  await PrescriptionModel.collection.insertOne({
+    _id,
+    patient_id: new ObjectId(),
+    doctor_id: new ObjectId(),
+    drug_id: DRUG_ID,
+    pharmacy_id: PHARMACY_ID,
+    status: "pending",
+    quantity_prescribed: quantity,
+    quantity_dispensed: 0,
+    refills_authorized: 0,
+    refills_used: 0,
+    fills: [],
+  });
+  return _id.toString();
+}
+
+const stock = async () => {
+  const drug: any = await DrugModel.findById(DRUG_ID).lean();
+  return { total: drug.stock_quantity, lot: drug.lots[0].quantity };
+};
+
+describeWithMongo("Dispense Transaction Tests", () => {
+  useMongo();
+
+  let recordDispensing: jest.SpyInstance;
+  let log: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    blockchainService.useStore(new InMemoryLedgerStore());
+    recordDispensing = jest.spyOn(blockchainService, "recordDispensing");
+    (getAuthUser as jest.Mock).mockResolvedValue({
+      id: PHARMACIST_ID,
+      role: "pharmacist",
+    });
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+    error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    await DrugModel.collection.insertOne({
+      _id: DRUG_ID,
+      name: "Amoxicillin",
+      pharmacy_id: PHARMACY_ID,
+      minimum_stock_level: 5,
+      stock_quantity: 10,
+      lots: [
+        {
+          _id: LOT_ID,
+          batch_number: "AMX-01",
+          expiry_date: new Date("2099-01-01"),
+          quantity: 10,
+        },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    recordDispensing.mockRestore();
+    log.mockRestore();
+    error.mockRestore();
+  });
+
+  test("should commit the stock, the fill, the ledger entry and the key together", async () => {
+    const prescriptionId = await seedPrescription(4);
+
+    const response = await POST(
+      dispenseRequest({ prescriptionId, quantityDispensed: 4 }, "tx-key-0001")
+    );
+
+    expect(response.status).toBe(200);
+    expect(await stock()).toEqual({ total: 6, lot: 6 });
+    expect(
+      await InventoryTransactionModel.countDocuments({
+        prescription_id: prescriptionId,
+      })
+    ).toBe(1);
+    const prescription: any =
+      await PrescriptionModel.findById(prescriptionId).lean();
+    expect(prescription).toMatchObject({
+      status: "dispensed",
+      quantity_dispensed: 4,
+    });
+    expect(prescription.fills).toHaveLength(1);
+    const key: any = await IdempotencyRecord.findOne({
+      key: "tx-key-0001",
+    }).lean();
+    expect(key.status).toBe("completed");
+    expect(key.response_body.data.blockchainTransaction.hash).toBe(
+      (await response.json()).data.blockchainTransaction.hash
+    );
+  });
+
+  test("should roll back every write when the transaction aborts", async () => {
+    const prescriptionId = await seedPrescription(4);
+    (screenMedications as jest.Mock).mockResolvedValueOnce([
+      [{ type: "allergy", severity: "severe", message: "Penicillin" }],
+    ]);
+    // The override is the last write before the commit
+    (recordScreeningOverride as jest.Mock).mockRejectedValueOnce(
+      new Error("Audit store unavailable")
+    );
+
+    const response = await POST(
+      dispenseRequest(
+        { prescriptionId, quantityDispensed: 4, overrideReason: "Tolerated" },
+        "tx-key-0002"
+      )
+    );
+
+    expect(response.status).toBe(500);
+    expect(await stock()).toEqual({ total: 10, lot: 10 });
+    expect(await InventoryTransactionModel.countDocuments()).toBe(0);
+    expect(
+      await PrescriptionModel.findById(prescriptionId).lean()
+    ).toMatchObject({ status: "pending", quantity_dispensed: 0, fills: [] });
+    expect(await IdempotencyRecord.countDocuments()).toBe(0);
+    expect(recordDispensing).not.toHaveBeenCalled();
+  });
+
+  test("should let only one of two concurrent dispenses take the last stock", async () => {
+    const first = await seedPrescription(10);
+    const second = await seedPrescription(10);
+
+    const responses = await Promise.all(
+      [first, second].map((prescriptionId) =>
+        POST(dispenseRequest({ prescriptionId, quantityDispensed: 10 }))
+      )
+    );
+
+    expect(responses.map((r) => r.status).sort()).toEqual([200, 400]);
+    expect(await stock()).toEqual({ total: 0, lot: 0 });
+    expect(await InventoryTransactionModel.countDocuments()).toBe(1);
+    expect(
+      await PrescriptionModel.countDocuments({ quantity_dispensed: 10 })
+    ).toBe(1);
+  });
+
+  test("should dispense once for concurrent requests with the same key", async () => {
+    const prescriptionId = await seedPrescription(4);
+    const body = { prescriptionId, quantityDispensed: 4 };
+
+    const responses = await Promise.all([
+      POST(dispenseRequest(body, "tx-key-0003")),
+      POST(dispenseRequest(body, "tx-key-0003")),
+    ]);
+
+    // The other request either saw the claim in progress or replayed it
+    expect(responses.map((r) => r.status)).toContain(200);
+    responses.forEach((r) => expect([200, 409]).toContain(r.status));
+    expect(await stock()).toEqual({ total: 6, lot: 6 });
+    expect(await InventoryTransactionModel.countDocuments()).toBe(1);
+    expect(await IdempotencyRecord.countDocuments()).toBe(1);
+  });
+
+  test("should replay the response stored with the dispense when the ledger write fails", async () => {
+    const prescriptionId = await seedPrescription(4);
+    const body = { prescriptionId, quantityDispensed: 4 };
+    recordDispensing.mockRejectedValueOnce(new Error("Ledger unavailable"));
+
+    const failed = await POST(dispenseRequest(body, "tx-key-0004"));
+    const retry = await POST(dispenseRequest(body, "tx-key-0004"));
+
+    expect(failed.status).toBe(500);
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    expect((await retry.json()).data).toMatchObject({
+      drug: { previousStock: 10, newStock: 6 },
+      remainingQuantity: 0,
+      blockchainTransaction: null,
+    });
+    expect(await stock()).toEqual({ total: 6, lot: 6 });
+    expect(await InventoryTransactionModel.countDocuments()).toBe(1);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Stock adjustments through PUT /api/drugs: the request names the stock
+ * the pharmacist counted, and the change is recorded against the stock
+ * read inside the update transaction.
+ *
+ * @jest-environment node
+ */
+
+import mongoose from "mongoose";
+import { NextRequest } from "next/server";
+import { describeWithMongo, useMongo } from "./helpers/mongo";
+
+jest.mock("@/lib/database/connection", () => ({
+  connectToDatabase: jest.fn(),
+  DatabaseManager: {
+    getInstance: () => ({ ensureConnection: jest.fn() }),
+  },
+}));
+
+jest.mock("@/lib/utils/auth-helper", () => ({
+  getAuthUser: jest.fn(async () => ({
+    id: "64b000000000000000000040",
+    role: "pharmacist",
+  })),
+}));
+
+jest.mock("@/lib/utils/pharmacy-scope", () => ({
+  ...jest.requireActual("@/lib/utils/pharmacy-scope"),
+  resolvePharmacyScope: jest.fn(async () => ({
+    pharmacyId: "64b000000000000000000001",
+    restricted: true,
+  })),
+}));
+
+import { PUT } from "@/app/api/drugs/route";
+import { DrugModel, InventoryTransactionModel } from "@/lib/database/models";
+import { blockchainService } from "@/lib/services/BlockchainService";
+import { InMemoryLedgerStore } from "@/lib/services/LedgerStore";
+
+const { ObjectId } = mongoose.Types;
+
+const PHARMACY_ID = new ObjectId("64b000000000000000000001");
+const DRUG_ID = new ObjectId("64b000000000000000000020");
+
+function updateRequest(body: Record<string, any>) {
+  return new NextRequest("http://localhost/api/drugs", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("Drug Stock Route Tests", () => {
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  test("should refuse an update without updates", async () => {
+    const response = await PUT(updateRequest({ drugId: DRUG_ID.toString() }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Updates are required");
+  });
+
+  describeWithMongo("Against MongoDB", () => {
+    useMongo();
+
+    beforeEach(async () => {
+      blockchainService.useStore(new InMemoryLedgerStore());
+      await DrugModel.collection.insertOne({
+        _id: DRUG_ID,
+        name: "Amoxicillin",
+        pharmacy_id: PHARMACY_ID,
+        stock_quantity: 10,
+        lots: [
+          {
+            _id: new ObjectId(),
+            batch_number: "AMX-01",
+            expiry_date: new Date("2099-01-01"),
+            quantity: 10,
+          },
+        ],
+      });
+    });
+
+    test("should count a dispense committed during the request", async () => {
+      const findById = DrugModel.findById.bind(DrugModel);
+      jest.spyOn(DrugModel, "findById").mockImplementationOnce(((id: any) => {
+        const query = findById(id);
+        // Three units leave the shelf once the route has read the drug
+        return query.then(async (drug: any) => {
+          await DrugModel.collection.updateOne(
+            { _id: DRUG_ID },
+            { $inc: { stock_quantity: -3, "lots.0.quantity": -3 } }
+          );
+          return drug;
+        });
+      }) as any);
+
+      const response = await PUT(
+        updateRequest({
+          drugId: DRUG_ID.toString(),
+          updates: { stock_quantity: 20 },
+          lot: { batch_number: "AMX-01", expiry_date: "2099-01-01" },
+        })
+      );
+
+      expect(response.status).toBe(200);
+      const drug: any = await DrugModel.findById(DRUG_ID).lean();
+      expect(drug.stock_quantity).toBe(20);
+      expect(drug.lots[0].quantity).toBe(20);
+      const [transaction]: any[] =
+        await InventoryTransactionModel.find().lean();
+      expect(transaction).toMatchObject({
+        transaction_type: "stock_in",
+        quantity: 13,
+      });
+    });
+
+    test("should ask for a lot only when the counted stock is higher", async () => {
+      const response = await PUT(
+        updateRequest({
+          drugId: DRUG_ID.toString(),
+          updates: { stock_quantity: 12 },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect(
+        (await DrugModel.findById(DRUG_ID).lean<any>())!.stock_quantity
+      ).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Event listener log processing: a log is claimed in the same transaction
+ * as its handler's writes, so it is applied exactly once across processes
+ * and retried after a failed handler.
+ *
+ * @jest-environment node
+ */
+
+import mongoose, { ClientSession } from "mongoose";
+import { describeWithMongo, useMongo } from "./helpers/mongo";
+import { eventListenerService } from "@/lib/blockchain/EventListenerService";
+import { ProcessedEventLog } from "@/lib/database/syncModels";
+
+const drugAddedLog = {
+  transactionHash:
+    "0xABC0000000000000000000000000000000000000000000000000000000000001",
+  logIndex: 0,
+  blockNumber: BigInt(10),
+  blockHash:
+    "0xdef0000000000000000000000000000000000000000000000000000000000001",
+  eventName: "DrugAdded",
+  args: {
+    drugId: BigInt(1),
+    name: "Amoxicillin",
+    initialQuantity: BigInt(50),
+    pharmacistAddress: "0x0000000000000000000000000000000000000001",
+    timestamp: BigInt(1700000000),
+  },
+};
+
+const processLog = (log: any) =>
+  (eventListenerService as any).processLog("drug_inventory", log);
+
+const applied = () => mongoose.connection.collection("applied_events");
+
+describeWithMongo("Event Listener Tests", () => {
+  useMongo();
+
+  let onDrugAdded: jest.Mock;
+  let log: jest.SpyInstance;
+
+  beforeAll(async () => {
+    await mongoose.connection.createCollection("applied_events");
+  });
+
+  beforeEach(() => {
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+    // Stands in for a sync handler: one write in the listener's session
+    onDrugAdded = jest.fn(
+      async (_event: any, _log: any, session: ClientSession) => {
+        await applied().insertOne({ event: "DrugAdded" }, { session });
+      }
+    );
+    eventListenerService.registerHandlers({ onDrugAdded });
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  test("should record the log with the handler's writes", async () => {
+    await processLog(drugAddedLog);
+
+    expect(await applied().countDocuments()).toBe(1);
+    expect(
+      await ProcessedEventLog.findOne({ log_index: 0 }).lean()
+    ).toMatchObject({
+      tx_hash: drugAddedLog.transactionHash.toLowerCase(),
+      event_name: "DrugAdded",
+    });
+  });
+
+  test("should skip a log that was already applied", async () => {
+    await processLog(drugAddedLog);
+    await processLog(drugAddedLog);
+
+    expect(onDrugAdded).toHaveBeenCalledTimes(1);
+    expect(await applied().countDocuments()).toBe(1);
+  });
+
+  test("should apply a log once when two processes receive it together", async () => {
+    await Promise.all([processLog(drugAddedLog), processLog(drugAddedLog)]);
+
+    expect(await applied().countDocuments()).toBe(1);
+    expect(await ProcessedEventLog.countDocuments()).toBe(1);
+  });
+
+  test("should release the claim when the handler fails", async () => {
+    onDrugAdded.mockImplementationOnce(
+      async (_event: any, _log: any, session: ClientSession) => {
+        await applied().insertOne({ event: "DrugAdded" }, { session });
+        throw new Error("Drug lookup failed");
+      }
+    );
+
+    await expect(processLog(drugAddedLog)).rejects.toThrow(
+      "Drug lookup failed"
+    );
+    expect(await applied().countDocuments()).toBe(0);
+    expect(await ProcessedEventLog.countDocuments()).toBe(0);
+
+    // The next poll retries it
+    await processLog(drugAddedLog);
+    expect(await applied().countDocuments()).toBe(1);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Fraud case listing: reading the cases never runs detection, which opens
+ * cases and so needs the fraud:manage permission.
+ *
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { fakeModel } from "./helpers/fake-models";
+
+jest.mock("@/lib/database/connection", () => ({
+  connectToDatabase: jest.fn(),
+}));
+
+jest.mock("@/lib/database/securityModels", () => ({
+  AccessDenial: fakeModel(),
+}));
+
+jest.mock("@/lib/utils/auth-helper", () => ({
+  authenticateRequest: jest.fn(),
+}));
+
+jest.mock("@/lib/services/ReportingService", () => ({
+  reportingService: {
+    listFraudAlerts: jest.fn(async () => [{ id: "alert-1", status: "new" }]),
+    detectFraud: jest.fn(async () => [
+      { id: "alert-1", status: "new" },
+      { id: "alert-2", status: "new" },
+    ]),
+    summarizeFraudAlerts: jest.fn((alerts: any[]) => ({
+      total: alerts.length,
+      critical: 0,
+      medium: 0,
+      low: alerts.length,
+    })),
+    getFraudInvestigators: jest.fn(async () => []),
+  },
+}));
+
+import { GET, POST } from "@/app/api/reporting/fraud/route";
+import { reportingService } from "@/lib/services/ReportingService";
+import { authenticateRequest } from "@/lib/utils/auth-helper";
+import { UserRole } from "@/types/auth";
+
+const request = (method: "GET" | "POST") =>
+  new NextRequest("http://localhost/api/reporting/fraud", { method });
+
+function signedInAs(role: UserRole) {
+  (authenticateRequest as jest.Mock).mockResolvedValue({
+    success: true,
+    user: { id: "64b000000000000000000120", email: "u@example.com", role },
+  });
+}
+
+describe("Fraud Route Tests", () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  test("should list the persisted cases without running detection", async () => {
+    signedInAs("auditor");
+
+    const response = await GET(request("GET"));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.total).toBe(1);
+    expect(reportingService.detectFraud).not.toHaveBeenCalled();
+  });
+
+  test("should run detection on a POST from a case manager", async () => {
+    signedInAs("admin");
+
+    const response = await POST(request("POST"));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.total).toBe(2);
+    expect(reportingService.detectFraud).toHaveBeenCalledTimes(1);
+  });
+
+  test("should refuse detection to roles without fraud:manage", async () => {
+    signedInAs("pharmacist");
+
+    const response = await POST(request("POST"));
+
+    expect(response.status).toBe(403);
+    expect(reportingService.detectFraud).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,574 @@
+/**
+ * In-memory stand-ins for mongoose models, shared by the unit tests. A fake
+ * model keeps plain documents and evaluates the query and update operators
+ * the code under test uses. It does not reproduce MongoDB's concurrency
+ * guarantees; tests that depend on them use ./mongo.ts.
+ */
+
+import mongoose from "mongoose";
+
+type Doc = Record<string, any>;
+
+const isObjectId = (value: any) =>
+  value instanceof mongoose.Types.ObjectId ||
+  value?._bsontype === "ObjectId" ||
+  value?._bsontype === "ObjectID";
+
+const isPlainObject = (value: any) =>
+  value !== null &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  !isObjectId(value);
+
+// Comparable form of a stored value: ObjectIds as hex, dates as numbers
+function normalize(value: any): any {
+  if (isObjectId(value)) return value.toString();
+  if (value instanceof Date) return value.getTime();
+  return value;
+}
+
+function equals(a: any, b: any): boolean {
+  if (a == null || b == null) return a == null && b == null;
+  if (isPlainObject(a) || isPlainObject(b) || Array.isArray(a)) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Deep copy that keeps ObjectIds and dates intact, so stored documents are
+ * never shared with the code under test
+ */
+export function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as any;
+  if (value instanceof Date) return new Date(value.getTime()) as any;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value as Doc).map(([k, v]) => [k, clone(v)])
+    ) as any;
+  }
+  return value;
+}
+
+// Values at a dotted path, descending into arrays as MongoDB does
+function valuesAt(doc: any, path: string): any[] {
+  const [head, ...rest] = path.split(".");
+  const value = doc?.[head];
+  if (!rest.length) return [value];
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => valuesAt(item, rest.join(".")));
+  }
+  return valuesAt(value, rest.join("."));
+}
+
+const isOperatorObject = (value: any) =>
+  isPlainObject(value) &&
+  Object.keys(value).length > 0 &&
+  Object.keys(value).every((k) => k.startsWith("$"));
+
+function compare(value: any, op: string, operand: any): boolean {
+  if (value == null) return false;
+  const a = normalize(value);
+  const b = normalize(operand);
+  switch (op) {
+    case "$gt":
+      return a > b;
+    case "$gte":
+      return a >= b;
+    case "$lt":
+      return a < b;
+    default:
+      return a <= b;
+  }
+}
+
+function matchesOperators(value: any, operators: Doc): boolean {
+  const candidates = Array.isArray(value) ? value : [value];
+  return Object.entries(operators).every(([op, operand]) => {
+    switch (op) {
+      case "$eq":
+        return matchesCondition(value, operand);
+      case "$ne":
+        return !matchesCondition(value, operand);
+      case "$gt":
+      case "$gte":
+      case "$lt":
+      case "$lte":
+        return candidates.some((v) => compare(v, op, operand));
+      case "$in":
+        return operand.some((o: any) => matchesCondition(value, o));
+      case "$nin":
+        return !operand.some((o: any) => matchesCondition(value, o));
+      case "$exists":
+        return (value !== undefined) === Boolean(operand);
+      case "$not":
+        return !matchesCondition(value, operand);
+      case "$elemMatch":
+        return (
+          Array.isArray(value) &&
+          value.some((item) =>
+            isOperatorObject(operand)
+              ? matchesOperators(item, operand)
+              : matchesFilter(item, operand)
+          )
+        );
+      case "$size":
+        return Array.isArray(value) && value.length === operand;
+      case "$all":
+        return operand.every((o: any) => matchesCondition(value, o));
+      case "$regex":
+        return candidates.some(
+          (v) => typeof v === "string" && new RegExp(operand).test(v)
+        );
+      default:
+        throw new Error(`Fake models do not support ${op}`);
+    }
+  });
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  if (isOperatorObject(condition)) return matchesOperators(value, condition);
+  if (condition instanceof RegExp) {
+    return typeof value === "string" && condition.test(value);
+  }
+  if (Array.isArray(value) && !Array.isArray(condition)) {
+    return condition == null
+      ? value.length === 0
+      : value.some((item) => equals(item, condition));
+  }
+  return equals(value, condition);
+}
+
+// Value of an aggregation expression, for $expr filters
+function evaluate(doc: Doc, expression: any): any {
+  if (typeof expression === "string" && expression.startsWith("$")) {
+    return valuesAt(doc, expression.slice(1))[0];
+  }
+  if (!isOperatorObject(expression)) return expression;
+
+  const [[op, args]] = Object.entries<any>(expression);
+  const values = (Array.isArray(args) ? args : [args]).map((arg) =>
+    evaluate(doc, arg)
+  );
+  switch (op) {
+    case "$add":
+      return values.reduce((sum, v) => sum + v, 0);
+    case "$subtract":
+      return values[0] - values[1];
+    case "$ifNull":
+      return values[0] ?? values[1];
+    case "$eq":
+      return equals(values[0], values[1]);
+    case "$ne":
+      return !equals(values[0], values[1]);
+    case "$gt":
+    case "$gte":
+    case "$lt":
+    case "$lte":
+      return compare(values[0], op, values[1]);
+    default:
+      throw new Error(`Fake models do not support ${op}`);
+  }
+}
+
+/**
+ * Whether a document satisfies a MongoDB filter
+ */
+export function matchesFilter(doc: Doc, filter: Doc = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "$expr") return Boolean(evaluate(doc, condition));
+    if (key === "$or") return condition.some((f: Doc) => matchesFilter(doc, f));
+    if (key === "$and") {
+      return condition.every((f: Doc) => matchesFilter(doc, f));
+    }
+    if (key === "$nor") {
+      return !condition.some((f: Doc) => matchesFilter(doc, f));
+    }
+    const values = valuesAt(doc, key);
+    // A missing field matches null, as in MongoDB
+    if (values.length === 0) return matchesCondition(undefined, condition);
+    return values.some((value) => matchesCondition(value, condition));
+  });
+}
+
+// Whether an array element satisfies the filter's conditions on the array
+function matchesArrayConditions(item: any, arrayPath: string, filter: Doc) {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === arrayPath && condition?.$elemMatch) {
+      return matchesFilter(item, condition.$elemMatch);
+    }
+    if (key.startsWith(`${arrayPath}.`)) {
+      return matchesFilter(item, {
+        [key.slice(arrayPath.length + 1)]: condition,
+      });
+    }
+    return true;
+  });
+}
+
+// Parent objects and final keys a path with $ or $[name] refers to
+function resolvePath(
+  doc: Doc,
+  path: string,
+  arrayFilters: Doc[],
+  filter: Doc
+): [Doc, string][] {
+  const parts = path.split(".");
+  let targets: any[] = [doc];
+
+  parts.slice(0, -1).forEach((part, index) => {
+    const filterName = part.match(/^\$\[(\w+)\]$/)?.[1];
+    targets = targets.flatMap((target) => {
+      if (part === "$") {
+        // The first element matched by the query, as MongoDB resolves it
+        const arrayPath = parts.slice(0, index).join(".");
+        const item = (target as any[]).find((i) =>
+          matchesArrayConditions(i, arrayPath, filter)
+        );
+        return item ? [item] : [];
+      }
+      if (filterName) {
+        const arrayFilter = arrayFilters.find((f) =>
+          Object.keys(f).some((k) => k.startsWith(`${filterName}.`))
+        );
+        const condition = Object.fromEntries(
+          Object.entries(arrayFilter || {}).map(([k, v]) => [
+            k.slice(filterName.length + 1),
+            v,
+          ])
+        );
+        return (target as any[]).filter((item) =>
+          matchesFilter(item, condition)
+        );
+      }
+      if (target[part] === undefined) target[part] = {};
+      return [target[part]];
+    });
+  });
+
+  return targets.map((target) => [target, parts[parts.length - 1]]);
+}
+
+/**
+ * Apply a MongoDB update to a document in place. An update without
+ * operators replaces fields, as mongoose treats it as $set.
+ */
+export function applyUpdate(
+  doc: Doc,
+  update: Doc,
+  options: {
+    arrayFilters?: Doc[];
+    inserting?: boolean;
+    filter?: Doc;
+    subdocuments?: string[];
+  } = {}
+): void {
+  const operators = isOperatorObject(update) ? update : { $set: update };
+  const arrayFilters = options.arrayFilters || [];
+
+  for (const [op, fields] of Object.entries<Doc>(operators)) {
+    if (op === "$setOnInsert" && !options.inserting) continue;
+
+    for (const [path, operand] of Object.entries(fields)) {
+      for (const [target, key] of resolvePath(
+        doc,
+        path,
+        arrayFilters,
+        options.filter || {}
+      )) {
+        switch (op) {
+          case "$set":
+          case "$setOnInsert":
+            target[key] = clone(operand);
+            break;
+          case "$unset":
+            delete target[key];
+            break;
+          case "$inc":
+            target[key] = (target[key] || 0) + operand;
+            break;
+          case "$push":
+          case "$addToSet": {
+            const items = operand?.$each ?? [operand];
+            target[key] = target[key] || [];
+            for (const item of items) {
+              if (
+                op === "$addToSet" &&
+                target[key].some((v: any) => equals(v, item))
+              ) {
+                continue;
+              }
+              // Subdocuments get an _id, as mongoose assigns one on push
+              target[key].push(
+                options.subdocuments?.includes(path)
+                  ? { _id: new mongoose.Types.ObjectId(), ...clone(item) }
+                  : clone(item)
+              );
+            }
+            break;
+          }
+          case "$pull":
+            target[key] = (target[key] || []).filter((item: any) =>
+              isPlainObject(operand) && !isOperatorObject(operand)
+                ? !matchesFilter(item, operand)
+                : !matchesCondition(item, operand)
+            );
+            break;
+          default:
+            throw new Error(`Fake models do not support ${op}`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Chainable, awaitable stand-in for a mongoose query
+ */
+export function fakeQuery<T>(result: T | (() => T)) {
+  let sortSpec: Doc | null = null;
+  let skip = 0;
+  let limit = 0;
+
+  const resolve = (): any => {
+    let value: any = typeof result === "function" ? (result as any)() : result;
+    if (Array.isArray(value)) {
+      if (sortSpec) {
+        const [[field, direction]] = Object.entries(sortSpec);
+        value = [...value].sort(
+          (a, b) =>
+            (normalize(a[field]) > normalize(b[field]) ? 1 : -1) *
+            (direction === -1 || direction === "desc" ? -1 : 1)
+        );
+      }
+      value = value.slice(skip, limit ? skip + limit : undefined);
+    }
+    return value;
+  };
+
+  const query: any = {
+    session: () => query,
+    select: () => query,
+    populate: () => query,
+    lean: () => query,
+    sort: (spec: Doc) => ((sortSpec = spec), query),
+    skip: (n: number) => ((skip = n), query),
+    limit: (n: number) => ((limit = n), query),
+    distinct: async (field: string) => {
+      const values = (resolve() as Doc[]).flatMap((d) => valuesAt(d, field));
+      return values.filter(
+        (v, i) => v !== undefined && values.findIndex((w) => equals(v, w)) === i
+      );
+    },
+    exec: async () => resolve(),
+    then: (onFulfilled: any, onRejected: any) =>
+      Promise.resolve().then(resolve).then(onFulfilled, onRejected),
+  };
+  return query;
+}
+
+// A copy of a stored document with the document methods callers use
+function hydrate(doc: Doc | undefined) {
+  if (!doc) return null;
+  const copy = clone(doc);
+  Object.defineProperty(copy, "toObject", { value: () => clone(doc) });
+  // References are left as stored ids
+  Object.defineProperty(copy, "populate", { value: async () => copy });
+  return copy;
+}
+
+export interface FakeModelOptions {
+  // Field sets that must be unique, e.g. [["key", "user_id", "scope"]]
+  unique?: string[][];
+  // Fields the schema declares with `lowercase: true`
+  lowercase?: string[];
+  // Arrays of subdocuments, whose pushed items are given an _id
+  subdocuments?: string[];
+}
+
+type Method = jest.Mock<any, any[]>;
+
+/**
+ * A model over an in-memory collection. Tests read and seed `docs`
+ * directly; every method is a jest.fn so calls can be asserted.
+ */
+export interface FakeModel {
+  docs: Doc[];
+  // Store a document as-is, enforcing the unique field sets
+  insert(doc: Doc): Doc;
+  create: Method;
+  insertMany: Method;
+  find: Method;
+  findOne: Method;
+  findById: Method;
+  exists: Method;
+  countDocuments: Method;
+  distinct: Method;
+  findOneAndUpdate: Method;
+  findByIdAndUpdate: Method;
+  findOneAndDelete: Method;
+  updateOne: Method;
+  updateMany: Method;
+  deleteOne: Method;
+  deleteMany: Method;
+}
+
+export function fakeModel(options: FakeModelOptions = {}): FakeModel {
+  const { subdocuments } = options;
+  const model: FakeModel = {
+    docs: [] as Doc[],
+
+    insert(doc: Doc) {
+      const stored: Doc = { _id: new mongoose.Types.ObjectId(), ...clone(doc) };
+      for (const field of options.lowercase || []) {
+        if (typeof stored[field] === "string") {
+          stored[field] = stored[field].toLowerCase();
+        }
+      }
+      for (const fields of options.unique || []) {
+        if (
+          model.docs.some((existing) =>
+            fields.every((f) => equals(existing[f], stored[f]))
+          )
+        ) {
+          throw Object.assign(new Error("E11000 duplicate key error"), {
+            code: 11000,
+          });
+        }
+      }
+      model.docs.push(stored);
+      return stored;
+    },
+
+    create: jest.fn(async (input: Doc | Doc[]) =>
+      Array.isArray(input)
+        ? input.map((doc) => hydrate(model.insert(doc)))
+        : hydrate(model.insert(input))
+    ),
+    insertMany: jest.fn(async (docs: Doc[]) =>
+      docs.map((doc) => hydrate(model.insert(doc)))
+    ),
+    find: jest.fn((filter: Doc = {}) =>
+      fakeQuery(() =>
+        model.docs.filter((d) => matchesFilter(d, filter)).map(hydrate)
+      )
+    ),
+    findOne: jest.fn((filter: Doc = {}) =>
+      fakeQuery(() => hydrate(model.docs.find((d) => matchesFilter(d, filter))))
+    ),
+    findById: jest.fn((id: any) => model.findOne({ _id: id })),
+    exists: jest.fn((filter: Doc) =>
+      fakeQuery(() => {
+        const doc = model.docs.find((d) => matchesFilter(d, filter));
+        return doc ? { _id: doc._id } : null;
+      })
+    ),
+    countDocuments: jest.fn((filter: Doc = {}) =>
+      fakeQuery(() => model.docs.filter((d) => matchesFilter(d, filter)).length)
+    ),
+    distinct: jest.fn((field: string, filter: Doc = {}) =>
+      model.find(filter).distinct(field)
+    ),
+    findOneAndUpdate: jest.fn((filter: Doc, update: Doc, opts: Doc = {}) =>
+      fakeQuery(() => {
+        let doc = model.docs.find((d) => matchesFilter(d, filter));
+        if (!doc && !opts.upsert) return null;
+        const before = doc && clone(doc);
+        if (!doc) {
+          doc = model.insert(upsertSeed(filter));
+          applyUpdate(doc, update, { ...opts, subdocuments, inserting: true });
+        } else {
+          applyUpdate(doc, update, { ...opts, subdocuments, filter });
+        }
+        return hydrate(opts.new || !before ? doc : before);
+      })
+    ),
+    findByIdAndUpdate: jest.fn((id: any, update: Doc, opts: Doc = {}) =>
+      model.findOneAndUpdate({ _id: id }, update, opts)
+    ),
+    findOneAndDelete: jest.fn((filter: Doc) =>
+      fakeQuery(() => {
+        const index = model.docs.findIndex((d) => matchesFilter(d, filter));
+        return index >= 0 ? hydrate(model.docs.splice(index, 1)[0]) : null;
+      })
+    ),
+    updateOne: jest.fn((filter: Doc, update: Doc, opts: Doc = {}) =>
+      fakeQuery(() => updateDocs(filter, update, opts, 1))
+    ),
+    updateMany: jest.fn((filter: Doc, update: Doc, opts: Doc = {}) =>
+      fakeQuery(() => updateDocs(filter, update, opts, Infinity))
+    ),
+    deleteOne: jest.fn((filter: Doc) => fakeQuery(() => deleteDocs(filter, 1))),
+    deleteMany: jest.fn((filter: Doc = {}) =>
+      fakeQuery(() => deleteDocs(filter, Infinity))
+    ),
+  };
+
+  function updateDocs(filter: Doc, update: Doc, opts: Doc, limit: number) {
+    const matched = model.docs
+      .filter((d) => matchesFilter(d, filter))
+      .slice(0, limit);
+    if (!matched.length && opts.upsert) {
+      const doc = model.insert(upsertSeed(filter));
+      applyUpdate(doc, update, { ...opts, subdocuments, inserting: true });
+      return { matchedCount: 0, modifiedCount: 0, upsertedCount: 1 };
+    }
+    let modifiedCount = 0;
+    for (const doc of matched) {
+      const before = JSON.stringify(doc);
+      applyUpdate(doc, update, { ...opts, subdocuments, filter });
+      if (JSON.stringify(doc) !== before) modifiedCount++;
+    }
+    return { matchedCount: matched.length, modifiedCount, upsertedCount: 0 };
+  }
+
+  function deleteDocs(filter: Doc, limit: number) {
+    const doomed = model.docs
+      .filter((d) => matchesFilter(d, filter))
+      .slice(0, limit);
+    model.docs = model.docs.filter((d) => !doomed.includes(d));
+    return { deletedCount: doomed.length };
+  }
+
+  return model;
+}
+
+// The fields an upsert inserts from its filter: those pinned to one value
+function upsertSeed(filter: Doc): Doc {
+  return Object.fromEntries(
+    Object.entries(filter).filter(
+      ([key, value]) => !key.startsWith("$") && !isOperatorObject(value)
+    )
+  );
+}
+
+/**
+ * Run mongoose transactions against fake models: the callback's changes
+ * are undone when it throws. Returns whether a transaction is open, for
+ * asserting that side effects happen after commit.
+ */
+export function fakeTransactions(...models: FakeModel[]) {
+  let open = false;
+
+  jest.spyOn(mongoose, "startSession").mockImplementation(
+    async () =>
+      ({
+        withTransaction: async (fn: () => Promise<any>) => {
+          const snapshots = models.map((m) => clone(m.docs));
+          open = true;
+          try {
+            return await fn();
+          } catch (error) {
+            models.forEach((m, i) => (m.docs = snapshots[i]));
+            throw error;
+          } finally {
+            open = false;
+          }
+        },
+        endSession: async () => undefined,
+      }) as any
+  );
+
+  return { inTransaction: () => open };
+}
@@ -0,0 +1,42 @@
+/**
+ * A real MongoDB for the tests that depend on transactions, unique indexes
+ * or concurrent writes, which the fakes in ./fake-models do not reproduce.
+ * jest.global-setup.js starts a single-node replica set; where it could not,
+ * suites declared with describeWithMongo are skipped.
+ */
+
+import mongoose from "mongoose";
+
+const uri = process.env.MONGO_TEST_URI;
+
+export const describeWithMongo = uri ? describe : describe.skip;
+
+/**
+ * Connect mongoose to a database of its own for the calling test file, and
+ * empty it after every test
+ */
+export function useMongo() {
+  beforeAll(async () => {
+    await mongoose.connect(uri!, {
+      dbName: `test_${process.pid}_${Date.now()}`,
+    });
+    // Collections cannot be created inside a transaction on every server
+    // version, and unique indexes must exist before the first write
+    await Promise.all(
+      Object.values(mongoose.models).map((model) => model.createCollection())
+    );
+    await Promise.all(
+      Object.values(mongoose.models).map((model) => model.syncIndexes())
+    );
+  });
+
+  afterEach(async () => {
+    const collections = await mongoose.connection.db!.collections();
+    await Promise.all(collections.map((c) => c.deleteMany({})));
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  });
+}
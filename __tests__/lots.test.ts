@@ -0,0 +1,255 @@
+/**
+ * Stock lots
+ *
+ * Dispensing takes stock first-expiry-first-out, the lot decrement only
+ * applies while every allocated lot still holds enough, and a drug's
+ * summary fields follow its lots.
+ *
+ * @jest-environment node
+ */
+
+import mongoose from "mongoose";
+import {
+  allocateFefo,
+  buildLotDecrement,
+  getDispensableQuantity,
+  getRecalledQuantity,
+  legacyLotUpdate,
+  summarizeLots,
+} from "@/lib/utils/lots";
+
+const NOW = new Date("2030-06-01T00:00:00Z");
+const RECALL_ID = new mongoose.Types.ObjectId();
+
+function lot(
+  batchNumber: string,
+  expiryDate: string,
+  quantity: number,
+  extra: Record<string, any> = {}
+) {
+  return {
+    _id: new mongoose.Types.ObjectId(),
+    batch_number: batchNumber,
+    expiry_date: new Date(expiryDate),
+    quantity,
+    ...extra,
+  };
+}
+
+describe("Lot Helper Tests", () => {
+  describe("FEFO Allocation", () => {
+    test("should take the earliest-expiring lots first", () => {
+      const drug = {
+        lots: [
+          lot("C", "2031-03-01", 10),
+          lot("A", "2030-08-01", 4),
+          lot("B", "2030-12-01", 10),
+        ],
+      };
+
+      const allocation = allocateFefo(drug, 9, { now: NOW });
+
+      expect(allocation?.map((a) => [a.batch_number, a.quantity])).toEqual([
+        ["A", 4],
+        ["B", 5],
+      ]);
+      expect(allocation?.[0].lot_id).toBe(drug.lots[1]._id);
+    });
+
+    test("should skip expired lots unless asked to include them", () => {
+      const drug = {
+        lots: [lot("OLD", "2030-01-01", 5), lot("NEW", "2031-01-01", 5)],
+      };
+
+      expect(
+        allocateFefo(drug, 5, { now: NOW })?.map((a) => a.batch_number)
+      ).toEqual(["NEW"]);
+      expect(
+        allocateFefo(drug, 5, { now: NOW, includeExpired: true })?.map(
+          (a) => a.batch_number
+        )
+      ).toEqual(["OLD"]);
+    });
+
+    test("should skip lots frozen by a recall unless asked to include them", () => {
+      const drug = {
+        lots: [
+          lot("RECALLED", "2030-08-01", 5, { recall_id: RECALL_ID }),
+          lot("CLEAR", "2031-01-01", 5),
+        ],
+      };
+
+      expect(
+        allocateFefo(drug, 5, { now: NOW })?.map((a) => a.batch_number)
+      ).toEqual(["CLEAR"]);
+      expect(
+        allocateFefo(drug, 5, { now: NOW, includeRecalled: true })?.map(
+          (a) => a.batch_number
+        )
+      ).toEqual(["RECALLED"]);
+    });
+
+    test("should return null when usable stock cannot cover the quantity", () => {
+      const drug = {
+        lots: [
+          lot("A", "2030-08-01", 3),
+          lot("EXPIRED", "2030-01-01", 10),
+          lot("RECALLED", "2030-09-01", 10, { recall_id: RECALL_ID }),
+          lot("EMPTY", "2030-10-01", 0),
+        ],
+      };
+
+      expect(allocateFefo(drug, 4, { now: NOW })).toBeNull();
+      expect(allocateFefo(drug, 3, { now: NOW })).toHaveLength(1);
+    });
+
+    test("should not allocate stock recorded before lot tracking", () => {
+      const drug = {
+        stock_quantity: 20,
+        batch_number: "LEGACY",
+        expiry_date: new Date("2031-01-01"),
+      };
+
+      expect(allocateFefo(drug, 1, { now: NOW })).toBeNull();
+
+      const update = legacyLotUpdate(drug);
+      expect(update?.$set.lots).toHaveLength(1);
+      expect(update?.$set.lots[0]).toMatchObject({
+        batch_number: "LEGACY",
+        quantity: 20,
+      });
+      expect(
+        allocateFefo({ lots: update?.$set.lots }, 20, { now: NOW })
+      ).toHaveLength(1);
+    });
+
+    test("should leave drugs that already use lots unconverted", () => {
+      expect(legacyLotUpdate({ lots: [lot("A", "2031-01-01", 1)] })).toBeNull();
+      expect(legacyLotUpdate({ stock_quantity: 0 })).toBeNull();
+    });
+  });
+
+  describe("Stock Quantities", () => {
+    const drug = {
+      lots: [
+        lot("EXPIRED", "2030-01-01", 2),
+        lot("RECALLED", "2030-09-01", 3, { recall_id: RECALL_ID }),
+        lot("GOOD", "2031-01-01", 7),
+      ],
+    };
+
+    test("should count only unexpired lots not under recall as dispensable", () => {
+      expect(getDispensableQuantity(drug, NOW)).toBe(7);
+    });
+
+    test("should count the stock frozen by recalls", () => {
+      expect(getRecalledQuantity(drug)).toBe(3);
+    });
+  });
+
+  describe("Conditional Decrement", () => {
+    const drugId = new mongoose.Types.ObjectId();
+    const allocation = [
+      {
+        lot_id: new mongoose.Types.ObjectId(),
+        batch_number: "A",
+        expiry_date: new Date("2030-08-01"),
+        quantity: 4,
+      },
+      {
+        lot_id: new mongoose.Types.ObjectId(),
+        batch_number: "B",
+        expiry_date: new Date("2030-12-01"),
+        quantity: 5,
+      },
+    ];
+
+    test("should require every lot to still hold its share and be unrecalled", () => {
+      const { filter } = buildLotDecrement(drugId, allocation);
+
+      expect(filter).toEqual({
+        _id: drugId,
+        stock_quantity: { $gte: 9 },
+        $and: [
+          {
+            lots: {
+              $elemMatch: {
+                _id: allocation[0].lot_id,
+                quantity: { $gte: 4 },
+                recall_id: null,
+              },
+            },
+          },
+          {
+            lots: {
+              $elemMatch: {
+                _id: allocation[1].lot_id,
+                quantity: { $gte: 5 },
+                recall_id: null,
+              },
+            },
+          },
+        ],
+      });
+    });
+
+    test("should decrement each lot and the total through array filters", () => {
+      const { update, arrayFilters } = buildLotDecrement(drugId, allocation);
+
+      expect(update).toEqual({
+        $inc: {
+          stock_quantity: -9,
+          "lots.$[lot0].quantity": -4,
+          "lots.$[lot1].quantity": -5,
+        },
+      });
+      expect(arrayFilters).toEqual([
+        { "lot0._id": allocation[0].lot_id },
+        { "lot1._id": allocation[1].lot_id },
+      ]);
+    });
+
+    test("should only match lots frozen by the given recall", () => {
+      const { filter } = buildLotDecrement(drugId, allocation, RECALL_ID);
+
+      expect(filter.$and.map((c: any) => c.lots.$elemMatch.recall_id)).toEqual([
+        RECALL_ID,
+        RECALL_ID,
+      ]);
+    });
+  });
+
+  describe("Stock Summary", () => {
+    test("should total the lots and follow the next lot to expire", () => {
+      const summary = summarizeLots({
+        lots: [
+          lot("LATE", "2031-01-01", 6),
+          lot("EMPTY", "2030-07-01", 0),
+          lot("NEXT", "2030-09-01", 4),
+        ],
+      });
+
+      expect(summary).toEqual({
+        stock_quantity: 10,
+        batch_number: "NEXT",
+        expiry_date: new Date("2030-09-01"),
+      });
+    });
+
+    test("should keep the last lot's batch once every lot is empty", () => {
+      const summary = summarizeLots({
+        lots: [lot("FIRST", "2030-07-01", 0), lot("LAST", "2031-01-01", 0)],
+      });
+
+      expect(summary).toEqual({
+        stock_quantity: 0,
+        batch_number: "LAST",
+        expiry_date: new Date("2031-01-01"),
+      });
+    });
+
+    test("should report no stock for a drug without lots", () => {
+      expect(summarizeLots({ lots: [] })).toEqual({ stock_quantity: 0 });
+    });
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * Patient access scoping
+ *
+ * Doctors and pharmacists see a patient's records only through a grant the
+ * patient made, which can expire or be revoked, or through a one-hour
+ * break-glass window that the patient is told about.
+ *
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { FakeModel, fakeModel, fakeQuery } from "./helpers/fake-models";
+
+const PATIENT = "64b000000000000000000080";
+const OTHER_PATIENT = "64b000000000000000000081";
+const THIRD_PATIENT = "64b000000000000000000082";
+const PATIENT_USER = "64b000000000000000000090";
+
+const DOCTOR_USER = "64b000000000000000000100";
+const DOCTOR = "64b000000000000000000101";
+const OTHER_DOCTOR_USER = "64b000000000000000000102";
+const OTHER_DOCTOR = "64b000000000000000000103";
+
+const PHARMACIST_USER = "64b000000000000000000110";
+const PHARMACY = "64b000000000000000000111";
+const OTHER_PHARMACIST_USER = "64b000000000000000000112";
+const OTHER_PHARMACY = "64b000000000000000000113";
+const UNASSIGNED_PHARMACIST_USER = "64b000000000000000000114";
+
+const pharmacies: Record<string, string> = {
+  [PHARMACIST_USER]: PHARMACY,
+  [OTHER_PHARMACIST_USER]: OTHER_PHARMACY,
+};
+
+// The one patient on record, looked up by user ID or record number
+function findPatient(filter: any) {
+  const patient = {
+    _id: PATIENT,
+    user_id: { _id: PATIENT_USER, username: "pat" },
+    medical_record_number: "MRN-0001",
+  };
+  const found = filter.user_id
+    ? filter.user_id === PATIENT_USER
+    : filter.medical_record_number === patient.medical_record_number;
+  return found ? patient : null;
+}
+
+jest.mock("@/lib/database/accessModels", () => ({
+  PatientAccessGrantModel: fakeModel(),
+}));
+
+jest.mock("@/lib/database/securityModels", () => ({
+  BreakGlassAccess: fakeModel(),
+}));
+
+jest.mock("@/lib/database/models", () => ({
+  DoctorModel: fakeModel(),
+  PharmacyModel: fakeModel(),
+  PatientModel: {
+    findOne: jest.fn((filter: any) => fakeQuery(findPatient(filter))),
+  },
+  UserModel: fakeModel(),
+}));
+
+jest.mock("@/lib/utils/pharmacy-scope", () => ({
+  getPharmacistPharmacyId: jest.fn(
+    async (userId: string) => pharmacies[userId] ?? null
+  ),
+}));
+
+jest.mock("@/lib/utils/access-log", () => ({
+  getClientIpAddress: () => "203.0.113.9",
+}));
+
+jest.mock("@/lib/services/NotificationService", () => ({
+  notificationService: { emergencyAccess: jest.fn() },
+}));
+
+import { notificationService } from "@/lib/services/NotificationService";
+import {
+  assertPatientAccess,
+  BREAK_GLASS_DURATION_MINUTES,
+  findAccessiblePatientIds,
+  getPatientAccess,
+  grantPatientAccess,
+  PatientAccessError,
+  revokePatientAccess,
+  startBreakGlassAccess,
+} from "@/lib/utils/patient-access";
+import { PatientAccessGrantModel } from "@/lib/database/accessModels";
+import { BreakGlassAccess } from "@/lib/database/securityModels";
+import { DoctorModel, PharmacyModel, UserModel } from "@/lib/database/models";
+
+const grants = PatientAccessGrantModel as unknown as FakeModel;
+const breakGlass = BreakGlassAccess as unknown as FakeModel;
+
+const doctor = { id: DOCTOR_USER, role: "doctor" };
+const otherDoctor = { id: OTHER_DOCTOR_USER, role: "doctor" };
+const pharmacist = { id: PHARMACIST_USER, role: "pharmacist" };
+const otherPharmacist = { id: OTHER_PHARMACIST_USER, role: "pharmacist" };
+const unassignedPharmacist = {
+  id: UNASSIGNED_PHARMACIST_USER,
+  role: "pharmacist",
+};
+
+const JUSTIFICATION = "Unconscious patient admitted to A&E";
+const HOUR = 60 * 60 * 1000;
+
+const request = () =>
+  new NextRequest("http://localhost/api/patient-access/break-glass", {
+    method: "POST",
+    headers: { "user-agent": "jest" },
+  });
+
+const breakGlassFor = (user: { id: string; role: string }, body: any = {}) =>
+  startBreakGlassAccess(request(), user, {
+    patientId: PATIENT_USER,
+    justification: JUSTIFICATION,
+    ...body,
+  });
+
+// Stored grant as the patient sets it up, bypassing the request checks
+function storedGrant(grant: Record<string, any>) {
+  grants.insert({ revoked_at: null, expires_at: null, ...grant });
+}
+
+describe("Patient Access Tests", () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    grants.docs = [];
+    breakGlass.docs = [];
+    (DoctorModel as unknown as FakeModel).docs = [
+      { _id: DOCTOR, user_id: DOCTOR_USER },
+      { _id: OTHER_DOCTOR, user_id: OTHER_DOCTOR_USER },
+    ];
+    (PharmacyModel as unknown as FakeModel).docs = [
+      { _id: PHARMACY, is_active: true },
+      { _id: OTHER_PHARMACY, is_active: true },
+    ];
+    (UserModel as unknown as FakeModel).docs = [
+      { _id: DOCTOR_USER, username: "dr.house" },
+      { _id: PHARMACIST_USER, username: "pharm.chen" },
+    ];
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    warn.mockRestore();
+  });
+
+  describe("Grants", () => {
+    test("should only let a doctor see a patient who granted them access", async () => {
+      await expect(assertPatientAccess(doctor, PATIENT)).rejects.toMatchObject({
+        status: 403,
+      });
+
+      await grantPatientAccess(PATIENT, PATIENT_USER, { doctorId: DOCTOR });
+
+      expect(await assertPatientAccess(doctor, PATIENT)).toBe("grant");
+      expect(await getPatientAccess(otherDoctor, PATIENT)).toBeNull();
+      expect(await getPatientAccess(doctor, OTHER_PATIENT)).toBeNull();
+    });
+
+    test("should give every pharmacist of a granted pharmacy access", async () => {
+      await grantPatientAccess(PATIENT, PATIENT_USER, { pharmacyId: PHARMACY });
+
+      expect(await getPatientAccess(pharmacist, PATIENT)).toBe("grant");
+      expect(await getPatientAccess(otherPharmacist, PATIENT)).toBeNull();
+      expect(await getPatientAccess(unassignedPharmacist, PATIENT)).toBeNull();
+      // A pharmacy grant does not extend to a doctor with the same ID
+      expect(await getPatientAccess(doctor, PATIENT)).toBeNull();
+    });
+
+    test("should end access when the grant expires", async () => {
+      const now = Date.now();
+      jest.useFakeTimers({ now });
+
+      await grantPatientAccess(PATIENT, PATIENT_USER, {
+        doctorId: DOCTOR,
+        expiresAt: new Date(now + HOUR).toISOString(),
+      });
+      expect(await getPatientAccess(doctor, PATIENT)).toBe("grant");
+
+      jest.setSystemTime(now + HOUR);
+      expect(await getPatientAccess(doctor, PATIENT)).toBeNull();
+    });
+
+    test("should replace the expiry when access is granted again", async () => {
+      const now = Date.now();
+      jest.useFakeTimers({ now });
+
+      await grantPatientAccess(PATIENT, PATIENT_USER, {
+        doctorId: DOCTOR,
+        expiresAt: new Date(now + HOUR),
+      });
+      await grantPatientAccess(PATIENT, PATIENT_USER, { doctorId: DOCTOR });
+
+      expect(grants.docs).toHaveLength(1);
+      expect(grants.docs[0].expires_at).toBeNull();
+      jest.setSystemTime(now + 24 * HOUR);
+      expect(await getPatientAccess(doctor, PATIENT)).toBe("grant");
+    });
+
+    test("should end access when the grant is revoked", async () => {
+      const grant = await grantPatientAccess(PATIENT, PATIENT_USER, {
+        doctorId: DOCTOR,
+      });
+
+      const revoked = await revokePatientAccess(
+        PATIENT,
+        grant._id,
+        PATIENT_USER
+      );
+
+      expect(revoked).toMatchObject({
+        revoked_at: expect.any(Date),
+        revoked_by: PATIENT_USER,
+      });
+      expect(await getPatientAccess(doctor, PATIENT)).toBeNull();
+      await expect(
+        revokePatientAccess(PATIENT, grant._id, PATIENT_USER)
+      ).rejects.toEqual(new PatientAccessError(404, "Active grant not found"));
+    });
+
+    test("should start a new grant rather than revive a revoked one", async () => {
+      const grant = await grantPatientAccess(PATIENT, PATIENT_USER, {
+        doctorId: DOCTOR,
+      });
+      await revokePatientAccess(PATIENT, grant._id, PATIENT_USER);
+
+      const regranted = await grantPatientAccess(PATIENT, PATIENT_USER, {
+        doctorId: DOCTOR,
+      });
+
+      expect(regranted._id.toString()).not.toBe(grant._id.toString());
+      expect(grants.docs[0].revoked_at).toEqual(expect.any(Date));
+      expect(await getPatientAccess(doctor, PATIENT)).toBe("grant");
+    });
+
+    test("should not let a patient revoke another patient's grant", async () => {
+      const grant = await grantPatientAccess(PATIENT, PATIENT_USER, {
+        doctorId: DOCTOR,
+      });
+
+      await expect(
+        revokePatientAccess(OTHER_PATIENT, grant._id, PATIENT_USER)
+      ).rejects.toMatchObject({ status: 404 });
+      expect(await getPatientAccess(doctor, PATIENT)).toBe("grant");
+    });
+
+    test("should reject invalid grants", async () => {
+      const grant = (body: any) =>
+        grantPatientAccess(PATIENT, PATIENT_USER, body);
+
+      await expect(grant({})).rejects.toMatchObject({ status: 400 });
+      await expect(
+        grant({ doctorId: DOCTOR, pharmacyId: PHARMACY })
+      ).rejects.toMatchObject({ status: 400 });
+      await expect(
+        grant({ doctorId: DOCTOR, expiresAt: "2000-01-01" })
+      ).rejects.toEqual(
+        new PatientAccessError(400, "Expiry must be a future date")
+      );
+      await expect(grant({ doctorId: "not-an-id" })).rejects.toMatchObject({
+        status: 400,
+      });
+      await expect(
+        grant({ pharmacyId: "64b0000000000000000000ff" })
+      ).rejects.toEqual(new PatientAccessError(404, "Pharmacy not found"));
+      expect(grants.docs).toHaveLength(0);
+    });
+
+    test("should not limit roles outside the care team", async () => {
+      for (const role of ["admin", "auditor"]) {
+        const user = { id: "64b0000000000000000000aa", role };
+        expect(await getPatientAccess(user, PATIENT)).toBe("unrestricted");
+        expect(await findAccessiblePatientIds(user)).toBeNull();
+      }
+    });
+  });
+
+  describe("Break-glass", () => {
+    test("should open a one-hour window for the user who broke the glass", async () => {
+      const now = Date.now();
+      jest.useFakeTimers({ now });
+
+      const { record } = await breakGlassFor(doctor);
+
+      expect(record).toMatchObject({
+        user_id: DOCTOR_USER,
+        role: "doctor",
+        patient_id: PATIENT,
+        justification: JUSTIFICATION,
+        ip_address: "203.0.113.9",
+      });
+      expect(record.expires_at.getTime() - now).toBe(
+        BREAK_GLASS_DURATION_MINUTES * 60 * 1000
+      );
+      expect(await assertPatientAccess(doctor, PATIENT)).toBe("break_glass");
+      expect(await getPatientAccess(otherDoctor, PATIENT)).toBeNull();
+
+      jest.setSystemTime(now + HOUR - 1);
+      expect(await getPatientAccess(doctor, PATIENT)).toBe("break_glass");
+      jest.setSystemTime(now + HOUR);
+      expect(await getPatientAccess(doctor, PATIENT)).toBeNull();
+    });
+
+    test("should tell the patient who accessed their records", async () => {
+      const { record } = await breakGlassFor(pharmacist, {
+        patientId: undefined,
+        medicalRecordNumber: " MRN-0001 ",
+      });
+
+      expect(notificationService.emergencyAccess).toHaveBeenCalledWith(
+        PATIENT_USER,
+        record,
+        "pharm.chen"
+      );
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(`Break-glass access to patient ${PATIENT}`)
+      );
+    });
+
+    test("should prefer a grant over the break-glass window", async () => {
+      await breakGlassFor(doctor);
+      await grantPatientAccess(PATIENT, PATIENT_USER, { doctorId: DOCTOR });
+
+      expect(await getPatientAccess(doctor, PATIENT)).toBe("grant");
+    });
+
+    test("should require a written justification", async () => {
+      await expect(
+        breakGlassFor(doctor, { justification: "  emergency    " })
+      ).rejects.toEqual(
+        new PatientAccessError(
+          400,
+          "Explain the emergency in at least 20 characters"
+        )
+      );
+      await expect(
+        breakGlassFor(doctor, { justification: "x".repeat(1001) })
+      ).rejects.toMatchObject({ status: 400 });
+      expect(breakGlass.docs).toHaveLength(0);
+      expect(notificationService.emergencyAccess).not.toHaveBeenCalled();
+    });
+
+    test("should only open a window for doctors and pharmacists on a known patient", async () => {
+      await expect(
+        breakGlassFor({ id: PATIENT_USER, role: "patient" })
+      ).rejects.toMatchObject({ status: 403 });
+      await expect(
+        breakGlassFor(doctor, { patientId: OTHER_PATIENT })
+      ).rejects.toEqual(new PatientAccessError(404, "Patient not found"));
+      await expect(
+        breakGlassFor(doctor, { patientId: undefined })
+      ).rejects.toMatchObject({ status: 400 });
+      expect(breakGlass.docs).toHaveLength(0);
+    });
+  });
+
+  describe("Accessible Patients", () => {
+    test("should list a doctor's granted and break-glass patients once each", async () => {
+      const now = Date.now();
+      storedGrant({
+        patient_id: PATIENT,
+        grantee_type: "doctor",
+        doctor_id: DOCTOR,
+      });
+      storedGrant({
+        patient_id: OTHER_PATIENT,
+        grantee_type: "doctor",
+        doctor_id: DOCTOR,
+        expires_at: new Date(now + HOUR),
+      });
+      await breakGlassFor(doctor);
+
+      const ids = await findAccessiblePatientIds(doctor);
+
+      expect(ids?.sort()).toEqual([PATIENT, OTHER_PATIENT]);
+    });
+
+    test("should leave out expired, revoked and other grantees' grants", async () => {
+      const now = Date.now();
+      storedGrant({
+        patient_id: PATIENT,
+        grantee_type: "doctor",
+        doctor_id: DOCTOR,
+        expires_at: new Date(now - 1000),
+      });
+      storedGrant({
+        patient_id: OTHER_PATIENT,
+        grantee_type: "doctor",
+        doctor_id: DOCTOR,
+        revoked_at: new Date(now - 1000),
+      });
+      storedGrant({
+        patient_id: THIRD_PATIENT,
+        grantee_type: "doctor",
+        doctor_id: OTHER_DOCTOR,
+      });
+      breakGlass.insert({
+        user_id: DOCTOR_USER,
+        patient_id: THIRD_PATIENT,
+        expires_at: new Date(now - 1000),
+      });
+
+      expect(await findAccessiblePatientIds(doctor)).toEqual([]);
+      expect(await findAccessiblePatientIds(otherDoctor)).toEqual([
+        THIRD_PATIENT,
+      ]);
+    });
+
+    test("should scope pharmacists to their own pharmacy's grants", async () => {
+      storedGrant({
+        patient_id: PATIENT,
+        grantee_type: "pharmacy",
+        pharmacy_id: PHARMACY,
+      });
+      storedGrant({
+        patient_id: OTHER_PATIENT,
+        grantee_type: "pharmacy",
+        pharmacy_id: OTHER_PHARMACY,
+      });
+      storedGrant({
+        patient_id: THIRD_PATIENT,
+        grantee_type: "doctor",
+        doctor_id: PHARMACY,
+      });
+
+      expect(await findAccessiblePatientIds(pharmacist)).toEqual([PATIENT]);
+      expect(await findAccessiblePatientIds(otherPharmacist)).toEqual([
+        OTHER_PATIENT,
+      ]);
+    });
+
+    test("should give a pharmacist without a pharmacy only their break-glass patients", async () => {
+      storedGrant({
+        patient_id: PATIENT,
+        grantee_type: "pharmacy",
+        pharmacy_id: PHARMACY,
+      });
+      expect(await findAccessiblePatientIds(unassignedPharmacist)).toEqual([]);
+
+      await breakGlassFor(unassignedPharmacist);
+
+      expect(await findAccessiblePatientIds(unassignedPharmacist)).toEqual([
+        PATIENT,
+      ]);
+    });
+  });
+});
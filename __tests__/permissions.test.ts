@@ -0,0 +1,226 @@
+/**
+ * Permission matrix
+ *
+ * Routes wrapped with withPermission admit only the roles the matrix lists
+ * for the permission; every refusal is recorded as an access denial.
+ *
+ * @jest-environment node
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { FakeModel, fakeModel } from "./helpers/fake-models";
+
+jest.mock("@/lib/database/connection", () => ({
+  connectToDatabase: jest.fn(),
+}));
+
+jest.mock("@/lib/database/securityModels", () => ({
+  AccessDenial: fakeModel(),
+}));
+
+jest.mock("@/lib/utils/auth-helper", () => ({
+  authenticateRequest: jest.fn(),
+}));
+
+jest.mock("@/lib/services/ReportingService", () => ({
+  reportingService: { getDashboardMetrics: jest.fn(async () => ({})) },
+}));
+
+import { GET as getDashboard } from "@/app/api/reporting/dashboard/route";
+import { AccessDenial } from "@/lib/database/securityModels";
+import { reportingService } from "@/lib/services/ReportingService";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { authenticateRequest } from "@/lib/utils/auth-helper";
+import {
+  hasPermission,
+  Permission,
+  PERMISSION_MATRIX,
+} from "@/lib/utils/permissions";
+import { UserRole } from "@/types/auth";
+
+const denials = AccessDenial as unknown as FakeModel;
+
+const ROLES: UserRole[] = [
+  "patient",
+  "doctor",
+  "pharmacist",
+  "manufacturer",
+  "admin",
+  "auditor",
+];
+
+const request = (path = "/api/reporting/dashboard") =>
+  new NextRequest(`http://localhost${path}`, {
+    headers: { "x-forwarded-for": "198.51.100.4", "user-agent": "jest" },
+  });
+
+function signedInAs(role: UserRole) {
+  (authenticateRequest as jest.Mock).mockResolvedValue({
+    success: true,
+    user: { id: "64b000000000000000000120", email: "u@example.com", role },
+  });
+}
+
+describe("Permission Tests", () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    denials.docs = [];
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  describe("Matrix", () => {
+    test("should keep reporting and audit trails to admins and auditors", () => {
+      const permissions: Permission[] = [
+        "reporting:read",
+        "reporting:export",
+        "fraud:manage",
+        "traceability:audit:read",
+      ];
+
+      for (const permission of permissions) {
+        expect(ROLES.filter((role) => hasPermission(role, permission))).toEqual(
+          ["admin", "auditor"]
+        );
+      }
+    });
+
+    test("should let only pharmacists record a dispensing on the chain", () => {
+      expect(
+        ROLES.filter((role) =>
+          hasPermission(role, "traceability:dispensing:record")
+        )
+      ).toEqual(["pharmacist"]);
+      expect(hasPermission("manufacturer", "traceability:batch:create")).toBe(
+        true
+      );
+      expect(hasPermission("pharmacist", "traceability:batch:create")).toBe(
+        false
+      );
+    });
+
+    test("should only name known roles", () => {
+      for (const roles of Object.values(PERMISSION_MATRIX)) {
+        expect(roles.length).toBeGreaterThan(0);
+        expect(roles.every((role) => ROLES.includes(role))).toBe(true);
+      }
+    });
+
+    test("should not grant anything to an unknown role", () => {
+      const permissions = Object.keys(PERMISSION_MATRIX) as Permission[];
+
+      expect(permissions.some((p) => hasPermission("superuser", p))).toBe(
+        false
+      );
+      expect(permissions.some((p) => hasPermission("", p))).toBe(false);
+    });
+  });
+
+  describe("withPermission", () => {
+    const handler = jest.fn(async (_request: NextRequest, user: any) =>
+      NextResponse.json({ success: true, role: user.role })
+    );
+    const route = withPermission("inventory:reports:read", handler);
+
+    test.each(PERMISSION_MATRIX["inventory:reports:read"].map((r) => [r]))(
+      "should call the handler for %s",
+      async (role) => {
+        signedInAs(role);
+
+        const response = await route(request(), { params: { id: "1" } });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ success: true, role });
+        expect(handler).toHaveBeenCalledWith(
+          expect.any(NextRequest),
+          expect.objectContaining({ role }),
+          { params: { id: "1" } }
+        );
+        expect(denials.docs).toHaveLength(0);
+      }
+    );
+
+    test("should refuse a role outside the matrix and record why", async () => {
+      signedInAs("doctor");
+
+      const response = await route(request("/api/drugs/reports"));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: "Insufficient permissions",
+      });
+      expect(handler).not.toHaveBeenCalled();
+      expect(denials.docs).toEqual([
+        expect.objectContaining({
+          user_id: "64b000000000000000000120",
+          role: "doctor",
+          method: "GET",
+          path: "/api/drugs/reports",
+          permission: "inventory:reports:read",
+          status: 403,
+          ip_address: "198.51.100.4",
+          user_agent: "jest",
+        }),
+      ]);
+    });
+
+    test("should refuse an unauthenticated caller with 401", async () => {
+      (authenticateRequest as jest.Mock).mockResolvedValue({
+        success: false,
+        error: "No authentication token provided",
+      });
+
+      const response = await route(request());
+
+      expect(response.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+      expect(denials.docs).toEqual([
+        expect.objectContaining({
+          status: 401,
+          reason: "No authentication token provided",
+          permission: "inventory:reports:read",
+        }),
+      ]);
+      expect(denials.docs[0].user_id).toBeUndefined();
+    });
+
+    test("should answer even when the denial cannot be recorded", async () => {
+      const error = jest.spyOn(console, "error").mockImplementation(() => {});
+      denials.create.mockRejectedValueOnce(new Error("database down"));
+      signedInAs("patient");
+
+      const response = await route(request());
+
+      expect(response.status).toBe(403);
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+  });
+
+  describe("Routes", () => {
+    test("should not compute dashboard metrics for a pharmacist", async () => {
+      signedInAs("pharmacist");
+
+      const response = await getDashboard(request());
+
+      expect(response.status).toBe(403);
+      expect(reportingService.getDashboardMetrics).not.toHaveBeenCalled();
+      expect(denials.docs[0].permission).toBe("reporting:read");
+    });
+
+    test("should serve dashboard metrics to an auditor", async () => {
+      signedInAs("auditor");
+
+      const response = await getDashboard(request());
+
+      expect(response.status).toBe(200);
+      expect(reportingService.getDashboardMetrics).toHaveBeenCalled();
+    });
+  });
+});
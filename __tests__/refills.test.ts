@@ -0,0 +1,273 @@
+/**
+ * Refill authorizations: a patient asks for a refill once the current fill
+ * is dispensed, and the prescribing doctor approves it, opening a new fill
+ * cycle within the authorized count, or denies it.
+ *
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { FakeModel, fakeModel } from "./helpers/fake-models";
+
+const PATIENT_ID = "64b000000000000000000101";
+const DOCTOR_ID = "64b000000000000000000102";
+const PRESCRIPTION_ID = "64b000000000000000000103";
+
+jest.mock("@/lib/database/connection", () => ({
+  connectToDatabase: jest.fn(),
+}));
+
+jest.mock("@/lib/database/models", () => ({
+  PrescriptionModel: fakeModel({ subdocuments: ["refill_requests"] }),
+  PatientModel: fakeModel(),
+  DoctorModel: fakeModel(),
+}));
+
+jest.mock("@/lib/database/securityModels", () => ({
+  AccessDenial: fakeModel(),
+}));
+
+jest.mock("@/lib/services/NotificationService", () => ({
+  notificationService: {
+    prescriptionVerified: jest.fn(),
+    refillDenied: jest.fn(),
+  },
+}));
+
+jest.mock("@/lib/utils/professional-verification", () => ({
+  ...jest.requireActual("@/lib/utils/professional-verification"),
+  assertVerifiedProfessional: jest.fn(),
+}));
+
+jest.mock("@/lib/utils/auth-helper", () => ({
+  authenticateRequest: jest.fn(),
+}));
+
+import { PATCH, POST } from "@/app/api/prescriptions/refills/route";
+import {
+  DoctorModel,
+  PatientModel,
+  PrescriptionModel,
+} from "@/lib/database/models";
+import { notificationService } from "@/lib/services/NotificationService";
+import { authenticateRequest } from "@/lib/utils/auth-helper";
+
+const prescriptions = PrescriptionModel as unknown as FakeModel;
+const patients = PatientModel as unknown as FakeModel;
+const doctors = DoctorModel as unknown as FakeModel;
+
+function signInAs(role: "patient" | "doctor") {
+  (authenticateRequest as jest.Mock).mockResolvedValue({
+    success: true,
+    user: { id: `${role}-user`, role, username: role },
+  });
+}
+
+function refillRequest(method: "POST" | "PATCH", body: Record<string, any>) {
+  return new NextRequest("http://localhost/api/prescriptions/refills", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+async function requestRefill(note?: string) {
+  signInAs("patient");
+  const response = await POST(
+    refillRequest("POST", { prescriptionId: PRESCRIPTION_ID, note })
+  );
+  return { response, body: await response.json() };
+}
+
+async function answerRefill(action: string, note?: string) {
+  signInAs("doctor");
+  const requestId = prescriptions.docs[0].refill_requests[0]._id.toString();
+  const response = await PATCH(
+    refillRequest("PATCH", {
+      prescriptionId: PRESCRIPTION_ID,
+      requestId,
+      action,
+      note,
+    })
+  );
+  return { response, body: await response.json() };
+}
+
+describe("Refill Route Tests", () => {
+  let log: jest.SpyInstance;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    patients.docs = [{ _id: PATIENT_ID, user_id: "patient-user" }];
+    doctors.docs = [{ _id: DOCTOR_ID, user_id: "doctor-user" }];
+    prescriptions.docs = [
+      {
+        _id: PRESCRIPTION_ID,
+        patient_id: PATIENT_ID,
+        doctor_id: DOCTOR_ID,
+        status: "dispensed",
+        quantity_prescribed: 30,
+        quantity_dispensed: 30,
+        refills_authorized: 2,
+        refills_used: 0,
+        refill_requests: [],
+      },
+    ];
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+    warn.mockRestore();
+  });
+
+  describe("Patient Requests", () => {
+    test("should queue a refill request for the doctor", async () => {
+      const { response, body } = await requestRefill("Running low");
+
+      expect(response.status).toBe(200);
+      expect(body.refill).toMatchObject({
+        refillsAuthorized: 2,
+        refillsRemaining: 2,
+        refillRequests: [
+          expect.objectContaining({ status: "pending", note: "Running low" }),
+        ],
+      });
+    });
+
+    test("should refuse a second request while one is pending", async () => {
+      await requestRefill();
+      const { response, body } = await requestRefill();
+
+      expect(response.status).toBe(400);
+      expect(body.error).toBe(
+        "A refill request is already awaiting the doctor's response"
+      );
+      expect(prescriptions.docs[0].refill_requests).toHaveLength(1);
+    });
+
+    test.each([
+      [
+        "no refills remain",
+        () => (prescriptions.docs[0].refills_used = 2),
+        "No refills remaining on this prescription",
+      ],
+      [
+        "the current fill is not dispensed",
+        () => (prescriptions.docs[0].status = "partially_dispensed"),
+        "A refill can only be requested once the current fill has been dispensed",
+      ],
+    ])("should refuse a request when %s", async (_case, arrange, error) => {
+      arrange();
+
+      const { response, body } = await requestRefill();
+
+      expect(response.status).toBe(400);
+      expect(body.error).toBe(error);
+      expect(prescriptions.docs[0].refill_requests).toHaveLength(0);
+    });
+
+    test("should not find another patient's prescription", async () => {
+      prescriptions.docs[0].patient_id = "64b000000000000000000199";
+
+      const { response } = await requestRefill();
+
+      expect(response.status).toBe(404);
+    });
+
+    test("should only accept requests from patients", async () => {
+      signInAs("doctor");
+
+      const response = await POST(
+        refillRequest("POST", { prescriptionId: PRESCRIPTION_ID })
+      );
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("Doctor Responses", () => {
+    beforeEach(async () => {
+      await requestRefill();
+    });
+
+    test("should open a new fill cycle on approval", async () => {
+      const { response, body } = await answerRefill("approve", "Approved");
+
+      expect(response.status).toBe(200);
+      expect(prescriptions.docs[0]).toMatchObject({
+        status: "verified",
+        quantity_dispensed: 0,
+        refills_used: 1,
+      });
+      expect(body.refill).toMatchObject({
+        refillsRemaining: 1,
+        refillRequests: [
+          expect.objectContaining({
+            status: "approved",
+            responseNote: "Approved",
+          }),
+        ],
+      });
+      expect(notificationService.prescriptionVerified).toHaveBeenCalled();
+    });
+
+    test("should leave the prescription closed on denial", async () => {
+      const { response, body } = await answerRefill("deny", "See me first");
+
+      expect(response.status).toBe(200);
+      expect(body.message).toBe("Refill request denied");
+      expect(prescriptions.docs[0]).toMatchObject({
+        status: "dispensed",
+        refills_used: 0,
+      });
+      expect(prescriptions.docs[0].refill_requests[0]).toMatchObject({
+        status: "denied",
+        response_note: "See me first",
+        responded_by: "doctor-user",
+      });
+      expect(notificationService.refillDenied).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: PRESCRIPTION_ID }),
+        "See me first"
+      );
+      expect(notificationService.prescriptionVerified).not.toHaveBeenCalled();
+    });
+
+    test("should refuse to answer the same request twice", async () => {
+      await answerRefill("deny");
+      const { response } = await answerRefill("approve");
+
+      expect(response.status).toBe(404);
+      expect(prescriptions.docs[0].refills_used).toBe(0);
+    });
+
+    test("should refuse an approval that would exceed the allowance", async () => {
+      // Refills were used up after the patient asked
+      prescriptions.docs[0].refills_used = 2;
+
+      const { response } = await answerRefill("approve");
+
+      expect(response.status).toBe(409);
+      expect(prescriptions.docs[0].status).toBe("dispensed");
+      expect(prescriptions.docs[0].refill_requests[0].status).toBe("pending");
+    });
+
+    test("should reject an unknown action", async () => {
+      const { response } = await answerRefill("postpone");
+
+      expect(response.status).toBe(400);
+    });
+
+    test("should only let the prescribing doctor answer", async () => {
+      prescriptions.docs[0].doctor_id = "64b000000000000000000198";
+
+      const { response } = await answerRefill("approve");
+
+      expect(response.status).toBe(404);
+      expect(prescriptions.docs[0].refill_requests[0].status).toBe("pending");
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Medication screening rules
+ *
+ * Covers allergy and drug-class matching, cross-reactivity, interactions
+ * with current prescriptions, contraindications from the medical history,
+ * and the audit record written when a prescriber overrides a warning.
+ *
+ * @jest-environment node
+ */
+
+import { FakeModel, fakeModel, fakeQuery } from "./helpers/fake-models";
+
+let patient: any;
+let currentPrescriptions: any[];
+
+// Prescriptions come back with their drugs populated
+jest.mock("@/lib/database/models", () => ({
+  PatientModel: { findById: jest.fn(() => fakeQuery(() => patient)) },
+  PrescriptionModel: {
+    find: jest.fn(() => fakeQuery(() => currentPrescriptions)),
+  },
+  PrescriptionAuditModel: fakeModel(),
+}));
+
+import { PrescriptionAuditModel } from "@/lib/database/models";
+import {
+  recordScreeningOverride,
+  requiresOverride,
+  screenMedications,
+  ScreeningWarning,
+} from "@/lib/utils/screening";
+
+const audits = PrescriptionAuditModel as unknown as FakeModel;
+
+const PATIENT_ID = "64b000000000000000000050";
+
+const drug = (name: string, genericName?: string) => ({
+  name,
+  ...(genericName ? { generic_name: genericName } : {}),
+  strength: "500mg",
+  dosage_form: "tablet",
+});
+
+// Screen one drug and return its warnings
+async function screen(prescribed: any): Promise<ScreeningWarning[]> {
+  const [warnings] = await screenMedications(PATIENT_ID, [prescribed]);
+  return warnings;
+}
+
+describe("Medication Screening Tests", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    patient = { allergies: [], medical_history: "" };
+    currentPrescriptions = [];
+    audits.docs = [];
+  });
+
+  describe("Allergies", () => {
+    test("should flag a drug the patient is allergic to", async () => {
+      patient.allergies = [
+        { substance: "Amoxicillin", reaction: "hives", severity: "severe" },
+      ];
+
+      const warnings = await screen(drug("Amoxil", "Amoxicillin"));
+
+      expect(warnings).toEqual([
+        {
+          type: "allergy",
+          severity: "severe",
+          drug: "Amoxil 500mg tablet",
+          conflictsWith: "Amoxicillin",
+          message: "Patient is allergic to Amoxicillin (hives)",
+        },
+      ]);
+    });
+
+    test("should flag every member of an allergen's drug class", async () => {
+      patient.allergies = "Penicillin";
+
+      const warnings = await screen(drug("Flucloxacillin"));
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatchObject({
+        type: "allergy",
+        severity: "severe",
+        conflictsWith: "Penicillin",
+      });
+    });
+
+    test("should downgrade a mild allergy to a moderate warning", async () => {
+      patient.allergies = [{ substance: "ibuprofen", severity: "mild" }];
+
+      const warnings = await screen(drug("Ibuprofen"));
+
+      expect(warnings.map((w) => w.severity)).toEqual(["moderate"]);
+      expect(requiresOverride(warnings)).toBe(false);
+    });
+
+    test("should warn about cross-reactivity with a related class", async () => {
+      patient.allergies = "penicillins";
+
+      const warnings = await screen(drug("Cefalexin"));
+
+      expect(warnings).toEqual([
+        expect.objectContaining({
+          type: "allergy",
+          severity: "moderate",
+          message:
+            "Possible cross-reactivity with recorded penicillins allergy",
+        }),
+      ]);
+    });
+
+    test("should ignore allergens too short to match reliably", async () => {
+      // "ce" is part of "cefixime" but names no drug
+      patient.allergies = "ce, in";
+
+      expect(await screen(drug("Cefixime"))).toEqual([]);
+    });
+
+    test("should not match an unrelated allergen", async () => {
+      patient.allergies = "latex, peanuts";
+
+      expect(await screen(drug("Amoxicillin"))).toEqual([]);
+    });
+  });
+
+  describe("Interactions", () => {
+    test("should flag a severe class interaction with current medication", async () => {
+      currentPrescriptions = [{ formulary_id: drug("Warfarin") }];
+
+      const warnings = await screen(drug("Naproxen"));
+
+      expect(warnings).toEqual([
+        {
+          type: "interaction",
+          severity: "severe",
+          drug: "Naproxen 500mg tablet",
+          conflictsWith: "Warfarin 500mg tablet",
+          message: "Increased risk of serious bleeding",
+        },
+      ]);
+      expect(requiresOverride(warnings)).toBe(true);
+    });
+
+    test("should match a rule in either order", async () => {
+      currentPrescriptions = [{ formulary_id: drug("Sildenafil") }];
+
+      const warnings = await screen(drug("Glyceryl trinitrate"));
+
+      expect(warnings.map((w) => w.message)).toEqual([
+        "Risk of profound hypotension; combination contraindicated",
+      ]);
+    });
+
+    test("should report every rule a pair matches", async () => {
+      // Simvastatin has its own rule besides the statin-macrolide one
+      currentPrescriptions = [{ formulary_id: drug("Simvastatin") }];
+
+      const warnings = await screen(drug("Clarithromycin"));
+
+      expect(warnings.map((w) => w.severity).sort()).toEqual([
+        "minor",
+        "severe",
+      ]);
+    });
+
+    test("should report a pair prescribed together once, on the later drug", async () => {
+      const warnings = await screenMedications(PATIENT_ID, [
+        drug("Fluoxetine"),
+        drug("Phenelzine"),
+      ]);
+
+      expect(warnings[0]).toEqual([]);
+      expect(warnings[1].map((w) => w.message)).toEqual([
+        "Risk of serotonin syndrome",
+      ]);
+    });
+
+    test("should not flag drugs without a rule between them", async () => {
+      currentPrescriptions = [{ formulary_id: drug("Atorvastatin") }];
+
+      expect(await screen(drug("Amoxicillin"))).toEqual([]);
+    });
+  });
+
+  describe("Contraindications", () => {
+    test("should flag a drug contraindicated by the medical history", async () => {
+      patient.medical_history = "Asthma since childhood";
+
+      const warnings = await screen(drug("Propranolol"));
+
+      expect(warnings).toEqual([
+        expect.objectContaining({
+          type: "contraindication",
+          severity: "severe",
+          conflictsWith: "asthma",
+          message: "Beta blockers can trigger bronchospasm",
+        }),
+      ]);
+    });
+
+    test("should match a condition stem such as pregnancy", async () => {
+      patient.medical_history = "Currently pregnant (second trimester)";
+
+      const warnings = await screen(drug("Lisinopril"));
+
+      expect(warnings.map((w) => w.message)).toEqual([
+        "ACE inhibitors can harm the fetus",
+      ]);
+    });
+
+    test("should apply only the rules whose conditions are recorded", async () => {
+      patient.medical_history = "Chronic kidney disease stage 3";
+
+      const warnings = await screen(drug("Diclofenac"));
+
+      expect(warnings.map((w) => w.severity)).toEqual(["moderate"]);
+      expect(requiresOverride(warnings)).toBe(false);
+    });
+  });
+
+  describe("Overrides", () => {
+    test("should only require an override for severe warnings", () => {
+      const warning = (severity: ScreeningWarning["severity"]) => ({
+        type: "interaction" as const,
+        severity,
+        drug: "A",
+        conflictsWith: "B",
+        message: "",
+      });
+
+      expect(requiresOverride([])).toBe(false);
+      expect(requiresOverride([warning("minor"), warning("moderate")])).toBe(
+        false
+      );
+      expect(requiresOverride([warning("minor"), warning("severe")])).toBe(
+        true
+      );
+    });
+
+    test("should audit the severe warnings in the caller's transaction", async () => {
+      patient.allergies = "penicillin";
+      patient.medical_history = "peptic ulcer";
+      currentPrescriptions = [{ formulary_id: drug("Warfarin") }];
+      const warnings = await screen(drug("Aspirin"));
+      const session = {} as any;
+
+      await recordScreeningOverride(
+        "64b000000000000000000030",
+        "64b000000000000000000040",
+        "prescribing",
+        warnings,
+        "Benefit outweighs risk",
+        session
+      );
+
+      const [audit] = audits.docs;
+      expect(audits.create).toHaveBeenCalledWith(expect.any(Array), {
+        session,
+      });
+      expect(audit).toMatchObject({
+        action: "screening_override",
+        details: { stage: "prescribing", reason: "Benefit outweighs risk" },
+      });
+      expect(
+        audit.details.warnings.every((w: any) => w.severity === "severe")
+      ).toBe(true);
+      expect(audit.details.warnings.map((w: any) => w.type).sort()).toEqual([
+        "contraindication",
+        "interaction",
+      ]);
+    });
+  });
+});
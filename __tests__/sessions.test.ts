@@ -0,0 +1,317 @@
+/**
+ * Sessions: refresh token rotation, the grace window for concurrent
+ * refreshes, reuse detection and revocation when the password changes or
+ * the account is deactivated.
+ *
+ * @jest-environment node
+ */
+
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import { NextRequest } from "next/server";
+import { FakeModel, fakeModel } from "./helpers/fake-models";
+
+jest.mock("@/lib/database/connection", () => ({
+  connectToDatabase: jest.fn(),
+}));
+
+jest.mock("@/lib/database/sessionModels", () => ({
+  SessionModel: fakeModel(),
+}));
+
+jest.mock("@/lib/database/models", () => ({
+  UserModel: fakeModel(),
+}));
+
+// Only active users are issued access tokens
+jest.mock("@/lib/utils/auth-helper", () => ({
+  ACCESS_TOKEN_TTL_SECONDS: 900,
+  issueAccessToken: jest.fn(async (userId: string, sessionId: string) => {
+    const { UserModel } = jest.requireMock("@/lib/database/models");
+    const user = await UserModel.findOne({ _id: userId, is_active: true });
+    return user ? `access:${userId}:${sessionId}` : null;
+  }),
+}));
+
+jest.mock("@/lib/services/EmailService", () => ({
+  emailService: {},
+  WALLET_EMAIL_DOMAIN: "@wallet.local",
+}));
+
+import UserService from "@/lib/services/UserService";
+import {
+  createSession,
+  refreshSession,
+  revokeAllSessions,
+  SessionError,
+} from "@/lib/utils/sessions";
+import { UserModel } from "@/lib/database/models";
+import { SessionModel } from "@/lib/database/sessionModels";
+
+const users = UserModel as unknown as FakeModel;
+const sessions = SessionModel as unknown as FakeModel;
+
+const USER_ID = "64b000000000000000000060";
+const OTHER_USER_ID = "64b000000000000000000061";
+const PASSWORD = "Current-Passw0rd!";
+
+const hash = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const request = () =>
+  new NextRequest("http://localhost/api/auth/refresh", {
+    headers: { "user-agent": "jest", "x-forwarded-for": "203.0.113.7" },
+  });
+
+const signIn = (userId = USER_ID, rememberMe = false) =>
+  createSession(request(), userId, { authMethod: "password", rememberMe });
+
+async function expectSessionEnded(refreshToken: string) {
+  await expect(refreshSession(request(), refreshToken)).rejects.toMatchObject({
+    status: 401,
+  });
+}
+
+describe("Session Tests", () => {
+  let passwordHash: string;
+  let warn: jest.SpyInstance;
+
+  beforeAll(async () => {
+    passwordHash = await bcrypt.hash(PASSWORD, 4);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessions.docs = [];
+    users.docs = [
+      { _id: USER_ID, is_active: true, password_hash: passwordHash },
+      { _id: OTHER_USER_ID, is_active: true },
+    ];
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    warn.mockRestore();
+  });
+
+  describe("Sign-in", () => {
+    test("should store only a hash of the refresh token", async () => {
+      const { session, accessToken, refreshToken } = await signIn();
+
+      expect(accessToken).toBe(`access:${USER_ID}:${session._id}`);
+      expect(sessions.docs).toHaveLength(1);
+      expect(sessions.docs[0].refresh_token_hash).toBe(hash(refreshToken));
+      expect(JSON.stringify(sessions.docs[0])).not.toContain(refreshToken);
+      expect(sessions.docs[0]).toMatchObject({
+        ip_address: "203.0.113.7",
+        user_agent: "jest",
+      });
+    });
+
+    test("should keep remember-me sessions for 30 days instead of one", async () => {
+      const now = Date.now();
+      jest.useFakeTimers({ now });
+
+      await signIn(USER_ID, false);
+      await signIn(USER_ID, true);
+
+      expect(sessions.docs.map((s) => s.expires_at.getTime() - now)).toEqual([
+        24 * 60 * 60 * 1000,
+        30 * 24 * 60 * 60 * 1000,
+      ]);
+    });
+
+    test("should not start a session for a deactivated user", async () => {
+      users.docs[0].is_active = false;
+
+      await expect(signIn()).rejects.toMatchObject({ status: 403 });
+      expect(sessions.docs[0]).toMatchObject({ revoked_reason: "deactivated" });
+    });
+  });
+
+  describe("Refresh Rotation", () => {
+    test("should issue a new refresh token on every refresh", async () => {
+      const { session, refreshToken } = await signIn();
+
+      const first = await refreshSession(request(), refreshToken);
+      const second = await refreshSession(request(), first.refreshToken!);
+
+      expect(first.refreshToken).not.toBe(refreshToken);
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(second.accessToken).toBe(`access:${USER_ID}:${session._id}`);
+      expect(sessions.docs).toHaveLength(1);
+      expect(sessions.docs[0]).toMatchObject({
+        refresh_token_hash: hash(second.refreshToken!),
+        previous_refresh_token_hash: hash(first.refreshToken!),
+      });
+      expect(sessions.docs[0].revoked_at).toBeUndefined();
+    });
+
+    test("should reject a missing or unknown refresh token", async () => {
+      await signIn();
+
+      await expect(refreshSession(request(), undefined)).rejects.toEqual(
+        new SessionError(401, "No session to refresh")
+      );
+      await expect(refreshSession(request(), "unknown")).rejects.toEqual(
+        new SessionError(401, "Session has ended. Please sign in again.")
+      );
+    });
+
+    test("should not refresh an expired session", async () => {
+      const now = Date.now();
+      const { refreshToken } = await signIn();
+      jest.useFakeTimers({ now: now + 24 * 60 * 60 * 1000 + 1000 });
+
+      await expectSessionEnded(refreshToken);
+    });
+
+    test("should sign out every device when a deactivated user refreshes", async () => {
+      const { refreshToken } = await signIn();
+      await signIn();
+      users.docs[0].is_active = false;
+
+      await expect(refreshSession(request(), refreshToken)).rejects.toEqual(
+        new SessionError(401, "This account has been deactivated")
+      );
+      expect(sessions.docs.map((s) => s.revoked_reason)).toEqual([
+        "deactivated",
+        "deactivated",
+      ]);
+    });
+  });
+
+  describe("Reuse Detection", () => {
+    test("should let a concurrent refresh reuse the old token within the grace window", async () => {
+      const now = Date.now();
+      jest.useFakeTimers({ now });
+      const { session, refreshToken } = await signIn();
+      const rotated = await refreshSession(request(), refreshToken);
+
+      jest.setSystemTime(now + 30 * 1000);
+      const concurrent = await refreshSession(request(), refreshToken);
+
+      expect(concurrent.refreshToken).toBeNull();
+      expect(concurrent.accessToken).toBe(`access:${USER_ID}:${session._id}`);
+      expect(sessions.docs[0].revoked_at).toBeUndefined();
+      // The token set by the other refresh keeps working
+      expect(
+        (await refreshSession(request(), rotated.refreshToken!)).refreshToken
+      ).toEqual(expect.any(String));
+    });
+
+    test("should revoke the session when an old token is reused after the grace window", async () => {
+      const now = Date.now();
+      jest.useFakeTimers({ now });
+      const { refreshToken } = await signIn();
+      const rotated = await refreshSession(request(), refreshToken);
+
+      jest.setSystemTime(now + 31 * 1000);
+
+      await expectSessionEnded(refreshToken);
+      expect(sessions.docs[0]).toMatchObject({
+        revoked_reason: "refresh_token_reuse",
+      });
+      // Whoever holds the current token is signed out as well
+      await expectSessionEnded(rotated.refreshToken!);
+    });
+
+    test("should revoke the session when a token older than the previous one is reused", async () => {
+      const { refreshToken } = await signIn();
+      const first = await refreshSession(request(), refreshToken);
+      await refreshSession(request(), first.refreshToken!);
+
+      await expectSessionEnded(refreshToken);
+      expect(sessions.docs[0].revoked_at).toBeUndefined();
+
+      // Only the token rotated out last is recognised as reuse
+      jest.useFakeTimers({ now: Date.now() + 31 * 1000 });
+      await expectSessionEnded(first.refreshToken!);
+      expect(sessions.docs[0].revoked_reason).toBe("refresh_token_reuse");
+    });
+  });
+
+  describe("Revocation", () => {
+    test("should end every live session of the user except the one spared", async () => {
+      const current = await signIn();
+      const other = await signIn();
+      const stranger = await signIn(OTHER_USER_ID);
+
+      const revoked = await revokeAllSessions(
+        USER_ID,
+        "user_revoked",
+        current.session._id.toString()
+      );
+
+      expect(revoked).toBe(1);
+      await expectSessionEnded(other.refreshToken);
+      expect(
+        (await refreshSession(request(), current.refreshToken)).refreshToken
+      ).toEqual(expect.any(String));
+      expect(
+        (await refreshSession(request(), stranger.refreshToken)).refreshToken
+      ).toEqual(expect.any(String));
+    });
+
+    test("should sign out every device when the password changes", async () => {
+      const first = await signIn();
+      const second = await signIn();
+      const stranger = await signIn(OTHER_USER_ID);
+
+      const result = await new UserService().changePassword(
+        USER_ID,
+        PASSWORD,
+        "Brand-New-Passw0rd!"
+      );
+
+      expect(result).toEqual({
+        success: true,
+        message: "Password changed successfully",
+      });
+      expect(sessions.docs.map((s) => s.revoked_reason)).toEqual([
+        "password_changed",
+        "password_changed",
+        undefined,
+      ]);
+      await expectSessionEnded(first.refreshToken);
+      await expectSessionEnded(second.refreshToken);
+      await refreshSession(request(), stranger.refreshToken);
+    });
+
+    test("should keep sessions when the current password is wrong", async () => {
+      const { refreshToken } = await signIn();
+
+      const result = await new UserService().changePassword(
+        USER_ID,
+        "Wrong-Passw0rd!",
+        "Brand-New-Passw0rd!"
+      );
+
+      expect(result.success).toBe(false);
+      expect(sessions.docs[0].revoked_at).toBeUndefined();
+      await refreshSession(request(), refreshToken);
+    });
+
+    test("should sign out every device when the account is deactivated", async () => {
+      const { refreshToken } = await signIn();
+      await signIn();
+
+      const result = await new UserService().setUserActive(USER_ID, false);
+
+      expect(result).toEqual({
+        success: true,
+        message: "Account deactivated",
+      });
+      expect(sessions.docs.map((s) => s.revoked_reason)).toEqual([
+        "deactivated",
+        "deactivated",
+      ]);
+      await expectSessionEnded(refreshToken);
+
+      // Reactivation does not bring old sessions back
+      await new UserService().setUserActive(USER_ID, true);
+      await expectSessionEnded(refreshToken);
+    });
+  });
+});
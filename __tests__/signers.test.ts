@@ -0,0 +1,312 @@
+/**
+ * Custodial signers
+ *
+ * Traceability transactions are signed server-side with a key that belongs
+ * to the signed-in manufacturer or pharmacist: read from an encrypted
+ * keystore in production, or derived from the Hardhat mnemonic in
+ * development. The key is resolved per request and never sent by clients.
+ *
+ * @jest-environment node
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+import { NextRequest } from "next/server";
+import { FakeModel, fakeModel } from "./helpers/fake-models";
+
+jest.mock("@/lib/database/connection", () => ({
+  DatabaseManager: {
+    getInstance: () => ({ ensureConnection: jest.fn() }),
+  },
+}));
+
+jest.mock("@/lib/database/traceabilityModels", () => {
+  const models = { DrugBatch: fakeModel(), TraceabilityAudit: fakeModel() };
+  return { getTraceabilityModels: () => models };
+});
+
+jest.mock("@/lib/utils/auth-helper", () => ({
+  authenticateRequest: jest.fn(),
+}));
+
+jest.mock("@/lib/utils/access-log", () => ({
+  logAccessDenied: jest.fn(),
+}));
+
+jest.mock("@/lib/services/TraceabilityService", () => ({
+  traceabilityService: { createDrugBatch: jest.fn() },
+}));
+
+import { POST as createBatch } from "@/app/api/traceability/batches/create/route";
+import {
+  DevSignerProvider,
+  getSignerProvider,
+  KeystoreSignerProvider,
+  resolveSessionSigner,
+  setSignerProvider,
+  SignerProvider,
+} from "@/lib/blockchain/signers";
+import { getTraceabilityModels } from "@/lib/database/traceabilityModels";
+import { traceabilityService } from "@/lib/services/TraceabilityService";
+import { authenticateRequest } from "@/lib/utils/auth-helper";
+
+const HARDHAT_MNEMONIC =
+  "test test test test test test test test test test test junk";
+const MANUFACTURER = {
+  id: "64b000000000000000000130",
+  email: "maker@example.com",
+  role: "manufacturer" as const,
+};
+const OTHER_MANUFACTURER = {
+  id: "64b000000000000000000131",
+  email: "other.maker@example.com",
+  role: "manufacturer" as const,
+};
+
+const provider = new ethers.JsonRpcProvider("http://127.0.0.1:8545");
+const { DrugBatch } = getTraceabilityModels() as unknown as Record<
+  string,
+  FakeModel
+>;
+
+const batchRequest = (body: Record<string, any>) =>
+  new NextRequest("http://localhost/api/traceability/batches/create", {
+    method: "POST",
+    body: JSON.stringify({
+      drugName: "Amoxicillin",
+      batchNumber: "AMX-2026-01",
+      quantity: 1000,
+      manufacturedDate: "2026-01-01",
+      expiryDate: "2028-01-01",
+      ...body,
+    }),
+  });
+
+describe("Signer Tests", () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env };
+    setSignerProvider(null);
+  });
+
+  afterAll(() => {
+    process.env = env;
+    provider.destroy();
+  });
+
+  describe("Dev Backend", () => {
+    const signers = new DevSignerProvider(HARDHAT_MNEMONIC, provider);
+
+    test("should derive a stable account per user", async () => {
+      const first = await signers.getSigner(MANUFACTURER);
+      const again = await signers.getSigner(MANUFACTURER);
+      const other = await signers.getSigner(OTHER_MANUFACTURER);
+
+      expect(await first!.getAddress()).toBe(await again!.getAddress());
+      expect(await first!.getAddress()).not.toBe(await other!.getAddress());
+      expect(first!.provider).toBe(provider);
+    });
+
+    test("should only use the accounts a Hardhat node funds, except the deployer", async () => {
+      const funded = Array.from(
+        { length: 19 },
+        (_, i) =>
+          ethers.HDNodeWallet.fromPhrase(
+            HARDHAT_MNEMONIC,
+            undefined,
+            `m/44'/60'/0'/0/${i + 1}`
+          ).address
+      );
+
+      for (let i = 0; i < 50; i++) {
+        const signer = await signers.getSigner({
+          ...MANUFACTURER,
+          id: `64b0000000000000000001${i.toString(16).padStart(2, "0")}`,
+        });
+        expect(funded).toContain(await signer!.getAddress());
+      }
+    });
+  });
+
+  describe("Keystore Backend", () => {
+    const PASSWORD = "keystore-test-password";
+    const wallet = ethers.Wallet.createRandom();
+    let directory: string;
+
+    beforeAll(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "keystore-"));
+      // A cheap scrypt cost keeps the test fast; the format is unchanged
+      const json = await ethers.encryptKeystoreJson(
+        { address: wallet.address, privateKey: wallet.privateKey },
+        PASSWORD,
+        { scrypt: { N: 1 << 10 } }
+      );
+      await fs.writeFile(path.join(directory, `${MANUFACTURER.id}.json`), json);
+    });
+
+    afterAll(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test("should unlock the user's keystore once", async () => {
+      const signers = new KeystoreSignerProvider(directory, PASSWORD, provider);
+      const readFile = jest.spyOn(fs, "readFile");
+
+      const signer = await signers.getSigner(MANUFACTURER);
+      const cached = await signers.getSigner(MANUFACTURER);
+
+      expect(await signer!.getAddress()).toBe(wallet.address);
+      expect(cached).toBe(signer);
+      expect(readFile).toHaveBeenCalledTimes(1);
+      readFile.mockRestore();
+    });
+
+    test("should return no signer for a user without a keystore", async () => {
+      const signers = new KeystoreSignerProvider(directory, PASSWORD, provider);
+
+      expect(await signers.getSigner(OTHER_MANUFACTURER)).toBeNull();
+    });
+
+    test("should not read outside the keystore directory", async () => {
+      const signers = new KeystoreSignerProvider(directory, PASSWORD, provider);
+      const readFile = jest.spyOn(fs, "readFile");
+
+      expect(
+        await signers.getSigner({ ...MANUFACTURER, id: "../etc/passwd" })
+      ).toBeNull();
+      expect(readFile).not.toHaveBeenCalled();
+      readFile.mockRestore();
+    });
+
+    test("should refuse a wrong password", async () => {
+      const signers = new KeystoreSignerProvider(directory, "wrong", provider);
+
+      await expect(signers.getSigner(MANUFACTURER)).rejects.toThrow();
+    });
+  });
+
+  describe("Backend Selection", () => {
+    test("should use the dev backend outside production by default", () => {
+      delete process.env.SIGNER_BACKEND;
+
+      expect(getSignerProvider().name).toBe("dev");
+      expect(getSignerProvider()).toBe(getSignerProvider());
+    });
+
+    test("should default to keystores in production and refuse the dev backend", () => {
+      process.env = { ...env, NODE_ENV: "production", KEYSTORE_PASSWORD: "x" };
+      delete process.env.SIGNER_BACKEND;
+      expect(getSignerProvider().name).toBe("keystore");
+
+      setSignerProvider(null);
+      process.env.SIGNER_BACKEND = "dev";
+      expect(() => getSignerProvider()).toThrow(
+        "The dev signer backend cannot be used in production"
+      );
+    });
+
+    test("should require a keystore password and a known backend", () => {
+      process.env.SIGNER_BACKEND = "keystore";
+      delete process.env.KEYSTORE_PASSWORD;
+      expect(() => getSignerProvider()).toThrow("KEYSTORE_PASSWORD");
+
+      process.env.SIGNER_BACKEND = "hsm";
+      expect(() => getSignerProvider()).toThrow('Unknown SIGNER_BACKEND "hsm"');
+    });
+
+    test("should resolve session signers through a custom backend", async () => {
+      const wallet = ethers.Wallet.createRandom();
+      const custom: SignerProvider = {
+        name: "kms",
+        getSigner: jest.fn(async () => wallet),
+      };
+      setSignerProvider(custom);
+
+      expect(await resolveSessionSigner(MANUFACTURER)).toBe(wallet);
+      expect(custom.getSigner).toHaveBeenCalledWith(MANUFACTURER);
+    });
+  });
+
+  describe("Batch Creation", () => {
+    const wallets: Record<string, ethers.HDNodeWallet> = {
+      [MANUFACTURER.id]: ethers.Wallet.createRandom(),
+      [OTHER_MANUFACTURER.id]: ethers.Wallet.createRandom(),
+    };
+
+    beforeEach(() => {
+      DrugBatch.docs = [];
+      setSignerProvider({
+        name: "test",
+        getSigner: async (user) => wallets[user.id] ?? null,
+      });
+      (traceabilityService.createDrugBatch as jest.Mock).mockImplementation(
+        async (signer: ethers.Signer) => {
+          const address = await signer.getAddress();
+          // Let the other request run before this one finishes
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return { success: true, txHash: `0x${address.slice(2, 10)}` };
+        }
+      );
+    });
+
+    const as = (user: typeof MANUFACTURER) =>
+      (authenticateRequest as jest.Mock).mockResolvedValueOnce({
+        success: true,
+        user,
+      });
+
+    test("should refuse a private key in the request body", async () => {
+      as(MANUFACTURER);
+
+      const response = await createBatch(
+        batchRequest({ privateKey: wallets[MANUFACTURER.id].privateKey })
+      );
+
+      expect(response.status).toBe(400);
+      expect(traceabilityService.createDrugBatch).not.toHaveBeenCalled();
+    });
+
+    test("should refuse a user without a provisioned key", async () => {
+      as({ ...MANUFACTURER, id: "64b000000000000000000139" });
+
+      const response = await createBatch(batchRequest({}));
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).error).toBe(
+        "No signing key is provisioned for this account"
+      );
+      expect(DrugBatch.docs).toHaveLength(0);
+    });
+
+    test("should sign concurrent requests with each caller's own key", async () => {
+      as(MANUFACTURER);
+      as(OTHER_MANUFACTURER);
+
+      const responses = await Promise.all([
+        createBatch(batchRequest({ batchNumber: "AMX-A" })),
+        createBatch(batchRequest({ batchNumber: "AMX-B" })),
+      ]);
+
+      expect(responses.map((r) => r.status)).toEqual([200, 200]);
+      const signedBy = (
+        traceabilityService.createDrugBatch as jest.Mock
+      ).mock.calls.map(([signer]) => signer);
+      expect(signedBy).toEqual([
+        wallets[MANUFACTURER.id],
+        wallets[OTHER_MANUFACTURER.id],
+      ]);
+      expect(
+        DrugBatch.docs.map((b) => [b.batch_number, b.manufacturer_address])
+      ).toEqual(
+        expect.arrayContaining([
+          ["AMX-A", wallets[MANUFACTURER.id].address],
+          ["AMX-B", wallets[OTHER_MANUFACTURER.id].address],
+        ])
+      );
+    });
+  });
+});
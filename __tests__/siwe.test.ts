@@ -0,0 +1,213 @@
+/**
+ * Sign-In With Ethereum (EIP-4361) challenges
+ *
+ * A challenge is only accepted when it was signed by the wallet it names,
+ * for this domain, before it expired, and with a nonce the server issued
+ * and has not yet consumed.
+ *
+ * @jest-environment node
+ */
+
+import { privateKeyToAccount } from "viem/accounts";
+import { FakeModel, fakeModel } from "./helpers/fake-models";
+
+const DOMAIN = "pharmchain.test";
+const URI = "https://pharmchain.test";
+
+jest.mock("@/lib/database/walletAuthModels", () => ({
+  WalletNonce: fakeModel({ lowercase: ["wallet_address"] }),
+}));
+
+import {
+  consumeSiweNonce,
+  issueSiweChallenge,
+  NONCE_INVALID,
+  verifySiweLogin,
+} from "@/lib/utils/siwe";
+import { WalletNonce } from "@/lib/database/walletAuthModels";
+
+const nonces = WalletNonce as unknown as FakeModel;
+
+const wallet = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+);
+const otherWallet = privateKeyToAccount(
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a"
+);
+
+async function signedChallenge(
+  address: string = wallet.address,
+  signer = wallet
+) {
+  const challenge = await issueSiweChallenge(address, {
+    domain: DOMAIN,
+    uri: URI,
+  });
+  const signature = await signer.signMessage({ message: challenge.message });
+  return { ...challenge, signature };
+}
+
+describe("SIWE Tests", () => {
+  beforeEach(() => {
+    nonces.docs = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("Signature Verification", () => {
+    test("should accept a message signed by the wallet", async () => {
+      const { message, signature, nonce } = await signedChallenge();
+
+      const result = await verifySiweLogin({
+        message,
+        signature,
+        walletAddress: wallet.address.toLowerCase(),
+        domain: DOMAIN,
+      });
+
+      expect(result).toEqual({ ok: true, address: wallet.address, nonce });
+    });
+
+    test("should reject a signature from another wallet", async () => {
+      const { message, signature } = await signedChallenge(
+        wallet.address,
+        otherWallet
+      );
+
+      const result = await verifySiweLogin({
+        message,
+        signature,
+        walletAddress: wallet.address,
+        domain: DOMAIN,
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: "Signature does not match wallet address",
+      });
+    });
+
+    test("should reject a message issued for another address", async () => {
+      const { message, signature } = await signedChallenge();
+
+      const result = await verifySiweLogin({
+        message,
+        signature,
+        walletAddress: otherWallet.address,
+        domain: DOMAIN,
+      });
+
+      expect(result.ok).toBe(false);
+    });
+
+    test("should reject a message issued for another domain", async () => {
+      const { message, signature } = await signedChallenge();
+
+      const result = await verifySiweLogin({
+        message,
+        signature,
+        walletAddress: wallet.address,
+        domain: "phishing.test",
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: "Sign-in message is expired or was issued for another domain",
+      });
+    });
+
+    test("should reject a malformed message and an invalid address", async () => {
+      const { signature } = await signedChallenge();
+
+      expect(
+        await verifySiweLogin({
+          message: "Sign in to PharmChain.",
+          signature,
+          walletAddress: wallet.address,
+          domain: DOMAIN,
+        })
+      ).toEqual({ ok: false, error: "Malformed sign-in message" });
+      expect(
+        await verifySiweLogin({
+          message: "",
+          signature,
+          walletAddress: "0x1234",
+          domain: DOMAIN,
+        })
+      ).toEqual({ ok: false, error: "Invalid wallet address" });
+    });
+  });
+
+  describe("Nonce Lifetime", () => {
+    test("should reject a message once it has expired", async () => {
+      const { message, signature } = await signedChallenge();
+      jest.useFakeTimers({ now: Date.now() + 6 * 60 * 1000 });
+
+      const result = await verifySiweLogin({
+        message,
+        signature,
+        walletAddress: wallet.address,
+        domain: DOMAIN,
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: "Sign-in message is expired or was issued for another domain",
+      });
+    });
+
+    test("should reject a nonce the server no longer holds", async () => {
+      const { message, signature } = await signedChallenge();
+      nonces.docs[0].expires_at = new Date(Date.now() - 1000);
+
+      const result = await verifySiweLogin({
+        message,
+        signature,
+        walletAddress: wallet.address,
+        domain: DOMAIN,
+      });
+
+      expect(result).toEqual({ ok: false, error: NONCE_INVALID });
+    });
+
+    test("should not spend the nonce until it is consumed", async () => {
+      const { message, signature } = await signedChallenge();
+      const params = {
+        message,
+        signature,
+        walletAddress: wallet.address,
+        domain: DOMAIN,
+      };
+
+      expect((await verifySiweLogin(params)).ok).toBe(true);
+      expect((await verifySiweLogin(params)).ok).toBe(true);
+      expect(nonces.docs).toHaveLength(1);
+    });
+
+    test("should accept each nonce only once", async () => {
+      const { message, signature, nonce } = await signedChallenge();
+      const params = {
+        message,
+        signature,
+        walletAddress: wallet.address,
+        domain: DOMAIN,
+      };
+
+      expect(await consumeSiweNonce(wallet.address, nonce)).toBe(true);
+      expect(await consumeSiweNonce(wallet.address, nonce)).toBe(false);
+      expect(await verifySiweLogin(params)).toEqual({
+        ok: false,
+        error: NONCE_INVALID,
+      });
+    });
+
+    test("should not let another wallet consume the nonce", async () => {
+      const { nonce } = await signedChallenge();
+
+      expect(await consumeSiweNonce(otherWallet.address, nonce)).toBe(false);
+      expect(await consumeSiweNonce(wallet.address, nonce)).toBe(true);
+    });
+  });
+});
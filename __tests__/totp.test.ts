@@ -0,0 +1,238 @@
+/**
+ * Two-factor authentication
+ *
+ * Authenticator codes are checked against the RFC 6238 vectors; secrets are
+ * encrypted at rest, and neither an authenticator code nor a recovery code
+ * can be used twice.
+ *
+ * @jest-environment node
+ */
+
+import { FakeModel, fakeModel } from "./helpers/fake-models";
+
+// The RFC 6238 SHA-1 test secret, "12345678901234567890", in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const USER_ID = "64b000000000000000000070";
+
+jest.mock("@/lib/database/connection", () => ({
+  connectToDatabase: jest.fn(),
+}));
+
+jest.mock("@/lib/database/sessionModels", () => ({ SessionModel: {} }));
+
+jest.mock("@/lib/database/models", () => ({ UserModel: fakeModel() }));
+
+import {
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from "@/lib/utils/two-factor";
+import {
+  buildOtpAuthUrl,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isRecoveryCodeFormat,
+  verifyTotpCode,
+} from "@/lib/utils/totp";
+import { UserModel } from "@/lib/database/models";
+
+const users = UserModel as unknown as FakeModel;
+const user = () => users.docs[0];
+
+const RECOVERY_CODES = ["a1b2c-3d4e5", "0f9e8-d7c6b"];
+
+// Clock time for a number of seconds since the epoch, as RFC 6238 lists them
+const at = (seconds: number) => seconds * 1000;
+
+describe("TOTP Tests", () => {
+  let log: jest.SpyInstance;
+  let warn: jest.SpyInstance;
+
+  beforeAll(() => {
+    process.env.TWO_FACTOR_ENCRYPTION_KEY = "totp-test-encryption-key";
+  });
+
+  beforeEach(() => {
+    users.docs = [
+      {
+        _id: USER_ID,
+        two_factor_enabled: true,
+        two_factor_secret: encryptTotpSecret(RFC_SECRET),
+        two_factor_recovery_codes: RECOVERY_CODES.map(hashRecoveryCode),
+        two_factor_failed_attempts: 0,
+      },
+    ];
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    log.mockRestore();
+    warn.mockRestore();
+  });
+
+  describe("RFC 6238 Vectors", () => {
+    // The RFC lists 8-digit codes; authenticator apps show the last 6
+    test.each([
+      [59, "287082", 1],
+      [1111111109, "081804", 37037036],
+      [1111111111, "050471", 37037037],
+      [1234567890, "005924", 41152263],
+      [2000000000, "279037", 66666666],
+      [20000000000, "353130", 666666666],
+    ])(
+      "should accept the SHA-1 code for T=%i",
+      (seconds, code, expectedStep) => {
+        expect(verifyTotpCode(RFC_SECRET, code, at(seconds))).toBe(
+          expectedStep
+        );
+      }
+    );
+
+    test("should allow one step of clock drift either way", () => {
+      // 081804 and 050471 are the codes for consecutive steps
+      expect(verifyTotpCode(RFC_SECRET, "050471", at(1111111109))).toBe(
+        37037037
+      );
+      expect(verifyTotpCode(RFC_SECRET, "081804", at(1111111111))).toBe(
+        37037036
+      );
+      expect(
+        verifyTotpCode(RFC_SECRET, "081804", at(1111111111 + 30))
+      ).toBeNull();
+    });
+
+    test("should reject wrong and malformed codes", () => {
+      expect(verifyTotpCode(RFC_SECRET, "287083", at(59))).toBeNull();
+      expect(verifyTotpCode(RFC_SECRET, "94287082", at(59))).toBeNull();
+      expect(verifyTotpCode(RFC_SECRET, "28708a", at(59))).toBeNull();
+      expect(verifyTotpCode(RFC_SECRET, "287 082", at(59))).toBe(1);
+    });
+  });
+
+  describe("Secrets", () => {
+    test("should generate 160-bit base32 secrets", () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(generateTotpSecret()).not.toBe(secret);
+    });
+
+    test("should encrypt secrets at rest with a fresh IV", () => {
+      const first = encryptTotpSecret(RFC_SECRET);
+      const second = encryptTotpSecret(RFC_SECRET);
+
+      expect(first).not.toContain(RFC_SECRET);
+      expect(first).not.toBe(second);
+      expect(decryptTotpSecret(first)).toBe(RFC_SECRET);
+      expect(decryptTotpSecret(second)).toBe(RFC_SECRET);
+    });
+
+    test("should refuse a secret that was tampered with", () => {
+      const [iv, tag, ciphertext] = encryptTotpSecret(RFC_SECRET).split(".");
+      const flipped = Buffer.from(ciphertext, "base64");
+      flipped[0] ^= 1;
+
+      expect(() =>
+        decryptTotpSecret([iv, tag, flipped.toString("base64")].join("."))
+      ).toThrow();
+    });
+
+    test("should describe the secret for authenticator apps", () => {
+      const url = new URL(buildOtpAuthUrl(RFC_SECRET, "dr.who@example.com"));
+
+      expect(url.protocol).toBe("otpauth:");
+      expect(url.host).toBe("totp");
+      expect(decodeURIComponent(url.pathname)).toBe(
+        "/PharmChain:dr.who@example.com"
+      );
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        secret: RFC_SECRET,
+        issuer: "PharmChain",
+        algorithm: "SHA1",
+        digits: "6",
+        period: "30",
+      });
+    });
+  });
+
+  describe("Replay Protection", () => {
+    test("should accept an authenticator code only once", async () => {
+      jest.useFakeTimers({ now: at(59) });
+
+      expect(await verifySecondFactor(USER_ID, "287082")).toBe("totp");
+      expect(await verifySecondFactor(USER_ID, "287082")).toBeNull();
+
+      // Still inside its drift window, but already spent
+      jest.setSystemTime(at(89));
+      expect(await verifySecondFactor(USER_ID, "287082")).toBeNull();
+    });
+
+    test("should reject a code older than the last one used", async () => {
+      jest.useFakeTimers({ now: at(1111111111) });
+
+      expect(await verifySecondFactor(USER_ID, "050471")).toBe("totp");
+      expect(user().two_factor_last_used_step).toBe(37037037);
+      // The previous step's code would otherwise pass as clock drift
+      expect(await verifySecondFactor(USER_ID, "081804")).toBeNull();
+    });
+
+    test("should lock the second factor after repeated invalid codes", async () => {
+      jest.useFakeTimers({ now: at(59) });
+
+      for (let i = 0; i < 5; i++) {
+        expect(await verifySecondFactor(USER_ID, "000000")).toBeNull();
+      }
+
+      await expect(verifySecondFactor(USER_ID, "287082")).rejects.toMatchObject(
+        { status: 429, code: "TWO_FACTOR_LOCKED" }
+      );
+
+      jest.setSystemTime(at(59 + 15 * 60));
+      expect(await verifySecondFactor(USER_ID, RECOVERY_CODES[0])).toBe(
+        "recovery"
+      );
+      expect(user().two_factor_failed_attempts).toBe(0);
+    });
+  });
+
+  describe("Recovery Codes", () => {
+    test("should generate distinct codes in the recovery format", () => {
+      const codes = generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      expect(codes.every(isRecoveryCodeFormat)).toBe(true);
+    });
+
+    test("should ignore case and dashes when hashing", () => {
+      expect(hashRecoveryCode("A1B2C3D4E5")).toBe(
+        hashRecoveryCode("a1b2c-3d4e5")
+      );
+      expect(user().two_factor_recovery_codes).not.toContain("a1b2c-3d4e5");
+    });
+
+    test("should accept each recovery code only once", async () => {
+      expect(await verifySecondFactor(USER_ID, "A1B2C-3D4E5")).toBe("recovery");
+      expect(await verifySecondFactor(USER_ID, "a1b2c3d4e5")).toBeNull();
+      expect(user().two_factor_recovery_codes).toEqual([
+        hashRecoveryCode(RECOVERY_CODES[1]),
+      ]);
+
+      expect(await verifySecondFactor(USER_ID, RECOVERY_CODES[1])).toBe(
+        "recovery"
+      );
+      expect(user().two_factor_recovery_codes).toEqual([]);
+    });
+
+    test("should invalidate unused codes when they are regenerated", async () => {
+      const codes = await regenerateRecoveryCodes(USER_ID, RECOVERY_CODES[0]);
+
+      expect(await verifySecondFactor(USER_ID, RECOVERY_CODES[1])).toBeNull();
+      expect(await verifySecondFactor(USER_ID, codes[0])).toBe("recovery");
+    });
+  });
+});
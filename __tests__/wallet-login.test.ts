@@ -0,0 +1,312 @@
+/**
+ * Wallet sign-in (POST /api/auth/wallet-login)
+ *
+ * A wallet signs a SIWE challenge to sign in. An unknown wallet may only
+ * create a patient account; doctors and pharmacists register with their
+ * license for review, so a wallet can never make itself one. Accounts with
+ * two-factor authentication also need a code, sent with the same message.
+ *
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { privateKeyToAccount } from "viem/accounts";
+import { FakeModel, fakeModel } from "./helpers/fake-models";
+
+jest.mock("@/lib/database/connection", () => ({
+  connectToDatabase: jest.fn(),
+  DatabaseManager: {
+    getInstance: () => ({ ensureConnection: jest.fn() }),
+  },
+}));
+
+jest.mock("@/lib/database/walletAuthModels", () => ({
+  WalletNonce: fakeModel({ lowercase: ["wallet_address"] }),
+}));
+
+jest.mock("@/lib/database/models", () => ({
+  UserModel: fakeModel({ unique: [["walletAddress"]] }),
+  DoctorModel: fakeModel(),
+  PharmacistModel: fakeModel(),
+  PatientModel: fakeModel(),
+}));
+
+jest.mock("@/lib/services/NotificationService", () => ({
+  notificationService: { loginAlert: jest.fn() },
+}));
+
+jest.mock("@/lib/utils/sessions", () => ({
+  createSession: jest.fn(async () => ({
+    session: { _id: "64b000000000000000000150" },
+    accessToken: "access-token",
+    refreshToken: "refresh-token",
+  })),
+  accessTokenFields: (token: string) => ({ token }),
+  setRefreshTokenCookie: jest.fn(),
+}));
+
+import { POST } from "@/app/api/auth/wallet-login/route";
+import { DoctorModel, PatientModel, UserModel } from "@/lib/database/models";
+import { WalletNonce } from "@/lib/database/walletAuthModels";
+import { notificationService } from "@/lib/services/NotificationService";
+import { UserService } from "@/lib/services/UserService";
+import { issueSiweChallenge, NONCE_INVALID } from "@/lib/utils/siwe";
+import { createSession } from "@/lib/utils/sessions";
+import {
+  encryptTotpSecret,
+  generateTotpSecret,
+  hashRecoveryCode,
+} from "@/lib/utils/totp";
+
+const users = UserModel as unknown as FakeModel;
+const doctors = DoctorModel as unknown as FakeModel;
+const patients = PatientModel as unknown as FakeModel;
+const nonces = WalletNonce as unknown as FakeModel;
+
+const DOMAIN = "pharmchain.test";
+const wallet = privateKeyToAccount(
+  "0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6"
+);
+const otherWallet = privateKeyToAccount(
+  "0x47e179ec197488593b187f80a00eb0da91f1b9d0b13f8733639f19c30a34926a"
+);
+
+async function signIn(
+  role: string,
+  extra: Record<string, any> = {},
+  signer = wallet
+) {
+  const { message } = await issueSiweChallenge(wallet.address, {
+    domain: DOMAIN,
+    uri: `https://${DOMAIN}`,
+  });
+  const signature = await signer.signMessage({ message });
+  return { walletAddress: wallet.address, role, message, signature, ...extra };
+}
+
+const post = (body: Record<string, any>) =>
+  POST(
+    new NextRequest(`https://${DOMAIN}/api/auth/wallet-login`, {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+
+function existingUser(fields: Record<string, any>) {
+  return users.insert({
+    email: "dr.quinn@example.com",
+    walletAddress: wallet.address.toLowerCase(),
+    is_active: true,
+    ...fields,
+  });
+}
+
+describe("Wallet Login Tests", () => {
+  let log: jest.SpyInstance;
+  let warn: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    users.docs = [];
+    doctors.docs = [];
+    patients.docs = [];
+    nonces.docs = [];
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    error = jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+    warn.mockRestore();
+    error.mockRestore();
+  });
+
+  describe("Registration", () => {
+    test("should create a patient account for a new wallet", async () => {
+      const response = await post(await signIn("patient"));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.user).toMatchObject({
+        role: "patient",
+        walletAddress: wallet.address.toLowerCase(),
+      });
+      expect(users.docs).toHaveLength(1);
+      expect(patients.docs).toEqual([
+        expect.objectContaining({ user_id: users.docs[0]._id }),
+      ]);
+      expect(nonces.docs).toHaveLength(0);
+      expect(createSession).toHaveBeenCalledWith(
+        expect.any(NextRequest),
+        users.docs[0]._id.toString(),
+        { authMethod: "wallet" }
+      );
+    });
+
+    test.each(["doctor", "pharmacist", "admin"])(
+      "should not let a new wallet register as %s",
+      async (role) => {
+        const response = await post(await signIn(role));
+
+        expect(response.status).toBe(403);
+        expect((await response.json()).error).toMatch(
+          /^Only patients can register with a wallet/
+        );
+        expect(users.docs).toHaveLength(0);
+        expect(createSession).not.toHaveBeenCalled();
+        // The challenge stays unspent, so the wallet can still sign in as a patient
+        expect(nonces.docs).toHaveLength(1);
+      }
+    );
+
+    test("should refuse to create a professional account when called directly", async () => {
+      await expect(
+        UserService.registerWalletUser({
+          walletAddress: wallet.address,
+          email: "x@wallet.local",
+          username: "x",
+          role: "pharmacist",
+        })
+      ).rejects.toThrow("Wallets cannot self-register as pharmacist");
+      expect(users.docs).toHaveLength(0);
+    });
+
+    test("should refuse an unknown role", async () => {
+      const response = await post(await signIn("manufacturer"));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("Sign-in", () => {
+    test("should sign in an existing doctor with their wallet", async () => {
+      const doctor = existingUser({ role: "doctor" });
+      doctors.insert({ user_id: doctor._id, licenseNumber: "GMC-1234567" });
+
+      const response = await post(await signIn("doctor"));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.user).toMatchObject({
+        id: doctor._id.toString(),
+        role: "doctor",
+        licenseNumber: "GMC-1234567",
+      });
+      expect(users.docs).toHaveLength(1);
+      expect(notificationService.loginAlert).toHaveBeenCalledWith(
+        doctor._id,
+        "wallet"
+      );
+    });
+
+    test("should refuse a role the wallet is not registered as", async () => {
+      existingUser({ role: "patient" });
+
+      const response = await post(await signIn("doctor"));
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).error).toBe(
+        "This wallet is registered as patient, not doctor"
+      );
+    });
+
+    test("should refuse a deactivated account", async () => {
+      existingUser({ role: "doctor", is_active: false });
+
+      const response = await post(await signIn("doctor"));
+
+      expect(response.status).toBe(403);
+      expect(createSession).not.toHaveBeenCalled();
+    });
+
+    test("should refuse a message signed by another wallet", async () => {
+      existingUser({ role: "doctor" });
+
+      const response = await post(await signIn("doctor", {}, otherWallet));
+
+      expect(response.status).toBe(401);
+      expect(createSession).not.toHaveBeenCalled();
+      expect(nonces.docs).toHaveLength(1);
+    });
+
+    test("should not accept the same signed message twice", async () => {
+      existingUser({ role: "doctor" });
+      const body = await signIn("doctor");
+
+      expect((await post(body)).status).toBe(200);
+      const replayed = await post(body);
+
+      expect(replayed.status).toBe(401);
+      expect((await replayed.json()).error).toBe(NONCE_INVALID);
+      expect(createSession).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Two-factor", () => {
+    const RECOVERY_CODE = "a1b2c-3d4e5";
+
+    beforeAll(() => {
+      process.env.TWO_FACTOR_ENCRYPTION_KEY = "wallet-login-test-key";
+    });
+
+    const enrolledDoctor = () =>
+      existingUser({
+        role: "doctor",
+        two_factor_enabled: true,
+        two_factor_secret: encryptTotpSecret(generateTotpSecret()),
+        two_factor_recovery_codes: [hashRecoveryCode(RECOVERY_CODE)],
+        two_factor_failed_attempts: 0,
+      });
+
+    test("should ask for the second factor without spending the nonce", async () => {
+      enrolledDoctor();
+      const body = await signIn("doctor");
+
+      const challenged = await post(body);
+
+      expect(challenged.status).toBe(401);
+      expect((await challenged.json()).code).toBe("TWO_FACTOR_REQUIRED");
+      expect(nonces.docs).toHaveLength(1);
+
+      // The same signed message is sent again with the code
+      const response = await post({ ...body, twoFactorCode: RECOVERY_CODE });
+
+      expect(response.status).toBe(200);
+      expect(nonces.docs).toHaveLength(0);
+      expect(users.docs[0].two_factor_recovery_codes).toEqual([]);
+    });
+
+    test("should refuse a wrong code and keep the nonce for another try", async () => {
+      enrolledDoctor();
+      const body = await signIn("doctor");
+
+      const response = await post({ ...body, twoFactorCode: "000000" });
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).code).toBe("TWO_FACTOR_INVALID");
+      expect(users.docs[0].two_factor_failed_attempts).toBe(1);
+      expect(nonces.docs).toHaveLength(1);
+      expect(createSession).not.toHaveBeenCalled();
+
+      const retried = await post({ ...body, twoFactorCode: RECOVERY_CODE });
+      expect(retried.status).toBe(200);
+    });
+
+    test("should lock the second factor after repeated wrong codes", async () => {
+      enrolledDoctor();
+      const body = await signIn("doctor");
+
+      for (let i = 0; i < 5; i++) {
+        await post({ ...body, twoFactorCode: "000000" });
+      }
+      const response = await post({ ...body, twoFactorCode: RECOVERY_CODE });
+
+      expect(response.status).toBe(429);
+      expect((await response.json()).code).toBe("TWO_FACTOR_LOCKED");
+      expect(createSession).not.toHaveBeenCalled();
+      expect(nonces.docs).toHaveLength(1);
+    });
+  });
+});
@@ -43,8 +43,23 @@ contract PrescriptionContract is AccessControl, ReentrancyGuard {
         bytes32 blockchainHash; // Link to off-chain hash
     }
 
+    // Prescription header: one prescribing visit covering several lines.
+    // headerHash is the off-chain signature hash over the header and its lines.
+    struct PrescriptionHeader {
+        uint256 id;
+        address patientAddress;
+        address doctorAddress;
+        bytes32 headerHash;
+        uint256 lineCount;
+        uint256 createdAt;
+    }
+
     // State variables
     uint256 private _prescriptionIdCounter;
+    uint256 private _headerIdCounter;
+    mapping(uint256 => PrescriptionHeader) public prescriptionHeaders;
+    mapping(bytes32 => uint256) public headerIdByHash;
+    mapping(address => uint256[]) public patientPrescriptionHeaders;
     mapping(uint256 => Prescription) public prescriptions;
     mapping(address => uint256[]) public patientPrescriptions;
     mapping(address => uint256[]) public doctorPrescriptions;
@@ -59,6 +74,15 @@ contract PrescriptionContract is AccessControl, ReentrancyGuard {
         uint256 timestamp
     );
 
+    event PrescriptionHeaderCreated(
+        uint256 indexed headerId,
+        address indexed patientAddress,
+        address indexed doctorAddress,
+        bytes32 headerHash,
+        uint256 lineCount,
+        uint256 timestamp
+    );
+
     event PrescriptionVerified(
         uint256 indexed prescriptionId,
         address indexed verifierAddress,
@@ -142,6 +166,49 @@ contract PrescriptionContract is AccessControl, ReentrancyGuard {
         return newPrescriptionId;
     }
 
+    /**
+     * @dev Record a prescription header covering all lines of one visit
+     * @param patientAddress Address of the patient
+     * @param headerHash Signature hash of the header and its lines
+     * @param lineCount Number of prescription lines on the header
+     * @return headerId The ID of the recorded header
+     */
+    function createPrescriptionHeader(
+        address patientAddress,
+        bytes32 headerHash,
+        uint256 lineCount
+    ) external onlyRole(DOCTOR_ROLE) returns (uint256) {
+        require(patientAddress != address(0), "Invalid patient address");
+        require(headerHash != bytes32(0), "Invalid header hash");
+        require(lineCount > 0, "Header must have at least one line");
+        require(headerIdByHash[headerHash] == 0, "Header already recorded");
+
+        _headerIdCounter++;
+        uint256 newHeaderId = _headerIdCounter;
+
+        prescriptionHeaders[newHeaderId] = PrescriptionHeader({
+            id: newHeaderId,
+            patientAddress: patientAddress,
+            doctorAddress: msg.sender,
+            headerHash: headerHash,
+            lineCount: lineCount,
+            createdAt: block.timestamp
+        });
+        headerIdByHash[headerHash] = newHeaderId;
+        patientPrescriptionHeaders[patientAddress].push(newHeaderId);
+
+        emit PrescriptionHeaderCreated(
+            newHeaderId,
+            patientAddress,
+            msg.sender,
+            headerHash,
+            lineCount,
+            block.timestamp
+        );
+
+        return newHeaderId;
+    }
+
     /**
      * @dev Verify a prescription
      * @param prescriptionId ID of the prescription to verify
@@ -285,6 +352,33 @@ contract PrescriptionContract is AccessControl, ReentrancyGuard {
         return prescriptions[prescriptionId];
     }
 
+    /**
+     * @dev Get prescription header details
+     * @param headerId ID of the header
+     * @return PrescriptionHeader struct
+     */
+    function getPrescriptionHeader(uint256 headerId)
+        external
+        view
+        returns (PrescriptionHeader memory)
+    {
+        require(prescriptionHeaders[headerId].id != 0, "Header does not exist");
+        return prescriptionHeaders[headerId];
+    }
+
+    /**
+     * @dev Get all prescription headers for a patient
+     * @param patientAddress Address of the patient
+     * @return Array of header IDs
+     */
+    function getPatientPrescriptionHeaders(address patientAddress)
+        external
+        view
+        returns (uint256[] memory)
+    {
+        return patientPrescriptionHeaders[patientAddress];
+    }
+
     /**
      * @dev Get all prescriptions for a patient
      * @param patientAddress Address of the patient
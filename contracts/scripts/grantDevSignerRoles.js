@@ -0,0 +1,77 @@
+const hre = require("hardhat");
+
+// Accounts the backend's dev signers use (SIGNER_BACKEND=dev). Keep in step
+// with DEV_SIGNER_FIRST_INDEX and DEV_SIGNER_ACCOUNT_COUNT in
+// src/lib/blockchain/signers.ts.
+const DEV_SIGNER_FIRST_INDEX = 1;
+const DEV_SIGNER_ACCOUNT_COUNT = 19;
+
+async function main() {
+  const traceabilityAddress =
+    process.env.NEXT_PUBLIC_DRUG_TRACEABILITY_CONTRACT_ADDRESS;
+
+  if (!traceabilityAddress) {
+    console.error("❌ Contract addresses not found in environment variables");
+    console.log(
+      "Please deploy contracts first using: npx hardhat run scripts/deploy.js --network localhost"
+    );
+    process.exit(1);
+  }
+
+  // The dev signers derive from the Hardhat test mnemonic, so their
+  // accounts only exist on a local node
+  if (!["localhost", "hardhat"].includes(hre.network.name)) {
+    console.error("❌ Dev signer roles can only be granted on a local node");
+    process.exit(1);
+  }
+
+  console.log("🔐 Granting traceability roles to dev signer accounts...");
+  console.log("Network:", hre.network.name);
+  console.log("---");
+
+  const signers = await hre.ethers.getSigners();
+  const [admin] = signers;
+  console.log("Admin account:", admin.address);
+  console.log("---");
+
+  const DrugTraceabilityContract = await hre.ethers.getContractFactory(
+    "DrugTraceabilityContract"
+  );
+  const traceabilityContract =
+    DrugTraceabilityContract.attach(traceabilityAddress);
+
+  const accounts = signers.slice(
+    DEV_SIGNER_FIRST_INDEX,
+    DEV_SIGNER_FIRST_INDEX + DEV_SIGNER_ACCOUNT_COUNT
+  );
+  if (accounts.length < DEV_SIGNER_ACCOUNT_COUNT) {
+    console.error(
+      `❌ The node has ${signers.length} accounts; ${
+        DEV_SIGNER_FIRST_INDEX + DEV_SIGNER_ACCOUNT_COUNT
+      } are needed`
+    );
+    process.exit(1);
+  }
+
+  // Any user may be mapped to any of these accounts, so each one gets both
+  // roles the traceability routes sign with
+  for (const account of accounts) {
+    let tx = await traceabilityContract.grantManufacturerRole(account.address);
+    await tx.wait();
+    tx = await traceabilityContract.grantPharmacistRole(account.address);
+    await tx.wait();
+    console.log(
+      `✅ Granted MANUFACTURER_ROLE and PHARMACIST_ROLE to: ${account.address}`
+    );
+  }
+
+  console.log("---");
+  console.log("✨ Dev signer roles granted!");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Error granting roles:", error);
+    process.exit(1);
+  });
@@ -33,7 +33,9 @@ async function main() {
   const drugInventoryContract =
     DrugInventoryContract.attach(drugInventoryAddress);
 
-  // Example addresses (replace with actual addresses)
+  // The app grants DOCTOR_ROLE / PHARMACIST_ROLE automatically when an admin
+  // approves a license. Use these lists only for accounts approved before
+  // their wallet was linked, or to re-grant after a failed grant.
   const doctorAddresses = [
     // Add doctor wallet addresses here
     // "0x1234...",
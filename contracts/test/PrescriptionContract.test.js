@@ -1,6 +1,7 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
 const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const { anyValue } = require("@nomicfoundation/hardhat-chai-matchers/withArgs");
 
 describe("PrescriptionContract", function () {
   let prescriptionContract;
@@ -183,6 +184,66 @@ describe("PrescriptionContract", function () {
     });
   });
 
+  describe("Create Prescription Header", function () {
+    const headerHash = ethers.keccak256(ethers.toUtf8Bytes("header-1"));
+
+    it("Should allow doctor to record a header", async function () {
+      await expect(
+        prescriptionContract
+          .connect(doctor)
+          .createPrescriptionHeader(patient.address, headerHash, 3)
+      )
+        .to.emit(prescriptionContract, "PrescriptionHeaderCreated")
+        .withArgs(1, patient.address, doctor.address, headerHash, 3, anyValue);
+    });
+
+    it("Should store header data", async function () {
+      await prescriptionContract
+        .connect(doctor)
+        .createPrescriptionHeader(patient.address, headerHash, 3);
+
+      const header = await prescriptionContract.getPrescriptionHeader(1);
+      expect(header.patientAddress).to.equal(patient.address);
+      expect(header.doctorAddress).to.equal(doctor.address);
+      expect(header.headerHash).to.equal(headerHash);
+      expect(header.lineCount).to.equal(3);
+      expect(await prescriptionContract.headerIdByHash(headerHash)).to.equal(1);
+      expect(
+        await prescriptionContract.getPatientPrescriptionHeaders(
+          patient.address
+        )
+      ).to.deep.equal([1n]);
+    });
+
+    it("Should not record the same header twice", async function () {
+      await prescriptionContract
+        .connect(doctor)
+        .createPrescriptionHeader(patient.address, headerHash, 3);
+
+      await expect(
+        prescriptionContract
+          .connect(doctor)
+          .createPrescriptionHeader(patient.address, headerHash, 3)
+      ).to.be.revertedWith("Header already recorded");
+    });
+
+    it("Should not allow a header without lines", async function () {
+      await expect(
+        prescriptionContract
+          .connect(doctor)
+          .createPrescriptionHeader(patient.address, headerHash, 0)
+      ).to.be.revertedWith("Header must have at least one line");
+    });
+
+    it("Should not allow non-doctor to record a header", async function () {
+      await expect(
+        prescriptionContract
+          .connect(unauthorized)
+          .createPrescriptionHeader(patient.address, headerHash, 1)
+      ).to.be.reverted;
+    });
+  });
+
   describe("Verify Prescription", function () {
     beforeEach(async function () {
       await prescriptionContract
@@ -191,7 +252,9 @@ describe("PrescriptionContract", function () {
     });
 
     it("Should allow verifier to verify prescription", async function () {
-      await expect(prescriptionContract.connect(verifier).verifyPrescription(1, true))
+      await expect(
+        prescriptionContract.connect(verifier).verifyPrescription(1, true)
+      )
         .to.emit(prescriptionContract, "PrescriptionVerified")
         .withArgs(1, verifier.address);
     });
@@ -238,20 +301,26 @@ describe("PrescriptionContract", function () {
 
     it("Should allow pharmacist to dispense prescription", async function () {
       await expect(
-        prescriptionContract.connect(pharmacist).dispensePrescription(1, 30, ethers.ZeroHash)
+        prescriptionContract
+          .connect(pharmacist)
+          .dispensePrescription(1, 30, ethers.ZeroHash)
       )
         .to.emit(prescriptionContract, "PrescriptionDispensed")
         .withArgs(1, pharmacist.address);
     });
 
     it("Should update prescription status to Dispensed", async function () {
-      await prescriptionContract.connect(pharmacist).dispensePrescription(1, 30, ethers.ZeroHash);
+      await prescriptionContract
+        .connect(pharmacist)
+        .dispensePrescription(1, 30, ethers.ZeroHash);
       const prescription = await prescriptionContract.getPrescription(1);
       expect(prescription.status).to.equal(2); // Dispensed
     });
 
     it("Should set dispensedBy address", async function () {
-      await prescriptionContract.connect(pharmacist).dispensePrescription(1, 30, ethers.ZeroHash);
+      await prescriptionContract
+        .connect(pharmacist)
+        .dispensePrescription(1, 30, ethers.ZeroHash);
       const prescription = await prescriptionContract.getPrescription(1);
       expect(prescription.dispensedBy).to.equal(pharmacist.address);
     });
@@ -269,7 +338,9 @@ describe("PrescriptionContract", function () {
 
     it("Should not allow non-pharmacist to dispense", async function () {
       await expect(
-        prescriptionContract.connect(unauthorized).dispensePrescription(1, 30, ethers.ZeroHash)
+        prescriptionContract
+          .connect(unauthorized)
+          .dispensePrescription(1, 30, ethers.ZeroHash)
       ).to.be.reverted;
     });
 
@@ -279,15 +350,21 @@ describe("PrescriptionContract", function () {
         .createPrescription(patient.address, 2, 30, "250mg once daily", 30);
 
       await expect(
-        prescriptionContract.connect(pharmacist).dispensePrescription(2, 30, ethers.ZeroHash)
+        prescriptionContract
+          .connect(pharmacist)
+          .dispensePrescription(2, 30, ethers.ZeroHash)
       ).to.be.revertedWith("Invalid status for this action");
     });
 
     it("Should not dispense already dispensed prescription", async function () {
-      await prescriptionContract.connect(pharmacist).dispensePrescription(1, 30, ethers.ZeroHash);
+      await prescriptionContract
+        .connect(pharmacist)
+        .dispensePrescription(1, 30, ethers.ZeroHash);
 
       await expect(
-        prescriptionContract.connect(pharmacist).dispensePrescription(1, 30, ethers.ZeroHash)
+        prescriptionContract
+          .connect(pharmacist)
+          .dispensePrescription(1, 30, ethers.ZeroHash)
       ).to.be.revertedWith("Invalid status for this action");
     });
   });
@@ -325,7 +402,9 @@ describe("PrescriptionContract", function () {
 
     it("Should not expire already dispensed prescription", async function () {
       await prescriptionContract.connect(verifier).verifyPrescription(1, true);
-      await prescriptionContract.connect(pharmacist).dispensePrescription(1, 30, ethers.ZeroHash);
+      await prescriptionContract
+        .connect(pharmacist)
+        .dispensePrescription(1, 30, ethers.ZeroHash);
 
       await expect(
         prescriptionContract.expirePrescription(1)
@@ -363,7 +442,9 @@ describe("PrescriptionContract", function () {
 
     it("Should not cancel already dispensed prescription", async function () {
       await prescriptionContract.connect(verifier).verifyPrescription(1, true);
-      await prescriptionContract.connect(pharmacist).dispensePrescription(1, 30, ethers.ZeroHash);
+      await prescriptionContract
+        .connect(pharmacist)
+        .dispensePrescription(1, 30, ethers.ZeroHash);
 
       await expect(
         prescriptionContract.connect(doctor).cancelPrescription(1)
@@ -434,7 +515,9 @@ describe("PrescriptionContract", function () {
 
     it("Should return true for dispensed prescription", async function () {
       await prescriptionContract.connect(verifier).verifyPrescription(1, true);
-      await prescriptionContract.connect(pharmacist).dispensePrescription(1, 30, ethers.ZeroHash);
+      await prescriptionContract
+        .connect(pharmacist)
+        .dispensePrescription(1, 30, ethers.ZeroHash);
       expect(await prescriptionContract.isValidPrescription(1)).to.be.true;
     });
   });
@@ -466,7 +549,9 @@ describe("PrescriptionContract", function () {
       await prescriptionContract.connect(verifier).verifyPrescription(1, true);
 
       await expect(
-        prescriptionContract.connect(pharmacist).dispensePrescription(1, 30, ethers.ZeroHash)
+        prescriptionContract
+          .connect(pharmacist)
+          .dispensePrescription(1, 30, ethers.ZeroHash)
       ).to.emit(prescriptionContract, "PrescriptionDispensed");
     });
   });
@@ -0,0 +1,21 @@
+// Starts a single-node MongoDB replica set for the tests that need real
+// transactions and unique indexes (see __tests__/helpers/mongo.ts). Where
+// mongod cannot be started, e.g. no binary for this platform and no network
+// to download one, those tests are skipped.
+const { MongoMemoryReplSet } = require("mongodb-memory-server");
+
+module.exports = async function globalSetup() {
+  try {
+    const replSet = await MongoMemoryReplSet.create({
+      // The oldest release with binaries for current Linux distributions
+      binary: { version: "7.0.14" },
+      replSet: { count: 1, storageEngine: "wiredTiger" },
+    });
+    globalThis.__MONGO_REPLSET__ = replSet;
+    process.env.MONGO_TEST_URI = replSet.getUri();
+  } catch (error) {
+    console.warn(
+      `\nMongoDB-backed tests are skipped: ${String(error.message).split("\n")[0]}`
+    );
+  }
+};
@@ -0,0 +1,3 @@
+module.exports = async function globalTeardown() {
+  await globalThis.__MONGO_REPLSET__?.stop();
+};
@@ -0,0 +1,46 @@
+// Provision a custodial signing key for a manufacturer or pharmacist
+// Run with: KEYSTORE_PASSWORD=... ts-node scripts/create-keystore.ts <userId>
+
+import { promises as fs } from "fs";
+import path from "path";
+import { ethers } from "ethers";
+
+async function createKeystore() {
+  const userId = process.argv[2];
+  const password = process.env.KEYSTORE_PASSWORD;
+  const directory =
+    process.env.KEYSTORE_DIR || path.join(process.cwd(), "keystore");
+
+  if (!userId || !/^[a-zA-Z0-9_-]+$/.test(userId)) {
+    console.error("Usage: ts-node scripts/create-keystore.ts <userId>");
+    process.exit(1);
+  }
+  if (!password) {
+    console.error("❌ KEYSTORE_PASSWORD must be set");
+    process.exit(1);
+  }
+
+  const file = path.join(directory, `${userId}.json`);
+  try {
+    await fs.access(file);
+    console.error(`❌ A keystore already exists for ${userId}: ${file}`);
+    process.exit(1);
+  } catch {
+    // No existing keystore, safe to create one
+  }
+
+  const wallet = ethers.Wallet.createRandom();
+  const json = await wallet.encrypt(password);
+
+  await fs.mkdir(directory, { recursive: true, mode: 0o700 });
+  await fs.writeFile(file, json, { mode: 0o600 });
+
+  console.log(`✅ Keystore written to ${file}`);
+  console.log(`   Signer address: ${wallet.address}`);
+  console.log("   Fund this address and grant it the matching contract role.");
+}
+
+createKeystore().catch((error) => {
+  console.error("❌ Failed to create keystore:", error);
+  process.exit(1);
+});
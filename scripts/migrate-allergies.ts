@@ -0,0 +1,62 @@
+// Migration script to convert free-text patient allergies into structured
+// entries used by prescription screening
+// Run with: ts-node scripts/migrate-allergies.ts
+
+import { connectToDatabase } from "../src/lib/database/connection";
+import { PatientModel } from "../src/lib/database/models";
+import { normalizeAllergies } from "../src/lib/utils/allergies";
+
+async function migrateAllergies() {
+  console.log("🩺 Starting Allergy Migration...\n");
+
+  try {
+    // Connect to database
+    await connectToDatabase();
+    console.log("✅ Connected to database\n");
+
+    // Step 1: Convert string allergies. The raw collection is used because
+    // the schema no longer accepts the old string form.
+    console.log("Step 1: Converting free-text allergies...");
+    const legacyPatients = await PatientModel.collection
+      .find({ allergies: { $type: "string" } })
+      .project({ allergies: 1 })
+      .toArray();
+
+    let converted = 0;
+    for (const patient of legacyPatients) {
+      const allergies = normalizeAllergies(patient.allergies).map(
+        (allergy) => ({ ...allergy, recorded_at: new Date() })
+      );
+      await PatientModel.collection.updateOne(
+        { _id: patient._id },
+        { $set: { allergies } }
+      );
+      converted++;
+    }
+    console.log(`✅ Converted ${converted} patients\n`);
+
+    // Step 2: Verification
+    console.log("Step 2: Verifying migration...");
+    const remaining = await PatientModel.collection.countDocuments({
+      allergies: { $type: "string" },
+    });
+
+    console.log("\n📊 Migration Summary:");
+    console.log(`   Patients converted: ${converted}`);
+    console.log(`   Patients still holding free text: ${remaining}`);
+
+    console.log("\n✅ Migration completed successfully!");
+    console.log("\nNext steps:");
+    console.log(
+      "1. Converted entries default to moderate severity; review and set reactions and severity\n"
+    );
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Migration failed:", error);
+    process.exit(1);
+  }
+}
+
+// Run migration
+migrateAllergies();
@@ -0,0 +1,127 @@
+// Migration script to build the drug formulary from existing inventory
+// Run with: ts-node scripts/migrate-formulary.ts
+
+import { connectToDatabase } from "../src/lib/database/connection";
+import { DrugModel, PrescriptionModel } from "../src/lib/database/models";
+import { FormularyItemModel } from "../src/lib/database/formularyModels";
+
+async function migrateFormulary() {
+  console.log("💊 Starting Formulary Migration...\n");
+
+  try {
+    // Connect to database
+    await connectToDatabase();
+    console.log("✅ Connected to database\n");
+
+    // Step 1: Create a formulary item for every distinct product in stock
+    // and link the stock entries to it
+    console.log("Step 1: Linking drugs to formulary items...");
+    const unlinkedDrugs = await DrugModel.find({
+      formulary_id: { $exists: false },
+    });
+
+    let itemsCreated = 0;
+    let drugsLinked = 0;
+    const duplicates: string[] = [];
+
+    for (const drug of unlinkedDrugs) {
+      let item = await FormularyItemModel.findOne({
+        name: drug.name,
+        strength: drug.strength,
+        dosage_form: drug.dosage_form,
+      });
+
+      if (!item) {
+        item = await FormularyItemModel.create({
+          // Placeholder code; replace with the real ATC/NDC code afterwards
+          code: `LEGACY-${drug._id.toString().slice(-8)}`,
+          name: drug.name,
+          generic_name: drug.generic_name,
+          strength: drug.strength,
+          dosage_form: drug.dosage_form,
+          description: drug.description,
+        });
+        itemsCreated++;
+      }
+
+      // A pharmacy holds one stock entry per formulary item
+      const clash = await DrugModel.findOne({
+        pharmacy_id: drug.pharmacy_id,
+        formulary_id: item._id,
+      });
+      if (clash) {
+        duplicates.push(`${drug.name} (${drug._id}) duplicates ${clash._id}`);
+        continue;
+      }
+
+      await DrugModel.updateOne(
+        { _id: drug._id },
+        { $set: { formulary_id: item._id } }
+      );
+      drugsLinked++;
+    }
+
+    console.log(`✅ Created ${itemsCreated} formulary items`);
+    console.log(`✅ Linked ${drugsLinked} drugs\n`);
+
+    // Step 2: Record what each existing prescription prescribed
+    console.log("Step 2: Updating prescriptions...");
+    const unlinkedPrescriptions = await PrescriptionModel.find({
+      formulary_id: { $exists: false },
+      drug_id: { $exists: true },
+    })
+      .select("drug_id")
+      .populate("drug_id", "formulary_id");
+
+    let prescriptionsLinked = 0;
+    for (const prescription of unlinkedPrescriptions) {
+      const formularyId = (prescription.drug_id as any)?.formulary_id;
+      if (!formularyId) continue;
+
+      await PrescriptionModel.updateOne(
+        { _id: prescription._id },
+        { $set: { formulary_id: formularyId } }
+      );
+      prescriptionsLinked++;
+    }
+    console.log(`✅ Linked ${prescriptionsLinked} prescriptions\n`);
+
+    // Step 3: Verification
+    console.log("Step 3: Verifying migration...");
+    const formularyCount = await FormularyItemModel.countDocuments();
+    const remainingDrugs = await DrugModel.countDocuments({
+      formulary_id: { $exists: false },
+    });
+    const remainingPrescriptions = await PrescriptionModel.countDocuments({
+      formulary_id: { $exists: false },
+    });
+
+    console.log("\n📊 Migration Summary:");
+    console.log(`   Formulary items: ${formularyCount}`);
+    console.log(`   Drugs without formulary item: ${remainingDrugs}`);
+    console.log(
+      `   Prescriptions without formulary item: ${remainingPrescriptions}`
+    );
+
+    if (duplicates.length > 0) {
+      console.log(
+        "\n⚠️  Duplicate stock entries left unlinked (merge their stock by hand):"
+      );
+      duplicates.forEach((d) => console.log(`   - ${d}`));
+    }
+
+    console.log("\n✅ Migration completed successfully!");
+    console.log("\nNext steps:");
+    console.log("1. Replace LEGACY- codes with real ATC/NDC codes");
+    console.log("2. Set controlled_schedule on controlled substances");
+    console.log("3. Merge any duplicate stock entries listed above\n");
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Migration failed:", error);
+    process.exit(1);
+  }
+}
+
+// Run migration
+migrateFormulary();
@@ -0,0 +1,129 @@
+// Migration script to group prescriptions written before headers existed.
+// The old doctor route created one prescription per drug in a loop, copying
+// the diagnosis into notes, so lines from one visit share the doctor,
+// patient and notes and were issued seconds apart.
+// Run with: ts-node scripts/migrate-prescription-headers.ts
+
+import { connectToDatabase } from "../src/lib/database/connection";
+import {
+  PrescriptionModel,
+  PrescriptionHeaderModel,
+} from "../src/lib/database/models";
+import {
+  computeHeaderSignature,
+  deriveHeaderStatus,
+} from "../src/lib/utils/prescription-headers";
+
+// Lines issued further apart than this are treated as separate visits
+const VISIT_WINDOW_MS = 5 * 60 * 1000;
+
+async function migratePrescriptionHeaders() {
+  console.log("🗂️  Starting Prescription Header Migration...\n");
+
+  try {
+    // Connect to database
+    await connectToDatabase();
+    console.log("✅ Connected to database\n");
+
+    // Step 1: Group headerless prescriptions into visits
+    console.log("Step 1: Grouping prescriptions into visits...");
+    const prescriptions = await PrescriptionModel.find({
+      header_id: { $exists: false },
+    })
+      .sort({ doctor_id: 1, patient_id: 1, date_issued: 1 })
+      .lean();
+
+    const visits: any[][] = [];
+    for (const prescription of prescriptions as any[]) {
+      const visit = visits[visits.length - 1];
+      const first = visit?.[0];
+      if (
+        first &&
+        first.doctor_id.toString() === prescription.doctor_id.toString() &&
+        first.patient_id.toString() === prescription.patient_id.toString() &&
+        (first.notes || "") === (prescription.notes || "") &&
+        new Date(prescription.date_issued).getTime() -
+          new Date(first.date_issued).getTime() <=
+          VISIT_WINDOW_MS
+      ) {
+        visit.push(prescription);
+      } else {
+        visits.push([prescription]);
+      }
+    }
+    console.log(
+      `✅ Found ${visits.length} visits across ${prescriptions.length} prescriptions\n`
+    );
+
+    // Step 2: Create a header per visit and link its lines
+    console.log("Step 2: Creating headers...");
+    let headersCreated = 0;
+    for (const visit of visits) {
+      const first = visit[0];
+      // Old notes were "<diagnosis>\n\nNotes: <notes>"
+      const [diagnosis, ...rest] = (first.notes || "").split("\n\nNotes: ");
+      const lines = visit.map((prescription, index) => ({
+        ...prescription,
+        line_number: index + 1,
+        // Pre-formulary prescriptions only name the stock entry
+        formulary_id: prescription.formulary_id || prescription.drug_id,
+      }));
+
+      const header = await PrescriptionHeaderModel.create({
+        patient_id: first.patient_id,
+        doctor_id: first.doctor_id,
+        diagnosis: diagnosis.trim() || "Not recorded",
+        diagnosis_codes: [],
+        notes: rest.join("\n\nNotes: ") || undefined,
+        status: deriveHeaderStatus(visit.map((p) => p.status)),
+        line_count: visit.length,
+        date_issued: first.date_issued,
+        signature_hash: computeHeaderSignature(
+          {
+            patient_id: first.patient_id,
+            doctor_id: first.doctor_id,
+            diagnosis: diagnosis.trim() || "Not recorded",
+            diagnosis_codes: [],
+            date_issued: first.date_issued,
+          },
+          lines
+        ),
+      });
+
+      for (const line of lines) {
+        await PrescriptionModel.updateOne(
+          { _id: line._id },
+          { $set: { header_id: header._id, line_number: line.line_number } }
+        );
+      }
+      headersCreated++;
+    }
+    console.log(`✅ Created ${headersCreated} headers\n`);
+
+    // Step 3: Verification
+    console.log("Step 3: Verifying migration...");
+    const headerCount = await PrescriptionHeaderModel.countDocuments();
+    const remaining = await PrescriptionModel.countDocuments({
+      header_id: { $exists: false },
+    });
+
+    console.log("\n📊 Migration Summary:");
+    console.log(`   Prescription headers: ${headerCount}`);
+    console.log(`   Prescriptions without header: ${remaining}`);
+
+    console.log("\n✅ Migration completed successfully!");
+    console.log("\nNext steps:");
+    console.log("1. Add ICD-10 codes to migrated headers where known");
+    console.log(
+      "2. Migrated headers are not anchored on-chain; their signature hash covers the lines as migrated\n"
+    );
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Migration failed:", error);
+    process.exit(1);
+  }
+}
+
+// Run migration
+migratePrescriptionHeaders();
@@ -0,0 +1,32 @@
+// Scheduled notification checks: expiring and expired stock lots, and
+// prescriptions about to lapse or past their validity. Each condition is
+// reported once, so this is safe to run as often as needed.
+// Run with: ts-node scripts/run-notification-checks.ts
+// e.g. from cron: 0 6 * * * cd /app && npx ts-node scripts/run-notification-checks.ts
+
+import { notificationService } from "../src/lib/services/NotificationService";
+
+async function runNotificationChecks() {
+  console.log("🔔 Running scheduled notification checks...\n");
+
+  try {
+    const summary = await notificationService.runScheduledChecks();
+
+    console.log("📊 Check Summary:");
+    console.log(`   Stock lots expiring soon: ${summary.drugsExpiring}`);
+    console.log(`   Stock lots expired: ${summary.drugsExpired}`);
+    console.log(
+      `   Prescriptions expiring soon: ${summary.prescriptionsExpiring}`
+    );
+    console.log(`   Prescriptions expired: ${summary.prescriptionsExpired}`);
+
+    console.log("\n✅ Checks completed successfully!");
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Checks failed:", error);
+    process.exit(1);
+  }
+}
+
+// Run checks
+runNotificationChecks();
@@ -4,43 +4,19 @@
  * POST /api/admin/migrate-patient-ids
  *
  * Generates Patient IDs for all existing patients without IDs.
- * Should only be accessible to admin users.
+ * Admin only.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { connectToDatabase } from "@/lib/database/connection";
 import { PatientModel } from "@/lib/database/models";
 import { UserService } from "@/lib/services/UserService";
+import { withAdminAuth } from "@/lib/utils/api-middleware";
 
-export async function POST(request: NextRequest) {
+export const POST = withAdminAuth(async (request: NextRequest) => {
   try {
-    // Verify admin authentication
-    const token = request.headers.get("authorization")?.replace("Bearer ", "");
-
-    if (!token) {
-      return NextResponse.json(
-        { success: false, message: "Unauthorized" },
-        { status: 401 }
-      );
-    }
-
-    // Initialize UserService
     const userService = new UserService();
 
-    // Verify token and check admin role
-    const verificationResult = await userService.verifyToken(token);
-
-    if (
-      !verificationResult.valid ||
-      !verificationResult.user ||
-      verificationResult.user.role !== "admin"
-    ) {
-      return NextResponse.json(
-        { success: false, message: "Admin access required" },
-        { status: 403 }
-      );
-    }
-
     await connectToDatabase();
 
     // Find patients without Patient IDs
@@ -111,4 +87,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
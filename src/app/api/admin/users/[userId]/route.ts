@@ -0,0 +1,74 @@
+/**
+ * API Route: User Account Status
+ * PATCH /api/admin/users/[userId] - Activate or deactivate an account.
+ *       Deactivation revokes all of the user's sessions.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import { UserModel } from "@/lib/database/models";
+import { UserService } from "@/lib/services/UserService";
+
+export const PATCH = withPermission(
+  "users:manage",
+  async (
+    req: NextRequest,
+    user,
+    { params }: { params: Promise<{ userId: string }> }
+  ) => {
+    try {
+      const { userId } = await params;
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        return NextResponse.json(
+          { success: false, error: "Invalid user ID" },
+          { status: 400 }
+        );
+      }
+
+      const { isActive } = await req.json();
+      if (typeof isActive !== "boolean") {
+        return NextResponse.json(
+          { success: false, error: "isActive must be true or false" },
+          { status: 400 }
+        );
+      }
+      if (!isActive && userId === user.id) {
+        return NextResponse.json(
+          { success: false, error: "You cannot deactivate your own account" },
+          { status: 400 }
+        );
+      }
+
+      await connectToDatabase();
+      if (!(await UserModel.exists({ _id: userId }))) {
+        return NextResponse.json(
+          { success: false, error: "User not found" },
+          { status: 404 }
+        );
+      }
+
+      const userService = new UserService();
+      const result = await userService.setUserActive(userId, isActive);
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.message },
+          { status: 500 }
+        );
+      }
+
+      console.log(
+        `Admin ${user.id} ${isActive ? "activated" : "deactivated"} user ${userId}`
+      );
+
+      return NextResponse.json({ success: true, message: result.message });
+    } catch (error) {
+      console.error("Error updating account status:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to update account status" },
+        { status: 500 }
+      );
+    }
+  }
+);
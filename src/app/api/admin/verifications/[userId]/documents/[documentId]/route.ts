@@ -0,0 +1,90 @@
+/**
+ * API Route: License Document File
+ * GET /api/admin/verifications/[userId]/documents/[documentId]
+ * Serve an uploaded license document to a reviewing admin
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/database/connection";
+import { UserModel } from "@/lib/database/models";
+import { withPermission } from "@/lib/utils/api-middleware";
+import {
+  LICENSE_UPLOAD_DIR,
+  getProfessionalModel,
+  isVerificationRole,
+} from "@/lib/utils/professional-verification";
+
+export const GET = withPermission(
+  "verification:review",
+  async (
+    req: NextRequest,
+    user,
+    { params }: { params: Promise<{ userId: string; documentId: string }> }
+  ) => {
+    try {
+      await connectToDatabase();
+
+      const { userId, documentId } = await params;
+      if (
+        !mongoose.Types.ObjectId.isValid(userId) ||
+        !mongoose.Types.ObjectId.isValid(documentId)
+      ) {
+        return NextResponse.json(
+          { success: false, error: "Invalid document ID" },
+          { status: 400 }
+        );
+      }
+
+      const registrant: any = await UserModel.findById(userId)
+        .select("role")
+        .lean();
+      if (!registrant || !isVerificationRole(registrant.role)) {
+        return NextResponse.json(
+          { success: false, error: "Doctor or pharmacist not found" },
+          { status: 404 }
+        );
+      }
+
+      const record: any = await getProfessionalModel(registrant.role)
+        .findOne({ user_id: userId })
+        .select("license_documents")
+        .lean();
+      const document = record?.license_documents?.find(
+        (doc: any) => doc._id.toString() === documentId
+      );
+      if (!document) {
+        return NextResponse.json(
+          { success: false, error: "Document not found" },
+          { status: 404 }
+        );
+      }
+
+      const file = await readFile(
+        join(LICENSE_UPLOAD_DIR, userId, document.file_name)
+      );
+
+      return new NextResponse(new Uint8Array(file), {
+        headers: {
+          "Content-Type": document.mime_type,
+          "Content-Disposition": `inline; filename="${encodeURIComponent(document.original_name)}"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    } catch (error: any) {
+      console.error("Error serving license document:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            error.code === "ENOENT"
+              ? "Document file is missing from storage"
+              : error.message || "Failed to load document",
+        },
+        { status: error.code === "ENOENT" ? 404 : 500 }
+      );
+    }
+  }
+);
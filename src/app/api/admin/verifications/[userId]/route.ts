@@ -0,0 +1,267 @@
+/**
+ * API Route: License Review
+ * GET /api/admin/verifications/[userId]
+ * POST /api/admin/verifications/[userId]
+ * A registration with its audit history, and the admin's approve or reject
+ * decision on it. Approval grants the on-chain role when the registrant
+ * has a wallet.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/database/connection";
+import { UserModel } from "@/lib/database/models";
+import { VerificationAuditModel } from "@/lib/database/verificationModels";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { notificationService } from "@/lib/services/NotificationService";
+import {
+  getProfessionalModel,
+  formatVerificationSummary,
+  isVerificationRole,
+  recordVerificationEvent,
+  grantOnChainRole,
+} from "@/lib/utils/professional-verification";
+
+const MAX_REASON_LENGTH = 1000;
+
+// Registrant account, or an error response if it has no license to review
+async function findRegistrant(userId: string) {
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Invalid user ID" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const registrant: any = await UserModel.findById(userId)
+    .select("username email role walletAddress")
+    .lean();
+  if (!registrant || !isVerificationRole(registrant.role)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Doctor or pharmacist not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { registrant, role: registrant.role as "doctor" | "pharmacist" };
+}
+
+export const GET = withPermission(
+  "verification:review",
+  async (
+    req: NextRequest,
+    user,
+    { params }: { params: Promise<{ userId: string }> }
+  ) => {
+    try {
+      await connectToDatabase();
+
+      const { userId } = await params;
+      const found = await findRegistrant(userId);
+      if (found.error) return found.error;
+      const { registrant, role } = found;
+
+      const record = await getProfessionalModel(role)
+        .findOne({ user_id: userId })
+        .lean();
+      if (!record) {
+        return NextResponse.json(
+          { success: false, error: "Profile not found" },
+          { status: 404 }
+        );
+      }
+
+      const history = await VerificationAuditModel.find({
+        subject_user_id: userId,
+      })
+        .populate("performed_by", "username email")
+        .sort({ timestamp: -1 })
+        .lean();
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...formatVerificationSummary(record, role, registrant),
+          history: history.map((entry: any) => ({
+            id: entry._id.toString(),
+            action: entry.action,
+            performedBy:
+              entry.performed_by?.username || entry.performed_by?.email,
+            reason: entry.reason,
+            details: entry.details,
+            timestamp: entry.timestamp,
+          })),
+        },
+      });
+    } catch (error: any) {
+      console.error("Error fetching registration:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message || "Failed to fetch registration",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = withPermission(
+  "verification:review",
+  async (
+    req: NextRequest,
+    user,
+    { params }: { params: Promise<{ userId: string }> }
+  ) => {
+    try {
+      await connectToDatabase();
+
+      const { userId } = await params;
+      const body = await req.json();
+      const { decision } = body;
+      const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+      if (decision !== "approve" && decision !== "reject") {
+        return NextResponse.json(
+          { success: false, error: "decision must be approve or reject" },
+          { status: 400 }
+        );
+      }
+
+      if (decision === "reject" && !reason) {
+        return NextResponse.json(
+          { success: false, error: "A reason is required to reject" },
+          { status: 400 }
+        );
+      }
+
+      if (reason.length > MAX_REASON_LENGTH) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Reason must be ${MAX_REASON_LENGTH} characters or less`,
+          },
+          { status: 400 }
+        );
+      }
+
+      const found = await findRegistrant(userId);
+      if (found.error) return found.error;
+      const { registrant, role } = found;
+
+      const Model = getProfessionalModel(role);
+      const current: any = await Model.findOne({ user_id: userId })
+        .select("verification_status license_documents")
+        .lean();
+      if (!current) {
+        return NextResponse.json(
+          { success: false, error: "Profile not found" },
+          { status: 404 }
+        );
+      }
+
+      if (decision === "approve" && !current.license_documents?.length) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Cannot approve a registration with no license documents",
+          },
+          { status: 400 }
+        );
+      }
+
+      const status = decision === "approve" ? "verified" : "rejected";
+
+      // Only pending registrations are decided, so two admins reviewing at
+      // once cannot both record a decision
+      const record = await Model.findOneAndUpdate(
+        { user_id: userId, verification_status: "pending" },
+        {
+          $set: {
+            verification_status: status,
+            reviewed_by: user.id,
+            reviewed_at: new Date(),
+            ...(decision === "reject" ? { rejection_reason: reason } : {}),
+          },
+          ...(decision === "approve"
+            ? { $unset: { rejection_reason: "" } }
+            : {}),
+        },
+        { new: true }
+      ).lean();
+
+      if (!record) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Registration is already ${current.verification_status}`,
+          },
+          { status: 409 }
+        );
+      }
+
+      await UserModel.updateOne(
+        { _id: userId },
+        { $set: { verification_status: status } }
+      );
+
+      await recordVerificationEvent({
+        subjectUserId: userId,
+        role,
+        action: decision === "approve" ? "approved" : "rejected",
+        performedBy: user.id,
+        reason: reason || undefined,
+        details: {
+          documentCount: current.license_documents?.length || 0,
+        },
+      });
+
+      const onchainRole =
+        decision === "approve"
+          ? await grantOnChainRole(userId, role, user.id)
+          : null;
+
+      await notificationService.notify([userId], {
+        type: "system_alert",
+        severity: decision === "approve" ? "success" : "warning",
+        title:
+          decision === "approve"
+            ? "License verified"
+            : "License verification rejected",
+        message:
+          decision === "approve"
+            ? `Your license was approved. You can now ${role === "doctor" ? "prescribe" : "dispense"}.`
+            : `Your license was rejected: ${reason}`,
+        link: `/dashboard/${role}/verification`,
+      });
+
+      const updated =
+        onchainRole?.status === "granted"
+          ? await Model.findOne({ user_id: userId }).lean()
+          : record;
+
+      return NextResponse.json({
+        success: true,
+        data: formatVerificationSummary(updated, role, registrant),
+        onchainRole,
+        message:
+          decision === "approve"
+            ? `${registrant.username || registrant.email} approved`
+            : `${registrant.username || registrant.email} rejected`,
+      });
+    } catch (error: any) {
+      console.error("Error recording verification decision:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message || "Failed to record decision",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
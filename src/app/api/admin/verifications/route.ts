@@ -0,0 +1,99 @@
+/**
+ * API Route: License Review Queue
+ * GET /api/admin/verifications?status=pending&role=
+ * Doctor and pharmacist registrations by verification status, oldest
+ * first, with the number waiting in each status
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/database/connection";
+import { withPermission } from "@/lib/utils/api-middleware";
+import {
+  getProfessionalModel,
+  formatVerificationSummary,
+  isVerificationRole,
+} from "@/lib/utils/professional-verification";
+import { VerificationRole } from "@/lib/database/verificationModels";
+
+const STATUSES = ["pending", "verified", "rejected"];
+const ROLES: VerificationRole[] = ["doctor", "pharmacist"];
+
+export const GET = withPermission(
+  "verification:review",
+  async (req: NextRequest, user) => {
+    try {
+      await connectToDatabase();
+
+      const { searchParams } = new URL(req.url);
+      const status = searchParams.get("status") || "pending";
+      const roleFilter = searchParams.get("role");
+
+      if (!STATUSES.includes(status)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `status must be one of: ${STATUSES.join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+
+      if (roleFilter && !isVerificationRole(roleFilter)) {
+        return NextResponse.json(
+          { success: false, error: "role must be doctor or pharmacist" },
+          { status: 400 }
+        );
+      }
+
+      const roles = roleFilter ? [roleFilter as VerificationRole] : ROLES;
+      const registrations: any[] = [];
+      const counts: Record<string, number> = {
+        pending: 0,
+        verified: 0,
+        rejected: 0,
+      };
+
+      for (const role of roles) {
+        const Model = getProfessionalModel(role);
+        const records = await Model.find({ verification_status: status })
+          .populate("user_id", "username email walletAddress")
+          .sort({ createdAt: 1 })
+          .lean();
+
+        records.forEach((record: any) => {
+          registrations.push(
+            formatVerificationSummary(record, role, record.user_id)
+          );
+        });
+
+        const byStatus = await Model.aggregate([
+          { $group: { _id: "$verification_status", count: { $sum: 1 } } },
+        ]);
+        byStatus.forEach((entry: any) => {
+          counts[entry._id] = (counts[entry._id] || 0) + entry.count;
+        });
+      }
+
+      registrations.sort(
+        (a, b) =>
+          new Date(a.registeredAt).getTime() -
+          new Date(b.registeredAt).getTime()
+      );
+
+      return NextResponse.json({
+        success: true,
+        data: registrations,
+        counts,
+      });
+    } catch (error: any) {
+      console.error("Error fetching verification queue:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message || "Failed to fetch verification queue",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
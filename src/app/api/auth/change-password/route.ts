@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/api-middleware";
+import { UserService } from "@/lib/services/UserService";
+import {
+  accessTokenFields,
+  replaceSession,
+  setRefreshTokenCookie,
+} from "@/lib/utils/sessions";
+
+// POST /api/auth/change-password - Change the caller's password. Every
+// session is revoked and this device is given a new one.
+export const POST = withAuth(async (request, user) => {
+  try {
+    const { currentPassword, newPassword } = await request.json();
+
+    if (
+      typeof currentPassword !== "string" ||
+      typeof newPassword !== "string" ||
+      !currentPassword ||
+      !newPassword
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Current and new passwords are required",
+        },
+        { status: 400 }
+      );
+    }
+
+    const userService = new UserService();
+    const result = await userService.changePassword(
+      user.id,
+      currentPassword,
+      newPassword
+    );
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    const { session, accessToken, refreshToken } = await replaceSession(
+      request,
+      user
+    );
+
+    const response = NextResponse.json({
+      ...result,
+      ...accessTokenFields(accessToken),
+    });
+    setRefreshTokenCookie(response, refreshToken, session);
+    return response;
+  } catch (error) {
+    console.error("Change password API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
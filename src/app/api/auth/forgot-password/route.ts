@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { UserService } from "@/lib/services/UserService";
+
+// POST /api/auth/forgot-password - Email a password reset link
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (typeof email !== "string" || !email.trim()) {
+      return NextResponse.json(
+        { success: false, message: "Email is required" },
+        { status: 400 }
+      );
+    }
+
+    const userService = new UserService();
+    await userService.requestPasswordReset(email);
+
+    // Same answer whether or not the address is registered
+    return NextResponse.json({
+      success: true,
+      message:
+        "If an account uses that address, a password reset link is on its way",
+    });
+  } catch (error) {
+    console.error("Forgot password API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { UserService } from "@/lib/services/UserService";
+import { notificationService } from "@/lib/services/NotificationService";
+import {
+  accessTokenFields,
+  createSession,
+  setRefreshTokenCookie,
+} from "@/lib/utils/sessions";
 import { LoginCredentials } from "@/types";
 
 // Helper function to map database user to frontend User type
@@ -16,6 +22,7 @@ function mapUserData(dbUser: any): any {
     lastName,
     role: dbUser.role,
     isVerified: true, // Auto-verified for straightforward onboarding
+    twoFactorEnabled: Boolean(dbUser.two_factor_enabled),
     createdAt:
       dbUser.created_at || dbUser.createdAt || new Date().toISOString(),
     updatedAt:
@@ -57,7 +64,8 @@ function mapUserData(dbUser: any): any {
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password, role, rememberMe } = await request.json();
+    const { email, password, role, rememberMe, twoFactorCode } =
+      await request.json();
 
     // Validate input
     if (!email || !password) {
@@ -72,6 +80,7 @@ export async function POST(request: NextRequest) {
       email,
       password,
       role: role || undefined, // Optional role for additional verification
+      twoFactorCode: twoFactorCode || undefined,
     };
 
     // Use UserService to authenticate user
@@ -81,18 +90,33 @@ export async function POST(request: NextRequest) {
     if (result.success && result.user) {
       // Map the user data to match frontend expectations
       const mappedUser = mapUserData(result.user);
+      const { session, accessToken, refreshToken } = await createSession(
+        request,
+        mappedUser.id,
+        { authMethod: "password", rememberMe: rememberMe === true }
+      );
+      await notificationService.loginAlert(mappedUser.id, "password");
 
-      return NextResponse.json(
+      const response = NextResponse.json(
         {
           success: true,
           user: mappedUser,
-          token: result.token,
+          ...accessTokenFields(accessToken),
           message: result.message,
         },
         { status: 200 }
       );
+      setRefreshTokenCookie(response, refreshToken, session);
+      return response;
     } else {
-      return NextResponse.json(result, { status: 401 });
+      return NextResponse.json(result, {
+        status:
+          result.code === "EMAIL_NOT_VERIFIED"
+            ? 403
+            : result.code === "TWO_FACTOR_LOCKED"
+              ? 429
+              : 401,
+      });
     }
   } catch (error) {
     console.error("Login API error:", error);
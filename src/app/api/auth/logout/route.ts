@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  clearRefreshTokenCookie,
+  endSession,
+  REFRESH_TOKEN_COOKIE,
+} from "@/lib/utils/sessions";
+
+// POST /api/auth/logout - End the session behind the refresh token cookie.
+// Needs no access token, so signing out works after it has expired.
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+    if (refreshToken) {
+      await endSession(refreshToken);
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      message: "Signed out",
+    });
+    clearRefreshTokenCookie(response);
+    return response;
+  } catch (error) {
+    console.error("Logout API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { DatabaseManager } from "@/lib/database/connection";
+import { issueSiweChallenge } from "@/lib/utils/siwe";
+
+// POST: Issue a Sign-In With Ethereum challenge for a wallet
+export async function POST(request: NextRequest) {
+  try {
+    await DatabaseManager.getInstance().ensureConnection();
+
+    const { walletAddress, chainId } = await request.json();
+
+    if (!walletAddress || !isAddress(walletAddress)) {
+      return NextResponse.json(
+        { error: "A valid wallet address is required" },
+        { status: 400 }
+      );
+    }
+
+    if (chainId !== undefined && !Number.isInteger(chainId)) {
+      return NextResponse.json({ error: "Invalid chain ID" }, { status: 400 });
+    }
+
+    const challenge = await issueSiweChallenge(walletAddress, {
+      domain: request.headers.get("host") || request.nextUrl.host,
+      uri: request.nextUrl.origin,
+      chainId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      nonce: challenge.nonce,
+      message: challenge.message,
+      expiresAt: challenge.expiresAt,
+    });
+  } catch (error: any) {
+    console.error("Nonce generation error:", error);
+    return NextResponse.json(
+      { error: "Failed to create sign-in challenge" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  accessTokenFields,
+  clearRefreshTokenCookie,
+  refreshSession,
+  setRefreshTokenCookie,
+  SessionError,
+  REFRESH_TOKEN_COOKIE,
+} from "@/lib/utils/sessions";
+
+// POST /api/auth/refresh - Exchange the refresh token cookie for a new
+// access token, rotating the refresh token
+export async function POST(request: NextRequest) {
+  try {
+    const { session, accessToken, refreshToken } = await refreshSession(
+      request,
+      request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+    );
+
+    const response = NextResponse.json({
+      success: true,
+      ...accessTokenFields(accessToken),
+    });
+    if (refreshToken) {
+      setRefreshTokenCookie(response, refreshToken, session);
+    }
+    return response;
+  } catch (error) {
+    if (error instanceof SessionError) {
+      const response = NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.status }
+      );
+      clearRefreshTokenCookie(response);
+      return response;
+    }
+
+    console.error("Refresh token API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
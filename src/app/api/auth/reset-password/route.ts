@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { UserService } from "@/lib/services/UserService";
+
+// POST /api/auth/reset-password - Set a new password from an emailed token
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+
+    if (typeof token !== "string" || !/^[a-f0-9]{64}$/.test(token)) {
+      return NextResponse.json(
+        { success: false, message: "Invalid reset link" },
+        { status: 400 }
+      );
+    }
+    if (typeof password !== "string" || !password) {
+      return NextResponse.json(
+        { success: false, message: "New password is required" },
+        { status: 400 }
+      );
+    }
+
+    const userService = new UserService();
+    const result = await userService.resetPassword(token, password);
+
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error("Reset password API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
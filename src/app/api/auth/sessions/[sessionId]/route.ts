@@ -0,0 +1,41 @@
+/**
+ * API Route: Signed-in Device
+ * DELETE /api/auth/sessions/[sessionId] - Sign out one of the caller's
+ *        devices. Revoking the current session signs the caller out.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/api-middleware";
+import { revokeSession } from "@/lib/utils/sessions";
+
+export const DELETE = withAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ sessionId: string }> }
+  ) => {
+    try {
+      const { sessionId } = await params;
+
+      const revoked = await revokeSession(user.id, sessionId, "user_revoked");
+      if (!revoked) {
+        return NextResponse.json(
+          { success: false, error: "Session not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: "Device signed out",
+        current: sessionId === user.sessionId,
+      });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to sign out device" },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,48 @@
+/**
+ * API Route: Signed-in Devices
+ * GET    /api/auth/sessions - The caller's live sessions
+ * DELETE /api/auth/sessions - Sign out every other device
+ */
+
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/api-middleware";
+import { listSessions, revokeAllSessions } from "@/lib/utils/sessions";
+
+export const GET = withAuth(async (request, user) => {
+  try {
+    const sessions = await listSessions(user);
+
+    return NextResponse.json({ success: true, sessions });
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch sessions" },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAuth(async (request, user) => {
+  try {
+    const revoked = await revokeAllSessions(
+      user.id,
+      "user_revoked",
+      user.sessionId
+    );
+
+    return NextResponse.json({
+      success: true,
+      message:
+        revoked === 1
+          ? "Signed out of 1 other device"
+          : `Signed out of ${revoked} other devices`,
+      revoked,
+    });
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to sign out other devices" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/api-middleware";
+import { recordStepUp, TwoFactorError } from "@/lib/utils/two-factor";
+
+// POST /api/auth/step-up - Re-authenticate this device with a second-factor
+// code before prescribing or dispensing a controlled substance
+export const POST = withAuth(async (request, user) => {
+  try {
+    const { code } = await request.json();
+    const stepUp = await recordStepUp(user, code);
+
+    return NextResponse.json({
+      success: true,
+      message: "Identity confirmed",
+      expiresAt: stepUp.expiresAt,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error confirming step-up authentication:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to confirm identity" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/api-middleware";
+import { confirmTwoFactorSetup, TwoFactorError } from "@/lib/utils/two-factor";
+
+// POST /api/auth/two-factor/enable - Finish enrolment with a code from the
+// authenticator app and return the recovery codes. Access tokens issued
+// before this still carry the enrolment restriction until refreshed.
+export const POST = withAuth(
+  async (request, user) => {
+    try {
+      const { code } = await request.json();
+      const recoveryCodes = await confirmTwoFactorSetup(user.id, code);
+
+      return NextResponse.json({
+        success: true,
+        message: "Two-factor authentication enabled",
+        recoveryCodes,
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        );
+      }
+
+      console.error("Error enabling two-factor authentication:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to enable two-factor authentication" },
+        { status: 500 }
+      );
+    }
+  },
+  { allowTwoFactorSetup: true }
+);
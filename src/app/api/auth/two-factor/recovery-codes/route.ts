@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/api-middleware";
+import {
+  regenerateRecoveryCodes,
+  TwoFactorError,
+} from "@/lib/utils/two-factor";
+
+// POST /api/auth/two-factor/recovery-codes - Replace the caller's recovery
+// codes, confirmed with a current code. The old codes stop working.
+export const POST = withAuth(async (request, user) => {
+  try {
+    const { code } = await request.json();
+    const recoveryCodes = await regenerateRecoveryCodes(user.id, code);
+
+    return NextResponse.json({
+      success: true,
+      message: "New recovery codes generated",
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error regenerating recovery codes:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to generate recovery codes" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,63 @@
+/**
+ * API Route: Two-Factor Authentication
+ * GET    /api/auth/two-factor - The caller's enrolment status
+ * DELETE /api/auth/two-factor - Turn two-factor off (roles that do not
+ *                               require it), confirmed with a code
+ */
+
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/api-middleware";
+import {
+  disableTwoFactor,
+  getTwoFactorStatus,
+  TwoFactorError,
+} from "@/lib/utils/two-factor";
+
+export const GET = withAuth(
+  async (request, user) => {
+    try {
+      const twoFactor = await getTwoFactorStatus(user.id);
+
+      return NextResponse.json({ success: true, twoFactor });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        );
+      }
+
+      console.error("Error fetching two-factor status:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to fetch two-factor status" },
+        { status: 500 }
+      );
+    }
+  },
+  { allowTwoFactorSetup: true }
+);
+
+export const DELETE = withAuth(async (request, user) => {
+  try {
+    const { code } = await request.json();
+    await disableTwoFactor(user, code);
+
+    return NextResponse.json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error disabling two-factor authentication:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to disable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+});
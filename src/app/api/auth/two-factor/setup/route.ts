@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/api-middleware";
+import { beginTwoFactorSetup, TwoFactorError } from "@/lib/utils/two-factor";
+
+// POST /api/auth/two-factor/setup - Start enrolment. Returns a new secret
+// and its QR code for the authenticator app; calling again replaces both.
+export const POST = withAuth(
+  async (request, user) => {
+    try {
+      const setup = await beginTwoFactorSetup(user.id);
+
+      return NextResponse.json({ success: true, ...setup });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        );
+      }
+
+      console.error("Error starting two-factor setup:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to start two-factor setup" },
+        { status: 500 }
+      );
+    }
+  },
+  { allowTwoFactorSetup: true }
+);
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { UserService } from "@/lib/services/UserService";
+
+// POST /api/auth/verify-email - Confirm an email address from the emailed token
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (typeof token !== "string" || !/^[a-f0-9]{64}$/.test(token)) {
+      return NextResponse.json(
+        { success: false, message: "Invalid verification link" },
+        { status: 400 }
+      );
+    }
+
+    const userService = new UserService();
+    const result = await userService.verifyEmail(token);
+
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error("Verify email API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
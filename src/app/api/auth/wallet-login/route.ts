@@ -1,15 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import jwt from "jsonwebtoken";
 import { DatabaseManager } from "@/lib/database/connection";
-import { UserService } from "@/lib/services/UserService";
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+import {
+  UserService,
+  WALLET_SELF_REGISTRATION_ROLES,
+} from "@/lib/services/UserService";
+import {
+  consumeSiweNonce,
+  NONCE_INVALID,
+  verifySiweLogin,
+} from "@/lib/utils/siwe";
+import { TwoFactorError, verifySecondFactor } from "@/lib/utils/two-factor";
+import { notificationService } from "@/lib/services/NotificationService";
+import {
+  accessTokenFields,
+  createSession,
+  setRefreshTokenCookie,
+} from "@/lib/utils/sessions";
 
 export async function POST(request: NextRequest) {
   try {
     await DatabaseManager.getInstance().ensureConnection();
 
-    const { walletAddress, role } = await request.json();
+    const { walletAddress, role, message, signature, twoFactorCode } =
+      await request.json();
 
     if (!walletAddress) {
       return NextResponse.json(
@@ -25,9 +38,93 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!message || !signature) {
+      return NextResponse.json(
+        { error: "A signed sign-in message is required" },
+        { status: 400 }
+      );
+    }
+
+    // Prove the caller controls the wallet before anything about its
+    // account is revealed
+    const verification = await verifySiweLogin({
+      message,
+      signature,
+      walletAddress,
+      domain: request.headers.get("host") || request.nextUrl.host,
+    });
+
+    if (!verification.ok) {
+      console.warn(
+        `Wallet login rejected for ${walletAddress}: ${verification.error}`
+      );
+      return NextResponse.json({ error: verification.error }, { status: 401 });
+    }
+
     // Check if user with this wallet address exists
     let user = await UserService.findUserByWallet(walletAddress);
 
+    if (user) {
+      // User exists, verify role matches
+      if (user.role !== role) {
+        return NextResponse.json(
+          { error: `This wallet is registered as ${user.role}, not ${role}` },
+          { status: 403 }
+        );
+      }
+      if ((user as any).is_active === false) {
+        return NextResponse.json(
+          { error: "This account has been deactivated" },
+          { status: 403 }
+        );
+      }
+
+      // Accounts with an authenticator app also need its code. The nonce is
+      // still unspent, so the client sends the same signed message again
+      // together with the code.
+      if ((user as any).two_factor_enabled) {
+        if (!twoFactorCode) {
+          return NextResponse.json(
+            {
+              error: "Enter the code from your authenticator app",
+              code: "TWO_FACTOR_REQUIRED",
+            },
+            { status: 401 }
+          );
+        }
+        if (
+          !(await verifySecondFactor(
+            (user as any)._id.toString(),
+            twoFactorCode
+          ))
+        ) {
+          return NextResponse.json(
+            {
+              error: "Invalid authentication code",
+              code: "TWO_FACTOR_INVALID",
+            },
+            { status: 401 }
+          );
+        }
+      }
+    }
+
+    if (!user && !WALLET_SELF_REGISTRATION_ROLES.includes(role)) {
+      return NextResponse.json(
+        {
+          error:
+            "Only patients can register with a wallet. Doctors and pharmacists register with their license details for review.",
+        },
+        { status: 403 }
+      );
+    }
+
+    // Every check has passed; spend the nonce so the message cannot be
+    // replayed
+    if (!(await consumeSiweNonce(verification.address, verification.nonce))) {
+      return NextResponse.json({ error: NONCE_INVALID }, { status: 401 });
+    }
+
     if (!user) {
       // Auto-register new user with wallet address
       const username = `user_${walletAddress.slice(0, 8)}`;
@@ -42,25 +139,14 @@ export async function POST(request: NextRequest) {
 
       console.log("New wallet user registered:", walletAddress);
     } else {
-      // User exists, verify role matches
-      if (user.role !== role) {
-        return NextResponse.json(
-          { error: `This wallet is registered as ${user.role}, not ${role}` },
-          { status: 403 }
-        );
-      }
       console.log("Existing wallet user logged in:", walletAddress);
+      await notificationService.loginAlert((user as any)._id, "wallet");
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        userId: user._id.toString(),
-        role: user.role,
-        walletAddress,
-      },
-      JWT_SECRET,
-      { expiresIn: "24h" }
+    const { session, accessToken, refreshToken } = await createSession(
+      request,
+      (user as any)._id.toString(),
+      { authMethod: "wallet" }
     );
 
     // Map user data for frontend
@@ -72,6 +158,7 @@ export async function POST(request: NextRequest) {
       role: user.role,
       walletAddress: user.walletAddress,
       isVerified: true,
+      twoFactorEnabled: Boolean((user as any).two_factor_enabled),
       // Add role-specific data if available
       ...(user.roleData && {
         licenseNumber: user.roleData.licenseNumber,
@@ -84,15 +171,24 @@ export async function POST(request: NextRequest) {
       }),
     };
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
       message: user.walletAddress
         ? "Login successful"
         : "Account created and logged in",
-      token,
+      ...accessTokenFields(accessToken),
       user: userData,
     });
+    setRefreshTokenCookie(response, refreshToken, session);
+    return response;
   } catch (error: any) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
     console.error("Wallet login error:", error);
     return NextResponse.json(
       { error: error.message || "Wallet authentication failed" },
@@ -4,34 +4,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { blockchainSyncService } from "@/lib/blockchain/BlockchainSyncService";
 import { baseClient } from "@/lib/blockchain/BaseClient";
-import jwt from "jsonwebtoken";
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-
-// Verify JWT token
-function verifyToken(request: NextRequest) {
-  try {
-    const authHeader = request.headers.get("authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return null;
-    }
-
-    const token = authHeader.split(" ")[1];
-    const decoded = jwt.verify(token, JWT_SECRET) as {
-      userId: string;
-      role: string;
-    };
-    return decoded;
-  } catch (error) {
-    return null;
-  }
-}
+import { blockchainService } from "@/lib/services/BlockchainService";
+import { getAuthUser } from "@/lib/utils/auth-helper";
 
 // GET: Get blockchain sync status and network info
 export async function GET(request: NextRequest) {
   try {
     // Verify authentication (allow all authenticated users to view status)
-    const user = verifyToken(request);
+    const user = await getAuthUser(request);
     if (!user) {
       return NextResponse.json(
         { error: "Unauthorized. Please log in to view blockchain status." },
@@ -47,6 +27,7 @@ export async function GET(request: NextRequest) {
       const syncStatus = blockchainSyncService.getSyncStatus();
       const networkInfo = baseClient.getNetworkInfo();
       const currentBlock = await baseClient.getBlockNumber();
+      const ledger = await blockchainService.initialize();
 
       return NextResponse.json({
         success: true,
@@ -54,6 +35,7 @@ export async function GET(request: NextRequest) {
           sync: syncStatus,
           network: networkInfo,
           currentBlock: currentBlock.toString(),
+          ledger,
         },
       });
     }
@@ -117,7 +99,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     // Verify authentication (admin only)
-    const user = verifyToken(request);
+    const user = await getAuthUser(request);
     if (!user || user.role !== "admin") {
       return NextResponse.json(
         { error: "Unauthorized. Admin access required." },
@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { withDoctorAuth } from "@/lib/utils/api-middleware";
 import { connectToDatabase } from "@/lib/database/connection";
 import { PrescriptionModel, DoctorModel } from "@/lib/database/models";
+import { getPrescribedDrug } from "@/lib/utils/formulary";
+import { findAccessiblePatientIds } from "@/lib/utils/patient-access";
 
 export const GET = withDoctorAuth(async (request, user) => {
   try {
@@ -20,15 +22,18 @@ export const GET = withDoctorAuth(async (request, user) => {
       );
     }
 
-    // Fetch prescription history (dispensed, rejected, expired)
+    // Fetch prescription history (dispensed, rejected, expired) of patients
+    // who currently grant this doctor access
     const prescriptions = await PrescriptionModel.find({
       doctor_id: doctor._id,
+      patient_id: { $in: await findAccessiblePatientIds(user) },
       status: { $in: ["dispensed", "rejected", "expired"] },
     })
       .populate({
         path: "patient_id",
         populate: { path: "user_id", model: "User" },
       })
+      .populate("formulary_id")
       .populate("drug_id")
       .populate({
         path: "pharmacist_id",
@@ -41,7 +46,7 @@ export const GET = withDoctorAuth(async (request, user) => {
     // Format history for frontend
     const formattedHistory = prescriptions.map((prescription: any) => {
       const patient = prescription.patient_id;
-      const drug = prescription.drug_id;
+      const drug = getPrescribedDrug(prescription);
       const pharmacist = prescription.pharmacist_id;
 
       const patientName = patient?.user_id?.username || "Unknown Patient";
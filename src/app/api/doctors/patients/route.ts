@@ -6,6 +6,9 @@ import {
   DoctorModel,
   PatientModel,
 } from "@/lib/database/models";
+import { describeAllergies } from "@/lib/utils/allergies";
+import { findPatientsWithholdingData } from "@/lib/utils/user-preferences";
+import { findAccessiblePatientIds } from "@/lib/utils/patient-access";
 
 export const GET = withDoctorAuth(async (request, user) => {
   try {
@@ -24,20 +27,21 @@ export const GET = withDoctorAuth(async (request, user) => {
       );
     }
 
-    // Find all unique patients who have prescriptions from this doctor
-    const prescriptions = await PrescriptionModel.find({
-      doctor_id: doctor._id,
-    })
-      .distinct("patient_id")
-      .lean();
+    // Patients who granted this doctor access, or are under emergency access
+    const patientIds = await findAccessiblePatientIds(user);
 
     // Get full patient details
     const patients = await PatientModel.find({
-      _id: { $in: prescriptions },
+      _id: { $in: patientIds },
     })
       .populate("user_id")
       .lean();
 
+    // Patients who turned off sharing with doctors keep their history private
+    const withholding = await findPatientsWithholdingData(
+      patients.map((patient: any) => patient.user_id?._id).filter(Boolean)
+    );
+
     // Format patients for frontend
     const formattedPatients = await Promise.all(
       patients.map(async (patient: any) => {
@@ -48,6 +52,7 @@ export const GET = withDoctorAuth(async (request, user) => {
         });
 
         const userInfo = patient.user_id;
+        const dataShared = !withholding.has(userInfo?._id?.toString());
 
         return {
           id: patient._id.toString(),
@@ -62,9 +67,10 @@ export const GET = withDoctorAuth(async (request, user) => {
               )
             : null,
           medicalRecordNumber: patient.medical_record_number,
-          allergies: patient.allergies,
-          medicalHistory: patient.medical_history,
-          emergencyContact: patient.emergency_contact,
+          allergies: describeAllergies(patient.allergies),
+          medicalHistory: dataShared ? patient.medical_history : undefined,
+          emergencyContact: dataShared ? patient.emergency_contact : undefined,
+          dataShared,
           prescriptionCount,
           lastVisit: null, // Visits tracking requires separate appointments/visits collection
         };
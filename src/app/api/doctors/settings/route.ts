@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { withDoctorAuth } from "@/lib/utils/api-middleware";
 import { connectToDatabase } from "@/lib/database/connection";
 import { Models } from "@/lib/database/models";
+import {
+  getUserPreferences,
+  updateUserPreferences,
+  PreferencesValidationError,
+} from "@/lib/utils/user-preferences";
 
 // GET /api/doctors/settings - Get doctor settings
 export const GET = withDoctorAuth(async (request, user) => {
@@ -21,10 +26,7 @@ export const GET = withDoctorAuth(async (request, user) => {
 
     const settings = {
       availability: doctor.availability || {},
-      notifications: {
-        emailNotifications: true,
-        smsNotifications: false,
-      },
+      ...(await getUserPreferences(user.id, "doctor")),
     };
 
     return NextResponse.json({
@@ -54,13 +56,20 @@ export const PUT = withDoctorAuth(async (request, user) => {
       updates.availability = body.availability;
     }
 
-    if (Object.keys(updates).length === 0) {
+    const hasPreferences = ["notifications", "privacy", "security"].some(
+      (section) => body[section] !== undefined
+    );
+
+    if (Object.keys(updates).length === 0 && !hasPreferences) {
       return NextResponse.json(
         { success: false, message: "No valid settings to update" },
         { status: 400 }
       );
     }
 
+    // Validated first so an invalid preference leaves nothing half-saved
+    const preferences = await updateUserPreferences(user.id, "doctor", body);
+
     const updatedDoctor = await Models.Doctor.findOneAndUpdate(
       { user_id: user.id },
       { $set: updates },
@@ -78,10 +87,7 @@ export const PUT = withDoctorAuth(async (request, user) => {
 
     const settings = {
       availability: updatedDoctor.availability || {},
-      notifications: {
-        emailNotifications: true,
-        smsNotifications: false,
-      },
+      ...preferences,
     };
 
     return NextResponse.json({
@@ -90,6 +96,13 @@ export const PUT = withDoctorAuth(async (request, user) => {
       settings,
     });
   } catch (error) {
+    if (error instanceof PreferencesValidationError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error("Error updating doctor settings:", error);
     return NextResponse.json(
       { success: false, message: "Failed to update settings" },
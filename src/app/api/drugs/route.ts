@@ -2,9 +2,27 @@ import { NextRequest, NextResponse } from "next/server";
 import { DatabaseManager } from "@/lib/database/connection";
 import mongoose from "mongoose";
 import { blockchainService } from "@/lib/services/BlockchainService";
-import jwt from "jsonwebtoken";
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+import {
+  resolvePharmacyScope,
+  pharmacyFilter,
+  isDrugInScope,
+  PharmacyScopeError,
+} from "@/lib/utils/pharmacy-scope";
+import {
+  allocateFefo,
+  buildLotDecrement,
+  findDrugBatchId,
+  legacyLotUpdate,
+  newLot,
+  summarizeLots,
+  LotAllocation,
+} from "@/lib/utils/lots";
+import {
+  findActiveFormularyItems,
+  formularyDrugFields,
+} from "@/lib/utils/formulary";
+import { assertBatchNotRecalled, RecallError } from "@/lib/utils/recalls";
+import { getAuthUser } from "@/lib/utils/auth-helper";
 
 // Get Drug model
 const getDrugModel = () => {
@@ -25,30 +43,49 @@ const getInventoryTransactionModel = () => {
   );
 };
 
-// Verify JWT token and extract user info
-function verifyToken(request: NextRequest) {
-  const token =
-    request.headers.get("authorization")?.replace("Bearer ", "") ||
-    request.cookies.get("token")?.value;
-
-  if (!token) {
-    return null;
+// Business-rule failure raised inside the stock update transaction to
+// abort it
+class StockUpdateError extends Error {
+  constructor(
+    public status: number,
+    public body: Record<string, any>
+  ) {
+    super(body.error);
+    Object.setPrototypeOf(this, StockUpdateError.prototype);
   }
+}
 
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
-    return decoded;
-  } catch (error) {
-    return null;
+// Respond to a pharmacy scope failure or a recalled batch, or null for any
+// other error
+function scopeErrorResponse(error: any) {
+  if (error instanceof PharmacyScopeError || error instanceof RecallError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status }
+    );
   }
+  return null;
 }
 
-// GET: Fetch all drugs or specific drug
+// GET: Fetch the caller's pharmacy drugs or a specific drug. Admins and
+// auditors see every pharmacy and may filter with ?pharmacyId=
 export async function GET(request: NextRequest) {
   try {
     await DatabaseManager.getInstance().ensureConnection();
 
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
     const { searchParams } = new URL(request.url);
+    const scope = await resolvePharmacyScope(
+      { id: user.id, role: user.role },
+      searchParams.get("pharmacyId")
+    );
     const drugId = searchParams.get("id");
     const category = searchParams.get("category");
     const lowStock = searchParams.get("lowStock");
@@ -60,14 +97,14 @@ export async function GET(request: NextRequest) {
     // Get specific drug
     if (drugId) {
       const drug = await DrugModel.findById(drugId);
-      if (!drug) {
+      if (!drug || !isDrugInScope(drug, scope)) {
         return NextResponse.json({ error: "Drug not found" }, { status: 404 });
       }
       return NextResponse.json({ success: true, data: drug });
     }
 
     // Build query
-    let query: any = {};
+    let query: any = { ...pharmacyFilter(scope) };
 
     if (category) {
       query.category = category;
@@ -97,6 +134,9 @@ export async function GET(request: NextRequest) {
       count: drugs.length,
     });
   } catch (error: any) {
+    const scopeResponse = scopeErrorResponse(error);
+    if (scopeResponse) return scopeResponse;
+
     console.error("Error fetching drugs:", error);
     return NextResponse.json(
       { error: "Failed to fetch drugs", details: error.message },
@@ -111,7 +151,7 @@ export async function POST(request: NextRequest) {
     await DatabaseManager.getInstance().ensureConnection();
 
     // Verify authentication
-    const user = verifyToken(request);
+    const user = await getAuthUser(request);
     if (!user || user.role !== "pharmacist") {
       return NextResponse.json(
         { error: "Unauthorized. Pharmacist access required." },
@@ -121,10 +161,7 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const {
-      name,
-      generic_name,
-      dosage_form,
-      strength,
+      formulary_id,
       manufacturer,
       batch_number,
       expiry_date,
@@ -136,26 +173,79 @@ export async function POST(request: NextRequest) {
       storage_requirements,
       side_effects,
       contraindications,
+      pharmacy_id,
     } = body;
 
     // Validation
-    if (!name || !dosage_form || !strength || !manufacturer || !expiry_date) {
+    if (!formulary_id || !manufacturer || !expiry_date) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
+    // New stock always belongs to the pharmacist's own pharmacy
+    const scope = await resolvePharmacyScope(
+      { id: user.id, role: user.role },
+      pharmacy_id
+    );
+
     const DrugModel = getDrugModel();
     const InventoryTransactionModel = getInventoryTransactionModel();
 
+    // Stock entries hold a formulary product; its name, strength and form
+    // come from the formulary rather than the request
+    const { items } = await findActiveFormularyItems([String(formulary_id)]);
+    const formularyItem = items.get(String(formulary_id));
+    if (!formularyItem) {
+      return NextResponse.json(
+        { error: "Unknown or withdrawn formulary item" },
+        { status: 400 }
+      );
+    }
+    const product = formularyDrugFields(formularyItem);
+    const name = product.name;
+
+    const existing = await DrugModel.findOne({
+      ...pharmacyFilter(scope),
+      formulary_id: formularyItem._id,
+    }).select("_id");
+    if (existing) {
+      return NextResponse.json(
+        {
+          error:
+            "This pharmacy already stocks this formulary item. Add stock to the existing entry instead.",
+          drugId: existing._id,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Stock of a batch under recall may not enter the pharmacy
+    if (stock_quantity > 0) {
+      await assertBatchNotRecalled(batch_number);
+    }
+
+    // Initial stock is the drug's first lot
+    const initialLots =
+      stock_quantity > 0
+        ? [
+            newLot({
+              batch_number: batch_number || "UNSPECIFIED",
+              expiry_date: new Date(expiry_date),
+              quantity: stock_quantity,
+              drug_batch_id: await findDrugBatchId(batch_number),
+            }),
+          ]
+        : [];
+
     // Create blockchain transaction
-    const blockchainTx = blockchainService.recordStockIn(
+    const blockchainTx = await blockchainService.recordStockIn(
       "pending", // Will update after drug is created
       name,
       stock_quantity || 0,
       0, // Previous quantity for new drug
-      user.userId,
+      user.id,
       user.role,
       batch_number,
       `Initial stock for ${name}`
@@ -163,10 +253,8 @@ export async function POST(request: NextRequest) {
 
     // Create drug
     const drug = await DrugModel.create({
-      name,
-      generic_name,
-      dosage_form,
-      strength,
+      pharmacy_id: scope.pharmacyId,
+      ...product,
       manufacturer,
       batch_number,
       expiry_date: new Date(expiry_date),
@@ -178,16 +266,17 @@ export async function POST(request: NextRequest) {
       storage_requirements,
       side_effects,
       contraindications,
+      lots: initialLots,
       blockchain_hash: blockchainTx.hash,
     });
 
     // Update blockchain with actual drug ID
-    const updatedBlockchainTx = blockchainService.recordStockIn(
+    const updatedBlockchainTx = await blockchainService.recordStockIn(
       drug._id.toString(),
       name,
       stock_quantity || 0,
       0,
-      user.userId,
+      user.id,
       user.role,
       batch_number,
       `Initial stock for ${name} (Drug ID: ${drug._id})`
@@ -202,8 +291,14 @@ export async function POST(request: NextRequest) {
       drug_id: drug._id,
       transaction_type: "stock_in",
       quantity: stock_quantity || 0,
-      performed_by: user.userId,
+      performed_by: user.id,
       blockchain_transaction_hash: updatedBlockchainTx.hash,
+      lots: initialLots.map((l) => ({
+        lot_id: l._id,
+        batch_number: l.batch_number,
+        expiry_date: l.expiry_date,
+        quantity: l.quantity,
+      })),
       notes: `Initial stock for ${name}`,
     });
 
@@ -222,6 +317,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error: any) {
+    const scopeResponse = scopeErrorResponse(error);
+    if (scopeResponse) return scopeResponse;
+
     console.error("Error adding drug:", error);
     return NextResponse.json(
       { error: "Failed to add drug", details: error.message },
@@ -230,13 +328,15 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// PUT: Update drug stock or details
+// PUT: Update drug stock or details. Added stock is received as a lot
+// (`lot: { batch_number, expiry_date }`); removed stock comes from `lotId`
+// or the earliest-expiring lots.
 export async function PUT(request: NextRequest) {
   try {
     await DatabaseManager.getInstance().ensureConnection();
 
     // Verify authentication
-    const user = verifyToken(request);
+    const user = await getAuthUser(request);
     if (!user || user.role !== "pharmacist") {
       return NextResponse.json(
         { error: "Unauthorized. Pharmacist access required." },
@@ -245,7 +345,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { drugId, updates, transactionType, notes } = body;
+    const { drugId, updates, transactionType, notes, lot, lotId } = body;
 
     if (!drugId) {
       return NextResponse.json(
@@ -254,6 +354,18 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (!updates || typeof updates !== "object" || Array.isArray(updates)) {
+      return NextResponse.json(
+        { error: "Updates are required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolvePharmacyScope({
+      id: user.id,
+      role: user.role,
+    });
+
     const DrugModel = getDrugModel();
     const InventoryTransactionModel = getInventoryTransactionModel();
 
@@ -262,65 +374,276 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: "Drug not found" }, { status: 404 });
     }
 
-    const previousQuantity = drug.stock_quantity;
-    let blockchainTx;
+    if (!isDrugInScope(drug, scope)) {
+      return NextResponse.json(
+        { error: "You can only update drugs stocked at your pharmacy" },
+        { status: 403 }
+      );
+    }
 
-    // Handle stock quantity updates with blockchain
-    if (updates.stock_quantity !== undefined) {
-      const quantityChange = updates.stock_quantity - previousQuantity;
+    if (
+      updates.pharmacy_id !== undefined &&
+      updates.pharmacy_id?.toString() !== scope.pharmacyId
+    ) {
+      return NextResponse.json(
+        { error: "Drugs cannot be moved to another pharmacy" },
+        { status: 403 }
+      );
+    }
+    delete updates.pharmacy_id;
+
+    // Lots and the fields summarizing them only change through stock moves
+    delete updates.lots;
+    delete updates.batch_number;
+    delete updates.expiry_date;
+    delete updates.blockchain_hash;
+
+    // The product a stock entry holds is fixed by its formulary item
+    if (drug.formulary_id) {
+      delete updates.formulary_id;
+      delete updates.name;
+      delete updates.generic_name;
+      delete updates.strength;
+      delete updates.dosage_form;
+    }
 
-      if (quantityChange > 0) {
-        // Stock increase
-        blockchainTx = blockchainService.recordStockIn(
-          drug._id.toString(),
-          drug.name,
-          quantityChange,
-          previousQuantity,
-          user.userId,
-          user.role,
-          drug.batch_number,
-          notes || `Stock increased by ${quantityChange}`
+    const targetQuantity = updates.stock_quantity;
+    delete updates.stock_quantity;
+
+    const batchNumber = lot?.batch_number?.trim();
+    const expiryDate = lot?.expiry_date ? new Date(lot.expiry_date) : null;
+
+    // Stock moves are conditional updates of the lots rather than a save of
+    // the whole array, so a concurrent dispense or recall freeze is never
+    // overwritten. The stock, the other fields and the inventory
+    // transaction are written in a single MongoDB transaction.
+    const session = await mongoose.startSession();
+    let outcome;
+
+    try {
+      outcome = await session.withTransaction(async () => {
+        let current = await DrugModel.findById(drug._id).session(session);
+        const previousQuantity = current.stock_quantity;
+        let stocked = current;
+        let transactionLots: LotAllocation[] = [];
+
+        // The change is taken against the stock read in this transaction, so
+        // a dispense committed since the request began is not undone
+        const quantityChange =
+          targetQuantity !== undefined ? targetQuantity - previousQuantity : 0;
+
+        // Stock increase: received as a lot with its own batch and expiry
+        let drugBatchId = null;
+        if (quantityChange > 0) {
+          if (!batchNumber || !expiryDate || isNaN(expiryDate.getTime())) {
+            throw new StockUpdateError(400, {
+              error:
+                "A lot batch_number and expiry_date are required when adding stock",
+            });
+          }
+          await assertBatchNotRecalled(batchNumber);
+          drugBatchId = await findDrugBatchId(batchNumber);
+        }
+
+        // Stock recorded before lot tracking becomes a single lot
+        const lotConversion = quantityChange ? legacyLotUpdate(current) : null;
+        if (lotConversion) {
+          current = await DrugModel.findByIdAndUpdate(
+            current._id,
+            lotConversion,
+            { new: true, session }
+          );
+        }
+
+        if (quantityChange > 0) {
+          // Added to a matching lot, otherwise received as a new one
+          const existingLot = current.lots.find(
+            (l: any) =>
+              !l.recall_id &&
+              l.batch_number === batchNumber &&
+              new Date(l.expiry_date).getTime() === expiryDate!.getTime()
+          );
+          const receivedLot =
+            existingLot ||
+            newLot({
+              batch_number: batchNumber!,
+              expiry_date: expiryDate!,
+              quantity: quantityChange,
+              drug_batch_id: drugBatchId,
+            });
+
+          stocked = existingLot
+            ? await DrugModel.findOneAndUpdate(
+                { _id: current._id },
+                {
+                  $inc: {
+                    stock_quantity: quantityChange,
+                    "lots.$[lot].quantity": quantityChange,
+                  },
+                },
+                {
+                  new: true,
+                  session,
+                  arrayFilters: [{ "lot._id": existingLot._id }],
+                }
+              )
+            : await DrugModel.findOneAndUpdate(
+                { _id: current._id },
+                {
+                  $inc: { stock_quantity: quantityChange },
+                  $push: { lots: receivedLot },
+                },
+                { new: true, session }
+              );
+          transactionLots = [
+            {
+              lot_id: receivedLot._id,
+              batch_number: batchNumber!,
+              expiry_date: expiryDate!,
+              quantity: quantityChange,
+            },
+          ];
+        } else if (quantityChange < 0) {
+          // Stock decrease: from the chosen lot, otherwise first expiry first
+          // out including expired lots, which are usually what is written off
+          const removed = Math.abs(quantityChange);
+          const selectedLot = lotId
+            ? current.lots.find((l: any) => l._id.toString() === lotId)
+            : null;
+          if (selectedLot?.recall_id) {
+            throw new StockUpdateError(409, {
+              error:
+                "This lot is under recall. Record its return or destruction on the recall instead.",
+            });
+          }
+          const allocation = allocateFefo(
+            lotId ? { lots: selectedLot ? [selectedLot] : [] } : current,
+            removed,
+            { includeExpired: true }
+          );
+
+          if (!allocation) {
+            throw new StockUpdateError(400, {
+              error: lotId
+                ? "The selected lot does not hold enough stock"
+                : "Cannot reduce stock below zero",
+            });
+          }
+
+          // Conditional decrement: only succeeds while every allocated lot
+          // still holds enough stock and is not frozen by a recall
+          const decrement = buildLotDecrement(current._id, allocation);
+          stocked = await DrugModel.findOneAndUpdate(
+            decrement.filter,
+            decrement.update,
+            { new: true, session, arrayFilters: decrement.arrayFilters }
+          );
+
+          if (!stocked) {
+            throw new StockUpdateError(409, {
+              error:
+                "The stock of this drug changed while it was being adjusted. Reload and try again.",
+            });
+          }
+          transactionLots = allocation;
+        }
+
+        const updated = await DrugModel.findByIdAndUpdate(
+          current._id,
+          {
+            $set: {
+              ...updates,
+              ...(quantityChange ? summarizeLots(stocked) : {}),
+            },
+          },
+          { new: true, session }
         );
 
-        await InventoryTransactionModel.create({
-          drug_id: drug._id,
-          transaction_type: "stock_in",
-          quantity: quantityChange,
-          performed_by: user.userId,
-          blockchain_transaction_hash: blockchainTx.hash,
-          notes: notes || `Stock increased by ${quantityChange}`,
-        });
-      } else if (quantityChange < 0) {
-        // Stock decrease (adjustment)
-        blockchainTx = blockchainService.recordAdjustment(
-          drug._id.toString(),
-          drug.name,
-          Math.abs(quantityChange),
-          previousQuantity,
-          updates.stock_quantity,
-          user.userId,
-          user.role,
-          notes || `Stock adjusted: ${quantityChange}`
+        if (!quantityChange) {
+          return {
+            drug: updated,
+            previousQuantity,
+            quantityChange,
+            inventoryTransaction: null,
+          };
+        }
+
+        const removed = quantityChange < 0;
+        const [inventoryTransaction] = await InventoryTransactionModel.create(
+          [
+            {
+              drug_id: current._id,
+              transaction_type: removed
+                ? transactionType || "damaged"
+                : "stock_in",
+              quantity: Math.abs(quantityChange),
+              performed_by: user.id,
+              lots: transactionLots,
+              notes:
+                notes ||
+                (removed
+                  ? `Stock decreased by ${-quantityChange}`
+                  : `Stock increased by ${quantityChange}`),
+            },
+          ],
+          { session }
         );
 
-        await InventoryTransactionModel.create({
-          drug_id: drug._id,
-          transaction_type: transactionType || "damaged",
-          quantity: Math.abs(quantityChange),
-          performed_by: user.userId,
-          blockchain_transaction_hash: blockchainTx.hash,
-          notes: notes || `Stock decreased by ${Math.abs(quantityChange)}`,
-        });
-      }
-
-      updates.blockchain_hash = blockchainTx?.hash || drug.blockchain_hash;
+        return {
+          drug: updated,
+          previousQuantity,
+          quantityChange,
+          inventoryTransaction,
+        };
+      });
+    } finally {
+      await session.endSession();
     }
 
-    // Update drug
-    Object.assign(drug, updates);
-    await drug.save();
+    let { drug: updatedDrug } = outcome;
+    const { previousQuantity, quantityChange, inventoryTransaction } = outcome;
+    let blockchainTx;
+
+    // Record in blockchain once the stock move has committed, then link the
+    // resulting hash back onto the records it covers
+    if (inventoryTransaction) {
+      blockchainTx =
+        quantityChange > 0
+          ? await blockchainService.recordStockIn(
+              updatedDrug._id.toString(),
+              updatedDrug.name,
+              quantityChange,
+              previousQuantity,
+              user.id,
+              user.role,
+              batchNumber!,
+              notes || `Stock increased by ${quantityChange}`
+            )
+          : await blockchainService.recordAdjustment(
+              updatedDrug._id.toString(),
+              updatedDrug.name,
+              -quantityChange,
+              previousQuantity,
+              previousQuantity + quantityChange,
+              user.id,
+              user.role,
+              notes || `Stock adjusted: ${quantityChange}`
+            );
+
+      [updatedDrug] = await Promise.all([
+        DrugModel.findByIdAndUpdate(
+          updatedDrug._id,
+          { $set: { blockchain_hash: blockchainTx.hash } },
+          { new: true }
+        ),
+        InventoryTransactionModel.updateOne(
+          { _id: inventoryTransaction._id },
+          { $set: { blockchain_transaction_hash: blockchainTx.hash } }
+        ),
+      ]);
+    }
 
-    console.log(`✅ Updated drug: ${drug.name} (${drug._id})`);
+    console.log(`✅ Updated drug: ${updatedDrug.name} (${updatedDrug._id})`);
     if (blockchainTx) {
       console.log(
         `   Blockchain hash: ${blockchainTx.hash.substring(0, 16)}...`
@@ -329,11 +652,18 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      data: drug,
+      data: updatedDrug,
       blockchainTransaction: blockchainTx,
       message: "Drug updated successfully",
     });
   } catch (error: any) {
+    if (error instanceof StockUpdateError) {
+      return NextResponse.json(error.body, { status: error.status });
+    }
+
+    const scopeResponse = scopeErrorResponse(error);
+    if (scopeResponse) return scopeResponse;
+
     console.error("Error updating drug:", error);
     return NextResponse.json(
       { error: "Failed to update drug", details: error.message },
@@ -348,7 +678,7 @@ export async function DELETE(request: NextRequest) {
     await DatabaseManager.getInstance().ensureConnection();
 
     // Verify authentication
-    const user = verifyToken(request);
+    const user = await getAuthUser(request);
     if (!user || user.role !== "pharmacist") {
       return NextResponse.json(
         { error: "Unauthorized. Pharmacist access required." },
@@ -366,6 +696,11 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    const scope = await resolvePharmacyScope({
+      id: user.id,
+      role: user.role,
+    });
+
     const DrugModel = getDrugModel();
     const drug = await DrugModel.findById(drugId);
 
@@ -373,13 +708,20 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "Drug not found" }, { status: 404 });
     }
 
+    if (!isDrugInScope(drug, scope)) {
+      return NextResponse.json(
+        { error: "You can only remove drugs stocked at your pharmacy" },
+        { status: 403 }
+      );
+    }
+
     // Record in blockchain before deletion
-    const blockchainTx = blockchainService.recordExpiry(
+    const blockchainTx = await blockchainService.recordExpiry(
       drug._id.toString(),
       drug.name,
       drug.stock_quantity,
       drug.stock_quantity,
-      user.userId,
+      user.id,
       user.role,
       drug.batch_number,
       "Drug removed from inventory"
@@ -396,6 +738,9 @@ export async function DELETE(request: NextRequest) {
       blockchainTransaction: blockchainTx,
     });
   } catch (error: any) {
+    const scopeResponse = scopeErrorResponse(error);
+    if (scopeResponse) return scopeResponse;
+
     console.error("Error deleting drug:", error);
     return NextResponse.json(
       { error: "Failed to delete drug", details: error.message },
@@ -0,0 +1,110 @@
+/**
+ * API Route: Formulary Item
+ * PATCH /api/formulary/[itemId]
+ * Edit a formulary product or withdraw it with is_active: false
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/database/connection";
+import {
+  FormularyItemModel,
+  DOSAGE_FORMS,
+  CONTROLLED_SCHEDULES,
+} from "@/lib/database/formularyModels";
+import { withPermission } from "@/lib/utils/api-middleware";
+
+// The code identifies the product on prescriptions and stock, so it is
+// fixed once created
+const EDITABLE_FIELDS = [
+  "name",
+  "generic_name",
+  "strength",
+  "dosage_form",
+  "controlled_schedule",
+  "description",
+  "is_active",
+];
+
+export const PATCH = withPermission(
+  "formulary:manage",
+  async (
+    req: NextRequest,
+    user,
+    { params }: { params: Promise<{ itemId: string }> }
+  ) => {
+    try {
+      await connectToDatabase();
+
+      const { itemId } = await params;
+      if (!mongoose.Types.ObjectId.isValid(itemId)) {
+        return NextResponse.json(
+          { success: false, error: "Invalid formulary item ID" },
+          { status: 400 }
+        );
+      }
+
+      const body = await req.json();
+      const updates: Record<string, any> = {};
+      for (const field of EDITABLE_FIELDS) {
+        if (body[field] !== undefined) {
+          updates[field] = body[field];
+        }
+      }
+
+      if (
+        updates.dosage_form !== undefined &&
+        !DOSAGE_FORMS.includes(updates.dosage_form)
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `dosage_form must be one of: ${DOSAGE_FORMS.join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+
+      if (
+        updates.controlled_schedule !== undefined &&
+        !CONTROLLED_SCHEDULES.includes(updates.controlled_schedule)
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `controlled_schedule must be one of: ${CONTROLLED_SCHEDULES.join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+
+      const item = await FormularyItemModel.findByIdAndUpdate(
+        itemId,
+        { $set: updates },
+        { new: true, runValidators: true }
+      );
+
+      if (!item) {
+        return NextResponse.json(
+          { success: false, error: "Formulary item not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: item,
+        message: "Formulary item updated",
+      });
+    } catch (error: any) {
+      console.error("Error updating formulary item:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message || "Failed to update formulary item",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
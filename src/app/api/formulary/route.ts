@@ -0,0 +1,146 @@
+/**
+ * API Route: Drug Formulary
+ * GET /api/formulary?q=&limit=
+ * POST /api/formulary
+ * Typeahead over the formulary catalogue and adding products to it
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/database/connection";
+import {
+  FormularyItemModel,
+  DOSAGE_FORMS,
+  CONTROLLED_SCHEDULES,
+} from "@/lib/database/formularyModels";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { searchFormulary } from "@/lib/utils/formulary";
+
+const MAX_RESULTS = 50;
+
+export const GET = withPermission(
+  "formulary:read",
+  async (req: NextRequest, user) => {
+    try {
+      await connectToDatabase();
+
+      const { searchParams } = new URL(req.url);
+      const q = searchParams.get("q") || "";
+      const limit = Math.min(
+        Math.max(parseInt(searchParams.get("limit") || "20") || 20, 1),
+        MAX_RESULTS
+      );
+
+      const items = await searchFormulary(q, limit);
+
+      return NextResponse.json({
+        success: true,
+        data: items,
+        count: items.length,
+      });
+    } catch (error: any) {
+      console.error("Error searching formulary:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message || "Failed to search formulary",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = withPermission(
+  "formulary:manage",
+  async (req: NextRequest, user) => {
+    try {
+      await connectToDatabase();
+
+      const body = await req.json();
+      const {
+        code,
+        name,
+        generic_name,
+        strength,
+        dosage_form,
+        controlled_schedule,
+        description,
+      } = body;
+
+      if (!code?.trim() || !name?.trim() || !strength?.trim()) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "code, name and strength are required",
+          },
+          { status: 400 }
+        );
+      }
+
+      if (!DOSAGE_FORMS.includes(dosage_form)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `dosage_form must be one of: ${DOSAGE_FORMS.join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+
+      if (
+        controlled_schedule !== undefined &&
+        !CONTROLLED_SCHEDULES.includes(controlled_schedule)
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `controlled_schedule must be one of: ${CONTROLLED_SCHEDULES.join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+
+      const existing = await FormularyItemModel.findOne({
+        code: code.trim().toUpperCase(),
+      });
+      if (existing) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Formulary code ${existing.code} is already in use`,
+          },
+          { status: 409 }
+        );
+      }
+
+      const item = await FormularyItemModel.create({
+        code,
+        name,
+        generic_name,
+        strength,
+        dosage_form,
+        controlled_schedule,
+        description,
+        created_by: user.id,
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: item,
+          message: "Formulary item created",
+        },
+        { status: 201 }
+      );
+    } catch (error: any) {
+      console.error("Error creating formulary item:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message || "Failed to create formulary item",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
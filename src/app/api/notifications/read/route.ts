@@ -0,0 +1,55 @@
+/**
+ * API Route: Mark Notifications Read
+ * POST /api/notifications/read
+ * Body: { ids: string[] } to mark specific notifications, or { all: true }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { withAuth } from "@/lib/utils/api-middleware";
+import { notificationService } from "@/lib/services/NotificationService";
+
+export const POST = withAuth(async (req: NextRequest, user) => {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    let ids: string[] | "all";
+    if (body.all === true) {
+      ids = "all";
+    } else if (
+      Array.isArray(body.ids) &&
+      body.ids.length > 0 &&
+      body.ids.every(
+        (id: unknown) =>
+          typeof id === "string" && mongoose.Types.ObjectId.isValid(id)
+      )
+    ) {
+      ids = body.ids;
+    } else {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Provide notification ids or all: true",
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = await notificationService.markRead(user.id, ids);
+    const unreadCount = await notificationService.unreadCount(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { updated, unreadCount },
+    });
+  } catch (error: any) {
+    console.error("Error marking notifications read:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || "Failed to mark notifications read",
+      },
+      { status: 500 }
+    );
+  }
+});
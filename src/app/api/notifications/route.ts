@@ -0,0 +1,48 @@
+/**
+ * API Route: Notifications
+ * GET /api/notifications
+ * The signed-in user's notifications, newest first, with their unread
+ * count. Query: unread=true, limit (max 50), before (ISO date, paging)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/api-middleware";
+import { notificationService } from "@/lib/services/NotificationService";
+
+export const GET = withAuth(async (req: NextRequest, user) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const before = searchParams.get("before");
+    const beforeDate = before ? new Date(before) : undefined;
+
+    if (beforeDate && isNaN(beforeDate.getTime())) {
+      return NextResponse.json(
+        { success: false, error: "Invalid before date" },
+        { status: 400 }
+      );
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      notificationService.list(user.id, {
+        unreadOnly: searchParams.get("unread") === "true",
+        limit: parseInt(searchParams.get("limit") || "20"),
+        before: beforeDate,
+      }),
+      notificationService.unreadCount(user.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { notifications, unreadCount },
+    });
+  } catch (error: any) {
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || "Failed to fetch notifications",
+      },
+      { status: 500 }
+    );
+  }
+});
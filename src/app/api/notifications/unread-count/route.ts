@@ -0,0 +1,25 @@
+/**
+ * API Route: Unread Notification Count
+ * GET /api/notifications/unread-count
+ * Cheap poll for the notification bell badge
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/api-middleware";
+import { notificationService } from "@/lib/services/NotificationService";
+
+export const GET = withAuth(async (req: NextRequest, user) => {
+  try {
+    const unreadCount = await notificationService.unreadCount(user.id);
+    return NextResponse.json({ success: true, data: { unreadCount } });
+  } catch (error: any) {
+    console.error("Error counting unread notifications:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || "Failed to count unread notifications",
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,56 @@
+/**
+ * API Route: Patient Access Grant
+ * DELETE /api/patients/access-grants/[grantId]
+ * Revoke a grant. Access ends immediately; the grant is kept as history.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import { PatientModel } from "@/lib/database/models";
+import {
+  revokePatientAccess,
+  PatientAccessError,
+} from "@/lib/utils/patient-access";
+
+export const DELETE = withPermission(
+  "patients:access:manage",
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ grantId: string }> }
+  ) => {
+    try {
+      await connectToDatabase();
+
+      const patient = await PatientModel.findOne({ user_id: user.id });
+      if (!patient) {
+        return NextResponse.json(
+          { success: false, error: "Patient profile not found" },
+          { status: 404 }
+        );
+      }
+
+      const { grantId } = await params;
+      await revokePatientAccess(patient._id, grantId, user.id);
+
+      return NextResponse.json({
+        success: true,
+        message: "Access revoked",
+      });
+    } catch (error) {
+      if (error instanceof PatientAccessError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        );
+      }
+
+      console.error("Error revoking access:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to revoke access" },
+        { status: 500 }
+      );
+    }
+  }
+);
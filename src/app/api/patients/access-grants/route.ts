@@ -0,0 +1,181 @@
+/**
+ * API Route: Patient Access Grants
+ * GET  /api/patients/access-grants - The patient's grants, emergency
+ *      accesses to their records, and the doctors and pharmacies they can
+ *      grant access to
+ * POST /api/patients/access-grants - Grant a doctor or pharmacy access,
+ *      optionally until an expiry date
+ */
+
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import {
+  PatientModel,
+  DoctorModel,
+  PharmacyModel,
+} from "@/lib/database/models";
+import { PatientAccessGrantModel } from "@/lib/database/accessModels";
+import { BreakGlassAccess } from "@/lib/database/securityModels";
+import {
+  grantPatientAccess,
+  PatientAccessError,
+} from "@/lib/utils/patient-access";
+
+const EMERGENCY_ACCESS_LIMIT = 50;
+
+/**
+ * Grant as shown on the patient's doctors page
+ */
+function formatGrant(grant: any, now: Date) {
+  const doctor = grant.doctor_id;
+  const pharmacy = grant.pharmacy_id;
+  const status = grant.revoked_at
+    ? "revoked"
+    : grant.expires_at && grant.expires_at <= now
+      ? "expired"
+      : "active";
+
+  return {
+    id: grant._id.toString(),
+    granteeType: grant.grantee_type,
+    grantee:
+      grant.grantee_type === "doctor"
+        ? {
+            id: doctor?._id?.toString(),
+            name: doctor?.user_id?.username || "Unknown Doctor",
+            detail: doctor?.specialization || "General",
+          }
+        : {
+            id: pharmacy?._id?.toString(),
+            name: pharmacy?.name || "Unknown Pharmacy",
+            detail: pharmacy ? `${pharmacy.city}, ${pharmacy.state}` : "",
+          },
+    status,
+    grantedAt: grant.created_at,
+    expiresAt: grant.expires_at || null,
+    revokedAt: grant.revoked_at || null,
+  };
+}
+
+export const GET = withPermission(
+  "patients:access:manage",
+  async (request, user) => {
+    try {
+      await connectToDatabase();
+
+      const patient = await PatientModel.findOne({ user_id: user.id });
+      if (!patient) {
+        return NextResponse.json(
+          { success: false, error: "Patient profile not found" },
+          { status: 404 }
+        );
+      }
+
+      const [grants, emergencyAccess, doctors, pharmacies] = await Promise.all([
+        PatientAccessGrantModel.find({ patient_id: patient._id })
+          .populate({
+            path: "doctor_id",
+            select: "user_id specialization",
+            populate: { path: "user_id", select: "username" },
+          })
+          .populate("pharmacy_id", "name city state")
+          .sort({ created_at: -1 })
+          .lean(),
+        BreakGlassAccess.find({ patient_id: patient._id })
+          .populate("user_id", "username")
+          .sort({ timestamp: -1 })
+          .limit(EMERGENCY_ACCESS_LIMIT)
+          .lean(),
+        DoctorModel.find({ verification_status: "verified" })
+          .select("user_id specialization")
+          .populate("user_id", "username")
+          .lean(),
+        PharmacyModel.find({ is_active: true })
+          .select("name city state")
+          .sort({ name: 1 })
+          .lean(),
+      ]);
+
+      const now = new Date();
+
+      return NextResponse.json({
+        success: true,
+        grants: grants.map((grant: any) => formatGrant(grant, now)),
+        emergencyAccess: emergencyAccess.map((access: any) => ({
+          id: access._id.toString(),
+          name: access.user_id?.username || "Unknown",
+          role: access.role,
+          justification: access.justification,
+          startedAt: access.timestamp,
+          expiresAt: access.expires_at,
+        })),
+        directory: {
+          doctors: doctors.map((doctor: any) => ({
+            id: doctor._id.toString(),
+            name: doctor.user_id?.username || "Unknown Doctor",
+            detail: doctor.specialization || "General",
+          })),
+          pharmacies: pharmacies.map((pharmacy: any) => ({
+            id: pharmacy._id.toString(),
+            name: pharmacy.name,
+            detail: `${pharmacy.city}, ${pharmacy.state}`,
+          })),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching access grants:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to fetch access grants" },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = withPermission(
+  "patients:access:manage",
+  async (request, user) => {
+    try {
+      await connectToDatabase();
+
+      const patient = await PatientModel.findOne({ user_id: user.id });
+      if (!patient) {
+        return NextResponse.json(
+          { success: false, error: "Patient profile not found" },
+          { status: 404 }
+        );
+      }
+
+      const body = await request.json();
+      const grant = await grantPatientAccess(patient._id, user.id, body);
+      await grant.populate([
+        {
+          path: "doctor_id",
+          select: "user_id specialization",
+          populate: { path: "user_id", select: "username" },
+        },
+        { path: "pharmacy_id", select: "name city state" },
+      ]);
+
+      return NextResponse.json({
+        success: true,
+        message: "Access granted",
+        grant: formatGrant(grant.toObject(), new Date()),
+      });
+    } catch (error) {
+      if (error instanceof PatientAccessError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        );
+      }
+
+      console.error("Error granting access:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to grant access" },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,66 @@
+/**
+ * API Route: Emergency (Break-Glass) Access
+ * POST /api/patients/break-glass
+ * Lets a doctor or pharmacist open a patient's records without a grant for
+ * BREAK_GLASS_DURATION_MINUTES. A written justification is required; the
+ * access is recorded and the patient, admins and auditors are notified.
+ */
+
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import {
+  startBreakGlassAccess,
+  PatientAccessError,
+} from "@/lib/utils/patient-access";
+import {
+  assertVerifiedProfessional,
+  VerificationError,
+} from "@/lib/utils/professional-verification";
+
+export const POST = withPermission(
+  "patients:access:break-glass",
+  async (request, user) => {
+    try {
+      await connectToDatabase();
+
+      // Only licensed professionals may override a patient's choices
+      await assertVerifiedProfessional(user);
+
+      const body = await request.json();
+      const { patient, record } = await startBreakGlassAccess(
+        request,
+        user,
+        body
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: "Emergency access granted. This access has been recorded.",
+        access: {
+          id: record._id.toString(),
+          patientId: patient.user_id?._id?.toString(),
+          patientName: patient.user_id?.username || "Unknown Patient",
+          medicalRecordNumber: patient.medical_record_number,
+          expiresAt: record.expires_at,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof PatientAccessError ||
+        error instanceof VerificationError
+      ) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        );
+      }
+
+      console.error("Error starting emergency access:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to start emergency access" },
+        { status: 500 }
+      );
+    }
+  }
+);
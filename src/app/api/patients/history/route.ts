@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { withPatientAuth } from "@/lib/utils/api-middleware";
 import { connectToDatabase } from "@/lib/database/connection";
 import { PrescriptionModel, PatientModel } from "@/lib/database/models";
+import { getPrescribedDrug } from "@/lib/utils/formulary";
 
 export const GET = withPatientAuth(async (request, user) => {
   try {
@@ -20,15 +21,16 @@ export const GET = withPatientAuth(async (request, user) => {
       );
     }
 
-    // Fetch prescription history (dispensed and rejected)
+    // Fetch prescription history (dispensed, partially dispensed and rejected)
     const prescriptions = await PrescriptionModel.find({
       patient_id: patient._id,
-      status: { $in: ["dispensed", "rejected", "expired"] },
+      status: { $in: ["partially_dispensed", "dispensed", "rejected", "expired"] },
     })
       .populate({
         path: "doctor_id",
         populate: { path: "user_id", model: "User" },
       })
+      .populate("formulary_id")
       .populate("drug_id")
       .populate({
         path: "pharmacist_id",
@@ -41,12 +43,12 @@ export const GET = withPatientAuth(async (request, user) => {
     // Format history for frontend
     const formattedHistory = prescriptions.map((prescription: any) => {
       const doctor = prescription.doctor_id;
-      const drug = prescription.drug_id;
+      const drug = getPrescribedDrug(prescription);
       const pharmacist = prescription.pharmacist_id;
 
       // Determine the type based on status
       let type: "prescription" | "dispensing" = "prescription";
-      if (prescription.status === "dispensed") {
+      if (prescription.status === "dispensed" || prescription.status === "partially_dispensed") {
         type = "dispensing";
       }
 
@@ -56,15 +58,22 @@ export const GET = withPatientAuth(async (request, user) => {
         displayStatus = "cancelled";
       } else if (prescription.status === "dispensed") {
         displayStatus = "completed";
+      } else if (prescription.status === "partially_dispensed") {
+        displayStatus = "pending";
       }
 
       // Create title and description
       const medicationName = drug?.name || "Unknown Medication";
       const dosage = drug?.strength || "N/A";
       const title = `${medicationName} - ${dosage}`;
-      const description = type === "dispensing" 
-        ? `Dispensed ${prescription.quantity_dispensed || prescription.quantity_prescribed} units`
+      const dispensedQuantity = prescription.quantity_dispensed || 0;
+      const remainingQuantity = prescription.quantity_prescribed - dispensedQuantity;
+      let description = type === "dispensing" 
+        ? `Dispensed ${dispensedQuantity || prescription.quantity_prescribed} units`
         : `Prescribed ${prescription.quantity_prescribed} units`;
+      if (prescription.status === "partially_dispensed") {
+        description = `Dispensed ${dispensedQuantity} of ${prescription.quantity_prescribed} units (${remainingQuantity} outstanding)`;
+      }
 
       // Use the most relevant date
       const date = prescription.date_dispensed || prescription.date_issued || prescription.updated_at;
@@ -82,7 +91,12 @@ export const GET = withPatientAuth(async (request, user) => {
         // Additional details for reference
         prescriptionNumber: `RX${prescription._id.toString().slice(-8).toUpperCase()}`,
         quantity: prescription.quantity_prescribed,
-        dispensedQuantity: prescription.quantity_dispensed || 0,
+        dispensedQuantity,
+        remainingQuantity,
+        fills: (prescription.fills || []).map((fill: any) => ({
+          quantity: fill.quantity,
+          dispensedAt: fill.dispensed_at,
+        })),
         notes: prescription.notes,
       };
     });
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { withPatientAuth } from "@/lib/utils/api-middleware";
 import { connectToDatabase } from "@/lib/database/connection";
 import { Models } from "@/lib/database/models";
+import { normalizeAllergies } from "@/lib/utils/allergies";
 
 // GET /api/patients/profile - Get patient profile
 export const GET = withPatientAuth(async (request, user) => {
@@ -54,6 +55,11 @@ export const PUT = withPatientAuth(async (request, user) => {
       }
     }
 
+    // Accept substance names or { substance, reaction, severity } entries
+    if (updates.allergies !== undefined) {
+      updates.allergies = normalizeAllergies(updates.allergies);
+    }
+
     if (Object.keys(updates).length === 0) {
       return NextResponse.json(
         { success: false, message: "No valid fields to update" },
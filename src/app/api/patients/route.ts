@@ -2,13 +2,34 @@
 import { NextRequest, NextResponse } from "next/server";
 import { connectToDatabase } from "@/lib/database/connection";
 import { UserModel, PatientModel } from "@/lib/database/models";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { describeAllergies } from "@/lib/utils/allergies";
+import { findPatientsWithholdingData } from "@/lib/utils/user-preferences";
+import { findAccessiblePatientIds } from "@/lib/utils/patient-access";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission("patients:list", async (request, user) => {
   try {
     await connectToDatabase();
 
-    // Fetch all users with patient role
-    const patientUsers = await UserModel.find({ role: "patient" }).lean();
+    // Doctors and pharmacists only see patients who granted them access
+    const accessible = await findAccessiblePatientIds(user);
+    const patientQuery: any = { role: "patient" };
+    if (accessible) {
+      patientQuery._id = {
+        $in: await PatientModel.find({ _id: { $in: accessible } }).distinct(
+          "user_id"
+        ),
+      };
+    }
+
+    // Fetch users with patient role
+    const patientUsers = await UserModel.find(patientQuery).lean();
+
+    // Doctors do not see the history of patients who turned off sharing
+    const withholding =
+      user.role === "doctor"
+        ? await findPatientsWithholdingData(patientUsers.map((u: any) => u._id))
+        : new Set<string>();
 
     // Fetch corresponding patient data with medical_record_number (patientId)
     const patients = await Promise.all(
@@ -25,8 +46,11 @@ export async function GET(request: NextRequest) {
           email: user.email,
           phone: patientData?.contact_info?.phone || null,
           dateOfBirth: patientData?.date_of_birth || null,
-          allergies: patientData?.allergies || null,
-          medicalHistory: patientData?.medical_history || null,
+          allergies: describeAllergies(patientData?.allergies),
+          medicalHistory: withholding.has(user._id.toString())
+            ? null
+            : patientData?.medical_history || null,
+          dataShared: !withholding.has(user._id.toString()),
         };
       })
     );
@@ -45,4 +69,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,21 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { withPatientAuth } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import {
+  getUserPreferences,
+  updateUserPreferences,
+  PreferencesValidationError,
+} from "@/lib/utils/user-preferences";
 
 // GET /api/patients/settings - Get patient settings
 export const GET = withPatientAuth(async (request, user) => {
   try {
-    // Patient settings are stored in user preferences, not in database
-    const settings = {
-      notifications: {
-        emailNotifications: true,
-        smsNotifications: false,
-        prescriptionReminders: true,
-      },
-      privacy: {
-        shareDataWithDoctor: true,
-        allowResearch: false,
-      },
-    };
+    await connectToDatabase();
+
+    const settings = await getUserPreferences(user.id, "patient");
 
     return NextResponse.json({
       success: true,
@@ -35,19 +32,9 @@ export const PUT = withPatientAuth(async (request, user) => {
   try {
     const body = await request.json();
 
-    // In a real implementation, store these preferences in database
-    // For now, just validate and return
-    const settings = {
-      notifications: body.notifications || {
-        emailNotifications: true,
-        smsNotifications: false,
-        prescriptionReminders: true,
-      },
-      privacy: body.privacy || {
-        shareDataWithDoctor: true,
-        allowResearch: false,
-      },
-    };
+    await connectToDatabase();
+
+    const settings = await updateUserPreferences(user.id, "patient", body);
 
     return NextResponse.json({
       success: true,
@@ -55,6 +42,13 @@ export const PUT = withPatientAuth(async (request, user) => {
       settings,
     });
   } catch (error) {
+    if (error instanceof PreferencesValidationError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error("Error updating patient settings:", error);
     return NextResponse.json(
       { success: false, message: "Failed to update settings" },
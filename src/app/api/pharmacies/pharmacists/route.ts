@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/database/connection";
+import { PharmacyModel, PharmacistModel } from "@/lib/database/models";
+import { withAdminAuth } from "@/lib/utils/api-middleware";
+
+// GET /api/pharmacies/pharmacists - List pharmacists and the pharmacy they
+// work at (Admin only). Filter with ?pharmacyId=
+export const GET = withAdminAuth(async (request) => {
+  try {
+    await connectToDatabase();
+
+    const { searchParams } = new URL(request.url);
+    const pharmacyId = searchParams.get("pharmacyId");
+
+    const query: any = {};
+    if (pharmacyId) {
+      query.pharmacy_id = pharmacyId;
+    }
+
+    const pharmacists = await PharmacistModel.find(query)
+      .populate("user_id", "username email")
+      .populate("pharmacy_id", "name city state")
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: pharmacists,
+      count: pharmacists.length,
+    });
+  } catch (error: any) {
+    console.error("Error fetching pharmacists:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || "Failed to fetch pharmacists",
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// PUT /api/pharmacies/pharmacists - Assign a pharmacist to a pharmacy
+// (Admin only). Their inventory and dispensing are scoped to it.
+export const PUT = withAdminAuth(async (request) => {
+  try {
+    await connectToDatabase();
+
+    const { pharmacistUserId, pharmacyId } = await request.json();
+
+    if (
+      !mongoose.Types.ObjectId.isValid(pharmacistUserId) ||
+      !mongoose.Types.ObjectId.isValid(pharmacyId)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Valid pharmacistUserId and pharmacyId are required",
+        },
+        { status: 400 }
+      );
+    }
+
+    const pharmacy = await PharmacyModel.findById(pharmacyId);
+    if (!pharmacy || !pharmacy.is_active) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Pharmacy not found or inactive",
+        },
+        { status: 404 }
+      );
+    }
+
+    const pharmacist = await PharmacistModel.findOneAndUpdate(
+      { user_id: pharmacistUserId },
+      {
+        $set: {
+          pharmacy_id: pharmacy._id,
+          // Keep the deprecated display name in step with the link
+          pharmacy_name: pharmacy.name,
+        },
+      },
+      { new: true }
+    );
+
+    if (!pharmacist) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Pharmacist not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: pharmacist,
+      message: `Pharmacist assigned to ${pharmacy.name}`,
+    });
+  } catch (error: any) {
+    console.error("Error assigning pharmacist:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || "Failed to assign pharmacist",
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -6,6 +6,8 @@ import {
   PharmacistModel,
   PatientModel,
 } from "@/lib/database/models";
+import { describeAllergies } from "@/lib/utils/allergies";
+import { findAccessiblePatientIds } from "@/lib/utils/patient-access";
 
 export const GET = withPharmacistAuth(async (request, user) => {
   try {
@@ -24,9 +26,11 @@ export const GET = withPharmacistAuth(async (request, user) => {
       );
     }
 
-    // Get all patients (pharmacists should be able to look up any patient)
-    // Limit to 100 for performance
-    const patients = await PatientModel.find({})
+    // Patients who granted this pharmacy access, or are under emergency
+    // access by this pharmacist. Limit to 100 for performance
+    const patients = await PatientModel.find({
+      _id: { $in: await findAccessiblePatientIds(user) },
+    })
       .populate("user_id")
       .limit(100)
       .lean();
@@ -42,11 +46,11 @@ export const GET = withPharmacistAuth(async (request, user) => {
             patient_id: patient._id,
           });
 
-          // Count active prescriptions (verified/pending)
+          // Count active prescriptions (verified/pending/partially dispensed)
           const activePrescriptionCount =
             await PrescriptionModel.countDocuments({
               patient_id: patient._id,
-              status: { $in: ["verified", "pending"] },
+              status: { $in: ["verified", "pending", "partially_dispensed"] },
             });
 
           const userInfo = patient.user_id;
@@ -65,7 +69,7 @@ export const GET = withPharmacistAuth(async (request, user) => {
                 )
               : null,
             medicalRecordNumber: patient.medical_record_number,
-            allergies: patient.allergies,
+            allergies: describeAllergies(patient.allergies),
             medicalHistory: patient.medical_history,
             emergencyContact: patient.emergency_contact,
             prescriptionsCount: prescriptionCount,
@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { withPharmacistAuth } from "@/lib/utils/api-middleware";
 import { connectToDatabase } from "@/lib/database/connection";
 import { Models } from "@/lib/database/models";
+import {
+  getUserPreferences,
+  updateUserPreferences,
+  PreferencesValidationError,
+} from "@/lib/utils/user-preferences";
 
 // GET /api/pharmacists/settings - Get pharmacist settings
 export const GET = withPharmacistAuth(async (request, user) => {
@@ -21,10 +26,7 @@ export const GET = withPharmacistAuth(async (request, user) => {
 
     const settings = {
       shiftHours: pharmacist.shift_hours || {},
-      notifications: {
-        emailNotifications: true,
-        smsNotifications: false,
-      },
+      ...(await getUserPreferences(user.id, "pharmacist")),
     };
 
     return NextResponse.json({
@@ -54,13 +56,24 @@ export const PUT = withPharmacistAuth(async (request, user) => {
       updates.shift_hours = body.shiftHours;
     }
 
-    if (Object.keys(updates).length === 0) {
+    const hasPreferences = ["notifications", "privacy", "security"].some(
+      (section) => body[section] !== undefined
+    );
+
+    if (Object.keys(updates).length === 0 && !hasPreferences) {
       return NextResponse.json(
         { success: false, message: "No valid settings to update" },
         { status: 400 }
       );
     }
 
+    // Validated first so an invalid preference leaves nothing half-saved
+    const preferences = await updateUserPreferences(
+      user.id,
+      "pharmacist",
+      body
+    );
+
     const updatedPharmacist = await Models.Pharmacist.findOneAndUpdate(
       { user_id: user.id },
       { $set: updates },
@@ -78,10 +91,7 @@ export const PUT = withPharmacistAuth(async (request, user) => {
 
     const settings = {
       shiftHours: updatedPharmacist.shift_hours || {},
-      notifications: {
-        emailNotifications: true,
-        smsNotifications: false,
-      },
+      ...preferences,
     };
 
     return NextResponse.json({
@@ -90,6 +100,13 @@ export const PUT = withPharmacistAuth(async (request, user) => {
       settings,
     });
   } catch (error) {
+    if (error instanceof PreferencesValidationError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error("Error updating pharmacist settings:", error);
     return NextResponse.json(
       { success: false, message: "Failed to update settings" },
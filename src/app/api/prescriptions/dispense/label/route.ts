@@ -0,0 +1,153 @@
+/**
+ * API Route: Dispensing Label
+ * GET /api/prescriptions/dispense/label?prescriptionId=...&fillId=...
+ * Printable PDF label for one fill of a prescription, with a QR code that
+ * opens the public verification page. Without fillId the latest fill is
+ * used. Only pharmacists at the pharmacy that dispensed the fill may print it.
+ */
+
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { withPharmacistAuth } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import {
+  DrugModel,
+  InventoryTransactionModel,
+  PharmacyModel,
+  PrescriptionModel,
+} from "@/lib/database/models";
+import { formatDrugLabel, getPrescribedDrug } from "@/lib/utils/formulary";
+import {
+  resolvePharmacyScope,
+  isDrugInScope,
+  PharmacyScopeError,
+} from "@/lib/utils/pharmacy-scope";
+import {
+  generateVerificationHash,
+  renderDispenseLabel,
+} from "@/lib/utils/dispense-labels";
+
+export const GET = withPharmacistAuth(async (request, user) => {
+  try {
+    await connectToDatabase();
+
+    const { searchParams } = new URL(request.url);
+    const prescriptionId = searchParams.get("prescriptionId");
+    const fillId = searchParams.get("fillId");
+
+    if (
+      !prescriptionId ||
+      !mongoose.Types.ObjectId.isValid(prescriptionId) ||
+      (fillId && !mongoose.Types.ObjectId.isValid(fillId))
+    ) {
+      return NextResponse.json(
+        { success: false, error: "A valid prescription ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolvePharmacyScope({ id: user.id, role: user.role });
+
+    const prescription: any = await PrescriptionModel.findById(prescriptionId)
+      .populate("formulary_id", "name strength dosage_form")
+      .populate("drug_id", "name strength dosage_form")
+      .lean();
+    const fills: any[] = prescription?.fills || [];
+    const fill = fillId
+      ? fills.find((f) => f._id.toString() === fillId)
+      : fills[fills.length - 1];
+
+    if (!fill) {
+      return NextResponse.json(
+        { success: false, error: "Dispensing not found" },
+        { status: 404 }
+      );
+    }
+
+    // The fill's stock entry tells which pharmacy dispensed it
+    const transaction: any = fill.inventory_transaction_id
+      ? await InventoryTransactionModel.findById(fill.inventory_transaction_id)
+          .select("drug_id lots")
+          .lean()
+      : null;
+    const drug: any = transaction
+      ? await DrugModel.findById(transaction.drug_id)
+          .select("pharmacy_id")
+          .lean()
+      : null;
+
+    if (!drug || !isDrugInScope(drug, scope)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "This prescription was not dispensed at your pharmacy",
+        },
+        { status: 403 }
+      );
+    }
+
+    // Fills dispensed before labels existed get their hash when first printed
+    let verificationHash = fill.verification_hash;
+    if (!verificationHash) {
+      await PrescriptionModel.updateOne(
+        {
+          _id: prescription._id,
+          fills: {
+            $elemMatch: {
+              _id: fill._id,
+              verification_hash: { $exists: false },
+            },
+          },
+        },
+        { $set: { "fills.$.verification_hash": generateVerificationHash() } }
+      );
+      const updated: any = await PrescriptionModel.findOne(
+        { _id: prescription._id },
+        { fills: { $elemMatch: { _id: fill._id } } }
+      ).lean();
+      verificationHash = updated?.fills?.[0]?.verification_hash;
+    }
+
+    const pharmacy: any = drug.pharmacy_id
+      ? await PharmacyModel.findById(drug.pharmacy_id)
+          .select("name address city state zip_code phone")
+          .lean()
+      : null;
+
+    const pdf = await renderDispenseLabel({
+      drugName: formatDrugLabel(getPrescribedDrug(prescription)),
+      quantity: fill.quantity,
+      dosageInstructions: prescription.dosage_instructions,
+      frequency: prescription.frequency,
+      duration: prescription.duration,
+      pharmacy,
+      lots: transaction.lots || [],
+      dispensedAt: fill.dispensed_at,
+      verificationHash,
+    });
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="label-${prescription._id}-${fill._id}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof PharmacyScopeError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error generating dispensing label:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || "Failed to generate label",
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -1,10 +1,60 @@
 import { NextRequest, NextResponse } from "next/server";
 import { DatabaseManager } from "@/lib/database/connection";
+import { getAuthUser } from "@/lib/utils/auth-helper";
 import mongoose from "mongoose";
-import { blockchainService } from "@/lib/services/BlockchainService";
-import jwt from "jsonwebtoken";
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+import {
+  blockchainService,
+  BlockchainTransaction,
+} from "@/lib/services/BlockchainService";
+import { notificationService } from "@/lib/services/NotificationService";
+import {
+  getIdempotencyKey,
+  isValidIdempotencyKey,
+  hashRequestPayload,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from "@/lib/utils/idempotency";
+import {
+  resolvePharmacyScope,
+  pharmacyFilter,
+  isDrugInScope,
+  PharmacyScopeError,
+} from "@/lib/utils/pharmacy-scope";
+import {
+  allocateFefo,
+  buildLotDecrement,
+  getDispensableQuantity,
+  getRecalledQuantity,
+  legacyLotUpdate,
+  LotAllocation,
+  summarizeLots,
+} from "@/lib/utils/lots";
+import { getPrescribedDrug } from "@/lib/utils/formulary";
+import {
+  screenMedications,
+  requiresOverride,
+  recordScreeningOverride,
+  ScreeningWarning,
+} from "@/lib/utils/screening";
+import { refreshHeaderStatus } from "@/lib/utils/prescription-headers";
+import {
+  assertVerifiedProfessional,
+  VerificationError,
+} from "@/lib/utils/professional-verification";
+import {
+  assertPatientAccess,
+  PatientAccessError,
+} from "@/lib/utils/patient-access";
+import {
+  assertRecentStepUp,
+  isControlledDrug,
+  TwoFactorError,
+} from "@/lib/utils/two-factor";
+import {
+  buildVerificationUrl,
+  generateVerificationHash,
+} from "@/lib/utils/dispense-labels";
 
 // Get models
 const getPrescriptionModel = () => {
@@ -31,37 +81,125 @@ const getInventoryTransactionModel = () => {
   );
 };
 
-// Verify JWT token
-function verifyToken(request: NextRequest) {
-  const token =
-    request.headers.get("authorization")?.replace("Bearer ", "") ||
-    request.cookies.get("token")?.value;
+const DISPENSABLE_STATUSES = ["pending", "verified", "partially_dispensed"];
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Business-rule failure raised inside the dispense transaction to abort it
+class DispenseError extends Error {
+  constructor(
+    public status: number,
+    public body: Record<string, any>
+  ) {
+    super(body.error);
+    Object.setPrototypeOf(this, DispenseError.prototype);
+  }
+}
 
-  if (!token) return null;
+// Response for a committed dispense. The blockchain transaction is null
+// until the dispense has been recorded on the ledger.
+function buildDispenseResponse(
+  outcome: {
+    prescription: any;
+    drug: any;
+    inventoryTransaction: any;
+    lots: LotAllocation[];
+  },
+  quantityDispensed: number,
+  screening: ScreeningWarning[],
+  blockchainTx: BlockchainTransaction | null
+) {
+  const { prescription, drug, inventoryTransaction, lots } = outcome;
+  const newQuantity = drug.stock_quantity;
+  const previousQuantity = newQuantity + quantityDispensed;
+  const remainingQuantity =
+    prescription.quantity_prescribed - prescription.quantity_dispensed;
+  const fill = prescription.fills.find(
+    (f: any) =>
+      f.inventory_transaction_id?.toString() ===
+      inventoryTransaction._id.toString()
+  );
 
-  try {
-    return jwt.verify(token, JWT_SECRET) as any;
-  } catch (error) {
-    return null;
-  }
+  // Check if stock is now low
+  const lowStockAlert =
+    newQuantity <= drug.minimum_stock_level
+      ? {
+          type: "low_stock",
+          drug: drug.name,
+          currentStock: newQuantity,
+          minimumLevel: drug.minimum_stock_level,
+        }
+      : null;
+
+  return {
+    success: true,
+    data: {
+      prescription: prescription.toObject(),
+      drug: {
+        _id: drug._id,
+        name: drug.name,
+        previousStock: previousQuantity,
+        newStock: newQuantity,
+        minimumLevel: drug.minimum_stock_level,
+      },
+      lots,
+      label: fill
+        ? {
+            fillId: fill._id,
+            verificationUrl: buildVerificationUrl(fill.verification_hash),
+          }
+        : null,
+      blockchainTransaction: blockchainTx
+        ? {
+            transactionId: blockchainTx.transactionId,
+            hash: blockchainTx.hash,
+            timestamp: blockchainTx.timestamp,
+          }
+        : null,
+      remainingQuantity,
+      lowStockAlert,
+      screening,
+    },
+    message:
+      remainingQuantity > 0
+        ? `Partially dispensed ${quantityDispensed} unit(s); ${remainingQuantity} remaining`
+        : "Prescription dispensed successfully with automatic stock deduction",
+  };
 }
 
 // POST: Dispense prescription with automatic stock deduction
+// Stock is taken from the drug's lots first-expiry-first-out, possibly
+// across several lots. Stock, prescription status and the inventory
+// transaction are written in a single MongoDB transaction. A prescription may be filled over several
+// dispenses until its prescribed quantity is used up. Clients may send an Idempotency-Key header so
+// that retries of the same dispense are replayed instead of re-executed.
 export async function POST(request: NextRequest) {
+  let claimedKey: string | null = null;
+  let userId: string | null = null;
+
   try {
     await DatabaseManager.getInstance().ensureConnection();
 
     // Verify authentication
-    const user = verifyToken(request);
+    const user = await getAuthUser(request);
     if (!user || user.role !== "pharmacist") {
       return NextResponse.json(
         { error: "Unauthorized. Pharmacist access required." },
         { status: 403 }
       );
     }
+    userId = user.id;
+
+    // Only pharmacists whose license an admin has approved may dispense
+    await assertVerifiedProfessional({ id: user.id, role: user.role });
+
+    // Pharmacists dispense only from their own pharmacy's stock
+    const scope = await resolvePharmacyScope({
+      id: user.id,
+      role: user.role,
+    });
 
     const body = await request.json();
-    const { prescriptionId, quantityDispensed, notes } = body;
+    const { prescriptionId, quantityDispensed, notes, overrideReason } = body;
 
     if (!prescriptionId || !quantityDispensed) {
       return NextResponse.json(
@@ -70,153 +208,499 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const PrescriptionModel = getPrescriptionModel();
-    const DrugModel = getDrugModel();
-    const InventoryTransactionModel = getInventoryTransactionModel();
-
-    // Get prescription
-    const prescription = await PrescriptionModel.findById(prescriptionId)
-      .populate("drug_id")
-      .populate("patient_id");
-
-    if (!prescription) {
+    if (!Number.isInteger(quantityDispensed) || quantityDispensed <= 0) {
       return NextResponse.json(
-        { error: "Prescription not found" },
-        { status: 404 }
-      );
-    }
-
-    if (prescription.status === "dispensed") {
-      return NextResponse.json(
-        { error: "Prescription already dispensed" },
+        { error: "Quantity must be a positive whole number" },
         { status: 400 }
       );
     }
 
-    // Allow both pending and verified prescriptions to be dispensed
-    if (
-      prescription.status !== "verified" &&
-      prescription.status !== "pending"
-    ) {
-      return NextResponse.json(
-        { error: "Prescription must be verified or pending before dispensing" },
-        { status: 400 }
+    // Replay protection comes first, so a retry of a completed dispense is
+    // replayed rather than screened and checked again
+    const idempotencyKey = getIdempotencyKey(request, body);
+    if (idempotencyKey) {
+      if (!isValidIdempotencyKey(idempotencyKey)) {
+        return NextResponse.json(
+          {
+            error:
+              "Idempotency-Key must be 8-128 characters of letters, digits, '-' or '_'",
+          },
+          { status: 400 }
+        );
+      }
+
+      const claim = await claimIdempotencyKey(
+        idempotencyKey,
+        user.id,
+        "dispense",
+        hashRequestPayload({ prescriptionId, quantityDispensed, notes })
       );
+
+      if (claim.state === "mismatch") {
+        return NextResponse.json(
+          {
+            error:
+              "Idempotency-Key was already used for a different dispense request",
+          },
+          { status: 422 }
+        );
+      }
+
+      if (claim.state === "in_progress") {
+        return NextResponse.json(
+          {
+            error: "A dispense with this Idempotency-Key is still in progress",
+          },
+          { status: 409 }
+        );
+      }
+
+      if (claim.state === "replay") {
+        return NextResponse.json(claim.body, {
+          status: claim.status,
+          headers: { "Idempotent-Replayed": "true" },
+        });
+      }
+
+      claimedKey = idempotencyKey;
     }
 
-    // Get drug
-    const drug = await DrugModel.findById(
-      prescription.drug_id._id || prescription.drug_id
-    );
+    const PrescriptionModel = getPrescriptionModel();
+    const DrugModel = getDrugModel();
+    const InventoryTransactionModel = getInventoryTransactionModel();
 
-    if (!drug) {
-      return NextResponse.json(
-        { error: "Drug not found in inventory" },
-        { status: 404 }
+    // Screen again at the counter: allergies and other medication may have
+    // changed since the prescription was written
+    let screening: ScreeningWarning[] = [];
+    const toScreen = mongoose.Types.ObjectId.isValid(prescriptionId)
+      ? await PrescriptionModel.findById(prescriptionId)
+          .populate("formulary_id")
+          .populate("drug_id")
+          .lean()
+      : null;
+    if (toScreen) {
+      // The patient must have granted this pharmacy access
+      await assertPatientAccess(
+        { id: user.id, role: user.role },
+        (toScreen as any).patient_id
       );
-    }
 
-    // Check if enough stock available
-    if (drug.stock_quantity < quantityDispensed) {
-      return NextResponse.json(
-        {
-          error: "Insufficient stock",
-          available: drug.stock_quantity,
-          requested: quantityDispensed,
-        },
-        { status: 400 }
+      // Controlled substances need a fresh second-factor code
+      if (isControlledDrug(getPrescribedDrug(toScreen))) {
+        await assertRecentStepUp(user);
+      }
+
+      [screening] = await screenMedications(
+        (toScreen as any).patient_id,
+        [getPrescribedDrug(toScreen)],
+        { excludePrescriptionIds: [prescriptionId] }
       );
+
+      if (requiresOverride(screening) && !overrideReason?.trim()) {
+        throw new DispenseError(409, {
+          error:
+            "Severe screening warnings must be overridden with a reason before dispensing",
+          screening,
+        });
+      }
     }
 
-    // Check if drug is expired
-    if (new Date(drug.expiry_date) < new Date()) {
-      return NextResponse.json(
-        { error: "Cannot dispense expired drug" },
-        { status: 400 }
-      );
+    const session = await mongoose.startSession();
+    let outcome;
+
+    try {
+      outcome = await session.withTransaction(async () => {
+        // Get prescription
+        const prescription =
+          await PrescriptionModel.findById(prescriptionId).session(session);
+
+        if (!prescription) {
+          throw new DispenseError(404, { error: "Prescription not found" });
+        }
+
+        if (prescription.status === "dispensed") {
+          throw new DispenseError(400, {
+            error:
+              (prescription.refills_used || 0) <
+              (prescription.refills_authorized || 0)
+                ? "Prescription already dispensed. A refill must be approved by the prescriber first"
+                : "Prescription already dispensed",
+          });
+        }
+
+        // Pending, verified and partially dispensed prescriptions can be filled
+        if (!DISPENSABLE_STATUSES.includes(prescription.status)) {
+          throw new DispenseError(400, {
+            error: "Prescription must be verified or pending before dispensing",
+          });
+        }
+
+        if (
+          prescription.pharmacy_id &&
+          prescription.pharmacy_id.toString() !== scope.pharmacyId
+        ) {
+          throw new DispenseError(403, {
+            error: "This prescription is assigned to another pharmacy",
+          });
+        }
+
+        // Refill cycles are gated by the prescriber's authorization
+        const refillsUsed = prescription.refills_used || 0;
+        if (refillsUsed > (prescription.refills_authorized || 0)) {
+          throw new DispenseError(400, {
+            error: "No refills remaining on this prescription",
+          });
+        }
+
+        const dispensedAt = new Date();
+        if (
+          prescription.next_fill_date &&
+          new Date(prescription.next_fill_date) > dispensedAt
+        ) {
+          throw new DispenseError(400, {
+            error: `Refill is not due until ${new Date(
+              prescription.next_fill_date
+            ).toLocaleDateString()}`,
+            nextFillDate: prescription.next_fill_date,
+          });
+        }
+
+        const alreadyDispensed = prescription.quantity_dispensed || 0;
+        const remaining = prescription.quantity_prescribed - alreadyDispensed;
+
+        if (quantityDispensed > remaining) {
+          throw new DispenseError(400, {
+            error: `Only ${remaining} unit(s) remain to be dispensed on this prescription`,
+            prescribed: prescription.quantity_prescribed,
+            dispensed: alreadyDispensed,
+            remaining,
+            requested: quantityDispensed,
+          });
+        }
+
+        // Stock is this pharmacy's entry for the prescribed formulary item;
+        // prescriptions written before the formulary name the drug directly
+        let drug = prescription.formulary_id
+          ? await DrugModel.findOne({
+              ...pharmacyFilter(scope),
+              formulary_id: prescription.formulary_id,
+            }).session(session)
+          : await DrugModel.findById(prescription.drug_id).session(session);
+
+        if (!drug) {
+          throw new DispenseError(404, {
+            error: prescription.formulary_id
+              ? "The prescribed drug is not stocked at your pharmacy"
+              : "Drug not found in inventory",
+          });
+        }
+
+        if (!isDrugInScope(drug, scope)) {
+          throw new DispenseError(403, {
+            error: "This drug is not stocked at your pharmacy",
+          });
+        }
+
+        // Stock recorded before lot tracking becomes a single lot
+        const lotConversion = legacyLotUpdate(drug);
+        if (lotConversion) {
+          drug = await DrugModel.findByIdAndUpdate(drug._id, lotConversion, {
+            new: true,
+            session,
+          });
+        }
+
+        // Expired lots and lots frozen by a recall are never dispensed
+        const allocation = allocateFefo(drug, quantityDispensed);
+        if (!allocation) {
+          const available = getDispensableQuantity(drug);
+          const recalled = getRecalledQuantity(drug);
+          throw new DispenseError(400, {
+            error:
+              available === 0 && recalled > 0
+                ? "The remaining stock of this drug is under recall and cannot be dispensed"
+                : available === 0 && drug.stock_quantity > 0
+                  ? "Cannot dispense expired drug"
+                  : "Insufficient stock",
+            available,
+            requested: quantityDispensed,
+          });
+        }
+
+        // Conditional decrement: only succeeds while every allocated lot
+        // still holds enough stock, so concurrent dispenses can never drive
+        // a lot below zero
+        const decrement = buildLotDecrement(drug._id, allocation);
+        const decremented = await DrugModel.findOneAndUpdate(
+          decrement.filter,
+          decrement.update,
+          { new: true, session, arrayFilters: decrement.arrayFilters }
+        );
+
+        if (!decremented) {
+          throw new DispenseError(400, {
+            error: "Insufficient stock",
+            available: drug.stock_quantity,
+            requested: quantityDispensed,
+          });
+        }
+
+        // The drug's batch and expiry follow the next lot to be dispensed
+        const updatedDrug = await DrugModel.findByIdAndUpdate(
+          drug._id,
+          { $set: summarizeLots(decremented) },
+          { new: true, session }
+        );
+
+        // Create inventory transaction record
+        const [inventoryTransaction] = await InventoryTransactionModel.create(
+          [
+            {
+              drug_id: drug._id,
+              transaction_type: "dispensed",
+              quantity: quantityDispensed,
+              prescription_id: prescription._id,
+              performed_by: user.id,
+              lots: allocation,
+              notes: notes || `Dispensed for prescription ${prescription._id}`,
+            },
+          ],
+          { session }
+        );
+
+        // Record the fill. The filter re-checks the remaining balance so a
+        // concurrent fill can never push the total past the prescribed amount.
+        const cycleComplete = quantityDispensed === remaining;
+        // Printed as a QR code on the label for this fill
+        const verificationHash = generateVerificationHash();
+        const refillsRemaining =
+          (prescription.refills_authorized || 0) - refillsUsed;
+        const updatedPrescription = await PrescriptionModel.findOneAndUpdate(
+          {
+            _id: prescription._id,
+            status: { $in: DISPENSABLE_STATUSES },
+            $expr: {
+              $lte: [
+                {
+                  $add: [
+                    { $ifNull: ["$quantity_dispensed", 0] },
+                    quantityDispensed,
+                  ],
+                },
+                "$quantity_prescribed",
+              ],
+            },
+          },
+          {
+            $inc: { quantity_dispensed: quantityDispensed },
+            $set: {
+              status: cycleComplete ? "dispensed" : "partially_dispensed",
+              date_dispensed: dispensedAt,
+              // Earliest date the next refill cycle may be dispensed
+              ...(cycleComplete && refillsRemaining > 0
+                ? {
+                    next_fill_date: new Date(
+                      dispensedAt.getTime() +
+                        (prescription.refill_interval_days || 0) * DAY_IN_MS
+                    ),
+                  }
+                : {}),
+              pharmacist_id: user.id,
+              pharmacy_id: scope.pharmacyId,
+              // Stock entry the prescription was filled from
+              drug_id: drug._id,
+              ...(notes ? { notes } : {}),
+            },
+            $push: {
+              fills: {
+                quantity: quantityDispensed,
+                dispensed_at: dispensedAt,
+                pharmacist_id: user.id,
+                inventory_transaction_id: inventoryTransaction._id,
+                refill_number: refillsUsed,
+                verification_hash: verificationHash,
+                ...(notes ? { notes } : {}),
+              },
+            },
+          },
+          { new: true, session }
+        );
+
+        if (!updatedPrescription) {
+          throw new DispenseError(409, {
+            error: "Prescription was dispensed by another request",
+          });
+        }
+
+        // The header's status follows its lines
+        await refreshHeaderStatus(updatedPrescription.header_id, session);
+
+        if (requiresOverride(screening)) {
+          await recordScreeningOverride(
+            prescription._id,
+            user.id,
+            "dispensing",
+            screening,
+            overrideReason.trim(),
+            session
+          );
+        }
+
+        const committed = {
+          prescription: updatedPrescription,
+          drug: updatedDrug,
+          inventoryTransaction,
+          lots: allocation,
+        };
+
+        // The key completes with the dispense, so a retry after a crash
+        // below is replayed rather than dispensed again
+        if (claimedKey) {
+          await completeIdempotencyKey(
+            claimedKey,
+            user.id,
+            "dispense",
+            {
+              status: 200,
+              body: JSON.parse(
+                JSON.stringify(
+                  buildDispenseResponse(
+                    committed,
+                    quantityDispensed,
+                    screening,
+                    null
+                  )
+                )
+              ),
+            },
+            session
+          );
+        }
+
+        return committed;
+      });
+    } finally {
+      await session.endSession();
     }
 
-    const previousQuantity = drug.stock_quantity;
-    const newQuantity = previousQuantity - quantityDispensed;
+    const { prescription, drug, inventoryTransaction, lots } = outcome;
+    const newQuantity = drug.stock_quantity;
+    const previousQuantity = newQuantity + quantityDispensed;
 
-    // Record in blockchain
-    const blockchainTx = blockchainService.recordDispensing(
+    // Record in blockchain once the dispense has committed, then link the
+    // resulting hash back onto the records it covers
+    const blockchainTx = await blockchainService.recordDispensing(
       drug._id.toString(),
       drug.name,
       quantityDispensed,
       previousQuantity,
-      user.userId,
+      user.id,
       user.role,
       prescription._id.toString(),
       notes || `Dispensed for prescription ${prescription._id}`
     );
 
-    // Update drug stock
-    drug.stock_quantity = newQuantity;
-    drug.blockchain_hash = blockchainTx.hash;
-    await drug.save();
-
-    // Update prescription
-    prescription.quantity_dispensed = quantityDispensed;
-    prescription.status = "dispensed";
-    prescription.date_dispensed = new Date();
-    prescription.pharmacist_id = user.userId;
+    await Promise.all([
+      DrugModel.updateOne(
+        { _id: drug._id },
+        { $set: { blockchain_hash: blockchainTx.hash } }
+      ),
+      PrescriptionModel.updateOne(
+        {
+          _id: prescription._id,
+          "fills.inventory_transaction_id": inventoryTransaction._id,
+        },
+        {
+          $set: {
+            blockchain_hash: blockchainTx.hash,
+            "fills.$.blockchain_hash": blockchainTx.hash,
+          },
+        }
+      ),
+      InventoryTransactionModel.updateOne(
+        { _id: inventoryTransaction._id },
+        { $set: { blockchain_transaction_hash: blockchainTx.hash } }
+      ),
+    ]);
     prescription.blockchain_hash = blockchainTx.hash;
-    if (notes) {
-      prescription.notes = notes;
+    const fill = prescription.fills.find(
+      (f: any) =>
+        f.inventory_transaction_id?.toString() ===
+        inventoryTransaction._id.toString()
+    );
+    if (fill) {
+      fill.blockchain_hash = blockchainTx.hash;
     }
-    await prescription.save();
-
-    // Create inventory transaction record
-    await InventoryTransactionModel.create({
-      drug_id: drug._id,
-      transaction_type: "dispensed",
-      quantity: quantityDispensed,
-      prescription_id: prescription._id,
-      performed_by: user.userId,
-      blockchain_transaction_hash: blockchainTx.hash,
-      notes: notes || `Dispensed for prescription ${prescription._id}`,
-    });
+
+    const responseBody = buildDispenseResponse(
+      outcome,
+      quantityDispensed,
+      screening,
+      blockchainTx
+    );
+    const { remainingQuantity, lowStockAlert } = responseBody.data;
 
     console.log(`✅ Prescription dispensed: ${prescription._id}`);
     console.log(`   Drug: ${drug.name}`);
-    console.log(`   Quantity: ${quantityDispensed}`);
+    console.log(
+      `   Quantity: ${quantityDispensed} (remaining: ${remainingQuantity})`
+    );
+    console.log(
+      `   Lots: ${lots.map((l) => `${l.batch_number} x${l.quantity}`).join(", ")}`
+    );
     console.log(`   New stock: ${newQuantity}`);
     console.log(`   Blockchain hash: ${blockchainTx.hash.substring(0, 16)}...`);
 
-    // Check if stock is now low
-    let lowStockAlert = null;
-    if (newQuantity <= drug.minimum_stock_level) {
-      lowStockAlert = {
-        type: "low_stock",
-        drug: drug.name,
-        currentStock: newQuantity,
-        minimumLevel: drug.minimum_stock_level,
-      };
+    await notificationService.prescriptionDispensed(
+      prescription,
+      drug,
+      quantityDispensed,
+      remainingQuantity
+    );
+    if (lowStockAlert) {
+      await notificationService.lowStock(drug);
     }
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        prescription,
-        drug: {
-          _id: drug._id,
-          name: drug.name,
-          previousStock: previousQuantity,
-          newStock: newQuantity,
-          minimumLevel: drug.minimum_stock_level,
-        },
-        blockchainTransaction: {
-          transactionId: blockchainTx.transactionId,
-          hash: blockchainTx.hash,
-          timestamp: blockchainTx.timestamp,
-        },
-        lowStockAlert,
-      },
-      message:
-        "Prescription dispensed successfully with automatic stock deduction",
-    });
+    // Replays now also carry the blockchain transaction
+    if (claimedKey) {
+      await completeIdempotencyKey(claimedKey, user.id, "dispense", {
+        status: 200,
+        body: JSON.parse(JSON.stringify(responseBody)),
+      });
+    }
+
+    return NextResponse.json(responseBody);
   } catch (error: any) {
+    // Only keys still in progress are released: a committed dispense keeps
+    // its key so a retry is replayed rather than dispensed again
+    if (claimedKey && userId) {
+      await releaseIdempotencyKey(claimedKey, userId, "dispense").catch(
+        () => undefined
+      );
+    }
+
+    if (error instanceof DispenseError) {
+      return NextResponse.json(error.body, { status: error.status });
+    }
+
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    if (
+      error instanceof PharmacyScopeError ||
+      error instanceof VerificationError ||
+      error instanceof PatientAccessError
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error("Error dispensing prescription:", error);
     return NextResponse.json(
       { error: "Failed to dispense prescription", details: error.message },
@@ -225,25 +709,51 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET: Get dispensing history
+// GET: Get dispensing history for the caller's pharmacy. Admins and
+// auditors see every pharmacy unless they pass ?pharmacyId=
 export async function GET(request: NextRequest) {
   try {
     await DatabaseManager.getInstance().ensureConnection();
 
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
     const { searchParams } = new URL(request.url);
     const prescriptionId = searchParams.get("prescriptionId");
     const drugId = searchParams.get("drugId");
+    const scope = await resolvePharmacyScope(
+      { id: user.id, role: user.role },
+      searchParams.get("pharmacyId")
+    );
 
     const InventoryTransactionModel = getInventoryTransactionModel();
 
     let query: any = { transaction_type: "dispensed" };
 
+    if (scope.pharmacyId) {
+      const scopedDrugs = await getDrugModel()
+        .find(pharmacyFilter(scope))
+        .select("_id");
+      query.drug_id = { $in: scopedDrugs.map((d: any) => d._id) };
+    }
+
     if (prescriptionId) {
       query.prescription_id = prescriptionId;
     }
 
     if (drugId) {
-      query.drug_id = drugId;
+      query.drug_id = query.drug_id
+        ? {
+            $in: query.drug_id.$in.filter(
+              (id: any) => id.toString() === drugId
+            ),
+          }
+        : drugId;
     }
 
     const transactions = await InventoryTransactionModel.find(query)
@@ -259,6 +769,13 @@ export async function GET(request: NextRequest) {
       count: transactions.length,
     });
   } catch (error: any) {
+    if (error instanceof PharmacyScopeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error("Error fetching dispensing history:", error);
     return NextResponse.json(
       { error: "Failed to fetch dispensing history", details: error.message },
@@ -1,22 +1,89 @@
 import { NextResponse } from "next/server";
 import { withDoctorAuth } from "@/lib/utils/api-middleware";
 import { connectToDatabase } from "@/lib/database/connection";
+import mongoose from "mongoose";
+import { isAddress } from "viem";
 import {
   PrescriptionModel,
+  PrescriptionHeaderModel,
   DoctorModel,
   PatientModel,
-  DrugModel,
   UserModel,
 } from "@/lib/database/models";
 import { blockchainService } from "@/lib/services/BlockchainService";
+import { contractService } from "@/lib/blockchain/ContractService";
+import { notificationService } from "@/lib/services/NotificationService";
+import { CONTRACT_ADDRESSES } from "@/lib/blockchain/contracts";
+import { formatRefillInfo } from "@/lib/utils/refills";
+import {
+  findActiveFormularyItems,
+  formatDrugLabel,
+  getPrescribedDrug,
+} from "@/lib/utils/formulary";
+import {
+  screenMedications,
+  requiresOverride,
+  recordScreeningOverride,
+} from "@/lib/utils/screening";
+import { describeAllergies } from "@/lib/utils/allergies";
+import { isAcceptingNewPatients } from "@/lib/utils/user-preferences";
+import {
+  normalizeDiagnosisCodes,
+  computeHeaderSignature,
+  formatPrescriptionNumber,
+  formatHeaderSummary,
+} from "@/lib/utils/prescription-headers";
+import {
+  assertVerifiedProfessional,
+  VerificationError,
+} from "@/lib/utils/professional-verification";
+import {
+  assertPatientAccess,
+  findAccessiblePatientIds,
+  PatientAccessError,
+} from "@/lib/utils/patient-access";
+import {
+  assertRecentStepUp,
+  isControlledDrug,
+  TwoFactorError,
+} from "@/lib/utils/two-factor";
+
+const MAX_REFILLS = 12;
+const MAX_REFILL_INTERVAL_DAYS = 365;
+
+const isWholeNumberInRange = (value: unknown, max: number) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max;
 
 export const POST = withDoctorAuth(async (request, user) => {
   try {
     await connectToDatabase();
 
+    // Only doctors whose license an admin has approved may prescribe
+    await assertVerifiedProfessional(user);
+
     const body = await request.json();
     const { patientId, medications, diagnosis, notes } = body;
 
+    if (typeof diagnosis !== "string" || !diagnosis.trim()) {
+      return NextResponse.json(
+        { success: false, error: "Diagnosis is required" },
+        { status: 400 }
+      );
+    }
+
+    const { codes: diagnosisCodes, invalid: invalidCodes } =
+      normalizeDiagnosisCodes(body.diagnosisCodes);
+    if (invalidCodes.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Diagnosis codes must be valid ICD-10 codes, e.g. J02.9",
+          diagnosisCodes: invalidCodes,
+        },
+        { status: 400 }
+      );
+    }
+
     // Find the doctor record
     const doctor = await DoctorModel.findOne({ user_id: user.id }).populate(
       "user_id"
@@ -45,6 +112,28 @@ export const POST = withDoctorAuth(async (request, user) => {
       );
     }
 
+    // The patient must have granted this doctor access, or the doctor must
+    // be within an emergency access window
+    await assertPatientAccess(user, patient._id);
+
+    // Doctors who closed their list only prescribe to patients they treat
+    if (
+      !(await isAcceptingNewPatients(user.id)) &&
+      !(await PrescriptionModel.exists({
+        doctor_id: doctor._id,
+        patient_id: patient._id,
+      }))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "You are not accepting new patients. Turn on 'Accept New Patients' in settings to prescribe to this patient",
+        },
+        { status: 403 }
+      );
+    }
+
     // Get patient and doctor names
     const patientUser = patient.user_id as any;
     const doctorUser = doctor.user_id as any;
@@ -52,93 +141,319 @@ export const POST = withDoctorAuth(async (request, user) => {
     const doctorName =
       doctorUser?.username || user.username || "Unknown Doctor";
 
-    // Create prescriptions for each medication
-    const createdPrescriptions = [];
-    const blockchainRecords = [];
+    if (!Array.isArray(medications) || medications.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "At least one medication is required" },
+        { status: 400 }
+      );
+    }
 
+    // Medications must be chosen from the formulary; unknown drugs are
+    // rejected rather than created
+    if (medications.some((m: any) => !m.formularyId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Each medication must be selected from the formulary",
+        },
+        { status: 400 }
+      );
+    }
+
+    const { items: formularyItems, missing } = await findActiveFormularyItems(
+      medications.map((m: any) => String(m.formularyId))
+    );
+    if (missing.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Unknown or withdrawn formulary items",
+          formularyIds: missing,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Controlled substances need a fresh second-factor code
+    if (
+      medications.some((m: any) =>
+        isControlledDrug(formularyItems.get(String(m.formularyId)))
+      )
+    ) {
+      await assertRecentStepUp(user);
+    }
+
+    // Validate refill authorizations before creating anything
     for (const medication of medications) {
-      // Find or create drug record
-      let drug = await DrugModel.findOne({ name: medication.drugName });
-
-      if (!drug) {
-        // Create new drug if it doesn't exist
-        // Set expiry date to 2 years from now by default
-        const expiryDate = new Date();
-        expiryDate.setFullYear(expiryDate.getFullYear() + 2);
-
-        drug = await DrugModel.create({
-          name: medication.drugName,
-          strength: medication.dosage,
-          dosage_form: "tablet", // Default form (required field)
-          manufacturer: "Generic",
-          expiry_date: expiryDate, // Required field
-          description: `${medication.drugName} ${medication.dosage}`,
-          requires_prescription: true,
-          stock_quantity: 1000, // Changed from quantity_in_stock to match schema
-        });
+      if (
+        medication.refills !== undefined &&
+        !isWholeNumberInRange(medication.refills, MAX_REFILLS)
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Refills must be a whole number between 0 and ${MAX_REFILLS}`,
+          },
+          { status: 400 }
+        );
+      }
+      if (
+        medication.refillIntervalDays !== undefined &&
+        !isWholeNumberInRange(
+          medication.refillIntervalDays,
+          MAX_REFILL_INTERVAL_DAYS
+        )
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Refill interval must be between 0 and ${MAX_REFILL_INTERVAL_DAYS} days`,
+          },
+          { status: 400 }
+        );
       }
+    }
 
-      // Create prescription
-      const prescription = await PrescriptionModel.create({
-        patient_id: patient._id,
-        doctor_id: doctor._id,
-        drug_id: drug._id,
-        quantity_prescribed: medication.quantity || 30,
-        dosage_instructions:
-          medication.instructions ||
-          `${medication.frequency} for ${medication.duration}`,
-        frequency: medication.frequency,
-        duration: medication.duration,
-        date_issued: new Date(),
-        status: "pending", // Valid enum values: pending, verified, dispensed, rejected, expired
-        notes: `${diagnosis}${notes ? "\n\nNotes: " + notes : ""}`,
-      });
+    // Screen against the patient's allergies, history and current
+    // medication; severe warnings need the prescriber's reason to proceed
+    const screening = await screenMedications(
+      patient._id,
+      medications.map((m: any) => formularyItems.get(String(m.formularyId)))
+    );
+    const screeningResults = screening.map((warnings, index) => ({
+      index,
+      warnings,
+    }));
 
-      // Record prescription creation on blockchain
-      const blockchainTx = blockchainService.recordPrescriptionCreation(
-        prescription._id.toString(),
-        drug._id.toString(),
-        drug.name,
-        medication.quantity || 30,
-        doctorName,
-        patientName,
-        `${medication.frequency} for ${medication.duration}. Diagnosis: ${diagnosis}`
+    if (
+      screening.some(
+        (warnings, i) =>
+          requiresOverride(warnings) && !medications[i].overrideReason?.trim()
+      )
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "Severe screening warnings must be overridden with a reason before prescribing",
+          screening: screeningResults,
+        },
+        { status: 409 }
       );
+    }
 
-      // Update prescription with blockchain hash
-      prescription.blockchain_hash = blockchainTx.hash;
-      await prescription.save();
+    // Header for the visit; each medication becomes a line on it
+    const dateIssued = new Date();
+    const lines = medications.map((medication: any, index: number) => ({
+      line_number: index + 1,
+      formulary_id: formularyItems.get(String(medication.formularyId))._id,
+      quantity_prescribed: medication.quantity || 30,
+      dosage_instructions:
+        medication.instructions ||
+        `${medication.frequency} for ${medication.duration}`,
+      frequency: medication.frequency,
+      duration: medication.duration,
+      refills_authorized: medication.refills || 0,
+      refill_interval_days: medication.refillIntervalDays || 0,
+    }));
 
-      console.log(
-        `✅ Prescription created and recorded on blockchain: ${prescription._id}`
-      );
-      console.log(`   Patient Record ID: ${patient._id}`);
-      console.log(`   Patient User ID: ${patientId}`);
-      console.log(`   Patient: ${patientName}`);
-      console.log(`   Drug: ${drug.name}`);
-      console.log(
-        `   Blockchain hash: ${blockchainTx.hash.substring(0, 16)}...`
-      );
+    // The header, its lines and any screening overrides are written in a
+    // single MongoDB transaction so a failure never leaves a partial
+    // prescription behind
+    const session = await mongoose.startSession();
+    let outcome;
 
-      createdPrescriptions.push(prescription);
-      blockchainRecords.push({
-        prescriptionId: prescription._id.toString(),
-        blockchainHash: blockchainTx.hash,
-        transactionId: blockchainTx.transactionId,
+    try {
+      outcome = await session.withTransaction(async () => {
+        const [header] = await PrescriptionHeaderModel.create(
+          [
+            {
+              patient_id: patient._id,
+              doctor_id: doctor._id,
+              diagnosis: diagnosis.trim(),
+              diagnosis_codes: diagnosisCodes,
+              notes,
+              line_count: lines.length,
+              date_issued: dateIssued,
+              signature_hash: computeHeaderSignature(
+                {
+                  patient_id: patient._id,
+                  doctor_id: doctor._id,
+                  diagnosis: diagnosis.trim(),
+                  diagnosis_codes: diagnosisCodes,
+                  date_issued: dateIssued,
+                },
+                lines
+              ),
+            },
+          ],
+          { session }
+        );
+
+        const prescriptions = [];
+        for (let index = 0; index < lines.length; index++) {
+          // Create prescription line
+          const [prescription] = await PrescriptionModel.create(
+            [
+              {
+                ...lines[index],
+                header_id: header._id,
+                patient_id: patient._id,
+                doctor_id: doctor._id,
+                date_issued: dateIssued,
+                status: "pending", // Valid enum values: pending, verified, dispensed, rejected, expired
+              },
+            ],
+            { session }
+          );
+
+          if (requiresOverride(screening[index])) {
+            await recordScreeningOverride(
+              prescription._id,
+              user.id,
+              "prescribing",
+              screening[index],
+              medications[index].overrideReason.trim(),
+              session
+            );
+          }
+          prescriptions.push(prescription);
+        }
+
+        return { header, prescriptions };
       });
+    } finally {
+      await session.endSession();
+    }
+
+    const { header, prescriptions: createdPrescriptions } = outcome;
+    const headerNumber = formatPrescriptionNumber(header._id);
+    const blockchainRecords = [];
+
+    // Record each line on blockchain once the prescription has committed,
+    // then link the resulting hash back onto it
+    for (let index = 0; index < createdPrescriptions.length; index++) {
+      const prescription = createdPrescriptions[index];
+      const medication = medications[index];
+      const item = formularyItems.get(String(medication.formularyId));
+
+      try {
+        const blockchainTx = await blockchainService.recordPrescriptionCreation(
+          prescription._id.toString(),
+          item._id.toString(),
+          formatDrugLabel(item),
+          lines[index].quantity_prescribed,
+          doctorName,
+          patientName,
+          `${headerNumber} line ${index + 1}. ${medication.frequency} for ${medication.duration}`
+        );
+
+        await PrescriptionModel.updateOne(
+          { _id: prescription._id },
+          { $set: { blockchain_hash: blockchainTx.hash } }
+        );
+        prescription.blockchain_hash = blockchainTx.hash;
+
+        console.log(
+          `✅ Prescription line created and recorded on blockchain: ${prescription._id}`
+        );
+        console.log(`   Drug: ${item.code} ${formatDrugLabel(item)}`);
+        console.log(
+          `   Blockchain hash: ${blockchainTx.hash.substring(0, 16)}...`
+        );
+
+        blockchainRecords.push({
+          prescriptionId: prescription._id.toString(),
+          blockchainHash: blockchainTx.hash,
+          transactionId: blockchainTx.transactionId,
+        });
+      } catch (error) {
+        console.error(
+          `Failed to record prescription line ${prescription._id} on blockchain:`,
+          error
+        );
+      }
+    }
+
+    console.log(`✅ Prescription ${headerNumber} created: ${header._id}`);
+    console.log(`   Patient Record ID: ${patient._id}`);
+    console.log(`   Patient User ID: ${patientId}`);
+    console.log(`   Patient: ${patientName}`);
+    console.log(`   Lines: ${lines.length}`);
+
+    // Anchor the header on-chain when the contract is deployed and the
+    // patient has a wallet. The event sync fills in the on-chain fields if
+    // this request does not.
+    if (
+      CONTRACT_ADDRESSES.PRESCRIPTION &&
+      patientUser?.walletAddress &&
+      isAddress(patientUser.walletAddress)
+    ) {
+      try {
+        const { txHash, headerId } =
+          await contractService.createPrescriptionHeader(
+            patientUser.walletAddress,
+            `0x${header.signature_hash}`,
+            BigInt(lines.length)
+          );
+        header.onchain_tx_hash = txHash;
+        header.onchain_header_id = Number(headerId);
+        await PrescriptionHeaderModel.updateOne(
+          { _id: header._id },
+          {
+            $set: {
+              onchain_tx_hash: header.onchain_tx_hash,
+              onchain_header_id: header.onchain_header_id,
+            },
+          }
+        );
+      } catch (error) {
+        console.error(
+          `Failed to record prescription ${headerNumber} on-chain:`,
+          error
+        );
+      }
     }
 
+    await notificationService.prescriptionCreated(
+      patientUser?._id,
+      header,
+      doctorName,
+      lines.length
+    );
+
     return NextResponse.json({
       success: true,
-      message:
-        "Prescription(s) created successfully and recorded on blockchain",
-      prescriptions: createdPrescriptions.map((p) => ({
-        id: p._id.toString(),
-        prescriptionNumber: `RX${p._id.toString().slice(-8).toUpperCase()}`,
-      })),
+      message: "Prescription created successfully and recorded on blockchain",
+      prescription: {
+        ...formatHeaderSummary(header),
+        lines: createdPrescriptions.map((p) => ({
+          id: p._id.toString(),
+          lineNumber: p.line_number,
+          prescriptionNumber: formatPrescriptionNumber(p._id),
+        })),
+      },
       blockchain: blockchainRecords,
+      screening: screeningResults,
     });
   } catch (error) {
+    if (
+      error instanceof VerificationError ||
+      error instanceof PatientAccessError
+    ) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
     console.error("Error creating prescription:", error);
     return NextResponse.json(
       { success: false, error: "Failed to create prescription" },
@@ -164,14 +479,20 @@ export const GET = withDoctorAuth(async (request, user) => {
       );
     }
 
+    // Only prescriptions of patients who currently grant this doctor access
+    const patientIds = await findAccessiblePatientIds(user);
+
     // Fetch prescriptions with populated data
     const prescriptions = await PrescriptionModel.find({
       doctor_id: doctor._id,
+      patient_id: { $in: patientIds },
     })
       .populate({
         path: "patient_id",
         populate: { path: "user_id", model: "User" },
       })
+      .populate("header_id")
+      .populate("formulary_id")
       .populate("drug_id")
       .populate({
         path: "pharmacist_id",
@@ -183,15 +504,14 @@ export const GET = withDoctorAuth(async (request, user) => {
     // Format prescriptions for frontend
     const formattedPrescriptions = prescriptions.map((prescription: any) => {
       const patient = prescription.patient_id;
-      const drug = prescription.drug_id;
+      const drug = getPrescribedDrug(prescription);
       const pharmacist = prescription.pharmacist_id;
 
       return {
         id: prescription._id.toString(),
-        prescriptionNumber: `RX${prescription._id
-          .toString()
-          .slice(-8)
-          .toUpperCase()}`,
+        prescriptionNumber: formatPrescriptionNumber(prescription._id),
+        header: formatHeaderSummary(prescription.header_id),
+        lineNumber: prescription.line_number,
         medication: drug?.name || "Unknown",
         dosage: drug?.strength || "N/A",
         quantity: prescription.quantity_prescribed,
@@ -202,6 +522,7 @@ export const GET = withDoctorAuth(async (request, user) => {
         status: prescription.status,
         dateIssued: prescription.date_issued,
         dateDispensed: prescription.date_dispensed,
+        ...formatRefillInfo(prescription),
         patient: patient?.user_id
           ? {
               id: patient.user_id._id.toString(),
@@ -209,7 +530,7 @@ export const GET = withDoctorAuth(async (request, user) => {
               email: patient.user_id.email,
               phone: patient.contact_info?.phone,
               dateOfBirth: patient.date_of_birth,
-              allergies: patient.allergies,
+              allergies: describeAllergies(patient.allergies),
             }
           : null,
         pharmacist: pharmacist?.user_id
@@ -1,7 +1,13 @@
 import { NextResponse } from "next/server";
 import { withPatientAuth } from "@/lib/utils/api-middleware";
 import { connectToDatabase } from "@/lib/database/connection";
+import { formatRefillInfo } from "@/lib/utils/refills";
 import { PrescriptionModel, PatientModel } from "@/lib/database/models";
+import { getPrescribedDrug } from "@/lib/utils/formulary";
+import {
+  formatPrescriptionNumber,
+  formatHeaderSummary,
+} from "@/lib/utils/prescription-headers";
 
 export const GET = withPatientAuth(async (request, user) => {
   try {
@@ -34,6 +40,8 @@ export const GET = withPatientAuth(async (request, user) => {
         path: "doctor_id",
         populate: { path: "user_id", model: "User" },
       })
+      .populate("header_id")
+      .populate("formulary_id")
       .populate("drug_id")
       .populate({
         path: "pharmacist_id",
@@ -45,15 +53,14 @@ export const GET = withPatientAuth(async (request, user) => {
     // Format prescriptions for frontend
     const formattedPrescriptions = prescriptions.map((prescription: any) => {
       const doctor = prescription.doctor_id;
-      const drug = prescription.drug_id;
+      const drug = getPrescribedDrug(prescription);
       const pharmacist = prescription.pharmacist_id;
 
       return {
         id: prescription._id.toString(),
-        prescriptionNumber: `RX${prescription._id
-          .toString()
-          .slice(-8)
-          .toUpperCase()}`,
+        prescriptionNumber: formatPrescriptionNumber(prescription._id),
+        header: formatHeaderSummary(prescription.header_id),
+        lineNumber: prescription.line_number,
         medication: drug?.name || "Unknown",
         dosage: drug?.strength || "N/A",
         quantity: prescription.quantity_prescribed,
@@ -64,6 +71,7 @@ export const GET = withPatientAuth(async (request, user) => {
         status: prescription.status,
         dateIssued: prescription.date_issued,
         dateDispensed: prescription.date_dispensed,
+        ...formatRefillInfo(prescription),
         doctor: doctor?.user_id
           ? {
               id: doctor.user_id._id.toString(),
@@ -1,7 +1,15 @@
 import { NextResponse } from "next/server";
 import { withPharmacistAuth } from "@/lib/utils/api-middleware";
 import { connectToDatabase } from "@/lib/database/connection";
+import { formatRefillInfo } from "@/lib/utils/refills";
 import { PrescriptionModel, PharmacistModel } from "@/lib/database/models";
+import { getPrescribedDrug } from "@/lib/utils/formulary";
+import {
+  formatPrescriptionNumber,
+  formatHeaderSummary,
+} from "@/lib/utils/prescription-headers";
+import { describeAllergies } from "@/lib/utils/allergies";
+import { findAccessiblePatientIds } from "@/lib/utils/patient-access";
 
 export const GET = withPharmacistAuth(async (request, user) => {
   try {
@@ -24,8 +32,10 @@ export const GET = withPharmacistAuth(async (request, user) => {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
 
-    // Build query filter
-    const query: any = {};
+    // Build query filter: only patients who granted this pharmacy access
+    const query: any = {
+      patient_id: { $in: await findAccessiblePatientIds(user) },
+    };
 
     // Show prescriptions that are ready for this pharmacist or already dispensed by them
     // Also show pending/verified prescriptions that can be dispensed
@@ -33,7 +43,9 @@ export const GET = withPharmacistAuth(async (request, user) => {
       query.status = status;
     } else {
       // Default: show prescriptions that need attention
-      query.status = { $in: ["verified", "pending", "dispensed"] };
+      query.status = {
+        $in: ["verified", "pending", "partially_dispensed", "dispensed"],
+      };
     }
 
     // Fetch prescriptions with populated data
@@ -46,11 +58,14 @@ export const GET = withPharmacistAuth(async (request, user) => {
         path: "doctor_id",
         populate: { path: "user_id", model: "User" },
       })
+      .populate("header_id")
+      .populate("formulary_id")
       .populate("drug_id")
       .populate({
         path: "pharmacist_id",
         populate: { path: "user_id", model: "User" },
       })
+      .populate("fills.pharmacist_id", "username")
       .sort({ created_at: -1 })
       .limit(100) // Limit for performance
       .lean();
@@ -59,27 +74,37 @@ export const GET = withPharmacistAuth(async (request, user) => {
     const formattedPrescriptions = prescriptions.map((prescription: any) => {
       const patient = prescription.patient_id;
       const doctor = prescription.doctor_id;
-      const drug = prescription.drug_id;
+      const drug = getPrescribedDrug(prescription);
       const dispensingPharmacist = prescription.pharmacist_id;
 
       return {
         id: prescription._id.toString(),
-        prescriptionNumber: `RX${prescription._id
-          .toString()
-          .slice(-8)
-          .toUpperCase()}`,
+        prescriptionNumber: formatPrescriptionNumber(prescription._id),
+        header: formatHeaderSummary(prescription.header_id),
+        lineNumber: prescription.line_number,
         medication: drug?.name || "Unknown",
         genericName: drug?.generic_name,
         dosage: drug?.strength || "N/A",
         dosageForm: drug?.dosage_form,
         quantity: prescription.quantity_prescribed,
         dispensedQuantity: prescription.quantity_dispensed || 0,
+        remainingQuantity:
+          prescription.quantity_prescribed -
+          (prescription.quantity_dispensed || 0),
+        fills: (prescription.fills || []).map((fill: any) => ({
+          quantity: fill.quantity,
+          dispensedAt: fill.dispensed_at,
+          pharmacistName: fill.pharmacist_id?.username,
+          blockchainHash: fill.blockchain_hash,
+          notes: fill.notes,
+        })),
         frequency: prescription.frequency || "N/A",
         duration: prescription.duration || "N/A",
         instructions: prescription.dosage_instructions,
         status: prescription.status,
         dateIssued: prescription.date_issued,
         dateDispensed: prescription.date_dispensed,
+        ...formatRefillInfo(prescription),
         patient: patient?.user_id
           ? {
               id: patient.user_id._id.toString(),
@@ -87,7 +112,7 @@ export const GET = withPharmacistAuth(async (request, user) => {
               email: patient.user_id.email,
               phone: patient.contact_info?.phone,
               dateOfBirth: patient.date_of_birth,
-              allergies: patient.allergies,
+              allergies: describeAllergies(patient.allergies),
               insuranceNumber: patient.contact_info?.insuranceNumber,
             }
           : null,
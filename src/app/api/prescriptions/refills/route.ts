@@ -0,0 +1,297 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { withDoctorAuth, withPatientAuth } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import {
+  PrescriptionModel,
+  PatientModel,
+  DoctorModel,
+} from "@/lib/database/models";
+import { formatRefillInfo, getRefillRequestBlocker } from "@/lib/utils/refills";
+import { refreshHeaderStatus } from "@/lib/utils/prescription-headers";
+import { notificationService } from "@/lib/services/NotificationService";
+import {
+  assertVerifiedProfessional,
+  VerificationError,
+} from "@/lib/utils/professional-verification";
+import { getPrescribedDrug } from "@/lib/utils/formulary";
+import {
+  assertRecentStepUp,
+  isControlledDrug,
+  TwoFactorError,
+} from "@/lib/utils/two-factor";
+
+// POST: Patient requests a refill of a fully dispensed prescription
+export const POST = withPatientAuth(async (request, user) => {
+  try {
+    await connectToDatabase();
+
+    const { prescriptionId, note } = await request.json();
+
+    if (!prescriptionId || !mongoose.Types.ObjectId.isValid(prescriptionId)) {
+      return NextResponse.json(
+        { success: false, error: "A valid prescription ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const patient = await PatientModel.findOne({ user_id: user.id });
+    if (!patient) {
+      return NextResponse.json(
+        { success: false, error: "Patient profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const prescription = await PrescriptionModel.findOne({
+      _id: prescriptionId,
+      patient_id: patient._id,
+    });
+    if (!prescription) {
+      return NextResponse.json(
+        { success: false, error: "Prescription not found" },
+        { status: 404 }
+      );
+    }
+
+    const blocker = getRefillRequestBlocker(prescription);
+    if (blocker) {
+      return NextResponse.json(
+        { success: false, error: blocker },
+        { status: 400 }
+      );
+    }
+
+    // Conditional push so two concurrent requests cannot both be queued
+    const updated = await PrescriptionModel.findOneAndUpdate(
+      {
+        _id: prescription._id,
+        status: "dispensed",
+        "refill_requests.status": { $ne: "pending" },
+        $expr: {
+          $lt: [
+            { $ifNull: ["$refills_used", 0] },
+            { $ifNull: ["$refills_authorized", 0] },
+          ],
+        },
+      },
+      {
+        $push: {
+          refill_requests: {
+            status: "pending",
+            requested_at: new Date(),
+            ...(note ? { note: String(note).slice(0, 500) } : {}),
+          },
+        },
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, error: "Prescription changed, please try again" },
+        { status: 409 }
+      );
+    }
+
+    console.log(`✅ Refill requested for prescription: ${updated._id}`);
+
+    return NextResponse.json({
+      success: true,
+      message: "Refill request sent to your doctor",
+      refill: formatRefillInfo(updated),
+    });
+  } catch (error) {
+    console.error("Error requesting refill:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to request refill" },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH: Prescribing doctor approves or denies a pending refill request
+export const PATCH = withDoctorAuth(async (request, user) => {
+  try {
+    await connectToDatabase();
+
+    const { prescriptionId, requestId, action, note } = await request.json();
+
+    if (
+      !mongoose.Types.ObjectId.isValid(prescriptionId) ||
+      !mongoose.Types.ObjectId.isValid(requestId)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Valid prescription and request IDs are required",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (action !== "approve" && action !== "deny") {
+      return NextResponse.json(
+        { success: false, error: "Action must be 'approve' or 'deny'" },
+        { status: 400 }
+      );
+    }
+
+    // Approving a refill authorizes more medication, like prescribing
+    if (action === "approve") {
+      await assertVerifiedProfessional(user);
+    }
+
+    const doctor = await DoctorModel.findOne({ user_id: user.id });
+    if (!doctor) {
+      return NextResponse.json(
+        { success: false, error: "Doctor profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const prescription = await PrescriptionModel.findOne({
+      _id: prescriptionId,
+      doctor_id: doctor._id,
+    });
+    if (!prescription) {
+      return NextResponse.json(
+        { success: false, error: "Prescription not found" },
+        { status: 404 }
+      );
+    }
+
+    // A refill of a controlled substance is prescribed again, so it needs a
+    // fresh second-factor code too
+    if (action === "approve") {
+      await prescription.populate(["formulary_id", "drug_id"]);
+      if (isControlledDrug(getPrescribedDrug(prescription))) {
+        await assertRecentStepUp(user);
+      }
+    }
+
+    const refillRequest = (prescription.refill_requests || []).find(
+      (r: any) => r._id.toString() === requestId
+    );
+    if (!refillRequest || refillRequest.status !== "pending") {
+      return NextResponse.json(
+        { success: false, error: "No pending refill request found" },
+        { status: 404 }
+      );
+    }
+
+    const response = {
+      "refill_requests.$.responded_at": new Date(),
+      "refill_requests.$.responded_by": user.id,
+      ...(note
+        ? { "refill_requests.$.response_note": String(note).slice(0, 500) }
+        : {}),
+    };
+
+    // Approval opens a new fill cycle for the pharmacist. The filter
+    // re-checks the refill allowance so it can never be exceeded.
+    const updated =
+      action === "approve"
+        ? await PrescriptionModel.findOneAndUpdate(
+            {
+              _id: prescription._id,
+              status: "dispensed",
+              refill_requests: {
+                $elemMatch: { _id: requestId, status: "pending" },
+              },
+              $expr: {
+                $lt: [
+                  { $ifNull: ["$refills_used", 0] },
+                  { $ifNull: ["$refills_authorized", 0] },
+                ],
+              },
+            },
+            {
+              $set: {
+                ...response,
+                "refill_requests.$.status": "approved",
+                status: "verified",
+                quantity_dispensed: 0,
+              },
+              $inc: { refills_used: 1 },
+            },
+            { new: true }
+          )
+        : await PrescriptionModel.findOneAndUpdate(
+            {
+              _id: prescription._id,
+              refill_requests: {
+                $elemMatch: { _id: requestId, status: "pending" },
+              },
+            },
+            {
+              $set: {
+                ...response,
+                "refill_requests.$.status": "denied",
+              },
+            },
+            { new: true }
+          );
+
+    if (!updated) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            action === "approve"
+              ? "Refill cannot be approved: no refills remain or the prescription is still being filled"
+              : "Refill request was already answered",
+        },
+        { status: 409 }
+      );
+    }
+
+    // An approved refill reopens the line, and so its header
+    if (action === "approve") {
+      await refreshHeaderStatus(updated.header_id);
+    }
+
+    await updated.populate(["formulary_id", "drug_id"]);
+    if (action === "approve") {
+      await notificationService.prescriptionVerified(updated);
+    } else {
+      await notificationService.refillDenied(
+        updated,
+        note ? String(note).slice(0, 500) : undefined
+      );
+    }
+
+    console.log(
+      `✅ Refill ${action === "approve" ? "approved" : "denied"} for prescription: ${updated._id}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message:
+        action === "approve"
+          ? "Refill approved. The prescription is ready for dispensing"
+          : "Refill request denied",
+      refill: formatRefillInfo(updated),
+    });
+  } catch (error) {
+    if (error instanceof VerificationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error responding to refill request:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update refill request" },
+      { status: 500 }
+    );
+  }
+});
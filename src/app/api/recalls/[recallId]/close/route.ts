@@ -0,0 +1,47 @@
+/**
+ * API Route: Close Recall
+ * POST /api/recalls/[recallId]/close
+ * Close a recall once all its frozen stock has been returned or destroyed.
+ * The batch stays deactivated.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import { closeRecall, formatRecall, RecallError } from "@/lib/utils/recalls";
+
+export const POST = withPermission(
+  "recalls:manage",
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ recallId: string }> }
+  ) => {
+    try {
+      await connectToDatabase();
+
+      const { recallId } = await params;
+      const body = await request.json().catch(() => ({}));
+      const recall = await closeRecall(user, recallId, body);
+
+      return NextResponse.json({
+        success: true,
+        message: "Recall closed",
+        recall: formatRecall(recall.toObject()),
+      });
+    } catch (error) {
+      if (error instanceof RecallError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        );
+      }
+
+      console.error("Error closing recall:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to close recall" },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,54 @@
+/**
+ * API Route: Recall Movements
+ * POST /api/recalls/[recallId]/movements
+ * Record the return or destruction of frozen stock from one drug entry:
+ * { drugId, type: "returned" | "destroyed", quantity, notes? }.
+ * Only accepted while the recall is open.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import { recordRecallMovement, RecallError } from "@/lib/utils/recalls";
+import { PharmacyScopeError } from "@/lib/utils/pharmacy-scope";
+
+export const POST = withPermission(
+  "recalls:movement:record",
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ recallId: string }> }
+  ) => {
+    try {
+      await connectToDatabase();
+
+      const { recallId } = await params;
+      const body = await request.json();
+      const { movement, remaining } = await recordRecallMovement(
+        user,
+        recallId,
+        body
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: `${movement.quantity} unit(s) recorded as ${movement.movement_type}`,
+        movementId: movement._id.toString(),
+        remaining,
+      });
+    } catch (error) {
+      if (error instanceof RecallError || error instanceof PharmacyScopeError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        );
+      }
+
+      console.error("Error recording recall movement:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to record recall movement" },
+        { status: 500 }
+      );
+    }
+  }
+);
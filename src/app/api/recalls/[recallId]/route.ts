@@ -0,0 +1,93 @@
+/**
+ * API Route: Batch Recall
+ * GET /api/recalls/[recallId]
+ * The recall, the stock still frozen, its returns and destruction, and for
+ * admins and auditors every patient the batch was dispensed to.
+ * Pharmacists only see their own pharmacy's stock and movements.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import { MovementRecord } from "@/lib/database/traceabilityModels";
+import { hasPermission } from "@/lib/utils/permissions";
+import {
+  loadRecall,
+  formatRecall,
+  findRecalledStock,
+  findAffectedPatientsAs,
+  RecallError,
+} from "@/lib/utils/recalls";
+import {
+  resolvePharmacyScope,
+  pharmacyFilter,
+  PharmacyScopeError,
+} from "@/lib/utils/pharmacy-scope";
+
+export const GET = withPermission(
+  "recalls:read",
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ recallId: string }> }
+  ) => {
+    try {
+      await connectToDatabase();
+
+      const scope = await resolvePharmacyScope(user);
+      const { recallId } = await params;
+      const recall = await loadRecall(recallId);
+      await recall.populate([
+        { path: "opened_by", select: "username" },
+        { path: "closed_by", select: "username" },
+      ]);
+
+      const [stock, movements] = await Promise.all([
+        findRecalledStock(recall, scope.pharmacyId),
+        MovementRecord.find({
+          recall_id: recall._id,
+          ...pharmacyFilter(scope),
+        })
+          .populate("pharmacy_id", "name")
+          .sort({ timestamp: -1 })
+          .lean(),
+      ]);
+
+      // Who received the batch is only for those running the recall
+      const affectedPatients = hasPermission(user.role, "recalls:manage")
+        ? await findAffectedPatientsAs(user, recall)
+        : null;
+
+      return NextResponse.json({
+        success: true,
+        recall: formatRecall(
+          recall.toObject(),
+          stock.reduce((sum, held) => sum + held.quantity, 0)
+        ),
+        stock,
+        movements: movements.map((movement: any) => ({
+          id: movement._id.toString(),
+          type: movement.movement_type,
+          quantity: movement.quantity,
+          pharmacyName: movement.pharmacy_id?.name || "Unknown Pharmacy",
+          notes: movement.notes || null,
+          recordedAt: movement.timestamp,
+        })),
+        affectedPatients,
+      });
+    } catch (error) {
+      if (error instanceof RecallError || error instanceof PharmacyScopeError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        );
+      }
+
+      console.error("Error fetching recall:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to fetch recall" },
+        { status: 500 }
+      );
+    }
+  }
+);
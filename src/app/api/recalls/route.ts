@@ -0,0 +1,100 @@
+/**
+ * API Route: Batch Recalls
+ * GET  /api/recalls?status=open|closed - Recalls with the quantity still
+ *      frozen (for a pharmacist, at their pharmacy)
+ * POST /api/recalls - Open a recall on a batch: freezes its stock in every
+ *      pharmacy, deactivates it and notifies pharmacies and patients
+ */
+
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { connectToDatabase } from "@/lib/database/connection";
+import { Recall } from "@/lib/database/traceabilityModels";
+import {
+  openRecall,
+  formatRecall,
+  getOutstandingQuantities,
+  RecallError,
+} from "@/lib/utils/recalls";
+import {
+  resolvePharmacyScope,
+  PharmacyScopeError,
+} from "@/lib/utils/pharmacy-scope";
+
+const RECALL_LIST_LIMIT = 100;
+
+export const GET = withPermission("recalls:read", async (request, user) => {
+  try {
+    await connectToDatabase();
+
+    const scope = await resolvePharmacyScope(user);
+    const status = new URL(request.url).searchParams.get("status");
+    const recalls = await Recall.find(
+      status === "open" || status === "closed" ? { status } : {}
+    )
+      .populate("opened_by", "username")
+      .populate("closed_by", "username")
+      .sort({ created_at: -1 })
+      .limit(RECALL_LIST_LIMIT)
+      .lean();
+
+    const outstanding = await getOutstandingQuantities(
+      recalls.map((recall: any) => recall._id),
+      scope.pharmacyId
+    );
+
+    return NextResponse.json({
+      success: true,
+      recalls: recalls.map((recall: any) =>
+        formatRecall(recall, outstanding.get(recall._id.toString()) || 0)
+      ),
+    });
+  } catch (error) {
+    if (error instanceof PharmacyScopeError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error fetching recalls:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch recalls" },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withPermission("recalls:manage", async (request, user) => {
+  try {
+    await connectToDatabase();
+
+    const body = await request.json();
+    const { recall, stock, patients } = await openRecall(user, body);
+    const outstanding = stock.reduce((sum, held) => sum + held.quantity, 0);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Recall opened: ${outstanding} unit(s) frozen, ${patients.length} patient(s) notified`,
+        recall: formatRecall(recall.toObject(), outstanding),
+        stock,
+        affectedPatients: patients,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof RecallError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error opening recall:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to open recall" },
+      { status: 500 }
+    );
+  }
+});
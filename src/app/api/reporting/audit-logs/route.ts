@@ -6,8 +6,9 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { reportingService } from "@/lib/services/ReportingService";
+import { withPermission } from "@/lib/utils/api-middleware";
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission("reporting:read", async (req, user) => {
   try {
     const { searchParams } = new URL(req.url);
     const startDate = searchParams.get("startDate")
@@ -35,4 +36,4 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
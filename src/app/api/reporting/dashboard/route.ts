@@ -6,8 +6,9 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { reportingService } from "@/lib/services/ReportingService";
+import { withPermission } from "@/lib/utils/api-middleware";
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission("reporting:read", async (req, user) => {
   try {
     const metrics = await reportingService.getDashboardMetrics();
 
@@ -25,4 +26,4 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -7,8 +7,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { reportingService } from "@/lib/services/ReportingService";
 import { ExportService } from "@/lib/services/ExportService";
+import { withPermission } from "@/lib/utils/api-middleware";
 
-export async function POST(req: NextRequest) {
+export const POST = withPermission("reporting:export", async (req, user) => {
   try {
     const body = await req.json();
     const { type, format, startDate, endDate } = body;
@@ -102,4 +103,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,155 @@
+/**
+ * API Route: Fraud Case Management
+ * GET /api/reporting/fraud/[alertId]
+ * PATCH /api/reporting/fraud/[alertId]
+ * Assign, annotate and move a fraud alert through its status workflow
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  reportingService,
+  FRAUD_STATUS_TRANSITIONS,
+} from "@/lib/services/ReportingService";
+import { FraudAlertStatus } from "@/lib/database/fraudModels";
+import { withPermission } from "@/lib/utils/api-middleware";
+
+const CLOSED_STATUSES: FraudAlertStatus[] = ["resolved", "false_positive"];
+
+export const GET = withPermission(
+  "reporting:read",
+  async (
+    req: NextRequest,
+    user,
+    { params }: { params: Promise<{ alertId: string }> }
+  ) => {
+    try {
+      const { alertId } = await params;
+      const alert = await reportingService.getFraudAlert(alertId);
+
+      if (!alert) {
+        return NextResponse.json(
+          { success: false, error: "Fraud alert not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true, data: alert });
+    } catch (error: any) {
+      console.error("Error fetching fraud alert:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message || "Failed to fetch fraud alert",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const PATCH = withPermission(
+  "fraud:manage",
+  async (
+    req: NextRequest,
+    user,
+    { params }: { params: Promise<{ alertId: string }> }
+  ) => {
+    try {
+      const { alertId } = await params;
+      const body = await req.json();
+      const { status, assignedTo, note, resolution } = body;
+
+      if (status === undefined && assignedTo === undefined && !note?.trim()) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Provide a status, assignee or note to update",
+          },
+          { status: 400 }
+        );
+      }
+
+      const alert = await reportingService.getFraudAlert(alertId);
+      if (!alert) {
+        return NextResponse.json(
+          { success: false, error: "Fraud alert not found" },
+          { status: 404 }
+        );
+      }
+
+      if (status !== undefined && status !== alert.status) {
+        const allowed = FRAUD_STATUS_TRANSITIONS[alert.status] || [];
+        if (!allowed.includes(status)) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `Cannot move an alert from ${alert.status} to ${status}`,
+              allowedStatuses: allowed,
+            },
+            { status: 400 }
+          );
+        }
+
+        if (CLOSED_STATUSES.includes(status) && !resolution?.trim()) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: "A resolution summary is required to close an alert",
+            },
+            { status: 400 }
+          );
+        }
+      }
+
+      if (assignedTo) {
+        const investigators = await reportingService.getFraudInvestigators();
+        if (!investigators.some((i) => i.id === assignedTo)) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: "Alerts can only be assigned to admins or auditors",
+            },
+            { status: 400 }
+          );
+        }
+      }
+
+      const updated = await reportingService.updateFraudAlert(
+        alertId,
+        alert.status,
+        user.id,
+        {
+          status,
+          assignedTo,
+          note: note?.trim() || undefined,
+          resolution: resolution?.trim() || undefined,
+        }
+      );
+
+      if (!updated) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "The alert was changed by someone else. Reload and retry.",
+          },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: updated,
+        message: "Fraud alert updated",
+      });
+    } catch (error: any) {
+      console.error("Error updating fraud alert:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message || "Failed to update fraud alert",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
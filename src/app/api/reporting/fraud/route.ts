@@ -1,26 +1,53 @@
 /**
  * API Route: Fraud Detection
  * GET /api/reporting/fraud
- * Detects and returns fraud alerts
+ * POST /api/reporting/fraud
+ * Returns the persisted fraud cases. POST runs fraud detection first,
+ * opening cases for new findings, so only case managers may trigger it.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { reportingService } from "@/lib/services/ReportingService";
+import { reportingService, FraudAlert } from "@/lib/services/ReportingService";
+import { withPermission } from "@/lib/utils/api-middleware";
 
-export async function GET(req: NextRequest) {
-  try {
-    const alerts = await reportingService.detectFraud();
+async function fraudCasesResponse(alerts: FraudAlert[]) {
+  const summary = reportingService.summarizeFraudAlerts(alerts);
+  const investigators = await reportingService.getFraudInvestigators();
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      alerts,
+      summary,
+      investigators,
+      total: summary.total,
+      critical: summary.critical,
+      medium: summary.medium,
+      low: summary.low,
+    },
+  });
+}
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        alerts,
-        total: alerts.length,
-        critical: alerts.filter((a) => a.severity === "critical").length,
-        medium: alerts.filter((a) => a.severity === "medium").length,
-        low: alerts.filter((a) => a.severity === "low").length,
+export const GET = withPermission("reporting:read", async (req, user) => {
+  try {
+    const alerts = await reportingService.listFraudAlerts();
+    return await fraudCasesResponse(alerts);
+  } catch (error: any) {
+    console.error("Error fetching fraud alerts:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || "Failed to fetch fraud alerts",
       },
-    });
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withPermission("fraud:manage", async (req, user) => {
+  try {
+    const alerts = await reportingService.detectFraud();
+    return await fraudCasesResponse(alerts);
   } catch (error: any) {
     console.error("Error detecting fraud:", error);
     return NextResponse.json(
@@ -31,4 +58,4 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
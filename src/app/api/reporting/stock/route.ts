@@ -1,15 +1,27 @@
 /**
  * API Route: Stock Levels Report
  * GET /api/reporting/stock
- * Fetches current stock levels report
+ * Fetches current stock levels report, optionally filtered by ?pharmacyId=
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { reportingService } from "@/lib/services/ReportingService";
+import { withPermission } from "@/lib/utils/api-middleware";
+import {
+  resolvePharmacyScope,
+  PharmacyScopeError,
+} from "@/lib/utils/pharmacy-scope";
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission("reporting:read", async (req, user) => {
   try {
-    const report = await reportingService.getStockLevelsReport();
+    const { searchParams } = new URL(req.url);
+    const scope = await resolvePharmacyScope(
+      user,
+      searchParams.get("pharmacyId")
+    );
+    const report = await reportingService.getStockLevelsReport(
+      scope.pharmacyId || undefined
+    );
 
     return NextResponse.json({
       success: true,
@@ -17,6 +29,13 @@ export async function GET(req: NextRequest) {
       count: report.length,
     });
   } catch (error: any) {
+    if (error instanceof PharmacyScopeError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error("Error fetching stock levels report:", error);
     return NextResponse.json(
       {
@@ -26,4 +45,4 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -13,161 +13,197 @@ import {
   TraceabilityAudit,
 } from "@/lib/database/traceabilityModels";
 import { traceabilityService } from "@/lib/services/TraceabilityService";
-import { ethers } from "ethers";
-
-export async function POST(req: NextRequest) {
-  try {
-    // Ensure database connection
-    await DatabaseManager.getInstance().ensureConnection();
-
-    const body = await req.json();
-    const {
-      batchId,
-      prescriptionId,
-      patientAddress,
-      pharmacistAddress,
-      quantity,
-      privateKey,
-    } = body;
-
-    // Validate required fields
-    if (
-      !batchId ||
-      !prescriptionId ||
-      !patientAddress ||
-      !pharmacistAddress ||
-      !quantity
-    ) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Missing required fields",
+import { withPermission } from "@/lib/utils/api-middleware";
+import { resolveSessionSigner } from "@/lib/blockchain/signers";
+import {
+  assertVerifiedProfessional,
+  VerificationError,
+} from "@/lib/utils/professional-verification";
+
+export const POST = withPermission(
+  "traceability:dispensing:record",
+  async (req, user) => {
+    try {
+      // Ensure database connection
+      await DatabaseManager.getInstance().ensureConnection();
+
+      // Only pharmacists whose license an admin has approved may dispense
+      await assertVerifiedProfessional(user);
+
+      const body = await req.json();
+
+      if (body.privateKey !== undefined) {
+        return NextResponse.json(
+          {
+            success: false,
+            error:
+              "Private keys must not be sent to the API; transactions are signed server-side",
+          },
+          { status: 400 }
+        );
+      }
+
+      const { batchId, prescriptionId, patientAddress, quantity } = body;
+
+      // Validate required fields
+      if (!batchId || !prescriptionId || !patientAddress || !quantity) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Missing required fields",
+          },
+          { status: 400 }
+        );
+      }
+
+      // Sign with the caller's custodial key resolved from the session
+      const signer = await resolveSessionSigner(user);
+      if (!signer) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "No signing key is provisioned for this account",
+          },
+          { status: 403 }
+        );
+      }
+      const signerAddress = await signer.getAddress();
+
+      // Get batch details
+      const batch = await DrugBatch.findById(batchId);
+
+      if (!batch) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Batch not found",
+          },
+          { status: 404 }
+        );
+      }
+
+      // Deactivated (e.g. recalled) batches are never dispensed
+      if (!batch.is_active) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Batch has been deactivated and cannot be dispensed",
+          },
+          { status: 409 }
+        );
+      }
+
+      // Check if batch has enough quantity
+      if (batch.remaining_quantity < quantity) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Insufficient quantity in batch",
+          },
+          { status: 400 }
+        );
+      }
+
+      // Record dispensing on blockchain
+      const blockchainResult =
+        await traceabilityService.recordPatientDispensing(
+          signer,
+          batch.onchain_batch_id || batchId,
+          prescriptionId,
+          patientAddress,
+          quantity
+        );
+
+      if (!blockchainResult.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error:
+              blockchainResult.error ||
+              "Failed to record dispensing on blockchain",
+          },
+          { status: 500 }
+        );
+      }
+
+      // Update batch quantity
+      batch.remaining_quantity -= quantity;
+      await batch.save();
+
+      // Store dispensing record in database
+      const dispensingRecord = new DispensingRecord({
+        batch_id: batchId,
+        prescription_id: prescriptionId,
+        patient_address: patientAddress,
+        pharmacist_address: signerAddress,
+        quantity,
+        verification_hash: blockchainResult.verificationHash || "",
+        onchain_dispensing_id: blockchainResult.dispensingId || null,
+        onchain_tx_hash: blockchainResult.txHash || null,
+        onchain_block_number: blockchainResult.blockNumber || null,
+        is_verified: false,
+      });
+
+      await dispensingRecord.save();
+
+      // Store movement record
+      const movementRecord = new MovementRecord({
+        batch_id: batchId,
+        movement_type: "dispensed_to_patient",
+        from_address: signerAddress,
+        to_address: patientAddress,
+        quantity,
+        transaction_hash: blockchainResult.verificationHash || null,
+        prescription_id: prescriptionId,
+        onchain_movement_id: null,
+        onchain_tx_hash: blockchainResult.txHash || null,
+        onchain_block_number: blockchainResult.blockNumber || null,
+      });
+
+      await movementRecord.save();
+
+      // Create audit trail
+      const auditRecord = new TraceabilityAudit({
+        batch_id: batchId,
+        action: "dispensing_recorded",
+        performed_by: user.id,
+        blockchain_tx_hash: blockchainResult.txHash || null,
+        details: {
+          onchain_dispensing_id: blockchainResult.dispensingId,
+          prescription_id: prescriptionId,
+          patient_address: patientAddress,
+          quantity,
         },
-        { status: 400 }
-      );
-    }
-
-    // Set up signer for blockchain transaction
-    if (privateKey) {
-      const provider = new ethers.JsonRpcProvider(
-        process.env.NEXT_PUBLIC_RPC_URL || "http://127.0.0.1:8545"
-      );
-      const signer = new ethers.Wallet(privateKey, provider);
-      traceabilityService.setSigner(signer);
-    }
+      });
 
-    // Get batch details
-    const batch = await DrugBatch.findOne({ batch_id: batchId });
-
-    if (!batch) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Batch not found",
-        },
-        { status: 404 }
-      );
-    }
+      await auditRecord.save();
 
-    // Check if batch has enough quantity
-    if (batch.remaining_quantity < quantity) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Insufficient quantity in batch",
+      return NextResponse.json({
+        success: true,
+        data: {
+          dispensingId: dispensingRecord._id,
+          onchainDispensingId: blockchainResult.dispensingId,
+          verificationHash: blockchainResult.verificationHash,
+          txHash: blockchainResult.txHash,
         },
-        { status: 400 }
-      );
-    }
-
-    // Record dispensing on blockchain
-    const blockchainResult = await traceabilityService.recordPatientDispensing(
-      batch.onchain_batch_id || batchId,
-      prescriptionId,
-      patientAddress,
-      quantity
-    );
-
-    if (!blockchainResult.success) {
+        message: "Drug dispensing recorded successfully",
+      });
+    } catch (error: any) {
+      if (error instanceof VerificationError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        );
+      }
+
+      console.error("Error recording patient dispensing:", error);
       return NextResponse.json(
         {
           success: false,
-          error:
-            blockchainResult.error ||
-            "Failed to record dispensing on blockchain",
+          error: error.message || "Internal server error",
         },
         { status: 500 }
       );
     }
-
-    // Update batch quantity
-    batch.remaining_quantity -= quantity;
-    await batch.save();
-
-    // Store dispensing record in database
-    const dispensingRecord = new DispensingRecord({
-      batch_id: batchId,
-      prescription_id: prescriptionId,
-      patient_address: patientAddress,
-      pharmacist_address: pharmacistAddress,
-      quantity,
-      verification_hash: blockchainResult.verificationHash || "",
-      onchain_dispensing_id: blockchainResult.dispensingId || null,
-      onchain_tx_hash: blockchainResult.txHash || null,
-      is_verified: false,
-    });
-
-    await dispensingRecord.save();
-
-    // Store movement record
-    const movementRecord = new MovementRecord({
-      batch_id: batchId,
-      movement_type: "dispensed_to_patient",
-      from_address: pharmacistAddress,
-      to_address: patientAddress,
-      quantity,
-      transaction_hash: blockchainResult.verificationHash || null,
-      prescription_id: prescriptionId,
-      onchain_movement_id: null,
-      onchain_tx_hash: blockchainResult.txHash || null,
-    });
-
-    await movementRecord.save();
-
-    // Create audit trail
-    const auditRecord = new TraceabilityAudit({
-      batch_id: batchId,
-      action: "dispensing_recorded",
-      performed_by: 1, // system user for now
-      blockchain_tx_hash: blockchainResult.txHash || null,
-      details: {
-        onchain_dispensing_id: blockchainResult.dispensingId,
-        prescription_id: prescriptionId,
-        patient_address: patientAddress,
-        quantity,
-      },
-    });
-
-    await auditRecord.save();
-
-    return NextResponse.json({
-      success: true,
-      data: {
-        dispensingId: dispensingRecord._id,
-        onchainDispensingId: blockchainResult.dispensingId,
-        verificationHash: blockchainResult.verificationHash,
-        txHash: blockchainResult.txHash,
-      },
-      message: "Drug dispensing recorded successfully",
-    });
-  } catch (error: any) {
-    console.error("Error recording patient dispensing:", error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error.message || "Internal server error",
-      },
-      { status: 500 }
-    );
   }
-}
+);
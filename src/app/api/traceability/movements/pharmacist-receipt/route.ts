@@ -8,111 +8,146 @@ import { NextRequest, NextResponse } from "next/server";
 import { DatabaseManager } from "@/lib/database/connection";
 import { getTraceabilityModels } from "@/lib/database/traceabilityModels";
 import { traceabilityService } from "@/lib/services/TraceabilityService";
-import { ethers } from "ethers";
+import { withPermission } from "@/lib/utils/api-middleware";
+import { resolveSessionSigner } from "@/lib/blockchain/signers";
 
-export async function POST(req: NextRequest) {
-  try {
-    await DatabaseManager.getInstance().ensureConnection();
-    const { DrugBatch, MovementRecord, TraceabilityAudit } =
-      getTraceabilityModels();
+export const POST = withPermission(
+  "traceability:movement:record",
+  async (req, user) => {
+    try {
+      await DatabaseManager.getInstance().ensureConnection();
+      const { DrugBatch, MovementRecord, TraceabilityAudit } =
+        getTraceabilityModels();
 
-    const body = await req.json();
-    const { batchId, quantity, notes, walletAddress, privateKey } = body;
+      const body = await req.json();
 
-    // Validate required fields
-    if (!batchId || !quantity) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Missing required fields",
-        },
-        { status: 400 }
-      );
-    }
+      if (body.privateKey !== undefined) {
+        return NextResponse.json(
+          {
+            success: false,
+            error:
+              "Private keys must not be sent to the API; transactions are signed server-side",
+          },
+          { status: 400 }
+        );
+      }
 
-    // Set up signer for blockchain transaction
-    if (privateKey) {
-      const provider = new ethers.JsonRpcProvider(
-        process.env.NEXT_PUBLIC_RPC_URL || "http://127.0.0.1:8545"
-      );
-      const signer = new ethers.Wallet(privateKey, provider);
-      traceabilityService.setSigner(signer);
-    }
+      const { batchId, quantity, notes } = body;
 
-    // Get batch details to find manufacturer address
-    const batch = await DrugBatch.findById(batchId);
+      // Validate required fields
+      if (!batchId || !quantity) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Missing required fields",
+          },
+          { status: 400 }
+        );
+      }
 
-    if (!batch) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Batch not found",
-        },
-        { status: 404 }
-      );
-    }
+      // Sign with the caller's custodial key resolved from the session
+      const signer = await resolveSessionSigner(user);
+      if (!signer) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "No signing key is provisioned for this account",
+          },
+          { status: 403 }
+        );
+      }
+      const signerAddress = await signer.getAddress();
+
+      // Get batch details to find manufacturer address
+      const batch = await DrugBatch.findById(batchId);
 
-    // Record receipt on blockchain
-    const blockchainResult = await traceabilityService.recordPharmacistReceipt(
-      batch.onchain_batch_id || batchId,
-      quantity,
-      notes || ""
-    );
+      if (!batch) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Batch not found",
+          },
+          { status: 404 }
+        );
+      }
 
-    if (!blockchainResult.success) {
+      // Deactivated (e.g. recalled) batches cannot enter a pharmacy
+      if (!batch.is_active) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Batch has been deactivated and cannot be received",
+          },
+          { status: 409 }
+        );
+      }
+
+      // Record receipt on blockchain
+      const blockchainResult =
+        await traceabilityService.recordPharmacistReceipt(
+          signer,
+          batch.onchain_batch_id || batchId,
+          quantity,
+          notes || ""
+        );
+
+      if (!blockchainResult.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error:
+              blockchainResult.error ||
+              "Failed to record receipt on blockchain",
+          },
+          { status: 500 }
+        );
+      }
+
+      // Store in database
+      const newMovement = await MovementRecord.create({
+        batch_id: batchId,
+        movement_type: "received_by_pharmacist",
+        from_address: batch.manufacturer_address,
+        to_address: signerAddress,
+        quantity,
+        transaction_hash: blockchainResult.txHash || undefined,
+        notes: notes || undefined,
+        onchain_movement_id: blockchainResult.movementId || undefined,
+        onchain_tx_hash: blockchainResult.txHash || undefined,
+        onchain_block_number: blockchainResult.blockNumber || undefined,
+      });
+
+      // Create audit trail
+      await TraceabilityAudit.create({
+        batch_id: batchId,
+        action: "movement_recorded",
+        performed_by: user.id,
+        blockchain_tx_hash: blockchainResult.txHash || undefined,
+        details: {
+          onchain_movement_id: blockchainResult.movementId,
+          movement_type: "received_by_pharmacist",
+          quantity,
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          movementId: newMovement._id,
+          onchainMovementId: blockchainResult.movementId,
+          txHash: blockchainResult.txHash,
+        },
+        message: "Pharmacist receipt recorded successfully",
+      });
+    } catch (error: any) {
+      console.error("Error recording pharmacist receipt:", error);
       return NextResponse.json(
         {
           success: false,
-          error:
-            blockchainResult.error || "Failed to record receipt on blockchain",
+          error: error.message || "Internal server error",
         },
         { status: 500 }
       );
     }
-
-    // Store in database
-    const newMovement = await MovementRecord.create({
-      batch_id: batchId,
-      movement_type: "received_by_pharmacist",
-      from_address: batch.manufacturer_address,
-      to_address: walletAddress || "",
-      quantity,
-      transaction_hash: blockchainResult.txHash || undefined,
-      notes: notes || undefined,
-      onchain_movement_id: blockchainResult.movementId || undefined,
-      onchain_tx_hash: blockchainResult.txHash || undefined,
-    });
-
-    // Create audit trail
-    await TraceabilityAudit.create({
-      batch_id: batchId,
-      action: "movement_recorded",
-      performed_by: "000000000000000000000001", // system user placeholder
-      blockchain_tx_hash: blockchainResult.txHash || undefined,
-      details: {
-        onchain_movement_id: blockchainResult.movementId,
-        movement_type: "received_by_pharmacist",
-        quantity,
-      },
-    });
-
-    return NextResponse.json({
-      success: true,
-      data: {
-        movementId: newMovement._id,
-        onchainMovementId: blockchainResult.movementId,
-        txHash: blockchainResult.txHash,
-      },
-      message: "Pharmacist receipt recorded successfully",
-    });
-  } catch (error: any) {
-    console.error("Error recording pharmacist receipt:", error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error.message || "Internal server error",
-      },
-      { status: 500 }
-    );
   }
-}
+);
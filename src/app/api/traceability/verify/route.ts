@@ -1,54 +1,80 @@
 /**
  * API Route: Verify Drug Authenticity
  * POST /api/traceability/verify
- * Allows patients to verify drug authenticity using verification hash
+ * Public: resolves the verification hash on a dispensing label, or one
+ * issued by the traceability contract, to the dispensed batches and their
+ * movement chain. Nothing identifying the patient is returned. Requests
+ * are rate limited per IP address.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { DatabaseManager } from "@/lib/database/connection";
-import {
-  DrugBatch,
-  MovementRecord,
-  DispensingRecord,
-  TraceabilityAudit,
-} from "@/lib/database/traceabilityModels";
+import { TraceabilityAudit } from "@/lib/database/traceabilityModels";
 import { traceabilityService } from "@/lib/services/TraceabilityService";
-import { ethers } from "ethers";
+import { getAuthUser } from "@/lib/utils/auth-helper";
+import { hasPermission } from "@/lib/utils/permissions";
+import { RateLimiter, getRateLimitKey } from "@/lib/utils/rate-limit";
+import {
+  isVerificationHashFormat,
+  resolveVerification,
+} from "@/lib/utils/drug-verification";
+import { resolveSessionSigner } from "@/lib/blockchain/signers";
+
+// 30 lookups per IP address per 10 minutes
+const verifyLimiter = new RateLimiter(30, 10 * 60 * 1000);
 
 export async function POST(req: NextRequest) {
   try {
+    const limit = verifyLimiter.consume(getRateLimitKey(req));
+    if (!limit.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Too many verification attempts. Please try again later.",
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": String(limit.retryAfter) },
+        }
+      );
+    }
+
     // Ensure database connection
     await DatabaseManager.getInstance().ensureConnection();
 
     const body = await req.json();
-    const { verificationHash, privateKey } = body;
+    const verificationHash =
+      typeof body.verificationHash === "string"
+        ? body.verificationHash.trim()
+        : body.verificationHash;
 
-    // Validate required fields
-    if (!verificationHash) {
+    if (body.privateKey !== undefined) {
       return NextResponse.json(
         {
           success: false,
-          error: "Verification hash is required",
+          error:
+            "Private keys must not be sent to the API; transactions are signed server-side",
         },
         { status: 400 }
       );
     }
 
-    // Set up signer for blockchain transaction (optional for verification)
-    if (privateKey) {
-      const provider = new ethers.JsonRpcProvider(
-        process.env.NEXT_PUBLIC_RPC_URL || "http://127.0.0.1:8545"
+    // Validate required fields
+    if (!verificationHash) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Verification hash is required",
+        },
+        { status: 400 }
       );
-      const signer = new ethers.Wallet(privateKey, provider);
-      traceabilityService.setSigner(signer);
     }
 
-    // Check database first for faster response
-    const dispensing = await DispensingRecord.findOne({
-      verification_hash: verificationHash,
-    });
+    const found = isVerificationHashFormat(verificationHash)
+      ? await resolveVerification(verificationHash)
+      : null;
 
-    if (!dispensing) {
+    if (!found) {
       return NextResponse.json(
         {
           success: false,
@@ -58,79 +84,57 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Get batch details
-    const batch = await DrugBatch.findOne({ batch_id: dispensing.batch_id });
+    // Signed-in users allowed to verify also confirm a traceability
+    // dispensing on chain, signed with their custodial key when one is
+    // provisioned; anyone else only gets the database record
+    const dispensing = found.dispensingRecord;
+    const user = dispensing ? await getAuthUser(req) : null;
+    const signer =
+      user && hasPermission(user.role, "traceability:verify")
+        ? await resolveSessionSigner(user)
+        : null;
 
-    // Verify on blockchain (optional - can be used to update verification status)
-    try {
-      const blockchainResult = await traceabilityService.verifyDrugAuthenticity(
-        verificationHash
-      );
+    if (dispensing && user && signer) {
+      try {
+        const blockchainResult =
+          await traceabilityService.verifyDrugAuthenticity(
+            signer,
+            verificationHash
+          );
 
-      if (blockchainResult.success && !dispensing.is_verified) {
-        // Update verification status in database
-        dispensing.is_verified = true;
-        dispensing.verified_at = new Date();
-        await dispensing.save();
+        if (blockchainResult.success && !dispensing.is_verified) {
+          // Update verification status in database
+          dispensing.is_verified = true;
+          dispensing.verified_at = new Date();
+          await dispensing.save();
+          Object.assign(found.result.dispensing, {
+            isVerified: true,
+            verifiedAt: dispensing.verified_at,
+          });
 
-        // Create audit trail
-        const auditRecord = new TraceabilityAudit({
-          batch_id: dispensing.batch_id,
-          action: "verification_performed",
-          performed_by: 1, // system user
-          blockchain_tx_hash: blockchainResult.txHash || null,
-          details: {
-            verification_hash: verificationHash,
-            patient_address: dispensing.patient_address,
-          },
-        });
+          // Create audit trail
+          const auditRecord = new TraceabilityAudit({
+            batch_id: dispensing.batch_id,
+            action: "verification_performed",
+            performed_by: user.id,
+            blockchain_tx_hash: blockchainResult.txHash || null,
+            details: {
+              verification_hash: verificationHash,
+              patient_address: dispensing.patient_address,
+            },
+          });
 
-        await auditRecord.save();
+          await auditRecord.save();
+        }
+      } catch (blockchainError) {
+        console.error("Blockchain verification error:", blockchainError);
+        // Continue with database info even if blockchain verification fails
       }
-    } catch (blockchainError) {
-      console.error("Blockchain verification error:", blockchainError);
-      // Continue with database info even if blockchain verification fails
     }
 
-    // Get movement history
-    const movements = await MovementRecord.find({
-      batch_id: dispensing.batch_id,
-    }).sort({ timestamp: 1 });
-
     return NextResponse.json({
       success: true,
-      data: {
-        isValid: true,
-        dispensing: {
-          dispensingId: dispensing._id,
-          batchId: dispensing.batch_id,
-          prescriptionId: dispensing.prescription_id,
-          patientAddress: dispensing.patient_address,
-          pharmacistAddress: dispensing.pharmacist_address,
-          quantity: dispensing.quantity,
-          dispensedAt: dispensing.created_at,
-          isVerified: dispensing.is_verified,
-          verifiedAt: dispensing.verified_at,
-        },
-        batch: batch
-          ? {
-              drugName: batch.drug_name,
-              batchNumber: batch.batch_number,
-              manufacturer: batch.manufacturer_address,
-              manufacturedDate: batch.manufactured_date,
-              expiryDate: batch.expiry_date,
-            }
-          : null,
-        movementHistory: movements.map((m) => ({
-          movementId: m._id,
-          movementType: m.movement_type,
-          fromAddress: m.from_address,
-          toAddress: m.to_address,
-          quantity: m.quantity,
-          timestamp: m.timestamp,
-          notes: m.notes,
-        })),
-      },
+      data: found.result,
       message: "Drug verified successfully",
     });
   } catch (error: any) {
@@ -0,0 +1,144 @@
+/**
+ * API Route: License Documents
+ * POST /api/verification/documents
+ * Upload a license document (multipart field "document"). A rejected
+ * registrant who uploads again goes back into the review queue.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { existsSync } from "fs";
+import crypto from "crypto";
+import { connectToDatabase } from "@/lib/database/connection";
+import { withPermission } from "@/lib/utils/api-middleware";
+import {
+  LICENSE_UPLOAD_DIR,
+  LICENSE_DOCUMENT_TYPES,
+  MAX_LICENSE_DOCUMENT_BYTES,
+  MAX_LICENSE_DOCUMENTS,
+  getProfessionalModel,
+  recordVerificationEvent,
+  formatVerificationSummary,
+} from "@/lib/utils/professional-verification";
+import { VerificationRole } from "@/lib/database/verificationModels";
+
+export const POST = withPermission(
+  "verification:submit",
+  async (req: NextRequest, user) => {
+    try {
+      await connectToDatabase();
+
+      const formData = await req.formData();
+      const document = formData.get("document");
+
+      if (!(document instanceof File) || document.size === 0) {
+        return NextResponse.json(
+          { success: false, error: "A license document is required" },
+          { status: 400 }
+        );
+      }
+
+      const extension = LICENSE_DOCUMENT_TYPES[document.type];
+      if (!extension) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "License documents must be PDF, JPEG or PNG files",
+          },
+          { status: 400 }
+        );
+      }
+
+      if (document.size > MAX_LICENSE_DOCUMENT_BYTES) {
+        return NextResponse.json(
+          { success: false, error: "License documents must be 10 MB or less" },
+          { status: 400 }
+        );
+      }
+
+      const role = user.role as VerificationRole;
+      const Model = getProfessionalModel(role);
+      const record: any = await Model.findOne({ user_id: user.id });
+
+      if (!record) {
+        return NextResponse.json(
+          { success: false, error: "Profile not found" },
+          { status: 404 }
+        );
+      }
+
+      if (record.verification_status === "verified") {
+        return NextResponse.json(
+          { success: false, error: "Your license is already verified" },
+          { status: 409 }
+        );
+      }
+
+      if ((record.license_documents || []).length >= MAX_LICENSE_DOCUMENTS) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `At most ${MAX_LICENSE_DOCUMENTS} license documents can be uploaded`,
+          },
+          { status: 400 }
+        );
+      }
+
+      // Stored under a random name; the original name is only metadata
+      const uploadsDir = join(LICENSE_UPLOAD_DIR, user.id);
+      if (!existsSync(uploadsDir)) {
+        await mkdir(uploadsDir, { recursive: true });
+      }
+      const fileName = `${Date.now()}-${crypto.randomBytes(8).toString("hex")}.${extension}`;
+      await writeFile(
+        join(uploadsDir, fileName),
+        Buffer.from(await document.arrayBuffer())
+      );
+
+      const resubmitted = record.verification_status === "rejected";
+      record.license_documents.push({
+        file_name: fileName,
+        original_name: document.name || fileName,
+        mime_type: document.type,
+        size: document.size,
+      });
+      record.verification_status = "pending";
+      // The earlier reason stays in the audit log
+      record.rejection_reason = undefined;
+      await record.save();
+
+      await recordVerificationEvent({
+        subjectUserId: user.id,
+        role,
+        action: "document_uploaded",
+        performedBy: user.id,
+        details: {
+          originalName: document.name,
+          size: document.size,
+          resubmitted,
+        },
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: formatVerificationSummary(record.toObject(), role),
+          message: resubmitted
+            ? "Document uploaded. Your license is back in the review queue."
+            : "Document uploaded for review",
+        },
+        { status: 201 }
+      );
+    } catch (error: any) {
+      console.error("Error uploading license document:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message || "Failed to upload license document",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,50 @@
+/**
+ * API Route: License Verification Status
+ * GET /api/verification
+ * The signed-in doctor's or pharmacist's own verification status and
+ * uploaded license documents
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/database/connection";
+import { withPermission } from "@/lib/utils/api-middleware";
+import {
+  getProfessionalModel,
+  formatVerificationSummary,
+} from "@/lib/utils/professional-verification";
+import { VerificationRole } from "@/lib/database/verificationModels";
+
+export const GET = withPermission(
+  "verification:submit",
+  async (req: NextRequest, user) => {
+    try {
+      await connectToDatabase();
+
+      const role = user.role as VerificationRole;
+      const record = await getProfessionalModel(role)
+        .findOne({ user_id: user.id })
+        .lean();
+
+      if (!record) {
+        return NextResponse.json(
+          { success: false, error: "Profile not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: formatVerificationSummary(record, role),
+      });
+    } catch (error: any) {
+      console.error("Error fetching verification status:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message || "Failed to fetch verification status",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
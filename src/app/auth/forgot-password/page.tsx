@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, MailCheck } from "lucide-react";
+import AuthCard from "@/components/AuthCard";
+import { showError } from "@/lib/utils/toast-helper";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSentMessage(data.message);
+      } else {
+        showError(data.message || "Failed to request a reset link");
+      }
+    } catch (error) {
+      showError("Failed to request a reset link");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard
+      title="Reset your password"
+      subtitle="We will email you a link to choose a new password"
+    >
+      {sentMessage ? (
+        <div className="flex items-start gap-3 p-4 bg-green-50 border border-green-200 rounded-lg text-green-800">
+          <MailCheck className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <p className="text-sm">
+            {sentMessage}. The link expires in one hour.
+          </p>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label
+              htmlFor="email"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Email Address
+            </label>
+            <input
+              id="email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+              placeholder="you@example.com"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-primary text-white py-3 rounded-lg font-medium hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {isLoading && <Loader2 className="animate-spin" size={20} />}
+            Send reset link
+          </button>
+        </form>
+      )}
+    </AuthCard>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import AuthCard from "@/components/AuthCard";
+import { showError, showSuccess } from "@/lib/utils/toast-helper";
+
+function ResetPasswordForm() {
+  const router = useRouter();
+  const token = useSearchParams()?.get("token") || "";
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      showError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        showSuccess("Password reset. You can now sign in.");
+        router.push("/");
+      } else {
+        showError(data.message || "Failed to reset password");
+      }
+    } catch (error) {
+      showError("Failed to reset password");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <p className="text-sm text-gray-600">
+        This page needs the link from your reset email. Request a new one if it
+        has expired.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label
+          htmlFor="password"
+          className="block text-sm font-medium text-gray-700 mb-2"
+        >
+          New Password
+        </label>
+        <input
+          id="password"
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+          required
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          At least 8 characters with upper and lower case letters, a number and
+          a special character (@$!%*?&).
+        </p>
+      </div>
+      <div>
+        <label
+          htmlFor="confirmPassword"
+          className="block text-sm font-medium text-gray-700 mb-2"
+        >
+          Confirm New Password
+        </label>
+        <input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+          required
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full bg-primary text-white py-3 rounded-lg font-medium hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isLoading && <Loader2 className="animate-spin" size={20} />}
+        Set new password
+      </button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <AuthCard title="Choose a new password">
+      <Suspense>
+        <ResetPasswordForm />
+      </Suspense>
+    </AuthCard>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import AuthCard from "@/components/AuthCard";
+import TwoFactorPanel from "@/components/TwoFactorPanel";
+import { useAuth } from "@/lib/auth-context";
+
+/**
+ * Enrolment for doctors, pharmacists and admins, who must turn on
+ * two-factor authentication before using the rest of the app.
+ * ProtectedRoute sends them here until they have.
+ */
+export default function TwoFactorSetupPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading, updateUser } = useAuth();
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (!isAuthenticated || !user) {
+      router.push("/");
+      return;
+    }
+
+    // Sessions stored before enrolment was tracked may already be enrolled
+    const checkStatus = async () => {
+      try {
+        const response = await fetch("/api/auth/two-factor", {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+          },
+        });
+        const data = await response.json();
+        if (data.success && data.twoFactor.enabled) {
+          updateUser({ twoFactorEnabled: true });
+          router.push(`/dashboard/${user.role}`);
+        }
+      } catch (error) {
+        console.error("Failed to check two-factor status:", error);
+      }
+    };
+    checkStatus();
+  }, [isLoading, isAuthenticated]);
+
+  return (
+    <AuthCard
+      title="Secure your account"
+      subtitle="Your role requires two-factor authentication before you continue"
+    >
+      {isLoading || !user ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <TwoFactorPanel
+          onEnabled={() => router.push(`/dashboard/${user.role}`)}
+        />
+      )}
+    </AuthCard>
+  );
+}
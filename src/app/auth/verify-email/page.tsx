@@ -0,0 +1,143 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import AuthCard from "@/components/AuthCard";
+import { showError, showSuccess } from "@/lib/utils/toast-helper";
+
+function ResendVerificationForm() {
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/auth/verify-email/resend", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        showSuccess(data.message);
+      } else {
+        showError(data.message || "Failed to send verification email");
+      }
+    } catch (error) {
+      showError("Failed to send verification email");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label
+        htmlFor="email"
+        className="block text-sm font-medium text-gray-700"
+      >
+        Send a new verification link to
+      </label>
+      <input
+        id="email"
+        type="email"
+        autoComplete="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+        placeholder="you@example.com"
+        required
+      />
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full bg-primary text-white py-3 rounded-lg font-medium hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isLoading && <Loader2 className="animate-spin" size={20} />}
+        Resend verification email
+      </button>
+    </form>
+  );
+}
+
+function VerifyEmail() {
+  const token = useSearchParams()?.get("token");
+  const [result, setResult] = useState<{
+    success: boolean;
+    message: string;
+  } | null>(null);
+  // Tokens are single-use, so confirm only once even if effects re-run
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    fetch("/api/auth/verify-email", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    })
+      .then((response) => response.json())
+      .then((data) =>
+        setResult({
+          success: data.success,
+          message: data.message || "Failed to verify email address",
+        })
+      )
+      .catch(() =>
+        setResult({
+          success: false,
+          message: "Failed to verify email address",
+        })
+      );
+  }, [token]);
+
+  if (!token) {
+    return <ResendVerificationForm />;
+  }
+
+  if (!result) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div
+        className={`flex items-start gap-3 p-4 border rounded-lg ${
+          result.success
+            ? "bg-green-50 border-green-200 text-green-800"
+            : "bg-red-50 border-red-200 text-red-800"
+        }`}
+      >
+        {result.success ? (
+          <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        ) : (
+          <XCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        )}
+        <p className="text-sm">
+          {result.success
+            ? `${result.message}. You can now sign in.`
+            : result.message}
+        </p>
+      </div>
+      {!result.success && <ResendVerificationForm />}
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <AuthCard title="Verify your email">
+      <Suspense>
+        <VerifyEmail />
+      </Suspense>
+    </AuthCard>
+  );
+}
@@ -0,0 +1,2 @@
+// Admins share the pharmacist inventory screen in its cross-pharmacy mode
+export { default } from "../../pharmacist/inventory/page";
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import {
   Users,
   Shield,
@@ -143,6 +144,30 @@ export default function AdminDashboard() {
 
   const { user } = useAuth();
 
+  // Pending approvals are doctor and pharmacist licenses awaiting review
+  useEffect(() => {
+    const fetchPendingApprovals = async () => {
+      try {
+        const token = localStorage.getItem("auth_token");
+        const response = await fetch(
+          "/api/admin/verifications?status=pending",
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        const result = await response.json();
+        if (result.success) {
+          setStats((prev) => ({
+            ...prev,
+            pendingApprovals: result.counts.pending,
+          }));
+        }
+      } catch (error) {
+        console.error("Error fetching pending approvals:", error);
+      }
+    };
+
+    fetchPendingApprovals();
+  }, []);
+
   const getActivityIcon = (type: RecentActivity["type"]) => {
     switch (type) {
       case "user":
@@ -291,10 +316,13 @@ export default function AdminDashboard() {
                   <p className="text-2xl font-bold text-gray-900">
                     {stats.pendingApprovals}
                   </p>
-                  <p className="text-xs text-yellow-600 flex items-center mt-1">
+                  <Link
+                    href="/dashboard/admin/verifications"
+                    className="text-xs text-yellow-600 flex items-center mt-1 hover:underline"
+                  >
                     <Clock size={12} className="mr-1" />
-                    Requires attention
-                  </p>
+                    Review licenses
+                  </Link>
                 </div>
                 <div className="w-12 h-12 bg-yellow-100 rounded-lg flex items-center justify-center">
                   <AlertTriangle className="text-yellow-600" size={24} />
@@ -0,0 +1,15 @@
+"use client";
+
+import DashboardLayout from "@/components/DashboardLayout";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import RecallsPanel from "@/components/RecallsPanel";
+
+export default function AdminRecallsPage() {
+  return (
+    <ProtectedRoute allowedRoles={["admin"]}>
+      <DashboardLayout title="Batch Recalls" role="admin">
+        <RecallsPanel canManage />
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
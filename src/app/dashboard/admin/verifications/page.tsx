@@ -0,0 +1,419 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  BadgeCheck,
+  FileText,
+  Loader2,
+  X,
+  CheckCircle,
+  XCircle,
+  ExternalLink,
+} from "lucide-react";
+import DashboardLayout from "@/components/DashboardLayout";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import {
+  LicenseVerification,
+  formatFileSize,
+} from "@/components/LicenseVerificationPanel";
+import { showError, showSuccess } from "@/lib/utils/toast-helper";
+
+type Status = LicenseVerification["status"];
+
+interface Registration extends LicenseVerification {
+  name?: string;
+  email?: string;
+  walletAddress?: string;
+  specialization?: string;
+  pharmacyName?: string;
+  registeredAt: string;
+}
+
+interface RegistrationDetail extends Registration {
+  history: {
+    id: string;
+    action: string;
+    performedBy?: string;
+    reason?: string;
+    details?: Record<string, any>;
+    timestamp: string;
+  }[];
+}
+
+const TABS: { status: Status; label: string }[] = [
+  { status: "pending", label: "Pending Review" },
+  { status: "verified", label: "Verified" },
+  { status: "rejected", label: "Rejected" },
+];
+
+const ACTION_LABELS: Record<string, string> = {
+  document_uploaded: "Document uploaded",
+  approved: "Approved",
+  rejected: "Rejected",
+  role_granted: "On-chain role granted",
+  role_grant_failed: "On-chain role grant failed",
+};
+
+export default function AdminVerificationsPage() {
+  const [status, setStatus] = useState<Status>("pending");
+  const [registrations, setRegistrations] = useState<Registration[]>([]);
+  const [counts, setCounts] = useState<Record<Status, number>>({
+    pending: 0,
+    verified: 0,
+    rejected: 0,
+  });
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<RegistrationDetail | null>(null);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [status]);
+
+  const authHeaders = () => ({
+    Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+  });
+
+  const fetchQueue = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/verifications?status=${status}`,
+        { headers: authHeaders() }
+      );
+      const result = await response.json();
+      if (result.success) {
+        setRegistrations(result.data);
+        setCounts(result.counts);
+      } else {
+        showError(result.error || "Failed to load registrations");
+      }
+    } catch (error) {
+      console.error("Error fetching verification queue:", error);
+      showError("Failed to load registrations");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openRegistration = async (userId: string) => {
+    try {
+      const response = await fetch(`/api/admin/verifications/${userId}`, {
+        headers: authHeaders(),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setSelected(result.data);
+        setReason("");
+      } else {
+        showError(result.error || "Failed to load registration");
+      }
+    } catch (error) {
+      console.error("Error fetching registration:", error);
+      showError("Failed to load registration");
+    }
+  };
+
+  // Documents need the auth header, so they are fetched and opened as blobs
+  const viewDocument = async (userId: string, documentId: string) => {
+    try {
+      const response = await fetch(
+        `/api/admin/verifications/${userId}/documents/${documentId}`,
+        { headers: authHeaders() }
+      );
+      if (!response.ok) {
+        const result = await response.json();
+        showError(result.error || "Failed to open document");
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, "_blank");
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error("Error opening document:", error);
+      showError("Failed to open document");
+    }
+  };
+
+  const decide = async (decision: "approve" | "reject") => {
+    if (!selected) return;
+    if (decision === "reject" && !reason.trim()) {
+      showError("Enter a reason for the rejection");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(
+        `/api/admin/verifications/${selected.userId}`,
+        {
+          method: "POST",
+          headers: { ...authHeaders(), "Content-Type": "application/json" },
+          body: JSON.stringify({ decision, reason }),
+        }
+      );
+      const result = await response.json();
+
+      if (result.success) {
+        showSuccess(result.message);
+        if (result.onchainRole?.status === "failed") {
+          showError(`On-chain role grant failed: ${result.onchainRole.reason}`);
+        }
+        setSelected(null);
+        fetchQueue();
+      } else {
+        showError(result.error || "Failed to record decision");
+      }
+    } catch (error) {
+      console.error("Error recording decision:", error);
+      showError("Failed to record decision");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute allowedRoles={["admin"]}>
+      <DashboardLayout title="License Verifications" role="admin">
+        <div className="space-y-6">
+          <div className="flex space-x-2 border-b border-gray-200">
+            {TABS.map((tab) => (
+              <button
+                key={tab.status}
+                onClick={() => setStatus(tab.status)}
+                className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                  status === tab.status
+                    ? "border-primary text-primary"
+                    : "border-transparent text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {tab.label}
+                <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs">
+                  {counts[tab.status]}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+              </div>
+            ) : registrations.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <BadgeCheck className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+                No {status} registrations
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Registrant
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Role
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      License
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Documents
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Registered
+                    </th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {registrations.map((registration) => (
+                    <tr key={registration.userId}>
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">
+                          {registration.name}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {registration.email}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700 capitalize">
+                        {registration.role}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {registration.licenseNumber}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {registration.documents.length}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {new Date(
+                          registration.registeredAt
+                        ).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => openRegistration(registration.userId)}
+                          className="text-primary hover:text-primary-dark text-sm font-medium"
+                        >
+                          {status === "pending" ? "Review" : "Details"}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {selected && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+              <div className="flex items-center justify-between p-6 border-b">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">
+                    {selected.name}
+                  </h2>
+                  <p className="text-sm text-gray-500 capitalize">
+                    {selected.role} · License {selected.licenseNumber}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setSelected(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-6">
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-gray-500">Email</dt>
+                    <dd className="text-gray-900">{selected.email}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">
+                      {selected.role === "doctor"
+                        ? "Specialization"
+                        : "Pharmacy"}
+                    </dt>
+                    <dd className="text-gray-900">
+                      {(selected.role === "doctor"
+                        ? selected.specialization
+                        : selected.pharmacyName) || "—"}
+                    </dd>
+                  </div>
+                  <div className="col-span-2">
+                    <dt className="text-gray-500">Wallet</dt>
+                    <dd className="text-gray-900 font-mono text-xs break-all">
+                      {selected.walletAddress ||
+                        "None – the on-chain role will not be granted"}
+                    </dd>
+                  </div>
+                </dl>
+
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                    License Documents
+                  </h3>
+                  {selected.documents.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      No documents uploaded
+                    </p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100 border rounded-md">
+                      {selected.documents.map((doc) => (
+                        <li
+                          key={doc.id}
+                          className="flex items-center gap-3 px-3 py-2"
+                        >
+                          <FileText className="w-4 h-4 text-gray-400" />
+                          <span className="flex-1 text-sm text-gray-900">
+                            {doc.name}
+                          </span>
+                          <span className="text-xs text-gray-500">
+                            {formatFileSize(doc.size)}
+                          </span>
+                          <button
+                            onClick={() =>
+                              viewDocument(selected.userId, doc.id)
+                            }
+                            className="text-primary hover:text-primary-dark"
+                            title="Open document"
+                          >
+                            <ExternalLink className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                    History
+                  </h3>
+                  <ul className="space-y-2">
+                    {selected.history.map((entry) => (
+                      <li key={entry.id} className="text-sm">
+                        <span className="font-medium text-gray-900">
+                          {ACTION_LABELS[entry.action] || entry.action}
+                        </span>
+                        <span className="text-gray-500">
+                          {" "}
+                          · {new Date(entry.timestamp).toLocaleString()}
+                          {entry.performedBy && ` · ${entry.performedBy}`}
+                        </span>
+                        {entry.reason && (
+                          <p className="text-gray-700">{entry.reason}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {selected.status === "pending" && (
+                  <div className="border-t pt-4 space-y-3">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Reason (required to reject)
+                    </label>
+                    <textarea
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      rows={3}
+                      maxLength={1000}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                      placeholder="e.g. License number does not match the uploaded certificate"
+                    />
+                    <div className="flex justify-end gap-3">
+                      <button
+                        onClick={() => decide("reject")}
+                        disabled={submitting}
+                        className="inline-flex items-center gap-2 px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <XCircle className="w-4 h-4" />
+                        Reject
+                      </button>
+                      <button
+                        onClick={() => decide("approve")}
+                        disabled={submitting || selected.documents.length === 0}
+                        className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <CheckCircle className="w-4 h-4" />
+                        Approve
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
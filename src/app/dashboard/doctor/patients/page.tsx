@@ -16,6 +16,7 @@ import {
 } from "lucide-react";
 import DashboardLayout from "@/components/DashboardLayout";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import BreakGlassDialog from "@/components/BreakGlassDialog";
 import { useAuth } from "@/lib/auth-context";
 import { showError } from "@/lib/utils/toast-helper";
 
@@ -33,6 +34,7 @@ interface Patient {
   status: "active" | "inactive";
   allergies?: string[];
   medicalHistory?: string;
+  dataShared?: boolean;
 }
 
 export default function DoctorPatientsPage() {
@@ -123,14 +125,17 @@ export default function DoctorPatientsPage() {
             <div>
               <h2 className="text-2xl font-bold text-gray-900">My Patients</h2>
               <p className="text-gray-600 mt-1">
-                Manage and view your patient records
+                Patients who granted you access to their records
               </p>
             </div>
-            <div className="flex items-center gap-2">
-              <Users className="w-5 h-5 text-gray-500" />
-              <span className="text-sm text-gray-600">
-                {filteredPatients.length} patients
-              </span>
+            <div className="flex items-center gap-4">
+              <BreakGlassDialog onGranted={loadPatients} />
+              <div className="flex items-center gap-2">
+                <Users className="w-5 h-5 text-gray-500" />
+                <span className="text-sm text-gray-600">
+                  {filteredPatients.length} patients
+                </span>
+              </div>
             </div>
           </div>
 
@@ -389,6 +394,12 @@ export default function DoctorPatientsPage() {
                     )}
 
                   {/* Medical History */}
+                  {selectedPatient.dataShared === false && (
+                    <p className="p-4 bg-gray-50 rounded-lg text-sm text-gray-600">
+                      This patient has not shared their medical history with
+                      doctors.
+                    </p>
+                  )}
                   {selectedPatient.medicalHistory && (
                     <div>
                       <h4 className="font-medium text-gray-900 mb-2">
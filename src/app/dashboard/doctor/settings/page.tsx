@@ -17,6 +17,8 @@ import {
 import DashboardLayout from "@/components/DashboardLayout";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import { useAuth } from "@/lib/auth-context";
+import SessionsPanel from "@/components/SessionsPanel";
+import TwoFactorPanel from "@/components/TwoFactorPanel";
 import { showError, showSuccess } from "@/lib/utils/toast-helper";
 
 interface DoctorProfile {
@@ -49,7 +51,7 @@ interface Settings {
 }
 
 export default function DoctorSettingsPage() {
-  const { user } = useAuth();
+  const { user, refreshSession } = useAuth();
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -116,7 +118,11 @@ export default function DoctorSettingsPage() {
     try {
       const [profileRes, settingsRes] = await Promise.all([
         fetch("/api/doctors/profile"),
-        fetch("/api/doctors/settings"),
+        fetch("/api/doctors/settings", {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+          },
+        }),
       ]);
 
       if (profileRes.ok) {
@@ -167,6 +173,7 @@ export default function DoctorSettingsPage() {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
         },
         body: JSON.stringify(settings),
       });
@@ -174,7 +181,8 @@ export default function DoctorSettingsPage() {
       if (response.ok) {
         showSuccess("Settings saved successfully");
       } else {
-        showError("Failed to save settings");
+        const data = await response.json().catch(() => ({}));
+        showError(data.message || "Failed to save settings");
       }
     } catch (error) {
       showError("Failed to save settings");
@@ -199,6 +207,7 @@ export default function DoctorSettingsPage() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
         },
         body: JSON.stringify({
           currentPassword: passwordForm.currentPassword,
@@ -207,6 +216,8 @@ export default function DoctorSettingsPage() {
       });
 
       if (response.ok) {
+        // Every session was revoked; pick up the one issued to this device
+        await refreshSession();
         showSuccess("Password changed successfully");
         setPasswordForm({
           currentPassword: "",
@@ -542,7 +553,6 @@ export default function DoctorSettingsPage() {
                         </div>
                         <div className="space-y-4">
                           {Object.entries({
-                            twoFactorEnabled: "Two-Factor Authentication",
                             loginAlerts: "Login Alerts",
                           }).map(([key, label]) => (
                             <div
@@ -578,6 +588,9 @@ export default function DoctorSettingsPage() {
                         </div>
                       </div>
 
+                      {/* Two-Factor Authentication */}
+                      <TwoFactorPanel />
+
                       {/* Change Password */}
                       <div>
                         <div className="flex items-center gap-3 mb-4">
@@ -701,6 +714,9 @@ export default function DoctorSettingsPage() {
                           </button>
                         </div>
                       </div>
+
+                      {/* Signed-in Devices */}
+                      <SessionsPanel />
                     </div>
                   )}
                 </>
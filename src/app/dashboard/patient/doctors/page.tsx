@@ -15,6 +15,7 @@ import {
 } from "lucide-react";
 import DashboardLayout from "@/components/DashboardLayout";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import PatientAccessPanel from "@/components/PatientAccessPanel";
 import { useAuth } from "@/lib/auth-context";
 import { showError } from "@/lib/utils/toast-helper";
 
@@ -94,11 +95,14 @@ export default function PatientDoctorsPage() {
             <div>
               <h2 className="text-2xl font-bold text-gray-900">My Doctors</h2>
               <p className="text-gray-600 mt-1">
-                View doctors you've consulted with
+                View doctors you've consulted with and choose who can see your
+                records
               </p>
             </div>
           </div>
 
+          <PatientAccessPanel />
+
           {/* Search */}
           <div className="bg-white rounded-lg shadow p-4">
             <div className="relative">
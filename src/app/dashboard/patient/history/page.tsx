@@ -28,6 +28,10 @@ interface HistoryItem {
   doctorName?: string;
   pharmacyName?: string;
   medications?: string[];
+  quantity?: number;
+  dispensedQuantity?: number;
+  remainingQuantity?: number;
+  fills?: { quantity: number; dispensedAt: string }[];
 }
 
 export default function PatientHistoryPage() {
@@ -368,6 +372,32 @@ export default function PatientHistoryPage() {
                               </div>
                             </div>
                           )}
+
+                          {/* Fills */}
+                          {item.fills &&
+                            (item.fills.length > 1 ||
+                              !!item.remainingQuantity) && (
+                              <div className="mt-3 pt-3 border-t">
+                                <p className="text-sm font-medium text-gray-700 mb-2">
+                                  Fills:
+                                </p>
+                                <ul className="space-y-1 text-sm text-gray-600">
+                                  {item.fills.map((fill, idx) => (
+                                    <li key={idx}>
+                                      {new Date(
+                                        fill.dispensedAt
+                                      ).toLocaleDateString()}{" "}
+                                      - {fill.quantity} units
+                                    </li>
+                                  ))}
+                                </ul>
+                                {!!item.remainingQuantity && (
+                                  <p className="text-sm text-yellow-700 mt-2">
+                                    {item.remainingQuantity} units outstanding
+                                  </p>
+                                )}
+                              </div>
+                            )}
                         </div>
                       </div>
                     </div>
@@ -85,7 +85,7 @@ export default function PatientDashboard() {
                   : p.status === "dispensed"
                   ? "completed"
                   : "active",
-              refillsLeft: 0, // Not in current schema
+              refillsLeft: p.refillsRemaining || 0,
               instructions: p.instructions,
             }));
             setPrescriptions(mappedPrescriptions);
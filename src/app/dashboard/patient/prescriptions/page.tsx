@@ -14,15 +14,24 @@ import {
   XCircle,
   AlertCircle,
   Filter,
+  RefreshCw,
 } from "lucide-react";
 import DashboardLayout from "@/components/DashboardLayout";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import { useAuth } from "@/lib/auth-context";
 import { showError, showSuccess } from "@/lib/utils/toast-helper";
+import {
+  groupLinesByHeader,
+  formatDiagnosis,
+  PrescriptionHeaderSummary,
+} from "@/lib/utils/prescription-groups";
 
+// One prescription line; lines from the same visit share a header
 interface Prescription {
   id: string;
   prescriptionNumber: string;
+  header?: PrescriptionHeaderSummary | null;
+  lineNumber?: number;
   medication: string; // Single medication from API
   dosage: string;
   quantity: number;
@@ -30,7 +39,13 @@ interface Prescription {
   frequency: string;
   duration: string;
   instructions: string;
-  status: "pending" | "verified" | "dispensed" | "rejected" | "expired";
+  status:
+    | "pending"
+    | "verified"
+    | "partially_dispensed"
+    | "dispensed"
+    | "rejected"
+    | "expired";
   dateIssued: string;
   dateDispensed?: string;
   doctor?: {
@@ -45,10 +60,24 @@ interface Prescription {
     licenseNumber?: string;
     pharmacyName?: string;
   };
+  refillsAuthorized: number;
+  refillsRemaining: number;
+  refillIntervalDays: number;
+  nextFillDate?: string;
+  refillRequests: RefillRequest[];
   notes?: string;
   blockchainHash?: string;
 }
 
+interface RefillRequest {
+  id: string;
+  status: "pending" | "approved" | "denied";
+  requestedAt: string;
+  note?: string;
+  respondedAt?: string;
+  responseNote?: string;
+}
+
 export default function PatientPrescriptionsPage() {
   const { user } = useAuth();
   const router = useRouter();
@@ -59,6 +88,9 @@ export default function PatientPrescriptionsPage() {
   const [filter, setFilter] = useState<
     "all" | "issued" | "dispensed" | "expired"
   >("all");
+  const [requestingRefillId, setRequestingRefillId] = useState<string | null>(
+    null
+  );
 
   useEffect(() => {
     if (!user || user.role !== "patient") {
@@ -98,10 +130,67 @@ export default function PatientPrescriptionsPage() {
     }
   };
 
+  const handleRequestRefill = async (prescription: Prescription) => {
+    setRequestingRefillId(prescription.id);
+
+    try {
+      const token = localStorage.getItem("auth_token");
+      if (!token) {
+        showError("Please log in again");
+        router.push("/login");
+        return;
+      }
+
+      const response = await fetch("/api/prescriptions/refills", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ prescriptionId: prescription.id }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        showError(data.error || "Failed to request refill");
+        return;
+      }
+
+      showSuccess(
+        `Refill requested for ${prescription.medication}. Your doctor will review it.`
+      );
+      const updated = { ...prescription, ...data.refill };
+      setPrescriptions((prev) =>
+        prev.map((p) => (p.id === prescription.id ? updated : p))
+      );
+      if (selectedPrescription?.id === prescription.id) {
+        setSelectedPrescription(updated);
+      }
+    } catch (error) {
+      showError("Failed to request refill");
+    } finally {
+      setRequestingRefillId(null);
+    }
+  };
+
+  const getPendingRefillRequest = (prescription: Prescription) =>
+    (prescription.refillRequests || []).find((r) => r.status === "pending");
+
+  const getLatestRefillRequest = (prescription: Prescription) => {
+    const requests = prescription.refillRequests || [];
+    return requests[requests.length - 1];
+  };
+
+  const canRequestRefill = (prescription: Prescription) =>
+    prescription.status === "dispensed" &&
+    prescription.refillsRemaining > 0 &&
+    !getPendingRefillRequest(prescription);
+
   const filteredPrescriptions = prescriptions.filter((prescription) => {
     if (filter === "all") return true;
     return prescription.status === filter;
   });
+  const prescriptionGroups = groupLinesByHeader(filteredPrescriptions);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -109,23 +198,31 @@ export default function PatientPrescriptionsPage() {
         return "bg-yellow-100 text-yellow-800";
       case "verified":
         return "bg-blue-100 text-blue-800";
+      case "partially_dispensed":
+        return "bg-indigo-100 text-indigo-800";
       case "dispensed":
         return "bg-green-100 text-green-800";
       case "rejected":
         return "bg-red-100 text-red-800";
       case "expired":
+      case "cancelled":
         return "bg-gray-100 text-gray-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
   };
 
+  const formatStatus = (status: string) =>
+    (status.charAt(0).toUpperCase() + status.slice(1)).replace(/_/g, " ");
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "pending":
         return <Clock className="w-4 h-4" />;
       case "verified":
         return <CheckCircle className="w-4 h-4" />;
+      case "partially_dispensed":
+        return <Clock className="w-4 h-4" />;
       case "dispensed":
         return <CheckCircle className="w-4 h-4" />;
       case "rejected":
@@ -219,100 +316,178 @@ export default function PatientPrescriptionsPage() {
             </div>
           ) : (
             <div className="grid gap-4">
-              {filteredPrescriptions.map((prescription) => (
-                <div
-                  key={prescription.id}
-                  className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow"
-                >
-                  <div className="flex items-start justify-between mb-4">
-                    <div className="flex-1">
+              {prescriptionGroups.map(({ id, header, lines }) => {
+                const status = header?.status || lines[0].status;
+                return (
+                  <div
+                    key={id}
+                    className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow"
+                  >
+                    <div className="mb-4">
                       <div className="flex items-center gap-3 mb-2">
                         <h3 className="text-lg font-semibold text-gray-900">
-                          {prescription.prescriptionNumber}
+                          {header?.prescriptionNumber ||
+                            lines[0].prescriptionNumber}
                         </h3>
                         <span
                           className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(
-                            prescription.status
+                            status
                           )}`}
                         >
-                          {getStatusIcon(prescription.status)}
-                          {prescription.status.charAt(0).toUpperCase() +
-                            prescription.status.slice(1)}
+                          {getStatusIcon(status)}
+                          {formatStatus(status)}
                         </span>
                       </div>
                       <div className="flex items-center gap-4 text-sm text-gray-600">
                         <div className="flex items-center gap-1">
                           <User className="w-4 h-4" />
                           <span>
-                            {prescription.doctor?.name || "Unknown Doctor"}
+                            {lines[0].doctor?.name || "Unknown Doctor"}
                           </span>
                         </div>
                         <div className="flex items-center gap-1">
                           <Calendar className="w-4 h-4" />
                           <span>
                             {new Date(
-                              prescription.dateIssued
+                              header?.dateIssued || lines[0].dateIssued
                             ).toLocaleDateString()}
                           </span>
                         </div>
                       </div>
+                      {header && (
+                        <p className="mt-2 text-sm text-gray-700">
+                          <span className="text-gray-500">Diagnosis:</span>{" "}
+                          {formatDiagnosis(header)}
+                        </p>
+                      )}
                     </div>
-                    <button
-                      onClick={() => setSelectedPrescription(prescription)}
-                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-                    >
-                      <Eye className="w-4 h-4" />
-                      View Details
-                    </button>
-                  </div>
 
-                  {/* Medication Summary */}
-                  <div className="border-t pt-4">
-                    <h4 className="text-sm font-medium text-gray-700 mb-2">
-                      Medication Details
-                    </h4>
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between text-sm">
-                        <div className="flex items-center gap-2">
-                          <Pill className="w-4 h-4 text-blue-600" />
-                          <span className="font-medium">
-                            {prescription.medication}
-                          </span>
-                          <span className="text-gray-600">
-                            {prescription.dosage} - {prescription.frequency}
-                          </span>
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          Qty: {prescription.quantity}
-                          {prescription.status === "dispensed" &&
-                            prescription.dispensedQuantity > 0 && (
-                              <span className="ml-2 text-green-600">
-                                (Dispensed: {prescription.dispensedQuantity})
-                              </span>
+                    {/* Prescription lines */}
+                    <div className="border-t pt-4">
+                      <h4 className="text-sm font-medium text-gray-700 mb-2">
+                        Medication Details
+                      </h4>
+                      <div className="divide-y">
+                        {lines.map((prescription) => (
+                          <div key={prescription.id} className="py-3">
+                            <div className="flex items-center justify-between text-sm">
+                              <div className="flex items-center gap-2">
+                                <Pill className="w-4 h-4 text-blue-600" />
+                                <span className="font-medium">
+                                  {prescription.medication}
+                                </span>
+                                <span className="text-gray-600">
+                                  {prescription.dosage} -{" "}
+                                  {prescription.frequency}
+                                </span>
+                                <span
+                                  className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
+                                    prescription.status
+                                  )}`}
+                                >
+                                  {formatStatus(prescription.status)}
+                                </span>
+                              </div>
+                              <div className="flex items-center gap-3">
+                                <div className="text-xs text-gray-500">
+                                  Qty: {prescription.quantity}
+                                  {prescription.dispensedQuantity > 0 && (
+                                    <span className="ml-2 text-green-600">
+                                      (Dispensed:{" "}
+                                      {prescription.dispensedQuantity})
+                                    </span>
+                                  )}
+                                </div>
+                                <button
+                                  onClick={() =>
+                                    setSelectedPrescription(prescription)
+                                  }
+                                  className="flex items-center gap-1 text-blue-600 hover:text-blue-700"
+                                >
+                                  <Eye className="w-4 h-4" />
+                                  Details
+                                </button>
+                              </div>
+                            </div>
+
+                            {/* Refills */}
+                            {prescription.refillsAuthorized > 0 && (
+                              <div className="mt-2 flex items-center justify-between text-sm">
+                                <div className="flex items-center gap-2 text-gray-600">
+                                  <RefreshCw className="w-4 h-4" />
+                                  <span>
+                                    {prescription.refillsRemaining} of{" "}
+                                    {prescription.refillsAuthorized} refills
+                                    left
+                                  </span>
+                                  {prescription.nextFillDate &&
+                                    prescription.refillsRemaining > 0 && (
+                                      <span className="text-gray-500">
+                                        · next fill from{" "}
+                                        {new Date(
+                                          prescription.nextFillDate
+                                        ).toLocaleDateString()}
+                                      </span>
+                                    )}
+                                </div>
+                                {getPendingRefillRequest(prescription) ? (
+                                  <span className="px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                                    Refill requested
+                                  </span>
+                                ) : getLatestRefillRequest(prescription)
+                                    ?.status === "denied" &&
+                                  !canRequestRefill(prescription) ? (
+                                  <span className="px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                    Refill denied
+                                  </span>
+                                ) : (
+                                  canRequestRefill(prescription) && (
+                                    <button
+                                      onClick={() =>
+                                        handleRequestRefill(prescription)
+                                      }
+                                      disabled={
+                                        requestingRefillId === prescription.id
+                                      }
+                                      className="flex items-center gap-2 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                                    >
+                                      <RefreshCw className="w-4 h-4" />
+                                      {requestingRefillId === prescription.id
+                                        ? "Requesting..."
+                                        : "Request Refill"}
+                                    </button>
+                                  )
+                                )}
+                              </div>
                             )}
-                        </div>
+
+                            {prescription.dateDispensed && (
+                              <div className="mt-2 text-xs text-gray-600">
+                                Dispensed on{" "}
+                                {new Date(
+                                  prescription.dateDispensed
+                                ).toLocaleDateString()}{" "}
+                                {prescription.pharmacist && (
+                                  <>
+                                    by {prescription.pharmacist.name}
+                                    {prescription.pharmacist.pharmacyName && (
+                                      <>
+                                        {" "}
+                                        at{" "}
+                                        {prescription.pharmacist.pharmacyName}
+                                      </>
+                                    )}
+                                  </>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
-
-                  {prescription.dateDispensed && (
-                    <div className="mt-4 pt-4 border-t text-sm text-gray-600">
-                      Dispensed on{" "}
-                      {new Date(
-                        prescription.dateDispensed
-                      ).toLocaleDateString()}{" "}
-                      {prescription.pharmacist && (
-                        <>
-                          by {prescription.pharmacist.name}
-                          {prescription.pharmacist.pharmacyName && (
-                            <> at {prescription.pharmacist.pharmacyName}</>
-                          )}
-                        </>
-                      )}
-                    </div>
-                  )}
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
@@ -342,7 +517,9 @@ export default function PatientPrescriptionsPage() {
                         Prescription #
                       </p>
                       <p className="font-medium text-gray-900 dark:text-white">
-                        {selectedPrescription.prescriptionNumber}
+                        {selectedPrescription.header
+                          ? `${selectedPrescription.header.prescriptionNumber} · line ${selectedPrescription.lineNumber}`
+                          : selectedPrescription.prescriptionNumber}
                       </p>
                     </div>
                     <div>
@@ -384,13 +561,26 @@ export default function PatientPrescriptionsPage() {
                     </div>
                   </div>
 
-                  {selectedPrescription.notes && (
+                  {selectedPrescription.header && (
+                    <div>
+                      <h4 className="font-medium text-gray-900 dark:text-white mb-2">
+                        Diagnosis
+                      </h4>
+                      <p className="text-gray-700 dark:text-gray-300">
+                        {formatDiagnosis(selectedPrescription.header)}
+                      </p>
+                    </div>
+                  )}
+
+                  {(selectedPrescription.header?.notes ||
+                    selectedPrescription.notes) && (
                     <div>
                       <h4 className="font-medium text-gray-900 dark:text-white mb-2">
                         Notes
                       </h4>
                       <p className="text-gray-700 dark:text-gray-300">
-                        {selectedPrescription.notes}
+                        {selectedPrescription.header?.notes ||
+                          selectedPrescription.notes}
                       </p>
                     </div>
                   )}
@@ -457,6 +647,34 @@ export default function PatientPrescriptionsPage() {
                     </div>
                   </div>
 
+                  {selectedPrescription.refillsAuthorized > 0 && (
+                    <div>
+                      <h4 className="font-medium text-gray-900 dark:text-white mb-2">
+                        Refills
+                      </h4>
+                      <div className="p-4 border border-gray-200 dark:border-gray-600 rounded-lg space-y-2 text-sm text-gray-700 dark:text-gray-300">
+                        <p>
+                          {selectedPrescription.refillsRemaining} of{" "}
+                          {selectedPrescription.refillsAuthorized} refills
+                          remaining
+                          {selectedPrescription.refillIntervalDays > 0 &&
+                            ` (at least ${selectedPrescription.refillIntervalDays} days apart)`}
+                        </p>
+                        {selectedPrescription.refillRequests.map((r) => (
+                          <p
+                            key={r.id}
+                            className="text-gray-600 dark:text-gray-400"
+                          >
+                            Requested{" "}
+                            {new Date(r.requestedAt).toLocaleDateString()} -{" "}
+                            <span className="font-medium">{r.status}</span>
+                            {r.responseNote && `: ${r.responseNote}`}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {selectedPrescription.dateDispensed &&
                     selectedPrescription.pharmacist && (
                       <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
@@ -19,6 +19,7 @@ import DashboardLayout from "@/components/DashboardLayout";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import { useAuth } from "@/lib/auth-context";
 import { showError, showSuccess } from "@/lib/utils/toast-helper";
+import { PatientAllergy } from "@/types";
 
 interface PatientProfile {
   firstName: string;
@@ -36,7 +37,7 @@ interface PatientProfile {
     relationship: string;
     phone: string;
   };
-  allergies: string[];
+  allergies: PatientAllergy[];
   medicalHistory: string;
   bloodType?: string;
 }
@@ -88,6 +89,8 @@ export default function PatientProfilePage() {
     getInitialProfile()
   );
   const [newAllergy, setNewAllergy] = useState("");
+  const [newAllergySeverity, setNewAllergySeverity] =
+    useState<PatientAllergy["severity"]>("moderate");
 
   useEffect(() => {
     if (!user || user.role !== "patient") {
@@ -154,9 +157,13 @@ export default function PatientProfilePage() {
     if (newAllergy.trim()) {
       setEditedProfile({
         ...editedProfile,
-        allergies: [...editedProfile.allergies, newAllergy.trim()],
+        allergies: [
+          ...editedProfile.allergies,
+          { substance: newAllergy.trim(), severity: newAllergySeverity },
+        ],
       });
       setNewAllergy("");
+      setNewAllergySeverity("moderate");
     }
   };
 
@@ -587,7 +594,10 @@ export default function PatientProfilePage() {
                           className="inline-flex items-center gap-2 px-3 py-1 bg-red-50 text-red-700 rounded-full text-sm"
                         >
                           <AlertCircle className="w-3 h-3" />
-                          {allergy}
+                          {allergy.substance}
+                          <span className="text-xs text-red-500">
+                            ({allergy.severity})
+                          </span>
                           {isEditing && (
                             <button
                               onClick={() => removeAllergy(index)}
@@ -619,6 +629,19 @@ export default function PatientProfilePage() {
                           placeholder="Add allergy"
                           className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                         />
+                        <select
+                          value={newAllergySeverity}
+                          onChange={(e) =>
+                            setNewAllergySeverity(
+                              e.target.value as PatientAllergy["severity"]
+                            )
+                          }
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="mild">Mild</option>
+                          <option value="moderate">Moderate</option>
+                          <option value="severe">Severe</option>
+                        </select>
                         <button
                           onClick={addAllergy}
                           className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -15,6 +15,8 @@ import {
 import DashboardLayout from "@/components/DashboardLayout";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import { useAuth } from "@/lib/auth-context";
+import SessionsPanel from "@/components/SessionsPanel";
+import TwoFactorPanel from "@/components/TwoFactorPanel";
 import { showError, showSuccess } from "@/lib/utils/toast-helper";
 
 interface Settings {
@@ -37,7 +39,7 @@ interface Settings {
 }
 
 export default function PatientSettingsPage() {
-  const { user } = useAuth();
+  const { user, refreshSession } = useAuth();
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -82,7 +84,11 @@ export default function PatientSettingsPage() {
   const loadSettings = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch("/api/patients/settings");
+      const response = await fetch("/api/patients/settings", {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+        },
+      });
       if (response.ok) {
         const data = await response.json();
         setSettings(data.settings || settings);
@@ -101,6 +107,7 @@ export default function PatientSettingsPage() {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
         },
         body: JSON.stringify(settings),
       });
@@ -108,7 +115,8 @@ export default function PatientSettingsPage() {
       if (response.ok) {
         showSuccess("Settings saved successfully");
       } else {
-        showError("Failed to save settings");
+        const data = await response.json().catch(() => ({}));
+        showError(data.message || "Failed to save settings");
       }
     } catch (error) {
       showError("Failed to save settings");
@@ -133,6 +141,7 @@ export default function PatientSettingsPage() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
         },
         body: JSON.stringify({
           currentPassword: passwordForm.currentPassword,
@@ -141,6 +150,8 @@ export default function PatientSettingsPage() {
       });
 
       if (response.ok) {
+        // Every session was revoked; pick up the one issued to this device
+        await refreshSession();
         showSuccess("Password changed successfully");
         setPasswordForm({
           currentPassword: "",
@@ -429,34 +440,6 @@ export default function PatientSettingsPage() {
                   </h3>
                 </div>
                 <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="font-medium text-gray-900">
-                        Two-Factor Authentication
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        Add an extra layer of security
-                      </p>
-                    </div>
-                    <label className="relative inline-flex items-center cursor-pointer">
-                      <input
-                        type="checkbox"
-                        checked={settings.security.twoFactorEnabled}
-                        onChange={(e) =>
-                          setSettings({
-                            ...settings,
-                            security: {
-                              ...settings.security,
-                              twoFactorEnabled: e.target.checked,
-                            },
-                          })
-                        }
-                        className="sr-only peer"
-                      />
-                      <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
-                    </label>
-                  </div>
-
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="font-medium text-gray-900">Login Alerts</p>
@@ -605,6 +588,16 @@ export default function PatientSettingsPage() {
                 </div>
               </div>
 
+              {/* Two-Factor Authentication */}
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <TwoFactorPanel />
+              </div>
+
+              {/* Signed-in Devices */}
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <SessionsPanel />
+              </div>
+
               {/* Save Button */}
               <div className="flex justify-end">
                 <button
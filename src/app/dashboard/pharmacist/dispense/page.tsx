@@ -17,10 +17,19 @@ import {
   Stethoscope,
   Filter,
   ArrowLeft,
+  Printer,
 } from "lucide-react";
 import DashboardLayout from "@/components/DashboardLayout";
 import { useAuth } from "@/lib/auth-context";
 import { showSuccess, showError, showWarning } from "@/lib/utils/toast-helper";
+import ScreeningWarnings, {
+  ScreeningWarning,
+} from "@/components/ScreeningWarnings";
+import StepUpDialog from "@/components/StepUpDialog";
+import {
+  groupLinesByHeader,
+  formatDiagnosis,
+} from "@/lib/utils/prescription-groups";
 
 // Force dynamic rendering for this page
 export const dynamic = "force-dynamic";
@@ -42,14 +51,17 @@ interface PendingPrescription {
   priority: "normal" | "urgent";
 }
 
+// One prescription line; id is the line's prescription id
 interface Medication {
   id: string;
+  lineNumber: number;
   drugName: string;
   dosage: string;
   frequency: string;
   duration: string;
   instructions: string;
   quantityPrescribed: number;
+  quantityDispensed: number;
   quantityAvailable: number;
   quantityToDispense: number;
   substitution?: {
@@ -60,6 +72,22 @@ interface Medication {
   verified: boolean;
 }
 
+// Lot a dispense was filled from, as returned by the dispense API
+interface DispensedLot {
+  lot_id: string;
+  batch_number: string;
+  expiry_date: string;
+  quantity: number;
+}
+
+// A dispensed line and the fill its label is printed for
+interface DispensedLine {
+  prescriptionId: string;
+  fillId?: string;
+  drugName: string;
+  lots: DispensedLot[];
+}
+
 export default function PharmacistDispensePage() {
   const { user } = useAuth();
   const router = useRouter();
@@ -74,6 +102,18 @@ export default function PharmacistDispensePage() {
   >("all");
   const [showDispenseModal, setShowDispenseModal] = useState(false);
   const [dispensingNotes, setDispensingNotes] = useState("");
+  // Reused across retries of the same dispense so the server never
+  // deducts stock twice; a fresh key is issued for each new dispense
+  const [idempotencyKey, setIdempotencyKey] = useState<string | null>(null);
+  // Severe allergy or interaction warnings returned by the dispense API
+  const [screening, setScreening] = useState<ScreeningWarning[]>([]);
+  const [overrideReason, setOverrideReason] = useState("");
+  // Controlled substances need an authenticator code before dispensing
+  const [showStepUp, setShowStepUp] = useState(false);
+  const [lastDispense, setLastDispense] = useState<{
+    prescriptionNumber: string;
+    lines: DispensedLine[];
+  } | null>(null);
 
   useEffect(() => {
     if (!user || user.role !== "pharmacist") {
@@ -89,15 +129,20 @@ export default function PharmacistDispensePage() {
 
     const prescriptionId = searchParams.get("prescription");
     if (prescriptionId && prescriptions.length > 0) {
-      // Find and auto-open the prescription
-      const prescription = prescriptions.find((p) => p.id === prescriptionId);
+      // Find and auto-open the prescription, by header or by line
+      const prescription = prescriptions.find(
+        (p) =>
+          p.id === prescriptionId ||
+          p.medications.some((med) => med.id === prescriptionId)
+      );
       if (prescription) {
         setSelectedPrescription(prescription);
+        setIdempotencyKey(crypto.randomUUID());
         setShowDispenseModal(true);
         // Update status to dispensing
         setPrescriptions((prev) =>
           prev.map((p) =>
-            p.id === prescriptionId ? { ...p, status: "dispensing" } : p
+            p.id === prescription.id ? { ...p, status: "dispensing" } : p
           )
         );
       } else {
@@ -125,41 +170,55 @@ export default function PharmacistDispensePage() {
       });
       if (response.ok) {
         const data = await response.json();
-        // Map the prescriptions to the expected format, filter out dispensed ones
-        const formattedPrescriptions = (data.prescriptions || [])
-          .filter((p: any) => p.status !== "dispensed") // Only show prescriptions that can be dispensed
-          .map((p: any) => ({
-            id: p.id,
-            prescriptionNumber: p.prescriptionNumber,
-            patientName: p.patient?.name || "Unknown",
-            patientId: p.patient?.id || "N/A",
-            patientAge: p.patient?.dateOfBirth
-              ? new Date().getFullYear() -
-                new Date(p.patient.dateOfBirth).getFullYear()
-              : 0,
-            patientPhone: p.patient?.phone || "N/A",
-            doctorName: p.doctor?.name || "Unknown",
-            doctorLicense: p.doctor?.licenseNumber || "N/A",
-            diagnosis: p.instructions || "No diagnosis provided",
-            dateIssued: p.dateIssued,
-            medications: [
-              {
-                id: p.id + "-med-1",
-                drugName: p.medication,
-                dosage: p.dosage,
-                frequency: p.frequency,
-                duration: p.duration,
-                instructions: p.instructions || "",
-                quantityPrescribed: p.quantity,
-                quantityAvailable: p.quantity, // Assume available for now
-                quantityToDispense: p.quantity,
+        // Group the lines that can still be dispensed under their
+        // prescription header
+        const groups = groupLinesByHeader<any>(
+          (data.prescriptions || []).filter(
+            (p: any) => p.status !== "dispensed"
+          )
+        );
+        const formattedPrescriptions: PendingPrescription[] = groups.map(
+          ({ id, header, lines }) => {
+            const p = lines[0];
+            return {
+              id,
+              prescriptionNumber:
+                header?.prescriptionNumber || p.prescriptionNumber,
+              patientName: p.patient?.name || "Unknown",
+              patientId: p.patient?.id || "N/A",
+              patientAge: p.patient?.dateOfBirth
+                ? new Date().getFullYear() -
+                  new Date(p.patient.dateOfBirth).getFullYear()
+                : 0,
+              patientPhone: p.patient?.phone || "N/A",
+              doctorName: p.doctor?.name || "Unknown",
+              doctorLicense: p.doctor?.licenseNumber || "N/A",
+              // Prescriptions written before headers kept it in the notes
+              diagnosis: header
+                ? formatDiagnosis(header)
+                : p.notes || "No diagnosis provided",
+              dateIssued: header?.dateIssued || p.dateIssued,
+              medications: lines.map((line: any) => ({
+                id: line.id,
+                lineNumber: line.lineNumber || 1,
+                drugName: line.medication,
+                dosage: line.dosage,
+                frequency: line.frequency,
+                duration: line.duration,
+                instructions: line.instructions || "",
+                quantityPrescribed: line.quantity,
+                quantityDispensed: line.dispensedQuantity || 0,
+                // Capped at the outstanding balance on the line
+                quantityAvailable: line.remainingQuantity ?? line.quantity,
+                quantityToDispense: line.remainingQuantity ?? line.quantity,
                 verified: false,
-              },
-            ],
-            notes: p.notes || "",
-            status: p.status === "verified" ? "pending" : p.status,
-            priority: "normal" as const,
-          }));
+              })),
+              notes: header?.notes || "",
+              status: "pending",
+              priority: "normal",
+            };
+          }
+        );
         setPrescriptions(formattedPrescriptions);
       } else {
         showError("Failed to load pending prescriptions");
@@ -253,6 +312,9 @@ export default function PharmacistDispensePage() {
 
   const handleStartDispensing = (prescription: PendingPrescription) => {
     setSelectedPrescription(prescription);
+    setIdempotencyKey(crypto.randomUUID());
+    setScreening([]);
+    setOverrideReason("");
     setShowDispenseModal(true);
 
     // Update status to dispensing
@@ -263,6 +325,35 @@ export default function PharmacistDispensePage() {
     );
   };
 
+  // Labels carry a QR code the patient can scan to verify the medication
+  const handlePrintLabel = async (line: DispensedLine) => {
+    try {
+      const params = new URLSearchParams({
+        prescriptionId: line.prescriptionId,
+        ...(line.fillId ? { fillId: line.fillId } : {}),
+      });
+      const response = await fetch(
+        `/api/prescriptions/dispense/label?${params.toString()}`,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+          },
+        }
+      );
+      if (!response.ok) {
+        const result = await response.json();
+        showError(result.error || "Failed to generate label");
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, "_blank");
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error("Error generating label:", error);
+      showError("Failed to generate label");
+    }
+  };
+
   const handleCompleteDispensing = async () => {
     if (!selectedPrescription) return;
 
@@ -283,57 +374,119 @@ export default function PharmacistDispensePage() {
         return;
       }
 
-      // Calculate total quantity to dispense
-      const totalQuantity = selectedPrescription.medications.reduce(
-        (sum, med) => sum + med.quantityToDispense,
-        0
+      // Each line is dispensed on its own; lines left at zero are skipped
+      const lines = selectedPrescription.medications.filter(
+        (med) => med.quantityToDispense > 0
       );
-
-      // Call the dispense API
-      const response = await fetch("/api/prescriptions/dispense", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          prescriptionId: selectedPrescription.id,
-          quantityDispensed: totalQuantity,
-          notes:
-            dispensingNotes ||
-            `Dispensed ${selectedPrescription.prescriptionNumber}`,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        showError(error.error || "Failed to dispense prescription");
+      if (lines.length === 0) {
+        showError("Enter a quantity to dispense for at least one medication");
         return;
       }
 
-      const data = await response.json();
+      const dispenseKey = idempotencyKey || crypto.randomUUID();
+      if (!idempotencyKey) {
+        setIdempotencyKey(dispenseKey);
+      }
 
-      // Update prescription status locally
-      setPrescriptions((prev) =>
-        prev.map((p) =>
-          p.id === selectedPrescription.id ? { ...p, status: "dispensed" } : p
-        )
-      );
+      const dispensedLines: DispensedLine[] = [];
+      const counselling: ScreeningWarning[] = [];
+      let outstanding = 0;
+      let allReplayed = true;
+
+      for (const line of lines) {
+        // Per-line key derived from the dispense key, so a retry after a
+        // failed line replays the lines that already went through
+        const response = await fetch("/api/prescriptions/dispense", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+            "Idempotency-Key": `${dispenseKey}-${line.id}`,
+          },
+          body: JSON.stringify({
+            prescriptionId: line.id,
+            quantityDispensed: line.quantityToDispense,
+            notes:
+              dispensingNotes ||
+              `Dispensed ${selectedPrescription.prescriptionNumber} line ${line.lineNumber}`,
+            overrideReason: overrideReason.trim() || undefined,
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.json();
+          // Lines already dispensed are replayed when this is retried
+          if (error.code === "STEP_UP_REQUIRED") {
+            setShowStepUp(true);
+            return;
+          }
+          if (response.status === 409 && error.screening) {
+            setScreening(error.screening);
+          }
+          showError(
+            `${line.drugName}: ${error.error || "Failed to dispense prescription"}`
+          );
+          return;
+        }
+
+        const data = await response.json();
+        if (response.headers.get("Idempotent-Replayed") !== "true") {
+          allReplayed = false;
+        }
+        outstanding += data.data?.remainingQuantity ?? 0;
+
+        if (data.data?.lots?.length) {
+          dispensedLines.push({
+            prescriptionId: line.id,
+            fillId: data.data.label?.fillId,
+            drugName: data.data.drug?.name || line.drugName,
+            lots: data.data.lots,
+          });
+        }
+
+        // Show low stock alert if present
+        if (data.data?.lowStockAlert) {
+          showWarning(
+            `Low stock alert: ${data.data.lowStockAlert.drug} - ${data.data.lowStockAlert.currentStock} units remaining`
+          );
+        }
+
+        counselling.push(...(data.data?.screening || []));
+      }
 
       showSuccess(
-        `Prescription ${selectedPrescription.prescriptionNumber} dispensed successfully`
+        allReplayed
+          ? `Prescription ${selectedPrescription.prescriptionNumber} was already dispensed`
+          : outstanding > 0 ||
+              lines.length < selectedPrescription.medications.length
+            ? `Prescription ${selectedPrescription.prescriptionNumber} partially dispensed`
+            : `Prescription ${selectedPrescription.prescriptionNumber} dispensed successfully`
       );
 
-      // Show low stock alert if present
-      if (data.data?.lowStockAlert) {
+      // Keep the lots used on screen so they can be checked against the
+      // packs handed over
+      if (dispensedLines.length > 0) {
+        setLastDispense({
+          prescriptionNumber: selectedPrescription.prescriptionNumber,
+          lines: dispensedLines,
+        });
+      }
+
+      // Warnings that did not block the dispense still need counselling
+      if (counselling.length > 0) {
         showWarning(
-          `Low stock alert: ${data.data.lowStockAlert.drug} - ${data.data.lowStockAlert.currentStock} units remaining`
+          counselling
+            .map((w: ScreeningWarning) => `${w.conflictsWith}: ${w.message}`)
+            .join("; ")
         );
       }
 
       setShowDispenseModal(false);
       setSelectedPrescription(null);
       setDispensingNotes("");
+      setIdempotencyKey(null);
+      setScreening([]);
+      setOverrideReason("");
 
       // Reload prescriptions to get updated list
       await loadPendingPrescriptions();
@@ -444,6 +597,59 @@ export default function PharmacistDispensePage() {
           </div>
         </div>
 
+        {/* Lots used by the last dispense */}
+        {lastDispense && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="text-sm font-medium text-green-900">
+                  {lastDispense.prescriptionNumber} dispensed from
+                </h3>
+                {lastDispense.lines.map((line, index) => (
+                  <div key={index} className="mt-2">
+                    <div className="flex items-center space-x-3">
+                      <p className="text-sm font-medium text-green-900">
+                        {line.drugName}
+                      </p>
+                      {line.fillId && (
+                        <button
+                          onClick={() => handlePrintLabel(line)}
+                          className="flex items-center space-x-1 text-sm text-green-700 hover:text-green-900"
+                        >
+                          <Printer className="w-4 h-4" />
+                          <span>Print label</span>
+                        </button>
+                      )}
+                    </div>
+                    <ul className="mt-1 space-y-1 text-sm text-green-800">
+                      {line.lots.map((lot) => (
+                        <li
+                          key={lot.lot_id}
+                          className="flex items-center space-x-2"
+                        >
+                          <Package className="w-4 h-4" />
+                          <span>
+                            Batch {lot.batch_number} &middot; {lot.quantity}{" "}
+                            units &middot; expires{" "}
+                            {new Date(lot.expiry_date).toLocaleDateString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => setLastDispense(null)}
+                className="text-green-700 hover:text-green-900"
+                aria-label="Dismiss"
+              >
+                <XCircle className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Prescriptions List */}
         <div className="space-y-4">
           {filteredPrescriptions.length === 0 ? (
@@ -573,6 +779,12 @@ export default function PharmacistDispensePage() {
                                       Prescribed:{" "}
                                       {medication.quantityPrescribed}
                                     </span>
+                                    {medication.quantityDispensed > 0 && (
+                                      <span className="text-sm text-blue-600">
+                                        Already dispensed:{" "}
+                                        {medication.quantityDispensed}
+                                      </span>
+                                    )}
                                     <span
                                       className={`text-sm ${
                                         medication.quantityAvailable >=
@@ -834,6 +1046,12 @@ export default function PharmacistDispensePage() {
                     placeholder="Add any notes about the dispensing process..."
                   />
                 </div>
+
+                <ScreeningWarnings
+                  warnings={screening}
+                  overrideReason={overrideReason}
+                  onOverrideReasonChange={setOverrideReason}
+                />
               </div>
 
               <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
@@ -867,6 +1085,15 @@ export default function PharmacistDispensePage() {
             </div>
           </div>
         )}
+
+        <StepUpDialog
+          open={showStepUp}
+          onCancel={() => setShowStepUp(false)}
+          onConfirmed={() => {
+            setShowStepUp(false);
+            handleCompleteDispensing();
+          }}
+        />
       </div>
     </DashboardLayout>
   );
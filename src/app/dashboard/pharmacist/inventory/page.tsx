@@ -5,6 +5,7 @@ import DashboardLayout from "@/components/DashboardLayout";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import AddDrugModal from "@/components/AddDrugModal";
 import UpdateStockModal from "@/components/UpdateStockModal";
+import { useAuth } from "@/lib/auth-context";
 import {
   Package,
   Plus,
@@ -20,6 +21,9 @@ import {
 } from "lucide-react";
 
 export default function InventoryPage() {
+  const { user } = useAuth();
+  // Admins get a read-only view across every pharmacy
+  const isAdmin = user?.role === "admin";
   const [drugs, setDrugs] = useState<any[]>([]);
   const [alerts, setAlerts] = useState<any>({
     lowStock: [],
@@ -35,16 +39,41 @@ export default function InventoryPage() {
   const [activeTab, setActiveTab] = useState<
     "all" | "low-stock" | "expiring" | "expired"
   >("all");
+  const [pharmacies, setPharmacies] = useState<any[]>([]);
+  const [pharmacyId, setPharmacyId] = useState("");
+
+  useEffect(() => {
+    if (isAdmin) fetchPharmacies();
+  }, [isAdmin]);
 
   useEffect(() => {
     fetchDrugs();
     fetchAlerts();
-  }, []);
+  }, [pharmacyId]);
+
+  const pharmacyQuery = pharmacyId ? `pharmacyId=${pharmacyId}` : "";
+
+  const fetchPharmacies = async () => {
+    try {
+      const token = localStorage.getItem("auth_token");
+      const response = await fetch("/api/pharmacies", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+      if (data.success) {
+        setPharmacies(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching pharmacies:", error);
+    }
+  };
 
   const fetchDrugs = async () => {
     try {
       const token = localStorage.getItem("auth_token");
-      const response = await fetch("/api/drugs", {
+      const response = await fetch(`/api/drugs?${pharmacyQuery}`, {
         headers: {
           Authorization: `Bearer ${token}`,
         },
@@ -63,11 +92,14 @@ export default function InventoryPage() {
   const fetchAlerts = async () => {
     try {
       const token = localStorage.getItem("auth_token");
-      const response = await fetch("/api/drugs/alerts?type=all", {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await fetch(
+        `/api/drugs/alerts?type=all&${pharmacyQuery}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
       const data = await response.json();
       if (data.success) {
         setAlerts(data.data);
@@ -106,11 +138,14 @@ export default function InventoryPage() {
   const handleExportReport = async () => {
     try {
       const token = localStorage.getItem("auth_token");
-      const response = await fetch("/api/drugs/reports?type=summary", {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const response = await fetch(
+        `/api/drugs/reports?type=summary&${pharmacyQuery}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
       const data = await response.json();
 
       // Download as JSON
@@ -169,8 +204,11 @@ export default function InventoryPage() {
   );
 
   return (
-    <ProtectedRoute allowedRoles={["pharmacist"]}>
-      <DashboardLayout title="Inventory Management" role="pharmacist">
+    <ProtectedRoute allowedRoles={["pharmacist", "admin"]}>
+      <DashboardLayout
+        title="Inventory Management"
+        role={isAdmin ? "admin" : "pharmacist"}
+      >
         <div className="space-y-6">
           {/* Header */}
           <div className="flex justify-between items-center">
@@ -179,10 +217,26 @@ export default function InventoryPage() {
                 Drug Inventory Management
               </h1>
               <p className="text-gray-600 mt-1">
-                Manage drugs with blockchain traceability
+                {isAdmin
+                  ? "Stock across all pharmacies"
+                  : "Manage drugs with blockchain traceability"}
               </p>
             </div>
             <div className="flex space-x-3">
+              {isAdmin && (
+                <select
+                  value={pharmacyId}
+                  onChange={(e) => setPharmacyId(e.target.value)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  <option value="">All Pharmacies</option>
+                  {pharmacies.map((pharmacy) => (
+                    <option key={pharmacy._id} value={pharmacy._id}>
+                      {pharmacy.name}
+                    </option>
+                  ))}
+                </select>
+              )}
               <button
                 onClick={handleExportReport}
                 className="flex items-center space-x-2 px-4 py-2 border border-purple-600 text-purple-600 rounded-lg hover:bg-purple-50 transition"
@@ -190,13 +244,15 @@ export default function InventoryPage() {
                 <Download className="h-5 w-5" />
                 <span>Export Report</span>
               </button>
-              <button
-                onClick={() => setShowAddModal(true)}
-                className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition"
-              >
-                <Plus className="h-5 w-5" />
-                <span>Add Drug</span>
-              </button>
+              {!isAdmin && (
+                <button
+                  onClick={() => setShowAddModal(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition"
+                >
+                  <Plus className="h-5 w-5" />
+                  <span>Add Drug</span>
+                </button>
+              )}
             </div>
           </div>
 
@@ -434,6 +490,13 @@ export default function InventoryPage() {
                               <div className="text-sm text-gray-500">
                                 {drug.generic_name || drug.manufacturer}
                               </div>
+                              {isAdmin && (
+                                <div className="text-xs text-gray-400">
+                                  {pharmacies.find(
+                                    (p) => p._id === drug.pharmacy_id
+                                  )?.name || "Unassigned pharmacy"}
+                                </div>
+                              )}
                             </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
@@ -489,20 +552,24 @@ export default function InventoryPage() {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                             <div className="flex justify-end space-x-2">
-                              <button
-                                onClick={() => handleUpdateStock(drug)}
-                                className="text-purple-600 hover:text-purple-900 transition"
-                                title="Update Stock"
-                              >
-                                <Edit2 className="h-5 w-5" />
-                              </button>
-                              <button
-                                onClick={() => handleDeleteDrug(drug._id)}
-                                className="text-red-600 hover:text-red-900 transition"
-                                title="Delete Drug"
-                              >
-                                <Trash2 className="h-5 w-5" />
-                              </button>
+                              {!isAdmin && (
+                                <>
+                                  <button
+                                    onClick={() => handleUpdateStock(drug)}
+                                    className="text-purple-600 hover:text-purple-900 transition"
+                                    title="Update Stock"
+                                  >
+                                    <Edit2 className="h-5 w-5" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteDrug(drug._id)}
+                                    className="text-red-600 hover:text-red-900 transition"
+                                    title="Delete Drug"
+                                  >
+                                    <Trash2 className="h-5 w-5" />
+                                  </button>
+                                </>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -16,6 +16,7 @@ import {
 } from "lucide-react";
 import DashboardLayout from "@/components/DashboardLayout";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import BreakGlassDialog from "@/components/BreakGlassDialog";
 import { useAuth } from "@/lib/auth-context";
 
 interface Patient {
@@ -135,16 +136,19 @@ export default function PharmacistPatientsPage() {
                 Patient Records
               </h2>
               <p className="text-gray-600 dark:text-gray-400 mt-1">
-                View and manage patient information
+                Patients who granted your pharmacy access to their records
               </p>
             </div>
-            <div className="px-4 py-2 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-              <p className="text-sm text-gray-600 dark:text-gray-400">
-                Total Patients
-              </p>
-              <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                {patients.length}
-              </p>
+            <div className="flex items-center gap-4">
+              <BreakGlassDialog onGranted={loadPatients} />
+              <div className="px-4 py-2 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Total Patients
+                </p>
+                <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+                  {patients.length}
+                </p>
+              </div>
             </div>
           </div>
 
@@ -184,12 +188,12 @@ export default function PharmacistPatientsPage() {
                     💡 Getting Started
                   </h4>
                   <p className="text-sm text-blue-800 dark:text-blue-200 mb-2">
-                    To see patient records, you need to:
+                    Patients choose which pharmacies see their records:
                   </p>
                   <ol className="text-sm text-blue-800 dark:text-blue-200 list-decimal list-inside space-y-1">
-                    <li>Create a patient account via the registration page</li>
-                    <li>Or have a doctor create prescriptions for patients</li>
-                    <li>Patient records will automatically appear here</li>
+                    <li>The patient opens My Doctors in their dashboard</li>
+                    <li>They grant access to your pharmacy</li>
+                    <li>Their records and prescriptions then appear here</li>
                   </ol>
                   <p className="text-xs text-blue-700 dark:text-blue-300 mt-3">
                     Check the browser console (F12) for more details.
@@ -20,6 +20,11 @@ import DashboardLayout from "@/components/DashboardLayout";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import { useAuth } from "@/lib/auth-context";
 import { showError } from "@/lib/utils/toast-helper";
+import {
+  groupLinesByHeader,
+  formatDiagnosis,
+  PrescriptionHeaderSummary,
+} from "@/lib/utils/prescription-groups";
 
 interface Medication {
   name: string;
@@ -28,19 +33,38 @@ interface Medication {
   duration: string;
 }
 
+interface PrescriptionFill {
+  quantity: number;
+  dispensedAt: string;
+  pharmacistName?: string;
+  blockchainHash?: string;
+  notes?: string;
+}
+
+// One prescription line; lines from the same visit share a header
 interface Prescription {
   id: string;
   prescriptionNumber: string;
+  header?: PrescriptionHeaderSummary | null;
+  lineNumber?: number;
   medication: string;
   genericName?: string;
   dosage: string;
   dosageForm?: string;
   quantity: number;
   dispensedQuantity?: number;
+  remainingQuantity?: number;
+  fills?: PrescriptionFill[];
   frequency: string;
   duration: string;
   instructions?: string;
-  status: "pending" | "verified" | "dispensed" | "rejected" | "expired";
+  status:
+    | "pending"
+    | "verified"
+    | "partially_dispensed"
+    | "dispensed"
+    | "rejected"
+    | "expired";
   dateIssued: string;
   dateDispensed?: string;
   patient: {
@@ -136,6 +160,7 @@ export default function PharmacistPrescriptionsPage() {
       filtered = filtered.filter(
         (p) =>
           (p.prescriptionNumber || "").toLowerCase().includes(term) ||
+          (p.header?.prescriptionNumber || "").toLowerCase().includes(term) ||
           (p.patient?.name || "").toLowerCase().includes(term) ||
           (p.doctor?.name || "").toLowerCase().includes(term) ||
           (p.medication || "").toLowerCase().includes(term)
@@ -153,6 +178,12 @@ export default function PharmacistPrescriptionsPage() {
         icon: Clock,
         label: "Pending",
       },
+      partially_dispensed: {
+        color:
+          "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+        icon: Package,
+        label: "Partially Dispensed",
+      },
       dispensed: {
         color:
           "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
@@ -169,6 +200,11 @@ export default function PharmacistPrescriptionsPage() {
         icon: AlertCircle,
         label: "Expired",
       },
+      cancelled: {
+        color: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-400",
+        icon: XCircle,
+        label: "Cancelled",
+      },
     };
 
     const statusConfig =
@@ -258,6 +294,9 @@ export default function PharmacistPrescriptionsPage() {
                 >
                   <option value="all">All Status</option>
                   <option value="pending">Pending</option>
+                  <option value="partially_dispensed">
+                    Partially Dispensed
+                  </option>
                   <option value="dispensed">Dispensed</option>
                   <option value="rejected">Rejected</option>
                   <option value="expired">Expired</option>
@@ -285,18 +324,19 @@ export default function PharmacistPrescriptionsPage() {
             </div>
           ) : (
             <div className="grid grid-cols-1 gap-4">
-              {filteredPrescriptions.map((prescription) => (
-                <div
-                  key={prescription.id}
-                  className="bg-white dark:bg-gray-800 rounded-lg shadow hover:shadow-md transition-shadow p-6"
-                >
-                  <div className="flex items-start justify-between mb-4">
-                    <div className="flex-1">
+              {groupLinesByHeader(filteredPrescriptions).map(
+                ({ id, header, lines }) => (
+                  <div
+                    key={id}
+                    className="bg-white dark:bg-gray-800 rounded-lg shadow hover:shadow-md transition-shadow p-6"
+                  >
+                    <div className="mb-4">
                       <div className="flex items-center gap-3 mb-2">
                         <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                          {prescription.prescriptionNumber}
+                          {header?.prescriptionNumber ||
+                            lines[0].prescriptionNumber}
                         </h3>
-                        {getStatusBadge(prescription.status)}
+                        {getStatusBadge(header?.status || lines[0].status)}
                       </div>
                       <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
                         <div className="flex items-center gap-2">
@@ -304,7 +344,7 @@ export default function PharmacistPrescriptionsPage() {
                           <span>
                             Patient:{" "}
                             <strong className="text-gray-900 dark:text-white">
-                              {prescription.patient?.name || "Unknown"}
+                              {lines[0].patient?.name || "Unknown"}
                             </strong>
                           </span>
                         </div>
@@ -313,7 +353,7 @@ export default function PharmacistPrescriptionsPage() {
                           <span>
                             Doctor:{" "}
                             <strong className="text-gray-900 dark:text-white">
-                              {prescription.doctor?.name || "Unknown"}
+                              {lines[0].doctor?.name || "Unknown"}
                             </strong>
                           </span>
                         </div>
@@ -321,64 +361,83 @@ export default function PharmacistPrescriptionsPage() {
                           <Calendar className="w-4 h-4" />
                           <span>
                             {new Date(
-                              prescription.dateIssued
+                              header?.dateIssued || lines[0].dateIssued
                             ).toLocaleDateString()}
                           </span>
                         </div>
+                        {header && (
+                          <div className="flex items-center gap-2">
+                            <FileText className="w-4 h-4" />
+                            <span>Diagnosis: {formatDiagnosis(header)}</span>
+                          </div>
+                        )}
                       </div>
                     </div>
-                    <button
-                      onClick={() => openDetailsModal(prescription)}
-                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-                    >
-                      <Eye className="w-4 h-4" />
-                      View Details
-                    </button>
-                  </div>
 
-                  {/* Medication Info */}
-                  <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
-                    <div className="flex items-center gap-2 mb-2">
-                      <Pill className="w-4 h-4 text-blue-600 dark:text-blue-400" />
-                      <span className="text-sm font-medium text-gray-900 dark:text-white">
-                        Medication
-                      </span>
-                    </div>
-                    <div className="space-y-1">
-                      <div className="px-3 py-2 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-                        <p className="text-sm font-medium text-blue-900 dark:text-blue-300">
-                          {prescription.medication}
-                        </p>
-                        <p className="text-xs text-blue-700 dark:text-blue-400">
-                          {prescription.dosage} -{" "}
-                          {prescription.dosageForm || "N/A"}
-                        </p>
-                        <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
-                          Qty: {prescription.quantity} |{" "}
-                          {prescription.frequency} | {prescription.duration}
-                        </p>
+                    {/* Prescription lines */}
+                    <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Pill className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                        <span className="text-sm font-medium text-gray-900 dark:text-white">
+                          {lines.length === 1 ? "Medication" : "Medications"}
+                        </span>
+                      </div>
+                      <div className="space-y-2">
+                        {lines.map((prescription) => (
+                          <div
+                            key={prescription.id}
+                            className="px-3 py-2 bg-blue-50 dark:bg-blue-900/20 rounded-lg flex items-start justify-between"
+                          >
+                            <div>
+                              <p className="text-sm font-medium text-blue-900 dark:text-blue-300">
+                                {prescription.medication}
+                              </p>
+                              <p className="text-xs text-blue-700 dark:text-blue-400">
+                                {prescription.dosage} -{" "}
+                                {prescription.dosageForm || "N/A"}
+                              </p>
+                              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                                Qty: {prescription.quantity} |{" "}
+                                {prescription.frequency} |{" "}
+                                {prescription.duration}
+                              </p>
+                              {prescription.status ===
+                                "partially_dispensed" && (
+                                <p className="text-xs text-blue-700 dark:text-blue-400 mt-1">
+                                  Dispensed {prescription.dispensedQuantity} of{" "}
+                                  {prescription.quantity} |{" "}
+                                  {prescription.remainingQuantity} outstanding
+                                </p>
+                              )}
+                              {prescription.status === "dispensed" &&
+                                prescription.dateDispensed && (
+                                  <p className="text-xs text-green-700 dark:text-green-400 mt-1">
+                                    Dispensed on{" "}
+                                    {new Date(
+                                      prescription.dateDispensed
+                                    ).toLocaleDateString()}
+                                    {prescription.pharmacist &&
+                                      ` by ${prescription.pharmacist.name}`}
+                                  </p>
+                                )}
+                            </div>
+                            <div className="flex flex-col items-end gap-2">
+                              {getStatusBadge(prescription.status)}
+                              <button
+                                onClick={() => openDetailsModal(prescription)}
+                                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                              >
+                                <Eye className="w-4 h-4" />
+                                Details
+                              </button>
+                            </div>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
-
-                  {prescription.status === "dispensed" &&
-                    prescription.dateDispensed && (
-                      <div className="mt-4 p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
-                        <div className="flex items-center gap-2 text-sm text-green-800 dark:text-green-400">
-                          <Package className="w-4 h-4" />
-                          <span>
-                            Dispensed on{" "}
-                            {new Date(
-                              prescription.dateDispensed
-                            ).toLocaleDateString()}
-                            {prescription.pharmacist &&
-                              ` by ${prescription.pharmacist.name}`}
-                          </span>
-                        </div>
-                      </div>
-                    )}
-                </div>
-              ))}
+                )
+              )}
             </div>
           )}
         </div>
@@ -391,7 +450,9 @@ export default function PharmacistPrescriptionsPage() {
                 <div className="flex items-start justify-between">
                   <div>
                     <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
-                      {selectedPrescription.prescriptionNumber}
+                      {selectedPrescription.header
+                        ? `${selectedPrescription.header.prescriptionNumber} · line ${selectedPrescription.lineNumber}`
+                        : selectedPrescription.prescriptionNumber}
                     </h2>
                     {getStatusBadge(selectedPrescription.status)}
                   </div>
@@ -536,6 +597,45 @@ export default function PharmacistPrescriptionsPage() {
                   </div>
                 </div>
 
+                {/* Fill History */}
+                {selectedPrescription.fills &&
+                  selectedPrescription.fills.length > 0 && (
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+                        Fill History
+                      </h3>
+                      <div className="space-y-2">
+                        {selectedPrescription.fills.map((fill, index) => (
+                          <div
+                            key={index}
+                            className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm"
+                          >
+                            <div>
+                              <p className="font-medium text-gray-900 dark:text-white">
+                                {fill.quantity} units
+                              </p>
+                              <p className="text-xs text-gray-600 dark:text-gray-400">
+                                {new Date(fill.dispensedAt).toLocaleString()}
+                                {fill.pharmacistName &&
+                                  ` by ${fill.pharmacistName}`}
+                              </p>
+                            </div>
+                            {fill.blockchainHash && (
+                              <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                                {fill.blockchainHash.substring(0, 12)}...
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                      <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+                        <span className="font-medium">Outstanding:</span>{" "}
+                        {selectedPrescription.remainingQuantity ?? 0} of{" "}
+                        {selectedPrescription.quantity}
+                      </p>
+                    </div>
+                  )}
+
                 {/* Dispensed Info */}
                 {selectedPrescription.status === "dispensed" && (
                   <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
@@ -585,7 +685,8 @@ export default function PharmacistPrescriptionsPage() {
                 >
                   Close
                 </button>
-                {selectedPrescription.status === "pending" && (
+                {(selectedPrescription.status === "pending" ||
+                  selectedPrescription.status === "partially_dispensed") && (
                   <button
                     onClick={() => {
                       router.push(
@@ -0,0 +1,15 @@
+"use client";
+
+import DashboardLayout from "@/components/DashboardLayout";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import RecallsPanel from "@/components/RecallsPanel";
+
+export default function PharmacistRecallsPage() {
+  return (
+    <ProtectedRoute allowedRoles={["pharmacist"]}>
+      <DashboardLayout title="Batch Recalls" role="pharmacist">
+        <RecallsPanel canManage={false} />
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -6,6 +6,8 @@ import { Lock, Bell, Shield, Eye, EyeOff, Save } from "lucide-react";
 import DashboardLayout from "@/components/DashboardLayout";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import { useAuth } from "@/lib/auth-context";
+import SessionsPanel from "@/components/SessionsPanel";
+import TwoFactorPanel from "@/components/TwoFactorPanel";
 import { showError, showSuccess } from "@/lib/utils/toast-helper";
 
 interface Settings {
@@ -27,7 +29,7 @@ interface Settings {
 }
 
 export default function PharmacistSettingsPage() {
-  const { user } = useAuth();
+  const { user, refreshSession } = useAuth();
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -75,7 +77,11 @@ export default function PharmacistSettingsPage() {
   const loadSettings = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch("/api/pharmacists/settings");
+      const response = await fetch("/api/pharmacists/settings", {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+        },
+      });
       if (response.ok) {
         const data = await response.json();
         if (data.settings && Object.keys(data.settings).length > 0) {
@@ -96,6 +102,7 @@ export default function PharmacistSettingsPage() {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
         },
         body: JSON.stringify(settings),
       });
@@ -103,7 +110,8 @@ export default function PharmacistSettingsPage() {
       if (response.ok) {
         showSuccess("Settings saved successfully");
       } else {
-        showError("Failed to save settings");
+        const data = await response.json().catch(() => ({}));
+        showError(data.message || "Failed to save settings");
       }
     } catch (error) {
       showError("Failed to save settings");
@@ -128,6 +136,7 @@ export default function PharmacistSettingsPage() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
         },
         body: JSON.stringify({
           currentPassword: passwordForm.currentPassword,
@@ -136,6 +145,8 @@ export default function PharmacistSettingsPage() {
       });
 
       if (response.ok) {
+        // Every session was revoked; pick up the one issued to this device
+        await refreshSession();
         showSuccess("Password changed successfully");
         setPasswordForm({
           currentPassword: "",
@@ -319,7 +330,6 @@ export default function PharmacistSettingsPage() {
                         </div>
                         <div className="space-y-4">
                           {Object.entries({
-                            twoFactorEnabled: "Two-Factor Authentication",
                             loginAlerts: "Login Alerts",
                           }).map(([key, label]) => (
                             <div
@@ -355,6 +365,9 @@ export default function PharmacistSettingsPage() {
                         </div>
                       </div>
 
+                      {/* Two-Factor Authentication */}
+                      <TwoFactorPanel />
+
                       {/* Change Password */}
                       <div>
                         <div className="flex items-center gap-3 mb-4">
@@ -478,6 +491,9 @@ export default function PharmacistSettingsPage() {
                           </button>
                         </div>
                       </div>
+
+                      {/* Signed-in Devices */}
+                      <SessionsPanel />
                     </div>
                   )}
                 </>
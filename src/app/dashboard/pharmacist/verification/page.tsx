@@ -0,0 +1,17 @@
+"use client";
+
+import DashboardLayout from "@/components/DashboardLayout";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import LicenseVerificationPanel from "@/components/LicenseVerificationPanel";
+
+export default function PharmacistVerificationPage() {
+  return (
+    <ProtectedRoute allowedRoles={["pharmacist"]}>
+      <DashboardLayout title="License Verification" role="pharmacist">
+        <div className="max-w-3xl">
+          <LicenseVerificationPanel />
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -22,6 +22,11 @@ import DashboardLayout from "@/components/DashboardLayout";
 import { useAuth } from "@/lib/auth-context";
 import { showSuccess, showError, API_MESSAGES } from "@/lib/utils/toast-helper";
 import TransactionHash from "@/components/TransactionHash";
+import FormularySearch, { FormularyItem } from "@/components/FormularySearch";
+import ScreeningWarnings, {
+  ScreeningWarning,
+} from "@/components/ScreeningWarnings";
+import StepUpDialog from "@/components/StepUpDialog";
 
 // Force dynamic rendering for this page
 export const dynamic = "force-dynamic";
@@ -53,17 +58,30 @@ interface Prescription {
     licenseNumber?: string;
     pharmacyName?: string;
   };
+  refillsAuthorized: number;
+  refillsRemaining: number;
+  refillRequests: {
+    id: string;
+    status: "pending" | "approved" | "denied";
+    requestedAt: string;
+    note?: string;
+  }[];
   notes?: string;
   blockchainHash?: string;
 }
 
 interface Medication {
-  drugName: string;
+  drug: FormularyItem | null;
   dosage: string;
   frequency: string;
   duration: string;
   instructions: string;
   quantity: number;
+  refills: number;
+  refillIntervalDays: number;
+  // Set by screening; a severe warning needs overrideReason to proceed
+  warnings?: ScreeningWarning[];
+  overrideReason?: string;
 }
 
 interface Patient {
@@ -85,6 +103,9 @@ export default function DoctorPrescriptionPage() {
   const [showNewPrescription, setShowNewPrescription] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [patients, setPatients] = useState<Patient[]>([]);
+  // Action to retry once the doctor has confirmed a controlled-substance
+  // prescription with an authenticator code
+  const [stepUpRetry, setStepUpRetry] = useState<(() => void) | null>(null);
 
   // Helper function to get patient full name
   const getPatientName = (patient: Patient): string => {
@@ -101,15 +122,18 @@ export default function DoctorPrescriptionPage() {
   // New prescription form state
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [diagnosis, setDiagnosis] = useState("");
+  const [diagnosisCodes, setDiagnosisCodes] = useState("");
   const [notes, setNotes] = useState("");
   const [medications, setMedications] = useState<Medication[]>([
     {
-      drugName: "",
+      drug: null,
       dosage: "",
       frequency: "",
       duration: "",
       instructions: "",
       quantity: 0,
+      refills: 0,
+      refillIntervalDays: 0,
     },
   ]);
 
@@ -188,12 +212,14 @@ export default function DoctorPrescriptionPage() {
     setMedications([
       ...medications,
       {
-        drugName: "",
+        drug: null,
         dosage: "",
         frequency: "",
         duration: "",
         instructions: "",
         quantity: 0,
+        refills: 0,
+        refillIntervalDays: 0,
       },
     ]);
   };
@@ -207,16 +233,21 @@ export default function DoctorPrescriptionPage() {
   const updateMedication = (
     index: number,
     field: keyof Medication,
-    value: string | number
+    value: Medication[keyof Medication]
   ) => {
     const updatedMedications = medications.map((med, i) =>
-      i === index ? { ...med, [field]: value } : med
+      i !== index
+        ? med
+        : field === "drug"
+          ? // A different drug has not been screened yet
+            { ...med, drug: value as FormularyItem | null, warnings: [] }
+          : { ...med, [field]: value }
     );
     setMedications(updatedMedications);
   };
 
-  const handleSubmitPrescription = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmitPrescription = async (e?: React.FormEvent) => {
+    e?.preventDefault();
 
     if (!selectedPatient) {
       showError("Please select a patient");
@@ -229,9 +260,11 @@ export default function DoctorPrescriptionPage() {
     }
 
     if (
-      medications.some((med) => !med.drugName || !med.dosage || !med.frequency)
+      medications.some((med) => !med.drug || !med.dosage || !med.frequency)
     ) {
-      showError("Please fill in all medication details");
+      showError(
+        "Please select each drug from the formulary and fill in its details"
+      );
       return;
     }
 
@@ -251,14 +284,21 @@ export default function DoctorPrescriptionPage() {
       const prescriptionData = {
         patientId: selectedPatient.id,
         medications: medications.map((med) => ({
-          drugName: med.drugName,
+          formularyId: med.drug!._id,
           dosage: med.dosage,
           frequency: med.frequency,
           duration: med.duration,
           instructions: med.instructions,
           quantity: med.quantity || 30,
+          refills: med.refills || 0,
+          refillIntervalDays: med.refillIntervalDays || 0,
+          overrideReason: med.overrideReason?.trim() || undefined,
         })),
         diagnosis,
+        diagnosisCodes: diagnosisCodes
+          .split(",")
+          .map((code) => code.trim())
+          .filter(Boolean),
         notes,
       };
 
@@ -274,6 +314,34 @@ export default function DoctorPrescriptionPage() {
 
       const result = await response.json();
 
+      if (result.code === "STEP_UP_REQUIRED") {
+        setStepUpRetry(() => () => handleSubmitPrescription());
+        return;
+      }
+
+      // Screening found severe warnings: show them and ask for a reason
+      if (response.status === 409 && result.screening) {
+        setMedications((prev) =>
+          prev.map((med, i) => ({
+            ...med,
+            warnings:
+              result.screening.find((r: any) => r.index === i)?.warnings || [],
+          }))
+        );
+        showError(result.error);
+        return;
+      }
+
+      // Validation errors, e.g. an invalid ICD-10 code, or a license that
+      // has not been approved yet
+      if (
+        (response.status === 400 || response.status === 403) &&
+        result.error
+      ) {
+        showError(result.error);
+        return;
+      }
+
       if (!response.ok || !result.success) {
         throw new Error(result.error || "Failed to create prescription");
       }
@@ -284,23 +352,26 @@ export default function DoctorPrescriptionPage() {
           : "";
 
       showSuccess(
-        `Prescription created successfully! ${
-          result.prescriptions?.length || 0
+        `Prescription ${result.prescription?.prescriptionNumber || ""} created successfully! ${
+          result.prescription?.lines?.length || 0
         } medication(s) prescribed.${blockchainInfo}`
       );
 
       // Reset form
       setSelectedPatient(null);
       setDiagnosis("");
+      setDiagnosisCodes("");
       setNotes("");
       setMedications([
         {
-          drugName: "",
+          drug: null,
           dosage: "",
           frequency: "",
           duration: "",
           instructions: "",
           quantity: 0,
+          refills: 0,
+          refillIntervalDays: 0,
         },
       ]);
       setShowNewPrescription(false);
@@ -314,6 +385,52 @@ export default function DoctorPrescriptionPage() {
     }
   };
 
+  const handleRefillResponse = async (
+    prescription: Prescription,
+    requestId: string,
+    action: "approve" | "deny"
+  ) => {
+    try {
+      const token = localStorage.getItem("auth_token");
+      if (!token) {
+        showError("Please log in again");
+        router.push("/");
+        return;
+      }
+
+      const response = await fetch("/api/prescriptions/refills", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          prescriptionId: prescription.id,
+          requestId,
+          action,
+        }),
+      });
+      const result = await response.json();
+
+      if (result.code === "STEP_UP_REQUIRED") {
+        setStepUpRetry(
+          () => () => handleRefillResponse(prescription, requestId, action)
+        );
+        return;
+      }
+
+      if (!response.ok || !result.success) {
+        showError(result.error || "Failed to update refill request");
+        return;
+      }
+
+      showSuccess(result.message);
+      loadData();
+    } catch (error) {
+      showError("Failed to update refill request");
+    }
+  };
+
   const filteredPatients = patients.filter((patient) => {
     const fullName = getPatientName(patient);
     const searchLower = searchTerm.toLowerCase();
@@ -383,7 +500,47 @@ export default function DoctorPrescriptionPage() {
                           Verified
                         </span>
                       )}
+                      {prescription.refillsAuthorized > 0 && (
+                        <span className="flex items-center">
+                          <Clock className="w-3 h-3 mr-1" />
+                          {prescription.refillsRemaining}/{prescription.refillsAuthorized} refills left
+                        </span>
+                      )}
                     </div>
+                    {(prescription.refillRequests || [])
+                      .filter((r) => r.status === "pending")
+                      .map((r) => (
+                        <div
+                          key={r.id}
+                          className="mt-3 flex items-center justify-between p-3 bg-yellow-50 border border-yellow-200 rounded-lg"
+                        >
+                          <p className="text-sm text-yellow-800">
+                            Refill requested on{" "}
+                            {new Date(r.requestedAt).toLocaleDateString()}
+                            {r.note && `: "${r.note}"`}
+                          </p>
+                          <div className="flex items-center space-x-2">
+                            <button
+                              onClick={() =>
+                                handleRefillResponse(prescription, r.id, "approve")
+                              }
+                              className="flex items-center px-3 py-1 text-xs font-medium text-white bg-green-600 rounded hover:bg-green-700"
+                            >
+                              <Check className="w-3 h-3 mr-1" />
+                              Approve
+                            </button>
+                            <button
+                              onClick={() =>
+                                handleRefillResponse(prescription, r.id, "deny")
+                              }
+                              className="flex items-center px-3 py-1 text-xs font-medium text-white bg-red-600 rounded hover:bg-red-700"
+                            >
+                              <X className="w-3 h-3 mr-1" />
+                              Deny
+                            </button>
+                          </div>
+                        </div>
+                      ))}
                   </div>
                   <div className="flex items-center space-x-2">
                     <span
@@ -509,6 +666,20 @@ export default function DoctorPrescriptionPage() {
                   />
                 </div>
 
+                {/* Diagnosis codes */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    ICD-10 Codes
+                  </label>
+                  <input
+                    type="text"
+                    value={diagnosisCodes}
+                    onChange={(e) => setDiagnosisCodes(e.target.value)}
+                    className="form-input"
+                    placeholder="e.g. J02.9, R50.9"
+                  />
+                </div>
+
                 {/* Medications */}
                 <div>
                   <div className="flex items-center justify-between mb-4">
@@ -550,17 +721,11 @@ export default function DoctorPrescriptionPage() {
                           <label className="block text-sm font-medium text-gray-700 mb-1">
                             Drug Name *
                           </label>
-                          <input
-                            type="text"
-                            value={medication.drugName}
-                            onChange={(e) =>
-                              updateMedication(
-                                index,
-                                "drugName",
-                                e.target.value
-                              )
+                          <FormularySearch
+                            value={medication.drug}
+                            onSelect={(item) =>
+                              updateMedication(index, "drug", item)
                             }
-                            className="form-input"
                             placeholder="e.g., Amoxicillin"
                             required
                           />
@@ -648,6 +813,49 @@ export default function DoctorPrescriptionPage() {
                           />
                         </div>
 
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Refills
+                          </label>
+                          <input
+                            type="number"
+                            value={medication.refills}
+                            onChange={(e) =>
+                              updateMedication(
+                                index,
+                                "refills",
+                                parseInt(e.target.value) || 0
+                              )
+                            }
+                            className="form-input"
+                            placeholder="Refills authorized"
+                            min="0"
+                            max="12"
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Days Between Refills
+                          </label>
+                          <input
+                            type="number"
+                            value={medication.refillIntervalDays}
+                            onChange={(e) =>
+                              updateMedication(
+                                index,
+                                "refillIntervalDays",
+                                parseInt(e.target.value) || 0
+                              )
+                            }
+                            className="form-input"
+                            placeholder="Minimum days between fills"
+                            min="0"
+                            max="365"
+                            disabled={!medication.refills}
+                          />
+                        </div>
+
                         <div className="md:col-span-2">
                           <label className="block text-sm font-medium text-gray-700 mb-1">
                             Instructions
@@ -667,6 +875,23 @@ export default function DoctorPrescriptionPage() {
                           />
                         </div>
                       </div>
+
+                      {medication.warnings &&
+                        medication.warnings.length > 0 && (
+                          <div className="mt-4">
+                            <ScreeningWarnings
+                              warnings={medication.warnings}
+                              overrideReason={medication.overrideReason || ""}
+                              onOverrideReasonChange={(reason) =>
+                                updateMedication(
+                                  index,
+                                  "overrideReason",
+                                  reason
+                                )
+                              }
+                            />
+                          </div>
+                        )}
                     </div>
                   ))}
                 </div>
@@ -716,6 +941,16 @@ export default function DoctorPrescriptionPage() {
             </div>
           </div>
         )}
+
+        <StepUpDialog
+          open={stepUpRetry !== null}
+          onCancel={() => setStepUpRetry(null)}
+          onConfirmed={() => {
+            const retry = stepUpRetry;
+            setStepUpRetry(null);
+            retry?.();
+          }}
+        />
       </div>
     </DashboardLayout>
   );
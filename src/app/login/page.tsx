@@ -29,7 +29,7 @@ interface LoginForm {
 
 export default function LoginPage() {
   const router = useRouter();
-  const { login } = useAuth();
+  const { login, twoFactorRequired } = useAuth();
   const [formData, setFormData] = useState<LoginForm>({
     email: "",
     password: "",
@@ -37,6 +37,7 @@ export default function LoginPage() {
     rememberMe: false,
   });
   const [showPassword, setShowPassword] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Partial<LoginForm>>({});
 
@@ -109,7 +110,8 @@ export default function LoginPage() {
         formData.email,
         formData.password,
         formData.role,
-        formData.rememberMe
+        formData.rememberMe,
+        twoFactorRequired ? twoFactorCode.trim() : undefined
       );
 
       if (success) {
@@ -310,6 +312,29 @@ export default function LoginPage() {
               )}
             </div>
 
+            {/* Authenticator Code, once the password has been accepted */}
+            {twoFactorRequired && (
+              <div>
+                <label
+                  htmlFor="twoFactorCode"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Authentication Code
+                </label>
+                <input
+                  id="twoFactorCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  className={`mt-1 block w-full border rounded-md px-3 py-2 placeholder-gray-400 dark:placeholder-gray-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 tracking-widest border-gray-300 dark:border-gray-600 ${currentConfig.focusColor}`}
+                  placeholder="Code from your authenticator app"
+                />
+              </div>
+            )}
+
             {/* Remember Me & Forgot Password */}
             <div className="flex items-center justify-between">
               <div className="flex items-center">
@@ -329,6 +354,12 @@ export default function LoginPage() {
                   Remember me
                 </label>
               </div>
+              <Link
+                href="/auth/forgot-password"
+                className={`text-sm font-medium text-${currentConfig.color}-600 hover:text-${currentConfig.color}-500`}
+              >
+                Forgot password?
+              </Link>
             </div>
 
             {/* Submit Button */}
@@ -4,7 +4,7 @@ import React, { useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useWeb3Modal } from "@web3modal/wagmi/react";
-import { useAccount } from "wagmi";
+import { useAccount, useSignMessage } from "wagmi";
 import {
   Pill,
   Eye,
@@ -21,7 +21,7 @@ import { Web3Provider } from "@/components/Web3Provider";
 
 function LoginPageContent() {
   const router = useRouter();
-  const { login, isLoading } = useAuth();
+  const { login, loginWithWallet, isLoading, twoFactorRequired } = useAuth();
   const [authMethod, setAuthMethod] = useState<"traditional" | "wallet">(
     "traditional"
   );
@@ -30,25 +30,38 @@ function LoginPageContent() {
   const [selectedRole, setSelectedRole] = useState<UserRole>("patient");
   const [rememberMe, setRememberMe] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
 
   // Web3Modal hooks with error handling
   let web3ModalOpen: (() => Promise<void>) | null = null;
   let walletAddress: string | undefined = undefined;
   let walletConnected = false;
+  let walletChainId: number | undefined = undefined;
+  let signMessage: ((args: { message: string }) => Promise<string>) | null =
+    null;
 
   try {
     const { open } = useWeb3Modal();
-    const { address, isConnected } = useAccount();
+    const { address, isConnected, chainId } = useAccount();
+    const { signMessageAsync } = useSignMessage();
     web3ModalOpen = open;
     walletAddress = address;
     walletConnected = isConnected;
+    walletChainId = chainId;
+    signMessage = signMessageAsync;
   } catch (error) {
     console.warn("Web3Modal not available:", error);
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const success = await login(email, password, selectedRole, rememberMe);
+    const success = await login(
+      email,
+      password,
+      selectedRole,
+      rememberMe,
+      twoFactorRequired ? twoFactorCode.trim() : undefined
+    );
     if (success) {
       router.push(`/dashboard/${selectedRole}`);
     }
@@ -67,42 +80,78 @@ function LoginPageContent() {
     }
   };
 
+  // Guards against prompting the wallet twice for one login attempt
+  const walletAuthInFlight = React.useRef(false);
+
   // Effect to handle wallet authentication after connection
   React.useEffect(() => {
     const authenticateWallet = async () => {
-      if (walletConnected && walletAddress && authMethod === "wallet") {
+      if (
+        walletConnected &&
+        walletAddress &&
+        authMethod === "wallet" &&
+        signMessage &&
+        !walletAuthInFlight.current
+      ) {
+        walletAuthInFlight.current = true;
         try {
           console.log("Authenticating wallet:", walletAddress);
 
-          const response = await fetch("/api/auth/wallet-login", {
+          // Fetch a single-use Sign-In With Ethereum challenge
+          const nonceResponse = await fetch("/api/auth/nonce", {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
             },
             body: JSON.stringify({
-              walletAddress: walletAddress,
-              role: selectedRole,
+              walletAddress,
+              chainId: walletChainId,
             }),
           });
+          const challenge = await nonceResponse.json();
+          if (!nonceResponse.ok || !challenge.success) {
+            alert(challenge.error || "Failed to start wallet sign-in");
+            return;
+          }
 
-          const data = await response.json();
+          // Prove ownership of the wallet by signing the challenge
+          const signature = await signMessage({ message: challenge.message });
 
-          if (response.ok && data.success) {
-            // Store token and user data
-            localStorage.setItem("token", data.token);
-            localStorage.setItem("user", JSON.stringify(data.user));
+          let result = await loginWithWallet({
+            walletAddress,
+            role: selectedRole,
+            message: challenge.message,
+            signature,
+          });
+
+          // Accounts with an authenticator app send the same signed
+          // message again together with its code
+          if (result.twoFactorRequired) {
+            const code = prompt("Enter the code from your authenticator app");
+            if (!code) return;
+            result = await loginWithWallet({
+              walletAddress,
+              role: selectedRole,
+              message: challenge.message,
+              signature,
+              twoFactorCode: code.trim(),
+            });
+          }
 
-            console.log("Wallet authentication successful:", data.message);
+          if (result.success) {
+            console.log("Wallet authentication successful");
 
             // Redirect to dashboard
             router.push(`/dashboard/${selectedRole}`);
           } else {
-            console.error("Wallet authentication failed:", data.error);
-            alert(data.error || "Failed to authenticate with wallet");
+            console.error("Wallet authentication failed:", result.error);
+            alert(result.error);
           }
         } catch (error) {
           console.error("Error authenticating wallet:", error);
           alert("Failed to authenticate. Please try again.");
+        } finally {
+          walletAuthInFlight.current = false;
         }
       }
     };
@@ -274,8 +323,36 @@ function LoginPageContent() {
                 </div>
               </div>
 
-              {/* Remember Me */}
-              <div className="flex items-center">
+              {/* Authenticator Code, once the password has been accepted */}
+              {twoFactorRequired && (
+                <div>
+                  <label
+                    htmlFor="twoFactorCode"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Authentication Code
+                  </label>
+                  <input
+                    id="twoFactorCode"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-all tracking-widest"
+                    placeholder="123456"
+                    required
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Enter the 6-digit code from your authenticator app, or one
+                    of your recovery codes.
+                  </p>
+                </div>
+              )}
+
+              {/* Remember Me & Forgot Password */}
+              <div className="flex items-center justify-between">
                 <label className="flex items-center space-x-2 cursor-pointer">
                   <input
                     type="checkbox"
@@ -285,6 +362,12 @@ function LoginPageContent() {
                   />
                   <span className="text-sm text-gray-600">Remember me</span>
                 </label>
+                <Link
+                  href="/auth/forgot-password"
+                  className="text-sm font-medium text-primary hover:text-primary/80"
+                >
+                  Forgot password?
+                </Link>
               </div>
 
               {/* Submit Button */}
@@ -299,7 +382,7 @@ function LoginPageContent() {
                     <span>Signing in...</span>
                   </>
                 ) : (
-                  <span>Sign In</span>
+                  <span>{twoFactorRequired ? "Verify" : "Sign In"}</span>
                 )}
               </button>
             </form>
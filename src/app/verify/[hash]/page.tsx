@@ -0,0 +1,43 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Pill } from "lucide-react";
+import DrugVerification from "@/components/DrugVerification";
+
+/**
+ * Public page opened by the QR code on a dispensing label. No sign-in is
+ * needed; the patient's identity is never shown.
+ */
+export default function VerifyMedicationPage() {
+  const params = useParams<{ hash: string }>();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-center justify-center mb-6">
+          <div className="p-3 rounded-full bg-primary shadow-lg">
+            <Pill className="w-8 h-8 text-white" />
+          </div>
+        </div>
+        <h2 className="text-center text-3xl font-extrabold text-gray-900">
+          Verify your medication
+        </h2>
+        <p className="mt-2 mb-8 text-center text-sm text-gray-600">
+          Check that your medication is genuine and see where its batch has been
+        </p>
+
+        <DrugVerification initialHash={params?.hash} />
+
+        <div className="mt-8 text-center">
+          <Link
+            href="/"
+            className="text-sm font-medium text-primary hover:text-primary/80"
+          >
+            Go to PharmChain
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
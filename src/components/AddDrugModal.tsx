@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { X } from "lucide-react";
+import FormularySearch, { FormularyItem } from "@/components/FormularySearch";
 
 interface AddDrugModalProps {
   isOpen: boolean;
@@ -16,11 +17,10 @@ export default function AddDrugModal({
 }: AddDrugModalProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [formularyItem, setFormularyItem] = useState<FormularyItem | null>(
+    null
+  );
   const [formData, setFormData] = useState({
-    name: "",
-    generic_name: "",
-    dosage_form: "tablet",
-    strength: "",
     manufacturer: "",
     batch_number: "",
     expiry_date: "",
@@ -54,17 +54,26 @@ export default function AddDrugModal({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
+
+    if (!formularyItem) {
+      setError("Select the drug from the formulary");
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const token = localStorage.getItem("token");
+      const token = localStorage.getItem("auth_token");
       const response = await fetch("/api/drugs", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          formulary_id: formularyItem._id,
+        }),
       });
 
       const data = await response.json();
@@ -78,11 +87,8 @@ export default function AddDrugModal({
       onClose();
 
       // Reset form
+      setFormularyItem(null);
       setFormData({
-        name: "",
-        generic_name: "",
-        dosage_form: "tablet",
-        strength: "",
         manufacturer: "",
         batch_number: "",
         expiry_date: "",
@@ -133,67 +139,18 @@ export default function AddDrugModal({
               Basic Information
             </h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Drug Name <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="text"
-                  name="name"
-                  value={formData.name}
-                  onChange={handleChange}
-                  required
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Generic Name
-                </label>
-                <input
-                  type="text"
-                  name="generic_name"
-                  value={formData.generic_name}
-                  onChange={handleChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                />
-              </div>
-
-              <div>
+              <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Dosage Form <span className="text-red-500">*</span>
+                  Formulary Drug <span className="text-red-500">*</span>
                 </label>
-                <select
-                  name="dosage_form"
-                  value={formData.dosage_form}
-                  onChange={handleChange}
+                <FormularySearch
+                  value={formularyItem}
+                  onSelect={setFormularyItem}
                   required
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                >
-                  <option value="tablet">Tablet</option>
-                  <option value="capsule">Capsule</option>
-                  <option value="liquid">Liquid</option>
-                  <option value="injection">Injection</option>
-                  <option value="cream">Cream</option>
-                  <option value="drops">Drops</option>
-                  <option value="inhaler">Inhaler</option>
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Strength <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="text"
-                  name="strength"
-                  value={formData.strength}
-                  onChange={handleChange}
-                  placeholder="e.g., 500mg"
-                  required
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
                 />
+                <p className="mt-1 text-xs text-gray-500">
+                  Name, strength and dosage form come from the formulary.
+                </p>
               </div>
 
               <div>
@@ -0,0 +1,50 @@
+"use client";
+
+import { ReactNode } from "react";
+import Link from "next/link";
+import { Pill } from "lucide-react";
+
+/**
+ * Centered card shared by the account recovery and verification pages
+ */
+export default function AuthCard({
+  title,
+  subtitle,
+  children,
+}: {
+  title: string;
+  subtitle?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex items-center justify-center mb-6">
+          <div className="p-3 rounded-full bg-primary shadow-lg">
+            <Pill className="w-8 h-8 text-white" />
+          </div>
+        </div>
+        <h2 className="text-center text-3xl font-extrabold text-gray-900">
+          {title}
+        </h2>
+        {subtitle && (
+          <p className="mt-2 text-center text-sm text-gray-600">{subtitle}</p>
+        )}
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow-lg sm:rounded-lg sm:px-10">
+          {children}
+          <div className="mt-6 text-center">
+            <Link
+              href="/"
+              className="text-sm font-medium text-primary hover:text-primary/80"
+            >
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -46,8 +46,7 @@ export function BlockchainStatus({ className = "" }: BlockchainStatusProps) {
   // Fetch blockchain status
   const fetchStatus = async () => {
     try {
-      const token =
-        localStorage.getItem("token") || localStorage.getItem("auth_token");
+      const token = localStorage.getItem("auth_token");
 
       if (!token) {
         throw new Error("Authentication required. Please log in.");
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldAlert, Loader2 } from "lucide-react";
+import { showError, showWarning } from "@/lib/utils/toast-helper";
+
+// Mirrors MIN_JUSTIFICATION_LENGTH in src/lib/utils/patient-access.ts
+const MIN_JUSTIFICATION_LENGTH = 20;
+
+/**
+ * Emergency access button for doctors and pharmacists. Opens a patient's
+ * records without their grant for a limited time; the access is recorded
+ * and the patient is told.
+ */
+export default function BreakGlassDialog({
+  onGranted,
+}: {
+  onGranted?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [medicalRecordNumber, setMedicalRecordNumber] = useState("");
+  const [justification, setJustification] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const close = () => {
+    setOpen(false);
+    setMedicalRecordNumber("");
+    setJustification("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/patients/break-glass", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ medicalRecordNumber, justification }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        showWarning(
+          `Emergency access to ${data.access.patientName} until ${new Date(
+            data.access.expiresAt
+          ).toLocaleTimeString()}. This access has been recorded.`
+        );
+        close();
+        onGranted?.();
+      } else {
+        showError(data.error || "Failed to start emergency access");
+      }
+    } catch (error) {
+      showError("Failed to start emergency access");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors"
+      >
+        <ShieldAlert className="w-4 h-4" />
+        Emergency access
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 space-y-4"
+          >
+            <div className="flex items-start gap-3">
+              <ShieldAlert className="w-6 h-6 text-red-600 flex-shrink-0" />
+              <div>
+                <h3 className="text-xl font-bold text-gray-900">
+                  Emergency access
+                </h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  Use only when the patient cannot grant access and care cannot
+                  wait. Your name, reason and the time are recorded, and the
+                  patient and administrators are notified.
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Medical record number
+              </label>
+              <input
+                type="text"
+                value={medicalRecordNumber}
+                onChange={(e) => setMedicalRecordNumber(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Justification
+              </label>
+              <textarea
+                value={justification}
+                onChange={(e) => setJustification(e.target.value)}
+                rows={4}
+                maxLength={1000}
+                placeholder="Describe the emergency and why the patient cannot grant access"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                required
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                At least {MIN_JUSTIFICATION_LENGTH} characters
+              </p>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={close}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={
+                  isSubmitting ||
+                  justification.trim().length < MIN_JUSTIFICATION_LENGTH
+                }
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Open records
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+}
@@ -72,7 +72,10 @@ export default function ComplianceDashboard() {
   const fetchDashboardData = async () => {
     try {
       setLoading(true);
-      const response = await fetch("/api/reporting/dashboard");
+      const token = localStorage.getItem("auth_token");
+      const response = await fetch("/api/reporting/dashboard", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
       const result = await response.json();
 
       if (!response.ok) {
@@ -103,9 +106,13 @@ export default function ComplianceDashboard() {
 
   const handleExport = async (type: string, format: string) => {
     try {
+      const token = localStorage.getItem("auth_token");
       const response = await fetch("/api/reporting/export", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
         body: JSON.stringify({ type, format }),
       });
 
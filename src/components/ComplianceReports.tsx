@@ -112,7 +112,10 @@ export default function ComplianceReports() {
           break;
       }
 
-      const response = await fetch(endpoint);
+      const token = localStorage.getItem("auth_token");
+      const response = await fetch(endpoint, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
       const result = await response.json();
 
       if (!response.ok) {
@@ -177,9 +180,13 @@ export default function ComplianceReports() {
       if (startDate) body.startDate = startDate.toISOString();
       if (endDate) body.endDate = endDate.toISOString();
 
+      const token = localStorage.getItem("auth_token");
       const response = await fetch("/api/reporting/export", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
         body: JSON.stringify(body),
       });
 
@@ -9,7 +9,6 @@ import {
   Pill,
   Menu,
   X,
-  Bell,
   Search,
   User,
   Settings,
@@ -21,9 +20,12 @@ import {
   ChevronDown,
   Moon,
   Sun,
+  BadgeCheck,
+  AlertOctagon,
 } from "lucide-react";
 import { useAuth } from "@/lib/auth-context";
 import { toast } from "@/components/ui/toaster";
+import NotificationBell from "@/components/NotificationBell";
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -45,42 +47,11 @@ export default function DashboardLayout({
 }: DashboardLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [profileMenuOpen, setProfileMenuOpen] = useState(false);
-  const [notificationMenuOpen, setNotificationMenuOpen] = useState(false);
   const [darkMode, setDarkMode] = useState(false);
 
   const { user, logout } = useAuth();
   const router = useRouter();
 
-  // Sample notifications - replace with real data
-  const [notificationsList, setNotificationsList] = useState([
-    {
-      id: 1,
-      title: "New Prescription",
-      message: "A new prescription has been assigned to you",
-      time: "5 minutes ago",
-      read: false,
-      type: "info",
-    },
-    {
-      id: 2,
-      title: "Low Stock Alert",
-      message: "Paracetamol stock is running low",
-      time: "1 hour ago",
-      read: false,
-      type: "warning",
-    },
-    {
-      id: 3,
-      title: "Order Completed",
-      message: "Patient order #1234 has been completed",
-      time: "2 hours ago",
-      read: false,
-      type: "success",
-    },
-  ]);
-
-  const unreadCount = notificationsList.filter((n) => !n.read).length;
-
   // Load dark mode preference from localStorage
   useEffect(() => {
     const savedDarkMode = localStorage.getItem("darkMode") === "true";
@@ -97,17 +68,11 @@ export default function DashboardLayout({
       if (profileMenuOpen && !target.closest(".profile-menu-container")) {
         setProfileMenuOpen(false);
       }
-      if (
-        notificationMenuOpen &&
-        !target.closest(".notification-menu-container")
-      ) {
-        setNotificationMenuOpen(false);
-      }
     };
 
     document.addEventListener("mousedown", handleClickOutside);
     return () => document.removeEventListener("mousedown", handleClickOutside);
-  }, [profileMenuOpen, notificationMenuOpen]);
+  }, [profileMenuOpen]);
 
   // Toggle dark mode
   const toggleDarkMode = () => {
@@ -202,6 +167,11 @@ export default function DashboardLayout({
             href: `/dashboard/${role}/history`,
             icon: Shield,
           },
+          {
+            name: "Verification",
+            href: `/dashboard/${role}/verification`,
+            icon: BadgeCheck,
+          },
         ];
 
       case "patient":
@@ -233,17 +203,42 @@ export default function DashboardLayout({
             href: `/dashboard/${role}/inventory`,
             icon: Box,
           },
+          {
+            name: "Recalls",
+            href: `/dashboard/${role}/recalls`,
+            icon: AlertOctagon,
+          },
           {
             name: "Patients",
             href: `/dashboard/${role}/patients`,
             icon: Users,
           },
+          {
+            name: "Verification",
+            href: `/dashboard/${role}/verification`,
+            icon: BadgeCheck,
+          },
         ];
 
       case "admin":
         return [
           ...baseItems,
           { name: "Users", href: `/dashboard/${role}/users`, icon: Users },
+          {
+            name: "Verifications",
+            href: `/dashboard/${role}/verifications`,
+            icon: BadgeCheck,
+          },
+          {
+            name: "Inventory",
+            href: `/dashboard/${role}/inventory`,
+            icon: Box,
+          },
+          {
+            name: "Recalls",
+            href: `/dashboard/${role}/recalls`,
+            icon: AlertOctagon,
+          },
           { name: "System", href: `/dashboard/${role}/system`, icon: Settings },
           { name: "Reports", href: `/dashboard/${role}/reports`, icon: Shield },
         ];
@@ -432,117 +427,7 @@ export default function DashboardLayout({
               </button>
 
               {/* Notifications */}
-              <div className="relative notification-menu-container">
-                <button
-                  onClick={() => setNotificationMenuOpen(!notificationMenuOpen)}
-                  className="relative p-2.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl transition-all"
-                >
-                  <Bell size={20} />
-                  {unreadCount > 0 && (
-                    <span className="absolute -top-1 -right-1 w-5 h-5 bg-gradient-to-br from-red-500 to-pink-600 text-white text-xs rounded-full flex items-center justify-center font-bold animate-pulse">
-                      {unreadCount}
-                    </span>
-                  )}
-                </button>
-
-                {notificationMenuOpen && (
-                  <div className="absolute right-0 mt-3 w-96 bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 z-50 backdrop-blur-xl max-h-[500px] overflow-hidden flex flex-col">
-                    {/* Header */}
-                    <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
-                      <h3 className="text-lg font-bold text-gray-900 dark:text-white">
-                        Notifications
-                      </h3>
-                      {unreadCount > 0 && (
-                        <button
-                          onClick={() => {
-                            setNotificationsList(
-                              notificationsList.map((n) => ({
-                                ...n,
-                                read: true,
-                              }))
-                            );
-                          }}
-                          className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
-                        >
-                          Mark all as read
-                        </button>
-                      )}
-                    </div>
-
-                    {/* Notifications List */}
-                    <div className="overflow-y-auto max-h-[400px]">
-                      {notificationsList.length > 0 ? (
-                        notificationsList.map((notification) => (
-                          <div
-                            key={notification.id}
-                            className={`px-6 py-4 border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors cursor-pointer ${
-                              !notification.read
-                                ? "bg-blue-50/50 dark:bg-blue-900/10"
-                                : ""
-                            }`}
-                            onClick={() => {
-                              setNotificationsList(
-                                notificationsList.map((n) =>
-                                  n.id === notification.id
-                                    ? { ...n, read: true }
-                                    : n
-                                )
-                              );
-                            }}
-                          >
-                            <div className="flex items-start space-x-3">
-                              <div
-                                className={`w-2 h-2 rounded-full mt-2 flex-shrink-0 ${
-                                  notification.type === "success"
-                                    ? "bg-green-500"
-                                    : notification.type === "warning"
-                                    ? "bg-yellow-500"
-                                    : notification.type === "error"
-                                    ? "bg-red-500"
-                                    : "bg-blue-500"
-                                }`}
-                              ></div>
-                              <div className="flex-1 min-w-0">
-                                <div className="flex items-start justify-between">
-                                  <p className="text-sm font-semibold text-gray-900 dark:text-white">
-                                    {notification.title}
-                                  </p>
-                                  {!notification.read && (
-                                    <span className="ml-2 w-2 h-2 bg-blue-600 rounded-full flex-shrink-0"></span>
-                                  )}
-                                </div>
-                                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                                  {notification.message}
-                                </p>
-                                <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
-                                  {notification.time}
-                                </p>
-                              </div>
-                            </div>
-                          </div>
-                        ))
-                      ) : (
-                        <div className="px-6 py-12 text-center">
-                          <Bell
-                            className="mx-auto text-gray-300 dark:text-gray-600 mb-3"
-                            size={48}
-                          />
-                          <p className="text-gray-500 dark:text-gray-400 text-sm">
-                            No notifications yet
-                          </p>
-                        </div>
-                      )}
-                    </div>
-
-                    {/* Footer */}
-                    <div className="px-6 py-3 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
-                      <button className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium w-full text-center">
-                        View all notifications
-                      </button>
-                    </div>
-                  </div>
-                )}
-              </div>
+              <NotificationBell />
 
               {/* Profile Menu */}
               <div className="relative profile-menu-container">
@@ -2,10 +2,11 @@
 
 /**
  * Drug Verification Component
- * Allows patients to verify drug authenticity using verification hash
+ * Allows anyone to verify drug authenticity from the QR code on a
+ * dispensing label, or by entering its verification hash
  */
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -23,50 +24,69 @@ import {
 } from "lucide-react";
 
 interface DrugVerificationProps {
-  patientAddress?: string;
+  // Hash from a scanned label, verified as soon as the component mounts
+  initialHash?: string;
+}
+
+interface VerifiedBatch {
+  traced: boolean;
+  drugName?: string | null;
+  batchNumber: string | null;
+  manufacturer?: string;
+  manufacturedDate?: string;
+  expiryDate: string | null;
+  isActive?: boolean;
+  quantity: number;
+  movementHistory: Array<{
+    movementId: string;
+    movementType: string;
+    fromAddress?: string;
+    // Hidden on dispensings to patients
+    toAddress: string | null;
+    quantity: number;
+    timestamp: string;
+    notes?: string;
+  }>;
 }
 
 interface VerificationResult {
   isValid: boolean;
   dispensing?: {
-    dispensingId: string;
-    batchId: string;
-    prescriptionId: string;
-    patientAddress: string;
-    pharmacistAddress: string;
+    drugName: string | null;
     quantity: number;
     dispensedAt: string;
-    isVerified: boolean;
+    pharmacy: { name: string; city?: string; state?: string } | null;
+    pharmacistAddress?: string;
+    blockchainHash: string | null;
+    isVerified?: boolean;
     verifiedAt?: string;
   };
-  batch?: {
-    drugName: string;
-    batchNumber: string;
-    manufacturer: string;
-    manufacturedDate: string;
-    expiryDate: string;
-  };
-  movementHistory?: Array<{
-    movementId: string;
-    movementType: string;
-    fromAddress: string;
-    toAddress: string;
-    quantity: number;
-    timestamp: string;
-    notes?: string;
-  }>;
+  batches?: VerifiedBatch[];
 }
 
+// Accept the label's verification URL as well as the bare hash
+const extractHash = (value: string) =>
+  value.trim().replace(/\/+$/, "").split("/").pop() || "";
+
 export default function DrugVerification({
-  patientAddress,
+  initialHash,
 }: DrugVerificationProps) {
-  const [verificationHash, setVerificationHash] = useState("");
+  const [verificationHash, setVerificationHash] = useState(initialHash || "");
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<VerificationResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleVerify = async () => {
-    if (!verificationHash.trim()) {
+  useEffect(() => {
+    if (initialHash) {
+      verify(initialHash);
+    }
+  }, [initialHash]);
+
+  const handleVerify = () => verify(verificationHash);
+
+  const verify = async (input: string) => {
+    const hash = extractHash(input);
+    if (!hash) {
       setError("Please enter a verification hash");
       return;
     }
@@ -76,13 +96,16 @@ export default function DrugVerification({
     setResult(null);
 
     try {
+      // Signed-in users also confirm traceability records on chain
+      const token = localStorage.getItem("auth_token");
       const response = await fetch("/api/traceability/verify", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
         body: JSON.stringify({
-          verificationHash: verificationHash.trim(),
+          verificationHash: hash,
         }),
       });
 
@@ -109,7 +132,7 @@ export default function DrugVerification({
     });
   };
 
-  const formatAddress = (address: string) => {
+  const formatAddress = (address?: string | null) => {
     if (!address) return "N/A";
     return `${address.substring(0, 6)}...${address.substring(
       address.length - 4
@@ -144,7 +167,7 @@ export default function DrugVerification({
             </label>
             <div className="flex gap-2">
               <Input
-                placeholder="Enter verification hash (e.g., 0x123...)"
+                placeholder="Verification hash or the link from the label QR code"
                 value={verificationHash}
                 onChange={(e) => setVerificationHash(e.target.value)}
                 disabled={loading}
@@ -168,8 +191,8 @@ export default function DrugVerification({
               </Button>
             </div>
             <p className="text-xs text-gray-500 mt-2">
-              Enter the verification hash provided when you received the
-              medication
+              Scan the QR code on your medication label, or enter the link or
+              verification hash printed with it
             </p>
           </div>
 
@@ -196,62 +219,6 @@ export default function DrugVerification({
             </AlertDescription>
           </Alert>
 
-          {/* Batch Information */}
-          {result.batch && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Package className="h-5 w-5 text-blue-600" />
-                  Drug Information
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <p className="text-sm text-gray-600">Drug Name</p>
-                    <p className="font-semibold">{result.batch.drugName}</p>
-                  </div>
-                  <div>
-                    <p className="text-sm text-gray-600">Batch Number</p>
-                    <p className="font-mono text-sm">
-                      {result.batch.batchNumber}
-                    </p>
-                  </div>
-                  <div>
-                    <p className="text-sm text-gray-600">Manufacturer</p>
-                    <p className="font-mono text-xs">
-                      {formatAddress(result.batch.manufacturer)}
-                    </p>
-                  </div>
-                  <div>
-                    <p className="text-sm text-gray-600">Quantity Dispensed</p>
-                    <p className="font-semibold">
-                      {result.dispensing?.quantity} units
-                    </p>
-                  </div>
-                  <div>
-                    <p className="text-sm text-gray-600 flex items-center gap-1">
-                      <Calendar className="h-3 w-3" />
-                      Manufactured Date
-                    </p>
-                    <p className="text-sm">
-                      {formatDate(result.batch.manufacturedDate)}
-                    </p>
-                  </div>
-                  <div>
-                    <p className="text-sm text-gray-600 flex items-center gap-1">
-                      <Calendar className="h-3 w-3" />
-                      Expiry Date
-                    </p>
-                    <p className="text-sm">
-                      {formatDate(result.batch.expiryDate)}
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          )}
-
           {/* Dispensing Information */}
           {result.dispensing && (
             <Card>
@@ -263,12 +230,39 @@ export default function DrugVerification({
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {result.dispensing.drugName && (
+                    <div>
+                      <p className="text-sm text-gray-600">Drug Name</p>
+                      <p className="font-semibold">
+                        {result.dispensing.drugName}
+                      </p>
+                    </div>
+                  )}
                   <div>
-                    <p className="text-sm text-gray-600">Pharmacist Address</p>
-                    <p className="font-mono text-xs">
-                      {formatAddress(result.dispensing.pharmacistAddress)}
+                    <p className="text-sm text-gray-600">Quantity Dispensed</p>
+                    <p className="font-semibold">
+                      {result.dispensing.quantity} units
                     </p>
                   </div>
+                  {result.dispensing.pharmacy ? (
+                    <div>
+                      <p className="text-sm text-gray-600">Pharmacy</p>
+                      <p className="text-sm">
+                        {result.dispensing.pharmacy.name}
+                        {result.dispensing.pharmacy.city &&
+                          `, ${result.dispensing.pharmacy.city}`}
+                      </p>
+                    </div>
+                  ) : (
+                    <div>
+                      <p className="text-sm text-gray-600">
+                        Pharmacist Address
+                      </p>
+                      <p className="font-mono text-xs">
+                        {formatAddress(result.dispensing.pharmacistAddress)}
+                      </p>
+                    </div>
+                  )}
                   <div>
                     <p className="text-sm text-gray-600">Dispensed Date</p>
                     <p className="text-sm">
@@ -276,20 +270,22 @@ export default function DrugVerification({
                     </p>
                   </div>
                   <div>
-                    <p className="text-sm text-gray-600">Verification Status</p>
+                    <p className="text-sm text-gray-600">Blockchain Record</p>
                     <Badge
                       variant={
-                        result.dispensing.isVerified ? "default" : "secondary"
+                        result.dispensing.blockchainHash
+                          ? "default"
+                          : "secondary"
                       }
                       className={
-                        result.dispensing.isVerified
+                        result.dispensing.blockchainHash
                           ? "bg-green-500"
                           : undefined
                       }
                     >
-                      {result.dispensing.isVerified
-                        ? "Verified"
-                        : "Not Yet Verified"}
+                      {result.dispensing.blockchainHash
+                        ? "Recorded"
+                        : "Not Recorded"}
                     </Badge>
                   </div>
                   {result.dispensing.verifiedAt && (
@@ -307,66 +303,132 @@ export default function DrugVerification({
             </Card>
           )}
 
-          {/* Movement History */}
-          {result.movementHistory && result.movementHistory.length > 0 && (
-            <Card>
+          {/* One card per batch the medication was dispensed from */}
+          {result.batches?.map((batch, batchIndex) => (
+            <Card key={batchIndex}>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
-                  <MapPin className="h-5 w-5 text-purple-600" />
-                  Drug Journey (Traceability)
+                  <Package className="h-5 w-5 text-blue-600" />
+                  Batch {batch.batchNumber || "Unknown"}
                 </CardTitle>
               </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {result.movementHistory.map((movement, index) => (
-                    <div
-                      key={movement.movementId}
-                      className="relative pl-6 pb-4 border-l-2 border-gray-200 last:border-l-0"
-                    >
-                      <div className="absolute left-[-9px] top-0 w-4 h-4 rounded-full bg-blue-500 border-2 border-white"></div>
-                      <div className="flex items-start justify-between gap-4">
-                        <div className="flex-1">
-                          <Badge variant="outline" className="mb-2">
-                            {getMovementTypeLabel(movement.movementType)}
-                          </Badge>
-                          <div className="text-sm space-y-1">
-                            <div className="flex items-center gap-2 text-gray-600">
-                              <span className="font-medium">From:</span>
-                              <span className="font-mono text-xs">
-                                {movement.fromAddress
-                                  ? formatAddress(movement.fromAddress)
-                                  : "Manufacturer"}
-                              </span>
-                            </div>
-                            <div className="flex items-center gap-2 text-gray-600">
-                              <ArrowRight className="h-3 w-3" />
-                              <span className="font-medium">To:</span>
-                              <span className="font-mono text-xs">
-                                {formatAddress(movement.toAddress)}
-                              </span>
-                            </div>
-                            <div className="text-gray-600">
-                              <span className="font-medium">Quantity:</span>{" "}
-                              {movement.quantity} units
-                            </div>
-                            {movement.notes && (
-                              <div className="text-gray-600">
-                                <span className="font-medium">Notes:</span>{" "}
-                                {movement.notes}
+              <CardContent className="space-y-6">
+                {batch.isActive === false && (
+                  <Alert variant="destructive">
+                    <XCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      This batch has been withdrawn. Contact your pharmacy
+                      before taking this medication.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {batch.manufacturer && (
+                    <div>
+                      <p className="text-sm text-gray-600">Manufacturer</p>
+                      <p className="font-mono text-xs">
+                        {formatAddress(batch.manufacturer)}
+                      </p>
+                    </div>
+                  )}
+                  <div>
+                    <p className="text-sm text-gray-600">Units From Batch</p>
+                    <p className="font-semibold">{batch.quantity} units</p>
+                  </div>
+                  {batch.manufacturedDate && (
+                    <div>
+                      <p className="text-sm text-gray-600 flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        Manufactured Date
+                      </p>
+                      <p className="text-sm">
+                        {formatDate(batch.manufacturedDate)}
+                      </p>
+                    </div>
+                  )}
+                  {batch.expiryDate && (
+                    <div>
+                      <p className="text-sm text-gray-600 flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        Expiry Date
+                      </p>
+                      <p className="text-sm">{formatDate(batch.expiryDate)}</p>
+                    </div>
+                  )}
+                </div>
+
+                {!batch.traced ? (
+                  <p className="text-sm text-gray-500">
+                    This batch was received without a traceability record, so
+                    its journey before the pharmacy is not available.
+                  </p>
+                ) : (
+                  batch.movementHistory.length > 0 && (
+                    <div>
+                      <p className="flex items-center gap-2 font-medium mb-4">
+                        <MapPin className="h-4 w-4 text-purple-600" />
+                        Drug Journey (Traceability)
+                      </p>
+                      <div className="space-y-4">
+                        {batch.movementHistory.map((movement) => (
+                          <div
+                            key={movement.movementId}
+                            className="relative pl-6 pb-4 border-l-2 border-gray-200 last:border-l-0"
+                          >
+                            <div className="absolute left-[-9px] top-0 w-4 h-4 rounded-full bg-blue-500 border-2 border-white"></div>
+                            <div className="flex items-start justify-between gap-4">
+                              <div className="flex-1">
+                                <Badge variant="outline" className="mb-2">
+                                  {getMovementTypeLabel(movement.movementType)}
+                                </Badge>
+                                <div className="text-sm space-y-1">
+                                  <div className="flex items-center gap-2 text-gray-600">
+                                    <span className="font-medium">From:</span>
+                                    <span className="font-mono text-xs">
+                                      {movement.fromAddress
+                                        ? formatAddress(movement.fromAddress)
+                                        : "Manufacturer"}
+                                    </span>
+                                  </div>
+                                  <div className="flex items-center gap-2 text-gray-600">
+                                    <ArrowRight className="h-3 w-3" />
+                                    <span className="font-medium">To:</span>
+                                    <span className="font-mono text-xs">
+                                      {movement.toAddress
+                                        ? formatAddress(movement.toAddress)
+                                        : "Patient"}
+                                    </span>
+                                  </div>
+                                  <div className="text-gray-600">
+                                    <span className="font-medium">
+                                      Quantity:
+                                    </span>{" "}
+                                    {movement.quantity} units
+                                  </div>
+                                  {movement.notes && (
+                                    <div className="text-gray-600">
+                                      <span className="font-medium">
+                                        Notes:
+                                      </span>{" "}
+                                      {movement.notes}
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+                              <div className="text-xs text-gray-500 whitespace-nowrap">
+                                {formatDate(movement.timestamp)}
                               </div>
-                            )}
+                            </div>
                           </div>
-                        </div>
-                        <div className="text-xs text-gray-500 whitespace-nowrap">
-                          {formatDate(movement.timestamp)}
-                        </div>
+                        ))}
                       </div>
                     </div>
-                  ))}
-                </div>
+                  )
+                )}
               </CardContent>
             </Card>
-          )}
+          ))}
         </div>
       )}
     </div>
@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Search, X } from "lucide-react";
+
+export interface FormularyItem {
+  _id: string;
+  code: string;
+  name: string;
+  generic_name?: string;
+  strength: string;
+  dosage_form: string;
+  controlled_schedule: string;
+}
+
+interface FormularySearchProps {
+  value: FormularyItem | null;
+  onSelect: (item: FormularyItem | null) => void;
+  placeholder?: string;
+  required?: boolean;
+}
+
+const SEARCH_DELAY_MS = 250;
+
+export const formatFormularyItem = (item: FormularyItem) =>
+  `${item.name} ${item.strength} ${item.dosage_form}`;
+
+export default function FormularySearch({
+  value,
+  onSelect,
+  placeholder = "Search formulary by name or code...",
+  required = false,
+}: FormularySearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<FormularyItem[]>([]);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    if (value || !query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    // Debounce keystrokes and drop responses that arrive out of order
+    const id = ++requestId.current;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const token = localStorage.getItem("auth_token");
+        const response = await fetch(
+          `/api/formulary?q=${encodeURIComponent(query.trim())}&limit=10`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        const data = await response.json();
+        if (id === requestId.current) {
+          setResults(data.success ? data.data : []);
+          setOpen(true);
+        }
+      } catch (error) {
+        console.error("Error searching formulary:", error);
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, value]);
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-50">
+        <div>
+          <span className="font-medium text-gray-900">
+            {formatFormularyItem(value)}
+          </span>
+          <span className="ml-2 text-xs text-gray-500">{value.code}</span>
+          {value.controlled_schedule !== "none" && (
+            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-700">
+              Schedule {value.controlled_schedule}
+            </span>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            onSelect(null);
+            setQuery("");
+          }}
+          className="text-gray-400 hover:text-gray-600"
+          title="Change drug"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onFocus={() => results.length > 0 && setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        placeholder={placeholder}
+        required={required}
+        className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+      {open && query.trim() && (
+        <ul className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg">
+          {loading && results.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-500">Searching...</li>
+          )}
+          {!loading && results.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-500">
+              No formulary items match &quot;{query.trim()}&quot;
+            </li>
+          )}
+          {results.map((item) => (
+            <li key={item._id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  onSelect(item);
+                  setOpen(false);
+                }}
+                className="w-full text-left px-3 py-2 hover:bg-purple-50"
+              >
+                <div className="text-sm font-medium text-gray-900">
+                  {formatFormularyItem(item)}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {item.code}
+                  {item.generic_name ? ` · ${item.generic_name}` : ""}
+                  {item.controlled_schedule !== "none"
+                    ? ` · Schedule ${item.controlled_schedule}`
+                    : ""}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -36,19 +36,25 @@ interface FraudAlert {
   type: string;
   severity: string;
   description: string;
-  relatedEntities: {
-    prescriptionId?: string;
-    patientId?: string;
-    doctorId?: string;
-    pharmacistId?: string;
-    drugId?: string;
+  relatedEntity: {
+    type: string;
+    id: string;
+    name: string;
   };
   detectedAt: string;
+  lastDetectedAt: string;
   status: string;
-  investigatedBy?: string;
-  investigatedAt?: string;
-  resolution?: string;
-  notes?: string;
+  assignedTo?: { id: string; name: string };
+  notes: { author: string; text: string; createdAt: string }[];
+  history: {
+    action: string;
+    fromStatus?: string;
+    toStatus?: string;
+    performedBy: string;
+    comment?: string;
+    timestamp: string;
+  }[];
+  resolution?: { summary: string; resolvedBy: string; resolvedAt: string };
 }
 
 interface FraudSummary {
@@ -57,11 +63,34 @@ interface FraudSummary {
   medium: number;
   low: number;
   pending: number;
+  investigating: number;
   resolved: number;
   falsePositive: number;
   byType: Record<string, number>;
 }
 
+interface Investigator {
+  id: string;
+  name: string;
+}
+
+// Mirrors FRAUD_STATUS_TRANSITIONS in ReportingService
+const STATUS_ACTIONS: Record<string, { status: string; label: string }[]> = {
+  new: [
+    { status: "investigating", label: "Investigate" },
+    { status: "false_positive", label: "False Positive" },
+  ],
+  investigating: [
+    { status: "resolved", label: "Resolve" },
+    { status: "false_positive", label: "False Positive" },
+    { status: "new", label: "Back to New" },
+  ],
+  resolved: [{ status: "investigating", label: "Reopen" }],
+  false_positive: [{ status: "investigating", label: "Reopen" }],
+};
+
+const CLOSING_STATUSES = ["resolved", "false_positive"];
+
 export default function FraudAlertsDashboard() {
   const [alerts, setAlerts] = useState<FraudAlert[]>([]);
   const [summary, setSummary] = useState<FraudSummary | null>(null);
@@ -70,11 +99,25 @@ export default function FraudAlertsDashboard() {
   const [selectedSeverity, setSelectedSeverity] = useState<string>("all");
   const [selectedStatus, setSelectedStatus] = useState<string>("all");
   const [selectedType, setSelectedType] = useState<string>("all");
-
-  const fetchFraudAlerts = async () => {
+  const [investigators, setInvestigators] = useState<Investigator[]>([]);
+  const [expandedAlertId, setExpandedAlertId] = useState<string | null>(null);
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+  const [closing, setClosing] = useState<{
+    alertId: string;
+    status: string;
+    resolution: string;
+  } | null>(null);
+  const [savingAlertId, setSavingAlertId] = useState<string | null>(null);
+
+  // Loads the persisted cases; `detect` runs fraud detection first
+  const fetchFraudAlerts = async (detect = false) => {
     try {
       setLoading(true);
-      const response = await fetch("/api/reporting/fraud");
+      const token = localStorage.getItem("auth_token");
+      const response = await fetch("/api/reporting/fraud", {
+        method: detect ? "POST" : "GET",
+        headers: { Authorization: `Bearer ${token}` },
+      });
       const result = await response.json();
 
       if (!response.ok) {
@@ -83,6 +126,7 @@ export default function FraudAlertsDashboard() {
 
       setAlerts(result.data.alerts);
       setSummary(result.data.summary);
+      setInvestigators(result.data.investigators || []);
       setError(null);
     } catch (err: any) {
       console.error("Error fetching fraud alerts:", err);
@@ -92,6 +136,70 @@ export default function FraudAlertsDashboard() {
     }
   };
 
+  const updateAlert = async (
+    alertId: string,
+    changes: {
+      status?: string;
+      assignedTo?: string | null;
+      note?: string;
+      resolution?: string;
+    }
+  ) => {
+    try {
+      setSavingAlertId(alertId);
+      const token = localStorage.getItem("auth_token");
+      const response = await fetch(`/api/reporting/fraud/${alertId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(changes),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update fraud alert");
+      }
+
+      setAlerts((current) =>
+        current.map((a) => (a.id === alertId ? result.data : a))
+      );
+      setError(null);
+      return true;
+    } catch (err: any) {
+      console.error("Error updating fraud alert:", err);
+      setError(err.message || "Failed to update fraud alert");
+      return false;
+    } finally {
+      setSavingAlertId(null);
+    }
+  };
+
+  const handleStatusAction = (alert: FraudAlert, status: string) => {
+    if (CLOSING_STATUSES.includes(status)) {
+      setClosing({ alertId: alert.id, status, resolution: "" });
+      return;
+    }
+    updateAlert(alert.id, { status });
+  };
+
+  const handleConfirmClose = async () => {
+    if (!closing || !closing.resolution.trim()) return;
+    const saved = await updateAlert(closing.alertId, {
+      status: closing.status,
+      resolution: closing.resolution,
+    });
+    if (saved) setClosing(null);
+  };
+
+  const handleAddNote = async (alertId: string) => {
+    const note = noteDrafts[alertId]?.trim();
+    if (!note) return;
+    const saved = await updateAlert(alertId, { note });
+    if (saved) setNoteDrafts((drafts) => ({ ...drafts, [alertId]: "" }));
+  };
+
   useEffect(() => {
     fetchFraudAlerts();
   }, []);
@@ -204,12 +312,26 @@ export default function FraudAlertsDashboard() {
             Monitor and investigate suspicious activities
           </p>
         </div>
-        <Button onClick={fetchFraudAlerts} size="sm">
-          <RefreshCw
-            className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`}
-          />
-          Refresh
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            onClick={() => fetchFraudAlerts()}
+            size="sm"
+            variant="outline"
+          >
+            <RefreshCw
+              className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </Button>
+          <Button
+            onClick={() => fetchFraudAlerts(true)}
+            size="sm"
+            disabled={loading}
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Run Detection
+          </Button>
+        </div>
       </div>
 
       {summary && (
@@ -347,7 +469,7 @@ export default function FraudAlertsDashboard() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Statuses</SelectItem>
-                      <SelectItem value="pending">Pending</SelectItem>
+                      <SelectItem value="new">New</SelectItem>
                       <SelectItem value="investigating">
                         Investigating
                       </SelectItem>
@@ -433,34 +555,12 @@ export default function FraudAlertsDashboard() {
                               {alert.description}
                             </p>
 
-                            {/* Related Entities */}
+                            {/* Related Entity */}
                             <div className="flex flex-wrap gap-2 mb-3">
-                              {alert.relatedEntities.prescriptionId && (
-                                <Badge variant="outline" className="text-xs">
-                                  Rx: {alert.relatedEntities.prescriptionId}
-                                </Badge>
-                              )}
-                              {alert.relatedEntities.patientId && (
-                                <Badge variant="outline" className="text-xs">
-                                  Patient: {alert.relatedEntities.patientId}
-                                </Badge>
-                              )}
-                              {alert.relatedEntities.doctorId && (
-                                <Badge variant="outline" className="text-xs">
-                                  Doctor: {alert.relatedEntities.doctorId}
-                                </Badge>
-                              )}
-                              {alert.relatedEntities.pharmacistId && (
-                                <Badge variant="outline" className="text-xs">
-                                  Pharmacist:{" "}
-                                  {alert.relatedEntities.pharmacistId}
-                                </Badge>
-                              )}
-                              {alert.relatedEntities.drugId && (
-                                <Badge variant="outline" className="text-xs">
-                                  Drug: {alert.relatedEntities.drugId}
-                                </Badge>
-                              )}
+                              <Badge variant="outline" className="text-xs">
+                                {getFraudTypeLabel(alert.relatedEntity.type)}:{" "}
+                                {alert.relatedEntity.name}
+                              </Badge>
                             </div>
 
                             <div className="flex items-center gap-4 text-xs text-gray-500">
@@ -468,11 +568,18 @@ export default function FraudAlertsDashboard() {
                                 Detected:{" "}
                                 {new Date(alert.detectedAt).toLocaleString()}
                               </span>
-                              {alert.investigatedBy && (
+                              <span>•</span>
+                              <span>
+                                Last seen:{" "}
+                                {new Date(
+                                  alert.lastDetectedAt
+                                ).toLocaleString()}
+                              </span>
+                              {alert.assignedTo && (
                                 <>
                                   <span>•</span>
                                   <span>
-                                    Investigated by: {alert.investigatedBy}
+                                    Assigned to: {alert.assignedTo.name}
                                   </span>
                                 </>
                               )}
@@ -481,17 +588,125 @@ export default function FraudAlertsDashboard() {
                             {alert.resolution && (
                               <div className="mt-3 p-3 bg-white rounded border">
                                 <p className="text-xs font-medium text-gray-700 mb-1">
-                                  Resolution:
+                                  Resolution ({alert.resolution.resolvedBy}):
                                 </p>
                                 <p className="text-sm text-gray-600">
-                                  {alert.resolution}
+                                  {alert.resolution.summary}
                                 </p>
                               </div>
                             )}
 
-                            {alert.notes && (
-                              <div className="mt-2 text-sm text-gray-600 italic">
-                                Notes: {alert.notes}
+                            {closing?.alertId === alert.id && (
+                              <div className="mt-3 p-3 bg-white rounded border space-y-2">
+                                <label className="text-xs font-medium text-gray-700 block">
+                                  {closing.status === "resolved"
+                                    ? "Resolution summary"
+                                    : "Why is this a false positive?"}
+                                </label>
+                                <textarea
+                                  value={closing.resolution}
+                                  onChange={(e) =>
+                                    setClosing({
+                                      ...closing,
+                                      resolution: e.target.value,
+                                    })
+                                  }
+                                  rows={3}
+                                  className="w-full border rounded p-2 text-sm"
+                                />
+                                <div className="flex gap-2">
+                                  <Button
+                                    size="sm"
+                                    onClick={handleConfirmClose}
+                                    disabled={
+                                      !closing.resolution.trim() ||
+                                      savingAlertId === alert.id
+                                    }
+                                  >
+                                    Confirm
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setClosing(null)}
+                                  >
+                                    Cancel
+                                  </Button>
+                                </div>
+                              </div>
+                            )}
+
+                            {expandedAlertId === alert.id && (
+                              <div className="mt-3 space-y-3">
+                                {alert.notes.length > 0 && (
+                                  <div className="p-3 bg-white rounded border">
+                                    <p className="text-xs font-medium text-gray-700 mb-2">
+                                      Notes
+                                    </p>
+                                    {alert.notes.map((note, index) => (
+                                      <p
+                                        key={index}
+                                        className="text-sm text-gray-600 mb-1"
+                                      >
+                                        <span className="font-medium">
+                                          {note.author}
+                                        </span>{" "}
+                                        (
+                                        {new Date(
+                                          note.createdAt
+                                        ).toLocaleString()}
+                                        ): {note.text}
+                                      </p>
+                                    ))}
+                                  </div>
+                                )}
+
+                                <div className="flex gap-2">
+                                  <textarea
+                                    value={noteDrafts[alert.id] || ""}
+                                    onChange={(e) =>
+                                      setNoteDrafts((drafts) => ({
+                                        ...drafts,
+                                        [alert.id]: e.target.value,
+                                      }))
+                                    }
+                                    placeholder="Add an investigation note"
+                                    rows={2}
+                                    className="flex-1 border rounded p-2 text-sm"
+                                  />
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleAddNote(alert.id)}
+                                    disabled={
+                                      !noteDrafts[alert.id]?.trim() ||
+                                      savingAlertId === alert.id
+                                    }
+                                  >
+                                    Add Note
+                                  </Button>
+                                </div>
+
+                                <div className="p-3 bg-white rounded border">
+                                  <p className="text-xs font-medium text-gray-700 mb-2">
+                                    Audit Trail
+                                  </p>
+                                  {alert.history.map((entry, index) => (
+                                    <p
+                                      key={index}
+                                      className="text-xs text-gray-600 mb-1"
+                                    >
+                                      {new Date(
+                                        entry.timestamp
+                                      ).toLocaleString()}{" "}
+                                      — {entry.performedBy}:{" "}
+                                      {entry.action === "status_changed"
+                                        ? `${entry.fromStatus} → ${entry.toStatus}`
+                                        : entry.action.replace("_", " ")}
+                                      {entry.comment && ` (${entry.comment})`}
+                                    </p>
+                                  ))}
+                                </div>
                               </div>
                             )}
                           </div>
@@ -504,12 +719,55 @@ export default function FraudAlertsDashboard() {
                               {alert.status.replace("_", " ").toUpperCase()}
                             </Badge>
                           </div>
-                          {alert.status === "pending" && (
-                            <Button size="sm" variant="outline">
-                              <Eye className="h-4 w-4 mr-1" />
-                              Investigate
-                            </Button>
+                          <select
+                            value={alert.assignedTo?.id || ""}
+                            onChange={(e) =>
+                              updateAlert(alert.id, {
+                                assignedTo: e.target.value || null,
+                              })
+                            }
+                            disabled={savingAlertId === alert.id}
+                            className="border rounded px-2 py-1 text-xs bg-white"
+                          >
+                            <option value="">Unassigned</option>
+                            {investigators.map((investigator) => (
+                              <option
+                                key={investigator.id}
+                                value={investigator.id}
+                              >
+                                {investigator.name}
+                              </option>
+                            ))}
+                          </select>
+                          {(STATUS_ACTIONS[alert.status] || []).map(
+                            (action) => (
+                              <Button
+                                key={action.status}
+                                size="sm"
+                                variant="outline"
+                                onClick={() =>
+                                  handleStatusAction(alert, action.status)
+                                }
+                                disabled={savingAlertId === alert.id}
+                              >
+                                {action.label}
+                              </Button>
+                            )
                           )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() =>
+                              setExpandedAlertId(
+                                expandedAlertId === alert.id ? null : alert.id
+                              )
+                            }
+                          >
+                            <Eye className="h-4 w-4 mr-1" />
+                            {expandedAlertId === alert.id
+                              ? "Hide Details"
+                              : `Notes & History (${alert.notes.length})`}
+                          </Button>
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ShieldCheck,
+  Clock,
+  XCircle,
+  FileText,
+  Upload,
+  Loader2,
+} from "lucide-react";
+import { showError, showSuccess } from "@/lib/utils/toast-helper";
+
+export interface LicenseVerification {
+  userId: string;
+  role: "doctor" | "pharmacist";
+  licenseNumber: string;
+  status: "pending" | "verified" | "rejected";
+  rejectionReason?: string;
+  reviewedAt?: string;
+  onchainRoleTxHash?: string;
+  documents: {
+    id: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    uploadedAt: string;
+  }[];
+}
+
+const STATUS_DISPLAY = {
+  pending: {
+    icon: Clock,
+    label: "Awaiting review",
+    style: "bg-yellow-50 border-yellow-200 text-yellow-800",
+  },
+  verified: {
+    icon: ShieldCheck,
+    label: "Verified",
+    style: "bg-green-50 border-green-200 text-green-800",
+  },
+  rejected: {
+    icon: XCircle,
+    label: "Rejected",
+    style: "bg-red-50 border-red-200 text-red-800",
+  },
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+/**
+ * License status and document upload for the signed-in doctor or
+ * pharmacist
+ */
+export default function LicenseVerificationPanel() {
+  const [verification, setVerification] = useState<LicenseVerification | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+
+  useEffect(() => {
+    fetchVerification();
+  }, []);
+
+  const fetchVerification = async () => {
+    try {
+      const token = localStorage.getItem("auth_token");
+      const response = await fetch("/api/verification", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const result = await response.json();
+      if (result.success) {
+        setVerification(result.data);
+      } else {
+        showError(result.error || "Failed to load verification status");
+      }
+    } catch (error) {
+      console.error("Error fetching verification status:", error);
+      showError("Failed to load verification status");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const token = localStorage.getItem("auth_token");
+      const formData = new FormData();
+      formData.append("document", file);
+
+      const response = await fetch("/api/verification/documents", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setVerification(result.data);
+        setFile(null);
+        showSuccess(result.message);
+      } else {
+        showError(result.error || "Failed to upload document");
+      }
+    } catch (error) {
+      console.error("Error uploading license document:", error);
+      showError("Failed to upload document");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!verification) return null;
+
+  const display = STATUS_DISPLAY[verification.status];
+  const StatusIcon = display.icon;
+
+  return (
+    <div className="space-y-6">
+      <div
+        className={`flex items-start gap-3 border rounded-lg p-4 ${display.style}`}
+      >
+        <StatusIcon className="w-6 h-6 flex-shrink-0" />
+        <div>
+          <p className="font-semibold">{display.label}</p>
+          {verification.status === "pending" && (
+            <p className="text-sm mt-1">
+              {verification.documents.length === 0
+                ? `Upload your ${verification.role === "doctor" ? "medical" : "pharmacy"} license so an administrator can review your registration.`
+                : "An administrator will review your documents. You can prescribe or dispense once approved."}
+            </p>
+          )}
+          {verification.status === "rejected" && (
+            <p className="text-sm mt-1">
+              {verification.rejectionReason}
+              <br />
+              Upload corrected documents to request another review.
+            </p>
+          )}
+          {verification.status === "verified" && verification.reviewedAt && (
+            <p className="text-sm mt-1">
+              Approved on{" "}
+              {new Date(verification.reviewedAt).toLocaleDateString()}
+              {verification.onchainRoleTxHash && " · on-chain role granted"}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">
+          License Documents
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          License number: {verification.licenseNumber}
+        </p>
+
+        {verification.documents.length === 0 ? (
+          <p className="text-sm text-gray-500">No documents uploaded yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {verification.documents.map((doc) => (
+              <li key={doc.id} className="flex items-center gap-3 py-2">
+                <FileText className="w-5 h-5 text-gray-400" />
+                <span className="flex-1 text-sm text-gray-900">{doc.name}</span>
+                <span className="text-xs text-gray-500">
+                  {formatFileSize(doc.size)} ·{" "}
+                  {new Date(doc.uploadedAt).toLocaleDateString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {verification.status !== "verified" && (
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+            <input
+              type="file"
+              accept="application/pdf,image/jpeg,image/png"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="text-sm text-gray-700"
+            />
+            <button
+              onClick={handleUpload}
+              disabled={!file || uploading}
+              className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {uploading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4" />
+              )}
+              Upload
+            </button>
+          </div>
+        )}
+        <p className="mt-2 text-xs text-gray-500">
+          PDF, JPEG or PNG, up to 10 MB. Documents are only visible to
+          administrators.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Bell, Loader2 } from "lucide-react";
+
+interface NotificationItem {
+  id: string;
+  type: string;
+  severity: "info" | "success" | "warning" | "critical";
+  title: string;
+  message: string;
+  link?: string;
+  isRead: boolean;
+  createdAt: string;
+}
+
+// How often the unread badge is refreshed while the dashboard is open
+const UNREAD_POLL_MS = 60 * 1000;
+const PAGE_SIZE = 20;
+
+const SEVERITY_DOT = {
+  info: "bg-blue-500",
+  success: "bg-green-500",
+  warning: "bg-yellow-500",
+  critical: "bg-red-500",
+};
+
+export const formatRelativeTime = (date: string) => {
+  const seconds = Math.floor((Date.now() - new Date(date).getTime()) / 1000);
+  if (seconds < 60) return "just now";
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"} ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days} day${days === 1 ? "" : "s"} ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+});
+
+/**
+ * Header bell with the signed-in user's unread count and a dropdown of
+ * their notifications
+ */
+export default function NotificationBell() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  const fetchUnreadCount = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications/unread-count", {
+        headers: authHeaders(),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setUnreadCount(result.data.unreadCount);
+      }
+    } catch (error) {
+      console.error("Error fetching unread notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUnreadCount();
+    const interval = setInterval(fetchUnreadCount, UNREAD_POLL_MS);
+    return () => clearInterval(interval);
+  }, [fetchUnreadCount]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as HTMLElement;
+      if (open && !target.closest(".notification-menu-container")) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [open]);
+
+  const fetchNotifications = async (before?: string) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (before) params.set("before", before);
+
+      const response = await fetch(`/api/notifications?${params}`, {
+        headers: authHeaders(),
+      });
+      const result = await response.json();
+      if (result.success) {
+        const page: NotificationItem[] = result.data.notifications;
+        setNotifications((current) => (before ? [...current, ...page] : page));
+        setUnreadCount(result.data.unreadCount);
+        setHasMore(page.length === PAGE_SIZE);
+      }
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    try {
+      const response = await fetch("/api/notifications/read", {
+        method: "POST",
+        headers: { ...authHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setUnreadCount(result.data.unreadCount);
+      }
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+    }
+  };
+
+  const toggle = () => {
+    if (!open) fetchNotifications();
+    setOpen(!open);
+  };
+
+  const handleMarkAllRead = () => {
+    setNotifications(notifications.map((n) => ({ ...n, isRead: true })));
+    markRead({ all: true });
+  };
+
+  const handleSelect = (notification: NotificationItem) => {
+    if (!notification.isRead) {
+      setNotifications(
+        notifications.map((n) =>
+          n.id === notification.id ? { ...n, isRead: true } : n
+        )
+      );
+      markRead({ ids: [notification.id] });
+    }
+    if (notification.link) {
+      setOpen(false);
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <div className="relative notification-menu-container">
+      <button
+        onClick={toggle}
+        className="relative p-2.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl transition-all"
+      >
+        <Bell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-gradient-to-br from-red-500 to-pink-600 text-white text-xs rounded-full flex items-center justify-center font-bold animate-pulse">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-3 w-96 bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 z-50 backdrop-blur-xl max-h-[500px] overflow-hidden flex flex-col">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+              Notifications
+            </h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {/* Notifications List */}
+          <div className="overflow-y-auto max-h-[400px]">
+            {notifications.length > 0 ? (
+              notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`px-6 py-4 border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors cursor-pointer ${
+                    !notification.isRead
+                      ? "bg-blue-50/50 dark:bg-blue-900/10"
+                      : ""
+                  }`}
+                  onClick={() => handleSelect(notification)}
+                >
+                  <div className="flex items-start space-x-3">
+                    <div
+                      className={`w-2 h-2 rounded-full mt-2 flex-shrink-0 ${
+                        SEVERITY_DOT[notification.severity] || SEVERITY_DOT.info
+                      }`}
+                    ></div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between">
+                        <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                          {notification.title}
+                        </p>
+                        {!notification.isRead && (
+                          <span className="ml-2 w-2 h-2 bg-blue-600 rounded-full flex-shrink-0"></span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                        {notification.message}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                        {formatRelativeTime(notification.createdAt)}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              ))
+            ) : loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+              </div>
+            ) : (
+              <div className="px-6 py-12 text-center">
+                <Bell
+                  className="mx-auto text-gray-300 dark:text-gray-600 mb-3"
+                  size={48}
+                />
+                <p className="text-gray-500 dark:text-gray-400 text-sm">
+                  No notifications yet
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          {hasMore && (
+            <div className="px-6 py-3 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
+              <button
+                onClick={() =>
+                  fetchNotifications(
+                    notifications[notifications.length - 1]?.createdAt
+                  )
+                }
+                disabled={loading}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium w-full text-center disabled:opacity-50"
+              >
+                {loading ? "Loading..." : "Load older notifications"}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
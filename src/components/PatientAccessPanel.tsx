@@ -0,0 +1,331 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ShieldCheck, ShieldAlert, Loader2, X } from "lucide-react";
+import { showError, showSuccess } from "@/lib/utils/toast-helper";
+
+interface DirectoryEntry {
+  id: string;
+  name: string;
+  detail: string;
+}
+
+interface AccessGrant {
+  id: string;
+  granteeType: "doctor" | "pharmacy";
+  grantee: DirectoryEntry;
+  status: "active" | "expired" | "revoked";
+  grantedAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+}
+
+interface EmergencyAccess {
+  id: string;
+  name: string;
+  role: string;
+  justification: string;
+  startedAt: string;
+  expiresAt: string;
+}
+
+const STATUS_STYLES = {
+  active: "bg-green-100 text-green-800",
+  expired: "bg-gray-100 text-gray-700",
+  revoked: "bg-red-100 text-red-800",
+};
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+});
+
+/**
+ * Lets a patient choose which doctors and pharmacies may see their records
+ * and shows every emergency access to them
+ */
+export default function PatientAccessPanel() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [grants, setGrants] = useState<AccessGrant[]>([]);
+  const [emergencyAccess, setEmergencyAccess] = useState<EmergencyAccess[]>([]);
+  const [directory, setDirectory] = useState<{
+    doctors: DirectoryEntry[];
+    pharmacies: DirectoryEntry[];
+  }>({ doctors: [], pharmacies: [] });
+  const [granteeType, setGranteeType] = useState<"doctor" | "pharmacy">(
+    "doctor"
+  );
+  const [granteeId, setGranteeId] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    loadGrants();
+  }, []);
+
+  const loadGrants = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/patients/access-grants", {
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setGrants(data.grants);
+        setEmergencyAccess(data.emergencyAccess);
+        setDirectory(data.directory);
+      } else {
+        showError(data.error || "Failed to load record access");
+      }
+    } catch (error) {
+      showError("Failed to load record access");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!granteeId) {
+      showError(`Choose a ${granteeType}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/patients/access-grants", {
+        method: "POST",
+        headers: { ...authHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({
+          [granteeType === "doctor" ? "doctorId" : "pharmacyId"]: granteeId,
+          // End of the chosen day
+          expiresAt: expiresAt
+            ? new Date(`${expiresAt}T23:59:59`).toISOString()
+            : null,
+        }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        showSuccess(`Access granted to ${data.grant.grantee.name}`);
+        setGranteeId("");
+        setExpiresAt("");
+        loadGrants();
+      } else {
+        showError(data.error || "Failed to grant access");
+      }
+    } catch (error) {
+      showError("Failed to grant access");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (grant: AccessGrant) => {
+    if (
+      !confirm(
+        `Revoke ${grant.grantee.name}'s access to your records? They will no longer see your prescriptions or history.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/patients/access-grants/${grant.id}`, {
+        method: "DELETE",
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+      if (data.success) {
+        showSuccess("Access revoked");
+        loadGrants();
+      } else {
+        showError(data.error || "Failed to revoke access");
+      }
+    } catch (error) {
+      showError("Failed to revoke access");
+    }
+  };
+
+  const options =
+    granteeType === "doctor" ? directory.doctors : directory.pharmacies;
+  const visibleGrants = showHistory
+    ? grants
+    : grants.filter((grant) => grant.status === "active");
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000)
+    .toISOString()
+    .split("T")[0];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div className="flex items-start gap-3">
+        <ShieldCheck className="w-6 h-6 text-blue-600 flex-shrink-0" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            Access to your records
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Only the doctors and pharmacies you choose can see your
+            prescriptions and history or prescribe and dispense for you.
+          </p>
+        </div>
+      </div>
+
+      {/* Grant form */}
+      <form
+        onSubmit={handleGrant}
+        className="grid gap-3 md:grid-cols-[auto_1fr_auto_auto] items-end"
+      >
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Grant to
+          </label>
+          <select
+            value={granteeType}
+            onChange={(e) => {
+              setGranteeType(e.target.value as "doctor" | "pharmacy");
+              setGranteeId("");
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="doctor">Doctor</option>
+            <option value="pharmacy">Pharmacy</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {granteeType === "doctor" ? "Doctor" : "Pharmacy"}
+          </label>
+          <select
+            value={granteeId}
+            onChange={(e) => setGranteeId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Select...</option>
+            {options.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+                {option.detail ? ` (${option.detail})` : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Until (optional)
+          </label>
+          <input
+            type="date"
+            value={expiresAt}
+            min={tomorrow}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Grant access
+        </button>
+      </form>
+
+      {/* Grants */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium text-gray-900">
+              {showHistory ? "All grants" : "Active grants"}
+            </h4>
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              {showHistory ? "Show active only" : "Show history"}
+            </button>
+          </div>
+          {visibleGrants.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4">
+              You have not granted anyone access to your records.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {visibleGrants.map((grant) => (
+                <div
+                  key={grant.id}
+                  className="flex items-center justify-between gap-4 px-4 py-3"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">
+                      {grant.grantee.name}
+                      <span className="ml-2 text-xs text-gray-500 capitalize">
+                        {grant.granteeType}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {grant.grantee.detail}
+                      {" · "}
+                      {grant.status === "revoked" && grant.revokedAt
+                        ? `Revoked ${new Date(grant.revokedAt).toLocaleDateString()}`
+                        : grant.expiresAt
+                          ? `Until ${new Date(grant.expiresAt).toLocaleDateString()}`
+                          : "No expiry"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[grant.status]}`}
+                    >
+                      {grant.status}
+                    </span>
+                    {grant.status === "active" && (
+                      <button
+                        onClick={() => handleRevoke(grant)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Revoke access"
+                      >
+                        <X className="w-5 h-5" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Emergency access log */}
+      {emergencyAccess.length > 0 && (
+        <div>
+          <h4 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-red-600" />
+            Emergency access to your records
+          </h4>
+          <div className="divide-y divide-red-100 border border-red-200 rounded-lg bg-red-50">
+            {emergencyAccess.map((access) => (
+              <div key={access.id} className="px-4 py-3 text-sm">
+                <p className="font-medium text-gray-900">
+                  {access.name}{" "}
+                  <span className="text-gray-600 capitalize">
+                    ({access.role})
+                  </span>
+                </p>
+                <p className="text-gray-700 mt-1">{access.justification}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {new Date(access.startedAt).toLocaleString()} until{" "}
+                  {new Date(access.expiresAt).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
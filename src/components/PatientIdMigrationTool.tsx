@@ -24,7 +24,7 @@ export default function PatientIdMigrationTool() {
     setResult(null);
 
     try {
-      const token = localStorage.getItem("token");
+      const token = localStorage.getItem("auth_token");
 
       if (!token) {
         setResult({
@@ -5,6 +5,14 @@ import { useRouter } from "next/navigation";
 import { useAuth } from "@/lib/auth-context";
 import { UserRole } from "@/types/auth";
 
+// Mirrors TWO_FACTOR_REQUIRED_ROLES in src/lib/utils/two-factor.ts
+const TWO_FACTOR_REQUIRED_ROLES: UserRole[] = ["doctor", "pharmacist", "admin"];
+
+const needsTwoFactorSetup = (user: {
+  role: UserRole;
+  twoFactorEnabled?: boolean;
+}) => TWO_FACTOR_REQUIRED_ROLES.includes(user.role) && !user.twoFactorEnabled;
+
 interface ProtectedRouteProps {
   children: ReactNode;
   allowedRoles: UserRole[];
@@ -41,6 +49,13 @@ export default function ProtectedRoute({
       return;
     }
 
+    // The API refuses these users until they enrol
+    if (needsTwoFactorSetup(user)) {
+      console.log("⛔ Two-factor authentication required - redirecting");
+      router.push("/auth/two-factor-setup");
+      return;
+    }
+
     console.log(`✅ Access granted - User role '${user.role}' is authorized`);
   }, [user, isAuthenticated, isLoading, allowedRoles, router, redirectTo]);
 
@@ -57,7 +72,12 @@ export default function ProtectedRoute({
   }
 
   // Don't render children until auth is verified
-  if (!isAuthenticated || !user || !allowedRoles.includes(user.role)) {
+  if (
+    !isAuthenticated ||
+    !user ||
+    !allowedRoles.includes(user.role) ||
+    needsTwoFactorSetup(user)
+  ) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="text-center">
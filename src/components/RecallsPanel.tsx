@@ -0,0 +1,688 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AlertOctagon, Loader2, X, PackageX, Undo2 } from "lucide-react";
+import { showError, showSuccess } from "@/lib/utils/toast-helper";
+
+type RecallStatus = "open" | "closed";
+type MovementType = "returned" | "destroyed";
+
+interface Recall {
+  id: string;
+  batchNumber: string;
+  drugName: string;
+  reason: string;
+  classification: "class_i" | "class_ii" | "class_iii";
+  status: RecallStatus;
+  frozenQuantity: number;
+  outstandingQuantity: number;
+  patientsNotified: number;
+  onchainTxHash: string | null;
+  onchainError: string | null;
+  openedBy: string | null;
+  openedAt: string;
+  closedBy: string | null;
+  closedAt: string | null;
+  closingNotes: string | null;
+}
+
+interface RecalledStock {
+  pharmacyId: string;
+  pharmacyName: string;
+  drugId: string;
+  drugName: string;
+  quantity: number;
+}
+
+interface RecallDetail {
+  recall: Recall;
+  stock: RecalledStock[];
+  movements: {
+    id: string;
+    type: MovementType;
+    quantity: number;
+    pharmacyName: string;
+    notes: string | null;
+    recordedAt: string;
+  }[];
+  affectedPatients:
+    | {
+        userId: string;
+        name: string;
+        medicalRecordNumber?: string;
+        prescriptionCount: number;
+        sources: string[];
+      }[]
+    | null;
+}
+
+const CLASSIFICATIONS = [
+  { value: "class_i", label: "Class I – serious harm" },
+  { value: "class_ii", label: "Class II – temporary harm" },
+  { value: "class_iii", label: "Class III – unlikely to harm" },
+];
+
+const CLASSIFICATION_LABELS = {
+  class_i: "Class I",
+  class_ii: "Class II",
+  class_iii: "Class III",
+};
+
+const CLASSIFICATION_STYLES = {
+  class_i: "bg-red-100 text-red-800",
+  class_ii: "bg-orange-100 text-orange-800",
+  class_iii: "bg-yellow-100 text-yellow-800",
+};
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+});
+
+/**
+ * Batch recalls. Admins open and close recalls and see affected patients;
+ * pharmacies record the return or destruction of their frozen stock.
+ */
+export default function RecallsPanel({ canManage }: { canManage: boolean }) {
+  const [status, setStatus] = useState<RecallStatus>("open");
+  const [recalls, setRecalls] = useState<Recall[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<RecallDetail | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [showOpenForm, setShowOpenForm] = useState(false);
+  const [batchNumber, setBatchNumber] = useState("");
+  const [classification, setClassification] = useState("class_ii");
+  const [reason, setReason] = useState("");
+
+  const [movement, setMovement] = useState<{
+    drugId: string;
+    type: MovementType;
+    quantity: string;
+    notes: string;
+  } | null>(null);
+  const [closingNotes, setClosingNotes] = useState("");
+
+  useEffect(() => {
+    fetchRecalls();
+  }, [status]);
+
+  const fetchRecalls = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/recalls?status=${status}`, {
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setRecalls(data.recalls);
+      } else {
+        showError(data.error || "Failed to load recalls");
+      }
+    } catch (error) {
+      showError("Failed to load recalls");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDetail = async (recallId: string) => {
+    try {
+      const response = await fetch(`/api/recalls/${recallId}`, {
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSelected(data);
+        setMovement(null);
+        setClosingNotes("");
+      } else {
+        showError(data.error || "Failed to load recall");
+      }
+    } catch (error) {
+      showError("Failed to load recall");
+    }
+  };
+
+  const handleOpenRecall = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (
+      !confirm(
+        `Recall batch ${batchNumber}? Its stock is frozen in every pharmacy and every patient who received it is notified.`
+      )
+    ) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch("/api/recalls", {
+        method: "POST",
+        headers: { ...authHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ batchNumber, classification, reason }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        showSuccess(data.message);
+        if (data.recall.onchainError) {
+          showError(
+            `On-chain deactivation failed: ${data.recall.onchainError}`
+          );
+        }
+        setShowOpenForm(false);
+        setBatchNumber("");
+        setReason("");
+        setStatus("open");
+        fetchRecalls();
+      } else {
+        showError(data.error || "Failed to open recall");
+      }
+    } catch (error) {
+      showError("Failed to open recall");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !movement) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(
+        `/api/recalls/${selected.recall.id}/movements`,
+        {
+          method: "POST",
+          headers: { ...authHeaders(), "Content-Type": "application/json" },
+          body: JSON.stringify({
+            drugId: movement.drugId,
+            type: movement.type,
+            quantity: parseInt(movement.quantity, 10),
+            notes: movement.notes,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (data.success) {
+        showSuccess(data.message);
+        openDetail(selected.recall.id);
+        fetchRecalls();
+      } else {
+        showError(data.error || "Failed to record movement");
+      }
+    } catch (error) {
+      showError("Failed to record movement");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!selected) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/recalls/${selected.recall.id}/close`, {
+        method: "POST",
+        headers: { ...authHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ notes: closingNotes }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        showSuccess(data.message);
+        setSelected(null);
+        fetchRecalls();
+      } else {
+        showError(data.error || "Failed to close recall");
+      }
+    } catch (error) {
+      showError("Failed to close recall");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <AlertOctagon className="w-6 h-6 text-red-600 flex-shrink-0" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                Batch recalls
+              </h3>
+              <p className="text-sm text-gray-600 mt-1">
+                Stock of a recalled batch is frozen in every pharmacy and cannot
+                be dispensed. It leaves only by being returned or destroyed.
+              </p>
+            </div>
+          </div>
+          {canManage && (
+            <button
+              onClick={() => setShowOpenForm(!showOpenForm)}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex-shrink-0"
+            >
+              Open recall
+            </button>
+          )}
+        </div>
+
+        {canManage && showOpenForm && (
+          <form
+            onSubmit={handleOpenRecall}
+            className="mt-6 grid gap-4 md:grid-cols-2 border-t pt-6"
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Batch number
+              </label>
+              <input
+                type="text"
+                value={batchNumber}
+                onChange={(e) => setBatchNumber(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Classification
+              </label>
+              <select
+                value={classification}
+                onChange={(e) => setClassification(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              >
+                {CLASSIFICATIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reason
+              </label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                maxLength={2000}
+                placeholder="e.g. Contamination found in stability testing"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                required
+              />
+            </div>
+            <div className="md:col-span-2 flex justify-end">
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+              >
+                {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Recall batch
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div className="flex space-x-2 border-b border-gray-200">
+        {(["open", "closed"] as RecallStatus[]).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setStatus(tab)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px capitalize ${
+              status === tab
+                ? "border-primary text-primary"
+                : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : recalls.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <AlertOctagon className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+            No {status} recalls
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Drug
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Class
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  {canManage ? "Still frozen" : "Frozen at your pharmacy"}
+                </th>
+                {canManage && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Patients notified
+                  </th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Opened
+                </th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {recalls.map((recall) => (
+                <tr key={recall.id}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">
+                      {recall.drugName}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Batch {recall.batchNumber}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium ${CLASSIFICATION_STYLES[recall.classification]}`}
+                    >
+                      {CLASSIFICATION_LABELS[recall.classification]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {recall.outstandingQuantity}
+                    {canManage && ` of ${recall.frozenQuantity}`}
+                  </td>
+                  {canManage && (
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {recall.patientsNotified}
+                    </td>
+                  )}
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {new Date(recall.openedAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => openDetail(recall.id)}
+                      className="text-primary hover:text-primary-dark text-sm font-medium"
+                    >
+                      Details
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {selected && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  {selected.recall.drugName}
+                </h2>
+                <p className="text-sm text-gray-500">
+                  Batch {selected.recall.batchNumber} · opened{" "}
+                  {new Date(selected.recall.openedAt).toLocaleString()}
+                  {selected.recall.openedBy &&
+                    ` by ${selected.recall.openedBy}`}
+                </p>
+              </div>
+              <button
+                onClick={() => setSelected(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-1">
+                  Reason
+                </h3>
+                <p className="text-sm text-gray-700">
+                  {selected.recall.reason}
+                </p>
+                <p className="text-xs text-gray-500 mt-2 break-all">
+                  {selected.recall.onchainTxHash
+                    ? `Deactivated on-chain: ${selected.recall.onchainTxHash}`
+                    : selected.recall.onchainError
+                      ? `Not deactivated on-chain: ${selected.recall.onchainError}`
+                      : "Batch is not registered on-chain"}
+                </p>
+                {selected.recall.status === "closed" && (
+                  <p className="text-sm text-gray-700 mt-2">
+                    Closed{" "}
+                    {new Date(selected.recall.closedAt!).toLocaleString()}
+                    {selected.recall.closedBy &&
+                      ` by ${selected.recall.closedBy}`}
+                    {selected.recall.closingNotes &&
+                      `: ${selected.recall.closingNotes}`}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                  Frozen stock
+                </h3>
+                {selected.stock.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No frozen stock is left
+                    {canManage ? "" : " at your pharmacy"}.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 border rounded-md">
+                    {selected.stock.map((held) => (
+                      <li key={held.drugId} className="px-3 py-2">
+                        <div className="flex items-center gap-3">
+                          <span className="flex-1 text-sm text-gray-900">
+                            {held.pharmacyName} · {held.drugName}
+                          </span>
+                          <span className="text-sm font-medium text-gray-900">
+                            {held.quantity} unit(s)
+                          </span>
+                          {selected.recall.status === "open" && (
+                            <>
+                              <button
+                                onClick={() =>
+                                  setMovement({
+                                    drugId: held.drugId,
+                                    type: "returned",
+                                    quantity: String(held.quantity),
+                                    notes: "",
+                                  })
+                                }
+                                className="text-primary hover:text-primary-dark"
+                                title="Record return"
+                              >
+                                <Undo2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() =>
+                                  setMovement({
+                                    drugId: held.drugId,
+                                    type: "destroyed",
+                                    quantity: String(held.quantity),
+                                    notes: "",
+                                  })
+                                }
+                                className="text-red-600 hover:text-red-700"
+                                title="Record destruction"
+                              >
+                                <PackageX className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                        {movement?.drugId === held.drugId && (
+                          <form
+                            onSubmit={handleMovement}
+                            className="mt-3 grid gap-3 md:grid-cols-[auto_1fr_auto] items-end"
+                          >
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">
+                                Units {movement.type}
+                              </label>
+                              <input
+                                type="number"
+                                min={1}
+                                max={held.quantity}
+                                value={movement.quantity}
+                                onChange={(e) =>
+                                  setMovement({
+                                    ...movement,
+                                    quantity: e.target.value,
+                                  })
+                                }
+                                className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                                required
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">
+                                Notes
+                              </label>
+                              <input
+                                type="text"
+                                value={movement.notes}
+                                onChange={(e) =>
+                                  setMovement({
+                                    ...movement,
+                                    notes: e.target.value,
+                                  })
+                                }
+                                placeholder={
+                                  movement.type === "returned"
+                                    ? "e.g. Courier reference"
+                                    : "e.g. Destruction certificate number"
+                                }
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                              />
+                            </div>
+                            <button
+                              type="submit"
+                              disabled={submitting}
+                              className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark disabled:opacity-50"
+                            >
+                              Record{" "}
+                              {movement.type === "returned"
+                                ? "return"
+                                : "destruction"}
+                            </button>
+                          </form>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                  Returns and destruction
+                </h3>
+                {selected.movements.length === 0 ? (
+                  <p className="text-sm text-gray-500">None recorded yet</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {selected.movements.map((entry) => (
+                      <li key={entry.id} className="text-sm">
+                        <span className="font-medium text-gray-900 capitalize">
+                          {entry.type}
+                        </span>
+                        <span className="text-gray-500">
+                          {" "}
+                          · {entry.quantity} unit(s) · {entry.pharmacyName} ·{" "}
+                          {new Date(entry.recordedAt).toLocaleString()}
+                        </span>
+                        {entry.notes && (
+                          <p className="text-gray-700">{entry.notes}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {selected.affectedPatients && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                    Affected patients ({selected.affectedPatients.length})
+                  </h3>
+                  {selected.affectedPatients.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      The batch has not been dispensed to any patient
+                    </p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100 border rounded-md">
+                      {selected.affectedPatients.map((patient) => (
+                        <li
+                          key={patient.userId}
+                          className="flex items-center gap-3 px-3 py-2 text-sm"
+                        >
+                          <span className="flex-1 text-gray-900">
+                            {patient.name}
+                            {patient.medicalRecordNumber &&
+                              ` · ${patient.medicalRecordNumber}`}
+                          </span>
+                          <span className="text-gray-500">
+                            {patient.prescriptionCount} prescription(s) ·{" "}
+                            {patient.sources.join(", ")}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {canManage && selected.recall.status === "open" && (
+                <div className="border-t pt-4 space-y-3">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Closing notes
+                  </label>
+                  <textarea
+                    value={closingNotes}
+                    onChange={(e) => setClosingNotes(e.target.value)}
+                    rows={2}
+                    maxLength={2000}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleClose}
+                      disabled={
+                        submitting || selected.recall.outstandingQuantity > 0
+                      }
+                      title={
+                        selected.recall.outstandingQuantity > 0
+                          ? "Frozen stock must be returned or destroyed first"
+                          : undefined
+                      }
+                      className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50"
+                    >
+                      Close recall
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
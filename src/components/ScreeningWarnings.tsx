@@ -0,0 +1,78 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+
+export interface ScreeningWarning {
+  type: "allergy" | "interaction" | "contraindication";
+  severity: "minor" | "moderate" | "severe";
+  drug: string;
+  conflictsWith: string;
+  message: string;
+}
+
+interface ScreeningWarningsProps {
+  warnings: ScreeningWarning[];
+  overrideReason: string;
+  onOverrideReasonChange: (reason: string) => void;
+}
+
+const SEVERITY_STYLES: Record<ScreeningWarning["severity"], string> = {
+  severe: "bg-red-50 border-red-200 text-red-800",
+  moderate: "bg-yellow-50 border-yellow-200 text-yellow-800",
+  minor: "bg-blue-50 border-blue-200 text-blue-800",
+};
+
+const TYPE_LABELS: Record<ScreeningWarning["type"], string> = {
+  allergy: "Allergy",
+  interaction: "Interaction",
+  contraindication: "Contraindication",
+};
+
+export default function ScreeningWarnings({
+  warnings,
+  overrideReason,
+  onOverrideReasonChange,
+}: ScreeningWarningsProps) {
+  if (warnings.length === 0) return null;
+
+  const hasSevere = warnings.some((w) => w.severity === "severe");
+
+  return (
+    <div className="space-y-2">
+      {warnings.map((warning, index) => (
+        <div
+          key={index}
+          className={`flex items-start gap-2 border rounded-md px-3 py-2 text-sm ${
+            SEVERITY_STYLES[warning.severity]
+          }`}
+        >
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <span className="font-semibold uppercase text-xs mr-2">
+              {warning.severity} {TYPE_LABELS[warning.type]}
+            </span>
+            {warning.drug} – {warning.conflictsWith}: {warning.message}
+          </div>
+        </div>
+      ))}
+
+      {hasSevere && (
+        <div>
+          <label className="block text-sm font-medium text-red-700 mb-1">
+            Override reason *
+          </label>
+          <textarea
+            value={overrideReason}
+            onChange={(e) => onOverrideReasonChange(e.target.value)}
+            className="w-full px-3 py-2 border border-red-300 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+            rows={2}
+            placeholder="Clinical justification for proceeding despite the severe warning"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            The reason is recorded in the prescription audit trail.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Monitor, Loader2, LogOut } from "lucide-react";
+import { useAuth } from "@/lib/auth-context";
+import { showError, showSuccess } from "@/lib/utils/toast-helper";
+
+interface DeviceSession {
+  id: string;
+  authMethod: "password" | "wallet";
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+});
+
+// Browser and operating system named in a user agent, e.g. "Firefox on
+// Windows"
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Firefox\//.test(userAgent)
+      ? "Firefox"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : "Browser";
+  const os = /Windows/.test(userAgent)
+    ? "Windows"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /iPhone|iPad/.test(userAgent)
+        ? "iOS"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "unknown system";
+
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Devices signed in to the account, with sign-out for each one or for all
+ * but this one
+ */
+export default function SessionsPanel() {
+  const { logout } = useAuth();
+  const [isLoading, setIsLoading] = useState(true);
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/auth/sessions", {
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSessions(data.sessions);
+      } else {
+        showError(data.error || "Failed to load signed-in devices");
+      }
+    } catch (error) {
+      showError("Failed to load signed-in devices");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: DeviceSession) => {
+    if (
+      session.current &&
+      !confirm("This is the device you are using. Sign out now?")
+    ) {
+      return;
+    }
+
+    setRevokingId(session.id);
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, {
+        method: "DELETE",
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+      if (data.success) {
+        if (data.current) {
+          await logout();
+          return;
+        }
+        showSuccess("Device signed out");
+        loadSessions();
+      } else {
+        showError(data.error || "Failed to sign out device");
+      }
+    } catch (error) {
+      showError("Failed to sign out device");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm("Sign out of every other device?")) {
+      return;
+    }
+
+    setRevokingId("others");
+    try {
+      const response = await fetch("/api/auth/sessions", {
+        method: "DELETE",
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+      if (data.success) {
+        showSuccess(data.message);
+        loadSessions();
+      } else {
+        showError(data.error || "Failed to sign out other devices");
+      }
+    } catch (error) {
+      showError("Failed to sign out other devices");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <Monitor className="w-6 h-6 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            Signed-in Devices
+          </h3>
+        </div>
+        {hasOtherSessions && (
+          <button
+            onClick={handleRevokeOthers}
+            disabled={revokingId !== null}
+            className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            Sign out all other devices
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4">No signed-in devices.</p>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className="flex items-center justify-between gap-4 px-4 py-3"
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900">
+                  {describeDevice(session.userAgent)}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {session.ipAddress || "Unknown IP"}
+                  {" · "}
+                  {session.authMethod === "wallet" ? "Wallet" : "Password"}{" "}
+                  sign-in
+                  {" · "}
+                  Last active {new Date(session.lastUsedAt).toLocaleString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(session)}
+                disabled={revokingId !== null}
+                className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50 flex-shrink-0"
+                title="Sign out this device"
+              >
+                {revokingId === session.id ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <LogOut className="w-5 h-5" />
+                )}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound, Loader2 } from "lucide-react";
+import { showError } from "@/lib/utils/toast-helper";
+
+/**
+ * Asks for a code from the authenticator app before a controlled-substance
+ * action. Shown when the API answers STEP_UP_REQUIRED; once the code is
+ * accepted the caller retries the action.
+ */
+export default function StepUpDialog({
+  open,
+  onCancel,
+  onConfirmed,
+}: {
+  open: boolean;
+  onCancel: () => void;
+  onConfirmed: () => void;
+}) {
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!open) return null;
+
+  const close = () => {
+    setCode("");
+    onCancel();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/auth/step-up", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code: code.trim() }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setCode("");
+        onConfirmed();
+      } else {
+        showError(data.error || "Failed to confirm your identity");
+      }
+    } catch (error) {
+      showError("Failed to confirm your identity");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4"
+      >
+        <div className="flex items-start gap-3">
+          <KeyRound className="w-6 h-6 text-blue-600 flex-shrink-0" />
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">
+              Confirm it&apos;s you
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Controlled substances need a fresh code from your authenticator
+              app. You will not be asked again for the next few minutes.
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Authentication code
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456 or a recovery code"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 tracking-widest"
+            required
+          />
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={close}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting || !code.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Confirm
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
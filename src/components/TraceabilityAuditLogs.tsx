@@ -111,8 +111,10 @@ export default function TraceabilityAuditLogs() {
     setAuditData(null);
 
     try {
+      const token = localStorage.getItem("auth_token");
       const response = await fetch(
-        `/api/traceability/audit/batch/${batchId.trim()}`
+        `/api/traceability/audit/batch/${batchId.trim()}`,
+        { headers: { Authorization: `Bearer ${token}` } }
       );
 
       const data = await response.json();
@@ -153,6 +155,9 @@ export default function TraceabilityAuditLogs() {
       movement_recorded: "bg-purple-500",
       dispensing_recorded: "bg-green-500",
       verification_performed: "bg-yellow-500",
+      chain_reorg: "bg-red-500",
+      recall_opened: "bg-red-700",
+      recall_closed: "bg-gray-700",
     };
     return colors[action] || "bg-gray-500";
   };
@@ -490,7 +495,7 @@ export default function TraceabilityAuditLogs() {
                       </div>
                       <div className="flex items-center gap-2 text-sm text-gray-600">
                         <User className="h-3 w-3" />
-                        <span>{log.performedBy}</span>
+                        <span>{log.performedBy || "Blockchain sync"}</span>
                         <Badge variant="outline" className="text-xs">
                           {log.role}
                         </Badge>
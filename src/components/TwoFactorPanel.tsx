@@ -0,0 +1,344 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { KeyRound, Loader2, Copy } from "lucide-react";
+import { useAuth } from "@/lib/auth-context";
+import { showError, showSuccess } from "@/lib/utils/toast-helper";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+interface PendingSetup {
+  secret: string;
+  qrCode: string;
+}
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
+  "Content-Type": "application/json",
+});
+
+/**
+ * Authenticator app enrolment, recovery codes and, for roles where it is
+ * optional, turning two-factor authentication off
+ */
+export default function TwoFactorPanel({
+  onEnabled,
+}: {
+  // Called once the user has seen their recovery codes after enrolling
+  onEnabled?: () => void;
+}) {
+  const { refreshSession, updateUser } = useAuth();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<PendingSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  // Code-confirmed action in progress on an enrolled account
+  const [confirming, setConfirming] = useState<"regenerate" | "disable" | null>(
+    null
+  );
+  const [code, setCode] = useState("");
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/auth/two-factor", {
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setStatus(data.twoFactor);
+      } else {
+        showError(data.error || "Failed to load two-factor status");
+      }
+    } catch (error) {
+      showError("Failed to load two-factor status");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/auth/two-factor/setup", {
+        method: "POST",
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSetup({ secret: data.secret, qrCode: data.qrCode });
+        setCode("");
+      } else {
+        showError(data.error || "Failed to start two-factor setup");
+      }
+    } catch (error) {
+      showError("Failed to start two-factor setup");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/auth/two-factor/enable", {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ code: code.trim() }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSetup(null);
+        setCode("");
+        setRecoveryCodes(data.recoveryCodes);
+        updateUser({ twoFactorEnabled: true });
+        // The current access token still carries the enrolment restriction
+        await refreshSession();
+        showSuccess(data.message);
+        loadStatus();
+      } else {
+        showError(data.error || "Failed to enable two-factor authentication");
+      }
+    } catch (error) {
+      showError("Failed to enable two-factor authentication");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(
+        confirming === "disable"
+          ? "/api/auth/two-factor"
+          : "/api/auth/two-factor/recovery-codes",
+        {
+          method: confirming === "disable" ? "DELETE" : "POST",
+          headers: authHeaders(),
+          body: JSON.stringify({ code: code.trim() }),
+        }
+      );
+      const data = await response.json();
+      if (data.success) {
+        if (confirming === "disable") {
+          updateUser({ twoFactorEnabled: false });
+        } else {
+          setRecoveryCodes(data.recoveryCodes);
+        }
+        setConfirming(null);
+        setCode("");
+        showSuccess(data.message);
+        loadStatus();
+      } else {
+        showError(data.error || "Invalid authentication code");
+      }
+    } catch (error) {
+      showError("Failed to update two-factor authentication");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      showSuccess("Recovery codes copied");
+    } catch (error) {
+      showError("Could not copy the recovery codes");
+    }
+  };
+
+  const handleCodesSaved = () => {
+    setRecoveryCodes(null);
+    onEnabled?.();
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder="123456"
+      className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 tracking-widest"
+      required
+    />
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-4">
+        <KeyRound className="w-6 h-6 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-900">
+          Two-Factor Authentication
+        </h3>
+        {status?.enabled && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+            On
+          </span>
+        )}
+      </div>
+
+      {isLoading && !status ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : recoveryCodes ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Save these recovery codes somewhere safe. Each one signs you in once
+            if you lose your authenticator app. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border border-gray-200 rounded-lg font-mono text-sm text-gray-900">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={handleCopyCodes}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </button>
+            <button
+              onClick={handleCodesSaved}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              I have saved my codes
+            </button>
+          </div>
+        </div>
+      ) : setup ? (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Scan this QR code with an authenticator app such as Google
+            Authenticator, 1Password or Authy, then enter the 6-digit code it
+            shows.
+          </p>
+          <img
+            src={setup.qrCode}
+            alt="Two-factor authentication QR code"
+            className="w-48 h-48 border border-gray-200 rounded-lg"
+          />
+          <p className="text-sm text-gray-600">
+            Can&apos;t scan it? Enter this key instead:{" "}
+            <span className="font-mono text-gray-900 break-all">
+              {setup.secret}
+            </span>
+          </p>
+          <div className="flex items-center gap-3">
+            {codeInput}
+            <button
+              type="submit"
+              disabled={isSubmitting || !code.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              Turn on
+            </button>
+            <button
+              type="button"
+              onClick={() => setSetup(null)}
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : status?.enabled ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Signing in asks for a code from your authenticator app
+            {status.enabledAt &&
+              ` (on since ${new Date(status.enabledAt).toLocaleDateString()})`}
+            . {status.recoveryCodesRemaining} recovery code
+            {status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+          </p>
+
+          {confirming ? (
+            <form onSubmit={handleConfirm} className="flex items-center gap-3">
+              {codeInput}
+              <button
+                type="submit"
+                disabled={isSubmitting || !code.trim()}
+                className={`px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center gap-2 ${
+                  confirming === "disable"
+                    ? "bg-red-600 hover:bg-red-700"
+                    : "bg-blue-600 hover:bg-blue-700"
+                }`}
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                {confirming === "disable" ? "Turn off" : "Generate codes"}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setConfirming(null);
+                  setCode("");
+                }}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+            </form>
+          ) : (
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => setConfirming("regenerate")}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                New recovery codes
+              </button>
+              {!status.required && (
+                <button
+                  onClick={() => setConfirming("disable")}
+                  className="px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors"
+                >
+                  Turn off
+                </button>
+              )}
+            </div>
+          )}
+          {status.required && (
+            <p className="text-xs text-gray-500">
+              Two-factor authentication is required for your role.
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {status?.required
+              ? "Your role requires a code from an authenticator app in addition to your password."
+              : "Protect your account with a code from an authenticator app in addition to your password."}
+          </p>
+          <button
+            onClick={handleStartSetup}
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Set up authenticator app
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
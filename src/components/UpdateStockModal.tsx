@@ -22,6 +22,10 @@ export default function UpdateStockModal({
   const [quantity, setQuantity] = useState(0);
   const [transactionType, setTransactionType] = useState("stock_in");
   const [notes, setNotes] = useState("");
+  // Added stock arrives as a lot; removals default to earliest expiry first
+  const [batchNumber, setBatchNumber] = useState("");
+  const [lotExpiry, setLotExpiry] = useState("");
+  const [lotId, setLotId] = useState("");
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,7 +43,7 @@ export default function UpdateStockModal({
         throw new Error("Cannot reduce stock below zero");
       }
 
-      const token = localStorage.getItem("token");
+      const token = localStorage.getItem("auth_token");
       const response = await fetch("/api/drugs", {
         method: "PUT",
         headers: {
@@ -53,6 +57,11 @@ export default function UpdateStockModal({
           },
           transactionType:
             actionType === "remove" ? transactionType : "stock_in",
+          ...(actionType === "add"
+            ? { lot: { batch_number: batchNumber, expiry_date: lotExpiry } }
+            : lotId
+              ? { lotId }
+              : {}),
           notes:
             notes ||
             `Stock ${
@@ -75,6 +84,9 @@ export default function UpdateStockModal({
       setQuantity(0);
       setNotes("");
       setActionType("add");
+      setBatchNumber("");
+      setLotExpiry("");
+      setLotId("");
     } catch (err: any) {
       console.error("Error updating stock:", err);
       setError(err.message || "Failed to update stock");
@@ -168,6 +180,60 @@ export default function UpdateStockModal({
             />
           </div>
 
+          {/* Lot (for additions) */}
+          {actionType === "add" && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Batch Number <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={batchNumber}
+                  onChange={(e) => setBatchNumber(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Lot Expiry <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  value={lotExpiry}
+                  onChange={(e) => setLotExpiry(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Lot (for removal) */}
+          {actionType === "remove" && drug.lots?.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Lot
+              </label>
+              <select
+                value={lotId}
+                onChange={(e) => setLotId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                <option value="">Earliest expiry first</option>
+                {drug.lots
+                  .filter((lot: any) => lot.quantity > 0)
+                  .map((lot: any) => (
+                    <option key={lot._id} value={lot._id}>
+                      {lot.batch_number} &middot; {lot.quantity} units &middot;
+                      expires {new Date(lot.expiry_date).toLocaleDateString()}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          )}
+
           {/* Transaction Type (for removal) */}
           {actionType === "remove" && (
             <div>
@@ -0,0 +1,20 @@
+// Runs once when the Next.js server starts, before it serves requests
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Refuse to boot without a JWT signing secret
+    const { assertAuthConfigured } = await import("./lib/utils/auth-helper");
+    assertAuthConfigured();
+
+    // Load and verify the inventory ledger up front, so a broken chain is
+    // reported at boot rather than on the first stock movement
+    const { blockchainService } =
+      await import("./lib/services/BlockchainService");
+    try {
+      await blockchainService.initialize();
+    } catch (error) {
+      // The database may still be starting; the first use retries the load
+      console.error("❌ Blockchain: Could not load the ledger at boot:", error);
+    }
+  }
+}
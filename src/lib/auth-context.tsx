@@ -1,6 +1,12 @@
 "use client";
 
-import React, { createContext, useContext, useReducer, useEffect } from "react";
+import React, {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  useRef,
+} from "react";
 import { User, AuthState, UserRole } from "@/types/auth";
 import {
   handleApiResponse,
@@ -13,9 +19,22 @@ interface AuthContextType extends AuthState {
     email: string,
     password: string,
     role: UserRole,
-    rememberMe?: boolean
+    rememberMe?: boolean,
+    twoFactorCode?: string
   ) => Promise<boolean>;
-  logout: () => void;
+  loginWithWallet: (signIn: {
+    walletAddress: string;
+    role: UserRole;
+    message: string;
+    signature: string;
+    twoFactorCode?: string;
+  }) => Promise<{
+    success: boolean;
+    error?: string;
+    twoFactorRequired?: boolean;
+  }>;
+  logout: () => Promise<void>;
+  refreshSession: () => Promise<boolean>;
   register: (userData: any) => Promise<boolean>;
   connectWallet: () => Promise<boolean>;
   updateUser: (userData: Partial<User>) => void;
@@ -27,6 +46,7 @@ type AuthAction =
   | { type: "AUTH_START" }
   | { type: "AUTH_SUCCESS"; payload: User }
   | { type: "AUTH_FAILURE"; payload: string }
+  | { type: "TWO_FACTOR_REQUIRED"; payload: string | null }
   | { type: "LOGOUT" }
   | { type: "UPDATE_USER"; payload: Partial<User> }
   | { type: "CONNECT_WALLET"; payload: string };
@@ -46,6 +66,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isAuthenticated: true,
         user: action.payload,
         error: null,
+        twoFactorRequired: false,
       };
     case "AUTH_FAILURE":
       return {
@@ -54,6 +75,14 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isAuthenticated: false,
         user: null,
         error: action.payload,
+        twoFactorRequired: false,
+      };
+    case "TWO_FACTOR_REQUIRED":
+      return {
+        ...state,
+        isLoading: false,
+        error: action.payload,
+        twoFactorRequired: true,
       };
     case "LOGOUT":
       return {
@@ -62,6 +91,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         user: null,
         error: null,
         isLoading: false,
+        twoFactorRequired: false,
       };
     case "UPDATE_USER":
       return {
@@ -80,41 +110,146 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
   }
 };
 
+// Loading until the stored session has been checked on mount
 const initialState: AuthState = {
   user: null,
   isAuthenticated: false,
-  isLoading: false,
+  isLoading: true,
   error: null,
+  twoFactorRequired: false,
+};
+
+// Renew the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Wait before trying again when the refresh request could not be made
+const REFRESH_RETRY_MS = 30 * 1000;
+
+const clearStoredSession = () => {
+  localStorage.removeItem("auth_token");
+  localStorage.removeItem("auth_token_expires_at");
+  localStorage.removeItem("user_data");
 };
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const scheduleRefresh = (delayMs: number) => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(
+      () => {
+        // Another tab may have refreshed the shared token already
+        const expiresAt = Number(localStorage.getItem("auth_token_expires_at"));
+        if (expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+          scheduleRefresh(expiresAt - Date.now() - REFRESH_MARGIN_MS);
+        } else {
+          refreshSession();
+        }
+      },
+      Math.max(delayMs, 0)
+    );
+  };
+
+  // Access tokens are short-lived; the refresh token stays in an httpOnly
+  // cookie and is exchanged for a new access token before this one expires
+  const storeAccessToken = (token: string, expiresIn: number) => {
+    localStorage.setItem("auth_token", token);
+    localStorage.setItem(
+      "auth_token_expires_at",
+      String(Date.now() + expiresIn * 1000)
+    );
+    scheduleRefresh(expiresIn * 1000 - REFRESH_MARGIN_MS);
+  };
+
+  const endLocalSession = () => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    clearStoredSession();
+    dispatch({ type: "LOGOUT" });
+  };
+
+  // Returns false when the session could not be renewed. A revoked or
+  // expired session signs the user out; a network failure is retried.
+  const refreshSession = async (): Promise<boolean> => {
+    try {
+      const response = await fetch("/api/auth/refresh", { method: "POST" });
+      const data = await response.json();
+
+      if (data.success) {
+        storeAccessToken(data.token, data.expiresIn);
+        return true;
+      }
+      if (response.status === 401) {
+        endLocalSession();
+        return false;
+      }
+    } catch (error) {
+      console.error("Session refresh failed:", error);
+    }
+
+    scheduleRefresh(REFRESH_RETRY_MS);
+    return false;
+  };
 
-  // Check for existing session on mount
+  // Restore the stored session on mount
   useEffect(() => {
-    const checkAuthState = () => {
-      const token = localStorage.getItem("auth_token");
+    const restoreSession = async () => {
       const userData = localStorage.getItem("user_data");
+      if (!userData) {
+        endLocalSession();
+        return;
+      }
 
-      if (token && userData) {
-        try {
-          const user = JSON.parse(userData);
-          dispatch({ type: "AUTH_SUCCESS", payload: user });
-        } catch (error) {
-          localStorage.removeItem("auth_token");
-          localStorage.removeItem("user_data");
-        }
+      let user: User;
+      try {
+        user = JSON.parse(userData);
+      } catch (error) {
+        endLocalSession();
+        return;
+      }
+
+      const expiresAt = Number(localStorage.getItem("auth_token_expires_at"));
+      const tokenIsFresh =
+        localStorage.getItem("auth_token") &&
+        expiresAt - Date.now() > REFRESH_MARGIN_MS;
+
+      if (tokenIsFresh) {
+        scheduleRefresh(expiresAt - Date.now() - REFRESH_MARGIN_MS);
+      } else {
+        await refreshSession();
+      }
+
+      // Still signed in unless the refresh ended the session
+      if (localStorage.getItem("user_data")) {
+        dispatch({ type: "AUTH_SUCCESS", payload: user });
       }
     };
 
-    checkAuthState();
+    restoreSession();
+
+    // Timers are throttled in background tabs and paused during sleep
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== "visible") return;
+      if (!localStorage.getItem("user_data")) return;
+
+      const expiresAt = Number(localStorage.getItem("auth_token_expires_at"));
+      if (expiresAt - Date.now() <= REFRESH_MARGIN_MS) {
+        refreshSession();
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    };
   }, []);
 
   const login = async (
     email: string,
     password: string,
     role: UserRole,
-    rememberMe?: boolean
+    rememberMe?: boolean,
+    twoFactorCode?: string
   ): Promise<boolean> => {
     dispatch({ type: "AUTH_START" });
 
@@ -124,14 +259,34 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ email, password, role, rememberMe }),
+        body: JSON.stringify({
+          email,
+          password,
+          role,
+          rememberMe,
+          twoFactorCode,
+        }),
       });
 
       const data = await response.json();
 
+      // Password accepted; the login page asks for the authenticator code
+      // and calls login again with it
+      if (
+        data.code === "TWO_FACTOR_REQUIRED" ||
+        data.code === "TWO_FACTOR_INVALID"
+      ) {
+        dispatch({
+          type: "TWO_FACTOR_REQUIRED",
+          payload: data.code === "TWO_FACTOR_INVALID" ? data.message : null,
+        });
+        if (data.code === "TWO_FACTOR_INVALID") handleApiResponse(data);
+        return false;
+      }
+
       if (data.success && data.user) {
         // Store auth data
-        localStorage.setItem("auth_token", data.token);
+        storeAccessToken(data.token, data.expiresIn);
         localStorage.setItem("user_data", JSON.stringify(data.user));
 
         // Update state with mapped user data
@@ -165,10 +320,49 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem("auth_token");
-    localStorage.removeItem("user_data");
-    dispatch({ type: "LOGOUT" });
+  const loginWithWallet = async (signIn: {
+    walletAddress: string;
+    role: UserRole;
+    message: string;
+    signature: string;
+    twoFactorCode?: string;
+  }): Promise<{
+    success: boolean;
+    error?: string;
+    twoFactorRequired?: boolean;
+  }> => {
+    const response = await fetch("/api/auth/wallet-login", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(signIn),
+    });
+
+    const data = await response.json();
+
+    if (response.ok && data.success) {
+      storeAccessToken(data.token, data.expiresIn);
+      localStorage.setItem("user_data", JSON.stringify(data.user));
+      dispatch({ type: "AUTH_SUCCESS", payload: data.user });
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      error: data.error || "Failed to authenticate with wallet",
+      twoFactorRequired: data.code === "TWO_FACTOR_REQUIRED",
+    };
+  };
+
+  const logout = async () => {
+    try {
+      // Revokes the session so the refresh token cookie cannot be reused
+      await fetch("/api/auth/logout", { method: "POST" });
+    } catch (error) {
+      console.error("Logout request failed:", error);
+    }
+    endLocalSession();
   };
 
   const register = async (userData: any): Promise<boolean> => {
@@ -332,7 +526,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const value: AuthContextType = {
     ...state,
     login,
+    loginWithWallet,
     logout,
+    refreshSession,
     register,
     connectWallet,
     updateUser,
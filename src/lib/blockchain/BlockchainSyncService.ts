@@ -2,15 +2,30 @@
 // Syncs blockchain events with MongoDB database
 
 import { eventListenerService } from "./EventListenerService";
+import { baseClient } from "./BaseClient";
 import {
   PrescriptionCreatedEvent,
+  PrescriptionHeaderCreatedEvent,
   PrescriptionDispensedEvent,
   DrugStockUpdatedEvent,
   DrugAddedEvent,
 } from "./contracts";
 import { Log } from "viem";
-import mongoose from "mongoose";
+import mongoose, { ClientSession } from "mongoose";
 import { DatabaseManager } from "../database/connection";
+import {
+  BlockHash,
+  ProcessedEventLog,
+  ReorgEvent,
+} from "../database/syncModels";
+import { getTraceabilityModels } from "../database/traceabilityModels";
+import {
+  allocateFefo,
+  buildLotDecrement,
+  legacyLotUpdate,
+  summarizeLots,
+  LotAllocation,
+} from "../utils/lots";
 
 // Get models (lazy loading to avoid circular dependencies)
 const getPrescriptionModel = () => {
@@ -20,6 +35,16 @@ const getPrescriptionModel = () => {
   );
 };
 
+const getPrescriptionHeaderModel = () => {
+  return (
+    mongoose.models.PrescriptionHeader ||
+    mongoose.model(
+      "PrescriptionHeader",
+      new mongoose.Schema({}, { strict: false })
+    )
+  );
+};
+
 const getDrugModel = () => {
   return (
     mongoose.models.Drug ||
@@ -37,6 +62,14 @@ const getInventoryTransactionModel = () => {
   );
 };
 
+interface ReorgStats {
+  detected: number;
+  maxDepth: number;
+  lastDepth: number | null;
+  lastForkBlock: number | null;
+  lastDetectedAt: Date | null;
+}
+
 /**
  * Blockchain Synchronization Service
  * Handles syncing blockchain events with MongoDB
@@ -44,6 +77,16 @@ const getInventoryTransactionModel = () => {
 export class BlockchainSyncService {
   private static instance: BlockchainSyncService;
   private isSyncing = false;
+  private readonly REORG_WINDOW = Number(
+    process.env.BLOCKCHAIN_REORG_WINDOW || 64
+  ); // Recent blocks whose hashes are checked on every poll
+  private reorgStats: ReorgStats = {
+    detected: 0,
+    maxDepth: 0,
+    lastDepth: null,
+    lastForkBlock: null,
+    lastDetectedAt: null,
+  };
 
   private constructor() {
     this.registerEventHandlers();
@@ -65,9 +108,12 @@ export class BlockchainSyncService {
   private registerEventHandlers(): void {
     eventListenerService.registerHandlers({
       onPrescriptionCreated: this.handlePrescriptionCreated.bind(this),
+      onPrescriptionHeaderCreated:
+        this.handlePrescriptionHeaderCreated.bind(this),
       onPrescriptionDispensed: this.handlePrescriptionDispensed.bind(this),
       onDrugStockUpdated: this.handleDrugStockUpdated.bind(this),
       onDrugAdded: this.handleDrugAdded.bind(this),
+      onPoll: this.handlePoll.bind(this),
     });
   }
 
@@ -82,6 +128,7 @@ export class BlockchainSyncService {
 
     try {
       await DatabaseManager.getInstance().ensureConnection();
+      await this.loadReorgStats();
       this.isSyncing = true;
 
       // Start event listener
@@ -109,7 +156,8 @@ export class BlockchainSyncService {
    */
   private async handlePrescriptionCreated(
     event: PrescriptionCreatedEvent,
-    log: Log
+    log: Log,
+    session: ClientSession
   ): Promise<void> {
     try {
       const PrescriptionModel = getPrescriptionModel();
@@ -134,6 +182,7 @@ export class BlockchainSyncService {
 
       await PrescriptionModel.findOneAndUpdate(filter, update, {
         upsert: false, // Don't create if not exists (should be created by backend first)
+        session,
       });
 
       console.log(
@@ -141,6 +190,56 @@ export class BlockchainSyncService {
       );
     } catch (error) {
       console.error("❌ Error handling PrescriptionCreated event:", error);
+      // Rethrow so the listener retries this log instead of skipping it
+      throw error;
+    }
+  }
+
+  /**
+   * Handle PrescriptionHeaderCreated event
+   */
+  private async handlePrescriptionHeaderCreated(
+    event: PrescriptionHeaderCreatedEvent,
+    log: Log,
+    session: ClientSession
+  ): Promise<void> {
+    try {
+      const PrescriptionHeaderModel = getPrescriptionHeaderModel();
+
+      console.log("📝 PrescriptionHeaderCreated event:", {
+        headerId: event.headerId.toString(),
+        patientAddress: event.patientAddress,
+        lineCount: event.lineCount.toString(),
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+      });
+
+      // The anchored hash is the header's signature hash
+      await PrescriptionHeaderModel.findOneAndUpdate(
+        { signature_hash: event.headerHash.slice(2) },
+        {
+          $set: {
+            onchain_tx_hash: log.transactionHash,
+            onchain_block_number: Number(log.blockNumber),
+            onchain_header_id: Number(event.headerId),
+          },
+        },
+        {
+          upsert: false, // Headers are created by the backend first
+          session,
+        }
+      );
+
+      console.log(
+        `✅ Synced PrescriptionHeaderCreated: ${event.headerId} at block ${log.blockNumber}`
+      );
+    } catch (error) {
+      console.error(
+        "❌ Error handling PrescriptionHeaderCreated event:",
+        error
+      );
+      // Rethrow so the listener retries this log instead of skipping it
+      throw error;
     }
   }
 
@@ -149,7 +248,8 @@ export class BlockchainSyncService {
    */
   private async handlePrescriptionDispensed(
     event: PrescriptionDispensedEvent,
-    log: Log
+    log: Log,
+    session: ClientSession
   ): Promise<void> {
     try {
       const PrescriptionModel = getPrescriptionModel();
@@ -173,7 +273,8 @@ export class BlockchainSyncService {
             quantity_dispensed: Number(event.quantityDispensed),
             date_dispensed: new Date(Number(event.timestamp) * 1000),
           },
-        }
+        },
+        { session }
       );
 
       console.log(
@@ -181,6 +282,8 @@ export class BlockchainSyncService {
       );
     } catch (error) {
       console.error("❌ Error handling PrescriptionDispensed event:", error);
+      // Rethrow so the listener retries this log instead of skipping it
+      throw error;
     }
   }
 
@@ -189,7 +292,8 @@ export class BlockchainSyncService {
    */
   private async handleDrugStockUpdated(
     event: DrugStockUpdatedEvent,
-    log: Log
+    log: Log,
+    session: ClientSession
   ): Promise<void> {
     try {
       const DrugModel = getDrugModel();
@@ -204,31 +308,98 @@ export class BlockchainSyncService {
         blockNumber: log.blockNumber,
       });
 
-      // Update drug stock
-      const drug = await DrugModel.findOneAndUpdate(
-        { onchain_drug_id: Number(event.drugId) },
-        {
-          $set: {
-            stock_quantity: Number(event.newQuantity),
-            onchain_tx_hash: log.transactionHash,
-            onchain_block_number: Number(log.blockNumber),
-          },
-        },
-        { new: true }
-      );
+      // The on-chain stock is reconciled through the drug's lots rather than
+      // written over stock_quantity, so the lots and their summary agree.
+      // Changes made through the inventory routes are already reflected
+      // and leave nothing to reconcile.
+      let drug: any = await DrugModel.findOne({
+        onchain_drug_id: Number(event.drugId),
+      })
+        .session(session)
+        .lean();
+      let transactionLots: LotAllocation[] = [];
 
       if (drug) {
+        const difference = Number(event.newQuantity) - drug.stock_quantity;
+
+        // Stock recorded before lot tracking becomes a single lot
+        const lotConversion = difference < 0 ? legacyLotUpdate(drug) : null;
+        if (lotConversion) {
+          drug = await DrugModel.findByIdAndUpdate(drug._id, lotConversion, {
+            new: true,
+            session,
+          }).lean();
+        }
+
+        // Removed stock comes out first-expiry-first-out, as a write-off does
+        const allocation =
+          difference < 0
+            ? allocateFefo(drug, -difference, { includeExpired: true })
+            : null;
+
+        if (allocation) {
+          const decrement = buildLotDecrement(drug._id, allocation);
+          const stocked = await DrugModel.findOneAndUpdate(
+            decrement.filter,
+            decrement.update,
+            { new: true, session, arrayFilters: decrement.arrayFilters }
+          ).lean();
+          if (!stocked) {
+            throw new Error(
+              `Stock of drug ${drug._id} changed while it was being reconciled`
+            );
+          }
+          await DrugModel.updateOne(
+            { _id: drug._id },
+            { $set: summarizeLots(stocked) },
+            { session }
+          );
+          transactionLots = allocation;
+        } else if (difference !== 0) {
+          // Added stock carries no batch or expiry, and recalled lots are
+          // only emptied through their recall
+          console.warn(
+            `⚠️ On-chain stock of drug ${drug._id} (${event.newQuantity}) differs from its lots (${drug.stock_quantity}) and was not reconciled`
+          );
+        }
+
+        await DrugModel.updateOne(
+          { _id: drug._id },
+          {
+            $set: {
+              onchain_tx_hash: log.transactionHash,
+              onchain_block_number: Number(log.blockNumber),
+            },
+          },
+          { session }
+        );
+      }
+
+      // The on-chain hash identifies the stock change, so a replayed log
+      // cannot record the same transaction twice
+      const alreadyRecorded = await InventoryTransactionModel.exists({
+        blockchain_transaction_hash: event.blockchainHash,
+      }).session(session);
+
+      if (drug && !alreadyRecorded) {
         // Create inventory transaction record
-        await InventoryTransactionModel.create({
-          drug_id: drug._id,
-          transaction_type: event.transactionType.toLowerCase(),
-          quantity: Number(event.newQuantity) - Number(event.previousQuantity),
-          blockchain_transaction_hash: event.blockchainHash,
-          onchain_tx_hash: log.transactionHash,
-          onchain_block_number: Number(log.blockNumber),
-          timestamp: new Date(Number(event.timestamp) * 1000),
-          notes: `Blockchain sync: ${event.transactionType}`,
-        });
+        await InventoryTransactionModel.create(
+          [
+            {
+              drug_id: drug._id,
+              transaction_type: event.transactionType.toLowerCase(),
+              quantity:
+                Number(event.newQuantity) - Number(event.previousQuantity),
+              lots: transactionLots,
+              blockchain_transaction_hash: event.blockchainHash,
+              onchain_tx_hash: log.transactionHash,
+              onchain_block_number: Number(log.blockNumber),
+              timestamp: new Date(Number(event.timestamp) * 1000),
+              notes: `Blockchain sync: ${event.transactionType}`,
+            },
+          ],
+          { session }
+        );
       }
 
       console.log(
@@ -236,6 +407,8 @@ export class BlockchainSyncService {
       );
     } catch (error) {
       console.error("❌ Error handling DrugStockUpdated event:", error);
+      // Rethrow so the listener retries this log instead of skipping it
+      throw error;
     }
   }
 
@@ -244,7 +417,8 @@ export class BlockchainSyncService {
    */
   private async handleDrugAdded(
     event: DrugAddedEvent,
-    log: Log
+    log: Log,
+    session: ClientSession
   ): Promise<void> {
     try {
       const DrugModel = getDrugModel();
@@ -266,7 +440,8 @@ export class BlockchainSyncService {
             onchain_block_number: Number(log.blockNumber),
             onchain_drug_id: Number(event.drugId),
           },
-        }
+        },
+        { session }
       );
 
       console.log(
@@ -274,6 +449,8 @@ export class BlockchainSyncService {
       );
     } catch (error) {
       console.error("❌ Error handling DrugAdded event:", error);
+      // Rethrow so the listener retries this log instead of skipping it
+      throw error;
     }
   }
 
@@ -310,6 +487,142 @@ export class BlockchainSyncService {
       lastProcessedBlock: eventListenerService
         .getLastProcessedBlock()
         .toString(),
+      cursors: eventListenerService.getCursors(),
+      reorgs: { ...this.reorgStats },
+    };
+  }
+
+  /**
+   * Runs before every listener poll: detect a reorg among the blocks already
+   * processed, then remember the hashes of the blocks about to be processed
+   */
+  private async handlePoll(currentBlock: bigint): Promise<void> {
+    await this.detectReorg();
+    await this.trackBlockHashes(currentBlock);
+  }
+
+  /**
+   * Compare the tracked block hashes with the canonical chain, newest first.
+   * The first block that still matches is the common ancestor; everything
+   * above it is rolled back and re-synced.
+   */
+  private async detectReorg(): Promise<void> {
+    const tracked = await BlockHash.find()
+      .sort({ block_number: -1 })
+      .limit(this.REORG_WINDOW)
+      .lean<{ block_number: number; block_hash: string }[]>();
+
+    if (tracked.length === 0) {
+      return;
+    }
+
+    const publicClient = baseClient.getPublicClient();
+    let forkBlock: number | null = null;
+    let newHead: string | undefined;
+
+    for (const entry of tracked) {
+      const block = await publicClient
+        .getBlock({ blockNumber: BigInt(entry.block_number) })
+        .catch(() => null); // Block no longer exists on a shorter chain
+
+      if (entry === tracked[0]) {
+        newHead = block?.hash ?? undefined;
+      }
+      if (block?.hash?.toLowerCase() === entry.block_hash) {
+        break;
+      }
+      forkBlock = entry.block_number;
+    }
+
+    if (forkBlock === null) {
+      return; // Newest tracked block is still canonical
+    }
+
+    const depth = tracked[0].block_number - forkBlock + 1;
+    console.warn(
+      `⚠️ Chain reorganization detected: ${depth} block(s) replaced from block ${forkBlock}`
+    );
+    if (depth >= tracked.length) {
+      console.warn(
+        `⚠️ Reorg reaches past the ${this.REORG_WINDOW}-block hash window; rolling back from the oldest tracked block`
+      );
+    }
+
+    await ReorgEvent.create({
+      fork_block: forkBlock,
+      depth,
+      replaced_hash: tracked[0].block_hash,
+      new_hash: newHead,
+    });
+    this.reorgStats = {
+      detected: this.reorgStats.detected + 1,
+      maxDepth: Math.max(this.reorgStats.maxDepth, depth),
+      lastDepth: depth,
+      lastForkBlock: forkBlock,
+      lastDetectedAt: new Date(),
+    };
+
+    await this.handleReorg(BigInt(forkBlock));
+  }
+
+  /**
+   * Record the hashes of new blocks up to the current head and drop the ones
+   * that have left the window
+   */
+  private async trackBlockHashes(currentBlock: bigint): Promise<void> {
+    const head = Number(currentBlock);
+    const windowStart = Math.max(head - this.REORG_WINDOW + 1, 0);
+    const latest = await BlockHash.findOne()
+      .sort({ block_number: -1 })
+      .lean<{ block_number: number }>();
+    const publicClient = baseClient.getPublicClient();
+
+    for (
+      let blockNumber = Math.max(windowStart, (latest?.block_number ?? -1) + 1);
+      blockNumber <= head;
+      blockNumber++
+    ) {
+      const block = await publicClient.getBlock({
+        blockNumber: BigInt(blockNumber),
+      });
+      await BlockHash.findOneAndUpdate(
+        { block_number: blockNumber },
+        {
+          $set: {
+            block_hash: block.hash,
+            parent_hash: block.parentHash,
+          },
+        },
+        { upsert: true }
+      );
+    }
+
+    await BlockHash.deleteMany({ block_number: { $lt: windowStart } });
+  }
+
+  /**
+   * Load reorg counters recorded by previous runs
+   */
+  private async loadReorgStats(): Promise<void> {
+    const [totals] = await ReorgEvent.aggregate([
+      {
+        $group: {
+          _id: null,
+          detected: { $sum: 1 },
+          maxDepth: { $max: "$depth" },
+        },
+      },
+    ]);
+    const last = await ReorgEvent.findOne()
+      .sort({ detected_at: -1 })
+      .lean<{ depth: number; fork_block: number; detected_at: Date }>();
+
+    this.reorgStats = {
+      detected: totals?.detected ?? 0,
+      maxDepth: totals?.maxDepth ?? 0,
+      lastDepth: last?.depth ?? null,
+      lastForkBlock: last?.fork_block ?? null,
+      lastDetectedAt: last?.detected_at ?? null,
     };
   }
 
@@ -324,21 +637,46 @@ export class BlockchainSyncService {
       );
 
       const PrescriptionModel = getPrescriptionModel();
+      const PrescriptionHeaderModel = getPrescriptionHeaderModel();
       const DrugModel = getDrugModel();
+      const InventoryTransactionModel = getInventoryTransactionModel();
+      const reorgedBlocks = { $gte: Number(fromBlock) };
 
       // Mark affected records for re-sync
       await PrescriptionModel.updateMany(
-        { onchain_block_number: { $gte: Number(fromBlock) } },
+        { onchain_block_number: reorgedBlocks },
         { $unset: { onchain_tx_hash: "", onchain_block_number: "" } }
       );
 
+      await PrescriptionHeaderModel.updateMany(
+        { onchain_block_number: reorgedBlocks },
+        {
+          $unset: {
+            onchain_tx_hash: "",
+            onchain_block_number: "",
+            onchain_header_id: "",
+          },
+        }
+      );
+
       await DrugModel.updateMany(
-        { onchain_block_number: { $gte: Number(fromBlock) } },
+        { onchain_block_number: reorgedBlocks },
         { $unset: { onchain_tx_hash: "", onchain_block_number: "" } }
       );
 
+      // Stock changes recorded from replaced blocks are re-created on replay
+      await InventoryTransactionModel.deleteMany({
+        onchain_block_number: reorgedBlocks,
+      });
+
+      await this.rollbackTraceability(Number(fromBlock));
+
+      // Forget the replaced logs and hashes so they are processed again
+      await ProcessedEventLog.deleteMany({ block_number: reorgedBlocks });
+      await BlockHash.deleteMany({ block_number: reorgedBlocks });
+
       // Re-sync from the reorg point
-      eventListenerService.setLastProcessedBlock(fromBlock - 1n);
+      await eventListenerService.setLastProcessedBlock(fromBlock - BigInt(1));
 
       console.log("✅ Reorg handling complete, re-syncing...");
     } catch (error) {
@@ -346,6 +684,80 @@ export class BlockchainSyncService {
       throw error;
     }
   }
+
+  /**
+   * Traceability records are written from transaction receipts rather than
+   * events, so each affected record is checked against the new chain: a
+   * transaction that was re-included moves to its new block, one that was
+   * dropped loses its on-chain reference. Every change is audited.
+   */
+  private async rollbackTraceability(fromBlock: number): Promise<void> {
+    const { DrugBatch, MovementRecord, DispensingRecord, TraceabilityAudit } =
+      getTraceabilityModels();
+    const publicClient = baseClient.getPublicClient();
+
+    const collections = [
+      { model: DrugBatch, name: "drug_batch", idField: "onchain_batch_id" },
+      {
+        model: MovementRecord,
+        name: "movement_record",
+        idField: "onchain_movement_id",
+      },
+      {
+        model: DispensingRecord,
+        name: "dispensing_record",
+        idField: "onchain_dispensing_id",
+      },
+    ];
+
+    for (const { model, name, idField } of collections) {
+      const records = await model.find({
+        onchain_block_number: { $gte: fromBlock },
+      });
+
+      for (const record of records) {
+        const receipt = record.onchain_tx_hash
+          ? await publicClient
+              .getTransactionReceipt({ hash: record.onchain_tx_hash })
+              .catch(() => null)
+          : null;
+        const reincluded = receipt?.status === "success";
+
+        if (reincluded) {
+          await model.updateOne(
+            { _id: record._id },
+            { $set: { onchain_block_number: Number(receipt.blockNumber) } }
+          );
+        } else {
+          await model.updateOne(
+            { _id: record._id },
+            {
+              $unset: {
+                onchain_tx_hash: "",
+                onchain_block_number: "",
+                [idField]: "",
+              },
+            }
+          );
+        }
+
+        await TraceabilityAudit.create({
+          batch_id: name === "drug_batch" ? record._id : record.batch_id,
+          action: "chain_reorg",
+          blockchain_tx_hash: record.onchain_tx_hash,
+          details: {
+            record_type: name,
+            record_id: record._id,
+            previous_block_number: record.onchain_block_number,
+            outcome: reincluded ? "reincluded" : "dropped",
+            new_block_number: reincluded
+              ? Number(receipt.blockNumber)
+              : undefined,
+          },
+        });
+      }
+    }
+  }
 }
 
 // Export singleton instance
@@ -80,6 +80,59 @@ export class ContractService {
     }
   }
 
+  /**
+   * Record a prescription header on-chain. headerHash is the header's
+   * off-chain signature hash, which covers all of its lines.
+   */
+  public async createPrescriptionHeader(
+    patientAddress: `0x${string}`,
+    headerHash: `0x${string}`,
+    lineCount: bigint
+  ): Promise<{ txHash: `0x${string}`; headerId: bigint }> {
+    try {
+      const walletClient = baseClient.getWalletClient();
+      if (!walletClient) {
+        throw new Error("Wallet client not initialized");
+      }
+
+      const publicClient = baseClient.getPublicClient();
+
+      // Encode function call
+      const data = encodeFunctionData({
+        abi: PrescriptionContractABI,
+        functionName: "createPrescriptionHeader",
+        args: [patientAddress, headerHash, lineCount],
+      });
+
+      // Send transaction
+      const txHash = await walletClient.sendTransaction({
+        account: walletClient.account!,
+        chain: walletClient.chain,
+        to: CONTRACT_ADDRESSES.PRESCRIPTION,
+        data,
+      });
+
+      // Wait for confirmation
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: txHash,
+        confirmations: 1,
+      });
+
+      // Extract header ID from logs
+      const headerId = receipt.logs[0]?.topics[1]
+        ? BigInt(receipt.logs[0].topics[1])
+        : BigInt(0);
+
+      console.log(`✅ Prescription header created on-chain: ${headerId}`);
+      console.log(`   Transaction: ${txHash}`);
+
+      return { txHash, headerId };
+    } catch (error) {
+      console.error("Error creating prescription header on-chain:", error);
+      throw error;
+    }
+  }
+
   /**
    * Dispense a prescription on-chain
    */
@@ -125,6 +178,103 @@ export class ContractService {
     }
   }
 
+  /**
+   * Grant DOCTOR_ROLE on the prescription contract to an approved doctor
+   */
+  public async grantDoctorRole(
+    account: `0x${string}`
+  ): Promise<{ txHash: `0x${string}` }> {
+    try {
+      const walletClient = baseClient.getWalletClient();
+      if (!walletClient) {
+        throw new Error("Wallet client not initialized");
+      }
+
+      const publicClient = baseClient.getPublicClient();
+
+      const data = encodeFunctionData({
+        abi: PrescriptionContractABI,
+        functionName: "grantDoctorRole",
+        args: [account],
+      });
+
+      const txHash = await walletClient.sendTransaction({
+        account: walletClient.account!,
+        chain: walletClient.chain,
+        to: CONTRACT_ADDRESSES.PRESCRIPTION,
+        data,
+      });
+
+      await publicClient.waitForTransactionReceipt({
+        hash: txHash,
+        confirmations: 1,
+      });
+
+      console.log(`✅ DOCTOR_ROLE granted on-chain: ${account}`);
+      console.log(`   Transaction: ${txHash}`);
+
+      return { txHash };
+    } catch (error) {
+      console.error("Error granting doctor role on-chain:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Grant PHARMACIST_ROLE to an approved pharmacist on both the
+   * prescription and drug inventory contracts
+   */
+  public async grantPharmacistRole(
+    account: `0x${string}`
+  ): Promise<{ txHash: `0x${string}`; inventoryTxHash: `0x${string}` }> {
+    try {
+      const walletClient = baseClient.getWalletClient();
+      if (!walletClient) {
+        throw new Error("Wallet client not initialized");
+      }
+
+      const publicClient = baseClient.getPublicClient();
+
+      const txHash = await walletClient.sendTransaction({
+        account: walletClient.account!,
+        chain: walletClient.chain,
+        to: CONTRACT_ADDRESSES.PRESCRIPTION,
+        data: encodeFunctionData({
+          abi: PrescriptionContractABI,
+          functionName: "grantPharmacistRole",
+          args: [account],
+        }),
+      });
+      await publicClient.waitForTransactionReceipt({
+        hash: txHash,
+        confirmations: 1,
+      });
+
+      const inventoryTxHash = await walletClient.sendTransaction({
+        account: walletClient.account!,
+        chain: walletClient.chain,
+        to: CONTRACT_ADDRESSES.DRUG_INVENTORY,
+        data: encodeFunctionData({
+          abi: DrugInventoryContractABI,
+          functionName: "grantPharmacistRole",
+          args: [account],
+        }),
+      });
+      await publicClient.waitForTransactionReceipt({
+        hash: inventoryTxHash,
+        confirmations: 1,
+      });
+
+      console.log(`✅ PHARMACIST_ROLE granted on-chain: ${account}`);
+      console.log(`   Transactions: ${txHash}, ${inventoryTxHash}`);
+
+      return { txHash, inventoryTxHash };
+    } catch (error) {
+      console.error("Error granting pharmacist role on-chain:", error);
+      throw error;
+    }
+  }
+
   /**
    * Add a drug to inventory on-chain
    */
@@ -7,52 +7,93 @@ import {
   DrugInventoryContractABI,
   CONTRACT_ADDRESSES,
   PrescriptionCreatedEvent,
+  PrescriptionHeaderCreatedEvent,
   PrescriptionDispensedEvent,
   DrugStockUpdatedEvent,
   DrugAddedEvent,
 } from "./contracts";
-import { parseAbiItem, Log } from "viem";
+import { parseAbi, Log } from "viem";
+import mongoose, { ClientSession } from "mongoose";
+import { SyncCursor, ProcessedEventLog } from "../database/syncModels";
 
 // Event handler types
 export type PrescriptionCreatedHandler = (
   event: PrescriptionCreatedEvent,
-  log: Log
+  log: Log,
+  session: ClientSession
+) => Promise<void>;
+export type PrescriptionHeaderCreatedHandler = (
+  event: PrescriptionHeaderCreatedEvent,
+  log: Log,
+  session: ClientSession
 ) => Promise<void>;
 export type PrescriptionDispensedHandler = (
   event: PrescriptionDispensedEvent,
-  log: Log
+  log: Log,
+  session: ClientSession
 ) => Promise<void>;
 export type DrugStockUpdatedHandler = (
   event: DrugStockUpdatedEvent,
-  log: Log
+  log: Log,
+  session: ClientSession
 ) => Promise<void>;
 export type DrugAddedHandler = (
   event: DrugAddedEvent,
-  log: Log
+  log: Log,
+  session: ClientSession
 ) => Promise<void>;
 
-interface EventHandlers {
+export type PollHandler = (currentBlock: bigint) => Promise<void>;
+
+export interface EventHandlers {
   onPrescriptionCreated?: PrescriptionCreatedHandler;
+  onPrescriptionHeaderCreated?: PrescriptionHeaderCreatedHandler;
   onPrescriptionDispensed?: PrescriptionDispensedHandler;
   onDrugStockUpdated?: DrugStockUpdatedHandler;
   onDrugAdded?: DrugAddedHandler;
+  // Runs before each poll processes logs, e.g. to detect reorgs
+  onPoll?: PollHandler;
 }
 
+type ContractKey = "prescription" | "drug_inventory";
+
+const PRESCRIPTION_EVENTS = parseAbi([
+  "event PrescriptionCreated(uint256 indexed prescriptionId, address indexed patientAddress, address indexed doctorAddress, uint256 drugId, uint256 quantity, uint256 timestamp)",
+  "event PrescriptionHeaderCreated(uint256 indexed headerId, address indexed patientAddress, address indexed doctorAddress, bytes32 headerHash, uint256 lineCount, uint256 timestamp)",
+  "event PrescriptionDispensed(uint256 indexed prescriptionId, address indexed pharmacistAddress, uint256 quantityDispensed, uint256 timestamp, bytes32 blockchainHash)",
+]);
+
+const DRUG_INVENTORY_EVENTS = parseAbi([
+  "event DrugAdded(uint256 indexed drugId, string name, uint256 initialQuantity, address indexed pharmacistAddress, uint256 timestamp)",
+  "event DrugStockUpdated(uint256 indexed drugId, uint256 previousQuantity, uint256 newQuantity, string transactionType, address indexed performedBy, uint256 timestamp, bytes32 blockchainHash)",
+]);
+
+const MONGO_DUPLICATE_KEY = 11000;
+
 /**
  * Blockchain Event Listener Service
  * Monitors smart contract events and triggers handlers
+ *
+ * Each contract keeps its own cursor in MongoDB so a restart resumes where
+ * the previous process stopped. Logs are fetched in bounded block windows and
+ * every applied log is recorded by (txHash, logIndex), so replaying a window
+ * after a crash never applies the same event twice.
  */
 export class EventListenerService {
   private static instance: EventListenerService;
   private handlers: EventHandlers = {};
   private isListening = false;
+  private isPolling = false;
+  private cursors = new Map<ContractKey, bigint>();
   private lastProcessedBlock: bigint = 0n;
   private pollingInterval: NodeJS.Timeout | null = null;
   private readonly POLL_INTERVAL_MS = 12000; // 12 seconds (Base block time)
+  private readonly LOG_BATCH_SIZE = BigInt(
+    process.env.BLOCKCHAIN_LOG_BATCH_SIZE || 2000
+  );
+  private readonly INITIAL_LOOKBACK = BigInt(1000); // Blocks to scan on first run
 
-  private constructor() {
-    this.loadLastProcessedBlock();
-  }
+  private constructor() {}
 
   /**
    * Get singleton instance
@@ -73,7 +114,8 @@ export class EventListenerService {
   }
 
   /**
-   * Start listening to blockchain events
+   * Start listening to blockchain events. An explicit fromBlock overrides
+   * the stored cursors; otherwise each contract resumes from its cursor.
    */
   public async startListening(fromBlock?: bigint): Promise<void> {
     if (this.isListening) {
@@ -81,14 +123,7 @@ export class EventListenerService {
       return;
     }
 
-    const publicClient = baseClient.getPublicClient();
-
-    // Set starting block
-    if (fromBlock !== undefined) {
-      this.lastProcessedBlock = fromBlock;
-    } else if (this.lastProcessedBlock === 0n) {
-      this.lastProcessedBlock = await publicClient.getBlockNumber();
-    }
+    await this.loadCursors(fromBlock);
 
     console.log(
       `🎧 Starting event listener from block ${this.lastProcessedBlock}`
@@ -122,161 +157,222 @@ export class EventListenerService {
    * Poll for new events
    */
   private async pollForEvents(): Promise<void> {
-    const publicClient = baseClient.getPublicClient();
-    const currentBlock = await publicClient.getBlockNumber();
-
-    if (currentBlock <= this.lastProcessedBlock) {
-      return; // No new blocks
+    // A catch-up run can outlast the polling interval
+    if (this.isPolling) {
+      return;
     }
+    this.isPolling = true;
 
     try {
-      // Fetch events from last processed block to current
-      await this.fetchPrescriptionEvents(
-        this.lastProcessedBlock + 1n,
-        currentBlock
-      );
-      await this.fetchDrugInventoryEvents(
-        this.lastProcessedBlock + 1n,
-        currentBlock
-      );
+      const publicClient = baseClient.getPublicClient();
+      const currentBlock = await publicClient.getBlockNumber();
 
-      // Update last processed block
-      this.lastProcessedBlock = currentBlock;
-      this.saveLastProcessedBlock();
+      if (this.handlers.onPoll) {
+        await this.handlers.onPoll(currentBlock);
+      }
 
-      console.log(
-        `✅ Processed blocks ${this.lastProcessedBlock + 1n} to ${currentBlock}`
-      );
+      for (const contract of this.getConfiguredContracts()) {
+        await this.syncContract(contract, currentBlock);
+      }
     } catch (error) {
       console.error("Error processing events:", error);
+    } finally {
+      this.isPolling = false;
     }
   }
 
   /**
-   * Fetch prescription contract events
+   * Advance one contract's cursor to toBlock, a window at a time. The cursor
+   * is saved after every window so an interrupted catch-up resumes there.
    */
-  private async fetchPrescriptionEvents(
-    fromBlock: bigint,
+  private async syncContract(
+    contract: ContractKey,
     toBlock: bigint
   ): Promise<void> {
-    if (!CONTRACT_ADDRESSES.PRESCRIPTION) {
-      return; // Contract not configured
-    }
+    let fromBlock = (this.cursors.get(contract) ?? BigInt(0)) + BigInt(1);
 
-    const publicClient = baseClient.getPublicClient();
-
-    // Fetch PrescriptionCreated events
-    if (this.handlers.onPrescriptionCreated) {
-      const createdLogs = await publicClient.getLogs({
-        address: CONTRACT_ADDRESSES.PRESCRIPTION,
-        event: parseAbiItem(
-          "event PrescriptionCreated(uint256 indexed prescriptionId, address indexed patientAddress, address indexed doctorAddress, uint256 drugId, uint256 quantity, uint256 timestamp)"
-        ),
-        fromBlock,
-        toBlock,
-      });
-
-      for (const log of createdLogs) {
-        const event: PrescriptionCreatedEvent = {
-          prescriptionId: log.args.prescriptionId!,
-          patientAddress: log.args.patientAddress!,
-          doctorAddress: log.args.doctorAddress!,
-          drugId: log.args.drugId!,
-          quantity: log.args.quantity!,
-          timestamp: log.args.timestamp!,
-        };
-        await this.handlers.onPrescriptionCreated(event, log);
-      }
-    }
+    while (fromBlock <= toBlock) {
+      const windowEnd = this.min(
+        fromBlock + this.LOG_BATCH_SIZE - BigInt(1),
+        toBlock
+      );
 
-    // Fetch PrescriptionDispensed events
-    if (this.handlers.onPrescriptionDispensed) {
-      const dispensedLogs = await publicClient.getLogs({
-        address: CONTRACT_ADDRESSES.PRESCRIPTION,
-        event: parseAbiItem(
-          "event PrescriptionDispensed(uint256 indexed prescriptionId, address indexed pharmacistAddress, uint256 quantityDispensed, uint256 timestamp, bytes32 blockchainHash)"
-        ),
-        fromBlock,
-        toBlock,
-      });
+      await this.processRange(contract, fromBlock, windowEnd);
+      await this.saveCursor(contract, windowEnd);
 
-      for (const log of dispensedLogs) {
-        const event: PrescriptionDispensedEvent = {
-          prescriptionId: log.args.prescriptionId!,
-          pharmacistAddress: log.args.pharmacistAddress!,
-          quantityDispensed: log.args.quantityDispensed!,
-          timestamp: log.args.timestamp!,
-          blockchainHash: log.args.blockchainHash!,
-        };
-        await this.handlers.onPrescriptionDispensed(event, log);
-      }
+      console.log(
+        `✅ Processed ${contract} blocks ${fromBlock} to ${windowEnd}`
+      );
+      fromBlock = windowEnd + BigInt(1);
     }
   }
 
   /**
-   * Fetch drug inventory contract events
+   * Fetch and apply one contract's logs in a block range
    */
-  private async fetchDrugInventoryEvents(
+  private async processRange(
+    contract: ContractKey,
     fromBlock: bigint,
     toBlock: bigint
   ): Promise<void> {
-    if (!CONTRACT_ADDRESSES.DRUG_INVENTORY) {
-      return; // Contract not configured
-    }
-
     const publicClient = baseClient.getPublicClient();
 
-    // Fetch DrugAdded events
-    if (this.handlers.onDrugAdded) {
-      const addedLogs = await publicClient.getLogs({
-        address: CONTRACT_ADDRESSES.DRUG_INVENTORY,
-        event: parseAbiItem(
-          "event DrugAdded(uint256 indexed drugId, string name, uint256 initialQuantity, address indexed pharmacistAddress, uint256 timestamp)"
-        ),
-        fromBlock,
-        toBlock,
-      });
+    const logs =
+      contract === "prescription"
+        ? await publicClient.getLogs({
+            address: CONTRACT_ADDRESSES.PRESCRIPTION,
+            events: PRESCRIPTION_EVENTS,
+            fromBlock,
+            toBlock,
+          })
+        : await publicClient.getLogs({
+            address: CONTRACT_ADDRESSES.DRUG_INVENTORY,
+            events: DRUG_INVENTORY_EVENTS,
+            fromBlock,
+            toBlock,
+          });
+
+    for (const log of logs) {
+      await this.processLog(contract, log);
+    }
+  }
 
-      for (const log of addedLogs) {
-        const event: DrugAddedEvent = {
-          drugId: log.args.drugId!,
-          name: log.args.name!,
-          initialQuantity: log.args.initialQuantity!,
-          pharmacistAddress: log.args.pharmacistAddress!,
-          timestamp: log.args.timestamp!,
-        };
-        await this.handlers.onDrugAdded(event, log);
-      }
+  /**
+   * Apply a single log unless it has already been processed. The log is
+   * claimed by inserting its processed record in the same transaction as
+   * the handler's writes: a concurrent process conflicts on the unique key
+   * instead of applying it too, and a failed handler releases the claim.
+   */
+  private async processLog(contract: ContractKey, log: any): Promise<void> {
+    if (!log.transactionHash || log.logIndex === null) {
+      return; // Pending log
     }
 
-    // Fetch DrugStockUpdated events
-    if (this.handlers.onDrugStockUpdated) {
-      const updatedLogs = await publicClient.getLogs({
-        address: CONTRACT_ADDRESSES.DRUG_INVENTORY,
-        event: parseAbiItem(
-          "event DrugStockUpdated(uint256 indexed drugId, uint256 previousQuantity, uint256 newQuantity, string transactionType, address indexed performedBy, uint256 timestamp, bytes32 blockchainHash)"
-        ),
-        fromBlock,
-        toBlock,
-      });
+    const key = {
+      tx_hash: log.transactionHash.toLowerCase(),
+      log_index: Number(log.logIndex),
+    };
+    if (await ProcessedEventLog.exists(key)) {
+      return;
+    }
 
-      for (const log of updatedLogs) {
-        const event: DrugStockUpdatedEvent = {
-          drugId: log.args.drugId!,
-          previousQuantity: log.args.previousQuantity!,
-          newQuantity: log.args.newQuantity!,
-          transactionType: log.args.transactionType!,
-          performedBy: log.args.performedBy!,
-          timestamp: log.args.timestamp!,
-          blockchainHash: log.args.blockchainHash!,
-        };
-        await this.handlers.onDrugStockUpdated(event, log);
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        await ProcessedEventLog.create(
+          [
+            {
+              ...key,
+              block_number: Number(log.blockNumber),
+              block_hash: log.blockHash,
+              contract,
+              event_name: log.eventName,
+            },
+          ],
+          { session }
+        );
+
+        await this.dispatch(log, session);
+      });
+    } catch (error: any) {
+      // Another process applied it first
+      if (error.code !== MONGO_DUPLICATE_KEY) {
+        throw error;
       }
+    } finally {
+      await session.endSession();
     }
   }
 
   /**
-   * Fetch historical events (for syncing)
+   * Route a decoded log to its registered handler
+   */
+  private async dispatch(log: any, session: ClientSession): Promise<void> {
+    const args = log.args;
+
+    switch (log.eventName) {
+      case "PrescriptionCreated":
+        if (this.handlers.onPrescriptionCreated) {
+          const event: PrescriptionCreatedEvent = {
+            prescriptionId: args.prescriptionId!,
+            patientAddress: args.patientAddress!,
+            doctorAddress: args.doctorAddress!,
+            drugId: args.drugId!,
+            quantity: args.quantity!,
+            timestamp: args.timestamp!,
+          };
+          await this.handlers.onPrescriptionCreated(event, log as Log, session);
+        }
+        break;
+
+      case "PrescriptionHeaderCreated":
+        if (this.handlers.onPrescriptionHeaderCreated) {
+          const event: PrescriptionHeaderCreatedEvent = {
+            headerId: args.headerId!,
+            patientAddress: args.patientAddress!,
+            doctorAddress: args.doctorAddress!,
+            headerHash: args.headerHash!,
+            lineCount: args.lineCount!,
+            timestamp: args.timestamp!,
+          };
+          await this.handlers.onPrescriptionHeaderCreated(
+            event,
+            log as Log,
+            session
+          );
+        }
+        break;
+
+      case "PrescriptionDispensed":
+        if (this.handlers.onPrescriptionDispensed) {
+          const event: PrescriptionDispensedEvent = {
+            prescriptionId: args.prescriptionId!,
+            pharmacistAddress: args.pharmacistAddress!,
+            quantityDispensed: args.quantityDispensed!,
+            timestamp: args.timestamp!,
+            blockchainHash: args.blockchainHash!,
+          };
+          await this.handlers.onPrescriptionDispensed(
+            event,
+            log as Log,
+            session
+          );
+        }
+        break;
+
+      case "DrugAdded":
+        if (this.handlers.onDrugAdded) {
+          const event: DrugAddedEvent = {
+            drugId: args.drugId!,
+            name: args.name!,
+            initialQuantity: args.initialQuantity!,
+            pharmacistAddress: args.pharmacistAddress!,
+            timestamp: args.timestamp!,
+          };
+          await this.handlers.onDrugAdded(event, log as Log, session);
+        }
+        break;
+
+      case "DrugStockUpdated":
+        if (this.handlers.onDrugStockUpdated) {
+          const event: DrugStockUpdatedEvent = {
+            drugId: args.drugId!,
+            previousQuantity: args.previousQuantity!,
+            newQuantity: args.newQuantity!,
+            transactionType: args.transactionType!,
+            performedBy: args.performedBy!,
+            timestamp: args.timestamp!,
+            blockchainHash: args.blockchainHash!,
+          };
+          await this.handlers.onDrugStockUpdated(event, log as Log, session);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Fetch historical events (for syncing). Already-processed logs are
+   * skipped and the live cursors are left untouched.
    */
   public async fetchHistoricalEvents(
     fromBlock: bigint,
@@ -285,50 +381,129 @@ export class EventListenerService {
     console.log(
       `📜 Fetching historical events from block ${fromBlock} to ${toBlock}`
     );
-    await this.fetchPrescriptionEvents(fromBlock, toBlock);
-    await this.fetchDrugInventoryEvents(fromBlock, toBlock);
+
+    for (const contract of this.getConfiguredContracts()) {
+      let windowStart = fromBlock;
+      while (windowStart <= toBlock) {
+        const windowEnd = this.min(
+          windowStart + this.LOG_BATCH_SIZE - BigInt(1),
+          toBlock
+        );
+        await this.processRange(contract, windowStart, windowEnd);
+        windowStart = windowEnd + BigInt(1);
+      }
+    }
   }
 
   /**
-   * Get last processed block
+   * Get last processed block (the lowest cursor across contracts)
    */
   public getLastProcessedBlock(): bigint {
     return this.lastProcessedBlock;
   }
 
   /**
-   * Set last processed block (for manual sync)
+   * Get each contract's cursor
    */
-  public setLastProcessedBlock(blockNumber: bigint): void {
-    this.lastProcessedBlock = blockNumber;
-    this.saveLastProcessedBlock();
+  public getCursors(): Record<string, string> {
+    const cursors: Record<string, string> = {};
+    this.cursors.forEach((block, contract) => {
+      cursors[contract] = block.toString();
+    });
+    return cursors;
   }
 
   /**
-   * Load last processed block from storage
+   * Set last processed block for every contract (for manual sync)
    */
-  private loadLastProcessedBlock(): void {
-    try {
-      // In production, load from database
-      // For now, we'll start from latest block
-      this.lastProcessedBlock = 0n;
-    } catch (error) {
-      console.error("Error loading last processed block:", error);
+  public async setLastProcessedBlock(blockNumber: bigint): Promise<void> {
+    for (const contract of this.getConfiguredContracts()) {
+      await this.saveCursor(contract, blockNumber);
     }
   }
 
   /**
-   * Save last processed block to storage
+   * Load each contract's cursor from the database. Contracts without a
+   * cursor, or whose address changed since it was saved, start from
+   * BLOCKCHAIN_SYNC_FROM_BLOCK or the last INITIAL_LOOKBACK blocks.
    */
-  private saveLastProcessedBlock(): void {
-    try {
-      // In production, save to database
-      // This ensures we don't reprocess events after restart
-    } catch (error) {
-      console.error("Error saving last processed block:", error);
+  private async loadCursors(fromBlock?: bigint): Promise<void> {
+    const currentBlock = await baseClient.getBlockNumber();
+    const defaultBlock = process.env.BLOCKCHAIN_SYNC_FROM_BLOCK
+      ? BigInt(process.env.BLOCKCHAIN_SYNC_FROM_BLOCK)
+      : currentBlock > this.INITIAL_LOOKBACK
+        ? currentBlock - this.INITIAL_LOOKBACK
+        : BigInt(0);
+
+    for (const contract of this.getConfiguredContracts()) {
+      if (fromBlock !== undefined) {
+        await this.saveCursor(contract, fromBlock);
+        continue;
+      }
+
+      const stored = await SyncCursor.findOne({ contract }).lean<{
+        contract_address: string;
+        last_processed_block: number;
+      }>();
+      if (
+        stored &&
+        stored.contract_address === this.getContractAddress(contract)
+      ) {
+        this.cursors.set(contract, BigInt(stored.last_processed_block));
+        this.refreshLastProcessedBlock();
+      } else {
+        await this.saveCursor(contract, defaultBlock);
+      }
     }
   }
 
+  /**
+   * Save a contract's cursor to the database
+   */
+  private async saveCursor(
+    contract: ContractKey,
+    blockNumber: bigint
+  ): Promise<void> {
+    await SyncCursor.findOneAndUpdate(
+      { contract },
+      {
+        $set: {
+          contract_address: this.getContractAddress(contract),
+          last_processed_block: Number(blockNumber),
+        },
+      },
+      { upsert: true }
+    );
+    this.cursors.set(contract, blockNumber);
+    this.refreshLastProcessedBlock();
+  }
+
+  private refreshLastProcessedBlock(): void {
+    const blocks = Array.from(this.cursors.values());
+    this.lastProcessedBlock = blocks.length
+      ? blocks.reduce((lowest, block) => this.min(lowest, block))
+      : BigInt(0);
+  }
+
+  private getConfiguredContracts(): ContractKey[] {
+    const contracts: ContractKey[] = [];
+    if (CONTRACT_ADDRESSES.PRESCRIPTION) contracts.push("prescription");
+    if (CONTRACT_ADDRESSES.DRUG_INVENTORY) contracts.push("drug_inventory");
+    return contracts;
+  }
+
+  private getContractAddress(contract: ContractKey): string {
+    return (
+      contract === "prescription"
+        ? CONTRACT_ADDRESSES.PRESCRIPTION
+        : CONTRACT_ADDRESSES.DRUG_INVENTORY
+    ).toLowerCase();
+  }
+
+  private min(a: bigint, b: bigint): bigint {
+    return a < b ? a : b;
+  }
+
   /**
    * Check if listener is running
    */
@@ -15,6 +15,18 @@ export const PrescriptionContractABI = [
       { name: "timestamp", type: "uint256", indexed: false },
     ],
   },
+  {
+    type: "event",
+    name: "PrescriptionHeaderCreated",
+    inputs: [
+      { name: "headerId", type: "uint256", indexed: true },
+      { name: "patientAddress", type: "address", indexed: true },
+      { name: "doctorAddress", type: "address", indexed: true },
+      { name: "headerHash", type: "bytes32", indexed: false },
+      { name: "lineCount", type: "uint256", indexed: false },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
   {
     type: "event",
     name: "PrescriptionVerified",
@@ -50,6 +62,17 @@ export const PrescriptionContractABI = [
     ],
     outputs: [{ name: "prescriptionId", type: "uint256" }],
   },
+  {
+    type: "function",
+    name: "createPrescriptionHeader",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "patientAddress", type: "address" },
+      { name: "headerHash", type: "bytes32" },
+      { name: "lineCount", type: "uint256" },
+    ],
+    outputs: [{ name: "headerId", type: "uint256" }],
+  },
   {
     type: "function",
     name: "verifyPrescription",
@@ -93,6 +116,40 @@ export const PrescriptionContractABI = [
       },
     ],
   },
+  {
+    type: "function",
+    name: "getPrescriptionHeader",
+    stateMutability: "view",
+    inputs: [{ name: "headerId", type: "uint256" }],
+    outputs: [
+      {
+        name: "header",
+        type: "tuple",
+        components: [
+          { name: "id", type: "uint256" },
+          { name: "patientAddress", type: "address" },
+          { name: "doctorAddress", type: "address" },
+          { name: "headerHash", type: "bytes32" },
+          { name: "lineCount", type: "uint256" },
+          { name: "createdAt", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "function",
+    name: "grantDoctorRole",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "grantPharmacistRole",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [],
+  },
 ] as const;
 
 export const DrugInventoryContractABI = [
@@ -187,6 +244,13 @@ export const DrugInventoryContractABI = [
     inputs: [{ name: "drugId", type: "uint256" }],
     outputs: [{ name: "quantity", type: "uint256" }],
   },
+  {
+    type: "function",
+    name: "grantPharmacistRole",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [],
+  },
 ] as const;
 
 export const DrugTraceabilityContractABI = [
@@ -243,6 +307,15 @@ export const DrugTraceabilityContractABI = [
       { name: "timestamp", type: "uint256", indexed: false },
     ],
   },
+  {
+    type: "event",
+    name: "BatchDeactivated",
+    inputs: [
+      { name: "batchId", type: "uint256", indexed: true },
+      { name: "deactivatedBy", type: "address", indexed: true },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
   // Functions
   {
     type: "function",
@@ -389,6 +462,13 @@ export const DrugTraceabilityContractABI = [
     inputs: [{ name: "batchId", type: "uint256" }],
     outputs: [{ name: "dispensingIds", type: "uint256[]" }],
   },
+  {
+    type: "function",
+    name: "deactivateBatch",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "batchId", type: "uint256" }],
+    outputs: [],
+  },
   {
     type: "function",
     name: "getTotalBatches",
@@ -432,6 +512,15 @@ export interface PrescriptionCreatedEvent {
   timestamp: bigint;
 }
 
+export interface PrescriptionHeaderCreatedEvent {
+  headerId: bigint;
+  patientAddress: `0x${string}`;
+  doctorAddress: `0x${string}`;
+  headerHash: `0x${string}`;
+  lineCount: bigint;
+  timestamp: bigint;
+}
+
 export interface PrescriptionDispensedEvent {
   prescriptionId: bigint;
   pharmacistAddress: `0x${string}`;
@@ -469,6 +558,15 @@ export interface OnChainPrescription {
   dispensedAt: bigint;
 }
 
+export interface OnChainPrescriptionHeader {
+  id: bigint;
+  patientAddress: `0x${string}`;
+  doctorAddress: `0x${string}`;
+  headerHash: `0x${string}`;
+  lineCount: bigint;
+  createdAt: bigint;
+}
+
 export interface OnChainDrug {
   id: bigint;
   name: string;
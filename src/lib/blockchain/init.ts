@@ -31,18 +31,16 @@ export async function initializeBlockchain() {
     const currentBlock = await baseClient.getBlockNumber();
     console.log(`📦 Current block: ${currentBlock}`);
 
-    // Start blockchain synchronization
-    // Note: In production, you might want to sync from a specific block
-    // stored in your database from the last successful sync
+    // Start blockchain synchronization. The listener resumes from the
+    // cursors stored in MongoDB; BLOCKCHAIN_SYNC_FROM_BLOCK only seeds
+    // contracts that have never been synced.
     if (process.env.BLOCKCHAIN_AUTO_SYNC === "true") {
-      const startBlock = process.env.BLOCKCHAIN_SYNC_FROM_BLOCK
-        ? BigInt(process.env.BLOCKCHAIN_SYNC_FROM_BLOCK)
-        : currentBlock - BigInt(1000); // Default: last 1000 blocks
-
-      await blockchainSyncService.startSync(startBlock);
+      await blockchainSyncService.startSync();
 
       console.log("✅ Blockchain synchronization started");
-      console.log(`   Syncing from block: ${startBlock}`);
+      console.log(
+        `   Syncing from block: ${blockchainSyncService.getSyncStatus().lastProcessedBlock}`
+      );
     } else {
       console.log(
         "⚠️ Auto-sync disabled. Set BLOCKCHAIN_AUTO_SYNC=true to enable"
@@ -0,0 +1,151 @@
+// Custodial signer management for traceability transactions
+// Maps an authenticated pharmacist or manufacturer to the key that signs on
+// their behalf, so private keys never travel over HTTP
+
+import { promises as fs } from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { AuthUser } from "../utils/auth-helper";
+
+const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "http://127.0.0.1:8545";
+
+// Well-known Hardhat test mnemonic, only ever used by the dev backend
+const DEV_MNEMONIC =
+  "test test test test test test test test test test test junk";
+
+// A Hardhat node funds accounts 0-19 of the mnemonic and account 0 deploys
+// the contracts, so dev signers are spread over accounts 1-19. Keep in step
+// with contracts/scripts/grantDevSignerRoles.js.
+const DEV_SIGNER_FIRST_INDEX = 1;
+const DEV_SIGNER_ACCOUNT_COUNT = 19;
+
+/**
+ * Resolves the signer that acts for an authenticated user
+ */
+export interface SignerProvider {
+  readonly name: string;
+  getSigner(user: AuthUser): Promise<ethers.Signer | null>;
+}
+
+/**
+ * Encrypted JSON keystores (Web3 Secret Storage V3) stored as `<userId>.json`
+ * in a directory and unlocked with a server-side password
+ */
+export class KeystoreSignerProvider implements SignerProvider {
+  readonly name = "keystore";
+  private wallets = new Map<string, ethers.Wallet>();
+
+  constructor(
+    private readonly directory: string,
+    private readonly password: string,
+    private readonly provider: ethers.Provider
+  ) {}
+
+  async getSigner(user: AuthUser): Promise<ethers.Signer | null> {
+    const cached = this.wallets.get(user.id);
+    if (cached) return cached;
+
+    // User ids are ObjectId strings; anything else could escape the directory
+    if (!/^[a-zA-Z0-9_-]+$/.test(user.id)) return null;
+
+    let json: string;
+    try {
+      json = await fs.readFile(
+        path.join(this.directory, `${user.id}.json`),
+        "utf8"
+      );
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+
+    const decrypted = await ethers.Wallet.fromEncryptedJson(
+      json,
+      this.password
+    );
+    const wallet = new ethers.Wallet(decrypted.privateKey, this.provider);
+    this.wallets.set(user.id, wallet);
+    return wallet;
+  }
+}
+
+/**
+ * Local development signer: derives a stable account per user from a test
+ * mnemonic so a Hardhat node works without provisioning keystores. Users
+ * share the funded accounts, so two users may sign with the same address.
+ */
+export class DevSignerProvider implements SignerProvider {
+  readonly name = "dev";
+
+  constructor(
+    private readonly mnemonic: string,
+    private readonly provider: ethers.Provider
+  ) {}
+
+  async getSigner(user: AuthUser): Promise<ethers.Signer | null> {
+    const digest = ethers.id(user.id);
+    const index =
+      DEV_SIGNER_FIRST_INDEX +
+      (parseInt(digest.slice(2, 10), 16) % DEV_SIGNER_ACCOUNT_COUNT);
+    return ethers.HDNodeWallet.fromPhrase(
+      this.mnemonic,
+      undefined,
+      `m/44'/60'/0'/0/${index}`
+    ).connect(this.provider);
+  }
+}
+
+let signerProvider: SignerProvider | null = null;
+
+/**
+ * Build the signer backend selected by SIGNER_BACKEND ("keystore" or "dev").
+ * Production defaults to keystores and refuses the dev backend.
+ */
+export function getSignerProvider(): SignerProvider {
+  if (signerProvider) return signerProvider;
+
+  const isProduction = process.env.NODE_ENV === "production";
+  const backend =
+    process.env.SIGNER_BACKEND || (isProduction ? "keystore" : "dev");
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+
+  if (backend === "dev") {
+    if (isProduction) {
+      throw new Error("The dev signer backend cannot be used in production");
+    }
+    signerProvider = new DevSignerProvider(
+      process.env.DEV_SIGNER_MNEMONIC || DEV_MNEMONIC,
+      provider
+    );
+  } else if (backend === "keystore") {
+    const password = process.env.KEYSTORE_PASSWORD;
+    if (!password) {
+      throw new Error("KEYSTORE_PASSWORD is required for keystore signers");
+    }
+    signerProvider = new KeystoreSignerProvider(
+      process.env.KEYSTORE_DIR || path.join(process.cwd(), "keystore"),
+      password,
+      provider
+    );
+  } else {
+    throw new Error(`Unknown SIGNER_BACKEND "${backend}"`);
+  }
+
+  return signerProvider;
+}
+
+/**
+ * Override the signer backend (tests or custom key management such as a KMS)
+ */
+export function setSignerProvider(provider: SignerProvider | null) {
+  signerProvider = provider;
+}
+
+/**
+ * Resolve the custodial signer for the authenticated session user
+ */
+export async function resolveSessionSigner(
+  user: AuthUser
+): Promise<ethers.Signer | null> {
+  return getSignerProvider().getSigner(user);
+}
@@ -0,0 +1,88 @@
+/**
+ * Mongoose Models for Patient Access Grants
+ * Patients decide which doctors and pharmacies may see their records.
+ * Grants are revoked rather than deleted so the history stays reviewable.
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+export type GranteeType = "doctor" | "pharmacy";
+
+// Patient Access Grant Interface
+export interface IPatientAccessGrant extends Document {
+  patient_id: mongoose.Types.ObjectId;
+  grantee_type: GranteeType;
+  doctor_id?: mongoose.Types.ObjectId;
+  pharmacy_id?: mongoose.Types.ObjectId;
+  granted_by: mongoose.Types.ObjectId;
+  // Open-ended when missing
+  expires_at?: Date;
+  revoked_at?: Date;
+  revoked_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Patient Access Grant Schema
+const PatientAccessGrantSchema = new Schema<IPatientAccessGrant>(
+  {
+    patient_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Patient",
+      required: true,
+    },
+    grantee_type: {
+      type: String,
+      enum: ["doctor", "pharmacy"],
+      required: true,
+    },
+    doctor_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Doctor",
+      required: function (this: IPatientAccessGrant) {
+        return this.grantee_type === "doctor";
+      },
+    },
+    pharmacy_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Pharmacy",
+      required: function (this: IPatientAccessGrant) {
+        return this.grantee_type === "pharmacy";
+      },
+    },
+    granted_by: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    expires_at: {
+      type: Date,
+      required: false,
+    },
+    revoked_at: {
+      type: Date,
+      required: false,
+    },
+    revoked_by: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: false,
+    },
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  }
+);
+
+// Indexes
+PatientAccessGrantSchema.index({ patient_id: 1, revoked_at: 1 });
+PatientAccessGrantSchema.index({ doctor_id: 1, revoked_at: 1 });
+PatientAccessGrantSchema.index({ pharmacy_id: 1, revoked_at: 1 });
+
+// Export model
+export const PatientAccessGrantModel =
+  mongoose.models.PatientAccessGrant ||
+  mongoose.model<IPatientAccessGrant>(
+    "PatientAccessGrant",
+    PatientAccessGrantSchema
+  );
@@ -0,0 +1,116 @@
+/**
+ * Mongoose Models for the Drug Formulary
+ * Master catalogue of drug products that doctors prescribe from and that
+ * pharmacy stock entries reference
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+export type ControlledSchedule = "none" | "I" | "II" | "III" | "IV" | "V";
+
+export const DOSAGE_FORMS = [
+  "tablet",
+  "capsule",
+  "liquid",
+  "injection",
+  "cream",
+  "drops",
+  "inhaler",
+] as const;
+
+export const CONTROLLED_SCHEDULES: ControlledSchedule[] = [
+  "none",
+  "I",
+  "II",
+  "III",
+  "IV",
+  "V",
+];
+
+// Formulary Item Interface
+export interface IFormularyItem extends Document {
+  code: string;
+  name: string;
+  generic_name?: string;
+  strength: string;
+  dosage_form: (typeof DOSAGE_FORMS)[number];
+  controlled_schedule: ControlledSchedule;
+  description?: string;
+  is_active: boolean;
+  created_by?: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Formulary Item Schema
+const FormularyItemSchema = new Schema<IFormularyItem>(
+  {
+    // ATC/NDC-style product code, e.g. "N02BE01-500TAB"
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+      trim: true,
+      maxlength: 50,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200,
+    },
+    generic_name: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+    strength: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    dosage_form: {
+      type: String,
+      required: true,
+      enum: DOSAGE_FORMS,
+    },
+    controlled_schedule: {
+      type: String,
+      enum: CONTROLLED_SCHEDULES,
+      default: "none",
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    // Inactive items stay on existing prescriptions but cannot be
+    // prescribed or stocked
+    is_active: {
+      type: Boolean,
+      default: true,
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: false,
+    },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    },
+  }
+);
+
+// Indexes
+FormularyItemSchema.index({ name: 1, strength: 1, dosage_form: 1 });
+FormularyItemSchema.index({ generic_name: 1 });
+FormularyItemSchema.index({ is_active: 1 });
+
+// Export model
+export const FormularyItemModel =
+  mongoose.models.FormularyItem ||
+  mongoose.model<IFormularyItem>("FormularyItem", FormularyItemSchema);
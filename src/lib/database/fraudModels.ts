@@ -0,0 +1,204 @@
+/**
+ * Mongoose Models for Fraud Case Management
+ * Persists detected fraud alerts so investigators can work them to closure
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+export type FraudAlertStatus =
+  "new" | "investigating" | "resolved" | "false_positive";
+
+export type FraudAlertAction =
+  "detected" | "status_changed" | "assigned" | "unassigned" | "note_added";
+
+// Fraud Alert Interface
+export interface IFraudAlert extends Document {
+  fingerprint: string;
+  type: string;
+  severity: "critical" | "medium" | "low";
+  description: string;
+  related_entity: {
+    type: "prescription" | "drug" | "user";
+    id: string;
+    name: string;
+  };
+  status: FraudAlertStatus;
+  assigned_to?: mongoose.Types.ObjectId;
+  first_detected_at: Date;
+  last_detected_at: Date;
+  notes: {
+    author: mongoose.Types.ObjectId;
+    text: string;
+    created_at: Date;
+  }[];
+  history: {
+    action: FraudAlertAction;
+    from_status?: FraudAlertStatus;
+    to_status?: FraudAlertStatus;
+    performed_by?: mongoose.Types.ObjectId;
+    comment?: string;
+    timestamp: Date;
+  }[];
+  resolution?: {
+    summary: string;
+    resolved_by: mongoose.Types.ObjectId;
+    resolved_at: Date;
+  };
+  created_at: Date;
+  updated_at: Date;
+}
+
+const STATUSES: FraudAlertStatus[] = [
+  "new",
+  "investigating",
+  "resolved",
+  "false_positive",
+];
+
+// Fraud Alert Schema
+const FraudAlertSchema = new Schema<IFraudAlert>(
+  {
+    // Stable identity of the underlying issue, e.g.
+    // "excessive_dispensing:<prescriptionId>"
+    fingerprint: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    severity: {
+      type: String,
+      enum: ["critical", "medium", "low"],
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    related_entity: {
+      type: {
+        type: String,
+        enum: ["prescription", "drug", "user"],
+        required: true,
+      },
+      id: {
+        type: String,
+        required: true,
+      },
+      name: {
+        type: String,
+        required: true,
+      },
+    },
+    status: {
+      type: String,
+      enum: STATUSES,
+      default: "new",
+    },
+    assigned_to: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: false,
+    },
+    first_detected_at: {
+      type: Date,
+      default: Date.now,
+    },
+    last_detected_at: {
+      type: Date,
+      default: Date.now,
+    },
+    notes: [
+      {
+        author: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: true,
+        },
+        text: {
+          type: String,
+          required: true,
+          trim: true,
+          maxlength: 2000,
+        },
+        created_at: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    // Append-only trail of every change to the case
+    history: [
+      {
+        action: {
+          type: String,
+          enum: [
+            "detected",
+            "status_changed",
+            "assigned",
+            "unassigned",
+            "note_added",
+          ],
+          required: true,
+        },
+        from_status: {
+          type: String,
+          enum: STATUSES,
+          required: false,
+        },
+        to_status: {
+          type: String,
+          enum: STATUSES,
+          required: false,
+        },
+        performed_by: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: false,
+        },
+        comment: {
+          type: String,
+          required: false,
+          maxlength: 2000,
+        },
+        timestamp: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    resolution: {
+      summary: {
+        type: String,
+        trim: true,
+        maxlength: 2000,
+      },
+      resolved_by: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+      resolved_at: {
+        type: Date,
+      },
+    },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    },
+  }
+);
+
+// Indexes
+FraudAlertSchema.index({ status: 1, severity: 1 });
+FraudAlertSchema.index({ assigned_to: 1, status: 1 });
+FraudAlertSchema.index({ last_detected_at: -1 });
+
+// Export model
+export const FraudAlertModel =
+  mongoose.models.FraudAlert ||
+  mongoose.model<IFraudAlert>("FraudAlert", FraudAlertSchema);
@@ -0,0 +1,82 @@
+/**
+ * Mongoose Models for Idempotent Requests
+ * Lets clients safely retry mutations such as dispensing
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+// Idempotency Record Interface
+export interface IIdempotencyRecord extends Document {
+  key: string;
+  user_id: mongoose.Types.ObjectId;
+  scope: "dispense";
+  request_hash: string;
+  status: "in_progress" | "completed";
+  response_status?: number;
+  response_body?: any;
+  created_at: Date;
+}
+
+// Idempotency Record Schema
+const IdempotencyRecordSchema = new Schema<IIdempotencyRecord>(
+  {
+    key: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 128,
+    },
+    user_id: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    scope: {
+      type: String,
+      enum: ["dispense"],
+      required: true,
+    },
+    request_hash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["in_progress", "completed"],
+      default: "in_progress",
+    },
+    response_status: {
+      type: Number,
+      required: false,
+    },
+    response_body: {
+      type: Schema.Types.Mixed,
+      required: false,
+    },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: false,
+    },
+  }
+);
+
+// Indexes
+IdempotencyRecordSchema.index(
+  { key: 1, user_id: 1, scope: 1 },
+  { unique: true }
+);
+// Keys are only honoured for 24 hours
+IdempotencyRecordSchema.index(
+  { created_at: 1 },
+  { expireAfterSeconds: 24 * 60 * 60 }
+);
+
+// Export model
+export const IdempotencyRecord =
+  mongoose.models.IdempotencyRecord ||
+  mongoose.model<IIdempotencyRecord>(
+    "IdempotencyRecord",
+    IdempotencyRecordSchema
+  );
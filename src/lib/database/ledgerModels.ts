@@ -0,0 +1,156 @@
+/**
+ * Mongoose Models for the Inventory Ledger
+ * Durable, append-only storage for the BlockchainService hash chain
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+// Ledger Entry Interface
+export interface ILedgerEntry extends Document {
+  sequence: number;
+  transactionId: string;
+  timestamp: number;
+  drugId: string;
+  drugName: string;
+  transactionType:
+    | "stock_in"
+    | "dispensed"
+    | "expired"
+    | "damaged"
+    | "returned"
+    | "adjustment";
+  quantity: number;
+  previousQuantity: number;
+  newQuantity: number;
+  performedBy: string;
+  performedByRole: string;
+  prescriptionId?: string;
+  batchNumber?: string;
+  notes?: string;
+  previousHash: string;
+  hash: string;
+}
+
+// Ledger Entry Schema
+const LedgerEntrySchema = new Schema<ILedgerEntry>(
+  {
+    sequence: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    transactionId: {
+      type: String,
+      required: true,
+    },
+    timestamp: {
+      type: Number,
+      required: true,
+    },
+    drugId: {
+      type: String,
+      required: true,
+    },
+    drugName: {
+      type: String,
+      required: true,
+    },
+    transactionType: {
+      type: String,
+      enum: [
+        "stock_in",
+        "dispensed",
+        "expired",
+        "damaged",
+        "returned",
+        "adjustment",
+      ],
+      required: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+    },
+    previousQuantity: {
+      type: Number,
+      required: true,
+    },
+    newQuantity: {
+      type: Number,
+      required: true,
+    },
+    performedBy: {
+      type: String,
+      required: true,
+    },
+    performedByRole: {
+      type: String,
+      required: true,
+    },
+    prescriptionId: {
+      type: String,
+      required: false,
+    },
+    batchNumber: {
+      type: String,
+      required: false,
+    },
+    notes: {
+      type: String,
+      required: false,
+    },
+    previousHash: {
+      type: String,
+      required: true,
+    },
+    hash: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: false,
+    versionKey: false,
+  }
+);
+
+// Append-only: a sequence number or a parent hash can only be claimed once,
+// so two instances racing to extend the same tip cannot both succeed.
+LedgerEntrySchema.index({ sequence: 1 }, { unique: true });
+LedgerEntrySchema.index({ previousHash: 1 }, { unique: true });
+LedgerEntrySchema.index({ transactionId: 1 }, { unique: true });
+LedgerEntrySchema.index({ hash: 1 }, { unique: true });
+LedgerEntrySchema.index({ drugId: 1, sequence: 1 });
+
+// Reject every write path other than inserts
+const rejectMutation = function () {
+  throw new Error("Ledger entries are append-only and cannot be modified");
+};
+
+LedgerEntrySchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "replaceOne",
+    "findOneAndReplace",
+    "deleteOne",
+    "deleteMany",
+    "findOneAndDelete",
+  ],
+  rejectMutation
+);
+
+LedgerEntrySchema.pre("save", function (next) {
+  if (!this.isNew) {
+    return next(
+      new Error("Ledger entries are append-only and cannot be modified")
+    );
+  }
+  next();
+});
+
+// Export model
+export const LedgerEntry =
+  mongoose.models.LedgerEntry ||
+  mongoose.model<ILedgerEntry>("LedgerEntry", LedgerEntrySchema);
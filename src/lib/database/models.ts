@@ -10,6 +10,7 @@ import {
   Patient,
   Drug,
   Prescription,
+  PrescriptionHeader,
   PrescriptionAudit,
   InventoryTransaction,
   Notification,
@@ -52,7 +53,14 @@ const userSchema = new mongoose.Schema<User>(
     role: {
       type: String,
       required: true,
-      enum: ["doctor", "pharmacist", "patient", "admin"],
+      enum: [
+        "doctor",
+        "pharmacist",
+        "patient",
+        "admin",
+        "auditor",
+        "manufacturer",
+      ],
     },
     is_active: {
       type: Boolean,
@@ -63,10 +71,70 @@ const userSchema = new mongoose.Schema<User>(
       type: Boolean,
       default: false,
     },
+    // SHA-256 of the emailed token; the token itself is never stored
     email_verification_token: {
       type: String,
       select: false,
     },
+    email_verification_expires: {
+      type: Date,
+      select: false,
+    },
+    email_verification_sent_at: {
+      type: Date,
+      select: false,
+    },
+    // Single-use password reset, stored hashed like the verification token
+    password_reset_token: {
+      type: String,
+      select: false,
+    },
+    password_reset_expires: {
+      type: Date,
+      select: false,
+    },
+    password_reset_sent_at: {
+      type: Date,
+      select: false,
+    },
+    // Time-based one-time password (TOTP) second factor
+    two_factor_enabled: {
+      type: Boolean,
+      default: false,
+    },
+    two_factor_enabled_at: {
+      type: Date,
+    },
+    // Authenticator secret, encrypted at rest (see src/lib/utils/totp.ts)
+    two_factor_secret: {
+      type: String,
+      select: false,
+    },
+    // Secret shown during enrolment, kept until the first code confirms it
+    two_factor_pending_secret: {
+      type: String,
+      select: false,
+    },
+    // SHA-256 of each unused recovery code
+    two_factor_recovery_codes: {
+      type: [String],
+      select: false,
+    },
+    // Last accepted time step, so a code cannot be replayed
+    two_factor_last_used_step: {
+      type: Number,
+      select: false,
+    },
+    // Invalid codes in a row, and when the lockout they caused ends
+    two_factor_failed_attempts: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    two_factor_locked_until: {
+      type: Date,
+      select: false,
+    },
     // Password hash field (not included in the User interface for security)
     password_hash: {
       type: String,
@@ -156,6 +224,53 @@ const pharmacySchema = new mongoose.Schema<Pharmacy>(
   }
 );
 
+// License document uploaded by a doctor or pharmacist for admin review.
+// Files are kept outside public/ and only served to admins.
+const licenseDocumentSchema = new mongoose.Schema({
+  file_name: {
+    type: String,
+    required: true,
+  },
+  original_name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 255,
+  },
+  mime_type: {
+    type: String,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+  },
+  uploaded_at: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// License review fields shared by doctors and pharmacists
+const licenseReviewFields = {
+  license_documents: [licenseDocumentSchema],
+  reviewed_by: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  reviewed_at: Date,
+  rejection_reason: {
+    type: String,
+    trim: true,
+    maxlength: 1000,
+  },
+  // Transaction that granted DOCTOR_ROLE / PHARMACIST_ROLE on approval
+  onchain_role_tx_hash: {
+    type: String,
+    maxlength: 66,
+  },
+};
+
 // Doctor Schema
 const doctorSchema = new mongoose.Schema<Doctor>(
   {
@@ -186,6 +301,7 @@ const doctorSchema = new mongoose.Schema<Doctor>(
       enum: ["pending", "verified", "rejected"],
       default: "pending",
     },
+    ...licenseReviewFields,
   },
   {
     timestamps: true,
@@ -226,6 +342,7 @@ const pharmacistSchema = new mongoose.Schema<Pharmacist>(
       enum: ["pending", "verified", "rejected"],
       default: "pending",
     },
+    ...licenseReviewFields,
   },
   {
     timestamps: true,
@@ -263,10 +380,33 @@ const patientSchema = new mongoose.Schema<Patient>(
       email: String,
       address: String,
     },
-    allergies: {
-      type: String,
-      trim: true,
-    },
+    // Structured allergy entries screened at prescribing and dispensing.
+    // Records created before this held a comma-separated string; see
+    // scripts/migrate-allergies.ts
+    allergies: [
+      {
+        substance: {
+          type: String,
+          required: true,
+          trim: true,
+          maxlength: 100,
+        },
+        reaction: {
+          type: String,
+          trim: true,
+          maxlength: 200,
+        },
+        severity: {
+          type: String,
+          enum: ["mild", "moderate", "severe"],
+          default: "moderate",
+        },
+        recorded_at: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
     medical_history: {
       type: String,
       trim: true,
@@ -284,6 +424,12 @@ const drugSchema = new mongoose.Schema<Drug>(
       type: mongoose.Schema.Types.ObjectId,
       ref: "Pharmacy",
     },
+    // Formulary product this stock entry holds; name, generic_name,
+    // dosage_form and strength are copied from it
+    formulary_id: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "FormularyItem",
+    },
     name: {
       type: String,
       required: true,
@@ -320,6 +466,8 @@ const drugSchema = new mongoose.Schema<Drug>(
       trim: true,
       maxlength: 200,
     },
+    // batch_number, expiry_date and stock_quantity summarize the lots below:
+    // the earliest-expiring lot in stock and the total on hand
     batch_number: {
       type: String,
       trim: true,
@@ -335,6 +483,40 @@ const drugSchema = new mongoose.Schema<Drug>(
       default: 0,
       min: 0,
     },
+    // Stock held per received lot, dispensed first-expiry-first-out
+    lots: [
+      {
+        batch_number: {
+          type: String,
+          required: true,
+          trim: true,
+          maxlength: 100,
+        },
+        expiry_date: {
+          type: Date,
+          required: true,
+        },
+        quantity: {
+          type: Number,
+          required: true,
+          min: 0,
+        },
+        received_at: {
+          type: Date,
+          default: Date.now,
+        },
+        drug_batch_id: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "DrugBatch",
+        },
+        // Set while the lot's batch is under recall: the stock is frozen and
+        // can only leave by being returned or destroyed
+        recall_id: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "Recall",
+        },
+      },
+    ],
     minimum_stock_level: {
       type: Number,
       default: 10,
@@ -386,6 +568,76 @@ const drugSchema = new mongoose.Schema<Drug>(
   }
 );
 
+// Prescription Header Schema: one per prescribing visit. Each drug on it is
+// a Prescription line pointing back via header_id.
+const prescriptionHeaderSchema = new mongoose.Schema<PrescriptionHeader>(
+  {
+    patient_id: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Patient",
+      required: true,
+    },
+    doctor_id: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Doctor",
+      required: true,
+    },
+    diagnosis: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    // ICD-10 codes, e.g. J02.9
+    diagnosis_codes: [
+      {
+        type: String,
+        uppercase: true,
+        trim: true,
+        match: /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/,
+      },
+    ],
+    notes: {
+      type: String,
+      trim: true,
+    },
+    // Derived from the lines' statuses
+    status: {
+      type: String,
+      enum: ["pending", "partially_dispensed", "dispensed", "cancelled"],
+      default: "pending",
+    },
+    line_count: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    date_issued: {
+      type: Date,
+      default: Date.now,
+    },
+    // SHA-256 over the header and its lines as written by the prescriber
+    signature_hash: {
+      type: String,
+      required: true,
+      maxlength: 64,
+    },
+    // On-chain blockchain fields
+    onchain_tx_hash: {
+      type: String,
+      maxlength: 66,
+    },
+    onchain_block_number: {
+      type: Number,
+    },
+    onchain_header_id: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
 // Prescription Schema
 const prescriptionSchema = new mongoose.Schema<Prescription>(
   {
@@ -399,10 +651,26 @@ const prescriptionSchema = new mongoose.Schema<Prescription>(
       ref: "Doctor",
       required: true,
     },
+    // Header this line belongs to, and its position on it. Prescriptions
+    // written before headers have neither.
+    header_id: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "PrescriptionHeader",
+    },
+    line_number: {
+      type: Number,
+      min: 1,
+    },
+    // What was prescribed. Prescriptions written before the formulary
+    // only have drug_id.
+    formulary_id: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "FormularyItem",
+    },
+    // Stock entry the prescription was dispensed from
     drug_id: {
       type: mongoose.Schema.Types.ObjectId,
       ref: "Drug",
-      required: true,
     },
     pharmacy_id: {
       type: mongoose.Schema.Types.ObjectId,
@@ -446,9 +714,106 @@ const prescriptionSchema = new mongoose.Schema<Prescription>(
     },
     status: {
       type: String,
-      enum: ["pending", "verified", "dispensed", "rejected", "expired"],
+      enum: [
+        "pending",
+        "verified",
+        "partially_dispensed",
+        "dispensed",
+        "rejected",
+        "expired",
+      ],
       default: "pending",
     },
+    // One entry per dispensing event; quantity_dispensed is their running total
+    fills: [
+      {
+        quantity: {
+          type: Number,
+          required: true,
+          min: 1,
+        },
+        dispensed_at: {
+          type: Date,
+          default: Date.now,
+        },
+        pharmacist_id: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "User",
+        },
+        inventory_transaction_id: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "InventoryTransaction",
+        },
+        refill_number: {
+          type: Number,
+          default: 0,
+          min: 0,
+        },
+        blockchain_hash: {
+          type: String,
+          maxlength: 66,
+        },
+        // Encoded in the QR code on the dispensing label; resolves to this
+        // fill on the public verification page
+        verification_hash: {
+          type: String,
+        },
+        notes: {
+          type: String,
+          trim: true,
+        },
+      },
+    ],
+    // Refill authorization: each approved refill request starts a new fill
+    // cycle of quantity_prescribed, no earlier than next_fill_date
+    refills_authorized: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    refills_used: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    refill_interval_days: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    next_fill_date: {
+      type: Date,
+    },
+    refill_requests: [
+      {
+        status: {
+          type: String,
+          enum: ["pending", "approved", "denied"],
+          default: "pending",
+        },
+        requested_at: {
+          type: Date,
+          default: Date.now,
+        },
+        note: {
+          type: String,
+          trim: true,
+          maxlength: 500,
+        },
+        responded_at: {
+          type: Date,
+        },
+        responded_by: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "User",
+        },
+        response_note: {
+          type: String,
+          trim: true,
+          maxlength: 500,
+        },
+      },
+    ],
     notes: {
       type: String,
       trim: true,
@@ -485,7 +850,14 @@ const prescriptionAuditSchema = new mongoose.Schema<PrescriptionAudit>(
     action: {
       type: String,
       required: true,
-      enum: ["created", "verified", "dispensed", "rejected", "modified"],
+      enum: [
+        "created",
+        "verified",
+        "dispensed",
+        "rejected",
+        "modified",
+        "screening_override",
+      ],
     },
     performed_by: {
       type: mongoose.Schema.Types.ObjectId,
@@ -520,7 +892,14 @@ const inventoryTransactionSchema = new mongoose.Schema<InventoryTransaction>(
     transaction_type: {
       type: String,
       required: true,
-      enum: ["stock_in", "dispensed", "expired", "damaged", "returned"],
+      enum: [
+        "stock_in",
+        "dispensed",
+        "expired",
+        "damaged",
+        "returned",
+        "destroyed",
+      ],
     },
     quantity: {
       type: Number,
@@ -539,6 +918,26 @@ const inventoryTransactionSchema = new mongoose.Schema<InventoryTransaction>(
       type: String,
       maxlength: 66,
     },
+    // Lots the quantity was taken from or added to
+    lots: [
+      {
+        lot_id: {
+          type: mongoose.Schema.Types.ObjectId,
+        },
+        batch_number: {
+          type: String,
+          required: true,
+        },
+        expiry_date: {
+          type: Date,
+        },
+        quantity: {
+          type: Number,
+          required: true,
+          min: 1,
+        },
+      },
+    ],
     timestamp: {
       type: Date,
       default: Date.now,
@@ -553,6 +952,25 @@ const inventoryTransactionSchema = new mongoose.Schema<InventoryTransaction>(
   }
 );
 
+export const NOTIFICATION_TYPES = [
+  "prescription_created",
+  "prescription_verified",
+  "prescription_dispensed",
+  "prescription_rejected",
+  "refill_denied",
+  "prescription_expiring",
+  "prescription_expired",
+  "prescription_ready",
+  "low_stock",
+  "drug_expiring",
+  "drug_expired",
+  "fraud_alert",
+  "login_alert",
+  "emergency_access",
+  "batch_recall",
+  "system_alert",
+] as const;
+
 // Notification Schema
 const notificationSchema = new mongoose.Schema<Notification>(
   {
@@ -564,13 +982,12 @@ const notificationSchema = new mongoose.Schema<Notification>(
     type: {
       type: String,
       required: true,
-      enum: [
-        "prescription_ready",
-        "low_stock",
-        "drug_expired",
-        "prescription_expired",
-        "system_alert",
-      ],
+      enum: NOTIFICATION_TYPES,
+    },
+    severity: {
+      type: String,
+      enum: ["info", "success", "warning", "critical"],
+      default: "info",
     },
     title: {
       type: String,
@@ -581,10 +998,27 @@ const notificationSchema = new mongoose.Schema<Notification>(
       type: String,
       required: true,
     },
+    // Dashboard page the notification opens
+    link: {
+      type: String,
+      maxlength: 300,
+    },
+    related_entity: {
+      type: { type: String },
+      id: String,
+    },
+    // Set for recurring checks so the same condition is only reported once
+    dedupe_key: {
+      type: String,
+      maxlength: 200,
+    },
     is_read: {
       type: Boolean,
       default: false,
     },
+    read_at: {
+      type: Date,
+    },
   },
   {
     timestamps: { createdAt: "created_at", updatedAt: false },
@@ -645,26 +1079,47 @@ const blockchainConfigSchema = new mongoose.Schema<BlockchainConfig>(
 // Add indexes for better performance
 // Note: Don't add indexes for fields with unique: true as they already have indexes
 userSchema.index({ role: 1 });
+userSchema.index({ email_verification_token: 1 }, { sparse: true });
+userSchema.index({ password_reset_token: 1 }, { sparse: true });
 
 doctorSchema.index({ verification_status: 1 });
 
 pharmacistSchema.index({ verification_status: 1 });
+pharmacistSchema.index({ pharmacy_id: 1 });
 
+drugSchema.index({ pharmacy_id: 1, name: 1 });
+// A pharmacy holds one stock entry per formulary item
+drugSchema.index(
+  { pharmacy_id: 1, formulary_id: 1 },
+  { unique: true, partialFilterExpression: { formulary_id: { $exists: true } } }
+);
 drugSchema.index({ name: 1 });
 drugSchema.index({ expiry_date: 1 });
 drugSchema.index({ stock_quantity: 1 });
 
+prescriptionHeaderSchema.index({ patient_id: 1 });
+prescriptionHeaderSchema.index({ doctor_id: 1 });
+prescriptionHeaderSchema.index({ status: 1 });
+prescriptionHeaderSchema.index({ signature_hash: 1 });
+
 prescriptionSchema.index({ patient_id: 1 });
+prescriptionSchema.index({ header_id: 1, line_number: 1 });
 prescriptionSchema.index({ doctor_id: 1 });
+prescriptionSchema.index({ formulary_id: 1 });
 prescriptionSchema.index({ pharmacist_id: 1 });
 prescriptionSchema.index({ status: 1 });
 prescriptionSchema.index({ date_issued: 1 });
+prescriptionSchema.index({ "fills.verification_hash": 1 }, { sparse: true });
 
 inventoryTransactionSchema.index({ drug_id: 1 });
 inventoryTransactionSchema.index({ timestamp: 1 });
 
-notificationSchema.index({ user_id: 1 });
-notificationSchema.index({ is_read: 1 });
+notificationSchema.index({ user_id: 1, created_at: -1 });
+notificationSchema.index({ user_id: 1, is_read: 1 });
+notificationSchema.index(
+  { user_id: 1, dedupe_key: 1 },
+  { unique: true, partialFilterExpression: { dedupe_key: { $exists: true } } }
+);
 
 // Create and export models
 export const UserModel =
@@ -681,6 +1136,12 @@ export const PatientModel =
   mongoose.models.Patient || mongoose.model<Patient>("Patient", patientSchema);
 export const DrugModel =
   mongoose.models.Drug || mongoose.model<Drug>("Drug", drugSchema);
+export const PrescriptionHeaderModel =
+  mongoose.models.PrescriptionHeader ||
+  mongoose.model<PrescriptionHeader>(
+    "PrescriptionHeader",
+    prescriptionHeaderSchema
+  );
 export const PrescriptionModel =
   mongoose.models.Prescription ||
   mongoose.model<Prescription>("Prescription", prescriptionSchema);
@@ -714,6 +1175,7 @@ export const Models = {
   Pharmacist: PharmacistModel,
   Patient: PatientModel,
   Drug: DrugModel,
+  PrescriptionHeader: PrescriptionHeaderModel,
   Prescription: PrescriptionModel,
   PrescriptionAudit: PrescriptionAuditModel,
   InventoryTransaction: InventoryTransactionModel,
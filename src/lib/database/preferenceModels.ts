@@ -0,0 +1,87 @@
+/**
+ * Mongoose Models for User Preferences
+ * One document per user holding notification channels, reminders, privacy
+ * and security choices. Keys a role's settings page does not show keep
+ * their defaults.
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+// User Preferences Interface
+export interface IUserPreferences extends Document {
+  user_id: mongoose.Types.ObjectId;
+  notifications: {
+    email: boolean;
+    sms: boolean;
+    prescription_reminders: boolean;
+    appointment_reminders: boolean;
+    refill_alerts: boolean;
+    new_patient_alerts: boolean;
+    prescription_alerts: boolean;
+    low_stock_alerts: boolean;
+    expiry_alerts: boolean;
+  };
+  privacy: {
+    // Off: doctors see identity and allergies only, not medical history
+    share_data_with_doctors: boolean;
+    allow_research: boolean;
+    show_online_status: boolean;
+    show_profile: boolean;
+    allow_new_patients: boolean;
+    allow_data_sharing: boolean;
+  };
+  security: {
+    login_alerts: boolean;
+  };
+  created_at: Date;
+  updated_at: Date;
+}
+
+const flag = (defaultValue: boolean) => ({
+  type: Boolean,
+  default: defaultValue,
+});
+
+// User Preferences Schema
+const UserPreferencesSchema = new Schema<IUserPreferences>(
+  {
+    user_id: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    notifications: {
+      email: flag(true),
+      sms: flag(false),
+      prescription_reminders: flag(true),
+      appointment_reminders: flag(true),
+      refill_alerts: flag(true),
+      new_patient_alerts: flag(true),
+      prescription_alerts: flag(true),
+      low_stock_alerts: flag(true),
+      expiry_alerts: flag(true),
+    },
+    privacy: {
+      share_data_with_doctors: flag(true),
+      allow_research: flag(false),
+      show_online_status: flag(true),
+      show_profile: flag(true),
+      allow_new_patients: flag(true),
+      allow_data_sharing: flag(false),
+    },
+    security: {
+      login_alerts: flag(true),
+    },
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  }
+);
+
+// Indexes
+UserPreferencesSchema.index({ user_id: 1 }, { unique: true });
+
+// Export model
+export const UserPreferencesModel =
+  mongoose.models.UserPreferences ||
+  mongoose.model<IUserPreferences>("UserPreferences", UserPreferencesSchema);
@@ -0,0 +1,157 @@
+/**
+ * Mongoose Models for Security Events
+ * Records rejected API access attempts and emergency (break-glass) access
+ * to patient records for compliance review
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+// Access Denial Interface
+export interface IAccessDenial extends Document {
+  user_id?: string;
+  role?: string;
+  method: string;
+  path: string;
+  permission?: string;
+  status: 401 | 403;
+  reason: string;
+  ip_address?: string;
+  user_agent?: string;
+  timestamp: Date;
+}
+
+// Access Denial Schema
+const AccessDenialSchema = new Schema<IAccessDenial>(
+  {
+    // Kept as a string: unauthenticated attempts have no valid user id
+    user_id: {
+      type: String,
+      required: false,
+    },
+    role: {
+      type: String,
+      required: false,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    permission: {
+      type: String,
+      required: false,
+    },
+    status: {
+      type: Number,
+      enum: [401, 403],
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+    },
+    ip_address: {
+      type: String,
+      required: false,
+    },
+    user_agent: {
+      type: String,
+      required: false,
+      maxlength: 512,
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// Indexes
+AccessDenialSchema.index({ user_id: 1, timestamp: -1 });
+AccessDenialSchema.index({ path: 1, timestamp: -1 });
+// Retain a year of denials
+AccessDenialSchema.index(
+  { timestamp: 1 },
+  { expireAfterSeconds: 365 * 24 * 60 * 60 }
+);
+
+// Export model
+export const AccessDenial =
+  mongoose.models.AccessDenial ||
+  mongoose.model<IAccessDenial>("AccessDenial", AccessDenialSchema);
+
+// Break-Glass Access Interface
+export interface IBreakGlassAccess extends Document {
+  user_id: mongoose.Types.ObjectId;
+  role: "doctor" | "pharmacist";
+  patient_id: mongoose.Types.ObjectId;
+  justification: string;
+  // Access lapses at this time; a new justification is needed after it
+  expires_at: Date;
+  ip_address?: string;
+  user_agent?: string;
+  timestamp: Date;
+}
+
+// Break-Glass Access Schema
+const BreakGlassAccessSchema = new Schema<IBreakGlassAccess>(
+  {
+    user_id: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ["doctor", "pharmacist"],
+      required: true,
+    },
+    patient_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Patient",
+      required: true,
+    },
+    justification: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 1000,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+    ip_address: {
+      type: String,
+      required: false,
+    },
+    user_agent: {
+      type: String,
+      required: false,
+      maxlength: 512,
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// Indexes
+BreakGlassAccessSchema.index({ user_id: 1, patient_id: 1, expires_at: -1 });
+BreakGlassAccessSchema.index({ patient_id: 1, timestamp: -1 });
+BreakGlassAccessSchema.index({ timestamp: -1 });
+
+// Export model
+export const BreakGlassAccess =
+  mongoose.models.BreakGlassAccess ||
+  mongoose.model<IBreakGlassAccess>("BreakGlassAccess", BreakGlassAccessSchema);
@@ -0,0 +1,124 @@
+/**
+ * Mongoose Model for Sign-In Sessions
+ * One document per signed-in device. Access tokens carry the session id and
+ * are refused once the session is revoked; the refresh token is rotated on
+ * every use and stored only as a hash.
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+export const SESSION_REVOCATION_REASONS = [
+  "logout",
+  "user_revoked",
+  "password_changed",
+  "password_reset",
+  "deactivated",
+  "refresh_token_reuse",
+] as const;
+
+export type SessionRevocationReason =
+  (typeof SESSION_REVOCATION_REASONS)[number];
+
+// Session Interface
+export interface ISession extends Document {
+  user_id: mongoose.Types.ObjectId;
+  auth_method: "password" | "wallet";
+  // SHA-256 of the current refresh token
+  refresh_token_hash: string;
+  // The token it replaced, kept to tell a concurrent refresh from a replay
+  previous_refresh_token_hash?: string;
+  rotated_at?: Date;
+  // Persistent cookie and longer lifetime when the user chose "remember me"
+  remember_me: boolean;
+  ip_address?: string;
+  user_agent?: string;
+  last_used_at: Date;
+  // Last second-factor re-authentication on this device, for step-up checks
+  step_up_at?: Date;
+  expires_at: Date;
+  revoked_at?: Date;
+  revoked_reason?: SessionRevocationReason;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Session Schema
+const SessionSchema = new Schema<ISession>(
+  {
+    user_id: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    auth_method: {
+      type: String,
+      enum: ["password", "wallet"],
+      required: true,
+    },
+    refresh_token_hash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    previous_refresh_token_hash: {
+      type: String,
+      required: false,
+      select: false,
+    },
+    rotated_at: {
+      type: Date,
+      required: false,
+    },
+    remember_me: {
+      type: Boolean,
+      default: false,
+    },
+    ip_address: {
+      type: String,
+      required: false,
+    },
+    user_agent: {
+      type: String,
+      required: false,
+      maxlength: 512,
+    },
+    last_used_at: {
+      type: Date,
+      default: Date.now,
+    },
+    step_up_at: {
+      type: Date,
+      required: false,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+    revoked_at: {
+      type: Date,
+      required: false,
+    },
+    revoked_reason: {
+      type: String,
+      enum: SESSION_REVOCATION_REASONS,
+      required: false,
+    },
+  },
+  {
+    timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+  }
+);
+
+// Indexes
+SessionSchema.index({ refresh_token_hash: 1 }, { unique: true });
+SessionSchema.index({ previous_refresh_token_hash: 1 }, { sparse: true });
+SessionSchema.index({ user_id: 1, revoked_at: 1, expires_at: -1 });
+// Drop sessions a month after they lapse
+SessionSchema.index(
+  { expires_at: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 }
+);
+
+// Export model
+export const SessionModel =
+  mongoose.models.Session || mongoose.model<ISession>("Session", SessionSchema);
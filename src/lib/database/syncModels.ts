@@ -0,0 +1,194 @@
+/**
+ * Mongoose Models for Blockchain Event Sync
+ * Persists the event listener cursor, the logs already applied to MongoDB
+ * and the recent block hashes used to detect chain reorganizations
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+// Sync Cursor Interface
+export interface ISyncCursor extends Document {
+  contract: string;
+  contract_address: string;
+  last_processed_block: number;
+  updated_at: Date;
+}
+
+// Sync Cursor Schema
+const SyncCursorSchema = new Schema<ISyncCursor>(
+  {
+    // Logical contract name, e.g. "prescription" or "drug_inventory"
+    contract: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    contract_address: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    last_processed_block: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  {
+    timestamps: {
+      createdAt: false,
+      updatedAt: "updated_at",
+    },
+  }
+);
+
+// Processed Event Log Interface
+export interface IProcessedEventLog extends Document {
+  tx_hash: string;
+  log_index: number;
+  block_number: number;
+  block_hash?: string;
+  contract: string;
+  event_name: string;
+  processed_at: Date;
+}
+
+// Processed Event Log Schema
+const ProcessedEventLogSchema = new Schema<IProcessedEventLog>(
+  {
+    tx_hash: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    log_index: {
+      type: Number,
+      required: true,
+    },
+    block_number: {
+      type: Number,
+      required: true,
+    },
+    block_hash: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    contract: {
+      type: String,
+      required: true,
+    },
+    event_name: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: {
+      createdAt: "processed_at",
+      updatedAt: false,
+    },
+  }
+);
+
+// Block Hash Interface
+export interface IBlockHash extends Document {
+  block_number: number;
+  block_hash: string;
+  parent_hash: string;
+  recorded_at: Date;
+}
+
+// Block Hash Schema
+const BlockHashSchema = new Schema<IBlockHash>(
+  {
+    block_number: {
+      type: Number,
+      required: true,
+      unique: true,
+    },
+    block_hash: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    parent_hash: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+  },
+  {
+    timestamps: {
+      createdAt: "recorded_at",
+      updatedAt: false,
+    },
+  }
+);
+
+// Reorg Event Interface
+export interface IReorgEvent extends Document {
+  fork_block: number;
+  depth: number;
+  replaced_hash: string;
+  new_hash?: string;
+  detected_at: Date;
+}
+
+// Reorg Event Schema
+const ReorgEventSchema = new Schema<IReorgEvent>(
+  {
+    // First block that was replaced
+    fork_block: {
+      type: Number,
+      required: true,
+    },
+    depth: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    // Hash we had processed for the highest tracked block
+    replaced_hash: {
+      type: String,
+      required: true,
+    },
+    new_hash: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: {
+      createdAt: "detected_at",
+      updatedAt: false,
+    },
+  }
+);
+
+// Indexes
+ProcessedEventLogSchema.index({ tx_hash: 1, log_index: 1 }, { unique: true });
+ProcessedEventLogSchema.index({ contract: 1, block_number: -1 });
+ProcessedEventLogSchema.index({ block_number: 1 });
+
+ReorgEventSchema.index({ detected_at: -1 });
+
+// Export models
+export const SyncCursor =
+  mongoose.models.SyncCursor ||
+  mongoose.model<ISyncCursor>("SyncCursor", SyncCursorSchema);
+
+export const ProcessedEventLog =
+  mongoose.models.ProcessedEventLog ||
+  mongoose.model<IProcessedEventLog>(
+    "ProcessedEventLog",
+    ProcessedEventLogSchema
+  );
+
+export const BlockHash =
+  mongoose.models.BlockHash ||
+  mongoose.model<IBlockHash>("BlockHash", BlockHashSchema);
+
+export const ReorgEvent =
+  mongoose.models.ReorgEvent ||
+  mongoose.model<IReorgEvent>("ReorgEvent", ReorgEventSchema);
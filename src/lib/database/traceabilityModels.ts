@@ -19,6 +19,7 @@ export interface IDrugBatch extends Document {
   metadata_hash?: string;
   onchain_batch_id?: number;
   onchain_tx_hash?: string;
+  onchain_block_number?: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -39,8 +40,11 @@ export interface IMovementRecord extends Document {
   transaction_hash?: string;
   notes?: string;
   prescription_id?: mongoose.Types.ObjectId;
+  recall_id?: mongoose.Types.ObjectId;
+  pharmacy_id?: mongoose.Types.ObjectId;
   onchain_movement_id?: number;
   onchain_tx_hash?: string;
+  onchain_block_number?: number;
   created_at: Date;
 }
 
@@ -56,6 +60,7 @@ export interface IDispensingRecord extends Document {
   verified_at?: Date;
   onchain_dispensing_id?: number;
   onchain_tx_hash?: string;
+  onchain_block_number?: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -67,13 +72,46 @@ export interface ITraceabilityAudit extends Document {
     | "batch_created"
     | "movement_recorded"
     | "dispensing_recorded"
-    | "verification_performed";
-  performed_by: mongoose.Types.ObjectId;
+    | "verification_performed"
+    | "chain_reorg"
+    | "recall_opened"
+    | "recall_closed";
+  performed_by?: mongoose.Types.ObjectId;
   blockchain_tx_hash?: string;
   timestamp: Date;
   details?: any;
 }
 
+// Recall Interface
+export interface IRecall extends Document {
+  batch_id: mongoose.Types.ObjectId;
+  batch_number: string;
+  drug_name: string;
+  reason: string;
+  classification: RecallClassification;
+  status: "open" | "closed";
+  opened_by: mongoose.Types.ObjectId;
+  frozen_quantity: number;
+  patients_notified: number;
+  onchain_tx_hash?: string;
+  onchain_error?: string;
+  closed_by?: mongoose.Types.ObjectId;
+  closed_at?: Date;
+  closing_notes?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Class I: use can cause serious harm or death; class II: temporary or
+// reversible harm; class III: unlikely to cause harm
+export const RECALL_CLASSIFICATIONS = [
+  "class_i",
+  "class_ii",
+  "class_iii",
+] as const;
+
+export type RecallClassification = (typeof RECALL_CLASSIFICATIONS)[number];
+
 // Drug Batch Schema
 const DrugBatchSchema = new Schema<IDrugBatch>(
   {
@@ -132,6 +170,11 @@ const DrugBatchSchema = new Schema<IDrugBatch>(
       type: String,
       required: false,
     },
+    // Used to roll the record back if its block is reorganized away
+    onchain_block_number: {
+      type: Number,
+      required: false,
+    },
   },
   {
     timestamps: {
@@ -190,6 +233,17 @@ const MovementRecordSchema = new Schema<IMovementRecord>(
       ref: "Prescription",
       required: false,
     },
+    // Set on returns and destruction of recalled stock
+    recall_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Recall",
+      required: false,
+    },
+    pharmacy_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Pharmacy",
+      required: false,
+    },
     onchain_movement_id: {
       type: Number,
       required: false,
@@ -198,6 +252,11 @@ const MovementRecordSchema = new Schema<IMovementRecord>(
       type: String,
       required: false,
     },
+    // Used to roll the record back if its block is reorganized away
+    onchain_block_number: {
+      type: Number,
+      required: false,
+    },
   },
   {
     timestamps: {
@@ -254,6 +313,11 @@ const DispensingRecordSchema = new Schema<IDispensingRecord>(
       type: String,
       required: false,
     },
+    // Used to roll the record back if its block is reorganized away
+    onchain_block_number: {
+      type: Number,
+      required: false,
+    },
   },
   {
     timestamps: {
@@ -278,13 +342,19 @@ const TraceabilityAuditSchema = new Schema<ITraceabilityAudit>(
         "movement_recorded",
         "dispensing_recorded",
         "verification_performed",
+        "chain_reorg",
+        "recall_opened",
+        "recall_closed",
       ],
       required: true,
     },
+    // Reorg rollbacks are performed by the sync service, not a user
     performed_by: {
       type: Schema.Types.ObjectId,
       ref: "User",
-      required: true,
+      required: function (this: ITraceabilityAudit) {
+        return this.action !== "chain_reorg";
+      },
     },
     blockchain_tx_hash: {
       type: String,
@@ -304,25 +374,118 @@ const TraceabilityAuditSchema = new Schema<ITraceabilityAudit>(
   }
 );
 
+// Recall Schema: one open recall per batch freezes its stock everywhere
+// until every unit is returned or destroyed and the recall is closed
+const RecallSchema = new Schema<IRecall>(
+  {
+    batch_id: {
+      type: Schema.Types.ObjectId,
+      ref: "DrugBatch",
+      required: true,
+    },
+    batch_number: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    drug_name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 2000,
+    },
+    classification: {
+      type: String,
+      enum: RECALL_CLASSIFICATIONS,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["open", "closed"],
+      default: "open",
+    },
+    opened_by: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    // Pharmacy stock frozen when the recall was opened
+    frozen_quantity: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    patients_notified: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // On-chain batch deactivation, or why it could not be made
+    onchain_tx_hash: {
+      type: String,
+      required: false,
+    },
+    onchain_error: {
+      type: String,
+      required: false,
+    },
+    closed_by: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: false,
+    },
+    closed_at: {
+      type: Date,
+      required: false,
+    },
+    closing_notes: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+    },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    },
+  }
+);
+
 // Indexes
-DrugBatchSchema.index({ batch_number: 1 });
 DrugBatchSchema.index({ drug_id: 1 });
 DrugBatchSchema.index({ manufacturer_address: 1 });
 DrugBatchSchema.index({ expiry_date: 1 });
+DrugBatchSchema.index({ onchain_block_number: 1 });
 
 MovementRecordSchema.index({ batch_id: 1 });
 MovementRecordSchema.index({ movement_type: 1 });
 MovementRecordSchema.index({ timestamp: 1 });
+MovementRecordSchema.index({ onchain_block_number: 1 });
 
-DispensingRecordSchema.index({ verification_hash: 1 });
 DispensingRecordSchema.index({ patient_address: 1 });
 DispensingRecordSchema.index({ batch_id: 1 });
 DispensingRecordSchema.index({ prescription_id: 1 });
+DispensingRecordSchema.index({ onchain_block_number: 1 });
 
 TraceabilityAuditSchema.index({ batch_id: 1 });
 TraceabilityAuditSchema.index({ action: 1 });
 TraceabilityAuditSchema.index({ timestamp: 1 });
 
+MovementRecordSchema.index({ recall_id: 1 });
+
+RecallSchema.index({ status: 1, created_at: -1 });
+RecallSchema.index({ batch_number: 1 });
+RecallSchema.index(
+  { batch_id: 1 },
+  { unique: true, partialFilterExpression: { status: "open" } }
+);
+
 // Export models
 export const DrugBatch =
   mongoose.models.DrugBatch ||
@@ -343,6 +506,9 @@ export const TraceabilityAudit =
     TraceabilityAuditSchema
   );
 
+export const Recall =
+  mongoose.models.Recall || mongoose.model<IRecall>("Recall", RecallSchema);
+
 // Helper function to get models (prevents module caching issues)
 export const getTraceabilityModels = () => ({
   DrugBatch:
@@ -363,4 +529,6 @@ export const getTraceabilityModels = () => ({
       "TraceabilityAudit",
       TraceabilityAuditSchema
     ),
+  Recall:
+    mongoose.models.Recall || mongoose.model<IRecall>("Recall", RecallSchema),
 });
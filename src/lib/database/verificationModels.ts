@@ -0,0 +1,82 @@
+/**
+ * Mongoose Models for Professional License Verification
+ * Append-only log of license submissions and admin decisions on doctor and
+ * pharmacist registrations
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+export type VerificationRole = "doctor" | "pharmacist";
+
+export type VerificationAction =
+  | "document_uploaded"
+  | "approved"
+  | "rejected"
+  | "role_granted"
+  | "role_grant_failed";
+
+// Verification Audit Interface
+export interface IVerificationAudit extends Document {
+  subject_user_id: mongoose.Types.ObjectId;
+  role: VerificationRole;
+  action: VerificationAction;
+  // Missing for system-recorded entries such as on-chain role grants
+  performed_by?: mongoose.Types.ObjectId;
+  reason?: string;
+  details?: Record<string, any>;
+  timestamp: Date;
+}
+
+// Verification Audit Schema
+const VerificationAuditSchema = new Schema<IVerificationAudit>({
+  subject_user_id: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  role: {
+    type: String,
+    required: true,
+    enum: ["doctor", "pharmacist"],
+  },
+  action: {
+    type: String,
+    required: true,
+    enum: [
+      "document_uploaded",
+      "approved",
+      "rejected",
+      "role_granted",
+      "role_grant_failed",
+    ],
+  },
+  performed_by: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: false,
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: 1000,
+  },
+  details: {
+    type: Schema.Types.Mixed,
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Indexes
+VerificationAuditSchema.index({ subject_user_id: 1, timestamp: -1 });
+VerificationAuditSchema.index({ action: 1, timestamp: -1 });
+
+// Export model
+export const VerificationAuditModel =
+  mongoose.models.VerificationAudit ||
+  mongoose.model<IVerificationAudit>(
+    "VerificationAudit",
+    VerificationAuditSchema
+  );
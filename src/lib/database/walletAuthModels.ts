@@ -0,0 +1,50 @@
+/**
+ * Mongoose Models for Wallet Authentication
+ * Single-use nonces for Sign-In With Ethereum (EIP-4361) challenges
+ */
+
+import mongoose, { Schema, Document } from "mongoose";
+
+// Wallet Nonce Interface
+export interface IWalletNonce extends Document {
+  nonce: string;
+  wallet_address: string;
+  expires_at: Date;
+  created_at: Date;
+}
+
+// Wallet Nonce Schema
+const WalletNonceSchema = new Schema<IWalletNonce>(
+  {
+    nonce: {
+      type: String,
+      required: true,
+    },
+    wallet_address: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: false,
+    },
+  }
+);
+
+// Indexes
+WalletNonceSchema.index({ nonce: 1 }, { unique: true });
+// MongoDB removes nonces once they expire
+WalletNonceSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+// Export model
+export const WalletNonce =
+  mongoose.models.WalletNonce ||
+  mongoose.model<IWalletNonce>("WalletNonce", WalletNonceSchema);
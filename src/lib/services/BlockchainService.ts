@@ -1,9 +1,12 @@
 // Blockchain service for drug inventory traceability
 // Records all inventory transactions with cryptographic hash verification
+// The chain is persisted through a LedgerStore so hashes survive restarts
 
 import crypto from "crypto";
+import { LedgerStore, MongoLedgerStore } from "./LedgerStore";
 
 export interface BlockchainTransaction {
+  sequence: number;
   transactionId: string;
   timestamp: number;
   drugId: string;
@@ -33,27 +36,95 @@ export interface BlockchainVerificationResult {
   invalidTransactions?: string[];
 }
 
+type NewTransaction = Omit<
+  BlockchainTransaction,
+  "sequence" | "previousHash" | "hash" | "timestamp"
+>;
+
+// Appends retry when another instance extends the same tip first
+const MAX_APPEND_ATTEMPTS = 5;
+
+// Raised on an append to a ledger that failed its integrity check on load.
+// Extending it would bury the break under valid links, so appends stay
+// refused until the ledger is repaired and the process restarted.
+export class LedgerIntegrityError extends Error {
+  constructor(public verification: BlockchainVerificationResult) {
+    super("Blockchain ledger failed its integrity check; appends are refused");
+    Object.setPrototypeOf(this, LedgerIntegrityError.prototype);
+  }
+}
+
 class BlockchainService {
-  private chain: BlockchainTransaction[] = [];
+  private store: LedgerStore;
+  private ready: Promise<BlockchainVerificationResult> | null = null;
   private static instance: BlockchainService;
 
-  private constructor() {
-    // Initialize with genesis block
-    this.createGenesisBlock();
+  private constructor(store: LedgerStore) {
+    this.store = store;
   }
 
   public static getInstance(): BlockchainService {
     if (!BlockchainService.instance) {
-      BlockchainService.instance = new BlockchainService();
+      BlockchainService.instance = new BlockchainService(
+        new MongoLedgerStore()
+      );
     }
     return BlockchainService.instance;
   }
 
+  /**
+   * Swap the ledger backend (used by tests and offline tooling)
+   */
+  public useStore(store: LedgerStore): void {
+    this.store = store;
+    this.ready = null;
+  }
+
+  /**
+   * Load the persisted chain, creating the genesis block on first boot,
+   * and re-verify its integrity. Runs once per process, at boot from
+   * instrumentation.ts; the result is the ledger's integrity status.
+   */
+  public initialize(): Promise<BlockchainVerificationResult> {
+    if (!this.ready) {
+      this.ready = this.loadChain().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async loadChain(): Promise<BlockchainVerificationResult> {
+    const latest = await this.store.getLatest();
+    if (!latest) {
+      // Another instance may win the race; its genesis is equally valid
+      await this.store.append(this.createGenesisBlock());
+    }
+
+    const verification = await this.verifyChain();
+    const size = await this.store.count();
+
+    if (verification.isValid) {
+      console.log(`✅ Blockchain: Loaded ledger with ${size} entries`);
+    } else {
+      console.error(
+        `❌ Blockchain: Ledger integrity check failed on load (${size} entries)`
+      );
+      verification.invalidTransactions?.forEach((issue) =>
+        console.error(`   ${issue}`)
+      );
+    }
+
+    return verification;
+  }
+
   /**
    * Create the genesis (first) block in the chain
    */
-  private createGenesisBlock(): void {
+  private createGenesisBlock(): BlockchainTransaction {
     const genesisBlock: BlockchainTransaction = {
+      sequence: 0,
       transactionId: "genesis",
       timestamp: Date.now(),
       drugId: "0",
@@ -66,21 +137,10 @@ class BlockchainService {
       performedByRole: "system",
       notes: "Genesis block - Start of inventory blockchain",
       previousHash: "0",
-      hash: this.calculateHash({
-        transactionId: "genesis",
-        timestamp: Date.now(),
-        drugId: "0",
-        drugName: "Genesis Block",
-        transactionType: "stock_in",
-        quantity: 0,
-        previousQuantity: 0,
-        newQuantity: 0,
-        performedBy: "system",
-        performedByRole: "system",
-        previousHash: "0",
-      }),
+      hash: "",
     };
-    this.chain.push(genesisBlock);
+    genesisBlock.hash = this.calculateHash(genesisBlock);
+    return genesisBlock;
   }
 
   /**
@@ -88,6 +148,7 @@ class BlockchainService {
    */
   private calculateHash(transaction: Partial<BlockchainTransaction>): string {
     const data = JSON.stringify({
+      sequence: transaction.sequence,
       transactionId: transaction.transactionId,
       timestamp: transaction.timestamp,
       drugId: transaction.drugId,
@@ -107,49 +168,53 @@ class BlockchainService {
     return crypto.createHash("sha256").update(data).digest("hex");
   }
 
-  /**
-   * Get the latest transaction in the chain
-   */
-  private getLatestTransaction(): BlockchainTransaction {
-    return this.chain[this.chain.length - 1];
-  }
-
   /**
    * Add a new transaction to the blockchain
    */
-  public addTransaction(
-    transactionData: Omit<
-      BlockchainTransaction,
-      "previousHash" | "hash" | "timestamp"
-    >
-  ): BlockchainTransaction {
-    const previousTransaction = this.getLatestTransaction();
-    const timestamp = Date.now();
-
-    const newTransaction: BlockchainTransaction = {
-      ...transactionData,
-      timestamp,
-      previousHash: previousTransaction.hash,
-      hash: "",
-    };
+  public async addTransaction(
+    transactionData: NewTransaction
+  ): Promise<BlockchainTransaction> {
+    const integrity = await this.initialize();
+    if (!integrity.isValid) {
+      throw new LedgerIntegrityError(integrity);
+    }
 
-    // Calculate hash for the new transaction
-    newTransaction.hash = this.calculateHash(newTransaction);
+    for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+      const previousTransaction = await this.store.getLatest();
+      if (!previousTransaction) {
+        throw new Error("Blockchain ledger has no genesis block");
+      }
+
+      const newTransaction: BlockchainTransaction = {
+        ...transactionData,
+        sequence: previousTransaction.sequence + 1,
+        timestamp: Date.now(),
+        previousHash: previousTransaction.hash,
+        hash: "",
+      };
 
-    // Add to chain
-    this.chain.push(newTransaction);
+      // Calculate hash for the new transaction
+      newTransaction.hash = this.calculateHash(newTransaction);
 
-    console.log(
-      `✅ Blockchain: Added transaction ${newTransaction.transactionId}`
-    );
-    console.log(
-      `   Drug: ${newTransaction.drugName} (${newTransaction.drugId})`
-    );
-    console.log(`   Type: ${newTransaction.transactionType}`);
-    console.log(`   Quantity: ${newTransaction.quantity}`);
-    console.log(`   Hash: ${newTransaction.hash.substring(0, 16)}...`);
+      // Persist; a false result means another writer extended the tip first
+      if (await this.store.append(newTransaction)) {
+        console.log(
+          `✅ Blockchain: Added transaction ${newTransaction.transactionId}`
+        );
+        console.log(
+          `   Drug: ${newTransaction.drugName} (${newTransaction.drugId})`
+        );
+        console.log(`   Type: ${newTransaction.transactionType}`);
+        console.log(`   Quantity: ${newTransaction.quantity}`);
+        console.log(`   Hash: ${newTransaction.hash.substring(0, 16)}...`);
 
-    return newTransaction;
+        return newTransaction;
+      }
+    }
+
+    throw new Error(
+      `Blockchain: Could not append transaction after ${MAX_APPEND_ATTEMPTS} attempts`
+    );
   }
 
   /**
@@ -164,7 +229,7 @@ class BlockchainService {
     performedByRole: string,
     batchNumber?: string,
     notes?: string
-  ): BlockchainTransaction {
+  ): Promise<BlockchainTransaction> {
     return this.addTransaction({
       transactionId: `STOCK_${Date.now()}_${Math.random()
         .toString(36)
@@ -193,7 +258,7 @@ class BlockchainService {
     performedBy: string,
     patientName: string,
     notes?: string
-  ): BlockchainTransaction {
+  ): Promise<BlockchainTransaction> {
     return this.addTransaction({
       transactionId: `PRESC_${Date.now()}_${Math.random()
         .toString(36)
@@ -225,7 +290,7 @@ class BlockchainService {
     performedByRole: string,
     prescriptionId: string,
     notes?: string
-  ): BlockchainTransaction {
+  ): Promise<BlockchainTransaction> {
     return this.addTransaction({
       transactionId: `DISP_${Date.now()}_${Math.random()
         .toString(36)
@@ -255,7 +320,7 @@ class BlockchainService {
     performedByRole: string,
     batchNumber?: string,
     notes?: string
-  ): BlockchainTransaction {
+  ): Promise<BlockchainTransaction> {
     return this.addTransaction({
       transactionId: `EXP_${Date.now()}_${Math.random()
         .toString(36)
@@ -284,7 +349,7 @@ class BlockchainService {
     performedBy: string,
     performedByRole: string,
     notes?: string
-  ): BlockchainTransaction {
+  ): Promise<BlockchainTransaction> {
     return this.addTransaction({
       transactionId: `DMG_${Date.now()}_${Math.random()
         .toString(36)
@@ -313,7 +378,7 @@ class BlockchainService {
     performedBy: string,
     performedByRole: string,
     notes?: string
-  ): BlockchainTransaction {
+  ): Promise<BlockchainTransaction> {
     return this.addTransaction({
       transactionId: `ADJ_${Date.now()}_${Math.random()
         .toString(36)
@@ -333,12 +398,26 @@ class BlockchainService {
   /**
    * Verify the integrity of the blockchain
    */
-  public verifyChain(): BlockchainVerificationResult {
+  public async verifyChain(): Promise<BlockchainVerificationResult> {
+    const chain = await this.store.find();
     const invalidTransactions: string[] = [];
 
-    for (let i = 1; i < this.chain.length; i++) {
-      const currentTransaction = this.chain[i];
-      const previousTransaction = this.chain[i - 1];
+    if (chain.length > 0 && chain[0].previousHash !== "0") {
+      invalidTransactions.push(
+        `Transaction ${chain[0].transactionId}: Missing genesis block`
+      );
+    }
+
+    for (let i = 1; i < chain.length; i++) {
+      const currentTransaction = chain[i];
+      const previousTransaction = chain[i - 1];
+
+      // Verify no entries were removed from the middle of the chain
+      if (currentTransaction.sequence !== previousTransaction.sequence + 1) {
+        invalidTransactions.push(
+          `Transaction ${currentTransaction.transactionId}: Sequence gap after ${previousTransaction.sequence}`
+        );
+      }
 
       // Verify hash
       const recalculatedHash = this.calculateHash(currentTransaction);
@@ -373,44 +452,47 @@ class BlockchainService {
   /**
    * Get transaction history for a specific drug
    */
-  public getDrugHistory(drugId: string): BlockchainTransaction[] {
-    return this.chain.filter(
-      (transaction) =>
-        transaction.drugId === drugId && transaction.drugId !== "0"
-    );
+  public async getDrugHistory(
+    drugId: string
+  ): Promise<BlockchainTransaction[]> {
+    await this.initialize();
+    return this.store.find({ drugId, excludeGenesis: true });
   }
 
   /**
    * Get all transactions
    */
-  public getAllTransactions(): BlockchainTransaction[] {
-    return this.chain.filter((transaction) => transaction.drugId !== "0");
+  public async getAllTransactions(): Promise<BlockchainTransaction[]> {
+    await this.initialize();
+    return this.store.find({ excludeGenesis: true });
   }
 
   /**
    * Get recent transactions (last N)
    */
-  public getRecentTransactions(limit: number = 10): BlockchainTransaction[] {
-    const transactions = this.getAllTransactions();
-    return transactions.slice(-limit).reverse();
+  public async getRecentTransactions(
+    limit: number = 10
+  ): Promise<BlockchainTransaction[]> {
+    await this.initialize();
+    return this.store.findRecent(limit, { excludeGenesis: true });
   }
 
   /**
    * Get transaction by ID
    */
-  public getTransactionById(
+  public async getTransactionById(
     transactionId: string
-  ): BlockchainTransaction | undefined {
-    return this.chain.find(
-      (transaction) => transaction.transactionId === transactionId
-    );
+  ): Promise<BlockchainTransaction | undefined> {
+    await this.initialize();
+    const [transaction] = await this.store.find({ transactionId });
+    return transaction;
   }
 
   /**
    * Get blockchain statistics
    */
-  public getStatistics() {
-    const transactions = this.getAllTransactions();
+  public async getStatistics() {
+    const transactions = await this.getAllTransactions();
 
     return {
       totalTransactions: transactions.length,
@@ -427,22 +509,24 @@ class BlockchainService {
         (t) => t.transactionType === "adjustment"
       ).length,
       totalDrugsTracked: new Set(transactions.map((t) => t.drugId)).size,
-      chainIntegrity: this.verifyChain(),
+      chainIntegrity: await this.verifyChain(),
     };
   }
 
   /**
    * Export blockchain data
    */
-  public exportChain(): BlockchainTransaction[] {
-    return [...this.chain];
+  public async exportChain(): Promise<BlockchainTransaction[]> {
+    await this.initialize();
+    return this.store.find();
   }
 
   /**
    * Get blockchain size
    */
-  public getChainSize(): number {
-    return this.chain.length;
+  public async getChainSize(): Promise<number> {
+    await this.initialize();
+    return this.store.count();
   }
 }
 
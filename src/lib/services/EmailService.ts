@@ -0,0 +1,138 @@
+/**
+ * EmailService
+ * Sends templated email through a configurable transport:
+ * - smtp: any SMTP server, including a local sink such as Mailpit
+ * - file: writes each message as an .eml file, for development and tests
+ *
+ * MAIL_TRANSPORT selects the transport. It defaults to smtp when SMTP_HOST
+ * is set and to file otherwise, except in production where an SMTP server
+ * is required.
+ */
+
+import nodemailer, { Transporter } from "nodemailer";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  renderEmail,
+  EmailTemplates,
+  EmailTemplateName,
+} from "../utils/email-templates";
+
+export type MailTransportKind = "smtp" | "file";
+
+export interface SentEmail {
+  messageId: string;
+  // Where the file transport wrote the message
+  path?: string;
+}
+
+const DEFAULT_FROM = "PharmChain <no-reply@pharmchain.local>";
+
+// Placeholder addresses given to wallet-only accounts; never mailed
+export const WALLET_EMAIL_DOMAIN = "@wallet.local";
+
+export class EmailService {
+  private static instance: EmailService;
+  private transporter: Transporter | null = null;
+  private kind: MailTransportKind | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): EmailService {
+    if (!EmailService.instance) {
+      EmailService.instance = new EmailService();
+    }
+    return EmailService.instance;
+  }
+
+  /**
+   * Transport chosen from the environment
+   */
+  getTransportKind(): MailTransportKind {
+    const configured = process.env.MAIL_TRANSPORT?.trim().toLowerCase();
+    if (configured === "smtp" || configured === "file") {
+      if (configured === "file" && process.env.NODE_ENV === "production") {
+        throw new Error("The file mail transport is refused in production");
+      }
+      return configured;
+    }
+    if (configured) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${configured}"`);
+    }
+    if (process.env.SMTP_HOST) return "smtp";
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SMTP_HOST must be set to send email in production");
+    }
+    return "file";
+  }
+
+  /**
+   * Directory the file transport writes to
+   */
+  getSinkDir(): string {
+    return process.env.MAIL_SINK_DIR || join(process.cwd(), "mail-sink");
+  }
+
+  /**
+   * Render a template and send it to one recipient
+   */
+  async send<K extends EmailTemplateName>(
+    to: string,
+    template: K,
+    data: EmailTemplates[K]
+  ): Promise<SentEmail> {
+    const { subject, text, html } = renderEmail(template, data);
+    const transporter = this.getTransporter();
+
+    const info = await transporter.sendMail({
+      from: process.env.MAIL_FROM || DEFAULT_FROM,
+      to,
+      subject,
+      text,
+      html,
+      headers: { "X-PharmChain-Template": template },
+    });
+
+    if (this.kind === "file") {
+      const dir = this.getSinkDir();
+      await mkdir(dir, { recursive: true });
+      const path = join(
+        dir,
+        `${Date.now()}-${template}-${to.replace(/[^a-zA-Z0-9.@_-]/g, "_")}.eml`
+      );
+      await writeFile(path, info.message as Buffer);
+      console.log(`📧 ${template} email for ${to} written to ${path}`);
+      return { messageId: info.messageId, path };
+    }
+
+    console.log(`📧 ${template} email sent to ${to}`);
+    return { messageId: info.messageId };
+  }
+
+  private getTransporter(): Transporter {
+    if (this.transporter) return this.transporter;
+
+    this.kind = this.getTransportKind();
+    if (this.kind === "file") {
+      this.transporter = nodemailer.createTransport({
+        streamTransport: true,
+        buffer: true,
+        newline: "unix",
+      });
+    } else {
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST || "localhost",
+        port: parseInt(process.env.SMTP_PORT || "587"),
+        secure: process.env.SMTP_SECURE === "true",
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined,
+      });
+    }
+    return this.transporter;
+  }
+}
+
+// Export singleton instance
+export const emailService = EmailService.getInstance();
+export default EmailService;
@@ -0,0 +1,150 @@
+// Storage backends for the BlockchainService hash chain
+// MongoDB keeps the ledger durable and shared between server instances;
+// the in-memory store is used by unit tests and local scripts
+
+import { connectToDatabase } from "../database/connection";
+import { LedgerEntry } from "../database/ledgerModels";
+import type { BlockchainTransaction } from "./BlockchainService";
+
+export interface LedgerQuery {
+  drugId?: string;
+  transactionId?: string;
+  excludeGenesis?: boolean;
+}
+
+export interface LedgerStore {
+  /** Highest-sequence entry, or null when the ledger is empty */
+  getLatest(): Promise<BlockchainTransaction | null>;
+  /**
+   * Append an entry. Resolves false when its sequence or parent hash has
+   * already been claimed by a concurrent writer.
+   */
+  append(entry: BlockchainTransaction): Promise<boolean>;
+  /** Entries in ascending sequence order */
+  find(query?: LedgerQuery): Promise<BlockchainTransaction[]>;
+  /** Most recent entries, newest first */
+  findRecent(
+    limit: number,
+    query?: LedgerQuery
+  ): Promise<BlockchainTransaction[]>;
+  count(query?: LedgerQuery): Promise<number>;
+}
+
+const MONGO_DUPLICATE_KEY = 11000;
+
+const toFilter = (query: LedgerQuery = {}) => {
+  const filter: any = {};
+  if (query.drugId) {
+    filter.drugId = query.drugId;
+  }
+  if (query.transactionId) {
+    filter.transactionId = query.transactionId;
+  }
+  if (query.excludeGenesis) {
+    filter.sequence = { $gt: 0 };
+  }
+  return filter;
+};
+
+const toTransaction = (doc: any): BlockchainTransaction => {
+  const { _id, ...entry } = doc;
+  return entry as BlockchainTransaction;
+};
+
+/**
+ * MongoDB-backed ledger store
+ */
+export class MongoLedgerStore implements LedgerStore {
+  async getLatest(): Promise<BlockchainTransaction | null> {
+    await connectToDatabase();
+    const doc = await LedgerEntry.findOne().sort({ sequence: -1 }).lean();
+    return doc ? toTransaction(doc) : null;
+  }
+
+  async append(entry: BlockchainTransaction): Promise<boolean> {
+    await connectToDatabase();
+    try {
+      await LedgerEntry.create(entry);
+      return true;
+    } catch (error: any) {
+      if (error?.code === MONGO_DUPLICATE_KEY) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async find(query?: LedgerQuery): Promise<BlockchainTransaction[]> {
+    await connectToDatabase();
+    const docs = await LedgerEntry.find(toFilter(query))
+      .sort({ sequence: 1 })
+      .lean();
+    return docs.map(toTransaction);
+  }
+
+  async findRecent(
+    limit: number,
+    query?: LedgerQuery
+  ): Promise<BlockchainTransaction[]> {
+    await connectToDatabase();
+    const docs = await LedgerEntry.find(toFilter(query))
+      .sort({ sequence: -1 })
+      .limit(limit)
+      .lean();
+    return docs.map(toTransaction);
+  }
+
+  async count(query?: LedgerQuery): Promise<number> {
+    await connectToDatabase();
+    return LedgerEntry.countDocuments(toFilter(query));
+  }
+}
+
+/**
+ * Process-local ledger store (tests and offline tooling only)
+ */
+export class InMemoryLedgerStore implements LedgerStore {
+  private entries: BlockchainTransaction[] = [];
+
+  private matches(entry: BlockchainTransaction, query: LedgerQuery = {}) {
+    if (query.drugId && entry.drugId !== query.drugId) return false;
+    if (query.transactionId && entry.transactionId !== query.transactionId)
+      return false;
+    if (query.excludeGenesis && entry.sequence === 0) return false;
+    return true;
+  }
+
+  async getLatest(): Promise<BlockchainTransaction | null> {
+    return this.entries[this.entries.length - 1] || null;
+  }
+
+  async append(entry: BlockchainTransaction): Promise<boolean> {
+    const conflict = this.entries.some(
+      (existing) =>
+        existing.sequence === entry.sequence ||
+        existing.previousHash === entry.previousHash
+    );
+    if (conflict) {
+      return false;
+    }
+    this.entries.push({ ...entry });
+    return true;
+  }
+
+  async find(query?: LedgerQuery): Promise<BlockchainTransaction[]> {
+    return this.entries
+      .filter((entry) => this.matches(entry, query))
+      .map((entry) => ({ ...entry }));
+  }
+
+  async findRecent(
+    limit: number,
+    query?: LedgerQuery
+  ): Promise<BlockchainTransaction[]> {
+    return (await this.find(query)).slice(-limit).reverse();
+  }
+
+  async count(query?: LedgerQuery): Promise<number> {
+    return this.entries.filter((entry) => this.matches(entry, query)).length;
+  }
+}
@@ -0,0 +1,651 @@
+/**
+ * NotificationService
+ * Writes in-app notifications for prescription, stock, expiry, recall and
+ * fraud events and serves the notification centre. Prescription and recall
+ * notifications are also emailed to verified addresses. Sending is best-effort: a failure is
+ * logged and never fails the action that triggered it.
+ */
+
+import { DatabaseManager } from "../database/connection";
+import {
+  NotificationModel,
+  NOTIFICATION_TYPES,
+  UserModel,
+  PatientModel,
+  PharmacistModel,
+  PrescriptionModel,
+  DrugModel,
+} from "../database/models";
+import { getLots } from "../utils/lots";
+import { formatDrugLabel, getPrescribedDrug } from "../utils/formulary";
+import { findUsersWithPreferenceOff } from "../utils/user-preferences";
+import { appUrl } from "../utils/email-templates";
+import { emailService, WALLET_EMAIL_DOMAIN } from "./EmailService";
+import {
+  formatPrescriptionNumber,
+  refreshHeaderStatus,
+  PRESCRIPTION_VALIDITY_DAYS,
+} from "../utils/prescription-headers";
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export type NotificationSeverity = "info" | "success" | "warning" | "critical";
+
+export interface NotificationInput {
+  type: NotificationType;
+  severity?: NotificationSeverity;
+  title: string;
+  message: string;
+  link?: string;
+  relatedEntity?: { type: string; id: string };
+  // Recipients who already have a notification with this key are skipped
+  dedupeKey?: string;
+}
+
+export interface NotificationView {
+  id: string;
+  type: NotificationType;
+  severity: NotificationSeverity;
+  title: string;
+  message: string;
+  link?: string;
+  isRead: boolean;
+  createdAt: Date;
+}
+
+export interface ScheduledCheckSummary {
+  drugsExpiring: number;
+  drugsExpired: number;
+  prescriptionsExpiring: number;
+  prescriptionsExpired: number;
+}
+
+// Stock expiring within this many days is reported to the pharmacy
+const DRUG_EXPIRY_WARNING_DAYS = 30;
+// Patients are warned this many days before an undispensed line lapses
+const PRESCRIPTION_EXPIRY_WARNING_DAYS = 7;
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const MAX_PAGE_SIZE = 50;
+
+// Preference a recipient can switch off to stop a type of notification.
+// Types not listed are always delivered.
+const PREFERENCE_FOR_TYPE: Partial<Record<NotificationType, string>> = {
+  prescription_expiring: "notifications.prescription_reminders",
+  prescription_expired: "notifications.prescription_reminders",
+  prescription_verified: "notifications.refill_alerts",
+  prescription_rejected: "notifications.refill_alerts",
+  refill_denied: "notifications.refill_alerts",
+  low_stock: "notifications.low_stock_alerts",
+  drug_expiring: "notifications.expiry_alerts",
+  drug_expired: "notifications.expiry_alerts",
+  login_alert: "security.login_alerts",
+};
+
+// Types that are emailed as well as shown in the notification centre
+const EMAILED_TYPES: NotificationType[] = [
+  "prescription_created",
+  "prescription_verified",
+  "prescription_dispensed",
+  "prescription_rejected",
+  "refill_denied",
+  "prescription_expiring",
+  "prescription_expired",
+  "prescription_ready",
+  "emergency_access",
+  "batch_recall",
+];
+
+const PATIENT_PRESCRIPTIONS_LINK = "/dashboard/patient/prescriptions";
+const PATIENT_DOCTORS_LINK = "/dashboard/patient/doctors";
+const PHARMACIST_INVENTORY_LINK = "/dashboard/pharmacist/inventory";
+const PHARMACIST_RECALLS_LINK = "/dashboard/pharmacist/recalls";
+
+export class NotificationService {
+  private static instance: NotificationService;
+
+  private constructor() {}
+
+  public static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService();
+    }
+    return NotificationService.instance;
+  }
+
+  /**
+   * Notify users. Returns how many notifications were written.
+   */
+  async notify(userIds: any[], input: NotificationInput): Promise<number> {
+    let recipients = Array.from(
+      new Set(userIds.filter(Boolean).map((id) => id.toString()))
+    );
+    if (recipients.length === 0) return 0;
+
+    try {
+      await DatabaseManager.getInstance().ensureConnection();
+
+      const preference = PREFERENCE_FOR_TYPE[input.type];
+      if (preference) {
+        const optedOut = await findUsersWithPreferenceOff(
+          recipients,
+          preference
+        );
+        recipients = recipients.filter((id) => !optedOut.has(id));
+        if (recipients.length === 0) return 0;
+      }
+
+      const docs = recipients.map((userId) => ({
+        user_id: userId,
+        type: input.type,
+        severity: input.severity || "info",
+        title: input.title,
+        message: input.message,
+        link: input.link,
+        related_entity: input.relatedEntity,
+        dedupe_key: input.dedupeKey,
+      }));
+
+      let inserted: any[];
+      try {
+        inserted = await NotificationModel.insertMany(docs, {
+          ordered: false,
+        });
+      } catch (error: any) {
+        // Duplicate dedupe keys: the rest of the batch was still written
+        if (!isDuplicateKeyError(error)) throw error;
+        inserted = error.insertedDocs ?? [];
+      }
+
+      if (EMAILED_TYPES.includes(input.type) && inserted.length > 0) {
+        await this.emailRecipients(
+          inserted.map((doc) => doc.user_id),
+          input
+        );
+      }
+      return inserted.length;
+    } catch (error) {
+      console.error(`Failed to send ${input.type} notification:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Email a notification to recipients with a verified address who have
+   * not switched off email notifications
+   */
+  private async emailRecipients(userIds: any[], input: NotificationInput) {
+    try {
+      const optedOut = await findUsersWithPreferenceOff(
+        userIds,
+        "notifications.email"
+      );
+      const users = await UserModel.find({
+        _id: { $in: userIds.filter((id) => !optedOut.has(id.toString())) },
+        email_verified: true,
+        is_active: true,
+      })
+        .select("username email")
+        .lean();
+
+      for (const user of users as any[]) {
+        if (user.email.endsWith(WALLET_EMAIL_DOMAIN)) continue;
+        await emailService
+          .send(user.email, "notification", {
+            username: user.username,
+            title: input.title,
+            message: input.message,
+            link: input.link ? appUrl(input.link) : undefined,
+          })
+          .catch((error) =>
+            console.error(`Failed to email ${input.type} notification:`, error)
+          );
+      }
+    } catch (error) {
+      console.error(`Failed to email ${input.type} notification:`, error);
+    }
+  }
+
+  /**
+   * Notify every active user with one of the roles
+   */
+  async notifyRoles(roles: string[], input: NotificationInput) {
+    try {
+      await DatabaseManager.getInstance().ensureConnection();
+      const users = await UserModel.find({
+        role: { $in: roles },
+        is_active: true,
+      })
+        .select("_id")
+        .lean();
+      return this.notify(
+        users.map((u: any) => u._id),
+        input
+      );
+    } catch (error) {
+      console.error(`Failed to send ${input.type} notification:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Notify the pharmacists working at a pharmacy
+   */
+  async notifyPharmacy(pharmacyId: any, input: NotificationInput) {
+    if (!pharmacyId) return 0;
+    try {
+      await DatabaseManager.getInstance().ensureConnection();
+      const pharmacists = await PharmacistModel.find({
+        pharmacy_id: pharmacyId,
+      })
+        .select("user_id")
+        .lean();
+      return this.notify(
+        pharmacists.map((p: any) => p.user_id),
+        input
+      );
+    } catch (error) {
+      console.error(`Failed to send ${input.type} notification:`, error);
+      return 0;
+    }
+  }
+
+  // ---------------------------------------------------------------------
+  // Prescription events
+  // ---------------------------------------------------------------------
+
+  /**
+   * Tell the patient a doctor wrote them a prescription
+   */
+  async prescriptionCreated(
+    patientUserId: any,
+    header: any,
+    doctorName: string,
+    lineCount: number
+  ) {
+    const number = formatPrescriptionNumber(header._id);
+    return this.notify([patientUserId], {
+      type: "prescription_created",
+      title: "New prescription",
+      message: `${doctorName} issued prescription ${number} with ${lineCount} medication(s).`,
+      link: PATIENT_PRESCRIPTIONS_LINK,
+      relatedEntity: { type: "prescription_header", id: header._id.toString() },
+    });
+  }
+
+  /**
+   * Tell the patient a line is ready to be dispensed again after their
+   * refill was approved
+   */
+  async prescriptionVerified(line: any) {
+    return this.notify([await this.patientUserId(line.patient_id)], {
+      type: "prescription_verified",
+      severity: "success",
+      title: "Refill approved",
+      message: `Your refill of ${this.lineLabel(line)} was approved and is ready for dispensing.`,
+      link: PATIENT_PRESCRIPTIONS_LINK,
+      relatedEntity: { type: "prescription", id: line._id.toString() },
+    });
+  }
+
+  /**
+   * Tell the patient a refill request was turned down
+   */
+  async refillDenied(line: any, reason?: string) {
+    return this.notify([await this.patientUserId(line.patient_id)], {
+      type: "refill_denied",
+      severity: "warning",
+      title: "Refill request denied",
+      message: `Your refill request for ${this.lineLabel(line)} was denied${reason ? `: ${reason}` : "."}`,
+      link: PATIENT_PRESCRIPTIONS_LINK,
+      relatedEntity: { type: "prescription", id: line._id.toString() },
+    });
+  }
+
+  /**
+   * Tell the patient medication was handed over
+   */
+  async prescriptionDispensed(
+    line: any,
+    drug: any,
+    quantity: number,
+    remainingQuantity: number
+  ) {
+    const label = formatDrugLabel(drug);
+    return this.notify([await this.patientUserId(line.patient_id)], {
+      type: "prescription_dispensed",
+      severity: "success",
+      title:
+        remainingQuantity > 0
+          ? "Prescription partly dispensed"
+          : "Prescription dispensed",
+      message:
+        remainingQuantity > 0
+          ? `${quantity} unit(s) of ${label} were dispensed; ${remainingQuantity} remain to collect.`
+          : `${quantity} unit(s) of ${label} were dispensed.`,
+      link: PATIENT_PRESCRIPTIONS_LINK,
+      relatedEntity: { type: "prescription", id: line._id.toString() },
+    });
+  }
+
+  // ---------------------------------------------------------------------
+  // Stock and fraud events
+  // ---------------------------------------------------------------------
+
+  /**
+   * Tell a pharmacy a drug fell to its minimum stock level. Reported at
+   * most once a day per drug.
+   */
+  async lowStock(drug: any) {
+    const day = new Date().toISOString().slice(0, 10);
+    return this.notifyPharmacy(drug.pharmacy_id, {
+      type: "low_stock",
+      severity: drug.stock_quantity > 0 ? "warning" : "critical",
+      title: drug.stock_quantity > 0 ? "Low stock" : "Out of stock",
+      message: `${drug.name} is down to ${drug.stock_quantity} unit(s) (minimum ${drug.minimum_stock_level}).`,
+      link: PHARMACIST_INVENTORY_LINK,
+      relatedEntity: { type: "drug", id: drug._id.toString() },
+      dedupeKey: `low_stock:${drug._id}:${day}`,
+    });
+  }
+
+  /**
+   * Tell admins and auditors about newly opened fraud cases
+   */
+  async fraudAlertsDetected(
+    alerts: {
+      id: string;
+      severity: "critical" | "medium" | "low";
+      description: string;
+    }[]
+  ) {
+    let sent = 0;
+    for (const alert of alerts) {
+      sent += await this.notifyRoles(["admin", "auditor"], {
+        type: "fraud_alert",
+        severity: alert.severity === "critical" ? "critical" : "warning",
+        title: `Fraud alert (${alert.severity})`,
+        message: alert.description,
+        relatedEntity: { type: "fraud_alert", id: alert.id },
+        dedupeKey: `fraud_alert:${alert.id}`,
+      });
+    }
+    return sent;
+  }
+
+  /**
+   * Tell a user their account was just signed in to
+   */
+  async loginAlert(userId: any, method: "password" | "wallet") {
+    return this.notify([userId], {
+      type: "login_alert",
+      title: "New sign-in",
+      message: `Your account was signed in to ${method === "wallet" ? "with your wallet" : "with your password"} on ${new Date().toLocaleString()}. If this was not you, change your password.`,
+    });
+  }
+
+  /**
+   * Tell the patient, admins and auditors that someone used break-glass
+   * access to the patient's records
+   */
+  async emergencyAccess(patientUserId: any, record: any, actorName: string) {
+    const input: NotificationInput = {
+      type: "emergency_access",
+      severity: "critical",
+      title: "Emergency access to patient records",
+      message: `${actorName} (${record.role}) used emergency access until ${record.expires_at.toLocaleString()}. Reason: ${record.justification}`,
+      relatedEntity: { type: "break_glass_access", id: record._id.toString() },
+    };
+    const sent = await this.notify([patientUserId], {
+      ...input,
+      message: `${actorName} (${record.role}) opened your records under emergency access. Reason: ${record.justification}`,
+      link: PATIENT_DOCTORS_LINK,
+    });
+    return sent + (await this.notifyRoles(["admin", "auditor"], input));
+  }
+
+  // ---------------------------------------------------------------------
+  // Recalls
+  // ---------------------------------------------------------------------
+
+  /**
+   * Tell patients who were dispensed a recalled batch to stop using it.
+   * Each patient is told once per recall.
+   */
+  async recallAffectedPatients(recall: any, patientUserIds: any[]) {
+    return this.notify(patientUserIds, {
+      type: "batch_recall",
+      severity: recall.classification === "class_iii" ? "warning" : "critical",
+      title: `Recall: ${recall.drug_name}`,
+      message: `${recall.drug_name} from batch ${recall.batch_number}, which was dispensed to you, has been recalled. Stop using it and return it to your pharmacy. Reason: ${recall.reason}`,
+      link: PATIENT_PRESCRIPTIONS_LINK,
+      relatedEntity: { type: "recall", id: recall._id.toString() },
+      dedupeKey: `batch_recall:${recall._id}`,
+    });
+  }
+
+  /**
+   * Tell a pharmacy its stock of a recalled batch is frozen until it is
+   * returned or destroyed
+   */
+  async recallStockFrozen(recall: any, pharmacyId: any, quantity: number) {
+    return this.notifyPharmacy(pharmacyId, {
+      type: "batch_recall",
+      severity: "critical",
+      title: `Recall: ${recall.drug_name}`,
+      message: `Batch ${recall.batch_number} has been recalled. ${quantity} unit(s) at your pharmacy are frozen and must be returned or destroyed. Reason: ${recall.reason}`,
+      link: PHARMACIST_RECALLS_LINK,
+      relatedEntity: { type: "recall", id: recall._id.toString() },
+      dedupeKey: `batch_recall:${recall._id}`,
+    });
+  }
+
+  // ---------------------------------------------------------------------
+  // Scheduled checks
+  // ---------------------------------------------------------------------
+
+  /**
+   * Report stock lots that are expiring or expired, warn patients about
+   * prescriptions about to lapse, and expire lines never dispensed within
+   * PRESCRIPTION_VALIDITY_DAYS. Safe to run repeatedly: each condition is
+   * reported once.
+   */
+  async runScheduledChecks(now = new Date()): Promise<ScheduledCheckSummary> {
+    await DatabaseManager.getInstance().ensureConnection();
+
+    const summary: ScheduledCheckSummary = {
+      drugsExpiring: 0,
+      drugsExpired: 0,
+      prescriptionsExpiring: 0,
+      prescriptionsExpired: 0,
+    };
+
+    // Stock lots
+    const horizon = new Date(
+      now.getTime() + DRUG_EXPIRY_WARNING_DAYS * DAY_IN_MS
+    );
+    const drugs = await DrugModel.find({
+      pharmacy_id: { $exists: true },
+      $or: [
+        { expiry_date: { $lte: horizon } },
+        { "lots.expiry_date": { $lte: horizon } },
+      ],
+    }).lean();
+
+    for (const drug of drugs as any[]) {
+      for (const lot of getLots(drug)) {
+        if (!(lot.quantity > 0) || new Date(lot.expiry_date) > horizon)
+          continue;
+
+        const expired = new Date(lot.expiry_date) < now;
+        const expiry = new Date(lot.expiry_date).toLocaleDateString();
+        const sent = await this.notifyPharmacy(drug.pharmacy_id, {
+          type: expired ? "drug_expired" : "drug_expiring",
+          severity: expired ? "critical" : "warning",
+          title: expired ? "Expired stock" : "Stock expiring soon",
+          message: expired
+            ? `${lot.quantity} unit(s) of ${drug.name} (lot ${lot.batch_number}) expired on ${expiry} and must be written off.`
+            : `${lot.quantity} unit(s) of ${drug.name} (lot ${lot.batch_number}) expire on ${expiry}.`,
+          link: PHARMACIST_INVENTORY_LINK,
+          relatedEntity: { type: "drug", id: drug._id.toString() },
+          dedupeKey: `${expired ? "drug_expired" : "drug_expiring"}:${drug._id}:${lot.batch_number}`,
+        });
+        if (sent > 0) {
+          if (expired) summary.drugsExpired++;
+          else summary.drugsExpiring++;
+        }
+      }
+    }
+
+    // Undispensed prescription lines
+    const lapseCutoff = new Date(
+      now.getTime() - PRESCRIPTION_VALIDITY_DAYS * DAY_IN_MS
+    );
+    const warningCutoff = new Date(
+      lapseCutoff.getTime() + PRESCRIPTION_EXPIRY_WARNING_DAYS * DAY_IN_MS
+    );
+    const lines = await PrescriptionModel.find({
+      status: "pending",
+      date_issued: { $lte: warningCutoff },
+    })
+      .populate("formulary_id")
+      .populate("drug_id")
+      .lean();
+
+    for (const line of lines as any[]) {
+      const expiresAt = new Date(
+        new Date(line.date_issued).getTime() +
+          PRESCRIPTION_VALIDITY_DAYS * DAY_IN_MS
+      );
+
+      if (expiresAt <= now) {
+        const lapsed = await PrescriptionModel.findOneAndUpdate(
+          { _id: line._id, status: "pending" },
+          { $set: { status: "expired" } }
+        );
+        if (!lapsed) continue;
+        await refreshHeaderStatus(line.header_id);
+
+        await this.notify([await this.patientUserId(line.patient_id)], {
+          type: "prescription_expired",
+          severity: "warning",
+          title: "Prescription expired",
+          message: `${this.lineLabel(line)} was not dispensed within ${PRESCRIPTION_VALIDITY_DAYS} days and has expired. Ask your doctor for a new prescription if you still need it.`,
+          link: PATIENT_PRESCRIPTIONS_LINK,
+          relatedEntity: { type: "prescription", id: line._id.toString() },
+          dedupeKey: `prescription_expired:${line._id}`,
+        });
+        summary.prescriptionsExpired++;
+      } else {
+        const sent = await this.notify(
+          [await this.patientUserId(line.patient_id)],
+          {
+            type: "prescription_expiring",
+            severity: "warning",
+            title: "Prescription expiring soon",
+            message: `${this.lineLabel(line)} expires on ${expiresAt.toLocaleDateString()} if it is not dispensed.`,
+            link: PATIENT_PRESCRIPTIONS_LINK,
+            relatedEntity: { type: "prescription", id: line._id.toString() },
+            dedupeKey: `prescription_expiring:${line._id}`,
+          }
+        );
+        if (sent > 0) summary.prescriptionsExpiring++;
+      }
+    }
+
+    return summary;
+  }
+
+  // ---------------------------------------------------------------------
+  // Notification centre
+  // ---------------------------------------------------------------------
+
+  /**
+   * A user's notifications, newest first. `before` pages by creation time.
+   */
+  async list(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number; before?: Date } = {}
+  ): Promise<NotificationView[]> {
+    await DatabaseManager.getInstance().ensureConnection();
+
+    const query: any = { user_id: userId };
+    if (options.unreadOnly) query.is_read = false;
+    if (options.before) query.created_at = { $lt: options.before };
+
+    const notifications = await NotificationModel.find(query)
+      .sort({ created_at: -1 })
+      .limit(Math.min(Math.max(options.limit || 20, 1), MAX_PAGE_SIZE))
+      .lean();
+
+    return notifications.map((n: any) => ({
+      id: n._id.toString(),
+      type: n.type,
+      severity: n.severity || "info",
+      title: n.title,
+      message: n.message,
+      link: n.link,
+      isRead: n.is_read,
+      createdAt: n.created_at,
+    }));
+  }
+
+  async unreadCount(userId: string): Promise<number> {
+    await DatabaseManager.getInstance().ensureConnection();
+    return NotificationModel.countDocuments({
+      user_id: userId,
+      is_read: false,
+    });
+  }
+
+  /**
+   * Mark some or all of a user's notifications read. Ids belonging to
+   * other users are ignored. Returns how many were updated.
+   */
+  async markRead(userId: string, ids: string[] | "all"): Promise<number> {
+    await DatabaseManager.getInstance().ensureConnection();
+
+    const result = await NotificationModel.updateMany(
+      {
+        user_id: userId,
+        is_read: false,
+        ...(ids === "all" ? {} : { _id: { $in: ids } }),
+      },
+      { $set: { is_read: true, read_at: new Date() } }
+    );
+    return result.modifiedCount;
+  }
+
+  // ---------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------
+
+  private async patientUserId(patientId: any): Promise<any> {
+    const patient: any = await PatientModel.findById(patientId)
+      .select("user_id")
+      .lean();
+    return patient?.user_id;
+  }
+
+  private lineLabel(line: any): string {
+    const drug = getPrescribedDrug(line);
+    const name = drug?.name ? formatDrugLabel(drug) : "your medication";
+    return line.header_id
+      ? `${name} on prescription ${formatPrescriptionNumber(line.header_id._id || line.header_id)}`
+      : name;
+  }
+}
+
+function isDuplicateKeyError(error: any): boolean {
+  if (error?.code === 11000) return true;
+  const writeErrors = error?.writeErrors;
+  return (
+    Array.isArray(writeErrors) &&
+    writeErrors.length > 0 &&
+    writeErrors.every((e: any) => (e.code ?? e.err?.code) === 11000)
+  );
+}
+
+// Export singleton instance
+export const notificationService = NotificationService.getInstance();
+export default NotificationService;
@@ -5,6 +5,15 @@
 
 import { DatabaseManager } from "../database/connection";
 import mongoose from "mongoose";
+import { AccessDenial, BreakGlassAccess } from "../database/securityModels";
+import {
+  FraudAlertModel,
+  FraudAlertAction,
+  FraudAlertStatus,
+} from "../database/fraudModels";
+import { UserModel } from "../database/models";
+import { getPrescribedDrug } from "../utils/formulary";
+import { notificationService } from "./NotificationService";
 
 export interface DashboardMetrics {
   dispensedDrugs: {
@@ -39,6 +48,7 @@ export interface DashboardMetrics {
 
 export interface FraudAlert {
   id: string;
+  fingerprint: string;
   type:
     | "duplicate_prescription"
     | "excessive_dispensing"
@@ -54,9 +64,62 @@ export interface FraudAlert {
     name: string;
   };
   detectedAt: Date;
-  status: "new" | "investigating" | "resolved" | "false_positive";
+  lastDetectedAt: Date;
+  status: FraudAlertStatus;
+  assignedTo?: { id: string; name: string };
+  notes: { author: string; text: string; createdAt: Date }[];
+  history: {
+    action: FraudAlertAction;
+    fromStatus?: FraudAlertStatus;
+    toStatus?: FraudAlertStatus;
+    performedBy: string;
+    comment?: string;
+    timestamp: Date;
+  }[];
+  resolution?: { summary: string; resolvedBy: string; resolvedAt: Date };
 }
 
+export interface FraudAlertSummary {
+  total: number;
+  critical: number;
+  medium: number;
+  low: number;
+  pending: number;
+  investigating: number;
+  resolved: number;
+  falsePositive: number;
+  byType: Record<string, number>;
+}
+
+export interface FraudAlertUpdate {
+  status?: FraudAlertStatus;
+  assignedTo?: string | null;
+  note?: string;
+  resolution?: string;
+}
+
+/**
+ * Allowed status changes. Closed cases can only be reopened for
+ * investigation.
+ */
+export const FRAUD_STATUS_TRANSITIONS: Record<
+  FraudAlertStatus,
+  FraudAlertStatus[]
+> = {
+  new: ["investigating", "false_positive"],
+  investigating: ["new", "resolved", "false_positive"],
+  resolved: ["investigating"],
+  false_positive: ["investigating"],
+};
+
+// A detector finding before it is merged into the persisted case
+type DetectedFraud = Pick<
+  FraudAlert,
+  "fingerprint" | "type" | "severity" | "description" | "relatedEntity"
+>;
+
+const OPEN_FRAUD_STATUSES: FraudAlertStatus[] = ["new", "investigating"];
+
 export interface DispensedDrugReport {
   id: string;
   drugName: string;
@@ -78,6 +141,7 @@ export interface StockLevelReport {
   status: "in_stock" | "low_stock" | "out_of_stock" | "expired";
   expiryDate: Date;
   batchNumber?: string;
+  pharmacyId?: string;
 }
 
 export interface AuditLogEntry {
@@ -235,10 +299,11 @@ export class ReportingService {
   }
 
   /**
-   * Get fraud detection alerts
+   * Get open fraud cases. Detection runs on request through the fraud
+   * route, so reading the dashboard never opens cases.
    */
   private async getFraudAlerts() {
-    const alerts = await this.detectFraud();
+    const alerts = await this.listFraudAlerts(OPEN_FRAUD_STATUSES);
 
     const critical = alerts.filter((a) => a.severity === "critical").length;
     const medium = alerts.filter((a) => a.severity === "medium").length;
@@ -254,13 +319,13 @@ export class ReportingService {
   }
 
   /**
-   * Detect fraud and irregularities
+   * Detect fraud and irregularities, merge the findings into the persisted
+   * cases and return every case. An issue keeps its case across runs, so
+   * closed cases stay closed when the same issue is detected again.
    */
   async detectFraud(): Promise<FraudAlert[]> {
     await DatabaseManager.getInstance().ensureConnection();
 
-    const alerts: FraudAlert[] = [];
-
     // Run all fraud detection checks in parallel
     const [
       duplicates,
@@ -276,30 +341,287 @@ export class ReportingService {
       this.detectUnusualQuantities(),
     ]);
 
-    alerts.push(
+    await this.recordFraudAlerts([
       ...duplicates,
       ...excessive,
       ...expiredDispensed,
       ...rapidRefills,
-      ...unusualQuantities
+      ...unusualQuantities,
+    ]);
+
+    return this.listFraudAlerts();
+  }
+
+  /**
+   * Upsert detector findings by fingerprint. Admins and auditors are
+   * notified of cases opened for the first time.
+   */
+  private async recordFraudAlerts(detected: DetectedFraud[]): Promise<void> {
+    if (detected.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    const result = await FraudAlertModel.bulkWrite(
+      detected.map((alert) => ({
+        updateOne: {
+          filter: { fingerprint: alert.fingerprint },
+          update: {
+            $set: {
+              severity: alert.severity,
+              description: alert.description,
+              related_entity: alert.relatedEntity,
+              last_detected_at: now,
+            },
+            $setOnInsert: {
+              type: alert.type,
+              status: "new",
+              first_detected_at: now,
+              notes: [],
+              history: [
+                { action: "detected", to_status: "new", timestamp: now },
+              ],
+            },
+          },
+          upsert: true,
+        },
+      }))
     );
 
-    return alerts.sort(
-      (a, b) => b.detectedAt.getTime() - a.detectedAt.getTime()
+    const opened = Object.keys(result.upsertedIds || {}).map((index) => ({
+      id: result.upsertedIds[Number(index)].toString(),
+      severity: detected[Number(index)].severity,
+      description: detected[Number(index)].description,
+    }));
+    await notificationService.fraudAlertsDetected(opened);
+  }
+
+  /**
+   * List persisted fraud cases, most recently detected first
+   */
+  async listFraudAlerts(status?: FraudAlertStatus[]): Promise<FraudAlert[]> {
+    await DatabaseManager.getInstance().ensureConnection();
+
+    const query: any = {};
+    if (status && status.length > 0) {
+      query.status = { $in: status };
+    }
+
+    const alerts = await FraudAlertModel.find(query)
+      .populate("assigned_to", "username")
+      .populate("notes.author", "username")
+      .populate("history.performed_by", "username")
+      .populate("resolution.resolved_by", "username")
+      .sort({ last_detected_at: -1 })
+      .lean();
+
+    return alerts.map((alert: any) => this.toFraudAlert(alert));
+  }
+
+  /**
+   * Get a single fraud case
+   */
+  async getFraudAlert(id: string): Promise<FraudAlert | null> {
+    await DatabaseManager.getInstance().ensureConnection();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const alert = await FraudAlertModel.findById(id)
+      .populate("assigned_to", "username")
+      .populate("notes.author", "username")
+      .populate("history.performed_by", "username")
+      .populate("resolution.resolved_by", "username")
+      .lean();
+
+    return alert ? this.toFraudAlert(alert) : null;
+  }
+
+  /**
+   * Apply an investigator's changes to a case and append them to its
+   * history. The update only applies if the case is still in
+   * expectedStatus, so concurrent status changes cannot both win.
+   */
+  async updateFraudAlert(
+    id: string,
+    expectedStatus: FraudAlertStatus,
+    performedBy: string,
+    changes: FraudAlertUpdate
+  ): Promise<FraudAlert | null> {
+    await DatabaseManager.getInstance().ensureConnection();
+
+    const now = new Date();
+    const $set: any = {};
+    const $unset: any = {};
+    const history: any[] = [];
+    const notes: any[] = [];
+
+    if (changes.assignedTo !== undefined) {
+      if (changes.assignedTo) {
+        const assignee: any = await UserModel.findById(changes.assignedTo)
+          .select("username")
+          .lean();
+        $set.assigned_to = changes.assignedTo;
+        history.push({
+          action: "assigned",
+          performed_by: performedBy,
+          comment: `Assigned to ${assignee?.username || changes.assignedTo}`,
+          timestamp: now,
+        });
+      } else {
+        $unset.assigned_to = "";
+        history.push({
+          action: "unassigned",
+          performed_by: performedBy,
+          timestamp: now,
+        });
+      }
+    }
+
+    if (changes.status && changes.status !== expectedStatus) {
+      $set.status = changes.status;
+      history.push({
+        action: "status_changed",
+        from_status: expectedStatus,
+        to_status: changes.status,
+        performed_by: performedBy,
+        comment: changes.resolution,
+        timestamp: now,
+      });
+
+      if (
+        changes.status === "resolved" ||
+        changes.status === "false_positive"
+      ) {
+        $set.resolution = {
+          summary: changes.resolution,
+          resolved_by: performedBy,
+          resolved_at: now,
+        };
+      } else {
+        $unset.resolution = "";
+      }
+    }
+
+    if (changes.note) {
+      notes.push({ author: performedBy, text: changes.note, created_at: now });
+      history.push({
+        action: "note_added",
+        performed_by: performedBy,
+        timestamp: now,
+      });
+    }
+
+    const update: any = {};
+    if (Object.keys($set).length > 0) update.$set = $set;
+    if (Object.keys($unset).length > 0) update.$unset = $unset;
+    update.$push = {
+      history: { $each: history },
+      ...(notes.length > 0 ? { notes: { $each: notes } } : {}),
+    };
+
+    const updated = await FraudAlertModel.findOneAndUpdate(
+      { _id: id, status: expectedStatus },
+      update,
+      { new: true }
     );
+
+    return updated ? this.getFraudAlert(id) : null;
+  }
+
+  /**
+   * Users who can be assigned fraud cases
+   */
+  async getFraudInvestigators(): Promise<{ id: string; name: string }[]> {
+    await DatabaseManager.getInstance().ensureConnection();
+
+    const users = await UserModel.find({
+      role: { $in: ["admin", "auditor"] },
+      is_active: { $ne: false },
+    })
+      .select("username")
+      .sort({ username: 1 })
+      .lean();
+
+    return users.map((u: any) => ({ id: u._id.toString(), name: u.username }));
+  }
+
+  /**
+   * Count fraud cases by severity, status and type
+   */
+  summarizeFraudAlerts(alerts: FraudAlert[]): FraudAlertSummary {
+    const byType: Record<string, number> = {};
+    alerts.forEach((a) => {
+      byType[a.type] = (byType[a.type] || 0) + 1;
+    });
+
+    return {
+      total: alerts.length,
+      critical: alerts.filter((a) => a.severity === "critical").length,
+      medium: alerts.filter((a) => a.severity === "medium").length,
+      low: alerts.filter((a) => a.severity === "low").length,
+      pending: alerts.filter((a) => a.status === "new").length,
+      investigating: alerts.filter((a) => a.status === "investigating").length,
+      resolved: alerts.filter((a) => a.status === "resolved").length,
+      falsePositive: alerts.filter((a) => a.status === "false_positive").length,
+      byType,
+    };
+  }
+
+  private toFraudAlert(alert: any): FraudAlert {
+    return {
+      id: alert._id.toString(),
+      fingerprint: alert.fingerprint,
+      type: alert.type,
+      severity: alert.severity,
+      description: alert.description,
+      relatedEntity: alert.related_entity,
+      detectedAt: alert.first_detected_at,
+      lastDetectedAt: alert.last_detected_at,
+      status: alert.status,
+      assignedTo: alert.assigned_to
+        ? {
+            id: alert.assigned_to._id.toString(),
+            name: alert.assigned_to.username,
+          }
+        : undefined,
+      notes: (alert.notes || []).map((note: any) => ({
+        author: note.author?.username || "Unknown",
+        text: note.text,
+        createdAt: note.created_at,
+      })),
+      history: (alert.history || []).map((entry: any) => ({
+        action: entry.action,
+        fromStatus: entry.from_status,
+        toStatus: entry.to_status,
+        performedBy: entry.performed_by?.username || "System",
+        comment: entry.comment,
+        timestamp: entry.timestamp,
+      })),
+      resolution: alert.resolution?.summary
+        ? {
+            summary: alert.resolution.summary,
+            resolvedBy: alert.resolution.resolved_by?.username || "Unknown",
+            resolvedAt: alert.resolution.resolved_at,
+          }
+        : undefined,
+    };
   }
 
   /**
    * Detect duplicate prescriptions
    */
-  private async detectDuplicatePrescriptions(): Promise<FraudAlert[]> {
+  private async detectDuplicatePrescriptions(): Promise<DetectedFraud[]> {
     const Prescription = this.getPrescriptionModel();
-    const alerts: FraudAlert[] = [];
+    const alerts: DetectedFraud[] = [];
 
     const duplicates = await Prescription.aggregate([
       {
         $match: {
-          status: { $in: ["pending", "verified", "dispensed"] },
+          status: {
+            $in: ["pending", "verified", "partially_dispensed", "dispensed"],
+          },
           date_issued: {
             $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Last 30 days
           },
@@ -309,7 +631,8 @@ export class ReportingService {
         $group: {
           _id: {
             patient_id: "$patient_id",
-            drug_id: "$drug_id",
+            // Same prescribed product; legacy prescriptions only have a drug
+            drug_id: { $ifNull: ["$formulary_id", "$drug_id"] },
             doctor_id: "$doctor_id",
           },
           count: { $sum: 1 },
@@ -325,7 +648,7 @@ export class ReportingService {
 
     for (const dup of duplicates) {
       alerts.push({
-        id: `fraud_${Date.now()}_${Math.random()}`,
+        fingerprint: `duplicate_prescription:${dup._id.patient_id}:${dup._id.drug_id}:${dup._id.doctor_id}`,
         type: "duplicate_prescription",
         severity: "critical",
         description: `${dup.count} duplicate prescriptions detected for the same patient, drug, and doctor within 30 days`,
@@ -336,8 +659,6 @@ export class ReportingService {
             .toString()
             .substring(0, 8)}`,
         },
-        detectedAt: new Date(),
-        status: "new",
       });
     }
 
@@ -347,17 +668,19 @@ export class ReportingService {
   /**
    * Detect excessive dispensing
    */
-  private async detectExcessiveDispensing(): Promise<FraudAlert[]> {
+  private async detectExcessiveDispensing(): Promise<DetectedFraud[]> {
     const Prescription = this.getPrescriptionModel();
-    const alerts: FraudAlert[] = [];
+    const alerts: DetectedFraud[] = [];
 
     const excessive = await Prescription.find({
       $expr: { $gt: ["$quantity_dispensed", "$quantity_prescribed"] },
-    }).populate("drug_id", "name");
+    })
+      .populate("formulary_id", "name")
+      .populate("drug_id", "name");
 
     for (const prescription of excessive) {
       alerts.push({
-        id: `fraud_${Date.now()}_${Math.random()}`,
+        fingerprint: `excessive_dispensing:${(prescription as any)._id}`,
         type: "excessive_dispensing",
         severity: "critical",
         description: `Dispensed quantity (${
@@ -369,11 +692,9 @@ export class ReportingService {
           type: "prescription",
           id: (prescription as any)._id.toString(),
           name: `Prescription for ${
-            (prescription as any).drug_id?.name || "Unknown Drug"
+            getPrescribedDrug(prescription)?.name || "Unknown Drug"
           }`,
         },
-        detectedAt: new Date(),
-        status: "new",
       });
     }
 
@@ -383,41 +704,65 @@ export class ReportingService {
   /**
    * Detect expired drug dispensing
    */
-  private async detectExpiredDrugDispensing(): Promise<FraudAlert[]> {
+  private async detectExpiredDrugDispensing(): Promise<DetectedFraud[]> {
     const Prescription = this.getPrescriptionModel();
-    const Drug = this.getDrugModel();
-    const alerts: FraudAlert[] = [];
+    const InventoryTransaction = this.getInventoryTransactionModel();
+    const alerts: DetectedFraud[] = [];
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000); // Last 7 days
 
     const recentDispensed = await Prescription.find({
       status: "dispensed",
-      date_dispensed: {
-        $gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // Last 7 days
-      },
+      date_dispensed: { $gte: since },
     }).populate("drug_id");
 
+    // Lot-tracked dispenses record the expiry of each lot actually used
+    const lotTransactions = await InventoryTransaction.find({
+      transaction_type: "dispensed",
+      timestamp: { $gte: since },
+      "lots.0": { $exists: true },
+    });
+    const expiredLotByPrescription = new Map<string, any>();
+    for (const transaction of lotTransactions as any[]) {
+      const expiredLot = transaction.lots.find(
+        (lot: any) =>
+          lot.expiry_date &&
+          new Date(lot.expiry_date) < new Date(transaction.timestamp)
+      );
+      if (expiredLot && transaction.prescription_id) {
+        expiredLotByPrescription.set(
+          transaction.prescription_id.toString(),
+          expiredLot
+        );
+      }
+    }
+
     for (const prescription of recentDispensed) {
       const drug = (prescription as any).drug_id;
+      if (!drug) continue;
+
+      const expiredLot = expiredLotByPrescription.get(
+        (prescription as any)._id.toString()
+      );
+      const expiryDate = expiredLot
+        ? new Date(expiredLot.expiry_date)
+        : new Date(drug.expiry_date);
       if (
-        drug &&
-        new Date(drug.expiry_date) <
-          new Date((prescription as any).date_dispensed)
+        expiredLot ||
+        (!drug.lots?.length &&
+          expiryDate < new Date((prescription as any).date_dispensed))
       ) {
         alerts.push({
-          id: `fraud_${Date.now()}_${Math.random()}`,
+          fingerprint: `expired_drug_dispensed:${(prescription as any)._id}`,
           type: "expired_drug_dispensed",
           severity: "critical",
-          description: `Expired drug "${
-            drug.name
-          }" was dispensed (expired: ${new Date(
-            drug.expiry_date
-          ).toLocaleDateString()})`,
+          description: `Expired drug "${drug.name}"${
+            expiredLot ? ` (batch ${expiredLot.batch_number})` : ""
+          } was dispensed (expired: ${expiryDate.toLocaleDateString()})`,
           relatedEntity: {
             type: "drug",
             id: drug._id.toString(),
             name: drug.name,
           },
-          detectedAt: new Date(),
-          status: "new",
         });
       }
     }
@@ -428,9 +773,9 @@ export class ReportingService {
   /**
    * Detect rapid refills
    */
-  private async detectRapidRefills(): Promise<FraudAlert[]> {
+  private async detectRapidRefills(): Promise<DetectedFraud[]> {
     const Prescription = this.getPrescriptionModel();
-    const alerts: FraudAlert[] = [];
+    const alerts: DetectedFraud[] = [];
 
     const rapidRefills = await Prescription.aggregate([
       {
@@ -445,7 +790,7 @@ export class ReportingService {
         $group: {
           _id: {
             patient_id: "$patient_id",
-            drug_id: "$drug_id",
+            drug_id: { $ifNull: ["$formulary_id", "$drug_id"] },
           },
           count: { $sum: 1 },
           dates: { $push: "$date_dispensed" },
@@ -461,7 +806,7 @@ export class ReportingService {
 
     for (const refill of rapidRefills) {
       alerts.push({
-        id: `fraud_${Date.now()}_${Math.random()}`,
+        fingerprint: `rapid_refills:${refill._id.patient_id}:${refill._id.drug_id}`,
         type: "rapid_refills",
         severity: "medium",
         description: `Patient has ${refill.count} refills of the same drug within 30 days`,
@@ -470,8 +815,6 @@ export class ReportingService {
           id: refill.prescriptions[0]._id.toString(),
           name: `Multiple refills detected`,
         },
-        detectedAt: new Date(),
-        status: "new",
       });
     }
 
@@ -481,9 +824,9 @@ export class ReportingService {
   /**
    * Detect unusual quantities
    */
-  private async detectUnusualQuantities(): Promise<FraudAlert[]> {
+  private async detectUnusualQuantities(): Promise<DetectedFraud[]> {
     const Prescription = this.getPrescriptionModel();
-    const alerts: FraudAlert[] = [];
+    const alerts: DetectedFraud[] = [];
 
     // Find prescriptions with unusually high quantities (e.g., > 90 days supply)
     const unusual = await Prescription.find({
@@ -492,11 +835,13 @@ export class ReportingService {
       date_issued: {
         $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
       },
-    }).populate("drug_id", "name");
+    })
+      .populate("formulary_id", "name")
+      .populate("drug_id", "name");
 
     for (const prescription of unusual) {
       alerts.push({
-        id: `fraud_${Date.now()}_${Math.random()}`,
+        fingerprint: `unusual_quantity:${(prescription as any)._id}`,
         type: "unusual_quantity",
         severity: "medium",
         description: `Unusually high quantity prescribed: ${
@@ -506,11 +851,9 @@ export class ReportingService {
           type: "prescription",
           id: (prescription as any)._id.toString(),
           name: `High quantity for ${
-            (prescription as any).drug_id?.name || "Unknown Drug"
+            getPrescribedDrug(prescription)?.name || "Unknown Drug"
           }`,
         },
-        detectedAt: new Date(),
-        status: "new",
       });
     }
 
@@ -557,13 +900,16 @@ export class ReportingService {
   }
 
   /**
-   * Get stock levels report
+   * Get stock levels report, across pharmacies or for a single pharmacy
    */
-  async getStockLevelsReport(): Promise<StockLevelReport[]> {
+  async getStockLevelsReport(pharmacyId?: string): Promise<StockLevelReport[]> {
     await DatabaseManager.getInstance().ensureConnection();
     const Drug = this.getDrugModel();
 
-    const drugs = await Drug.find().sort({ stock_quantity: 1 });
+    const query = pharmacyId
+      ? { pharmacy_id: new mongoose.Types.ObjectId(pharmacyId) }
+      : {};
+    const drugs = await Drug.find(query).sort({ stock_quantity: 1 });
 
     return drugs.map((drug: any) => {
       let status: "in_stock" | "low_stock" | "out_of_stock" | "expired" =
@@ -586,6 +932,7 @@ export class ReportingService {
         status,
         expiryDate: drug.expiry_date,
         batchNumber: drug.batch_number,
+        pharmacyId: drug.pharmacy_id?.toString(),
       };
     });
   }
@@ -609,18 +956,25 @@ export class ReportingService {
       if (endDate) query.timestamp.$lte = endDate;
     }
 
-    const [prescriptionAudits, inventoryAudits] = await Promise.all([
-      PrescriptionAudit.find(query)
-        .populate("performed_by", "username role")
-        .populate("prescription_id")
-        .sort({ timestamp: -1 })
-        .limit(limit / 2),
-      InventoryTransaction.find(query)
-        .populate("performed_by", "username role")
-        .populate("drug_id", "name")
-        .sort({ timestamp: -1 })
-        .limit(limit / 2),
-    ]);
+    const perSource = Math.floor(limit / 4);
+    const [prescriptionAudits, inventoryAudits, accessDenials, breakGlass] =
+      await Promise.all([
+        PrescriptionAudit.find(query)
+          .populate("performed_by", "username role")
+          .populate("prescription_id")
+          .sort({ timestamp: -1 })
+          .limit(perSource),
+        InventoryTransaction.find(query)
+          .populate("performed_by", "username role")
+          .populate("drug_id", "name")
+          .sort({ timestamp: -1 })
+          .limit(perSource),
+        AccessDenial.find(query).sort({ timestamp: -1 }).limit(perSource),
+        BreakGlassAccess.find(query)
+          .populate("user_id", "username role")
+          .sort({ timestamp: -1 })
+          .limit(perSource),
+      ]);
 
     const logs: AuditLogEntry[] = [];
 
@@ -656,6 +1010,41 @@ export class ReportingService {
       });
     });
 
+    accessDenials.forEach((denial: any) => {
+      logs.push({
+        id: denial._id.toString(),
+        timestamp: denial.timestamp,
+        action: `Access denied (${denial.status})`,
+        performedBy: denial.user_id || "Anonymous",
+        userRole: denial.role || "Unknown",
+        entityType: "access",
+        entityId: denial.path,
+        details: {
+          method: denial.method,
+          permission: denial.permission,
+          reason: denial.reason,
+        },
+        ipAddress: denial.ip_address,
+      });
+    });
+
+    breakGlass.forEach((access: any) => {
+      logs.push({
+        id: access._id.toString(),
+        timestamp: access.timestamp,
+        action: "Emergency access to patient records",
+        performedBy: access.user_id?.username || "Unknown",
+        userRole: access.role,
+        entityType: "patient",
+        entityId: access.patient_id?.toString() || "",
+        details: {
+          justification: access.justification,
+          expires_at: access.expires_at,
+        },
+        ipAddress: access.ip_address,
+      });
+    });
+
     return logs.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 
@@ -16,8 +16,8 @@ import {
 
 export class TraceabilityService {
   private provider: ethers.JsonRpcProvider | null = null;
+  // Read-only; write calls connect a per-call copy to the caller's signer
   private contract: ethers.Contract | null = null;
-  private signer: ethers.Signer | null = null;
 
   constructor() {
     this.initializeProvider();
@@ -44,19 +44,32 @@ export class TraceabilityService {
   }
 
   /**
-   * Set the signer for transactions
+   * The contract connected to one caller's signer. The service is shared
+   * by every request, so the signer is never stored on it.
    */
-  public setSigner(signer: ethers.Signer) {
-    this.signer = signer;
-    if (this.contract) {
-      this.contract = this.contract.connect(signer);
+  private contractFor(signer: ethers.Signer): ethers.Contract {
+    if (!this.contract) {
+      throw new Error("Contract not initialized");
     }
+    return this.contract.connect(signer) as ethers.Contract;
+  }
+
+  /**
+   * The contract for a read, as `signer` when the call is restricted to a
+   * role
+   */
+  private readContract(signer?: ethers.Signer | null): ethers.Contract {
+    if (!this.contract) {
+      throw new Error("Contract not initialized");
+    }
+    return signer ? this.contractFor(signer) : this.contract;
   }
 
   /**
    * Create a new drug batch (manufacturer action)
    */
   async createDrugBatch(
+    signer: ethers.Signer,
     drugName: string,
     batchNumber: string,
     quantity: number,
@@ -67,12 +80,11 @@ export class TraceabilityService {
     success: boolean;
     batchId?: number;
     txHash?: string;
+    blockNumber?: number;
     error?: string;
   }> {
     try {
-      if (!this.contract || !this.signer) {
-        throw new Error("Contract or signer not initialized");
-      }
+      const contract = this.contractFor(signer);
 
       const manufacturedTimestamp = Math.floor(
         manufacturedDate.getTime() / 1000
@@ -80,7 +92,7 @@ export class TraceabilityService {
       const expiryTimestamp = Math.floor(expiryDate.getTime() / 1000);
       const hash = metadataHash || ethers.ZeroHash;
 
-      const tx = await this.contract.createDrugBatch(
+      const tx = await contract.createDrugBatch(
         drugName,
         batchNumber,
         quantity,
@@ -102,7 +114,7 @@ export class TraceabilityService {
 
       let batchId: number | undefined;
       if (event) {
-        const parsedLog = this.contract.interface.parseLog({
+        const parsedLog = contract.interface.parseLog({
           topics: event.topics as string[],
           data: event.data,
         });
@@ -113,6 +125,7 @@ export class TraceabilityService {
         success: true,
         batchId,
         txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
       };
     } catch (error: any) {
       console.error("Error creating drug batch:", error);
@@ -127,6 +140,7 @@ export class TraceabilityService {
    * Record drug receipt by pharmacist
    */
   async recordPharmacistReceipt(
+    signer: ethers.Signer,
     batchId: number,
     quantity: number,
     notes: string = ""
@@ -134,14 +148,13 @@ export class TraceabilityService {
     success: boolean;
     movementId?: number;
     txHash?: string;
+    blockNumber?: number;
     error?: string;
   }> {
     try {
-      if (!this.contract || !this.signer) {
-        throw new Error("Contract or signer not initialized");
-      }
+      const contract = this.contractFor(signer);
 
-      const tx = await this.contract.recordPharmacistReceipt(
+      const tx = await contract.recordPharmacistReceipt(
         batchId,
         quantity,
         notes
@@ -159,7 +172,7 @@ export class TraceabilityService {
 
       let movementId: number | undefined;
       if (event) {
-        const parsedLog = this.contract.interface.parseLog({
+        const parsedLog = contract.interface.parseLog({
           topics: event.topics as string[],
           data: event.data,
         });
@@ -170,6 +183,7 @@ export class TraceabilityService {
         success: true,
         movementId,
         txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
       };
     } catch (error: any) {
       console.error("Error recording pharmacist receipt:", error);
@@ -184,6 +198,7 @@ export class TraceabilityService {
    * Record drug dispensing to patient
    */
   async recordPatientDispensing(
+    signer: ethers.Signer,
     batchId: number,
     prescriptionId: number,
     patientAddress: string,
@@ -193,14 +208,13 @@ export class TraceabilityService {
     dispensingId?: number;
     verificationHash?: string;
     txHash?: string;
+    blockNumber?: number;
     error?: string;
   }> {
     try {
-      if (!this.contract || !this.signer) {
-        throw new Error("Contract or signer not initialized");
-      }
+      const contract = this.contractFor(signer);
 
-      const tx = await this.contract.recordPatientDispensing(
+      const tx = await contract.recordPatientDispensing(
         batchId,
         prescriptionId,
         patientAddress,
@@ -221,7 +235,7 @@ export class TraceabilityService {
       let verificationHash: string | undefined;
 
       if (event) {
-        const parsedLog = this.contract.interface.parseLog({
+        const parsedLog = contract.interface.parseLog({
           topics: event.topics as string[],
           data: event.data,
         });
@@ -234,6 +248,7 @@ export class TraceabilityService {
         dispensingId,
         verificationHash,
         txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
       };
     } catch (error: any) {
       console.error("Error recording patient dispensing:", error);
@@ -247,22 +262,24 @@ export class TraceabilityService {
   /**
    * Verify drug authenticity using verification hash
    */
-  async verifyDrugAuthenticity(verificationHash: string): Promise<{
+  async verifyDrugAuthenticity(
+    signer: ethers.Signer,
+    verificationHash: string
+  ): Promise<{
     success: boolean;
     dispensing?: DispensingRecord;
     txHash?: string;
+    blockNumber?: number;
     error?: string;
   }> {
     try {
-      if (!this.contract || !this.signer) {
-        throw new Error("Contract or signer not initialized");
-      }
+      const contract = this.contractFor(signer);
 
-      const tx = await this.contract.verifyDrugAuthenticity(verificationHash);
+      const tx = await contract.verifyDrugAuthenticity(verificationHash);
       const receipt = await tx.wait();
 
       // Get the return value from the transaction
-      const dispensing = await this.contract.getDispensingDetails(
+      const dispensing = await contract.getDispensingDetails(
         receipt.logs[0].args?.dispensingId
       );
 
@@ -270,6 +287,7 @@ export class TraceabilityService {
         success: true,
         dispensing: this.parseDispensingRecord(dispensing),
         txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
       };
     } catch (error: any) {
       console.error("Error verifying drug authenticity:", error);
@@ -369,17 +387,17 @@ export class TraceabilityService {
   /**
    * Get dispensing details
    */
-  async getDispensingDetails(dispensingId: number): Promise<{
+  async getDispensingDetails(
+    dispensingId: number,
+    signer?: ethers.Signer | null
+  ): Promise<{
     success: boolean;
     dispensing?: DispensingRecord;
     error?: string;
   }> {
     try {
-      if (!this.contract) {
-        throw new Error("Contract not initialized");
-      }
-
-      const dispensing = await this.contract.getDispensingDetails(dispensingId);
+      const dispensing =
+        await this.readContract(signer).getDispensingDetails(dispensingId);
 
       return {
         success: true,
@@ -397,17 +415,17 @@ export class TraceabilityService {
   /**
    * Get batch dispensing records
    */
-  async getBatchDispensings(batchId: number): Promise<{
+  async getBatchDispensings(
+    batchId: number,
+    signer?: ethers.Signer | null
+  ): Promise<{
     success: boolean;
     dispensingIds?: number[];
     error?: string;
   }> {
     try {
-      if (!this.contract) {
-        throw new Error("Contract not initialized");
-      }
-
-      const dispensingIds = await this.contract.getBatchDispensings(batchId);
+      const dispensingIds =
+        await this.readContract(signer).getBatchDispensings(batchId);
 
       return {
         success: true,
@@ -422,6 +440,39 @@ export class TraceabilityService {
     }
   }
 
+  /**
+   * Deactivate a batch so it can no longer be received or dispensed, e.g.
+   * for a recall (admin action)
+   */
+  async deactivateBatch(
+    signer: ethers.Signer,
+    batchId: number
+  ): Promise<{
+    success: boolean;
+    txHash?: string;
+    blockNumber?: number;
+    error?: string;
+  }> {
+    try {
+      const contract = this.contractFor(signer);
+
+      const tx = await contract.deactivateBatch(batchId);
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+      };
+    } catch (error: any) {
+      console.error("Error deactivating batch:", error);
+      return {
+        success: false,
+        error: error.message || "Failed to deactivate batch",
+      };
+    }
+  }
+
   /**
    * Get total statistics
    */
@@ -2,7 +2,7 @@
 // Implements registration, login, and role management based on specifications
 
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
+import crypto from "crypto";
 import { connectToDatabase } from "../database/connection";
 import {
   UserModel,
@@ -10,6 +10,11 @@ import {
   PharmacistModel,
   PatientModel,
 } from "../database/models";
+import { normalizeAllergies } from "../utils/allergies";
+import { appUrl } from "../utils/email-templates";
+import { emailService, WALLET_EMAIL_DOMAIN } from "./EmailService";
+import { revokeAllSessions } from "../utils/sessions";
+import { TwoFactorError, verifySecondFactor } from "../utils/two-factor";
 import {
   User,
   Doctor,
@@ -26,26 +31,25 @@ import {
 } from "../../types";
 import mongoose from "mongoose";
 
-export class UserService {
-  private jwtSecret: string;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+const PASSWORD_RESET_TTL_MINUTES = 60;
+// Another verification or reset email is not sent within this interval
+const EMAIL_RESEND_INTERVAL_MS = 60 * 1000;
 
-  constructor() {
-    this.jwtSecret = process.env.JWT_SECRET || this.generateFallbackSecret();
+// Roles a new wallet may sign itself up as; every other role needs review
+export const WALLET_SELF_REGISTRATION_ROLES: readonly string[] = ["patient"];
 
-    if (!process.env.JWT_SECRET) {
-      console.warn(
-        "⚠️  JWT_SECRET not set in environment. Using generated fallback."
-      );
-    }
-  }
+const hashEmailToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
 
-  // Generate a fallback secret if none is provided
-  private generateFallbackSecret(): string {
-    return `pharmchain-${Date.now()}-${Math.random()
-      .toString(36)
-      .substring(2)}`;
-  }
+/**
+ * Whether password login is refused until the email address is verified
+ */
+export function isEmailVerificationRequired(): boolean {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === "true";
+}
 
+export class UserService {
   // Generate unique Patient ID in format: PT-YYYY-XXXXXX
   public async generatePatientId(): Promise<string> {
     const year = new Date().getFullYear();
@@ -339,7 +343,8 @@ export class UserService {
               license_number: doctorData.license_number,
               specialization: doctorData.specialization || "",
               contact_info: doctorData.contact_info || {},
-              verification_status: "verified",
+              // Prescribing is blocked until an admin approves the license
+              verification_status: "pending",
             });
             roleData = await newDoctor.save({ session });
           } else if (sanitizedData.role === "pharmacist") {
@@ -349,7 +354,8 @@ export class UserService {
               license_number: pharmacistData.license_number,
               pharmacy_name: pharmacistData.pharmacy_name || "",
               contact_info: pharmacistData.contact_info || {},
-              verification_status: "verified",
+              // Dispensing is blocked until an admin approves the license
+              verification_status: "pending",
             });
             roleData = await newPharmacist.save({ session });
           } else if (sanitizedData.role === "patient") {
@@ -362,27 +368,29 @@ export class UserService {
               date_of_birth: patientData.date_of_birth || null,
               contact_info: patientData.contact_info || {},
               emergency_contact: patientData.emergency_contact || {},
-              allergies: patientData.allergies || "",
+              allergies: normalizeAllergies(patientData.allergies),
               medical_history: patientData.medical_history || "",
             });
             roleData = await newPatient.save({ session });
           }
 
-          // Generate JWT token
-          const token = this.generateToken(savedUser.toObject());
-
+          // No session is started: the user signs in once registered
           return {
             success: true,
             user: {
               ...savedUser.toObject(),
               roleData: roleData?.toObject(),
             },
-            token,
             message: "Account created successfully",
           };
         });
 
         await session.endSession();
+
+        if (result.success && result.user) {
+          await this.sendVerificationEmail((result.user as any)._id.toString());
+        }
+
         return result;
       } catch (transactionError) {
         await session.endSession();
@@ -459,31 +467,69 @@ export class UserService {
         };
       }
 
+      if (isEmailVerificationRequired() && !user.email_verified) {
+        return {
+          success: false,
+          code: "EMAIL_NOT_VERIFIED",
+          message:
+            "Please verify your email address before signing in. Use the link we emailed you, or request a new one.",
+        };
+      }
+
+      // Second step for accounts with an authenticator app. The client
+      // asks for the code and posts the credentials again with it.
+      if (user.two_factor_enabled) {
+        if (!credentials.twoFactorCode) {
+          return {
+            success: false,
+            code: "TWO_FACTOR_REQUIRED",
+            message: "Enter the code from your authenticator app",
+          };
+        }
+        let secondFactor;
+        try {
+          secondFactor = await verifySecondFactor(
+            user._id.toString(),
+            credentials.twoFactorCode
+          );
+        } catch (error) {
+          if (error instanceof TwoFactorError) {
+            return {
+              success: false,
+              code: error.code,
+              message: error.message,
+            };
+          }
+          throw error;
+        }
+        if (!secondFactor) {
+          this.recordLoginAttempt(credentials.email, false);
+          return {
+            success: false,
+            code: "TWO_FACTOR_INVALID",
+            message: "Invalid authentication code",
+          };
+        }
+      }
+
       // Get role-specific data
       let roleData: any = null;
 
       if (user.role === "doctor") {
         roleData = await this.getDoctorByUserId(user._id.toString());
 
-        // For demo purposes, allow login but warn about verification status
-        if (roleData && roleData.verification_status !== "verified") {
-          // Still allow login but include verification status in response
-          // In production, you might want to block unverified doctors
-        }
+        // Unverified doctors may sign in to upload license documents;
+        // prescribing routes refuse them until an admin approves
       } else if (user.role === "pharmacist") {
         roleData = await this.getPharmacistByUserId(user._id.toString());
 
-        // For demo purposes, allow login but warn about verification status
-        if (roleData && roleData.verification_status !== "verified") {
-          // Still allow login but include verification status in response
-          // In production, you might want to block unverified pharmacists
-        }
+        // Unverified pharmacists may sign in to upload license documents;
+        // dispensing routes refuse them until an admin approves
       } else if (user.role === "patient") {
         roleData = await this.getPatientByUserId(user._id.toString());
       }
 
-      // Generate JWT token
-      const token = this.generateToken(user.toObject());
+      // The caller starts a session (see src/lib/utils/sessions.ts)
 
       // Record successful login (clears failed attempts)
       this.recordLoginAttempt(credentials.email, true);
@@ -494,7 +540,6 @@ export class UserService {
           ...user.toObject(),
           roleData: roleData?.toObject?.() || roleData,
         },
-        token,
         message: "Login successful",
       };
     } catch (error) {
@@ -506,39 +551,6 @@ export class UserService {
     }
   }
 
-  // Generate JWT token
-  private generateToken(user: any): string {
-    return jwt.sign(
-      {
-        userId: user._id || user.id,
-        email: user.email,
-        username: user.username,
-        role: user.role,
-      },
-      this.jwtSecret,
-      { expiresIn: "24h" }
-    );
-  }
-
-  // Verify JWT token
-  async verifyToken(
-    token: string
-  ): Promise<{ valid: boolean; user?: any; error?: string }> {
-    try {
-      const decoded = jwt.verify(token, this.jwtSecret) as any;
-
-      // Check if user still exists and is active
-      const user = await this.getUserById(decoded.userId);
-      if (!user || !user.is_active) {
-        return { valid: false, error: "User account not found or inactive" };
-      }
-
-      return { valid: true, user: decoded };
-    } catch (error) {
-      return { valid: false, error: "Invalid or expired token" };
-    }
-  }
-
   // Get user by ID
   async getUserById(id: string): Promise<User | null> {
     try {
@@ -631,7 +643,7 @@ export class UserService {
       await this.ensureConnection();
 
       // Get current user with password hash
-      const user = await UserModel.findById(userId);
+      const user = await UserModel.findById(userId).select("+password_hash");
       if (!user) {
         return { success: false, message: "User not found" };
       }
@@ -652,10 +664,11 @@ export class UserService {
       }
 
       // Validate new password
-      if (newPassword.length < 8) {
+      const strengthErrors = this.validatePasswordStrength(newPassword);
+      if (strengthErrors.length > 0) {
         return {
           success: false,
-          message: "New password must be at least 8 characters long",
+          message: strengthErrors.map((e) => e.message).join(", "),
         };
       }
 
@@ -668,6 +681,10 @@ export class UserService {
         password_hash: newPasswordHash,
       });
 
+      // Sign out every device, including this one; the caller starts a
+      // new session for the device that made the change
+      await revokeAllSessions(userId, "password_changed");
+
       return { success: true, message: "Password changed successfully" };
     } catch (error) {
       console.error("Error changing password:", error);
@@ -675,6 +692,245 @@ export class UserService {
     }
   }
 
+  // Activate or deactivate an account. Deactivation signs the user out of
+  // every device.
+  async setUserActive(
+    userId: string,
+    isActive: boolean
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.ensureConnection();
+
+      const user = await UserModel.findByIdAndUpdate(userId, {
+        $set: { is_active: isActive },
+      });
+      if (!user) {
+        return { success: false, message: "User not found" };
+      }
+
+      if (!isActive) {
+        await revokeAllSessions(userId, "deactivated");
+      }
+
+      return {
+        success: true,
+        message: isActive ? "Account activated" : "Account deactivated",
+      };
+    } catch (error) {
+      console.error("Error updating account status:", error);
+      return { success: false, message: "Failed to update account status" };
+    }
+  }
+
+  // Email a single-use link confirming the user's address
+  async sendVerificationEmail(
+    userId: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.ensureConnection();
+
+      const user: any = await UserModel.findById(userId).select(
+        "+email_verification_sent_at"
+      );
+      if (!user) {
+        return { success: false, message: "User not found" };
+      }
+      if (user.email_verified) {
+        return { success: true, message: "Email address is already verified" };
+      }
+      if (user.email.endsWith(WALLET_EMAIL_DOMAIN)) {
+        return {
+          success: false,
+          message: "Wallet accounts have no email address to verify",
+        };
+      }
+      if (
+        user.email_verification_sent_at &&
+        Date.now() - user.email_verification_sent_at.getTime() <
+          EMAIL_RESEND_INTERVAL_MS
+      ) {
+        return {
+          success: false,
+          message:
+            "A verification email was sent moments ago. Please wait a minute before asking again.",
+        };
+      }
+
+      const token = crypto.randomBytes(32).toString("hex");
+      await UserModel.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            email_verification_token: hashEmailToken(token),
+            email_verification_expires: new Date(
+              Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000
+            ),
+            email_verification_sent_at: new Date(),
+          },
+        }
+      );
+
+      await emailService.send(user.email, "email_verification", {
+        username: user.username,
+        link: appUrl(`/auth/verify-email?token=${token}`),
+        expiresInHours: EMAIL_VERIFICATION_TTL_HOURS,
+      });
+
+      return { success: true, message: "Verification email sent" };
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+      return { success: false, message: "Failed to send verification email" };
+    }
+  }
+
+  // Resend verification by address. Unknown addresses are ignored so the
+  // caller cannot tell which emails are registered.
+  async resendVerificationEmail(email: string): Promise<void> {
+    await this.ensureConnection();
+
+    const user = await UserModel.findOne({
+      email: email.trim().toLowerCase(),
+      is_active: true,
+    });
+    if (user) {
+      await this.sendVerificationEmail(user._id.toString());
+    }
+  }
+
+  // Confirm an email address from the emailed token
+  async verifyEmail(
+    token: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.ensureConnection();
+
+      const user = await UserModel.findOneAndUpdate(
+        {
+          email_verification_token: hashEmailToken(token),
+          email_verification_expires: { $gt: new Date() },
+        },
+        {
+          $set: { email_verified: true },
+          $unset: {
+            email_verification_token: "",
+            email_verification_expires: "",
+          },
+        }
+      );
+
+      if (!user) {
+        return {
+          success: false,
+          message: "This verification link is invalid or has expired",
+        };
+      }
+      return { success: true, message: "Email address verified" };
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      return { success: false, message: "Failed to verify email address" };
+    }
+  }
+
+  // Email a password reset link. Unknown addresses are ignored so the
+  // caller cannot tell which emails are registered.
+  async requestPasswordReset(email: string): Promise<void> {
+    await this.ensureConnection();
+
+    const user: any = await UserModel.findOne({
+      email: email.trim().toLowerCase(),
+      is_active: true,
+    }).select("+password_hash +password_reset_sent_at");
+
+    // Wallet-only accounts have no password to reset
+    if (!user || !user.password_hash) return;
+
+    if (
+      user.password_reset_sent_at &&
+      Date.now() - user.password_reset_sent_at.getTime() <
+        EMAIL_RESEND_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    const token = crypto.randomBytes(32).toString("hex");
+    await UserModel.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          password_reset_token: hashEmailToken(token),
+          password_reset_expires: new Date(
+            Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+          ),
+          password_reset_sent_at: new Date(),
+        },
+      }
+    );
+
+    await emailService.send(user.email, "password_reset", {
+      username: user.username,
+      link: appUrl(`/auth/reset-password?token=${token}`),
+      expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+    });
+  }
+
+  // Set a new password from an emailed reset token. The token is consumed
+  // in the same update, so it works only once.
+  async resetPassword(
+    token: string,
+    newPassword: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.ensureConnection();
+
+      const strengthErrors = this.validatePasswordStrength(newPassword);
+      if (strengthErrors.length > 0) {
+        return {
+          success: false,
+          message: strengthErrors.map((e) => e.message).join(", "),
+        };
+      }
+
+      const saltRounds = 12;
+      const passwordHash = await bcrypt.hash(newPassword, saltRounds);
+
+      // Receiving the reset email also proves the address is theirs
+      const user = await UserModel.findOneAndUpdate(
+        {
+          password_reset_token: hashEmailToken(token),
+          password_reset_expires: { $gt: new Date() },
+          is_active: true,
+        },
+        {
+          $set: { password_hash: passwordHash, email_verified: true },
+          $unset: { password_reset_token: "", password_reset_expires: "" },
+        }
+      );
+
+      if (!user) {
+        return {
+          success: false,
+          message: "This reset link is invalid or has expired",
+        };
+      }
+
+      // Whoever knew the old password is signed out everywhere
+      await revokeAllSessions(user._id.toString(), "password_reset");
+
+      try {
+        await emailService.send(user.email, "password_changed", {
+          username: user.username,
+        });
+      } catch (error) {
+        console.error("Error sending password changed email:", error);
+      }
+
+      return { success: true, message: "Password reset successfully" };
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      return { success: false, message: "Failed to reset password" };
+    }
+  }
+
   // Find user by wallet address
   static async findUserByWallet(walletAddress: string) {
     try {
@@ -714,7 +970,9 @@ export class UserService {
     }
   }
 
-  // Register new user with wallet address (auto-registration)
+  // Register new user with wallet address (auto-registration). Only
+  // patients may: doctors and pharmacists register with their license for
+  // review, and admins are never created by sign-up.
   static async registerWalletUser(data: {
     walletAddress: string;
     email: string;
@@ -722,6 +980,10 @@ export class UserService {
     role: string;
   }) {
     try {
+      if (!WALLET_SELF_REGISTRATION_ROLES.includes(data.role)) {
+        throw new Error(`Wallets cannot self-register as ${data.role}`);
+      }
+
       await connectToDatabase();
 
       // Create base user
@@ -739,32 +1001,11 @@ export class UserService {
       });
 
       // Create role-specific document
-      let roleData = null;
-      switch (data.role) {
-        case "doctor":
-          roleData = await DoctorModel.create({
-            user_id: user._id,
-            specialization: "General",
-            licenseNumber: `WALLET-${user._id.toString().slice(-8)}`,
-            created_at: new Date(),
-          });
-          break;
-        case "pharmacist":
-          roleData = await PharmacistModel.create({
-            user_id: user._id,
-            licenseNumber: `WALLET-${user._id.toString().slice(-8)}`,
-            pharmacyName: "Self-Service",
-            created_at: new Date(),
-          });
-          break;
-        case "patient":
-          roleData = await PatientModel.create({
-            user_id: user._id,
-            dateOfBirth: new Date(),
-            created_at: new Date(),
-          });
-          break;
-      }
+      const roleData = await PatientModel.create({
+        user_id: user._id,
+        dateOfBirth: new Date(),
+        created_at: new Date(),
+      });
 
       return {
         ...user.toObject(),
@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import { connectToDatabase } from "@/lib/database/connection";
+import { AccessDenial } from "@/lib/database/securityModels";
+import { AuthUser } from "./auth-helper";
+
+/**
+ * Caller's IP address as reported by the proxy, if any
+ */
+export function getClientIpAddress(request: NextRequest): string | undefined {
+  return (
+    request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    request.headers.get("x-real-ip") ||
+    undefined
+  );
+}
+
+/**
+ * Record a rejected API access attempt. Failures to persist are logged and
+ * swallowed so that auditing never changes the response a caller gets.
+ */
+export async function logAccessDenied(
+  request: NextRequest,
+  details: {
+    status: 401 | 403;
+    reason: string;
+    user?: AuthUser;
+    permission?: string;
+  }
+): Promise<void> {
+  const path = request.nextUrl.pathname;
+  const ipAddress = getClientIpAddress(request);
+
+  console.warn(
+    `⚠️ Access denied (${details.status}) ${request.method} ${path}: ${
+      details.reason
+    }${details.user ? ` [user ${details.user.id}, role ${details.user.role}]` : ""}`
+  );
+
+  try {
+    await connectToDatabase();
+    await AccessDenial.create({
+      user_id: details.user?.id,
+      role: details.user?.role,
+      method: request.method,
+      path,
+      permission: details.permission,
+      status: details.status,
+      reason: details.reason,
+      ip_address: ipAddress,
+      user_agent: request.headers.get("user-agent")?.slice(0, 512),
+    });
+  } catch (error) {
+    console.error("❌ Failed to record access denial:", error);
+  }
+}
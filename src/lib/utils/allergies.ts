@@ -0,0 +1,44 @@
+/**
+ * Patient allergy helpers. Allergies are stored as structured entries;
+ * patients registered before that hold a comma-separated string.
+ */
+
+import { PatientAllergy } from "@/types";
+
+const SEVERITIES: PatientAllergy["severity"][] = ["mild", "moderate", "severe"];
+
+/**
+ * Allergies as structured entries, accepting the legacy string, plain
+ * substance names or entries
+ */
+export function normalizeAllergies(raw: any): PatientAllergy[] {
+  if (!raw) return [];
+  const entries = typeof raw === "string" ? raw.split(/[,;\n]/) : raw;
+  if (!Array.isArray(entries)) return [];
+
+  return entries
+    .map((entry: any) =>
+      typeof entry === "string" ? { substance: entry } : entry
+    )
+    .filter((entry: any) => entry?.substance?.trim())
+    .map((entry: any) => ({
+      substance: entry.substance.trim(),
+      ...(entry.reaction?.trim() ? { reaction: entry.reaction.trim() } : {}),
+      severity: SEVERITIES.includes(entry.severity)
+        ? entry.severity
+        : "moderate",
+      ...(entry.recorded_at ? { recorded_at: entry.recorded_at } : {}),
+    }));
+}
+
+/**
+ * One-line descriptions for display, e.g. "Penicillin (rash, severe)"
+ */
+export function describeAllergies(raw: any): string[] {
+  return normalizeAllergies(raw).map((allergy) => {
+    const detail = [allergy.reaction, allergy.severity]
+      .filter(Boolean)
+      .join(", ");
+    return `${allergy.substance} (${detail})`;
+  });
+}
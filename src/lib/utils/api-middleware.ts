@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { authenticateRequest, AuthUser } from "./auth-helper";
+import { Permission, PERMISSION_MATRIX } from "./permissions";
+import { logAccessDenied } from "./access-log";
 
 /**
- * Response type for authenticated API handlers
+ * Response type for authenticated API handlers. The route context (dynamic
+ * segment params) is passed through for routes such as `[batchId]`.
  */
 export type AuthenticatedHandler<T = any> = (
   request: NextRequest,
-  user: AuthUser
+  user: AuthUser,
+  context?: any
 ) => Promise<NextResponse<T>>;
 
 /**
@@ -21,21 +25,33 @@ export type AuthenticatedHandler<T = any> = (
 export function withAuth<T = any>(
   handler: AuthenticatedHandler<T>,
   options?: {
-    requiredRoles?: string[];
+    requiredRoles?: readonly string[];
+    permission?: Permission;
+    // Two-factor enrolment routes, open to users who must still enrol
+    allowTwoFactorSetup?: boolean;
   }
-): (request: NextRequest) => Promise<NextResponse<T>> {
-  return async (request: NextRequest) => {
+): (request: NextRequest, context?: any) => Promise<NextResponse<T>> {
+  return async (request: NextRequest, context?: any) => {
     try {
       // Authenticate the request
-      const authResult = await authenticateRequest(request);
+      const authResult = await authenticateRequest(request, {
+        allowTwoFactorSetup: options?.allowTwoFactorSetup,
+      });
 
       if (!authResult.success || !authResult.user) {
+        const status = authResult.status || 401;
+        await logAccessDenied(request, {
+          status,
+          reason: authResult.error || "Authentication required",
+          permission: options?.permission,
+        });
         return NextResponse.json(
           {
             success: false,
             error: authResult.error || "Authentication required",
+            ...(authResult.code && { code: authResult.code }),
           },
-          { status: 401 }
+          { status }
         ) as NextResponse<T>;
       }
 
@@ -46,6 +62,12 @@ export function withAuth<T = any>(
         );
 
         if (!hasRequiredRole) {
+          await logAccessDenied(request, {
+            status: 403,
+            reason: "Insufficient permissions",
+            user: authResult.user,
+            permission: options.permission,
+          });
           return NextResponse.json(
             {
               success: false,
@@ -57,7 +79,7 @@ export function withAuth<T = any>(
       }
 
       // Call the handler with the authenticated user
-      return await handler(request, authResult.user);
+      return await handler(request, authResult.user, context);
     } catch (error) {
       console.error("Authentication middleware error:", error);
       return NextResponse.json(
@@ -93,3 +115,20 @@ export const withAnyRole = <T = any>(
   handler: AuthenticatedHandler<T>,
   roles: string[]
 ) => withAuth(handler, { requiredRoles: roles });
+
+/**
+ * Middleware that grants access from the permission matrix
+ *
+ * Usage:
+ * export const GET = withPermission("reporting:read", async (request, user) => {
+ *   ...
+ * });
+ */
+export const withPermission = <T = any>(
+  permission: Permission,
+  handler: AuthenticatedHandler<T>
+) =>
+  withAuth(handler, {
+    requiredRoles: PERMISSION_MATRIX[permission],
+    permission,
+  });
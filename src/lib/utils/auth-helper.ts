@@ -1,28 +1,138 @@
 import { NextRequest } from "next/server";
 import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
+import { UserRole } from "@/types/auth";
+import { connectToDatabase } from "@/lib/database/connection";
+import { UserModel } from "@/lib/database/models";
+import { SessionModel } from "@/lib/database/sessionModels";
+import { getPharmacistPharmacyId } from "./pharmacy-scope";
+import { isTwoFactorRequired } from "./two-factor";
 
-const JWT_SECRET =
-  process.env.JWT_SECRET || "your-secret-key-change-in-production";
+// Access tokens are short-lived; the client renews them with the refresh
+// token cookie (see src/lib/utils/sessions.ts)
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * The secret every access token is signed and verified with. There is no
+ * fallback: a guessable default would let anyone mint tokens.
+ */
+export function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error(
+      "JWT_SECRET is not set. Add a random string of at least 32 characters to the environment."
+    );
+  }
+  return secret;
+}
+
+/**
+ * Refuse to start without a usable signing secret. Called once at server
+ * startup from src/instrumentation.ts.
+ */
+export function assertAuthConfigured(): void {
+  const secret = getJwtSecret();
+  if (secret.length < MIN_SECRET_LENGTH) {
+    const message = `JWT_SECRET must be at least ${MIN_SECRET_LENGTH} characters long`;
+    if (process.env.NODE_ENV === "production") {
+      throw new Error(message);
+    }
+    console.warn(`⚠️  ${message}`);
+  }
+}
+
+/**
+ * Claims carried by every access token
+ */
+export interface AccessTokenClaims {
+  userId: string;
+  email: string;
+  username?: string;
+  role: UserRole;
+  // Pharmacy the pharmacist works at when the token was issued. Routes
+  // still resolve the pharmacy scope from the Pharmacist record.
+  pharmacyId?: string;
+  walletAddress?: string;
+  // Sign-in session the token belongs to
+  sid: string;
+  // The role requires two-factor authentication and the user has not
+  // enrolled yet; only the enrolment routes accept the token
+  twoFactorSetupRequired?: boolean;
+}
 
 export interface AuthUser {
   id: string;
   email: string;
-  role: "patient" | "doctor" | "pharmacist" | "admin";
+  role: UserRole;
   firstName?: string;
   lastName?: string;
+  pharmacyId?: string;
+  walletAddress?: string;
+  // Sign-in session the access token belongs to
+  sessionId?: string;
+  twoFactorSetupRequired?: boolean;
 }
 
 export interface AuthResult {
   success: boolean;
   user?: AuthUser;
   error?: string;
+  // Refusals default to 401; a 403 carries a machine-readable code
+  status?: 401 | 403;
+  code?: string;
+}
+
+/**
+ * Whether the session behind an access token is still live and its user
+ * still active. Revoking a session or deactivating the user takes effect on
+ * the next request rather than when the token expires.
+ */
+async function isSessionActive(
+  sessionId: string,
+  userId: string
+): Promise<boolean> {
+  if (
+    !mongoose.Types.ObjectId.isValid(sessionId) ||
+    !mongoose.Types.ObjectId.isValid(userId)
+  ) {
+    return false;
+  }
+
+  await connectToDatabase();
+  const [session, user] = await Promise.all([
+    SessionModel.exists({
+      _id: sessionId,
+      user_id: userId,
+      revoked_at: null,
+      expires_at: { $gt: new Date() },
+    }),
+    UserModel.exists({ _id: userId, is_active: true }),
+  ]);
+  return Boolean(session && user);
+}
+
+/**
+ * Verify an access token's signature and expiry and return its claims.
+ * Throws when the token is invalid.
+ */
+export function verifyAccessToken(token: string): AccessTokenClaims {
+  const claims = jwt.verify(token, getJwtSecret()) as AccessTokenClaims;
+  if (!claims.userId || !claims.role || !claims.sid) {
+    throw new Error("Access token is missing required claims");
+  }
+  return claims;
 }
 
 /**
- * Authenticate request and extract user from JWT token
+ * Authenticate request and extract user from JWT token. Users who still
+ * have to enrol in two-factor authentication are refused unless the route
+ * is part of enrolment (allowTwoFactorSetup).
  */
 export async function authenticateRequest(
-  request: NextRequest
+  request: NextRequest,
+  options?: { allowTwoFactorSetup?: boolean }
 ): Promise<AuthResult> {
   try {
     // Get token from Authorization header or cookies
@@ -41,19 +151,36 @@ export async function authenticateRequest(
       };
     }
 
-    // Verify JWT token
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    const claims = verifyAccessToken(token);
+
+    if (!(await isSessionActive(claims.sid, claims.userId))) {
+      return {
+        success: false,
+        error: "Session has ended. Please sign in again.",
+      };
+    }
 
-    // Normalize the decoded token format (handle both 'id' and 'userId')
     const user: AuthUser = {
-      id: decoded.id || decoded.userId,
-      email: decoded.email,
-      role: decoded.role,
-      firstName: decoded.firstName || decoded.username?.split(" ")[0],
-      lastName:
-        decoded.lastName || decoded.username?.split(" ").slice(1).join(" "),
+      id: claims.userId,
+      email: claims.email,
+      role: claims.role,
+      firstName: claims.username?.split(" ")[0],
+      lastName: claims.username?.split(" ").slice(1).join(" "),
+      pharmacyId: claims.pharmacyId,
+      walletAddress: claims.walletAddress,
+      sessionId: claims.sid,
+      twoFactorSetupRequired: claims.twoFactorSetupRequired,
     };
 
+    if (user.twoFactorSetupRequired && !options?.allowTwoFactorSetup) {
+      return {
+        success: false,
+        status: 403,
+        code: "TWO_FACTOR_SETUP_REQUIRED",
+        error: "Set up two-factor authentication to continue",
+      };
+    }
+
     return {
       success: true,
       user: user,
@@ -68,11 +195,53 @@ export async function authenticateRequest(
 }
 
 /**
- * Generate JWT token for user
+ * The authenticated caller, or null. For routes that are not wrapped with
+ * withAuth and answer unauthenticated requests themselves.
  */
-export function generateAuthToken(user: AuthUser): string {
-  return jwt.sign(user, JWT_SECRET, {
-    expiresIn: "7d", // Token expires in 7 days
+export async function getAuthUser(
+  request: NextRequest
+): Promise<AuthUser | null> {
+  const result = await authenticateRequest(request);
+  return result.success && result.user ? result.user : null;
+}
+
+/**
+ * Generate JWT access token from its claims
+ */
+export function generateAuthToken(claims: AccessTokenClaims): string {
+  return jwt.sign(claims, getJwtSecret(), {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  });
+}
+
+/**
+ * Access token for a user's session, with claims read fresh from the
+ * database, or null when the user has been deactivated or removed
+ */
+export async function issueAccessToken(
+  userId: string,
+  sessionId: string
+): Promise<string | null> {
+  await connectToDatabase();
+
+  const user: any = await UserModel.findOne({ _id: userId, is_active: true })
+    .select("email username role walletAddress two_factor_enabled")
+    .lean();
+  if (!user) return null;
+
+  const pharmacyId =
+    user.role === "pharmacist" ? await getPharmacistPharmacyId(userId) : null;
+
+  return generateAuthToken({
+    userId: user._id.toString(),
+    email: user.email,
+    username: user.username,
+    role: user.role as UserRole,
+    ...(pharmacyId && { pharmacyId }),
+    ...(user.walletAddress && { walletAddress: user.walletAddress }),
+    sid: sessionId,
+    ...(isTwoFactorRequired(user.role) &&
+      !user.two_factor_enabled && { twoFactorSetupRequired: true }),
   });
 }
 
@@ -0,0 +1,194 @@
+/**
+ * Locally maintained clinical screening rules: drug classes, allergy
+ * cross-reactivity, drug-drug interactions and condition contraindications.
+ * Drugs are matched on lower-case generic or brand name; a rule may name a
+ * class from DRUG_CLASSES instead of a single drug.
+ */
+
+export type ScreeningSeverity = "minor" | "moderate" | "severe";
+
+// Members of each drug class, by generic and common brand name
+export const DRUG_CLASSES: Record<string, string[]> = {
+  penicillins: [
+    "penicillin",
+    "amoxicillin",
+    "ampicillin",
+    "co-amoxiclav",
+    "augmentin",
+    "flucloxacillin",
+    "piperacillin",
+  ],
+  cephalosporins: [
+    "cefalexin",
+    "cephalexin",
+    "cefuroxime",
+    "ceftriaxone",
+    "cefixime",
+    "cefazolin",
+  ],
+  sulfonamides: [
+    "sulfamethoxazole",
+    "co-trimoxazole",
+    "bactrim",
+    "sulfasalazine",
+  ],
+  macrolides: ["erythromycin", "clarithromycin", "azithromycin"],
+  nsaids: [
+    "ibuprofen",
+    "naproxen",
+    "diclofenac",
+    "aspirin",
+    "celecoxib",
+    "indomethacin",
+    "meloxicam",
+  ],
+  opioids: [
+    "morphine",
+    "codeine",
+    "tramadol",
+    "oxycodone",
+    "hydrocodone",
+    "fentanyl",
+    "methadone",
+  ],
+  benzodiazepines: ["diazepam", "lorazepam", "alprazolam", "clonazepam"],
+  ssris: [
+    "fluoxetine",
+    "sertraline",
+    "citalopram",
+    "escitalopram",
+    "paroxetine",
+  ],
+  maois: ["phenelzine", "tranylcypromine", "selegiline", "moclobemide"],
+  statins: ["simvastatin", "atorvastatin", "lovastatin", "rosuvastatin"],
+  nitrates: ["nitroglycerin", "glyceryl trinitrate", "isosorbide mononitrate"],
+  pde5_inhibitors: ["sildenafil", "tadalafil", "vardenafil"],
+  ace_inhibitors: ["lisinopril", "enalapril", "ramipril", "captopril"],
+  potassium_sparing_diuretics: ["spironolactone", "eplerenone", "amiloride"],
+  anticoagulants: ["warfarin", "apixaban", "rivaroxaban", "dabigatran"],
+  beta_blockers: ["propranolol", "atenolol", "metoprolol", "bisoprolol"],
+};
+
+// A recorded allergy to the first class also flags drugs in the second
+export const ALLERGY_CROSS_REACTIVITY: {
+  allergen: string;
+  crossReactsWith: string;
+  severity: ScreeningSeverity;
+}[] = [
+  {
+    allergen: "penicillins",
+    crossReactsWith: "cephalosporins",
+    severity: "moderate",
+  },
+];
+
+export interface InteractionRule {
+  between: [string, string];
+  severity: ScreeningSeverity;
+  description: string;
+}
+
+export const INTERACTION_RULES: InteractionRule[] = [
+  {
+    between: ["anticoagulants", "nsaids"],
+    severity: "severe",
+    description: "Increased risk of serious bleeding",
+  },
+  {
+    between: ["nitrates", "pde5_inhibitors"],
+    severity: "severe",
+    description: "Risk of profound hypotension; combination contraindicated",
+  },
+  {
+    between: ["ssris", "maois"],
+    severity: "severe",
+    description: "Risk of serotonin syndrome",
+  },
+  {
+    between: ["opioids", "benzodiazepines"],
+    severity: "severe",
+    description: "Additive respiratory depression and sedation",
+  },
+  {
+    between: ["simvastatin", "clarithromycin"],
+    severity: "severe",
+    description: "Raised statin levels with risk of rhabdomyolysis",
+  },
+  {
+    between: ["methotrexate", "co-trimoxazole"],
+    severity: "severe",
+    description: "Increased methotrexate toxicity and bone marrow suppression",
+  },
+  {
+    between: ["ace_inhibitors", "potassium_sparing_diuretics"],
+    severity: "moderate",
+    description: "Risk of hyperkalaemia; monitor potassium",
+  },
+  {
+    between: ["warfarin", "macrolides"],
+    severity: "moderate",
+    description: "May raise INR; monitor anticoagulation",
+  },
+  {
+    between: ["ssris", "nsaids"],
+    severity: "moderate",
+    description: "Increased risk of gastrointestinal bleeding",
+  },
+  {
+    between: ["tramadol", "ssris"],
+    severity: "moderate",
+    description: "Risk of serotonin syndrome and lowered seizure threshold",
+  },
+  {
+    between: ["statins", "macrolides"],
+    severity: "minor",
+    description: "May raise statin levels; monitor for myopathy",
+  },
+];
+
+export interface ContraindicationRule {
+  drug: string;
+  // Matched case-insensitively against the patient's medical history
+  conditions: string[];
+  severity: ScreeningSeverity;
+  description: string;
+}
+
+export const CONTRAINDICATION_RULES: ContraindicationRule[] = [
+  {
+    drug: "nsaids",
+    conditions: ["peptic ulcer", "gastric ulcer", "gi bleed"],
+    severity: "severe",
+    description: "NSAIDs can cause ulcer bleeding or perforation",
+  },
+  {
+    drug: "nsaids",
+    conditions: ["kidney disease", "renal failure", "renal impairment"],
+    severity: "moderate",
+    description: "NSAIDs can worsen renal function",
+  },
+  {
+    drug: "beta_blockers",
+    conditions: ["asthma"],
+    severity: "severe",
+    description: "Beta blockers can trigger bronchospasm",
+  },
+  {
+    drug: "metformin",
+    conditions: ["renal failure", "kidney failure"],
+    severity: "severe",
+    description: "Risk of lactic acidosis",
+  },
+  {
+    drug: "warfarin",
+    conditions: ["pregnan"],
+    severity: "severe",
+    description: "Warfarin is teratogenic",
+  },
+  {
+    drug: "ace_inhibitors",
+    conditions: ["pregnan"],
+    severity: "severe",
+    description: "ACE inhibitors can harm the fetus",
+  },
+];
@@ -0,0 +1,210 @@
+/**
+ * Printable dispensing labels. Each fill of a prescription gets a random
+ * verification hash; the label carries it as a QR code linking to the
+ * public verification page, where the batch's movement chain can be
+ * checked without signing in.
+ */
+
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { PDFDocument, PDFFont, StandardFonts, rgb } from "pdf-lib";
+import { appUrl } from "./email-templates";
+
+// 4 x 3 inch label, in PDF points
+const LABEL_WIDTH = 288;
+const LABEL_HEIGHT = 216;
+const MARGIN = 12;
+const QR_SIZE = 68;
+
+export interface DispenseLabelDetails {
+  drugName: string;
+  quantity: number;
+  dosageInstructions: string;
+  frequency?: string;
+  duration?: string;
+  pharmacy: {
+    name: string;
+    address?: string;
+    city?: string;
+    state?: string;
+    zip_code?: string;
+    phone?: string;
+  } | null;
+  lots: { batch_number: string; expiry_date: Date | string }[];
+  dispensedAt: Date | string;
+  verificationHash: string;
+}
+
+export function generateVerificationHash(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+/**
+ * Public page the label's QR code opens
+ */
+export function buildVerificationUrl(verificationHash: string): string {
+  return appUrl(`/verify/${verificationHash}`);
+}
+
+// The standard PDF fonts only cover Latin-1; anything else would throw
+function printable(text: string): string {
+  return text
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+// Greedy word wrap, truncated with an ellipsis past maxLines
+function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  width: number,
+  maxLines: number
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of printable(text).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= width || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    let last = kept[maxLines - 1];
+    while (last && font.widthOfTextAtSize(`${last}...`, size) > width) {
+      last = last.slice(0, -1);
+    }
+    kept[maxLines - 1] = `${last}...`;
+    return kept;
+  }
+  return lines;
+}
+
+/**
+ * Render a single-page label PDF
+ */
+export async function renderDispenseLabel(
+  details: DispenseLabelDetails
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Dispensing label - ${printable(details.drugName)}`);
+  pdf.setCreator("PharmChain");
+
+  const page = pdf.addPage([LABEL_WIDTH, LABEL_HEIGHT]);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const fullWidth = LABEL_WIDTH - 2 * MARGIN;
+  // Text below the header stays clear of the QR code in the corner
+  const columnWidth = fullWidth - QR_SIZE - 8;
+
+  let y = LABEL_HEIGHT - MARGIN;
+  const write = (
+    lines: string[],
+    font: PDFFont,
+    size: number,
+    color = rgb(0, 0, 0)
+  ) => {
+    for (const line of lines) {
+      y -= size + 2;
+      page.drawText(line, { x: MARGIN, y, size, font, color });
+    }
+  };
+  const grey = rgb(0.3, 0.3, 0.3);
+
+  const pharmacy = details.pharmacy;
+  write(wrapText(pharmacy?.name || "Pharmacy", bold, 9, fullWidth, 1), bold, 9);
+  if (pharmacy) {
+    const address = [
+      pharmacy.address,
+      pharmacy.city,
+      [pharmacy.state, pharmacy.zip_code].filter(Boolean).join(" "),
+    ]
+      .filter(Boolean)
+      .join(", ");
+    if (address) {
+      write(wrapText(address, regular, 7, fullWidth, 1), regular, 7, grey);
+    }
+    if (pharmacy.phone) {
+      write([printable(`Tel ${pharmacy.phone}`)], regular, 7, grey);
+    }
+  }
+
+  y -= 4;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: LABEL_WIDTH - MARGIN, y },
+    thickness: 0.5,
+    color: grey,
+  });
+  y -= 2;
+
+  write(wrapText(details.drugName, bold, 11, fullWidth, 2), bold, 11);
+  write([`Qty: ${details.quantity}`], regular, 8);
+  y -= 2;
+  write(
+    wrapText(details.dosageInstructions, regular, 9, columnWidth, 3),
+    regular,
+    9
+  );
+  const schedule = [details.frequency, details.duration]
+    .filter(Boolean)
+    .join(" for ");
+  if (schedule) {
+    write(wrapText(schedule, regular, 8, columnWidth, 1), regular, 8);
+  }
+
+  y -= 4;
+  for (const lot of details.lots.slice(0, 3)) {
+    write(
+      wrapText(
+        `Batch ${lot.batch_number}  Exp ${formatDate(lot.expiry_date)}`,
+        regular,
+        8,
+        columnWidth,
+        1
+      ),
+      regular,
+      8
+    );
+  }
+  write([`Dispensed ${formatDate(details.dispensedAt)}`], regular, 7, grey);
+
+  const qrCode = await QRCode.toBuffer(
+    buildVerificationUrl(details.verificationHash),
+    { type: "png", margin: 1, width: 256 }
+  );
+  const qrImage = await pdf.embedPng(new Uint8Array(qrCode));
+  page.drawImage(qrImage, {
+    x: LABEL_WIDTH - MARGIN - QR_SIZE,
+    y: MARGIN + 8,
+    width: QR_SIZE,
+    height: QR_SIZE,
+  });
+  const caption = "Scan to verify";
+  page.drawText(caption, {
+    x:
+      LABEL_WIDTH -
+      MARGIN -
+      QR_SIZE / 2 -
+      regular.widthOfTextAtSize(caption, 6) / 2,
+    y: MARGIN,
+    size: 6,
+    font: regular,
+    color: grey,
+  });
+
+  return pdf.save();
+}
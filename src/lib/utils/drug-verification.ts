@@ -0,0 +1,166 @@
+/**
+ * Public drug verification. A verification hash resolves either to a
+ * traceability DispensingRecord or to a prescription fill whose label
+ * carried it. The result shows the dispensed batches and their movement
+ * chain but nothing that identifies the patient: no prescription, no
+ * patient wallet address and no notes on dispensings to patients.
+ */
+
+import mongoose from "mongoose";
+import {
+  InventoryTransactionModel,
+  PrescriptionModel,
+} from "@/lib/database/models";
+import {
+  DispensingRecord,
+  DrugBatch,
+  MovementRecord,
+  IDispensingRecord,
+} from "@/lib/database/traceabilityModels";
+import { formatDrugLabel, getPrescribedDrug } from "./formulary";
+import { findDrugBatchId } from "./lots";
+
+const MAX_HASH_LENGTH = 200;
+
+export function isVerificationHashFormat(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    value.length <= MAX_HASH_LENGTH &&
+    /^(0x)?[0-9a-f]+$/i.test(value)
+  );
+}
+
+function publicMovement(movement: any) {
+  const toPatient = movement.movement_type === "dispensed_to_patient";
+  return {
+    movementId: movement._id,
+    movementType: movement.movement_type,
+    fromAddress: movement.from_address,
+    toAddress: toPatient ? null : movement.to_address,
+    quantity: movement.quantity,
+    timestamp: movement.timestamp,
+    notes: toPatient ? undefined : movement.notes,
+  };
+}
+
+/**
+ * A dispensed batch and its movements, oldest first. Lots received without
+ * a registered batch have no traceability record and are returned with
+ * only what the pharmacy's stock knows about them.
+ */
+async function describeBatch(
+  batchId: mongoose.Types.ObjectId | null,
+  lot: { batch_number?: string; expiry_date?: Date; quantity: number }
+) {
+  const batch: any = batchId ? await DrugBatch.findById(batchId).lean() : null;
+  if (!batch) {
+    return {
+      traced: false,
+      drugName: null,
+      batchNumber: lot.batch_number || null,
+      expiryDate: lot.expiry_date || null,
+      quantity: lot.quantity,
+      movementHistory: [],
+    };
+  }
+
+  const movements = await MovementRecord.find({ batch_id: batch._id })
+    .sort({ timestamp: 1 })
+    .lean();
+
+  return {
+    traced: true,
+    drugName: batch.drug_name,
+    batchNumber: batch.batch_number,
+    manufacturer: batch.manufacturer_address,
+    manufacturedDate: batch.manufactured_date,
+    expiryDate: batch.expiry_date,
+    isActive: batch.is_active,
+    quantity: lot.quantity,
+    movementHistory: movements.map(publicMovement),
+  };
+}
+
+async function resolveDispensingRecord(dispensing: IDispensingRecord) {
+  const described = await describeBatch(dispensing.batch_id, {
+    quantity: dispensing.quantity,
+  });
+
+  return {
+    isValid: true,
+    dispensing: {
+      drugName: described.drugName || null,
+      quantity: dispensing.quantity,
+      dispensedAt: dispensing.created_at,
+      pharmacy: null,
+      pharmacistAddress: dispensing.pharmacist_address,
+      blockchainHash: dispensing.onchain_tx_hash || null,
+      isVerified: dispensing.is_verified,
+      verifiedAt: dispensing.verified_at,
+    },
+    batches: [described],
+  };
+}
+
+async function resolveFill(verificationHash: string) {
+  const prescription: any = await PrescriptionModel.findOne({
+    "fills.verification_hash": verificationHash,
+  })
+    .select("fills formulary_id drug_id pharmacy_id")
+    .populate("formulary_id", "name strength dosage_form")
+    .populate("drug_id", "name strength dosage_form")
+    .populate("pharmacy_id", "name city state")
+    .lean();
+  const fill = prescription?.fills?.find(
+    (f: any) => f.verification_hash === verificationHash
+  );
+  if (!fill) return null;
+
+  const transaction: any = fill.inventory_transaction_id
+    ? await InventoryTransactionModel.findById(fill.inventory_transaction_id)
+        .select("lots")
+        .lean()
+    : null;
+
+  const batches = [];
+  for (const lot of transaction?.lots || []) {
+    const batchId =
+      lot.drug_batch_id || (await findDrugBatchId(lot.batch_number));
+    batches.push(await describeBatch(batchId, lot));
+  }
+
+  const pharmacy = prescription.pharmacy_id;
+  return {
+    isValid: true,
+    dispensing: {
+      drugName: formatDrugLabel(getPrescribedDrug(prescription)),
+      quantity: fill.quantity,
+      dispensedAt: fill.dispensed_at,
+      pharmacy: pharmacy?.name
+        ? { name: pharmacy.name, city: pharmacy.city, state: pharmacy.state }
+        : null,
+      blockchainHash: fill.blockchain_hash || null,
+    },
+    batches,
+  };
+}
+
+/**
+ * Look up a verification hash. Returns null when it matches nothing; the
+ * DispensingRecord is returned as well so the caller can confirm it on
+ * chain.
+ */
+export async function resolveVerification(verificationHash: string) {
+  const dispensing = await DispensingRecord.findOne({
+    verification_hash: verificationHash,
+  });
+  if (dispensing) {
+    return {
+      result: await resolveDispensingRecord(dispensing),
+      dispensingRecord: dispensing,
+    };
+  }
+
+  const result = await resolveFill(verificationHash.toLowerCase());
+  return result ? { result, dispensingRecord: null } : null;
+}
@@ -0,0 +1,133 @@
+/**
+ * Templated emails. Each template renders a subject plus matching plain
+ * text and HTML bodies from its data; values are escaped for the HTML body.
+ */
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTemplates {
+  email_verification: {
+    username: string;
+    link: string;
+    expiresInHours: number;
+  };
+  password_reset: { username: string; link: string; expiresInMinutes: number };
+  password_changed: { username: string };
+  notification: {
+    username: string;
+    title: string;
+    message: string;
+    link?: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplates;
+
+const APP_NAME = "PharmChain";
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Absolute URL for an app path, for links in emails
+ */
+export function appUrl(path: string): string {
+  const base = (process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000")
+    .trim()
+    .replace(/\/+$/, "");
+  return `${base}${path}`;
+}
+
+/**
+ * Wrap paragraphs and an optional button in the shared layout
+ */
+function layout(
+  paragraphs: string[],
+  action?: { label: string; link: string }
+): { text: string; html: string } {
+  const text = [
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${action.link}`] : []),
+    `— ${APP_NAME}`,
+  ].join("\n\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #111827; line-height: 1.5;">
+    <div style="max-width: 560px; margin: 0 auto; padding: 24px;">
+      <h2 style="color: #1e40af;">${APP_NAME}</h2>
+      ${paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join("\n      ")}
+      ${
+        action
+          ? `<p><a href="${escapeHtml(action.link)}" style="display: inline-block; padding: 10px 20px; background: #1e40af; color: #ffffff; border-radius: 6px; text-decoration: none;">${escapeHtml(action.label)}</a></p>
+      <p style="font-size: 12px; color: #6b7280;">If the button does not work, open this link: ${escapeHtml(action.link)}</p>`
+          : ""
+      }
+    </div>
+  </body>
+</html>`;
+
+  return { text, html };
+}
+
+const renderers: {
+  [K in EmailTemplateName]: (data: EmailTemplates[K]) => RenderedEmail;
+} = {
+  email_verification: (data) => ({
+    subject: `Verify your ${APP_NAME} email address`,
+    ...layout(
+      [
+        `Hello ${data.username},`,
+        `Confirm this email address to finish setting up your ${APP_NAME} account. The link expires in ${data.expiresInHours} hours.`,
+        "If you did not create an account, you can ignore this email.",
+      ],
+      { label: "Verify email", link: data.link }
+    ),
+  }),
+
+  password_reset: (data) => ({
+    subject: `Reset your ${APP_NAME} password`,
+    ...layout(
+      [
+        `Hello ${data.username},`,
+        `We received a request to reset your password. The link works once and expires in ${data.expiresInMinutes} minutes.`,
+        "If you did not ask for this, you can ignore this email; your password is unchanged.",
+      ],
+      { label: "Reset password", link: data.link }
+    ),
+  }),
+
+  password_changed: (data) => ({
+    subject: `Your ${APP_NAME} password was changed`,
+    ...layout([
+      `Hello ${data.username},`,
+      "The password for your account was just changed.",
+      "If you did not do this, reset your password immediately and contact an administrator.",
+    ]),
+  }),
+
+  notification: (data) => ({
+    subject: `${APP_NAME}: ${data.title}`,
+    ...layout(
+      [`Hello ${data.username},`, data.message],
+      data.link ? { label: "Open PharmChain", link: data.link } : undefined
+    ),
+  }),
+};
+
+export function renderEmail<K extends EmailTemplateName>(
+  template: K,
+  data: EmailTemplates[K]
+): RenderedEmail {
+  return renderers[template](data);
+}
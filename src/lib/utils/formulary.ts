@@ -0,0 +1,88 @@
+/**
+ * Drug formulary helpers shared by the prescribing, inventory and
+ * dispensing routes. Doctors prescribe formulary items; each pharmacy's
+ * stock entry (Drug) references the item it holds.
+ */
+
+import mongoose from "mongoose";
+import { FormularyItemModel } from "@/lib/database/formularyModels";
+
+/**
+ * Escape user input for use inside a regular expression
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Typeahead search over active formulary items by name, generic name or
+ * code prefix
+ */
+export async function searchFormulary(query: string, limit = 20) {
+  const filter: Record<string, any> = { is_active: true };
+
+  if (query.trim()) {
+    const pattern = escapeRegex(query.trim());
+    filter.$or = [
+      { name: { $regex: pattern, $options: "i" } },
+      { generic_name: { $regex: pattern, $options: "i" } },
+      { code: { $regex: `^${pattern}`, $options: "i" } },
+    ];
+  }
+
+  return FormularyItemModel.find(filter)
+    .sort({ name: 1, strength: 1 })
+    .limit(limit)
+    .lean();
+}
+
+/**
+ * Load the active formulary items for a set of ids. Returns the items keyed
+ * by id plus any ids that are unknown or inactive.
+ */
+export async function findActiveFormularyItems(
+  ids: string[]
+): Promise<{ items: Map<string, any>; missing: string[] }> {
+  const valid = ids.filter((id) => mongoose.Types.ObjectId.isValid(id));
+  const found = await FormularyItemModel.find({
+    _id: { $in: valid },
+    is_active: true,
+  }).lean();
+
+  const items = new Map<string, any>(
+    found.map((item: any) => [item._id.toString(), item])
+  );
+  return { items, missing: ids.filter((id) => !items.has(id)) };
+}
+
+/**
+ * Product fields a stock entry copies from its formulary item
+ */
+export function formularyDrugFields(item: any) {
+  return {
+    formulary_id: item._id,
+    name: item.name,
+    generic_name: item.generic_name,
+    strength: item.strength,
+    dosage_form: item.dosage_form,
+  };
+}
+
+/**
+ * Display name for a formulary item or stock entry, e.g.
+ * "Amoxicillin 500mg capsule"
+ */
+export function formatDrugLabel(drug: any): string {
+  if (!drug) return "Unknown Drug";
+  return [drug.name, drug.strength, drug.dosage_form].filter(Boolean).join(" ");
+}
+
+/**
+ * What a populated prescription prescribes: its formulary item, or the
+ * stock entry for prescriptions written before the formulary existed
+ */
+export function getPrescribedDrug(prescription: any): any {
+  return prescription?.formulary_id?.name
+    ? prescription.formulary_id
+    : prescription?.drug_id;
+}
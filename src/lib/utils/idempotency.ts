@@ -0,0 +1,140 @@
+import { NextRequest } from "next/server";
+import crypto from "crypto";
+import { ClientSession } from "mongoose";
+import { IdempotencyRecord } from "@/lib/database/idempotencyModels";
+
+export type IdempotencyScope = "dispense";
+
+export type IdempotencyClaim =
+  | { state: "claimed" }
+  | { state: "replay"; status: number; body: any }
+  | { state: "in_progress" }
+  | { state: "mismatch" };
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+const MONGO_DUPLICATE_KEY = 11000;
+
+/**
+ * Read the client-supplied idempotency key from the Idempotency-Key header,
+ * falling back to an `idempotencyKey` field in the request body
+ */
+export function getIdempotencyKey(
+  request: NextRequest,
+  body?: { idempotencyKey?: unknown }
+): string | null {
+  const key =
+    request.headers.get("idempotency-key") ||
+    (typeof body?.idempotencyKey === "string" ? body.idempotencyKey : null);
+  return key ? key.trim() : null;
+}
+
+/**
+ * Check that a key is safe to store and long enough to be unique
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/**
+ * Fingerprint the request payload so a key cannot be reused for a
+ * different operation
+ */
+export function hashRequestPayload(payload: unknown): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(payload))
+    .digest("hex");
+}
+
+/**
+ * Claim a key before performing the operation. Exactly one request per
+ * (key, user, scope) receives `claimed`; retries see the stored outcome.
+ */
+export async function claimIdempotencyKey(
+  key: string,
+  userId: string,
+  scope: IdempotencyScope,
+  requestHash: string
+): Promise<IdempotencyClaim> {
+  try {
+    await IdempotencyRecord.create({
+      key,
+      user_id: userId,
+      scope,
+      request_hash: requestHash,
+      status: "in_progress",
+    });
+    return { state: "claimed" };
+  } catch (error: any) {
+    if (error?.code !== MONGO_DUPLICATE_KEY) {
+      throw error;
+    }
+  }
+
+  const existing = await IdempotencyRecord.findOne({
+    key,
+    user_id: userId,
+    scope,
+  }).lean<any>();
+
+  if (!existing) {
+    // Expired between the insert attempt and the lookup; let the caller retry
+    return { state: "in_progress" };
+  }
+
+  if (existing.request_hash !== requestHash) {
+    return { state: "mismatch" };
+  }
+
+  if (existing.status === "completed") {
+    return {
+      state: "replay",
+      status: existing.response_status || 200,
+      body: existing.response_body,
+    };
+  }
+
+  return { state: "in_progress" };
+}
+
+/**
+ * Mark a claimed key as completed. Pass the transaction session so the
+ * key flips atomically with the work it protects.
+ */
+export async function completeIdempotencyKey(
+  key: string,
+  userId: string,
+  scope: IdempotencyScope,
+  result: { status: number; body?: any },
+  session?: ClientSession
+): Promise<void> {
+  const update: any = {
+    status: "completed",
+    response_status: result.status,
+  };
+  if (result.body !== undefined) {
+    update.response_body = result.body;
+  }
+
+  await IdempotencyRecord.updateOne(
+    { key, user_id: userId, scope },
+    { $set: update },
+    { session }
+  );
+}
+
+/**
+ * Release a claimed key after a failed attempt so the client can retry
+ */
+export async function releaseIdempotencyKey(
+  key: string,
+  userId: string,
+  scope: IdempotencyScope
+): Promise<void> {
+  await IdempotencyRecord.deleteOne({
+    key,
+    user_id: userId,
+    scope,
+    status: "in_progress",
+  });
+}
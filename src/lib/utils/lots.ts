@@ -0,0 +1,215 @@
+/**
+ * Lot-level stock helpers shared by the inventory and dispensing routes.
+ * A drug's stock is held in `lots`; its top-level batch_number, expiry_date
+ * and stock_quantity are kept as a summary of those lots.
+ */
+
+import mongoose from "mongoose";
+import { DrugBatch } from "@/lib/database/traceabilityModels";
+
+export interface LotAllocation {
+  lot_id: mongoose.Types.ObjectId;
+  batch_number: string;
+  expiry_date: Date;
+  quantity: number;
+  // Traceability batch the lot was received from, when known
+  drug_batch_id?: mongoose.Types.ObjectId;
+}
+
+/**
+ * Build a lot for received stock. Ids are assigned here rather than left to
+ * the schema so they exist even when a schemaless Drug model is in use.
+ */
+export function newLot(lot: {
+  batch_number: string;
+  expiry_date: Date;
+  quantity: number;
+  drug_batch_id?: mongoose.Types.ObjectId | null;
+}) {
+  return {
+    _id: new mongoose.Types.ObjectId(),
+    batch_number: lot.batch_number,
+    expiry_date: lot.expiry_date,
+    quantity: lot.quantity,
+    received_at: new Date(),
+    ...(lot.drug_batch_id ? { drug_batch_id: lot.drug_batch_id } : {}),
+  };
+}
+
+/**
+ * Find the traceability batch registered under a batch number, so a lot
+ * can be traced back to its manufacturer record
+ */
+export async function findDrugBatchId(
+  batchNumber?: string
+): Promise<mongoose.Types.ObjectId | null> {
+  if (!batchNumber) return null;
+  const batch = await DrugBatch.findOne({ batch_number: batchNumber })
+    .select("_id")
+    .lean();
+  return (batch as any)?._id || null;
+}
+
+/**
+ * Lots of a drug, oldest expiry first. Drugs created before lot tracking
+ * have no lots; their single batch is returned as a lot without an id.
+ */
+export function getLots(drug: any): any[] {
+  const lots = drug.lots?.length
+    ? [...drug.lots]
+    : drug.stock_quantity > 0
+      ? [
+          {
+            batch_number: drug.batch_number || "UNSPECIFIED",
+            expiry_date: drug.expiry_date,
+            quantity: drug.stock_quantity,
+          },
+        ]
+      : [];
+
+  return lots.sort(
+    (a, b) =>
+      new Date(a.expiry_date).getTime() - new Date(b.expiry_date).getTime()
+  );
+}
+
+/**
+ * Move a pre-lot drug's stock into a lot so it can be allocated by id.
+ * Returns the update to apply, or null if the drug already uses lots.
+ */
+export function legacyLotUpdate(drug: any): Record<string, any> | null {
+  if (drug.lots?.length || !(drug.stock_quantity > 0)) return null;
+  return {
+    $set: {
+      lots: [
+        newLot({
+          batch_number: drug.batch_number || "UNSPECIFIED",
+          expiry_date: drug.expiry_date,
+          quantity: drug.stock_quantity,
+        }),
+      ],
+    },
+  };
+}
+
+/**
+ * Pick lots first-expiry-first-out until `quantity` is covered. Expired
+ * lots are skipped unless `includeExpired` is set (e.g. writing off expired
+ * stock), and lots frozen by a recall unless `includeRecalled` is set.
+ * Returns null when the usable lots cannot cover the quantity.
+ */
+export function allocateFefo(
+  drug: any,
+  quantity: number,
+  options: {
+    includeExpired?: boolean;
+    includeRecalled?: boolean;
+    now?: Date;
+  } = {}
+): LotAllocation[] | null {
+  const now = options.now || new Date();
+  const allocation: LotAllocation[] = [];
+  let outstanding = quantity;
+
+  for (const lot of getLots(drug)) {
+    if (outstanding === 0) break;
+    if (!lot._id || lot.quantity <= 0) continue;
+    if (!options.includeExpired && new Date(lot.expiry_date) < now) continue;
+    if (!options.includeRecalled && lot.recall_id) continue;
+
+    const taken = Math.min(lot.quantity, outstanding);
+    allocation.push({
+      lot_id: lot._id,
+      batch_number: lot.batch_number,
+      expiry_date: lot.expiry_date,
+      quantity: taken,
+      ...(lot.drug_batch_id ? { drug_batch_id: lot.drug_batch_id } : {}),
+    });
+    outstanding -= taken;
+  }
+
+  return outstanding === 0 ? allocation : null;
+}
+
+/**
+ * Quantity that can still be dispensed, i.e. held in unexpired lots that
+ * are not under recall
+ */
+export function getDispensableQuantity(drug: any, now = new Date()): number {
+  return getLots(drug)
+    .filter((lot) => new Date(lot.expiry_date) >= now && !lot.recall_id)
+    .reduce((sum, lot) => sum + lot.quantity, 0);
+}
+
+/**
+ * Quantity frozen in lots under recall
+ */
+export function getRecalledQuantity(drug: any): number {
+  return getLots(drug)
+    .filter((lot) => lot.recall_id)
+    .reduce((sum, lot) => sum + lot.quantity, 0);
+}
+
+/**
+ * Conditional update that takes an allocation out of a drug's lots. The
+ * filter re-checks every lot balance so a concurrent change makes the
+ * update match nothing instead of driving a lot negative. Lots must not be
+ * under recall, or must be frozen by `recallId` when removing recalled stock.
+ */
+export function buildLotDecrement(
+  drugId: any,
+  allocation: LotAllocation[],
+  recallId: any = null
+): {
+  filter: Record<string, any>;
+  update: Record<string, any>;
+  arrayFilters: Record<string, any>[];
+} {
+  const total = allocation.reduce((sum, a) => sum + a.quantity, 0);
+  const inc: Record<string, number> = { stock_quantity: -total };
+  const arrayFilters: Record<string, any>[] = [];
+
+  allocation.forEach((a, i) => {
+    inc[`lots.$[lot${i}].quantity`] = -a.quantity;
+    arrayFilters.push({ [`lot${i}._id`]: a.lot_id });
+  });
+
+  return {
+    filter: {
+      _id: drugId,
+      stock_quantity: { $gte: total },
+      $and: allocation.map((a) => ({
+        lots: {
+          $elemMatch: {
+            _id: a.lot_id,
+            quantity: { $gte: a.quantity },
+            recall_id: recallId,
+          },
+        },
+      })),
+    },
+    update: { $inc: inc },
+    arrayFilters,
+  };
+}
+
+/**
+ * Summary fields for a drug after its lots change: total stock plus the
+ * batch number and expiry of the earliest-expiring lot still in stock
+ */
+export function summarizeLots(drug: any): {
+  stock_quantity: number;
+  batch_number?: string;
+  expiry_date?: Date;
+} {
+  const lots = getLots(drug);
+  const inStock = lots.filter((lot) => lot.quantity > 0);
+  const next = inStock[0] || lots[lots.length - 1];
+
+  return {
+    stock_quantity: inStock.reduce((sum, lot) => sum + lot.quantity, 0),
+    ...(next
+      ? { batch_number: next.batch_number, expiry_date: next.expiry_date }
+      : {}),
+  };
+}
@@ -0,0 +1,342 @@
+/**
+ * Patient-controlled access to records. Doctors and pharmacies see a
+ * patient's details, prescriptions and history only while the patient has
+ * granted them access, or during a break-glass window opened with a written
+ * justification. Every break-glass access is recorded and the patient, admins
+ * and auditors are told about it. Admins and auditors are not limited here.
+ */
+
+import mongoose from "mongoose";
+import { NextRequest } from "next/server";
+import {
+  DoctorModel,
+  PatientModel,
+  PharmacyModel,
+  UserModel,
+} from "@/lib/database/models";
+import {
+  PatientAccessGrantModel,
+  GranteeType,
+} from "@/lib/database/accessModels";
+import { BreakGlassAccess } from "@/lib/database/securityModels";
+import { notificationService } from "@/lib/services/NotificationService";
+import { getPharmacistPharmacyId } from "./pharmacy-scope";
+import { getClientIpAddress } from "./access-log";
+
+// How long a break-glass access lasts before a new justification is needed
+export const BREAK_GLASS_DURATION_MINUTES = 60;
+export const MIN_JUSTIFICATION_LENGTH = 20;
+const MAX_JUSTIFICATION_LENGTH = 1000;
+
+// Roles whose view of patients depends on grants
+const GRANT_SCOPED_ROLES = ["doctor", "pharmacist"];
+
+export type AccessBasis = "grant" | "break_glass" | "unrestricted";
+
+interface Grantee {
+  type: GranteeType;
+  id: string;
+}
+
+// Access failure raised while checking or changing patient access
+export class PatientAccessError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, PatientAccessError.prototype);
+  }
+}
+
+/**
+ * Whether a role only sees patients who granted it access
+ */
+export function isGrantScopedRole(role: string): boolean {
+  return GRANT_SCOPED_ROLES.includes(role);
+}
+
+/**
+ * Filter matching grants that are neither revoked nor expired
+ */
+export function activeGrantFilter(now = new Date()) {
+  return {
+    revoked_at: null,
+    $or: [{ expires_at: null }, { expires_at: { $gt: now } }],
+  };
+}
+
+/**
+ * Doctor record or pharmacy a user receives grants through. Pharmacists
+ * receive them through the pharmacy they work at.
+ */
+async function resolveGrantee(user: {
+  id: string;
+  role: string;
+}): Promise<Grantee | null> {
+  if (user.role === "doctor") {
+    const doctor: any = await DoctorModel.findOne({ user_id: user.id })
+      .select("_id")
+      .lean();
+    return doctor ? { type: "doctor", id: doctor._id.toString() } : null;
+  }
+  if (user.role === "pharmacist") {
+    const pharmacyId = await getPharmacistPharmacyId(user.id);
+    return pharmacyId ? { type: "pharmacy", id: pharmacyId } : null;
+  }
+  return null;
+}
+
+const granteeFilter = (grantee: Grantee) =>
+  grantee.type === "doctor"
+    ? { grantee_type: "doctor", doctor_id: grantee.id }
+    : { grantee_type: "pharmacy", pharmacy_id: grantee.id };
+
+/**
+ * Patient record IDs the user may currently see, or null when the user's
+ * role is not limited by grants
+ */
+export async function findAccessiblePatientIds(user: {
+  id: string;
+  role: string;
+}): Promise<string[] | null> {
+  if (!isGrantScopedRole(user.role)) return null;
+
+  const now = new Date();
+  const grantee = await resolveGrantee(user);
+  const [granted, emergency] = await Promise.all([
+    grantee
+      ? PatientAccessGrantModel.find({
+          ...granteeFilter(grantee),
+          ...activeGrantFilter(now),
+        }).distinct("patient_id")
+      : Promise.resolve([]),
+    BreakGlassAccess.find({
+      user_id: user.id,
+      expires_at: { $gt: now },
+    }).distinct("patient_id"),
+  ]);
+
+  return Array.from(
+    new Set([...granted, ...emergency].map((id: any) => id.toString()))
+  );
+}
+
+/**
+ * How the user may see a patient's records, or null if they may not
+ */
+export async function getPatientAccess(
+  user: { id: string; role: string },
+  patientId: any
+): Promise<AccessBasis | null> {
+  if (!isGrantScopedRole(user.role)) return "unrestricted";
+
+  const now = new Date();
+  const grantee = await resolveGrantee(user);
+  if (
+    grantee &&
+    (await PatientAccessGrantModel.exists({
+      patient_id: patientId,
+      ...granteeFilter(grantee),
+      ...activeGrantFilter(now),
+    }))
+  ) {
+    return "grant";
+  }
+
+  if (
+    await BreakGlassAccess.exists({
+      user_id: user.id,
+      patient_id: patientId,
+      expires_at: { $gt: now },
+    })
+  ) {
+    return "break_glass";
+  }
+
+  return null;
+}
+
+/**
+ * Refuse users the patient has not granted access to
+ */
+export async function assertPatientAccess(
+  user: { id: string; role: string },
+  patientId: any
+): Promise<AccessBasis> {
+  const access = await getPatientAccess(user, patientId);
+  if (!access) {
+    throw new PatientAccessError(
+      403,
+      "This patient has not granted you access to their records. Ask the patient to grant access, or use emergency access."
+    );
+  }
+  return access;
+}
+
+/**
+ * Grant a doctor or pharmacy access to a patient's records. Granting again
+ * replaces the expiry of the existing grant.
+ */
+export async function grantPatientAccess(
+  patientId: any,
+  grantedBy: string,
+  body: any
+) {
+  const { doctorId, pharmacyId, expiresAt } = body || {};
+
+  if (!doctorId === !pharmacyId) {
+    throw new PatientAccessError(
+      400,
+      "Choose either a doctor or a pharmacy to grant access to"
+    );
+  }
+
+  const granteeId = String(doctorId || pharmacyId);
+  if (!mongoose.Types.ObjectId.isValid(granteeId)) {
+    throw new PatientAccessError(400, "Invalid doctor or pharmacy ID");
+  }
+
+  let expires: Date | null = null;
+  if (expiresAt !== undefined && expiresAt !== null && expiresAt !== "") {
+    expires = new Date(expiresAt);
+    if (isNaN(expires.getTime()) || expires <= new Date()) {
+      throw new PatientAccessError(400, "Expiry must be a future date");
+    }
+  }
+
+  const grantee: Grantee = doctorId
+    ? { type: "doctor", id: granteeId }
+    : { type: "pharmacy", id: granteeId };
+  const exists =
+    grantee.type === "doctor"
+      ? await DoctorModel.exists({ _id: granteeId })
+      : await PharmacyModel.exists({ _id: granteeId, is_active: true });
+  if (!exists) {
+    throw new PatientAccessError(
+      404,
+      grantee.type === "doctor" ? "Doctor not found" : "Pharmacy not found"
+    );
+  }
+
+  return PatientAccessGrantModel.findOneAndUpdate(
+    {
+      patient_id: patientId,
+      ...granteeFilter(grantee),
+      ...activeGrantFilter(),
+    },
+    {
+      $set: { expires_at: expires },
+      $setOnInsert: { granted_by: grantedBy },
+    },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+}
+
+/**
+ * Revoke one of the patient's grants
+ */
+export async function revokePatientAccess(
+  patientId: any,
+  grantId: string,
+  revokedBy: string
+) {
+  if (!mongoose.Types.ObjectId.isValid(grantId)) {
+    throw new PatientAccessError(400, "Invalid grant ID");
+  }
+
+  const grant = await PatientAccessGrantModel.findOneAndUpdate(
+    { _id: grantId, patient_id: patientId, revoked_at: null },
+    { $set: { revoked_at: new Date(), revoked_by: revokedBy } },
+    { new: true }
+  );
+  if (!grant) {
+    throw new PatientAccessError(404, "Active grant not found");
+  }
+  return grant;
+}
+
+/**
+ * Open a break-glass window on a patient's records. The patient is
+ * identified by user ID or medical record number.
+ */
+export async function startBreakGlassAccess(
+  request: NextRequest,
+  user: { id: string; role: string },
+  body: any
+) {
+  if (!isGrantScopedRole(user.role)) {
+    throw new PatientAccessError(
+      403,
+      "Emergency access is only for doctors and pharmacists"
+    );
+  }
+
+  const justification =
+    typeof body?.justification === "string" ? body.justification.trim() : "";
+  if (justification.length < MIN_JUSTIFICATION_LENGTH) {
+    throw new PatientAccessError(
+      400,
+      `Explain the emergency in at least ${MIN_JUSTIFICATION_LENGTH} characters`
+    );
+  }
+  if (justification.length > MAX_JUSTIFICATION_LENGTH) {
+    throw new PatientAccessError(
+      400,
+      `Justification must be at most ${MAX_JUSTIFICATION_LENGTH} characters`
+    );
+  }
+
+  const { patientId, medicalRecordNumber } = body;
+  let patient: any = null;
+  if (patientId) {
+    if (!mongoose.Types.ObjectId.isValid(String(patientId))) {
+      throw new PatientAccessError(400, "Invalid patient ID");
+    }
+    patient = await PatientModel.findOne({ user_id: patientId })
+      .populate("user_id", "username")
+      .lean();
+  } else if (typeof medicalRecordNumber === "string") {
+    patient = await PatientModel.findOne({
+      medical_record_number: medicalRecordNumber.trim(),
+    })
+      .populate("user_id", "username")
+      .lean();
+  } else {
+    throw new PatientAccessError(
+      400,
+      "Patient ID or medical record number is required"
+    );
+  }
+  if (!patient) {
+    throw new PatientAccessError(404, "Patient not found");
+  }
+
+  const expiresAt = new Date(
+    Date.now() + BREAK_GLASS_DURATION_MINUTES * 60 * 1000
+  );
+  const record = await BreakGlassAccess.create({
+    user_id: user.id,
+    role: user.role,
+    patient_id: patient._id,
+    justification,
+    expires_at: expiresAt,
+    ip_address: getClientIpAddress(request),
+    user_agent: request.headers.get("user-agent")?.slice(0, 512),
+  });
+
+  console.warn(
+    `🚨 Break-glass access to patient ${patient._id} by ${user.role} ${user.id}: ${justification}`
+  );
+
+  const actor: any = await UserModel.findById(user.id)
+    .select("username")
+    .lean();
+  await notificationService.emergencyAccess(
+    patient.user_id?._id,
+    record,
+    actor?.username || `A ${user.role}`
+  );
+
+  return { patient, record };
+}
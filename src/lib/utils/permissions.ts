@@ -0,0 +1,88 @@
+import { UserRole } from "@/types/auth";
+
+/**
+ * Actions guarded by the API permission matrix
+ */
+export type Permission =
+  | "reporting:read"
+  | "reporting:export"
+  | "fraud:manage"
+  | "traceability:batch:create"
+  | "traceability:movement:record"
+  | "traceability:dispensing:record"
+  | "traceability:verify"
+  | "traceability:audit:read"
+  | "recalls:read"
+  | "recalls:manage"
+  | "recalls:movement:record"
+  | "inventory:alerts:read"
+  | "inventory:reports:read"
+  | "formulary:read"
+  | "formulary:manage"
+  | "patients:list"
+  | "patients:access:manage"
+  | "patients:access:break-glass"
+  | "verification:submit"
+  | "verification:review"
+  | "users:manage";
+
+/**
+ * Roles allowed to perform each action. Keep this the single source of
+ * truth for route access; routes should use withPermission rather than
+ * listing roles inline.
+ */
+export const PERMISSION_MATRIX: Record<Permission, readonly UserRole[]> = {
+  // Compliance reporting and audit exports
+  "reporting:read": ["admin", "auditor"],
+  "reporting:export": ["admin", "auditor"],
+  "fraud:manage": ["admin", "auditor"],
+
+  // Drug traceability chain of custody
+  "traceability:batch:create": ["manufacturer", "admin"],
+  "traceability:movement:record": ["pharmacist", "admin"],
+  "traceability:dispensing:record": ["pharmacist"],
+  "traceability:verify": [
+    "patient",
+    "doctor",
+    "pharmacist",
+    "admin",
+    "auditor",
+    "manufacturer",
+  ],
+  "traceability:audit:read": ["admin", "auditor"],
+
+  // Batch recalls: auditors act as the regulator; pharmacies return or
+  // destroy the stock frozen at their premises
+  "recalls:read": ["pharmacist", "admin", "auditor"],
+  "recalls:manage": ["admin", "auditor"],
+  "recalls:movement:record": ["pharmacist", "admin"],
+
+  // Pharmacy inventory monitoring
+  "inventory:alerts:read": ["pharmacist", "admin"],
+  "inventory:reports:read": ["pharmacist", "admin", "auditor"],
+
+  // Drug formulary catalogue
+  "formulary:read": ["doctor", "pharmacist", "admin", "auditor"],
+  "formulary:manage": ["admin"],
+
+  // Patient directory used when prescribing and dispensing
+  "patients:list": ["doctor", "pharmacist", "admin"],
+
+  // Patient-controlled record access and emergency override
+  "patients:access:manage": ["patient"],
+  "patients:access:break-glass": ["doctor", "pharmacist"],
+
+  // Professional license verification
+  "verification:submit": ["doctor", "pharmacist"],
+  "verification:review": ["admin"],
+
+  // Account activation; deactivating signs the user out everywhere
+  "users:manage": ["admin"],
+};
+
+/**
+ * Check whether a role is granted a permission
+ */
+export function hasPermission(role: string, permission: Permission): boolean {
+  return (PERMISSION_MATRIX[permission] as readonly string[]).includes(role);
+}
@@ -0,0 +1,97 @@
+/**
+ * Pharmacy tenancy helpers shared by the inventory and dispensing routes.
+ * Pharmacists only ever see and change the stock of the pharmacy on their
+ * Pharmacist record; admins and auditors see every pharmacy and may narrow
+ * the view with a pharmacy filter.
+ */
+
+import mongoose from "mongoose";
+import { PharmacistModel } from "@/lib/database/models";
+
+export interface PharmacyScope {
+  // null means every pharmacy (admin or auditor without a filter)
+  pharmacyId: string | null;
+  // True when the scope is pinned to the caller's own pharmacy
+  restricted: boolean;
+}
+
+const CROSS_PHARMACY_ROLES = ["admin", "auditor"];
+
+// Access failure raised while resolving or checking a pharmacy scope
+export class PharmacyScopeError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, PharmacyScopeError.prototype);
+  }
+}
+
+/**
+ * Look up the pharmacy a pharmacist works at, or null if unassigned
+ */
+export async function getPharmacistPharmacyId(
+  userId: string
+): Promise<string | null> {
+  const pharmacist = await PharmacistModel.findOne({ user_id: userId })
+    .select("pharmacy_id")
+    .lean();
+  return (pharmacist as any)?.pharmacy_id?.toString() || null;
+}
+
+/**
+ * Work out which pharmacy a request may read or write. `requested` is the
+ * optional `pharmacyId` filter sent by the client.
+ */
+export async function resolvePharmacyScope(
+  user: { id: string; role: string },
+  requested?: string | null
+): Promise<PharmacyScope> {
+  if (requested && !mongoose.Types.ObjectId.isValid(requested)) {
+    throw new PharmacyScopeError(400, "Invalid pharmacy ID");
+  }
+
+  if (CROSS_PHARMACY_ROLES.includes(user.role)) {
+    return { pharmacyId: requested || null, restricted: false };
+  }
+
+  if (user.role !== "pharmacist") {
+    throw new PharmacyScopeError(403, "Pharmacy inventory access required");
+  }
+
+  const pharmacyId = await getPharmacistPharmacyId(user.id);
+  if (!pharmacyId) {
+    throw new PharmacyScopeError(
+      403,
+      "Your pharmacist profile is not linked to a pharmacy. Ask an administrator to assign one."
+    );
+  }
+
+  if (requested && requested !== pharmacyId) {
+    throw new PharmacyScopeError(
+      403,
+      "You can only access your own pharmacy's inventory"
+    );
+  }
+
+  return { pharmacyId, restricted: true };
+}
+
+/**
+ * Query fragment restricting a Drug query to the scope
+ */
+export function pharmacyFilter(scope: PharmacyScope): Record<string, any> {
+  return scope.pharmacyId
+    ? { pharmacy_id: new mongoose.Types.ObjectId(scope.pharmacyId) }
+    : {};
+}
+
+/**
+ * Check that a drug belongs to the scope. Drugs that predate pharmacy
+ * tenancy have no pharmacy and are only visible across pharmacies.
+ */
+export function isDrugInScope(drug: any, scope: PharmacyScope): boolean {
+  if (!scope.pharmacyId) return true;
+  return drug?.pharmacy_id?.toString() === scope.pharmacyId;
+}
@@ -0,0 +1,64 @@
+/**
+ * Client-side grouping of prescription lines, as returned by the
+ * prescription APIs, under their prescription header
+ */
+
+export interface PrescriptionHeaderSummary {
+  id: string;
+  prescriptionNumber: string;
+  diagnosis: string;
+  diagnosisCodes: string[];
+  notes?: string;
+  status: "pending" | "partially_dispensed" | "dispensed" | "cancelled";
+  lineCount: number;
+  dateIssued: string;
+  signatureHash: string;
+  onchainTxHash?: string;
+}
+
+export interface PrescriptionGroup<T> {
+  // Header id, or the line id for prescriptions written before headers
+  id: string;
+  header: PrescriptionHeaderSummary | null;
+  lines: T[];
+}
+
+/**
+ * Group lines under their header, keeping the order in which each header
+ * first appears and sorting lines by line number
+ */
+export function groupLinesByHeader<
+  T extends {
+    id: string;
+    header?: PrescriptionHeaderSummary | null;
+    lineNumber?: number;
+  },
+>(lines: T[]): PrescriptionGroup<T>[] {
+  const groups = new Map<string, PrescriptionGroup<T>>();
+
+  lines.forEach((line) => {
+    const id = line.header?.id || line.id;
+    const group = groups.get(id);
+    if (group) {
+      group.lines.push(line);
+    } else {
+      groups.set(id, { id, header: line.header || null, lines: [line] });
+    }
+  });
+
+  return Array.from(groups.values()).map((group) => ({
+    ...group,
+    lines: group.lines.sort(
+      (a, b) => (a.lineNumber || 1) - (b.lineNumber || 1)
+    ),
+  }));
+}
+
+/**
+ * Diagnosis with its ICD-10 codes, e.g. "Strep throat (J02.0)"
+ */
+export function formatDiagnosis(header: PrescriptionHeaderSummary): string {
+  return header.diagnosisCodes.length > 0
+    ? `${header.diagnosis} (${header.diagnosisCodes.join(", ")})`
+    : header.diagnosis;
+}
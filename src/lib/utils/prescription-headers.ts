@@ -0,0 +1,157 @@
+/**
+ * Prescription header helpers. A header is one prescribing visit (diagnosis,
+ * codes, signature); each drug on it is a Prescription line that is
+ * dispensed and refilled on its own. The header's status follows its lines.
+ */
+
+import crypto from "crypto";
+import mongoose from "mongoose";
+import {
+  PrescriptionHeaderModel,
+  PrescriptionModel,
+} from "@/lib/database/models";
+
+// ICD-10 code: letter, two characters, optional dot and up to four more
+export const DIAGNOSIS_CODE_PATTERN = /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+
+// Lines never dispensed lapse this long after the prescription was issued
+export const PRESCRIPTION_VALIDITY_DAYS = 90;
+
+const OPEN_LINE_STATUSES = ["pending", "verified", "partially_dispensed"];
+const FILLED_LINE_STATUSES = ["partially_dispensed", "dispensed"];
+
+/**
+ * Normalize diagnosis codes given as an array or a comma-separated string.
+ * Returns the upper-cased unique codes plus any that are not valid ICD-10.
+ */
+export function normalizeDiagnosisCodes(raw: unknown): {
+  codes: string[];
+  invalid: string[];
+} {
+  const entries = Array.isArray(raw)
+    ? raw
+    : typeof raw === "string"
+      ? raw.split(",")
+      : [];
+
+  const codes: string[] = [];
+  const invalid: string[] = [];
+  for (const entry of entries) {
+    const code = String(entry).trim().toUpperCase();
+    if (!code || codes.includes(code)) continue;
+    if (DIAGNOSIS_CODE_PATTERN.test(code)) {
+      codes.push(code);
+    } else {
+      invalid.push(code);
+    }
+  }
+  return { codes, invalid };
+}
+
+/**
+ * Human-readable number shown for a header or line, e.g. RX1A2B3C4D
+ */
+export function formatPrescriptionNumber(id: any): string {
+  return `RX${id.toString().slice(-8).toUpperCase()}`;
+}
+
+/**
+ * SHA-256 over the header and its lines as the prescriber wrote them. The
+ * same value is anchored on-chain, so any later edit to the stored header
+ * or its lines no longer matches.
+ */
+export function computeHeaderSignature(
+  header: {
+    patient_id: any;
+    doctor_id: any;
+    diagnosis: string;
+    diagnosis_codes: string[];
+    date_issued: Date;
+  },
+  lines: {
+    line_number: number;
+    formulary_id: any;
+    quantity_prescribed: number;
+    dosage_instructions: string;
+    frequency?: string;
+    duration?: string;
+    refills_authorized?: number;
+    refill_interval_days?: number;
+  }[]
+): string {
+  // Fixed key order so the hash does not depend on object construction
+  const canonical = JSON.stringify([
+    header.patient_id.toString(),
+    header.doctor_id.toString(),
+    header.diagnosis,
+    header.diagnosis_codes,
+    new Date(header.date_issued).toISOString(),
+    lines.map((line) => [
+      line.line_number,
+      line.formulary_id.toString(),
+      line.quantity_prescribed,
+      line.dosage_instructions,
+      line.frequency || "",
+      line.duration || "",
+      line.refills_authorized || 0,
+      line.refill_interval_days || 0,
+    ]),
+  ]);
+  return crypto.createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * Header status from its lines' statuses: dispensed once no line is left
+ * open, cancelled if every line was rejected or expired unfilled
+ */
+export function deriveHeaderStatus(
+  lineStatuses: string[]
+): "pending" | "partially_dispensed" | "dispensed" | "cancelled" {
+  const open = lineStatuses.some((s) => OPEN_LINE_STATUSES.includes(s));
+  const filled = lineStatuses.some((s) => FILLED_LINE_STATUSES.includes(s));
+
+  if (!open) return filled ? "dispensed" : "cancelled";
+  return filled ? "partially_dispensed" : "pending";
+}
+
+/**
+ * Recompute a header's status after one of its lines changed
+ */
+export async function refreshHeaderStatus(
+  headerId: any,
+  session?: mongoose.ClientSession
+) {
+  if (!headerId) return;
+
+  const lines = await PrescriptionModel.find({ header_id: headerId })
+    .select("status")
+    .session(session || null)
+    .lean();
+  if (lines.length === 0) return;
+
+  await PrescriptionHeaderModel.updateOne(
+    { _id: headerId },
+    { $set: { status: deriveHeaderStatus(lines.map((l: any) => l.status)) } },
+    session ? { session } : {}
+  );
+}
+
+/**
+ * Header fields in the camelCase shape the dashboards consume
+ */
+export function formatHeaderSummary(header: any) {
+  if (!header?._id) return null;
+
+  return {
+    id: header._id.toString(),
+    prescriptionNumber: formatPrescriptionNumber(header._id),
+    diagnosis: header.diagnosis,
+    diagnosisCodes: header.diagnosis_codes || [],
+    notes: header.notes,
+    status: header.status,
+    lineCount: header.line_count,
+    dateIssued: header.date_issued,
+    signatureHash: header.signature_hash,
+    onchainTxHash: header.onchain_tx_hash,
+  };
+}
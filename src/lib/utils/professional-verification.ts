@@ -0,0 +1,209 @@
+/**
+ * License verification for doctors and pharmacists. Registrants start as
+ * pending, upload license documents and wait for an admin to approve or
+ * reject them. Only verified professionals may prescribe or dispense, and
+ * the on-chain DOCTOR_ROLE / PHARMACIST_ROLE is granted on approval.
+ */
+
+import { join } from "path";
+import { isAddress } from "viem";
+import { DoctorModel, PharmacistModel, UserModel } from "@/lib/database/models";
+import {
+  VerificationAuditModel,
+  VerificationAction,
+  VerificationRole,
+} from "@/lib/database/verificationModels";
+import { contractService } from "@/lib/blockchain/ContractService";
+import { CONTRACT_ADDRESSES } from "@/lib/blockchain/contracts";
+
+// Kept outside public/ so documents are only reachable through the admin API
+export const LICENSE_UPLOAD_DIR = join(process.cwd(), "uploads", "licenses");
+
+// Accepted upload types and the extension they are stored under
+export const LICENSE_DOCUMENT_TYPES: Record<string, string> = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+};
+
+export const MAX_LICENSE_DOCUMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_LICENSE_DOCUMENTS = 10;
+
+// Access failure raised when a professional is not cleared to act
+export class VerificationError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, VerificationError.prototype);
+  }
+}
+
+export function isVerificationRole(role: string): role is VerificationRole {
+  return role === "doctor" || role === "pharmacist";
+}
+
+/**
+ * Model holding the license record for a role
+ */
+export function getProfessionalModel(role: VerificationRole) {
+  return role === "doctor" ? DoctorModel : PharmacistModel;
+}
+
+/**
+ * Refuse doctors and pharmacists whose license has not been approved.
+ * Other roles pass through unchanged.
+ */
+export async function assertVerifiedProfessional(user: {
+  id: string;
+  role: string;
+}) {
+  if (!isVerificationRole(user.role)) return;
+
+  const record: any = await getProfessionalModel(user.role)
+    .findOne({ user_id: user.id })
+    .select("verification_status rejection_reason")
+    .lean();
+
+  if (!record) {
+    throw new VerificationError(
+      404,
+      `${capitalize(user.role)} profile not found`
+    );
+  }
+
+  if (record.verification_status === "rejected") {
+    throw new VerificationError(
+      403,
+      `Your license was rejected${record.rejection_reason ? `: ${record.rejection_reason}` : ""}. Upload corrected documents to request another review.`
+    );
+  }
+
+  if (record.verification_status !== "verified") {
+    throw new VerificationError(
+      403,
+      "Your license is awaiting admin review. You can prescribe or dispense once it is approved."
+    );
+  }
+}
+
+/**
+ * Append an entry to the verification audit log
+ */
+export async function recordVerificationEvent(entry: {
+  subjectUserId: any;
+  role: VerificationRole;
+  action: VerificationAction;
+  performedBy?: string;
+  reason?: string;
+  details?: Record<string, any>;
+}) {
+  await VerificationAuditModel.create({
+    subject_user_id: entry.subjectUserId,
+    role: entry.role,
+    action: entry.action,
+    performed_by: entry.performedBy,
+    reason: entry.reason,
+    details: entry.details,
+  });
+}
+
+/**
+ * Grant the on-chain role for an approved professional. Skipped when the
+ * contracts are not configured or the user has no wallet; a failed grant
+ * is logged but does not undo the approval.
+ */
+export async function grantOnChainRole(
+  userId: string,
+  role: VerificationRole,
+  approvedBy: string
+): Promise<{
+  status: "granted" | "failed" | "skipped";
+  txHash?: string;
+  reason?: string;
+}> {
+  const contractsConfigured =
+    role === "doctor"
+      ? !!CONTRACT_ADDRESSES.PRESCRIPTION
+      : contractService.areContractsConfigured();
+  if (!contractsConfigured) {
+    return { status: "skipped", reason: "Contracts are not configured" };
+  }
+
+  const user: any = await UserModel.findById(userId)
+    .select("walletAddress")
+    .lean();
+  const wallet = user?.walletAddress;
+  if (!wallet || !isAddress(wallet)) {
+    return { status: "skipped", reason: "No wallet address on the account" };
+  }
+
+  try {
+    const { txHash } =
+      role === "doctor"
+        ? await contractService.grantDoctorRole(wallet)
+        : await contractService.grantPharmacistRole(wallet);
+
+    await getProfessionalModel(role).updateOne(
+      { user_id: userId },
+      { $set: { onchain_role_tx_hash: txHash } }
+    );
+    await recordVerificationEvent({
+      subjectUserId: userId,
+      role,
+      action: "role_granted",
+      performedBy: approvedBy,
+      details: { walletAddress: wallet, txHash },
+    });
+
+    return { status: "granted", txHash };
+  } catch (error: any) {
+    await recordVerificationEvent({
+      subjectUserId: userId,
+      role,
+      action: "role_grant_failed",
+      performedBy: approvedBy,
+      reason: error.message,
+      details: { walletAddress: wallet },
+    });
+
+    return { status: "failed", reason: error.message };
+  }
+}
+
+/**
+ * License record in the camelCase shape the dashboards consume
+ */
+export function formatVerificationSummary(
+  record: any,
+  role: VerificationRole,
+  user?: any
+) {
+  return {
+    userId: (user?._id || record.user_id).toString(),
+    role,
+    name: user ? user.username || user.email : undefined,
+    email: user?.email,
+    walletAddress: user?.walletAddress,
+    licenseNumber: record.license_number,
+    specialization: record.specialization,
+    pharmacyName: record.pharmacy_name,
+    status: record.verification_status,
+    rejectionReason: record.rejection_reason,
+    reviewedAt: record.reviewed_at,
+    onchainRoleTxHash: record.onchain_role_tx_hash,
+    registeredAt: record.createdAt,
+    documents: (record.license_documents || []).map((doc: any) => ({
+      id: doc._id.toString(),
+      name: doc.original_name,
+      mimeType: doc.mime_type,
+      size: doc.size,
+      uploadedAt: doc.uploaded_at,
+    })),
+  };
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
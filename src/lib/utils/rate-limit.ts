@@ -0,0 +1,82 @@
+/**
+ * Fixed-window request limits for unauthenticated endpoints, kept in memory
+ * per server instance (in production, use Redis or database)
+ */
+
+import { NextRequest } from "next/server";
+
+interface Window {
+  count: number;
+  startedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the window resets, for the Retry-After header
+  retryAfter: number;
+}
+
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+
+  constructor(
+    private maxRequests: number,
+    private windowMs: number
+  ) {}
+
+  /**
+   * Count a request against `key` and report whether it may proceed
+   */
+  consume(key: string, now: number = Date.now()): RateLimitResult {
+    this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window) {
+      window = { count: 0, startedAt: now };
+      this.windows.set(key, window);
+    }
+
+    const retryAfter = Math.ceil(
+      (window.startedAt + this.windowMs - now) / 1000
+    );
+    if (window.count >= this.maxRequests) {
+      return { allowed: false, remaining: 0, retryAfter };
+    }
+
+    window.count++;
+    return {
+      allowed: true,
+      remaining: this.maxRequests - window.count,
+      retryAfter,
+    };
+  }
+
+  // Expired windows are dropped so the map does not grow without bound
+  private prune(now: number) {
+    this.windows.forEach((window, key) => {
+      if (now - window.startedAt >= this.windowMs) {
+        this.windows.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Address to rate limit a request by. The first X-Forwarded-For entries are
+ * whatever the client sent, so only the last one, appended by the reverse
+ * proxy in front of the app, is trusted. Without a proxy header every
+ * request shares one key.
+ */
+export function getRateLimitKey(request: NextRequest): string {
+  const forwarded = request.headers
+    .get("x-forwarded-for")
+    ?.split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return (
+    forwarded?.[forwarded.length - 1] ||
+    request.headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
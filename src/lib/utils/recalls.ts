@@ -0,0 +1,691 @@
+/**
+ * Batch recalls. Opening a recall deactivates the batch, freezes its stock
+ * in every pharmacy so it can no longer be dispensed, and notifies the
+ * pharmacies holding it and every patient it was dispensed to. Frozen stock
+ * only leaves a pharmacy by being returned or destroyed, each recorded as a
+ * movement of the batch; the recall can be closed once none is left.
+ */
+
+import mongoose from "mongoose";
+import { ethers } from "ethers";
+import {
+  DrugModel,
+  InventoryTransactionModel,
+  PatientModel,
+  PharmacyModel,
+  PrescriptionModel,
+  UserModel,
+} from "@/lib/database/models";
+import {
+  DrugBatch,
+  DispensingRecord,
+  MovementRecord,
+  Recall,
+  TraceabilityAudit,
+  RECALL_CLASSIFICATIONS,
+} from "@/lib/database/traceabilityModels";
+import { traceabilityService } from "@/lib/services/TraceabilityService";
+import { notificationService } from "@/lib/services/NotificationService";
+import { resolveSessionSigner } from "@/lib/blockchain/signers";
+import { AuthUser } from "./auth-helper";
+import {
+  allocateFefo,
+  buildLotDecrement,
+  getLots,
+  legacyLotUpdate,
+  summarizeLots,
+} from "./lots";
+import {
+  resolvePharmacyScope,
+  pharmacyFilter,
+  isDrugInScope,
+} from "./pharmacy-scope";
+
+const MAX_TEXT_LENGTH = 2000;
+
+export const RECALL_MOVEMENT_TYPES = ["returned", "destroyed"] as const;
+
+export type RecallMovementType = (typeof RECALL_MOVEMENT_TYPES)[number];
+
+// Where a dispensing of the batch was found: the pharmacy inventory ledger,
+// the off-chain traceability records or the contract's batchDispensings
+type DispensingSource = "inventory" | "traceability" | "onchain";
+
+export interface AffectedPatient {
+  userId: string;
+  name: string;
+  medicalRecordNumber?: string;
+  prescriptionCount: number;
+  sources: DispensingSource[];
+}
+
+export interface RecalledStock {
+  pharmacyId: string;
+  pharmacyName: string;
+  drugId: string;
+  drugName: string;
+  quantity: number;
+}
+
+// Failure raised while opening, working or closing a recall
+export class RecallError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, RecallError.prototype);
+  }
+}
+
+/**
+ * Refuse stock of a recalled batch from entering a pharmacy, including
+ * after the recall has closed
+ */
+export async function assertBatchNotRecalled(batchNumber?: string) {
+  if (!batchNumber) return;
+  if (await Recall.exists({ batch_number: batchNumber })) {
+    throw new RecallError(
+      409,
+      `Batch ${batchNumber} has been recalled and cannot be received`
+    );
+  }
+}
+
+/**
+ * Load a recall by ID
+ */
+export async function loadRecall(recallId: string) {
+  if (!mongoose.Types.ObjectId.isValid(recallId)) {
+    throw new RecallError(400, "Invalid recall ID");
+  }
+  const recall = await Recall.findById(recallId);
+  if (!recall) {
+    throw new RecallError(404, "Recall not found");
+  }
+  return recall;
+}
+
+/**
+ * Recall as shown to admins, auditors and pharmacists
+ */
+export function formatRecall(recall: any, outstandingQuantity = 0) {
+  return {
+    id: recall._id.toString(),
+    batchId: recall.batch_id.toString(),
+    batchNumber: recall.batch_number,
+    drugName: recall.drug_name,
+    reason: recall.reason,
+    classification: recall.classification,
+    status: recall.status,
+    frozenQuantity: recall.frozen_quantity,
+    outstandingQuantity,
+    patientsNotified: recall.patients_notified,
+    onchainTxHash: recall.onchain_tx_hash || null,
+    onchainError: recall.onchain_error || null,
+    openedBy: recall.opened_by?.username || null,
+    openedAt: recall.created_at,
+    closedBy: recall.closed_by?.username || null,
+    closedAt: recall.closed_at || null,
+    closingNotes: recall.closing_notes || null,
+  };
+}
+
+/**
+ * The caller's custodial signer for the traceability contract, or null when
+ * none is provisioned. It is passed to each contract call, never stored on
+ * the shared service.
+ */
+async function findSessionSigner(
+  user: AuthUser
+): Promise<ethers.Signer | null> {
+  return resolveSessionSigner(user).catch(() => null);
+}
+
+/**
+ * Stock of a recall still frozen in pharmacies, per drug entry. Pass a
+ * pharmacy ID to only look at that pharmacy.
+ */
+export async function findRecalledStock(
+  recall: any,
+  pharmacyId?: string | null
+): Promise<RecalledStock[]> {
+  const recallId = recall._id.toString();
+  const drugs = await DrugModel.find({
+    ...(pharmacyId ? pharmacyFilter({ pharmacyId, restricted: true }) : {}),
+    lots: { $elemMatch: { recall_id: recall._id, quantity: { $gt: 0 } } },
+  }).lean();
+
+  const pharmacies = await PharmacyModel.find({
+    _id: { $in: drugs.map((drug: any) => drug.pharmacy_id).filter(Boolean) },
+  })
+    .select("name")
+    .lean();
+  const pharmacyNames = new Map(
+    pharmacies.map((p: any) => [p._id.toString(), p.name])
+  );
+
+  return drugs.map((drug: any) => ({
+    pharmacyId: drug.pharmacy_id?.toString(),
+    pharmacyName:
+      pharmacyNames.get(drug.pharmacy_id?.toString()) || "Unknown Pharmacy",
+    drugId: drug._id.toString(),
+    drugName: drug.name,
+    quantity: getLots(drug)
+      .filter((lot) => lot.recall_id?.toString() === recallId)
+      .reduce((sum, lot) => sum + lot.quantity, 0),
+  }));
+}
+
+/**
+ * Frozen quantity left for each recall, optionally in a single pharmacy
+ */
+export async function getOutstandingQuantities(
+  recallIds: any[],
+  pharmacyId?: string | null
+): Promise<Map<string, number>> {
+  const ids = recallIds.map((id) => new mongoose.Types.ObjectId(String(id)));
+  const rows = await DrugModel.aggregate([
+    {
+      $match: {
+        ...(pharmacyId ? pharmacyFilter({ pharmacyId, restricted: true }) : {}),
+        "lots.recall_id": { $in: ids },
+      },
+    },
+    { $unwind: "$lots" },
+    { $match: { "lots.recall_id": { $in: ids } } },
+    {
+      $group: { _id: "$lots.recall_id", quantity: { $sum: "$lots.quantity" } },
+    },
+  ]);
+  return new Map(rows.map((row: any) => [row._id.toString(), row.quantity]));
+}
+
+/**
+ * Freeze every pharmacy's lots of the recalled batch. Stock recorded
+ * before lot tracking is moved into a lot first so it can be frozen too.
+ */
+async function freezeStock(recall: any): Promise<RecalledStock[]> {
+  const legacyDrugs = await DrugModel.find({
+    batch_number: recall.batch_number,
+    "lots.0": { $exists: false },
+    stock_quantity: { $gt: 0 },
+  }).lean();
+  for (const drug of legacyDrugs) {
+    const lotConversion = legacyLotUpdate(drug);
+    if (lotConversion) {
+      await DrugModel.updateOne(
+        { _id: (drug as any)._id, "lots.0": { $exists: false } },
+        lotConversion
+      );
+    }
+  }
+
+  await DrugModel.updateMany(
+    { "lots.batch_number": recall.batch_number },
+    { $set: { "lots.$[lot].recall_id": recall._id } },
+    {
+      arrayFilters: [
+        { "lot.batch_number": recall.batch_number, "lot.recall_id": null },
+      ],
+    }
+  );
+
+  return findRecalledStock(recall);
+}
+
+/**
+ * Patient addresses in the contract's batchDispensings. Reading them needs
+ * AUDITOR_ROLE, so this only returns addresses when the caller's signer
+ * holds it and the batch is on-chain.
+ */
+async function findOnchainPatientAddresses(
+  onchainBatchId: number | undefined,
+  signer: ethers.Signer | null
+): Promise<string[]> {
+  if (!onchainBatchId || !signer || !traceabilityService.isInitialized()) {
+    return [];
+  }
+
+  const result = await traceabilityService.getBatchDispensings(
+    onchainBatchId,
+    signer
+  );
+  if (!result.success) return [];
+
+  const addresses: string[] = [];
+  for (const dispensingId of result.dispensingIds || []) {
+    const details = await traceabilityService.getDispensingDetails(
+      dispensingId,
+      signer
+    );
+    if (details.success && details.dispensing) {
+      addresses.push(details.dispensing.patientAddress.toLowerCase());
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Every patient the recalled batch was dispensed to. Dispensings are found
+ * in the inventory ledger (by lot batch number), in DispensingRecord and
+ * in the contract's batchDispensings, so a dispensing missing from one
+ * source is still caught by another. The contract is only read with a
+ * signer allowed to list a batch's dispensings.
+ */
+export async function findAffectedPatients(
+  recall: any,
+  signer: ethers.Signer | null = null
+): Promise<AffectedPatient[]> {
+  const byPrescription = new Map<string, Set<DispensingSource>>();
+  const byAddress = new Map<string, Set<DispensingSource>>();
+  const addSource = (
+    map: Map<string, Set<DispensingSource>>,
+    key: any,
+    source: DispensingSource
+  ) => {
+    if (!key) return;
+    const id = key.toString();
+    if (!map.has(id)) map.set(id, new Set());
+    map.get(id)!.add(source);
+  };
+
+  const transactions = await InventoryTransactionModel.find({
+    transaction_type: "dispensed",
+    "lots.batch_number": recall.batch_number,
+    prescription_id: { $exists: true },
+  })
+    .select("prescription_id")
+    .lean();
+  for (const transaction of transactions as any[]) {
+    addSource(byPrescription, transaction.prescription_id, "inventory");
+  }
+
+  const dispensings = await DispensingRecord.find({ batch_id: recall.batch_id })
+    .select("prescription_id patient_address")
+    .lean();
+  for (const dispensing of dispensings as any[]) {
+    addSource(byPrescription, dispensing.prescription_id, "traceability");
+    addSource(
+      byAddress,
+      dispensing.patient_address?.toLowerCase(),
+      "traceability"
+    );
+  }
+
+  const batch: any = await DrugBatch.findById(recall.batch_id)
+    .select("onchain_batch_id")
+    .lean();
+  for (const address of await findOnchainPatientAddresses(
+    batch?.onchain_batch_id,
+    signer
+  )) {
+    addSource(byAddress, address, "onchain");
+  }
+
+  // Keyed by Patient ID
+  const affected = new Map<
+    string,
+    { prescriptions: Set<string>; sources: Set<DispensingSource> }
+  >();
+  const entryFor = (patientId: string) => {
+    if (!affected.has(patientId)) {
+      affected.set(patientId, { prescriptions: new Set(), sources: new Set() });
+    }
+    return affected.get(patientId)!;
+  };
+
+  const prescriptions = await PrescriptionModel.find({
+    _id: { $in: Array.from(byPrescription.keys()) },
+  })
+    .select("patient_id")
+    .lean();
+  for (const prescription of prescriptions as any[]) {
+    const entry = entryFor(prescription.patient_id.toString());
+    const prescriptionId = prescription._id.toString();
+    entry.prescriptions.add(prescriptionId);
+    byPrescription
+      .get(prescriptionId)!
+      .forEach((source) => entry.sources.add(source));
+  }
+
+  if (byAddress.size > 0) {
+    const users = await UserModel.find({
+      walletAddress: { $in: Array.from(byAddress.keys()) },
+    })
+      .select("walletAddress")
+      .lean();
+    const addressByUser = new Map(
+      users.map((u: any) => [u._id.toString(), u.walletAddress])
+    );
+    const patients = await PatientModel.find({
+      user_id: { $in: Array.from(addressByUser.keys()) },
+    })
+      .select("user_id")
+      .lean();
+    for (const patient of patients as any[]) {
+      const entry = entryFor(patient._id.toString());
+      byAddress
+        .get(addressByUser.get(patient.user_id.toString()))
+        ?.forEach((source) => entry.sources.add(source));
+    }
+  }
+
+  const patients = await PatientModel.find({
+    _id: { $in: Array.from(affected.keys()) },
+  })
+    .populate("user_id", "username")
+    .lean();
+
+  return patients
+    .filter((patient: any) => patient.user_id)
+    .map((patient: any) => {
+      const entry = affected.get(patient._id.toString())!;
+      return {
+        userId: patient.user_id._id.toString(),
+        name: patient.user_id.username || "Unknown Patient",
+        medicalRecordNumber: patient.medical_record_number,
+        prescriptionCount: entry.prescriptions.size,
+        sources: Array.from(entry.sources),
+      };
+    });
+}
+
+/**
+ * Affected patients, reading the contract with the caller's signer
+ */
+export async function findAffectedPatientsAs(user: AuthUser, recall: any) {
+  return findAffectedPatients(recall, await findSessionSigner(user));
+}
+
+/**
+ * Open a recall on a batch, identified by DrugBatch ID or batch number
+ */
+export async function openRecall(user: AuthUser, body: any) {
+  const { batchId, batchNumber, reason, classification } = body || {};
+
+  const trimmedReason = typeof reason === "string" ? reason.trim() : "";
+  if (!trimmedReason) {
+    throw new RecallError(400, "A reason for the recall is required");
+  }
+  if (trimmedReason.length > MAX_TEXT_LENGTH) {
+    throw new RecallError(
+      400,
+      `Reason must be at most ${MAX_TEXT_LENGTH} characters`
+    );
+  }
+  if (!RECALL_CLASSIFICATIONS.includes(classification)) {
+    throw new RecallError(
+      400,
+      `Classification must be one of: ${RECALL_CLASSIFICATIONS.join(", ")}`
+    );
+  }
+
+  let batch: any = null;
+  if (batchId) {
+    if (!mongoose.Types.ObjectId.isValid(String(batchId))) {
+      throw new RecallError(400, "Invalid batch ID");
+    }
+    batch = await DrugBatch.findById(batchId);
+  } else if (typeof batchNumber === "string" && batchNumber.trim()) {
+    batch = await DrugBatch.findOne({ batch_number: batchNumber.trim() });
+  } else {
+    throw new RecallError(400, "Batch ID or batch number is required");
+  }
+  if (!batch) {
+    throw new RecallError(404, "Batch not found");
+  }
+
+  let recall: any;
+  try {
+    recall = await Recall.create({
+      batch_id: batch._id,
+      batch_number: batch.batch_number,
+      drug_name: batch.drug_name,
+      reason: trimmedReason,
+      classification,
+      opened_by: user.id,
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      throw new RecallError(
+        409,
+        `Batch ${batch.batch_number} already has an open recall`
+      );
+    }
+    throw error;
+  }
+
+  // A recalled batch never returns to service, even once the recall closes
+  await DrugBatch.updateOne({ _id: batch._id }, { $set: { is_active: false } });
+  const stock = await freezeStock(recall);
+  recall.frozen_quantity = stock.reduce((sum, s) => sum + s.quantity, 0);
+
+  const signer = await findSessionSigner(user);
+  const onchain = !batch.onchain_batch_id
+    ? null
+    : signer
+      ? await traceabilityService.deactivateBatch(
+          signer,
+          batch.onchain_batch_id
+        )
+      : {
+          success: false,
+          error: "No signing key is provisioned for this account",
+        };
+  const patients = await findAffectedPatients(recall, signer);
+  if (onchain?.success) {
+    recall.onchain_tx_hash = onchain.txHash;
+  } else if (onchain) {
+    recall.onchain_error = onchain.error;
+  }
+
+  const heldByPharmacy = new Map<string, number>();
+  for (const held of stock) {
+    heldByPharmacy.set(
+      held.pharmacyId,
+      (heldByPharmacy.get(held.pharmacyId) || 0) + held.quantity
+    );
+  }
+  for (const [pharmacyId, quantity] of Array.from(heldByPharmacy)) {
+    await notificationService.recallStockFrozen(recall, pharmacyId, quantity);
+  }
+  await notificationService.recallAffectedPatients(
+    recall,
+    patients.map((patient) => patient.userId)
+  );
+  recall.patients_notified = patients.length;
+  await recall.save();
+
+  await TraceabilityAudit.create({
+    batch_id: batch._id,
+    action: "recall_opened",
+    performed_by: user.id,
+    blockchain_tx_hash: recall.onchain_tx_hash,
+    details: {
+      recall_id: recall._id,
+      classification,
+      reason: trimmedReason,
+      frozen_quantity: recall.frozen_quantity,
+      pharmacies: heldByPharmacy.size,
+      patients_notified: patients.length,
+      onchain_error: recall.onchain_error,
+    },
+  });
+
+  console.warn(
+    `🚨 Recall opened on batch ${batch.batch_number} by ${user.role} ${user.id}: ${recall.frozen_quantity} unit(s) frozen, ${patients.length} patient(s) notified`
+  );
+
+  return { recall, stock, patients };
+}
+
+/**
+ * Record the return or destruction of frozen stock held by a drug entry.
+ * The contract has no call for these movements, so they are recorded
+ * off-chain against the batch.
+ */
+export async function recordRecallMovement(
+  user: AuthUser,
+  recallId: string,
+  body: any
+) {
+  const recall = await loadRecall(recallId);
+  if (recall.status !== "open") {
+    throw new RecallError(409, "This recall is closed");
+  }
+
+  const { drugId, type, quantity, notes } = body || {};
+  if (!RECALL_MOVEMENT_TYPES.includes(type)) {
+    throw new RecallError(400, "Movement type must be returned or destroyed");
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new RecallError(400, "Quantity must be a positive whole number");
+  }
+  if (!mongoose.Types.ObjectId.isValid(String(drugId))) {
+    throw new RecallError(400, "Invalid drug ID");
+  }
+  const trimmedNotes = typeof notes === "string" ? notes.trim() : "";
+  if (trimmedNotes.length > MAX_TEXT_LENGTH) {
+    throw new RecallError(
+      400,
+      `Notes must be at most ${MAX_TEXT_LENGTH} characters`
+    );
+  }
+
+  const scope = await resolvePharmacyScope(user);
+  const drug: any = await DrugModel.findById(drugId).lean();
+  if (!drug) {
+    throw new RecallError(404, "Drug not found");
+  }
+  if (!isDrugInScope(drug, scope)) {
+    throw new RecallError(
+      403,
+      "You can only return or destroy stock held at your pharmacy"
+    );
+  }
+
+  const frozenLots = getLots(drug).filter(
+    (lot) => lot.recall_id?.toString() === recall._id.toString()
+  );
+  const held = frozenLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const allocation = allocateFefo({ lots: frozenLots }, quantity, {
+    includeExpired: true,
+    includeRecalled: true,
+  });
+  if (!allocation) {
+    throw new RecallError(
+      400,
+      `Only ${held} unit(s) of batch ${recall.batch_number} are frozen in this stock`
+    );
+  }
+
+  const decrement = buildLotDecrement(drug._id, allocation, recall._id);
+  const updated = await DrugModel.findOneAndUpdate(
+    decrement.filter,
+    decrement.update,
+    { new: true, arrayFilters: decrement.arrayFilters }
+  ).lean();
+  if (!updated) {
+    throw new RecallError(409, "The stock changed meanwhile; try again");
+  }
+  await DrugModel.updateOne(
+    { _id: drug._id },
+    { $set: summarizeLots(updated) }
+  );
+
+  const description = `${type === "returned" ? "Returned" : "Destroyed"} under recall of batch ${recall.batch_number}`;
+  await InventoryTransactionModel.create({
+    drug_id: drug._id,
+    transaction_type: type,
+    quantity,
+    performed_by: user.id,
+    lots: allocation,
+    notes: trimmedNotes ? `${description}: ${trimmedNotes}` : description,
+  });
+
+  const batch: any = await DrugBatch.findById(recall.batch_id)
+    .select("manufacturer_address")
+    .lean();
+  const movement = await MovementRecord.create({
+    batch_id: recall.batch_id,
+    movement_type: type,
+    // Returns go back to the manufacturer; destroyed stock goes nowhere
+    to_address:
+      type === "returned" && batch?.manufacturer_address
+        ? batch.manufacturer_address
+        : ethers.ZeroAddress,
+    quantity,
+    notes: trimmedNotes || undefined,
+    recall_id: recall._id,
+    pharmacy_id: drug.pharmacy_id,
+  });
+
+  await TraceabilityAudit.create({
+    batch_id: recall.batch_id,
+    action: "movement_recorded",
+    performed_by: user.id,
+    details: {
+      movement_type: type,
+      quantity,
+      recall_id: recall._id,
+      pharmacy_id: drug.pharmacy_id,
+      drug_id: drug._id,
+    },
+  });
+
+  return { recall, movement, remaining: held - quantity };
+}
+
+/**
+ * Close a recall once no frozen stock is left in any pharmacy
+ */
+export async function closeRecall(user: AuthUser, recallId: string, body: any) {
+  const recall = await loadRecall(recallId);
+  if (recall.status !== "open") {
+    throw new RecallError(409, "This recall is already closed");
+  }
+
+  const notes = typeof body?.notes === "string" ? body.notes.trim() : "";
+  if (notes.length > MAX_TEXT_LENGTH) {
+    throw new RecallError(
+      400,
+      `Notes must be at most ${MAX_TEXT_LENGTH} characters`
+    );
+  }
+
+  const outstanding =
+    (await getOutstandingQuantities([recall._id])).get(recall._id.toString()) ||
+    0;
+  if (outstanding > 0) {
+    throw new RecallError(
+      409,
+      `${outstanding} unit(s) of batch ${recall.batch_number} are still frozen in pharmacies. Record their return or destruction before closing the recall.`
+    );
+  }
+
+  const closed = await Recall.findOneAndUpdate(
+    { _id: recall._id, status: "open" },
+    {
+      $set: {
+        status: "closed",
+        closed_by: user.id,
+        closed_at: new Date(),
+        closing_notes: notes || undefined,
+      },
+    },
+    { new: true }
+  );
+  if (!closed) {
+    throw new RecallError(409, "This recall is already closed");
+  }
+
+  await TraceabilityAudit.create({
+    batch_id: recall.batch_id,
+    action: "recall_closed",
+    performed_by: user.id,
+    details: { recall_id: recall._id, notes: notes || undefined },
+  });
+
+  return closed;
+}
@@ -0,0 +1,56 @@
+/**
+ * Refill authorization helpers shared by the prescription API routes
+ */
+
+/**
+ * Number of authorized refills that have not yet been approved
+ */
+export function getRefillsRemaining(prescription: any): number {
+  return Math.max(
+    (prescription.refills_authorized || 0) - (prescription.refills_used || 0),
+    0
+  );
+}
+
+/**
+ * Explain why a patient cannot request a refill, or null if they can
+ */
+export function getRefillRequestBlocker(prescription: any): string | null {
+  if (getRefillsRemaining(prescription) === 0) {
+    return "No refills remaining on this prescription";
+  }
+  if (prescription.status !== "dispensed") {
+    return "A refill can only be requested once the current fill has been dispensed";
+  }
+  if (
+    (prescription.refill_requests || []).some(
+      (request: any) => request.status === "pending"
+    )
+  ) {
+    return "A refill request is already awaiting the doctor's response";
+  }
+  return null;
+}
+
+/**
+ * Refill fields in the camelCase shape the dashboards consume
+ */
+export function formatRefillInfo(prescription: any) {
+  return {
+    refillsAuthorized: prescription.refills_authorized || 0,
+    refillsUsed: prescription.refills_used || 0,
+    refillsRemaining: getRefillsRemaining(prescription),
+    refillIntervalDays: prescription.refill_interval_days || 0,
+    nextFillDate: prescription.next_fill_date,
+    refillRequests: (prescription.refill_requests || []).map(
+      (request: any) => ({
+        id: request._id.toString(),
+        status: request.status,
+        requestedAt: request.requested_at,
+        note: request.note,
+        respondedAt: request.responded_at,
+        responseNote: request.response_note,
+      })
+    ),
+  };
+}
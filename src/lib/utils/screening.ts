@@ -0,0 +1,248 @@
+/**
+ * Allergy, interaction and contraindication screening run when a
+ * prescription is written and again when it is dispensed. Severe warnings
+ * block the action unless the prescriber or pharmacist gives an override
+ * reason, which is written to PrescriptionAudit.
+ */
+
+import mongoose from "mongoose";
+import {
+  PatientModel,
+  PrescriptionModel,
+  PrescriptionAuditModel,
+} from "@/lib/database/models";
+import {
+  DRUG_CLASSES,
+  ALLERGY_CROSS_REACTIVITY,
+  INTERACTION_RULES,
+  CONTRAINDICATION_RULES,
+  ScreeningSeverity,
+} from "@/lib/utils/clinical-rules";
+import { formatDrugLabel, getPrescribedDrug } from "@/lib/utils/formulary";
+import { normalizeAllergies } from "@/lib/utils/allergies";
+
+export interface ScreeningWarning {
+  type: "allergy" | "interaction" | "contraindication";
+  severity: ScreeningSeverity;
+  // Drug being screened
+  drug: string;
+  // Allergen, other drug or condition it conflicts with
+  conflictsWith: string;
+  message: string;
+}
+
+// Dispensed prescriptions count as current medication for this long
+const RECENTLY_DISPENSED_DAYS = 90;
+
+// Lower-case names a drug is known by
+function drugTerms(drug: any): string[] {
+  return [drug?.name, drug?.generic_name]
+    .filter(Boolean)
+    .map((term: string) => term.toLowerCase().trim());
+}
+
+// Whether a drug is the named drug or belongs to the named class
+function matchesDrug(terms: string[], ruleName: string): boolean {
+  const names = DRUG_CLASSES[ruleName] || [ruleName];
+  return terms.some((term) => names.some((name) => term.includes(name)));
+}
+
+// Classes an allergen refers to, e.g. "penicillin" -> penicillins
+function allergenClasses(substance: string): string[] {
+  const allergen = substance.toLowerCase().trim();
+  return Object.entries(DRUG_CLASSES)
+    .filter(
+      ([className, members]) =>
+        className.startsWith(allergen) ||
+        allergen.startsWith(className.replace(/s$/, "")) ||
+        members.includes(allergen)
+    )
+    .map(([className]) => className);
+}
+
+function screenAllergies(
+  drug: any,
+  allergies: ReturnType<typeof normalizeAllergies>
+): ScreeningWarning[] {
+  const terms = drugTerms(drug);
+  const label = formatDrugLabel(drug);
+  const warnings: ScreeningWarning[] = [];
+
+  for (const allergy of allergies) {
+    const substance = allergy.substance.trim();
+    // Too short to match a drug name reliably
+    if (substance.length < 3) continue;
+    const classes = allergenClasses(substance);
+    const reaction = allergy.reaction ? ` (${allergy.reaction})` : "";
+
+    if (
+      matchesDrug(terms, substance.toLowerCase()) ||
+      classes.some((c) => matchesDrug(terms, c))
+    ) {
+      warnings.push({
+        type: "allergy",
+        severity: allergy.severity === "mild" ? "moderate" : "severe",
+        drug: label,
+        conflictsWith: substance,
+        message: `Patient is allergic to ${substance}${reaction}`,
+      });
+      continue;
+    }
+
+    for (const rule of ALLERGY_CROSS_REACTIVITY) {
+      if (
+        classes.includes(rule.allergen) &&
+        matchesDrug(terms, rule.crossReactsWith)
+      ) {
+        warnings.push({
+          type: "allergy",
+          severity: rule.severity,
+          drug: label,
+          conflictsWith: substance,
+          message: `Possible cross-reactivity with recorded ${substance} allergy${reaction}`,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+function screenInteractions(drug: any, otherDrugs: any[]): ScreeningWarning[] {
+  const terms = drugTerms(drug);
+  const warnings: ScreeningWarning[] = [];
+
+  for (const other of otherDrugs) {
+    const otherTerms = drugTerms(other);
+    for (const rule of INTERACTION_RULES) {
+      const [a, b] = rule.between;
+      if (
+        (matchesDrug(terms, a) && matchesDrug(otherTerms, b)) ||
+        (matchesDrug(terms, b) && matchesDrug(otherTerms, a))
+      ) {
+        warnings.push({
+          type: "interaction",
+          severity: rule.severity,
+          drug: formatDrugLabel(drug),
+          conflictsWith: formatDrugLabel(other),
+          message: rule.description,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+function screenContraindications(
+  drug: any,
+  medicalHistory?: string
+): ScreeningWarning[] {
+  if (!medicalHistory) return [];
+  const history = medicalHistory.toLowerCase();
+  const terms = drugTerms(drug);
+
+  return CONTRAINDICATION_RULES.filter(
+    (rule) =>
+      matchesDrug(terms, rule.drug) &&
+      rule.conditions.some((condition) => history.includes(condition))
+  ).map((rule) => ({
+    type: "contraindication" as const,
+    severity: rule.severity,
+    drug: formatDrugLabel(drug),
+    conflictsWith: rule.conditions.find((c) => history.includes(c))!,
+    message: rule.description,
+  }));
+}
+
+/**
+ * Drugs the patient is currently taking: open prescriptions plus anything
+ * dispensed recently
+ */
+async function loadCurrentDrugs(
+  patientId: any,
+  excludePrescriptionIds: string[]
+): Promise<any[]> {
+  const recentCutoff = new Date(
+    Date.now() - RECENTLY_DISPENSED_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const prescriptions = await PrescriptionModel.find({
+    patient_id: patientId,
+    _id: {
+      $nin: excludePrescriptionIds.map((id) => new mongoose.Types.ObjectId(id)),
+    },
+    $or: [
+      { status: { $in: ["pending", "verified", "partially_dispensed"] } },
+      { status: "dispensed", date_dispensed: { $gte: recentCutoff } },
+    ],
+  })
+    .populate("formulary_id")
+    .populate("drug_id")
+    .lean();
+
+  return prescriptions.map(getPrescribedDrug).filter(Boolean);
+}
+
+/**
+ * Screen drugs for a patient. Returns one warning list per drug, in order.
+ * Drugs screened together are also checked against each other.
+ */
+export async function screenMedications(
+  patientId: any,
+  drugs: any[],
+  options: { excludePrescriptionIds?: string[] } = {}
+): Promise<ScreeningWarning[][]> {
+  const patient: any = await PatientModel.findById(patientId)
+    .select("allergies medical_history")
+    .lean();
+  const allergies = normalizeAllergies(patient?.allergies);
+  const currentDrugs = await loadCurrentDrugs(
+    patientId,
+    options.excludePrescriptionIds || []
+  );
+
+  return drugs.map((drug, i) => [
+    ...screenAllergies(drug, allergies),
+    ...screenContraindications(drug, patient?.medical_history),
+    // Pairs within the request are reported once, on the later drug
+    ...screenInteractions(drug, [...currentDrugs, ...drugs.slice(0, i)]),
+  ]);
+}
+
+/**
+ * Whether warnings include one that needs an override reason
+ */
+export function requiresOverride(warnings: ScreeningWarning[]): boolean {
+  return warnings.some((w) => w.severity === "severe");
+}
+
+/**
+ * Record who overrode severe screening warnings, and why. Written in the
+ * transaction that creates or dispenses the prescription, so an override
+ * is never lost or left without the action it allowed.
+ */
+export async function recordScreeningOverride(
+  prescriptionId: any,
+  performedBy: string,
+  stage: "prescribing" | "dispensing",
+  warnings: ScreeningWarning[],
+  reason: string,
+  session: mongoose.ClientSession
+) {
+  await PrescriptionAuditModel.create(
+    [
+      {
+        prescription_id: prescriptionId,
+        action: "screening_override",
+        performed_by: performedBy,
+        details: {
+          stage,
+          reason,
+          warnings: warnings.filter((w) => w.severity === "severe"),
+        },
+      },
+    ],
+    { session }
+  );
+}
@@ -0,0 +1,295 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/database/connection";
+import {
+  SessionModel,
+  SessionRevocationReason,
+} from "@/lib/database/sessionModels";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  AuthUser,
+  issueAccessToken,
+} from "./auth-helper";
+import { getClientIpAddress } from "./access-log";
+
+// httpOnly cookie holding the refresh token, sent only to the auth routes
+export const REFRESH_TOKEN_COOKIE = "refresh_token";
+const REFRESH_TOKEN_COOKIE_PATH = "/api/auth";
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const REMEMBER_ME_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// A refresh token replaced this recently may arrive again from a second tab
+// that refreshed at the same time; later reuse is treated as theft
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export class SessionError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "SessionError";
+    Object.setPrototypeOf(this, SessionError.prototype);
+  }
+}
+
+const hashRefreshToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const newRefreshToken = () => crypto.randomBytes(32).toString("hex");
+
+/**
+ * Start a session for a user who has just proven who they are. Returns the
+ * access token for the response body and the refresh token for the cookie.
+ */
+export async function createSession(
+  request: NextRequest,
+  userId: string,
+  options: { authMethod: "password" | "wallet"; rememberMe?: boolean }
+) {
+  await connectToDatabase();
+
+  const refreshToken = newRefreshToken();
+  const rememberMe = Boolean(options.rememberMe);
+  const session = await SessionModel.create({
+    user_id: userId,
+    auth_method: options.authMethod,
+    refresh_token_hash: hashRefreshToken(refreshToken),
+    remember_me: rememberMe,
+    ip_address: getClientIpAddress(request),
+    user_agent: request.headers.get("user-agent")?.slice(0, 512),
+    expires_at: new Date(
+      Date.now() + (rememberMe ? REMEMBER_ME_SESSION_TTL_MS : SESSION_TTL_MS)
+    ),
+  });
+
+  const accessToken = await issueAccessToken(userId, session._id.toString());
+  if (!accessToken) {
+    await revokeSession(userId, session._id.toString(), "deactivated");
+    throw new SessionError(403, "This account has been deactivated");
+  }
+
+  return { session, accessToken, refreshToken };
+}
+
+/**
+ * Sign the caller's device back in after all of the user's sessions were
+ * revoked on its behalf, e.g. by a password change. The new session keeps
+ * the old one's sign-in method and remember-me choice.
+ */
+export async function replaceSession(request: NextRequest, user: AuthUser) {
+  await connectToDatabase();
+
+  const previous: any = await SessionModel.findOne({
+    _id: user.sessionId,
+    user_id: user.id,
+  }).lean();
+
+  return createSession(request, user.id, {
+    authMethod: previous?.auth_method || "password",
+    rememberMe: previous?.remember_me,
+  });
+}
+
+/**
+ * Exchange a refresh token for a new access token, rotating the refresh
+ * token. A token that was already rotated out revokes the whole session,
+ * unless it was replaced moments ago by a concurrent refresh, in which case
+ * only an access token is issued (refreshToken is null) and the cookie set
+ * by the other refresh stays in place.
+ */
+export async function refreshSession(
+  request: NextRequest,
+  refreshToken: string | undefined
+) {
+  if (!refreshToken) {
+    throw new SessionError(401, "No session to refresh");
+  }
+
+  await connectToDatabase();
+
+  const tokenHash = hashRefreshToken(refreshToken);
+  const now = new Date();
+  const nextRefreshToken = newRefreshToken();
+
+  const session: any = await SessionModel.findOneAndUpdate(
+    {
+      refresh_token_hash: tokenHash,
+      revoked_at: null,
+      expires_at: { $gt: now },
+    },
+    {
+      $set: {
+        refresh_token_hash: hashRefreshToken(nextRefreshToken),
+        previous_refresh_token_hash: tokenHash,
+        rotated_at: now,
+        last_used_at: now,
+        ip_address: getClientIpAddress(request),
+        user_agent: request.headers.get("user-agent")?.slice(0, 512),
+      },
+    },
+    { new: true }
+  ).lean();
+
+  if (session) {
+    const accessToken = await issueAccessToken(
+      session.user_id.toString(),
+      session._id.toString()
+    );
+    if (!accessToken) {
+      await revokeAllSessions(session.user_id.toString(), "deactivated");
+      throw new SessionError(401, "This account has been deactivated");
+    }
+    return { session, accessToken, refreshToken: nextRefreshToken };
+  }
+
+  const replaced: any = await SessionModel.findOne({
+    previous_refresh_token_hash: tokenHash,
+    revoked_at: null,
+    expires_at: { $gt: now },
+  }).lean();
+
+  if (!replaced) {
+    throw new SessionError(401, "Session has ended. Please sign in again.");
+  }
+
+  if (
+    replaced.rotated_at &&
+    now.getTime() - replaced.rotated_at.getTime() <= ROTATION_GRACE_MS
+  ) {
+    const accessToken = await issueAccessToken(
+      replaced.user_id.toString(),
+      replaced._id.toString()
+    );
+    if (accessToken) {
+      return { session: replaced, accessToken, refreshToken: null };
+    }
+  }
+
+  await SessionModel.updateOne(
+    { _id: replaced._id, revoked_at: null },
+    { $set: { revoked_at: now, revoked_reason: "refresh_token_reuse" } }
+  );
+  console.warn(
+    `⚠️ Refresh token reused for session ${replaced._id} of user ${replaced.user_id}; session revoked`
+  );
+  throw new SessionError(401, "Session has ended. Please sign in again.");
+}
+
+/**
+ * End the session a refresh token belongs to, if it is still live
+ */
+export async function endSession(refreshToken: string): Promise<void> {
+  await connectToDatabase();
+  await SessionModel.updateOne(
+    { refresh_token_hash: hashRefreshToken(refreshToken), revoked_at: null },
+    { $set: { revoked_at: new Date(), revoked_reason: "logout" } }
+  );
+}
+
+/**
+ * End one of a user's sessions. Returns false when the user has no such
+ * live session.
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  reason: SessionRevocationReason
+): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) return false;
+
+  await connectToDatabase();
+  const result = await SessionModel.updateOne(
+    { _id: sessionId, user_id: userId, revoked_at: null },
+    { $set: { revoked_at: new Date(), revoked_reason: reason } }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * End every live session of a user, optionally sparing one. Returns the
+ * number of sessions ended.
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: SessionRevocationReason,
+  exceptSessionId?: string
+): Promise<number> {
+  await connectToDatabase();
+
+  const filter: any = { user_id: userId, revoked_at: null };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const result = await SessionModel.updateMany(filter, {
+    $set: { revoked_at: new Date(), revoked_reason: reason },
+  });
+  return result.modifiedCount;
+}
+
+/**
+ * A user's live sessions, most recently used first, as shown on the
+ * settings page
+ */
+export async function listSessions(user: AuthUser) {
+  await connectToDatabase();
+
+  const sessions = await SessionModel.find({
+    user_id: user.id,
+    revoked_at: null,
+    expires_at: { $gt: new Date() },
+  })
+    .sort({ last_used_at: -1 })
+    .lean();
+
+  return sessions.map((session: any) => ({
+    id: session._id.toString(),
+    authMethod: session.auth_method,
+    ipAddress: session.ip_address || null,
+    userAgent: session.user_agent || null,
+    createdAt: session.created_at,
+    lastUsedAt: session.last_used_at,
+    expiresAt: session.expires_at,
+    current: session._id.toString() === user.sessionId,
+  }));
+}
+
+/**
+ * Set the refresh token cookie. It outlives the browser only for "remember
+ * me" sessions.
+ */
+export function setRefreshTokenCookie(
+  response: NextResponse,
+  refreshToken: string,
+  session: { remember_me: boolean; expires_at: Date }
+) {
+  response.cookies.set(REFRESH_TOKEN_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: REFRESH_TOKEN_COOKIE_PATH,
+    ...(session.remember_me && { expires: session.expires_at }),
+  });
+}
+
+export function clearRefreshTokenCookie(response: NextResponse) {
+  response.cookies.set(REFRESH_TOKEN_COOKIE, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: REFRESH_TOKEN_COOKIE_PATH,
+    maxAge: 0,
+  });
+}
+
+/**
+ * Response body fields describing a freshly issued access token
+ */
+export function accessTokenFields(accessToken: string) {
+  return {
+    token: accessToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
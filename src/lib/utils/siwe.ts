@@ -0,0 +1,129 @@
+import { getAddress, isAddress, verifyMessage, type Hex } from "viem";
+import {
+  createSiweMessage,
+  generateSiweNonce,
+  parseSiweMessage,
+  validateSiweMessage,
+} from "viem/siwe";
+import { baseSepolia } from "viem/chains";
+import { WalletNonce } from "@/lib/database/walletAuthModels";
+
+const NONCE_TTL_MS = 5 * 60 * 1000;
+const SIWE_STATEMENT = "Sign in to PharmChain.";
+
+export const NONCE_INVALID = "Sign-in nonce is invalid, expired or used";
+
+export type SiweVerification =
+  { ok: true; address: string; nonce: string } | { ok: false; error: string };
+
+/**
+ * Issue a single-use nonce for a wallet and the EIP-4361 message it
+ * must sign to log in
+ */
+export async function issueSiweChallenge(
+  walletAddress: string,
+  options: { domain: string; uri: string; chainId?: number }
+): Promise<{ nonce: string; message: string; expiresAt: Date }> {
+  const address = getAddress(walletAddress);
+  const nonce = generateSiweNonce();
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS);
+
+  await WalletNonce.create({
+    nonce,
+    wallet_address: address,
+    expires_at: expiresAt,
+  });
+
+  const message = createSiweMessage({
+    address,
+    chainId: options.chainId || baseSepolia.id,
+    domain: options.domain,
+    uri: options.uri,
+    nonce,
+    version: "1",
+    statement: SIWE_STATEMENT,
+    issuedAt,
+    expirationTime: expiresAt,
+  });
+
+  return { nonce, message, expiresAt };
+}
+
+/**
+ * Check a signed EIP-4361 message and that its nonce is still unused. The
+ * nonce is not consumed here: the caller spends it with consumeSiweNonce
+ * once every other login check has passed, so a rejected second factor
+ * does not burn the user's challenge and a forged request never can.
+ */
+export async function verifySiweLogin(params: {
+  message: string;
+  signature: string;
+  walletAddress: string;
+  domain: string;
+}): Promise<SiweVerification> {
+  const { message, signature, walletAddress, domain } = params;
+
+  if (!isAddress(walletAddress)) {
+    return { ok: false, error: "Invalid wallet address" };
+  }
+  const address = getAddress(walletAddress);
+
+  const fields = parseSiweMessage(message);
+  if (!fields.nonce || !fields.address) {
+    return { ok: false, error: "Malformed sign-in message" };
+  }
+
+  const valid = validateSiweMessage({
+    message: fields,
+    address,
+    domain,
+  });
+  if (!valid) {
+    return {
+      ok: false,
+      error: "Sign-in message is expired or was issued for another domain",
+    };
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = await verifyMessage({
+      address,
+      message,
+      signature: signature as Hex,
+    });
+  } catch (error) {
+    signatureValid = false;
+  }
+  if (!signatureValid) {
+    return { ok: false, error: "Signature does not match wallet address" };
+  }
+
+  const issued = await WalletNonce.exists({
+    nonce: fields.nonce,
+    wallet_address: address.toLowerCase(),
+    expires_at: { $gt: new Date() },
+  });
+  if (!issued) {
+    return { ok: false, error: NONCE_INVALID };
+  }
+
+  return { ok: true, address, nonce: fields.nonce };
+}
+
+/**
+ * Spend a verified message's nonce. Single use: whichever request deletes
+ * it first wins, and every other one gets false.
+ */
+export async function consumeSiweNonce(
+  address: string,
+  nonce: string
+): Promise<boolean> {
+  const consumed = await WalletNonce.findOneAndDelete({
+    nonce,
+    wallet_address: address.toLowerCase(),
+    expires_at: { $gt: new Date() },
+  });
+  return Boolean(consumed);
+}
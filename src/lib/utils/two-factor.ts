@@ -0,0 +1,376 @@
+/**
+ * Two-factor authentication with an authenticator app. Optional for
+ * patients, mandatory for doctors, pharmacists and admins, who cannot use
+ * the rest of the API until they have enrolled. A fresh second-factor code
+ * ("step-up") is also required before prescribing or dispensing
+ * controlled-schedule drugs.
+ */
+
+import QRCode from "qrcode";
+import { connectToDatabase } from "@/lib/database/connection";
+import { UserModel } from "@/lib/database/models";
+import { SessionModel } from "@/lib/database/sessionModels";
+import { UserRole } from "@/types/auth";
+import { AuthUser } from "./auth-helper";
+import {
+  buildOtpAuthUrl,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isRecoveryCodeFormat,
+  verifyTotpCode,
+} from "./totp";
+
+export const TWO_FACTOR_REQUIRED_ROLES: readonly UserRole[] = [
+  "doctor",
+  "pharmacist",
+  "admin",
+];
+
+// How long a step-up re-authentication covers controlled-drug actions
+export const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+
+export class TwoFactorError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public code?: string
+  ) {
+    super(message);
+    this.name = "TwoFactorError";
+    Object.setPrototypeOf(this, TwoFactorError.prototype);
+  }
+}
+
+export function isTwoFactorRequired(role: string): boolean {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(role as UserRole);
+}
+
+/**
+ * Whether a formulary item or legacy drug entry is a scheduled controlled
+ * substance
+ */
+export function isControlledDrug(drug: any): boolean {
+  return Boolean(
+    drug?.controlled_schedule && drug.controlled_schedule !== "none"
+  );
+}
+
+/**
+ * Enrolment state shown on the settings page
+ */
+export async function getTwoFactorStatus(userId: string) {
+  await connectToDatabase();
+
+  const user: any = await UserModel.findById(userId)
+    .select(
+      "role two_factor_enabled two_factor_enabled_at two_factor_recovery_codes"
+    )
+    .lean();
+  if (!user) {
+    throw new TwoFactorError(404, "User not found");
+  }
+
+  return {
+    enabled: Boolean(user.two_factor_enabled),
+    required: isTwoFactorRequired(user.role),
+    enabledAt: user.two_factor_enabled_at || null,
+    recoveryCodesRemaining: user.two_factor_enabled
+      ? user.two_factor_recovery_codes?.length || 0
+      : 0,
+  };
+}
+
+/**
+ * Start enrolment: a new secret, held as pending until a code from the
+ * authenticator app confirms it, and the QR code that carries it
+ */
+export async function beginTwoFactorSetup(userId: string) {
+  await connectToDatabase();
+
+  const user: any = await UserModel.findById(userId)
+    .select("email two_factor_enabled")
+    .lean();
+  if (!user) {
+    throw new TwoFactorError(404, "User not found");
+  }
+  if (user.two_factor_enabled) {
+    throw new TwoFactorError(
+      409,
+      "Two-factor authentication is already enabled"
+    );
+  }
+
+  const secret = generateTotpSecret();
+  await UserModel.updateOne(
+    { _id: userId },
+    { $set: { two_factor_pending_secret: encryptTotpSecret(secret) } }
+  );
+
+  const otpauthUrl = buildOtpAuthUrl(secret, user.email);
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+/**
+ * Finish enrolment with a code from the app. Returns the recovery codes,
+ * which are shown to the user this once.
+ */
+export async function confirmTwoFactorSetup(
+  userId: string,
+  code: unknown
+): Promise<string[]> {
+  await connectToDatabase();
+
+  const user: any = await UserModel.findById(userId)
+    .select("two_factor_enabled two_factor_pending_secret")
+    .lean();
+  if (!user) {
+    throw new TwoFactorError(404, "User not found");
+  }
+  if (user.two_factor_enabled) {
+    throw new TwoFactorError(
+      409,
+      "Two-factor authentication is already enabled"
+    );
+  }
+  if (!user.two_factor_pending_secret) {
+    throw new TwoFactorError(400, "Start two-factor setup first");
+  }
+
+  const secret = decryptTotpSecret(user.two_factor_pending_secret);
+  const step = typeof code === "string" ? verifyTotpCode(secret, code) : null;
+  if (step === null) {
+    throw new TwoFactorError(400, "Invalid authentication code");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await UserModel.updateOne(
+    { _id: userId },
+    {
+      $set: {
+        two_factor_enabled: true,
+        two_factor_enabled_at: new Date(),
+        two_factor_secret: user.two_factor_pending_secret,
+        two_factor_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+        two_factor_last_used_step: step,
+      },
+      $unset: { two_factor_pending_secret: "" },
+    }
+  );
+
+  console.log(`🔐 Two-factor authentication enabled for user ${userId}`);
+  return recoveryCodes;
+}
+
+// Locks the second factor after this many invalid codes in a row
+const MAX_FAILED_CODES = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Check a code from the authenticator app or an unused recovery code.
+ * Each code is accepted once: an app code cannot be replayed within its
+ * time window and a recovery code is spent. Returns which kind matched, or
+ * null. After MAX_FAILED_CODES invalid codes every code is refused for a
+ * while, so six-digit codes cannot be guessed through any caller.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: unknown
+): Promise<"totp" | "recovery" | null> {
+  if (typeof code !== "string" || !code.trim()) return null;
+
+  await connectToDatabase();
+
+  const user: any = await UserModel.findOne({
+    _id: userId,
+    two_factor_enabled: true,
+  })
+    .select("+two_factor_secret +two_factor_locked_until")
+    .lean();
+  if (!user?.two_factor_secret) return null;
+
+  const lockedFor = user.two_factor_locked_until
+    ? new Date(user.two_factor_locked_until).getTime() - Date.now()
+    : 0;
+  if (lockedFor > 0) {
+    throw new TwoFactorError(
+      429,
+      `Too many invalid authentication codes. Try again in ${Math.ceil(lockedFor / 60000)} minutes.`,
+      "TWO_FACTOR_LOCKED"
+    );
+  }
+
+  const method = await matchSecondFactor(userId, user, code);
+  if (method) {
+    await UserModel.updateOne(
+      { _id: userId, two_factor_failed_attempts: { $gt: 0 } },
+      { $set: { two_factor_failed_attempts: 0 } }
+    );
+  } else {
+    await recordFailedCode(userId);
+  }
+  return method;
+}
+
+async function matchSecondFactor(
+  userId: string,
+  user: any,
+  code: string
+): Promise<"totp" | "recovery" | null> {
+  if (isRecoveryCodeFormat(code)) {
+    const hash = hashRecoveryCode(code);
+    const result = await UserModel.updateOne(
+      { _id: userId, two_factor_recovery_codes: hash },
+      { $pull: { two_factor_recovery_codes: hash } }
+    );
+    if (result.modifiedCount > 0) {
+      console.log(`🔐 Recovery code used by user ${userId}`);
+      return "recovery";
+    }
+    return null;
+  }
+
+  const step = verifyTotpCode(decryptTotpSecret(user.two_factor_secret), code);
+  if (step === null) return null;
+
+  // Conditional update so two requests racing with one code cannot both pass
+  const result = await UserModel.updateOne(
+    { _id: userId, two_factor_last_used_step: { $not: { $gte: step } } },
+    { $set: { two_factor_last_used_step: step } }
+  );
+  return result.modifiedCount > 0 ? "totp" : null;
+}
+
+// Count an invalid code, locking the second factor once too many in a row
+// have failed
+async function recordFailedCode(userId: string) {
+  const user: any = await UserModel.findOneAndUpdate(
+    { _id: userId },
+    { $inc: { two_factor_failed_attempts: 1 } },
+    { new: true }
+  )
+    .select("+two_factor_failed_attempts")
+    .lean();
+
+  if (user && user.two_factor_failed_attempts >= MAX_FAILED_CODES) {
+    await UserModel.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          two_factor_failed_attempts: 0,
+          two_factor_locked_until: new Date(Date.now() + LOCKOUT_MS),
+        },
+      }
+    );
+    console.warn(
+      `🔒 Second factor locked for user ${userId} after ${MAX_FAILED_CODES} invalid codes`
+    );
+  }
+}
+
+/**
+ * Replace the recovery codes, e.g. after some were used. Requires a current
+ * code.
+ */
+export async function regenerateRecoveryCodes(
+  userId: string,
+  code: unknown
+): Promise<string[]> {
+  if (!(await verifySecondFactor(userId, code))) {
+    throw new TwoFactorError(400, "Invalid authentication code");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await UserModel.updateOne(
+    { _id: userId },
+    { $set: { two_factor_recovery_codes: recoveryCodes.map(hashRecoveryCode) } }
+  );
+  return recoveryCodes;
+}
+
+/**
+ * Turn two-factor authentication off. Refused for roles that require it.
+ */
+export async function disableTwoFactor(
+  user: AuthUser,
+  code: unknown
+): Promise<void> {
+  if (isTwoFactorRequired(user.role)) {
+    throw new TwoFactorError(
+      403,
+      "Two-factor authentication is required for your role"
+    );
+  }
+  if (!(await verifySecondFactor(user.id, code))) {
+    throw new TwoFactorError(400, "Invalid authentication code");
+  }
+
+  await UserModel.updateOne(
+    { _id: user.id },
+    {
+      $set: { two_factor_enabled: false },
+      $unset: {
+        two_factor_enabled_at: "",
+        two_factor_secret: "",
+        two_factor_pending_secret: "",
+        two_factor_recovery_codes: "",
+        two_factor_last_used_step: "",
+        two_factor_failed_attempts: "",
+        two_factor_locked_until: "",
+      },
+    }
+  );
+  console.log(`🔓 Two-factor authentication disabled for user ${user.id}`);
+}
+
+/**
+ * Re-authenticate the caller's session with a second-factor code, opening
+ * the step-up window for controlled-drug actions
+ */
+export async function recordStepUp(user: AuthUser, code: unknown) {
+  if (!(await verifySecondFactor(user.id, code))) {
+    throw new TwoFactorError(400, "Invalid authentication code");
+  }
+
+  const stepUpAt = new Date();
+  await SessionModel.updateOne(
+    { _id: user.sessionId, user_id: user.id, revoked_at: null },
+    { $set: { step_up_at: stepUpAt } }
+  );
+  return {
+    stepUpAt,
+    expiresAt: new Date(stepUpAt.getTime() + STEP_UP_WINDOW_MS),
+  };
+}
+
+/**
+ * Refuse the action unless the caller's session re-authenticated within
+ * the step-up window. The client answers STEP_UP_REQUIRED by asking for a
+ * code, posting it to /api/auth/step-up and retrying.
+ */
+export async function assertRecentStepUp(user: AuthUser): Promise<void> {
+  await connectToDatabase();
+
+  const session = user.sessionId
+    ? await SessionModel.exists({
+        _id: user.sessionId,
+        user_id: user.id,
+        revoked_at: null,
+        step_up_at: { $gte: new Date(Date.now() - STEP_UP_WINDOW_MS) },
+      })
+    : null;
+
+  if (!session) {
+    throw new TwoFactorError(
+      403,
+      "Enter a code from your authenticator app to confirm this controlled-substance action",
+      "STEP_UP_REQUIRED"
+    );
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Per-user preferences behind the settings pages, and the checks other
+ * routes use to honour them. Settings are exchanged in the camelCase shape
+ * the pages use and stored snake_case.
+ */
+
+import { UserPreferencesModel } from "@/lib/database/preferenceModels";
+import { UserModel } from "@/lib/database/models";
+
+export type PreferenceRole = "patient" | "doctor" | "pharmacist";
+
+type PreferenceSection = "notifications" | "privacy" | "security";
+
+// Settings each role's page shows. Keys outside a role's list are rejected.
+const ROLE_PREFERENCE_KEYS: Record<
+  PreferenceRole,
+  Record<PreferenceSection, string[]>
+> = {
+  patient: {
+    notifications: [
+      "email",
+      "sms",
+      "prescriptionReminders",
+      "appointmentReminders",
+      "refillAlerts",
+    ],
+    privacy: ["shareDataWithDoctors", "allowResearch", "showOnlineStatus"],
+    security: ["loginAlerts"],
+  },
+  doctor: {
+    notifications: [
+      "email",
+      "sms",
+      "newPatientAlerts",
+      "prescriptionAlerts",
+      "appointmentReminders",
+    ],
+    privacy: ["showProfile", "allowNewPatients"],
+    security: ["loginAlerts"],
+  },
+  pharmacist: {
+    notifications: [
+      "email",
+      "sms",
+      "lowStockAlerts",
+      "prescriptionAlerts",
+      "expiryAlerts",
+    ],
+    privacy: ["showProfile", "allowDataSharing"],
+    security: ["loginAlerts"],
+  },
+};
+
+const PREFERENCE_SECTIONS: PreferenceSection[] = [
+  "notifications",
+  "privacy",
+  "security",
+];
+
+export class PreferencesValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreferencesValidationError";
+    Object.setPrototypeOf(this, PreferencesValidationError.prototype);
+  }
+}
+
+const toStoredKey = (key: string) =>
+  key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+
+/**
+ * A role's settings from a stored preferences document (or defaults)
+ */
+async function formatPreferences(
+  record: any,
+  role: PreferenceRole,
+  userId: string
+) {
+  const settings: Record<string, Record<string, boolean>> = {};
+  for (const section of PREFERENCE_SECTIONS) {
+    settings[section] = {};
+    for (const key of ROLE_PREFERENCE_KEYS[role][section]) {
+      settings[section][key] = record[section]?.[toStoredKey(key)];
+    }
+  }
+  // Reported for the settings pages; enrolment goes through
+  // /api/auth/two-factor
+  const user: any = await UserModel.findById(userId)
+    .select("two_factor_enabled")
+    .lean();
+  settings.security.twoFactorEnabled = Boolean(user?.two_factor_enabled);
+  return settings;
+}
+
+/**
+ * The user's settings, with defaults for anything never saved
+ */
+export async function getUserPreferences(userId: string, role: PreferenceRole) {
+  const record =
+    (await UserPreferencesModel.findOne({ user_id: userId }).lean()) ||
+    new UserPreferencesModel({ user_id: userId }).toObject();
+  return formatPreferences(record, role, userId);
+}
+
+/**
+ * Validate and save the notifications, privacy and security sections of a
+ * settings update. Sections left out are unchanged; other top-level keys
+ * are ignored so routes can handle role fields such as availability.
+ */
+export async function updateUserPreferences(
+  userId: string,
+  role: PreferenceRole,
+  body: any
+) {
+  const updates: Record<string, boolean> = {};
+
+  for (const section of PREFERENCE_SECTIONS) {
+    const values = body?.[section];
+    if (values === undefined) continue;
+    if (!values || typeof values !== "object" || Array.isArray(values)) {
+      throw new PreferencesValidationError(`${section} must be an object`);
+    }
+
+    for (const [key, value] of Object.entries(values)) {
+      // Read-only here, so the pages can send back what they loaded
+      if (section === "security" && key === "twoFactorEnabled") {
+        continue;
+      }
+      if (!ROLE_PREFERENCE_KEYS[role][section].includes(key)) {
+        throw new PreferencesValidationError(
+          `Unknown setting ${section}.${key}`
+        );
+      }
+      if (typeof value !== "boolean") {
+        throw new PreferencesValidationError(
+          `${section}.${key} must be true or false`
+        );
+      }
+      updates[`${section}.${toStoredKey(key)}`] = value;
+    }
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return getUserPreferences(userId, role);
+  }
+
+  const record = await UserPreferencesModel.findOneAndUpdate(
+    { user_id: userId },
+    { $set: updates },
+    { new: true, upsert: true, setDefaultsOnInsert: true, lean: true }
+  );
+  return formatPreferences(record, role, userId);
+}
+
+/**
+ * Of the given users, those who switched off a stored preference such as
+ * "notifications.refill_alerts". Users who never saved settings have the
+ * defaults, so are never included for flags that default on.
+ */
+export async function findUsersWithPreferenceOff(
+  userIds: any[],
+  storedPath: string
+): Promise<Set<string>> {
+  if (userIds.length === 0) return new Set();
+
+  const records = await UserPreferencesModel.find({
+    user_id: { $in: userIds },
+    [storedPath]: false,
+  })
+    .select("user_id")
+    .lean();
+  return new Set(records.map((r: any) => r.user_id.toString()));
+}
+
+/**
+ * Patient user IDs, of those given, who do not share their records with
+ * doctors. Doctors still see identity, contact details and allergies so
+ * they can prescribe safely, but not medical history.
+ */
+export function findPatientsWithholdingData(patientUserIds: any[]) {
+  return findUsersWithPreferenceOff(
+    patientUserIds,
+    "privacy.share_data_with_doctors"
+  );
+}
+
+/**
+ * Whether a doctor accepts prescribing to patients they have not treated
+ */
+export async function isAcceptingNewPatients(doctorUserId: any) {
+  const off = await findUsersWithPreferenceOff(
+    [doctorUserId],
+    "privacy.allow_new_patients"
+  );
+  return off.size === 0;
+}
@@ -9,6 +9,7 @@ export interface User {
   createdAt: string;
   updatedAt: string;
   walletAddress?: string;
+  twoFactorEnabled?: boolean;
 
   // Role-specific fields
   licenseNumber?: string; // for doctors and pharmacists
@@ -25,13 +26,19 @@ export interface User {
   accessLevel?: string; // for admins
 }
 
-export type UserRole = "patient" | "doctor" | "pharmacist" | "admin";
+// auditor and manufacturer accounts are provisioned by an admin and only
+// use the reporting and traceability APIs
+export type UserRole =
+  "patient" | "doctor" | "pharmacist" | "admin" | "auditor" | "manufacturer";
 
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  // The password was accepted and the account's authenticator code is
+  // needed to finish signing in
+  twoFactorRequired: boolean;
 }
 
 export interface LoginRequest {
@@ -7,12 +7,30 @@ export interface User {
   username: string;
   address?: string;
   passport_photo?: string;
-  role: "doctor" | "pharmacist" | "patient" | "admin";
+  role:
+    | "doctor"
+    | "pharmacist"
+    | "patient"
+    | "admin"
+    | "auditor"
+    | "manufacturer";
   is_active: boolean;
+  email_verified?: boolean;
+  two_factor_enabled?: boolean;
+  two_factor_enabled_at?: Date;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface LicenseDocument {
+  _id?: string;
+  file_name: string;
+  original_name: string;
+  mime_type: string;
+  size: number;
+  uploaded_at: Date;
+}
+
 export interface Doctor {
   doctor_id: number;
   user_id: number;
@@ -20,6 +38,11 @@ export interface Doctor {
   specialization?: string;
   contact_info?: ContactInfo;
   verification_status: "pending" | "verified" | "rejected";
+  license_documents?: LicenseDocument[];
+  reviewed_by?: number;
+  reviewed_at?: Date;
+  rejection_reason?: string;
+  onchain_role_tx_hash?: string;
   user?: User;
 }
 
@@ -47,6 +70,11 @@ export interface Pharmacist {
   pharmacy_name?: string; // Deprecated - use pharmacy.name
   contact_info?: ContactInfo;
   verification_status: "pending" | "verified" | "rejected";
+  license_documents?: LicenseDocument[];
+  reviewed_by?: number;
+  reviewed_at?: Date;
+  rejection_reason?: string;
+  onchain_role_tx_hash?: string;
   user?: User;
   pharmacy?: Pharmacy; // Related pharmacy
 }
@@ -58,14 +86,23 @@ export interface Patient {
   medical_record_number?: string;
   contact_info?: ContactInfo;
   emergency_contact?: EmergencyContact;
-  allergies?: string;
+  allergies?: PatientAllergy[];
   medical_history?: string;
   user?: User;
 }
 
+// A recorded allergy, screened when prescribing and dispensing
+export interface PatientAllergy {
+  substance: string;
+  reaction?: string;
+  severity: "mild" | "moderate" | "severe";
+  recorded_at?: Date;
+}
+
 export interface Drug {
   drug_id: number;
   pharmacy_id?: number; // Link to pharmacy - drugs are pharmacy-specific
+  formulary_id?: number; // Formulary product this stock entry holds
   name: string;
   generic_name?: string;
   dosage_form:
@@ -78,9 +115,10 @@ export interface Drug {
     | "inhaler";
   strength: string;
   manufacturer: string;
-  batch_number?: string;
-  expiry_date: Date;
-  stock_quantity: number;
+  batch_number?: string; // Earliest-expiring lot in stock
+  expiry_date: Date; // Earliest expiry among lots in stock
+  stock_quantity: number; // Total across lots
+  lots?: DrugLot[];
   minimum_stock_level: number;
   unit_price?: number;
   category?: string;
@@ -98,11 +136,45 @@ export interface Drug {
   pharmacy?: Pharmacy; // Related pharmacy
 }
 
+// A received lot of a drug, with its own quantity and expiry
+export interface DrugLot {
+  lot_id: number;
+  batch_number: string;
+  expiry_date: Date;
+  quantity: number;
+  received_at: Date;
+  drug_batch_id?: number; // Traceability DrugBatch
+  recall_id?: number; // Set while the batch is under recall
+}
+
+// One prescribing visit; the drugs on it are Prescription lines
+export interface PrescriptionHeader {
+  header_id: number;
+  patient_id: number;
+  doctor_id: number;
+  diagnosis: string;
+  diagnosis_codes: string[]; // ICD-10
+  notes?: string;
+  status: "pending" | "partially_dispensed" | "dispensed" | "cancelled";
+  line_count: number;
+  date_issued: Date;
+  signature_hash: string;
+  // On-chain blockchain fields
+  onchain_tx_hash?: string;
+  onchain_block_number?: number;
+  onchain_header_id?: number;
+  // Related entities
+  lines?: Prescription[];
+}
+
 export interface Prescription {
   prescription_id: number;
+  header_id?: number; // Absent on prescriptions written before headers
+  line_number?: number;
   patient_id: number;
   doctor_id: number;
-  drug_id: number;
+  formulary_id?: number; // Prescribed formulary product
+  drug_id?: number; // Stock entry dispensed from
   pharmacy_id?: number; // Target pharmacy for dispensing
   pharmacist_id?: number;
   quantity_prescribed: number;
@@ -112,7 +184,20 @@ export interface Prescription {
   duration?: string;
   date_issued: Date;
   date_dispensed?: Date;
-  status: "pending" | "verified" | "dispensed" | "rejected" | "expired";
+  status:
+    | "pending"
+    | "verified"
+    | "partially_dispensed"
+    | "dispensed"
+    | "rejected"
+    | "expired";
+  fills?: PrescriptionFill[];
+  // Refill authorization
+  refills_authorized: number;
+  refills_used: number;
+  refill_interval_days: number;
+  next_fill_date?: Date;
+  refill_requests?: RefillRequest[];
   notes?: string;
   blockchain_hash?: string;
   // On-chain blockchain fields
@@ -126,10 +211,39 @@ export interface Prescription {
   pharmacist?: Pharmacist;
 }
 
+// A single dispensing event against a prescription
+export interface PrescriptionFill {
+  quantity: number;
+  dispensed_at: Date;
+  pharmacist_id: number;
+  inventory_transaction_id?: number;
+  refill_number: number; // 0 for the original fill cycle
+  blockchain_hash?: string;
+  verification_hash?: string; // Encoded in the label's QR code
+  notes?: string;
+}
+
+// Patient request for a further fill, approved or denied by the prescriber
+export interface RefillRequest {
+  request_id: number;
+  status: "pending" | "approved" | "denied";
+  requested_at: Date;
+  note?: string;
+  responded_at?: Date;
+  responded_by?: number;
+  response_note?: string;
+}
+
 export interface PrescriptionAudit {
   audit_id: number;
   prescription_id: number;
-  action: "created" | "verified" | "dispensed" | "rejected" | "modified";
+  action:
+    | "created"
+    | "verified"
+    | "dispensed"
+    | "rejected"
+    | "modified"
+    | "screening_override";
   performed_by: number;
   blockchain_transaction_hash?: string;
   timestamp: Date;
@@ -144,27 +258,55 @@ export interface InventoryTransaction {
     | "dispensed"
     | "expired"
     | "damaged"
-    | "returned";
+    | "returned"
+    | "destroyed";
   quantity: number;
   prescription_id?: number;
   performed_by: number;
   blockchain_transaction_hash?: string;
+  lots?: InventoryTransactionLot[];
   timestamp: Date;
   notes?: string;
 }
 
+export interface InventoryTransactionLot {
+  lot_id?: number;
+  batch_number: string;
+  expiry_date?: Date;
+  quantity: number;
+}
+
 export interface Notification {
   notification_id: number;
   user_id: number;
   type:
+    | "prescription_created"
+    | "prescription_verified"
+    | "prescription_dispensed"
+    | "prescription_rejected"
+    | "refill_denied"
+    | "prescription_expiring"
+    | "prescription_expired"
     | "prescription_ready"
     | "low_stock"
+    | "drug_expiring"
     | "drug_expired"
-    | "prescription_expired"
+    | "fraud_alert"
+    | "login_alert"
+    | "emergency_access"
+    | "batch_recall"
     | "system_alert";
+  severity: "info" | "success" | "warning" | "critical";
   title: string;
   message: string;
+  link?: string;
+  related_entity?: {
+    type: string;
+    id: string;
+  };
+  dedupe_key?: string;
   is_read: boolean;
+  read_at?: Date;
   created_at: Date;
 }
 
@@ -213,7 +355,7 @@ export interface PatientRegistrationData extends UserRegistrationData {
   date_of_birth?: Date;
   contact_info?: ContactInfo;
   emergency_contact?: EmergencyContact;
-  allergies?: string;
+  allergies?: string; // Comma-separated; stored as structured entries
   medical_history?: string;
 }
 
@@ -222,6 +364,8 @@ export interface LoginCredentials {
   email: string;
   password: string;
   role?: "doctor" | "pharmacist" | "patient" | "admin";
+  // Authenticator or recovery code, for accounts with two-factor enabled
+  twoFactorCode?: string;
 }
 
 export interface AuthResponse {
@@ -231,6 +375,8 @@ export interface AuthResponse {
   };
   token?: string;
   message?: string;
+  // Machine-readable reason for a failed login, e.g. EMAIL_NOT_VERIFIED
+  code?: string;
 }
 
 // Prescription workflow interfaces (based on Figure 3.2)
@@ -374,6 +520,8 @@ export interface MovementRecord {
   transaction_hash?: string;
   notes?: string;
   prescription_id?: number;
+  recall_id?: number; // Returns and destruction of recalled stock
+  pharmacy_id?: number;
   onchain_movement_id?: number;
   onchain_tx_hash?: string;
   created_at: Date;
@@ -405,13 +553,37 @@ export interface TraceabilityAuditLog {
     | "batch_created"
     | "movement_recorded"
     | "dispensing_recorded"
-    | "verification_performed";
+    | "verification_performed"
+    | "chain_reorg"
+    | "recall_opened"
+    | "recall_closed";
   performed_by: number;
   blockchain_tx_hash?: string;
   timestamp: Date;
   details?: any;
 }
 
+// Recall of a batch; its stock is frozen in every pharmacy while open
+export interface DrugRecall {
+  recall_id: number;
+  batch_id: number;
+  batch_number: string;
+  drug_name: string;
+  reason: string;
+  classification: "class_i" | "class_ii" | "class_iii";
+  status: "open" | "closed";
+  opened_by: number;
+  frozen_quantity: number;
+  patients_notified: number;
+  onchain_tx_hash?: string;
+  onchain_error?: string;
+  closed_by?: number;
+  closed_at?: Date;
+  closing_notes?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface DrugVerificationResult {
   isValid: boolean;
   dispensing?: DispensingRecord;